@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReadingAnalytics } from './ReadingAnalytics';
+import { MemoryAnalyticsSink, type AnalyticsEvent } from './events';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function tracker(
+  config: ConstructorParameters<typeof ReadingAnalytics>[0] = {}
+) {
+  const clock = { now: 0 };
+  const analytics = new ReadingAnalytics({
+    trackVisibility: false,
+    now: () => clock.now,
+    ...config,
+  });
+  return { analytics, clock };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ── Sessions ────────────────────────────────────────────────────────
+
+describe('ReadingAnalytics', () => {
+  it('tracks several documents at once', () => {
+    const { analytics, clock } = tracker();
+    analytics.startSession('doc-1');
+    analytics.startSession('doc-2');
+    analytics.trackBlockView('doc-1', 'a1');
+    analytics.trackBlockView('doc-2', 'b1');
+    clock.now = 3000;
+    analytics.trackScroll('doc-2', 1);
+
+    const first = analytics.endSession('doc-1');
+    expect(first?.documentId).toBe('doc-1');
+    expect(first?.blockTimes.get('a1')).toBe(3000);
+    expect(analytics.getActiveSession('doc-2')).not.toBeNull();
+
+    clock.now = 4000;
+    const second = analytics.endSession('doc-2');
+    expect(second?.totalTimeMs).toBe(4000);
+    expect(second?.reachedEnd).toBe(true);
+  });
+
+  it('pauses every session while hidden', () => {
+    const { analytics, clock } = tracker();
+    analytics.startSession('doc-1');
+    analytics.trackBlockView('doc-1', 'a1');
+    clock.now = 1000;
+    analytics.setVisibility(false);
+    clock.now = 100000;
+    analytics.setVisibility(true);
+    clock.now = 101000;
+
+    expect(analytics.endSession('doc-1')?.totalTimeMs).toBe(2000);
+  });
+
+  it('starts sessions paused when the page is hidden', () => {
+    const { analytics, clock } = tracker();
+    analytics.setVisibility(false);
+    analytics.startSession('doc-1');
+    clock.now = 5000;
+    expect(analytics.endSession('doc-1')?.totalTimeMs).toBe(0);
+  });
+
+  it('ignores tracking without an active session', () => {
+    const { analytics } = tracker();
+    analytics.trackBlockView('doc-1', 'a1');
+    analytics.trackScroll('doc-1', 0.5);
+    expect(analytics.endSession('doc-1')).toBeNull();
+    expect(analytics.getAnalytics('doc-1')).toBeNull();
+  });
+
+  it('exposes the heatmap only past the k-anonymity threshold', () => {
+    const { analytics, clock } = tracker({ minHeatmapSessions: 3 });
+    const read = () => {
+      analytics.startSession('doc-1');
+      analytics.trackBlockView('doc-1', 'intro');
+      clock.now += 1000;
+      analytics.endSession('doc-1');
+    };
+    read();
+    read();
+    expect(analytics.getEngagementHeatmap('doc-1').size).toBe(0);
+    read();
+    expect(analytics.getEngagementHeatmap('doc-1')).toEqual(
+      new Map([['intro', 1]])
+    );
+  });
+
+  it('withholds analytics and sessions below the threshold', () => {
+    const { analytics, clock } = tracker({ minHeatmapSessions: 2 });
+    const read = (...blockIds: string[]) => {
+      analytics.startSession('doc-1');
+      for (const blockId of blockIds) {
+        analytics.trackBlockView('doc-1', blockId);
+        clock.now += 1000;
+      }
+      analytics.endSession('doc-1');
+    };
+    read('intro', 'rare');
+    expect(analytics.getAnalytics('doc-1')).toBeNull();
+    expect(analytics.getSessions('doc-1')).toEqual([]);
+
+    read('intro');
+    const summary = analytics.getAnalytics('doc-1');
+    expect(summary?.totalSessions).toBe(2);
+    expect(Array.from(summary!.blockEngagement.keys())).toEqual(['intro']);
+    expect(summary?.dropOffPoints.map((p) => p.blockId)).toEqual(['intro']);
+    expect(analytics.getSessions('doc-1')).toHaveLength(2);
+  });
+
+  it('keeps at most maxSessions ended sessions per document', () => {
+    const { analytics, clock } = tracker({
+      maxSessions: 2,
+      minHeatmapSessions: 1,
+    });
+    const first = analytics.startSession('doc-1');
+    for (let i = 0; i < 3; i++) {
+      clock.now += 1000;
+      analytics.startSession('doc-1');
+    }
+    analytics.endSession('doc-1');
+
+    expect(analytics.getSession(first)).toBeNull();
+    expect(analytics.getSessions('doc-1')).toHaveLength(2);
+  });
+});
+
+// ── Sink ────────────────────────────────────────────────────────────
+
+describe('ReadingAnalytics sink', () => {
+  it('sends full batches right away and the rest after the interval', async () => {
+    vi.useFakeTimers();
+    const sink = new MemoryAnalyticsSink();
+    const { analytics } = tracker({
+      sink,
+      batchSize: 3,
+      flushIntervalMs: 1000,
+    });
+
+    analytics.startSession('doc-1');
+    analytics.trackBlockView('doc-1', 'a');
+    analytics.trackBlockView('doc-1', 'b');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sink.events).toHaveLength(3);
+
+    analytics.trackBlockView('doc-1', 'c');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sink.events).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.events).toHaveLength(4);
+  });
+
+  it('retries failed batches with backoff', async () => {
+    vi.useFakeTimers();
+    const delivered: AnalyticsEvent[] = [];
+    const write = vi
+      .fn<[AnalyticsEvent[]], Promise<void>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockImplementation(async (events) => {
+        delivered.push(...events);
+      });
+    const onSinkError = vi.fn();
+    const { analytics } = tracker({
+      sink: { write },
+      batchSize: 1,
+      retryDelayMs: 100,
+      onSinkError,
+    });
+
+    analytics.startSession('doc-1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onSinkError).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onSinkError).toHaveBeenCalledTimes(2);
+    expect(delivered).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(delivered).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(delivered.map((e) => e.type)).toEqual(['session-start']);
+  });
+
+  it('drops a batch once retries are exhausted', async () => {
+    vi.useFakeTimers();
+    const onSinkError = vi.fn();
+    const { analytics } = tracker({
+      sink: { write: async () => Promise.reject(new Error('gone')) },
+      batchSize: 1,
+      maxRetries: 1,
+      retryDelayMs: 10,
+      onSinkError,
+    });
+
+    analytics.startSession('doc-1');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(onSinkError.mock.calls.map((call) => call[2])).toEqual([
+      false,
+      true,
+    ]);
+    // The session is kept locally regardless
+    expect(analytics.endSession('doc-1')).not.toBeNull();
+  });
+
+  it('flushes what is queued on destroy', async () => {
+    const sink = new MemoryAnalyticsSink();
+    const { analytics } = tracker({ sink, batchSize: 100 });
+    analytics.startSession('doc-1');
+    analytics.trackBlockView('doc-1', 'a');
+    await analytics.destroy();
+    expect(sink.events.map((e) => e.type)).toEqual([
+      'session-start',
+      'block-view',
+      'session-end',
+    ]);
+  });
+
+  it('keeps retrying a failed batch after destroy', async () => {
+    vi.useFakeTimers();
+    const delivered: AnalyticsEvent[] = [];
+    const write = vi
+      .fn<[AnalyticsEvent[]], Promise<void>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockImplementation(async (events) => {
+        delivered.push(...events);
+      });
+    const { analytics } = tracker({
+      sink: { write },
+      batchSize: 100,
+      retryDelayMs: 100,
+    });
+
+    analytics.startSession('doc-1');
+    await analytics.destroy();
+    expect(delivered).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(delivered.map((e) => e.type)).toEqual([
+      'session-start',
+      'session-end',
+    ]);
+  });
+});
@@ -7,301 +7,351 @@
  *
  * All privacy-preserving: aggregated, never individual.
  * Stored as embeddings, never as user profiles.
+ *
+ * The tracker records events (see `events.ts`) for any number of
+ * documents at once, one session per document. Events are kept until
+ * their session ends, when it is replayed once and kept as a session;
+ * when a sink is configured, events are also sent to it in batches,
+ * and failed batches are retried with backoff. Statistics are computed
+ * by the pure functions in `aggregate.ts`, and nothing seen by fewer
+ * than `minHeatmapSessions` sessions is reported (k-anonymity).
  */
 
-// ── Types ───────────────────────────────────────────────────────────
+import {
+  DEFAULT_MIN_SESSIONS,
+  engagementHeatmap,
+  replaySessions,
+  summarizeDocument,
+  withholdSmallGroups,
+  type DocumentAnalytics,
+  type ReadingSession,
+} from './aggregate';
+import type { AnalyticsEvent, AnalyticsSink, DeviceType } from './events';
 
-export interface ReadingSession {
-  /** Anonymous session ID (not tied to identity) */
-  readonly sessionId: string;
-  /** Document ID */
-  readonly documentId: string;
-  /** Session start */
-  readonly startedAt: string;
-  /** Session end */
-  endedAt?: string;
-  /** Total time spent reading (ms) */
-  totalTimeMs: number;
-  /** Scroll depth (0-1) */
-  maxScrollDepth: number;
-  /** Blocks viewed */
-  blocksViewed: Set<string>;
-  /** Per-block reading time */
-  blockTimes: Map<string, number>;
-  /** Blocks re-read (scrolled back to) */
-  blocksReRead: Set<string>;
-  /** Whether the reader reached the end */
-  reachedEnd: boolean;
-  /** Device type */
-  readonly deviceType: 'mobile' | 'tablet' | 'desktop';
-}
+// ── Types ───────────────────────────────────────────────────────────
 
-export interface DocumentAnalytics {
-  /** Document ID */
-  readonly documentId: string;
-  /** Total unique sessions */
-  totalSessions: number;
-  /** Average reading time (ms) */
-  avgReadingTimeMs: number;
-  /** Average scroll depth (0-1) */
-  avgScrollDepth: number;
-  /** Completion rate (reached end) */
-  completionRate: number;
-  /** Per-block engagement */
-  blockEngagement: Map<string, BlockEngagement>;
-  /** Drop-off points (blocks where readers leave) */
-  dropOffPoints: Array<{ blockId: string; dropRate: number }>;
-  /** Most re-read blocks */
-  mostReRead: Array<{ blockId: string; reReadRate: number }>;
-  /** Device breakdown */
-  deviceBreakdown: { mobile: number; tablet: number; desktop: number };
+export interface ReadingAnalyticsConfig {
+  /** Where events are sent (default: none; events stay local) */
+  sink?: AnalyticsSink;
+  /** Events per batch; a full batch is sent right away (default: 20) */
+  batchSize: number;
+  /** Longest a partial batch waits before it is sent (default: 5000) */
+  flushIntervalMs: number;
+  /** Retries of a failing batch before it is dropped (default: 5) */
+  maxRetries: number;
+  /** Delay before the first retry; doubles each time (default: 1000) */
+  retryDelayMs: number;
+  /** Most events waiting for the sink; the oldest are dropped (default: 1000) */
+  maxQueueSize: number;
+  /** Most ended sessions kept per document; the oldest are dropped (default: 1000) */
+  maxSessions: number;
+  /**
+   * Sessions a document or block needs before its statistics, sessions
+   * or heatmap are reported (default: 5)
+   */
+  minHeatmapSessions: number;
+  /** Pause sessions while the page is hidden (default: true) */
+  trackVisibility: boolean;
+  /** Called when a batch fails; `dropped` once retries are exhausted */
+  onSinkError?: (
+    error: Error,
+    batch: AnalyticsEvent[],
+    dropped: boolean
+  ) => void;
+  /** Clock (default: Date.now) */
+  now?: () => number;
 }
 
-export interface BlockEngagement {
-  /** Average time spent on this block (ms) */
-  avgTimeMs: number;
-  /** Percentage of readers who viewed this block */
-  viewRate: number;
-  /** Percentage of readers who re-read this block */
-  reReadRate: number;
-  /** Relative engagement score (0-1, compared to other blocks) */
-  engagementScore: number;
-}
+const DEFAULT_CONFIG: ReadingAnalyticsConfig = {
+  batchSize: 20,
+  flushIntervalMs: 5000,
+  maxRetries: 5,
+  retryDelayMs: 1000,
+  maxQueueSize: 1000,
+  maxSessions: 1000,
+  minHeatmapSessions: DEFAULT_MIN_SESSIONS,
+  trackVisibility: true,
+};
 
 // ── Reading Analytics Engine ────────────────────────────────────────
 
 export class ReadingAnalytics {
-  private sessions: Map<string, ReadingSession> = new Map();
-  private activeSession: ReadingSession | null = null;
-  private analytics: Map<string, DocumentAnalytics> = new Map();
-  private scrollCheckInterval: ReturnType<typeof setInterval> | null = null;
-  private lastViewedBlockId: string | null = null;
-  private lastBlockTime: number = 0;
+  private config: ReadingAnalyticsConfig;
+  private now: () => number;
+  /** Events of each open session, by session ID */
+  private open: Map<string, AnalyticsEvent[]> = new Map();
+  /** Ended sessions per document, oldest first, by session ID */
+  private ended: Map<string, Map<string, ReadingSession>> = new Map();
+  /** Active session ID per document */
+  private active: Map<string, string> = new Map();
+  private visible = true;
+
+  /** Events not yet accepted by the sink, oldest first */
+  private queue: AnalyticsEvent[] = [];
+  private flushing: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private visibilityHandler: (() => void) | null = null;
+
+  constructor(config: Partial<ReadingAnalyticsConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.now = config.now ?? Date.now;
+
+    if (this.config.trackVisibility && typeof document !== 'undefined') {
+      this.visible = document.visibilityState !== 'hidden';
+      this.visibilityHandler = () =>
+        this.setVisibility(document.visibilityState !== 'hidden');
+      document.addEventListener('visibilitychange', this.visibilityHandler);
+    }
+  }
 
   /**
-   * Start a reading session.
+   * Start a reading session for a document, ending any session
+   * already open for it. Returns the anonymous session ID.
    */
-  startSession(documentId: string): ReadingSession {
-    const session: ReadingSession = {
-      sessionId: `rs-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  startSession(documentId: string): string {
+    this.endSession(documentId);
+    const sessionId = `rs-${this.now()}-${Math.random().toString(36).slice(2, 6)}`;
+    this.active.set(documentId, sessionId);
+    this.record({
+      type: 'session-start',
+      sessionId,
       documentId,
-      startedAt: new Date().toISOString(),
-      totalTimeMs: 0,
-      maxScrollDepth: 0,
-      blocksViewed: new Set(),
-      blockTimes: new Map(),
-      blocksReRead: new Set(),
-      reachedEnd: false,
+      at: this.now(),
       deviceType: this.detectDevice(),
-    };
-
-    this.activeSession = session;
-    this.sessions.set(session.sessionId, session);
-    this.lastBlockTime = Date.now();
-
-    // Track time in 1-second intervals
-    this.scrollCheckInterval = setInterval(() => {
-      if (this.activeSession) {
-        this.activeSession.totalTimeMs += 1000;
-      }
-    }, 1000);
-
-    return session;
+    });
+    if (!this.visible) {
+      this.record({
+        type: 'visibility',
+        sessionId,
+        documentId,
+        at: this.now(),
+        visible: false,
+      });
+    }
+    return sessionId;
   }
 
   /**
    * Track that a block is now visible (in viewport).
    */
-  trackBlockView(blockId: string): void {
-    if (!this.activeSession) return;
-
-    // Record time spent on previous block
-    if (this.lastViewedBlockId && this.lastViewedBlockId !== blockId) {
-      const elapsed = Date.now() - this.lastBlockTime;
-      const existing =
-        this.activeSession.blockTimes.get(this.lastViewedBlockId) ?? 0;
-      this.activeSession.blockTimes.set(
-        this.lastViewedBlockId,
-        existing + elapsed
-      );
-    }
-
-    // Check for re-read
-    if (this.activeSession.blocksViewed.has(blockId)) {
-      this.activeSession.blocksReRead.add(blockId);
-    }
-
-    this.activeSession.blocksViewed.add(blockId);
-    this.lastViewedBlockId = blockId;
-    this.lastBlockTime = Date.now();
+  trackBlockView(documentId: string, blockId: string): void {
+    const sessionId = this.active.get(documentId);
+    if (!sessionId) return;
+    this.record({
+      type: 'block-view',
+      sessionId,
+      documentId,
+      at: this.now(),
+      blockId,
+    });
   }
 
   /**
-   * Track scroll depth.
+   * Track scroll depth (0-1).
    */
-  trackScroll(depth: number): void {
-    if (!this.activeSession) return;
-    this.activeSession.maxScrollDepth = Math.max(
-      this.activeSession.maxScrollDepth,
-      depth
-    );
+  trackScroll(documentId: string, depth: number): void {
+    const sessionId = this.active.get(documentId);
+    if (!sessionId) return;
+    this.record({
+      type: 'scroll',
+      sessionId,
+      documentId,
+      at: this.now(),
+      depth: Math.min(1, Math.max(0, depth)),
+    });
+  }
 
-    if (depth >= 0.95) {
-      this.activeSession.reachedEnd = true;
+  /**
+   * Pause (hidden) or resume (visible) every active session. Called
+   * automatically on `visibilitychange` when `trackVisibility` is on.
+   */
+  setVisibility(visible: boolean): void {
+    if (visible === this.visible) return;
+    this.visible = visible;
+    for (const [documentId, sessionId] of this.active) {
+      this.record({
+        type: 'visibility',
+        sessionId,
+        documentId,
+        at: this.now(),
+        visible,
+      });
     }
   }
 
   /**
-   * End the current reading session and aggregate analytics.
+   * End a document's reading session. Returns the session as replayed
+   * from its events, or null if none was active.
    */
-  endSession(): ReadingSession | null {
-    if (!this.activeSession) return null;
-
-    // Record last block time
-    if (this.lastViewedBlockId) {
-      const elapsed = Date.now() - this.lastBlockTime;
-      const existing =
-        this.activeSession.blockTimes.get(this.lastViewedBlockId) ?? 0;
-      this.activeSession.blockTimes.set(
-        this.lastViewedBlockId,
-        existing + elapsed
-      );
+  endSession(documentId: string): ReadingSession | null {
+    const sessionId = this.active.get(documentId);
+    if (!sessionId) return null;
+    this.active.delete(documentId);
+    this.record({ type: 'session-end', sessionId, documentId, at: this.now() });
+
+    const session = replaySessions(this.open.get(sessionId)!)[0];
+    this.open.delete(sessionId);
+    const sessions =
+      this.ended.get(documentId) ?? new Map<string, ReadingSession>();
+    sessions.set(sessionId, session);
+    if (sessions.size > this.config.maxSessions) {
+      const [oldest] = sessions.keys();
+      sessions.delete(oldest);
     }
+    this.ended.set(documentId, sessions);
+    return session;
+  }
 
-    this.activeSession.endedAt = new Date().toISOString();
+  /** Active session ID for a document, if any */
+  getActiveSession(documentId: string): string | null {
+    return this.active.get(documentId) ?? null;
+  }
 
-    if (this.scrollCheckInterval) {
-      clearInterval(this.scrollCheckInterval);
-      this.scrollCheckInterval = null;
+  /** A session started by this instance; open sessions count up to now */
+  getSession(sessionId: string): ReadingSession | null {
+    const events = this.open.get(sessionId);
+    if (events) return replaySessions(events, { asOf: this.now() })[0];
+    for (const sessions of this.ended.values()) {
+      const session = sessions.get(sessionId);
+      if (session) return session;
     }
+    return null;
+  }
 
-    const session = this.activeSession;
-    this.activeSession = null;
-    this.lastViewedBlockId = null;
-
-    // Aggregate into document analytics
-    this.aggregate(session);
-
-    return session;
+  /**
+   * A document's sessions, oldest first, for the reports in
+   * `reports.ts`; open sessions count up to now. Empty until the
+   * document has `minHeatmapSessions` sessions.
+   */
+  getSessions(documentId: string): ReadingSession[] {
+    const sessions = this.sessionsOf(documentId);
+    return sessions.length >= this.config.minHeatmapSessions ? sessions : [];
   }
 
   /**
-   * Get analytics for a document.
+   * Get analytics for a document, from this instance's sessions. Null
+   * until the document has `minHeatmapSessions` sessions; blocks seen
+   * by fewer are left out.
    */
   getAnalytics(documentId: string): DocumentAnalytics | null {
-    return this.analytics.get(documentId) ?? null;
+    const sessions = this.sessionsOf(documentId);
+    if (sessions.length === 0) return null;
+    return withholdSmallGroups(
+      summarizeDocument(documentId, sessions),
+      this.config.minHeatmapSessions
+    );
   }
 
   /**
-   * Get the engagement heatmap — which blocks are hot/cold.
+   * Get the engagement heatmap — which blocks are hot/cold. Blocks
+   * seen by fewer than `minHeatmapSessions` sessions are left out.
    */
   getEngagementHeatmap(documentId: string): Map<string, number> {
-    const docAnalytics = this.analytics.get(documentId);
-    if (!docAnalytics) return new Map();
+    const analytics = this.getAnalytics(documentId);
+    if (!analytics) return new Map();
+    return engagementHeatmap(analytics, this.config.minHeatmapSessions);
+  }
 
-    const heatmap = new Map<string, number>();
-    for (const [blockId, engagement] of docAnalytics.blockEngagement) {
-      heatmap.set(blockId, engagement.engagementScore);
+  /**
+   * Send queued events to the sink now. Resolves when the queue is
+   * empty or a batch has failed (it is then retried after a delay).
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
     }
-    return heatmap;
+    return this.flushing;
   }
 
   /**
-   * Clean up.
+   * End every session, send what is queued and clean up. A batch that
+   * fails is still retried afterwards, until it is delivered or dropped.
    */
-  destroy(): void {
-    if (this.scrollCheckInterval) clearInterval(this.scrollCheckInterval);
-    this.endSession();
+  async destroy(): Promise<void> {
+    for (const documentId of Array.from(this.active.keys())) {
+      this.endSession(documentId);
+    }
+    if (this.visibilityHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+    await this.flush();
   }
 
   // ── Private ───────────────────────────────────────────────────
 
-  private aggregate(session: ReadingSession): void {
-    let analytics = this.analytics.get(session.documentId);
-
-    if (!analytics) {
-      analytics = {
-        documentId: session.documentId,
-        totalSessions: 0,
-        avgReadingTimeMs: 0,
-        avgScrollDepth: 0,
-        completionRate: 0,
-        blockEngagement: new Map(),
-        dropOffPoints: [],
-        mostReRead: [],
-        deviceBreakdown: { mobile: 0, tablet: 0, desktop: 0 },
-      };
-      this.analytics.set(session.documentId, analytics);
-    }
+  /** Ended sessions of a document, then its open one */
+  private sessionsOf(documentId: string): ReadingSession[] {
+    const sessions = Array.from(this.ended.get(documentId)?.values() ?? []);
+    const active = this.active.get(documentId);
+    if (active) sessions.push(this.getSession(active)!);
+    return sessions;
+  }
 
-    const n = analytics.totalSessions;
-    analytics.totalSessions++;
-
-    // Running averages
-    analytics.avgReadingTimeMs =
-      (analytics.avgReadingTimeMs * n + session.totalTimeMs) / (n + 1);
-    analytics.avgScrollDepth =
-      (analytics.avgScrollDepth * n + session.maxScrollDepth) / (n + 1);
-    analytics.completionRate =
-      (analytics.completionRate * n + (session.reachedEnd ? 1 : 0)) / (n + 1);
-
-    // Device breakdown
-    analytics.deviceBreakdown[session.deviceType]++;
-
-    // Per-block engagement
-    for (const [blockId, timeMs] of session.blockTimes) {
-      const existing = analytics.blockEngagement.get(blockId);
-      if (existing) {
-        const m = existing.viewRate * n; // approximate session count for this block
-        analytics.blockEngagement.set(blockId, {
-          avgTimeMs: (existing.avgTimeMs * m + timeMs) / (m + 1),
-          viewRate: (m + 1) / (n + 1),
-          reReadRate: session.blocksReRead.has(blockId)
-            ? (existing.reReadRate * m + 1) / (m + 1)
-            : (existing.reReadRate * m) / (m + 1),
-          engagementScore: 0, // recalculated below
-        });
-      } else {
-        analytics.blockEngagement.set(blockId, {
-          avgTimeMs: timeMs,
-          viewRate: 1 / (n + 1),
-          reReadRate: session.blocksReRead.has(blockId) ? 1 : 0,
-          engagementScore: 0,
-        });
-      }
+  private record(event: AnalyticsEvent): void {
+    const events = this.open.get(event.sessionId) ?? [];
+    events.push(event);
+    this.open.set(event.sessionId, events);
+    if (!this.config.sink) return;
+
+    this.queue.push(event);
+    const overflow = this.queue.length - this.config.maxQueueSize;
+    if (overflow > 0) this.queue.splice(0, overflow);
+
+    if (this.failures > 0) return; // a retry is already scheduled
+    if (this.queue.length >= this.config.batchSize) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.scheduleFlush(this.config.flushIntervalMs);
     }
+  }
 
-    // Recalculate engagement scores (relative to max)
-    let maxTime = 0;
-    for (const [, engagement] of analytics.blockEngagement) {
-      maxTime = Math.max(maxTime, engagement.avgTimeMs);
-    }
-    if (maxTime > 0) {
-      for (const [blockId, engagement] of analytics.blockEngagement) {
-        analytics.blockEngagement.set(blockId, {
-          ...engagement,
-          engagementScore: engagement.avgTimeMs / maxTime,
-        });
+  private async drain(): Promise<void> {
+    const sink = this.config.sink;
+    if (!sink) return;
+    this.clearFlushTimer();
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.config.batchSize);
+      try {
+        await sink.write(batch);
+        this.failures = 0;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        this.failures++;
+        const dropped = this.failures > this.config.maxRetries;
+        this.config.onSinkError?.(error, batch, dropped);
+        if (!dropped) {
+          this.scheduleFlush(
+            this.config.retryDelayMs * 2 ** (this.failures - 1)
+          );
+          return;
+        }
+        this.failures = 0;
       }
+      // Delivered or given up on; overflow may have dropped some already
+      const done = new Set(batch);
+      this.queue = this.queue.filter((e) => !done.has(e));
     }
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    this.clearFlushTimer();
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, delayMs);
+  }
 
-    // Drop-off points
-    const allBlocks = Array.from(analytics.blockEngagement.entries());
-    allBlocks.sort((a, b) => a[1].viewRate - b[1].viewRate);
-    analytics.dropOffPoints = allBlocks
-      .filter(([, e]) => e.viewRate < analytics!.completionRate * 0.5)
-      .map(([blockId, e]) => ({ blockId, dropRate: 1 - e.viewRate }))
-      .slice(0, 5);
-
-    // Most re-read
-    analytics.mostReRead = allBlocks
-      .filter(([, e]) => e.reReadRate > 0.1)
-      .sort((a, b) => b[1].reReadRate - a[1].reReadRate)
-      .map(([blockId, e]) => ({ blockId, reReadRate: e.reReadRate }))
-      .slice(0, 5);
+  private clearFlushTimer(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
   }
 
-  private detectDevice(): 'mobile' | 'tablet' | 'desktop' {
+  private detectDevice(): DeviceType {
     if (typeof window === 'undefined') return 'desktop';
     const width = window.innerWidth;
     if (width < 768) return 'mobile';
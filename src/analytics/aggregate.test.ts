@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateAnalytics,
+  engagementHeatmap,
+  replaySessions,
+  summarizeDocument,
+} from './aggregate';
+import type { AnalyticsEvent, DeviceType } from './events';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Build one session's events from [at, type, detail] steps */
+function session(
+  sessionId: string,
+  steps: Array<[number, string, (string | number | boolean)?]>,
+  documentId = 'doc-1',
+  deviceType: DeviceType = 'desktop'
+): AnalyticsEvent[] {
+  const base = { sessionId, documentId };
+  return steps.map(([at, type, detail]): AnalyticsEvent => {
+    switch (type) {
+      case 'start':
+        return { ...base, at, type: 'session-start', deviceType };
+      case 'view':
+        return { ...base, at, type: 'block-view', blockId: detail as string };
+      case 'scroll':
+        return { ...base, at, type: 'scroll', depth: detail as number };
+      case 'visible':
+        return { ...base, at, type: 'visibility', visible: detail as boolean };
+      default:
+        return { ...base, at, type: 'session-end' };
+    }
+  });
+}
+
+// ── Sessions ────────────────────────────────────────────────────────
+
+describe('replaySessions', () => {
+  it('attributes reading time to the block in view', () => {
+    const [s] = replaySessions(
+      session('s1', [
+        [0, 'start'],
+        [1000, 'view', 'b1'],
+        [4000, 'view', 'b2'],
+        [6000, 'view', 'b1'],
+        [7000, 'end'],
+      ])
+    );
+    expect(s.totalTimeMs).toBe(7000);
+    expect(Object.fromEntries(s.blockTimes)).toEqual({ b1: 4000, b2: 2000 });
+    expect(Array.from(s.blocksReRead)).toEqual(['b1']);
+    expect(s.lastBlockId).toBe('b1');
+    expect(s.endedAt).toBe(new Date(7000).toISOString());
+  });
+
+  it('pauses while the page is hidden', () => {
+    const [s] = replaySessions(
+      session('s1', [
+        [0, 'start'],
+        [0, 'view', 'b1'],
+        [2000, 'visible', false],
+        [60000, 'visible', true],
+        [61000, 'end'],
+      ])
+    );
+    expect(s.totalTimeMs).toBe(3000);
+    expect(s.blockTimes.get('b1')).toBe(3000);
+  });
+
+  it('replays events received out of order', () => {
+    const events = session('s1', [
+      [0, 'start'],
+      [1000, 'view', 'b1'],
+      [3000, 'scroll', 0.97],
+      [5000, 'end'],
+    ]);
+    const [s] = replaySessions(events.slice().reverse());
+    expect(s.totalTimeMs).toBe(5000);
+    expect(s.blockTimes.get('b1')).toBe(4000);
+    expect(s.reachedEnd).toBe(true);
+  });
+
+  it('counts open sessions up to asOf', () => {
+    const [s] = replaySessions(
+      session('s1', [
+        [0, 'start'],
+        [0, 'view', 'b1'],
+      ]),
+      { asOf: 2500 }
+    );
+    expect(s.endedAt).toBeUndefined();
+    expect(s.totalTimeMs).toBe(2500);
+  });
+});
+
+// ── Documents ───────────────────────────────────────────────────────
+
+describe('summarizeDocument', () => {
+  const events = [
+    ...session(
+      's1',
+      [
+        [0, 'start'],
+        [0, 'view', 'b1'],
+        [2000, 'view', 'b2'],
+        [3000, 'scroll', 1],
+        [4000, 'end'],
+      ],
+      'doc-1',
+      'mobile'
+    ),
+    ...session('s2', [
+      [0, 'start'],
+      [0, 'view', 'b1'],
+      [4000, 'end'],
+    ]),
+    ...session(
+      's3',
+      [
+        [0, 'start'],
+        [0, 'view', 'x'],
+        [500, 'end'],
+      ],
+      'doc-2'
+    ),
+  ];
+
+  it('averages over the document sessions', () => {
+    const analytics = summarizeDocument('doc-1', replaySessions(events));
+    expect(analytics.totalSessions).toBe(2);
+    expect(analytics.avgReadingTimeMs).toBe(4000);
+    expect(analytics.completionRate).toBe(0.5);
+    expect(analytics.deviceBreakdown).toEqual({
+      mobile: 1,
+      tablet: 0,
+      desktop: 1,
+    });
+    expect(analytics.blockEngagement.get('b1')).toEqual({
+      sessions: 2,
+      avgTimeMs: 3000,
+      viewRate: 1,
+      reReadRate: 0,
+      dropOffRate: 0.5,
+      engagementScore: 1,
+    });
+    expect(analytics.blockEngagement.get('b2')?.viewRate).toBe(0.5);
+  });
+
+  it('finds where unfinished sessions stopped', () => {
+    const analytics = summarizeDocument('doc-1', replaySessions(events));
+    expect(analytics.dropOffPoints).toEqual([{ blockId: 'b1', dropRate: 0.5 }]);
+  });
+
+  it('aggregates every document in the log', () => {
+    const all = aggregateAnalytics(events);
+    expect(Array.from(all.keys()).sort()).toEqual(['doc-1', 'doc-2']);
+    expect(all.get('doc-2')?.totalSessions).toBe(1);
+  });
+});
+
+// ── Heatmap ─────────────────────────────────────────────────────────
+
+describe('engagementHeatmap', () => {
+  const events = ['a', 'b', 'c'].flatMap((id) =>
+    session(id, [
+      [0, 'start'],
+      [0, 'view', 'common'],
+      [1000, 'view', id === 'a' ? 'rare' : 'common'],
+      [2000, 'end'],
+    ])
+  );
+  const analytics = summarizeDocument('doc-1', replaySessions(events));
+
+  it('withholds blocks seen by fewer than k sessions', () => {
+    const heatmap = engagementHeatmap(analytics, 2);
+    expect(Array.from(heatmap.keys())).toEqual(['common']);
+  });
+
+  it('withholds everything below k sessions overall', () => {
+    expect(engagementHeatmap(analytics, 4).size).toBe(0);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Aggregation — Reading statistics as pure functions of the event log
+ *
+ * Nothing here reads clocks or keeps state, so the same code runs in
+ * the browser over a local log and on a server over collected events.
+ * Events may arrive in any order; each session is replayed by time.
+ *
+ * Reading time only accrues while the page is visible: a `visibility`
+ * event with `visible: false` pauses the session until the next one
+ * with `visible: true`.
+ */
+
+import type { AnalyticsEvent, DeviceType } from './events';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ReadingSession {
+  /** Anonymous session ID (not tied to identity) */
+  readonly sessionId: string;
+  /** Document ID */
+  readonly documentId: string;
+  /** Session start */
+  readonly startedAt: string;
+  /** Session end; unset while the session is open */
+  readonly endedAt?: string;
+  /** Total time spent reading with the page visible (ms) */
+  readonly totalTimeMs: number;
+  /** Scroll depth (0-1) */
+  readonly maxScrollDepth: number;
+  /** Blocks viewed */
+  readonly blocksViewed: ReadonlySet<string>;
+  /** Per-block reading time */
+  readonly blockTimes: ReadonlyMap<string, number>;
+  /** Blocks re-read (scrolled back to) */
+  readonly blocksReRead: ReadonlySet<string>;
+  /** Last block in view */
+  readonly lastBlockId: string | null;
+  /** Whether the reader reached the end */
+  readonly reachedEnd: boolean;
+  /** Device type */
+  readonly deviceType: DeviceType;
+}
+
+export interface DocumentAnalytics {
+  /** Document ID */
+  readonly documentId: string;
+  /** Total unique sessions */
+  totalSessions: number;
+  /** Average reading time (ms) */
+  avgReadingTimeMs: number;
+  /** Average scroll depth (0-1) */
+  avgScrollDepth: number;
+  /** Completion rate (reached end) */
+  completionRate: number;
+  /** Per-block engagement */
+  blockEngagement: Map<string, BlockEngagement>;
+  /** Drop-off points (blocks where readers leave) */
+  dropOffPoints: Array<{ blockId: string; dropRate: number }>;
+  /** Most re-read blocks */
+  mostReRead: Array<{ blockId: string; reReadRate: number }>;
+  /** Device breakdown */
+  deviceBreakdown: { mobile: number; tablet: number; desktop: number };
+}
+
+export interface BlockEngagement {
+  /** Number of sessions that viewed this block */
+  sessions: number;
+  /** Average time spent on this block by those sessions (ms) */
+  avgTimeMs: number;
+  /** Percentage of readers who viewed this block */
+  viewRate: number;
+  /** Percentage of readers of this block who re-read it */
+  reReadRate: number;
+  /** Percentage of readers of this block who left there without finishing */
+  dropOffRate: number;
+  /** Relative engagement score (0-1, compared to other blocks) */
+  engagementScore: number;
+}
+
+export interface ReplayOptions {
+  /** Open sessions count reading time up to here (default: their last event) */
+  asOf?: number;
+}
+
+/** Scroll depth that counts as reaching the end */
+const END_DEPTH = 0.95;
+
+/** Sessions a group needs before it is reported, unless configured */
+export const DEFAULT_MIN_SESSIONS = 5;
+
+// ── Sessions ────────────────────────────────────────────────────────
+
+/**
+ * Rebuild every session in the log, in order of their first event.
+ */
+export function replaySessions(
+  events: readonly AnalyticsEvent[],
+  options: ReplayOptions = {}
+): ReadingSession[] {
+  const bySession: Map<string, AnalyticsEvent[]> = new Map();
+  for (const event of events) {
+    const list = bySession.get(event.sessionId);
+    if (list) list.push(event);
+    else bySession.set(event.sessionId, [event]);
+  }
+  return Array.from(bySession.values())
+    .map((list) => replaySession(list, options))
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+function replaySession(
+  events: AnalyticsEvent[],
+  { asOf }: ReplayOptions
+): ReadingSession {
+  // Stable sort keeps same-millisecond events in recorded order
+  const ordered = events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at - b.event.at || a.index - b.index)
+    .map(({ event }) => event);
+
+  const first = ordered[0];
+  const start = ordered.find((e) => e.type === 'session-start');
+  let deviceType: DeviceType = 'desktop';
+  if (start?.type === 'session-start') deviceType = start.deviceType;
+
+  let visible = true;
+  let lastTick = first.at;
+  let totalTimeMs = 0;
+  let maxScrollDepth = 0;
+  let current: string | null = null;
+  let endedAt: number | undefined;
+  const blocksViewed = new Set<string>();
+  const blocksReRead = new Set<string>();
+  const blockTimes = new Map<string, number>();
+
+  const advance = (to: number) => {
+    if (visible && to > lastTick) {
+      const elapsed = to - lastTick;
+      totalTimeMs += elapsed;
+      if (current) {
+        blockTimes.set(current, (blockTimes.get(current) ?? 0) + elapsed);
+      }
+    }
+    lastTick = Math.max(lastTick, to);
+  };
+
+  for (const event of ordered) {
+    advance(event.at);
+    switch (event.type) {
+      case 'block-view':
+        if (blocksViewed.has(event.blockId) && event.blockId !== current) {
+          blocksReRead.add(event.blockId);
+        }
+        blocksViewed.add(event.blockId);
+        if (!blockTimes.has(event.blockId)) blockTimes.set(event.blockId, 0);
+        current = event.blockId;
+        break;
+      case 'scroll':
+        maxScrollDepth = Math.max(maxScrollDepth, event.depth);
+        break;
+      case 'visibility':
+        visible = event.visible;
+        break;
+      case 'session-end':
+        endedAt = event.at;
+        break;
+    }
+    if (endedAt !== undefined) break;
+  }
+  if (endedAt === undefined && asOf !== undefined) advance(asOf);
+
+  return {
+    sessionId: first.sessionId,
+    documentId: first.documentId,
+    startedAt: new Date(first.at).toISOString(),
+    endedAt:
+      endedAt === undefined ? undefined : new Date(endedAt).toISOString(),
+    totalTimeMs,
+    maxScrollDepth,
+    blocksViewed,
+    blockTimes,
+    blocksReRead,
+    lastBlockId: current,
+    reachedEnd: maxScrollDepth >= END_DEPTH,
+    deviceType,
+  };
+}
+
+// ── Documents ───────────────────────────────────────────────────────
+
+/**
+ * Statistics for one document from its sessions. Sessions of other
+ * documents are ignored.
+ */
+export function summarizeDocument(
+  documentId: string,
+  sessions: readonly ReadingSession[]
+): DocumentAnalytics {
+  const own = sessions.filter((s) => s.documentId === documentId);
+  const n = own.length;
+  const mean = (value: (s: ReadingSession) => number) =>
+    n === 0 ? 0 : own.reduce((sum, s) => sum + value(s), 0) / n;
+
+  const deviceBreakdown = { mobile: 0, tablet: 0, desktop: 0 };
+  for (const session of own) deviceBreakdown[session.deviceType]++;
+
+  // Per-block totals over the sessions that viewed the block
+  const blocks: Map<
+    string,
+    { sessions: number; timeMs: number; reReads: number; dropped: number }
+  > = new Map();
+  for (const session of own) {
+    for (const blockId of session.blocksViewed) {
+      const totals = blocks.get(blockId) ?? {
+        sessions: 0,
+        timeMs: 0,
+        reReads: 0,
+        dropped: 0,
+      };
+      totals.sessions++;
+      totals.timeMs += session.blockTimes.get(blockId) ?? 0;
+      if (session.blocksReRead.has(blockId)) totals.reReads++;
+      if (!session.reachedEnd && session.lastBlockId === blockId) {
+        totals.dropped++;
+      }
+      blocks.set(blockId, totals);
+    }
+  }
+
+  let maxTime = 0;
+  for (const totals of blocks.values()) {
+    maxTime = Math.max(maxTime, totals.timeMs / totals.sessions);
+  }
+
+  const blockEngagement: Map<string, BlockEngagement> = new Map();
+  for (const [blockId, totals] of blocks) {
+    const avgTimeMs = totals.timeMs / totals.sessions;
+    blockEngagement.set(blockId, {
+      sessions: totals.sessions,
+      avgTimeMs,
+      viewRate: totals.sessions / n,
+      reReadRate: totals.reReads / totals.sessions,
+      dropOffRate: totals.dropped / totals.sessions,
+      engagementScore: maxTime > 0 ? avgTimeMs / maxTime : 0,
+    });
+  }
+
+  const ranked = Array.from(blocks.entries());
+  return {
+    documentId,
+    totalSessions: n,
+    avgReadingTimeMs: mean((s) => s.totalTimeMs),
+    avgScrollDepth: mean((s) => s.maxScrollDepth),
+    completionRate: mean((s) => (s.reachedEnd ? 1 : 0)),
+    blockEngagement,
+    // Blocks most often last seen before a reader left without finishing
+    dropOffPoints: ranked
+      .filter(([, t]) => t.dropped > 0)
+      .map(([blockId, t]) => ({ blockId, dropRate: t.dropped / t.sessions }))
+      .sort((a, b) => b.dropRate - a.dropRate)
+      .slice(0, 5),
+    mostReRead: Array.from(blockEngagement.entries())
+      .filter(([, e]) => e.reReadRate > 0.1)
+      .sort((a, b) => b[1].reReadRate - a[1].reReadRate)
+      .map(([blockId, e]) => ({ blockId, reReadRate: e.reReadRate }))
+      .slice(0, 5),
+    deviceBreakdown,
+  };
+}
+
+/** Statistics for every document in the log */
+export function aggregateAnalytics(
+  events: readonly AnalyticsEvent[],
+  options: ReplayOptions = {}
+): Map<string, DocumentAnalytics> {
+  const sessions = replaySessions(events, options);
+  const documentIds = new Set(sessions.map((s) => s.documentId));
+  return new Map(
+    Array.from(documentIds, (id) => [id, summarizeDocument(id, sessions)])
+  );
+}
+
+// ── Anonymity ───────────────────────────────────────────────────────
+
+/**
+ * Statistics with anything seen by fewer than `minSessions` sessions
+ * withheld (k-anonymity): a block only read by a handful of people
+ * would otherwise reveal how those people read. Null when the whole
+ * document has fewer sessions; otherwise those blocks are left out of
+ * every per-block figure, and engagement scores are relative to the
+ * blocks that remain.
+ */
+export function withholdSmallGroups(
+  analytics: DocumentAnalytics,
+  minSessions: number
+): DocumentAnalytics | null {
+  if (analytics.totalSessions < minSessions) return null;
+
+  const kept = Array.from(analytics.blockEngagement).filter(
+    ([, engagement]) => engagement.sessions >= minSessions
+  );
+  let maxTime = 0;
+  for (const [, engagement] of kept) {
+    maxTime = Math.max(maxTime, engagement.avgTimeMs);
+  }
+  const blockEngagement: Map<string, BlockEngagement> = new Map(
+    kept.map(([blockId, engagement]) => [
+      blockId,
+      {
+        ...engagement,
+        engagementScore: maxTime > 0 ? engagement.avgTimeMs / maxTime : 0,
+      },
+    ])
+  );
+
+  return {
+    ...analytics,
+    blockEngagement,
+    dropOffPoints: analytics.dropOffPoints.filter((p) =>
+      blockEngagement.has(p.blockId)
+    ),
+    mostReRead: analytics.mostReRead.filter((r) =>
+      blockEngagement.has(r.blockId)
+    ),
+  };
+}
+
+// ── Heatmap ─────────────────────────────────────────────────────────
+
+/**
+ * Engagement score per block, withholding anything seen by fewer than
+ * `minSessions` sessions (see `withholdSmallGroups`).
+ */
+export function engagementHeatmap(
+  analytics: DocumentAnalytics,
+  minSessions: number
+): Map<string, number> {
+  const visible = withholdSmallGroups(analytics, minSessions);
+  return new Map(
+    Array.from(visible?.blockEngagement ?? [], ([blockId, engagement]) => [
+      blockId,
+      engagement.engagementScore,
+    ])
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Analytics events — The reading log and where it is sent
+ *
+ * Reading analytics are event-sourced: the tracker only records what
+ * happened (a block came into view, the reader scrolled, the tab was
+ * hidden), and every statistic is computed from the log afterwards
+ * (see `aggregate.ts`). Events carry an anonymous session ID and
+ * nothing that identifies the reader.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type DeviceType = 'mobile' | 'tablet' | 'desktop';
+
+interface EventBase {
+  /** Anonymous session ID (not tied to identity) */
+  readonly sessionId: string;
+  readonly documentId: string;
+  /** When it happened (ms since epoch) */
+  readonly at: number;
+}
+
+export type AnalyticsEvent =
+  | (EventBase & { readonly type: 'session-start'; deviceType: DeviceType })
+  | (EventBase & { readonly type: 'block-view'; blockId: string })
+  | (EventBase & { readonly type: 'scroll'; depth: number })
+  | (EventBase & { readonly type: 'visibility'; visible: boolean })
+  | (EventBase & { readonly type: 'session-end' });
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+/** Destination for batches of events, e.g. a collection endpoint */
+export interface AnalyticsSink {
+  /** Deliver a batch; rejecting makes the tracker retry it later */
+  write(events: AnalyticsEvent[]): Promise<void>;
+}
+
+// ── Sinks ───────────────────────────────────────────────────────────
+
+/** Keeps every delivered event; for tests and local aggregation */
+export class MemoryAnalyticsSink implements AnalyticsSink {
+  readonly events: AnalyticsEvent[] = [];
+
+  async write(events: AnalyticsEvent[]): Promise<void> {
+    this.events.push(...events);
+  }
+}
+
+/** POSTs each batch as JSON (`{ events: [...] }`) to an endpoint */
+export class FetchAnalyticsSink implements AnalyticsSink {
+  constructor(
+    private readonly url: string,
+    private readonly fetchFn: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async write(events: AnalyticsEvent[]): Promise<void> {
+    const response = await this.fetchFn(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events }),
+      keepalive: true,
+    });
+    if (!response.ok) {
+      throw new Error(`Analytics sink failed: ${response.status}`);
+    }
+  }
+}
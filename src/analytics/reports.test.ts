@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { ReaderWriterSymbiosis } from '../intelligence/ReaderWriterSymbiosis';
+import { replaySessions, summarizeDocument } from './aggregate';
+import type { AnalyticsEvent, DeviceType } from './events';
+import {
+  cohortsByDevice,
+  cohortsByWindow,
+  compareRevisions,
+  funnelReport,
+  recreatedBlocks,
+  toReaderData,
+} from './reports';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** A session that views `blockIds` one second apart, starting at `at` */
+function read(
+  sessionId: string,
+  blockIds: string[],
+  options: { at?: number; deviceType?: DeviceType; finish?: boolean } = {}
+): AnalyticsEvent[] {
+  const { at = 0, deviceType = 'desktop', finish = false } = options;
+  const base = { sessionId, documentId: 'doc-1' };
+  const events: AnalyticsEvent[] = [
+    { ...base, at, type: 'session-start', deviceType },
+    ...blockIds.map((blockId, i): AnalyticsEvent => ({
+      ...base,
+      at: at + i * 1000,
+      type: 'block-view',
+      blockId,
+    })),
+  ];
+  const end = at + blockIds.length * 1000;
+  if (finish) events.push({ ...base, at: end, type: 'scroll', depth: 1 });
+  events.push({ ...base, at: end, type: 'session-end' });
+  return events;
+}
+
+// ── Funnel ──────────────────────────────────────────────────────────
+
+describe('funnelReport', () => {
+  const order = ['h1', 'p1', 'h2', 'p2', 'h3', 'p3'];
+  const sessions = replaySessions([
+    ...read('s1', ['h1', 'p1']),
+    ...read('s2', ['h1', 'p1', 'h2', 'p2']),
+    // Skimmed past h2 straight into its section
+    ...read('s3', ['h1', 'p2']),
+    ...read('s4', ['h1', 'p1', 'h2', 'p2', 'h3', 'p3'], { finish: true }),
+  ]);
+  const steps = [
+    { blockId: 'h1', label: 'Intro' },
+    { blockId: 'h2', label: 'Method' },
+    { blockId: 'h3', label: 'Results' },
+  ];
+
+  it('counts sessions reaching each heading through its section', () => {
+    const report = funnelReport('doc-1', sessions, steps, order);
+    expect(report.totalSessions).toBe(4);
+    expect(report.steps.map((s) => s.sessions)).toEqual([4, 3, 1]);
+    expect(report.steps.map((s) => s.reachRate)).toEqual([1, 0.75, 0.25]);
+    expect(report.steps[0].label).toBe('Intro');
+  });
+
+  it('reports the share lost before the next step', () => {
+    const report = funnelReport('doc-1', sessions, steps, order);
+    expect(report.steps[0].dropOffRate).toBe(0.25);
+    expect(report.steps[1].dropOffRate).toBeCloseTo(2 / 3);
+    expect(report.steps[2].dropOffRate).toBe(0);
+  });
+
+  it('only counts the step blocks without a block order', () => {
+    const report = funnelReport('doc-1', sessions, steps);
+    expect(report.steps.map((s) => s.sessions)).toEqual([4, 2, 1]);
+  });
+});
+
+// ── Cohorts ─────────────────────────────────────────────────────────
+
+describe('cohorts', () => {
+  const hour = 3600000;
+  const sessions = replaySessions([
+    ...read('s1', ['a'], { deviceType: 'mobile' }),
+    ...read('s2', ['a', 'b'], { deviceType: 'mobile', at: hour + 10 }),
+    ...read('s3', ['a', 'b', 'c'], { at: hour + 20, finish: true }),
+  ]);
+
+  it('splits by device type', () => {
+    const cohorts = cohortsByDevice('doc-1', sessions, 1);
+    expect(cohorts.map((c) => [c.key, c.analytics.totalSessions])).toEqual([
+      ['mobile', 2],
+      ['desktop', 1],
+    ]);
+    expect(cohorts[1].analytics.completionRate).toBe(1);
+  });
+
+  it('splits by time window', () => {
+    const cohorts = cohortsByWindow('doc-1', sessions, hour, 1);
+    expect(cohorts.map((c) => c.window)).toEqual([
+      { start: new Date(0).toISOString(), end: new Date(hour).toISOString() },
+      {
+        start: new Date(hour).toISOString(),
+        end: new Date(2 * hour).toISOString(),
+      },
+    ]);
+    expect(cohorts[1].analytics.totalSessions).toBe(2);
+  });
+
+  it('leaves out cohorts below the session threshold', () => {
+    expect(cohortsByDevice('doc-1', sessions, 2).map((c) => c.key)).toEqual([
+      'mobile',
+    ]);
+    expect(cohortsByWindow('doc-1', sessions, hour, 2)).toHaveLength(1);
+  });
+
+  it('uses the analytics threshold by default', () => {
+    expect(cohortsByDevice('doc-1', sessions)).toEqual([]);
+    expect(cohortsByWindow('doc-1', sessions, hour)).toEqual([]);
+  });
+
+  it('withholds blocks below the threshold within a cohort', () => {
+    const [mobile] = cohortsByDevice('doc-1', sessions, 2);
+    expect(Array.from(mobile.analytics.blockEngagement.keys())).toEqual(['a']);
+  });
+
+  it('rejects an empty window', () => {
+    expect(() => cohortsByWindow('doc-1', sessions, 0)).toThrow(
+      'Invalid cohort window'
+    );
+  });
+});
+
+// ── Revisions ───────────────────────────────────────────────────────
+
+describe('compareRevisions', () => {
+  const before = summarizeDocument(
+    'doc-1',
+    replaySessions([
+      ...read('s1', ['intro', 'old-2']),
+      ...read('s2', ['intro', 'old-2', 'gone'], { finish: true }),
+    ])
+  );
+  const after = summarizeDocument(
+    'doc-1',
+    replaySessions([
+      ...read('s3', ['intro', 'new-2', 'fresh'], { finish: true }),
+      ...read('s4', ['intro', 'new-2'], { finish: true }),
+    ])
+  );
+
+  it('matches blocks through the ID map', () => {
+    const comparison = compareRevisions(
+      before,
+      after,
+      new Map([['old-2', 'new-2']])
+    );
+    expect(comparison.completionRateDelta).toBe(0.5);
+
+    const section = comparison.blocks.find((b) => b.blockId === 'new-2');
+    expect(section?.previousBlockId).toBe('old-2');
+    expect(section?.delta?.dropOffRate).toBe(-0.5);
+
+    const intro = comparison.blocks.find((b) => b.blockId === 'intro');
+    expect(intro?.previousBlockId).toBe('intro');
+  });
+
+  it('lists added and removed blocks without a delta', () => {
+    const comparison = compareRevisions(
+      before,
+      after,
+      new Map([['old-2', 'new-2']])
+    );
+    const fresh = comparison.blocks.find((b) => b.blockId === 'fresh');
+    expect(fresh?.previousBlockId).toBeNull();
+    expect(fresh?.delta).toBeNull();
+
+    const last = comparison.blocks[comparison.blocks.length - 1];
+    expect(last.blockId).toBeNull();
+    expect(last.previousBlockId).toBe('gone');
+  });
+
+  it('matches re-created blocks from a revision diff', () => {
+    const diff = {
+      added: [
+        {
+          blockId: 'new-2',
+          blockType: 'paragraph',
+          text: 'The method, step by step',
+          position: 1,
+        },
+        {
+          blockId: 'fresh',
+          blockType: 'paragraph',
+          text: 'Results',
+          position: 2,
+        },
+      ],
+      removed: [
+        {
+          blockId: 'old-2',
+          blockType: 'paragraph',
+          text: 'Our method, step by step',
+          position: 1,
+        },
+        {
+          blockId: 'gone',
+          blockType: 'heading',
+          text: 'The method',
+          position: 2,
+        },
+      ],
+      modified: [],
+      moved: [],
+    };
+    expect(recreatedBlocks(diff)).toEqual(new Map([['old-2', 'new-2']]));
+
+    const section = compareRevisions(before, after, diff).blocks.find(
+      (b) => b.blockId === 'new-2'
+    );
+    expect(section?.previousBlockId).toBe('old-2');
+  });
+
+  it('compares each of several merged blocks with the merged block', () => {
+    const comparison = compareRevisions(
+      before,
+      after,
+      new Map([['old-2', 'intro']])
+    );
+    const intro = comparison.blocks.filter((b) => b.blockId === 'intro');
+    expect(intro.map((b) => b.previousBlockId)).toEqual(['intro', 'old-2']);
+    expect(intro.map((b) => b.before)).toEqual([
+      before.blockEngagement.get('intro'),
+      before.blockEngagement.get('old-2'),
+    ]);
+    expect(intro.every((b) => b.delta !== null)).toBe(true);
+    expect(
+      comparison.blocks.some(
+        (b) => b.blockId === null && b.previousBlockId === 'old-2'
+      )
+    ).toBe(false);
+  });
+});
+
+// ── Symbiosis ───────────────────────────────────────────────────────
+
+describe('toReaderData', () => {
+  it('feeds ReaderWriterSymbiosis annotations', () => {
+    const analytics = summarizeDocument(
+      'doc-1',
+      replaySessions(
+        ['s1', 's2', 's3'].flatMap((id) => read(id, ['intro', 'dense']))
+      )
+    );
+    const data = toReaderData(analytics, {
+      expectedTimeMs: (blockId) => (blockId === 'dense' ? 200 : 1000),
+    });
+    expect(data.find((d) => d.blockId === 'dense')).toMatchObject({
+      sessions: 3,
+      avgTimeMs: 1000,
+      dropOffRate: 1,
+    });
+
+    const symbiosis = new ReaderWriterSymbiosis({ minSessions: 3 });
+    const annotation = symbiosis.processReaderData(data).get('dense');
+    expect(annotation?.signals.map((s) => s.type)).toEqual([
+      'slow-read',
+      'drop-off',
+    ]);
+  });
+});
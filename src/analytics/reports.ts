@@ -0,0 +1,402 @@
+/**
+ * Reports — Funnels, cohorts and revision comparisons
+ *
+ * Answers the questions totals can't: how far into the document
+ * readers get, whether phones read differently from desktops, and
+ * whether a rewrite helped. Like `aggregate.ts`, everything here is a
+ * pure function of replayed sessions. Cohorts hold statistics only,
+ * and the same k-anonymity threshold as the heatmap applies to them.
+ *
+ * `toReaderData` turns any `DocumentAnalytics` (a whole document, a
+ * cohort, one side of a comparison) into the per-block input that
+ * `ReaderWriterSymbiosis.processReaderData` annotates.
+ */
+
+import type { AggregatedReaderData } from '../intelligence/ReaderWriterSymbiosis';
+import type { DiffBlock, RevisionDiff } from '../revisions/RevisionManager';
+import {
+  DEFAULT_MIN_SESSIONS,
+  summarizeDocument,
+  withholdSmallGroups,
+  type BlockEngagement,
+  type DocumentAnalytics,
+  type ReadingSession,
+} from './aggregate';
+import type { DeviceType } from './events';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A checkpoint of the funnel, usually a heading */
+export interface FunnelStepInput {
+  /** Block ID of the checkpoint */
+  readonly blockId: string;
+  /** Display label, e.g. the heading text */
+  readonly label?: string;
+}
+
+export interface FunnelStep {
+  readonly blockId: string;
+  readonly label?: string;
+  /** Sessions that reached this step */
+  readonly sessions: number;
+  /** Share of all sessions that reached this step (0-1) */
+  readonly reachRate: number;
+  /** Share of this step's sessions that did not reach the next one */
+  readonly dropOffRate: number;
+}
+
+export interface FunnelReport {
+  readonly documentId: string;
+  readonly totalSessions: number;
+  readonly steps: FunnelStep[];
+}
+
+export interface Cohort {
+  /** Device type, or the window start as an ISO timestamp */
+  readonly key: string;
+  /** Time window covered, for cohorts by time */
+  readonly window?: { readonly start: string; readonly end: string };
+  /** Blocks seen by fewer than the threshold are left out */
+  readonly analytics: DocumentAnalytics;
+}
+
+/** Engagement change of one block between two revisions */
+export interface BlockComparison {
+  /** Block ID in the newer revision; null if the block was removed */
+  readonly blockId: string | null;
+  /** Block ID in the older revision; null if the block is new */
+  readonly previousBlockId: string | null;
+  readonly before: BlockEngagement | null;
+  readonly after: BlockEngagement | null;
+  /** `after - before` per measure; null unless both sides were read */
+  readonly delta: {
+    readonly avgTimeMs: number;
+    readonly viewRate: number;
+    readonly reReadRate: number;
+    readonly dropOffRate: number;
+    readonly engagementScore: number;
+  } | null;
+}
+
+export interface RevisionComparison {
+  readonly before: DocumentAnalytics;
+  readonly after: DocumentAnalytics;
+  readonly completionRateDelta: number;
+  readonly avgReadingTimeMsDelta: number;
+  readonly avgScrollDepthDelta: number;
+  /**
+   * Blocks of the newer revision in engagement order, then removed
+   * ones. A block merged from several older blocks is listed once for
+   * each of them.
+   */
+  readonly blocks: BlockComparison[];
+}
+
+export interface ReaderDataOptions {
+  /**
+   * Expected reading time of a block, e.g. from its word count
+   * (default: the average time across the document's blocks, so
+   * "slow" means slow compared to the rest of the document)
+   */
+  expectedTimeMs?: (blockId: string) => number;
+}
+
+// ── Funnel ──────────────────────────────────────────────────────────
+
+/**
+ * Share of sessions reaching each step. A session reaches a step if it
+ * viewed the step's block or anything after it: readers who skim past
+ * a heading still got there. With `blockOrder` (every block of the
+ * document, in order) any block counts; without it only the steps'
+ * own blocks do.
+ */
+export function funnelReport(
+  documentId: string,
+  sessions: readonly ReadingSession[],
+  steps: readonly FunnelStepInput[],
+  blockOrder?: readonly string[]
+): FunnelReport {
+  const own = sessions.filter((s) => s.documentId === documentId);
+
+  // Index of the step each block belongs to
+  const stepOf = new Map<string, number>();
+  if (blockOrder) {
+    const stepIds = new Map(steps.map((step, i) => [step.blockId, i]));
+    let current = -1;
+    for (const blockId of blockOrder) {
+      current = stepIds.get(blockId) ?? current;
+      if (current >= 0) stepOf.set(blockId, current);
+    }
+  } else {
+    steps.forEach((step, i) => stepOf.set(step.blockId, i));
+  }
+
+  // reached[i] = sessions whose furthest step is at least i
+  const reached = new Array<number>(steps.length).fill(0);
+  for (const session of own) {
+    let furthest = -1;
+    for (const blockId of session.blocksViewed) {
+      furthest = Math.max(furthest, stepOf.get(blockId) ?? -1);
+    }
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+  }
+
+  return {
+    documentId,
+    totalSessions: own.length,
+    steps: steps.map((step, i) => {
+      const count = reached[i];
+      const next = i + 1 < steps.length ? reached[i + 1] : count;
+      return {
+        blockId: step.blockId,
+        label: step.label,
+        sessions: count,
+        reachRate: own.length > 0 ? count / own.length : 0,
+        dropOffRate: count > 0 ? (count - next) / count : 0,
+      };
+    }),
+  };
+}
+
+// ── Cohorts ─────────────────────────────────────────────────────────
+
+/**
+ * Split a document's sessions by device type. Cohorts with fewer than
+ * `minSessions` sessions are left out, like the heatmap's k-anonymity.
+ */
+export function cohortsByDevice(
+  documentId: string,
+  sessions: readonly ReadingSession[],
+  minSessions = DEFAULT_MIN_SESSIONS
+): Cohort[] {
+  const groups = new Map<DeviceType, ReadingSession[]>();
+  for (const session of sessions) {
+    if (session.documentId !== documentId) continue;
+    const group = groups.get(session.deviceType);
+    if (group) group.push(session);
+    else groups.set(session.deviceType, [session]);
+  }
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length >= minSessions)
+    .map(([deviceType, group]) => ({
+      key: deviceType,
+      analytics: cohortAnalytics(documentId, group, minSessions),
+    }));
+}
+
+/**
+ * Split a document's sessions into consecutive windows of `windowMs`
+ * by start time, aligned to the epoch (so a day window is a UTC day).
+ * Windows without sessions, or with fewer than `minSessions`, are left
+ * out.
+ */
+export function cohortsByWindow(
+  documentId: string,
+  sessions: readonly ReadingSession[],
+  windowMs: number,
+  minSessions = DEFAULT_MIN_SESSIONS
+): Cohort[] {
+  if (!(windowMs > 0)) {
+    throw new Error(`Invalid cohort window: ${windowMs}`);
+  }
+  const groups = new Map<number, ReadingSession[]>();
+  for (const session of sessions) {
+    if (session.documentId !== documentId) continue;
+    const start =
+      Math.floor(Date.parse(session.startedAt) / windowMs) * windowMs;
+    const group = groups.get(start);
+    if (group) group.push(session);
+    else groups.set(start, [session]);
+  }
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length >= minSessions)
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, group]) => ({
+      key: new Date(start).toISOString(),
+      window: {
+        start: new Date(start).toISOString(),
+        end: new Date(start + windowMs).toISOString(),
+      },
+      analytics: cohortAnalytics(documentId, group, minSessions),
+    }));
+}
+
+/** A cohort's statistics; it already has at least `minSessions` sessions */
+function cohortAnalytics(
+  documentId: string,
+  group: ReadingSession[],
+  minSessions: number
+): DocumentAnalytics {
+  return withholdSmallGroups(
+    summarizeDocument(documentId, group),
+    minSessions
+  )!;
+}
+
+// ── Revisions ───────────────────────────────────────────────────────
+
+/**
+ * Compare block engagement between two revisions of a document.
+ * `blockIds` is the diff between them (`RevisionManager.diffRevisions`),
+ * from which blocks re-created under a new ID are matched up (see
+ * `recreatedBlocks`), or a map of old block IDs to new ones. Other
+ * blocks keep their ID. Several old blocks may map to one new block,
+ * e.g. when a revision merged them; each is compared against it.
+ */
+export function compareRevisions(
+  before: DocumentAnalytics,
+  after: DocumentAnalytics,
+  blockIds: RevisionDiff | ReadonlyMap<string, string> = new Map()
+): RevisionComparison {
+  const blockIdMap = 'added' in blockIds ? recreatedBlocks(blockIds) : blockIds;
+
+  // New block ID → old block IDs
+  const previous = new Map<string, string[]>();
+  for (const oldId of before.blockEngagement.keys()) {
+    const newId = blockIdMap.get(oldId) ?? oldId;
+    const existing = previous.get(newId);
+    if (existing) existing.push(oldId);
+    else previous.set(newId, [oldId]);
+  }
+
+  const blocks: BlockComparison[] = [];
+  const matched = new Set<string>();
+  const ranked = Array.from(after.blockEngagement.entries()).sort(
+    (a, b) => b[1].engagementScore - a[1].engagementScore
+  );
+  for (const [blockId, engagement] of ranked) {
+    const previousBlockIds = previous.get(blockId);
+    if (!previousBlockIds) {
+      blocks.push(compareBlock(blockId, null, null, engagement));
+      continue;
+    }
+    for (const previousBlockId of previousBlockIds) {
+      matched.add(previousBlockId);
+      blocks.push(
+        compareBlock(
+          blockId,
+          previousBlockId,
+          before.blockEngagement.get(previousBlockId) ?? null,
+          engagement
+        )
+      );
+    }
+  }
+  for (const [oldId, engagement] of before.blockEngagement) {
+    if (!matched.has(oldId)) {
+      blocks.push(compareBlock(null, oldId, engagement, null));
+    }
+  }
+
+  return {
+    before,
+    after,
+    completionRateDelta: after.completionRate - before.completionRate,
+    avgReadingTimeMsDelta: after.avgReadingTimeMs - before.avgReadingTimeMs,
+    avgScrollDepthDelta: after.avgScrollDepth - before.avgScrollDepth,
+    blocks,
+  };
+}
+
+/**
+ * Old → new IDs of blocks a revision removed and added again under a
+ * new ID: each removed block is paired with the added block of the
+ * same type whose words overlap most, if at least `minSimilarity` of
+ * them (Jaccard); ties go to the nearest position.
+ */
+export function recreatedBlocks(
+  diff: Pick<RevisionDiff, 'added' | 'removed'>,
+  minSimilarity = 0.5
+): Map<string, string> {
+  const pairs: Array<{ from: DiffBlock; to: DiffBlock; similarity: number }> =
+    [];
+  for (const from of diff.removed) {
+    for (const to of diff.added) {
+      if (from.blockType !== to.blockType) continue;
+      const similarity = wordSimilarity(from.text, to.text);
+      if (similarity >= minSimilarity) pairs.push({ from, to, similarity });
+    }
+  }
+  pairs.sort(
+    (a, b) =>
+      b.similarity - a.similarity ||
+      Math.abs(a.from.position - a.to.position) -
+        Math.abs(b.from.position - b.to.position)
+  );
+
+  const map = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const { from, to } of pairs) {
+    if (map.has(from.blockId) || taken.has(to.blockId)) continue;
+    map.set(from.blockId, to.blockId);
+    taken.add(to.blockId);
+  }
+  return map;
+}
+
+/** Shared words over all words (1 for two empty texts) */
+function wordSimilarity(a: string, b: string): number {
+  const words = (text: string) =>
+    new Set(text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const union = new Set([...wordsA, ...wordsB]).size;
+  if (union === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return shared / union;
+}
+
+function compareBlock(
+  blockId: string | null,
+  previousBlockId: string | null,
+  before: BlockEngagement | null,
+  after: BlockEngagement | null
+): BlockComparison {
+  return {
+    blockId,
+    previousBlockId,
+    before,
+    after,
+    delta:
+      before && after
+        ? {
+            avgTimeMs: after.avgTimeMs - before.avgTimeMs,
+            viewRate: after.viewRate - before.viewRate,
+            reReadRate: after.reReadRate - before.reReadRate,
+            dropOffRate: after.dropOffRate - before.dropOffRate,
+            engagementScore: after.engagementScore - before.engagementScore,
+          }
+        : null,
+  };
+}
+
+// ── Symbiosis ───────────────────────────────────────────────────────
+
+/**
+ * Per-block reader data for `ReaderWriterSymbiosis`. Highlights,
+ * copies and shares are not tracked, so their rates are 0.
+ */
+export function toReaderData(
+  analytics: DocumentAnalytics,
+  options: ReaderDataOptions = {}
+): AggregatedReaderData[] {
+  const entries = Array.from(analytics.blockEngagement.entries());
+  const meanTimeMs =
+    entries.length === 0
+      ? 0
+      : entries.reduce((sum, [, e]) => sum + e.avgTimeMs, 0) / entries.length;
+  const expected = options.expectedTimeMs ?? (() => meanTimeMs);
+
+  return entries.map(([blockId, engagement]) => ({
+    blockId,
+    sessions: engagement.sessions,
+    avgTimeMs: engagement.avgTimeMs,
+    expectedTimeMs: expected(blockId),
+    reReadRate: engagement.reReadRate,
+    dropOffRate: engagement.dropOffRate,
+    highlightRate: 0,
+    copyRate: 0,
+    shareRate: 0,
+  }));
+}
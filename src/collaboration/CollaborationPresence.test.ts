@@ -0,0 +1,275 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CollaborationPresence,
+  blocksInRange,
+  colorForDid,
+  type FollowEvent,
+  type PresenceConfig,
+} from './CollaborationPresence';
+import { Awareness } from '../sync/Awareness';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Awareness instances wired to each other, as over a provider */
+function linkedAwareness(count = 2): Awareness[] {
+  const clients = Array.from({ length: count }, (_, i) => new Awareness(i + 1));
+  const relay = (from: Awareness, to: Awareness) =>
+    from.on('update', ({ added, updated, removed }, origin) => {
+      if (origin === 'relay') return;
+      to.applyUpdate(
+        from.encodeUpdate([...added, ...updated, ...removed]),
+        'relay'
+      );
+    });
+  for (const from of clients) {
+    for (const to of clients) if (from !== to) relay(from, to);
+  }
+  return clients;
+}
+
+function presence(
+  did: string,
+  clock: { now: number },
+  config: Partial<PresenceConfig> = {}
+): CollaborationPresence {
+  return new CollaborationPresence({
+    ydoc: {} as PresenceConfig['ydoc'],
+    localDid: did,
+    localDisplayName: did.split(':').pop()!,
+    now: () => clock.now,
+    ...config,
+  });
+}
+
+function pair(config: Partial<PresenceConfig> = {}) {
+  const clock = { now: 1000 };
+  const [awarenessA, awarenessB] = linkedAwareness();
+  const alice = presence('did:key:alice', clock, config);
+  const bob = presence('did:key:bob', clock, config);
+  alice.connect(awarenessA);
+  bob.connect(awarenessB);
+  return { alice, bob, clock, awarenessA, awarenessB };
+}
+
+// ── Awareness schema ────────────────────────────────────────────────
+
+describe('CollaborationPresence', () => {
+  it('sees collaborators with multi-range selections', () => {
+    const { alice, bob } = pair();
+    bob.setSelections([
+      {
+        anchor: { blockId: 'b1', offset: 4 },
+        head: { blockId: 'b3', offset: 2 },
+      },
+      {
+        anchor: { blockId: 'b5', offset: 0 },
+        head: { blockId: 'b5', offset: 9 },
+      },
+    ]);
+
+    const [collaborator] = alice.getCollaborators();
+    expect(collaborator.did).toBe('did:key:bob');
+    expect(collaborator.selections).toHaveLength(2);
+    expect(collaborator.selections[0].head).toEqual({
+      blockId: 'b3',
+      offset: 2,
+    });
+    expect(bob.getSelections()).toEqual(collaborator.selections);
+  });
+
+  it('finds collaborators in blocks their selection spans', () => {
+    const { alice, bob } = pair({
+      getBlockOrder: () => ['b1', 'b2', 'b3', 'b4'],
+    });
+    bob.setSelections([
+      {
+        anchor: { blockId: 'b3', offset: 1 },
+        head: { blockId: 'b1', offset: 0 },
+      },
+    ]);
+    expect(alice.getCollaboratorsInBlock('b2')).toHaveLength(1);
+    expect(alice.getCollaboratorsInBlock('b4')).toHaveLength(0);
+  });
+
+  it('ignores states that do not match the schema', () => {
+    const { alice, awarenessB } = pair();
+    awarenessB.setLocalStateField('user', {
+      did: 'did:key:bob',
+      displayName: 'bob',
+      cursor: { blockId: 'b1', offset: 0, selectionLength: 0 },
+    });
+    expect(alice.getCollaborators()).toEqual([]);
+  });
+
+  it('derives the same color for a DID everywhere', () => {
+    const { alice, awarenessB } = pair();
+    const state = awarenessB.getLocalState()!.user as Record<string, unknown>;
+    awarenessB.setLocalStateField('user', { ...state, color: '#000000' });
+
+    expect(alice.getCollaborators()[0].color).toBe(colorForDid('did:key:bob'));
+    expect(colorForDid('did:key:bob')).toBe(colorForDid('did:key:bob'));
+    expect(colorForDid('did:key:bob')).toMatch(/^#[0-9a-f]{6}$/);
+  });
+});
+
+// ── Follow mode ─────────────────────────────────────────────────────
+
+describe('CollaborationPresence follow mode', () => {
+  it('emits viewport-sync when the followed collaborator moves', () => {
+    const { alice, bob } = pair();
+    const events: FollowEvent[] = [];
+    alice.onFollow((event) => events.push(event));
+
+    bob.setViewport({ topBlockId: 'b1', topOffset: 0, bottomBlockId: 'b4' });
+    alice.follow('did:key:bob');
+    bob.setActivity({ type: 'reading', blockId: 'b2' });
+    bob.setViewport({ topBlockId: 'b3', topOffset: 0.5, bottomBlockId: 'b7' });
+    bob.setCursor({ blockId: 'b5', offset: 3 });
+
+    expect(events).toEqual([
+      {
+        type: 'viewport-sync',
+        did: 'did:key:bob',
+        viewport: { topBlockId: 'b1', topOffset: 0, bottomBlockId: 'b4' },
+        focus: null,
+      },
+      {
+        type: 'viewport-sync',
+        did: 'did:key:bob',
+        viewport: { topBlockId: 'b3', topOffset: 0.5, bottomBlockId: 'b7' },
+        focus: null,
+      },
+      {
+        type: 'viewport-sync',
+        did: 'did:key:bob',
+        viewport: { topBlockId: 'b3', topOffset: 0.5, bottomBlockId: 'b7' },
+        focus: { blockId: 'b5', offset: 3 },
+      },
+    ]);
+    expect(alice.getFollowing()).toBe('did:key:bob');
+  });
+
+  it('ends follow mode when the collaborator leaves', () => {
+    const { alice, bob } = pair();
+    const listener = vi.fn();
+    alice.onFollow(listener);
+    alice.follow('did:key:bob');
+    bob.disconnect();
+
+    expect(listener).toHaveBeenLastCalledWith({
+      type: 'follow-ended',
+      did: 'did:key:bob',
+      reason: 'left',
+    });
+    expect(alice.getFollowing()).toBeNull();
+  });
+
+  it('refuses to follow yourself or someone absent', () => {
+    const { alice } = pair();
+    expect(() => alice.follow('did:key:alice')).toThrow(
+      'Cannot follow yourself'
+    );
+    expect(() => alice.follow('did:key:carol')).toThrow(
+      'Collaborator not present: did:key:carol'
+    );
+  });
+});
+
+// ── Presence timeline ───────────────────────────────────────────────
+
+describe('CollaborationPresence timeline', () => {
+  it('records who was in which block and for how long', () => {
+    const { alice, bob, clock } = pair();
+    bob.setCursor({ blockId: 'b1', offset: 0 });
+    clock.now += 5000;
+    bob.setCursor({ blockId: 'b1', offset: 8 });
+    clock.now += 1000;
+    bob.setCursor({ blockId: 'b2', offset: 0 });
+    clock.now += 2000;
+    bob.setCursor({ blockId: 'b1', offset: 0 });
+    clock.now += 500;
+
+    expect(alice.getPresenceTimeline({ did: 'did:key:bob' })).toEqual([
+      { did: 'did:key:bob', blockId: 'b1', enteredAt: 1000, leftAt: 7000 },
+      { did: 'did:key:bob', blockId: 'b2', enteredAt: 7000, leftAt: 9000 },
+      { did: 'did:key:bob', blockId: 'b1', enteredAt: 9000, leftAt: null },
+    ]);
+    expect(alice.getBlockDwellTimes({ did: 'did:key:bob' })).toEqual([
+      { did: 'did:key:bob', blockId: 'b1', totalMs: 6500, visits: 2 },
+      { did: 'did:key:bob', blockId: 'b2', totalMs: 2000, visits: 1 },
+    ]);
+  });
+
+  it('closes intervals when a collaborator leaves', () => {
+    const { alice, bob, clock } = pair();
+    bob.setCursor({ blockId: 'b1', offset: 0 });
+    clock.now += 3000;
+    bob.disconnect();
+
+    expect(alice.getPresenceTimeline({ blockId: 'b1' })).toEqual([
+      { did: 'did:key:bob', blockId: 'b1', enteredAt: 1000, leftAt: 4000 },
+    ]);
+  });
+
+  it('merges the clients of one DID', () => {
+    const clock = { now: 1000 };
+    const [awarenessA, laptop, phone] = linkedAwareness(3);
+    const alice = presence('did:key:alice', clock);
+    const bobLaptop = presence('did:key:bob', clock);
+    const bobPhone = presence('did:key:bob', clock);
+    alice.connect(awarenessA);
+    bobLaptop.connect(laptop);
+    bobPhone.connect(phone);
+
+    bobLaptop.setCursor({ blockId: 'b1', offset: 0 });
+    clock.now += 1000;
+    bobPhone.setCursor({ blockId: 'b2', offset: 0 });
+    clock.now += 1000;
+    bobLaptop.setCursor({ blockId: 'b1', offset: 4 });
+    clock.now += 1000;
+    bobPhone.setCursor({ blockId: 'b1', offset: 0 });
+    clock.now += 1000;
+    bobPhone.disconnect();
+    clock.now += 1000;
+
+    expect(alice.getPresenceTimeline()).toEqual([
+      { did: 'did:key:bob', blockId: 'b1', enteredAt: 1000, leftAt: null },
+      { did: 'did:key:bob', blockId: 'b2', enteredAt: 2000, leftAt: 4000 },
+    ]);
+    expect(alice.getBlockDwellTimes()).toEqual([
+      { did: 'did:key:bob', blockId: 'b1', totalMs: 5000, visits: 1 },
+      { did: 'did:key:bob', blockId: 'b2', totalMs: 2000, visits: 1 },
+    ]);
+    expect(alice.getCollaborators()).toMatchObject([
+      { did: 'did:key:bob', selections: [{ head: { offset: 4 } }] },
+    ]);
+  });
+
+  it('keeps only the most recent intervals', () => {
+    const { alice, bob, clock } = pair({ timelineLimit: 3 });
+    for (let i = 0; i < 6; i++) {
+      bob.setCursor({ blockId: `b${i}`, offset: 0 });
+      clock.now += 100;
+    }
+    expect(alice.getPresenceTimeline().map((i) => i.blockId)).toEqual([
+      'b3',
+      'b4',
+      'b5',
+    ]);
+  });
+});
+
+describe('blocksInRange', () => {
+  it('falls back to the endpoints without a block order', () => {
+    const range = {
+      anchor: { blockId: 'b1', offset: 0 },
+      head: { blockId: 'b3', offset: 0 },
+    };
+    expect(blocksInRange(range)).toEqual(['b1', 'b3']);
+    expect(blocksInRange(range, ['b1', 'b2', 'b3'])).toEqual([
+      'b1',
+      'b2',
+      'b3',
+    ]);
+  });
+});
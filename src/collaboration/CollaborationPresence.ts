@@ -6,9 +6,14 @@
  * and how their writing FEELS (via embedding proximity).
  *
  * Built on Yjs awareness protocol + embedding context.
+ *
+ * Each client publishes one `PresenceState` under the awareness
+ * `user` field. Remote states are untrusted JSON and are checked
+ * against that schema before they become collaborators.
  */
 
 import { QDoc, QMap, QArray, QText } from '@affectively/gnosis';
+import type { Awareness } from '../sync/Awareness';
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -19,10 +24,12 @@ export interface Collaborator {
   readonly displayName: string;
   /** Avatar URL */
   readonly avatarUrl?: string;
-  /** Assigned color */
+  /** Assigned color, derived from the DID */
   readonly color: string;
-  /** Current cursor position */
-  cursor: CursorPosition | null;
+  /** Current selections; the first one is primary */
+  selections: readonly SelectionRange[];
+  /** What part of the document they are looking at */
+  viewport: Viewport | null;
   /** What they're doing right now */
   activity: CollaboratorActivity;
   /** When they last acted */
@@ -31,13 +38,30 @@ export interface Collaborator {
   status: 'active' | 'idle' | 'away';
 }
 
-export interface CursorPosition {
-  /** Block ID the cursor is in */
+/** A character offset within a block */
+export interface DocumentPosition {
   readonly blockId: string;
-  /** Character offset within the block */
   readonly offset: number;
-  /** Selection length (0 = caret, >0 = selection) */
-  readonly selectionLength: number;
+}
+
+/**
+ * A selection from `anchor` (where it started) to `head` (where the
+ * caret is). The two may be in different blocks; equal positions are
+ * a plain caret.
+ */
+export interface SelectionRange {
+  readonly anchor: DocumentPosition;
+  readonly head: DocumentPosition;
+}
+
+/** The blocks a client has on screen */
+export interface Viewport {
+  /** First block at least partly visible */
+  readonly topBlockId: string;
+  /** How far `topBlockId` is scrolled past, from 0 to 1 */
+  readonly topOffset: number;
+  /** Last block at least partly visible */
+  readonly bottomBlockId: string;
 }
 
 export type CollaboratorActivity =
@@ -48,6 +72,57 @@ export type CollaboratorActivity =
   | { type: 'idle' }
   | { type: 'using-tool'; tool: string };
 
+/** What a client publishes under the awareness `user` field */
+export interface PresenceState {
+  readonly did: string;
+  readonly displayName: string;
+  readonly avatarUrl?: string;
+  readonly color: string;
+  readonly selections: readonly SelectionRange[];
+  readonly viewport: Viewport | null;
+  readonly activity: CollaboratorActivity;
+  readonly lastActiveAt: number;
+  readonly status: Collaborator['status'];
+}
+
+/**
+ * Emitted while following a collaborator.
+ * `focus` is the head of their primary selection, for clients that
+ * have not published a viewport.
+ */
+export type FollowEvent =
+  | {
+      type: 'viewport-sync';
+      did: string;
+      viewport: Viewport | null;
+      focus: DocumentPosition | null;
+    }
+  | { type: 'follow-ended'; did: string; reason: 'left' | 'unfollowed' };
+
+/** A stretch of time a collaborator spent in one block */
+export interface PresenceInterval {
+  readonly did: string;
+  readonly blockId: string;
+  readonly enteredAt: number;
+  /** null while they are still there */
+  leftAt: number | null;
+}
+
+export interface PresenceTimelineFilter {
+  did?: string;
+  blockId?: string;
+  /** Only intervals still open at or after this time */
+  since?: number;
+}
+
+/** Total time a collaborator spent in a block */
+export interface BlockDwell {
+  readonly did: string;
+  readonly blockId: string;
+  readonly totalMs: number;
+  readonly visits: number;
+}
+
 export interface PresenceConfig {
   /** The Yjs document */
   readonly ydoc: QDoc;
@@ -61,6 +136,12 @@ export interface PresenceConfig {
   readonly idleTimeoutMs?: number;
   /** Away timeout in ms (default: 300000) */
   readonly awayTimeoutMs?: number;
+  /** Block IDs in document order, to resolve selections across blocks */
+  readonly getBlockOrder?: () => string[];
+  /** Most intervals kept in the presence timeline (default: 1000) */
+  readonly timelineLimit?: number;
+  /** Clock (default: Date.now) */
+  readonly now?: () => number;
 }
 
 // ── Palette ─────────────────────────────────────────────────────────
@@ -78,82 +159,102 @@ const COLLABORATOR_COLORS = [
   '#84cc16',
 ];
 
+/**
+ * Color for a DID. Every client derives the same color for the same
+ * person (FNV-1a over the DID).
+ */
+export function colorForDid(did: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < did.length; i++) {
+    hash ^= did.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return COLLABORATOR_COLORS[(hash >>> 0) % COLLABORATOR_COLORS.length];
+}
+
 // ── Presence Engine ─────────────────────────────────────────────────
 
 export class CollaborationPresence {
   private config: PresenceConfig;
-  private awareness: any; // Y.Awareness
+  private awareness: Awareness | null = null;
   private collaborators: Map<string, Collaborator> = new Map();
   private listeners: Set<(collaborators: Collaborator[]) => void> = new Set();
+  private followListeners: Set<(event: FollowEvent) => void> = new Set();
   private idleTimer: ReturnType<typeof setTimeout> | null = null;
-  private colorIndex = 0;
+  private following: string | null = null;
+  /** Last viewport-sync sent for the followed collaborator */
+  private lastFollowKey: string | null = null;
+  private timeline: PresenceInterval[] = [];
+  /** Open interval per DID and block */
+  private openIntervals: Map<string, PresenceInterval> = new Map();
+  private now: () => number;
 
   constructor(config: PresenceConfig) {
     this.config = config;
+    this.now = config.now ?? Date.now;
   }
 
   /**
    * Connect to awareness and start broadcasting presence.
    */
-  connect(awareness: any): void {
+  connect(awareness: Awareness): void {
     this.awareness = awareness;
 
     // Set local state
-    const color =
-      COLLABORATOR_COLORS[this.colorIndex++ % COLLABORATOR_COLORS.length];
-    awareness.setLocalStateField('user', {
+    const state: PresenceState = {
       did: this.config.localDid,
       displayName: this.config.localDisplayName,
       avatarUrl: this.config.localAvatarUrl,
-      color,
-      cursor: null,
+      color: colorForDid(this.config.localDid),
+      selections: [],
+      viewport: null,
       activity: { type: 'idle' },
-      lastActiveAt: Date.now(),
+      lastActiveAt: this.now(),
       status: 'active',
-    });
+    };
+    awareness.setLocalStateField('user', state);
 
     // Listen for changes
-    awareness.on('change', () => {
-      this.syncCollaborators();
-    });
+    awareness.on('change', this.handleAwarenessChange);
 
     this.syncCollaborators();
   }
 
   /**
-   * Update the local cursor position.
+   * Update the local selections; the first range is primary.
    */
-  setCursor(position: CursorPosition | null): void {
-    if (!this.awareness) return;
-    const state = this.awareness.getLocalState()?.user;
-    if (!state) return;
+  setSelections(selections: readonly SelectionRange[]): void {
+    this.updateLocal({ selections, status: 'active' });
+  }
 
-    this.awareness.setLocalStateField('user', {
-      ...state,
-      cursor: position,
-      lastActiveAt: Date.now(),
-      status: 'active',
-    });
+  /**
+   * The local selections; the first range is primary.
+   */
+  getSelections(): readonly SelectionRange[] {
+    if (!this.awareness) return [];
+    const state = readPresenceState(this.awareness.getLocalState()?.user);
+    return state?.selections ?? [];
+  }
 
-    this.resetIdleTimer();
+  /**
+   * Place a caret (or clear the selections with null).
+   */
+  setCursor(position: DocumentPosition | null): void {
+    this.setSelections(position ? [{ anchor: position, head: position }] : []);
+  }
+
+  /**
+   * Publish what the local user has on screen.
+   */
+  setViewport(viewport: Viewport | null): void {
+    this.updateLocal({ viewport });
   }
 
   /**
    * Update the local activity.
    */
   setActivity(activity: CollaboratorActivity): void {
-    if (!this.awareness) return;
-    const state = this.awareness.getLocalState()?.user;
-    if (!state) return;
-
-    this.awareness.setLocalStateField('user', {
-      ...state,
-      activity,
-      lastActiveAt: Date.now(),
-      status: 'active',
-    });
-
-    this.resetIdleTimer();
+    this.updateLocal({ activity, status: 'active' });
   }
 
   /**
@@ -164,10 +265,17 @@ export class CollaborationPresence {
   }
 
   /**
-   * Get collaborators in a specific block.
+   * Get collaborators with a selection in a specific block. Without
+   * `getBlockOrder`, only the blocks a selection starts or ends in
+   * count.
    */
   getCollaboratorsInBlock(blockId: string): Collaborator[] {
-    return this.getCollaborators().filter((c) => c.cursor?.blockId === blockId);
+    const order = this.config.getBlockOrder?.();
+    return this.getCollaborators().filter((c) =>
+      c.selections.some((range) =>
+        blocksInRange(range, order).includes(blockId)
+      )
+    );
   }
 
   /**
@@ -183,25 +291,191 @@ export class CollaborationPresence {
    */
   disconnect(): void {
     if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.unfollow();
+    this.awareness?.off('change', this.handleAwarenessChange);
     this.awareness?.setLocalState(null);
+    this.awareness = null;
+    this.recordPresence(new Map());
     this.collaborators.clear();
     this.listeners.clear();
+    this.followListeners.clear();
+  }
+
+  // ── Follow mode ───────────────────────────────────────────────
+
+  /**
+   * Follow a collaborator: every change to their viewport or primary
+   * caret is emitted as a `viewport-sync` event, starting with where
+   * they are now.
+   */
+  follow(did: string): void {
+    if (did === this.config.localDid) {
+      throw new Error('Cannot follow yourself');
+    }
+    if (!this.collaborators.has(did)) {
+      throw new Error(`Collaborator not present: ${did}`);
+    }
+    if (this.following && this.following !== did) this.unfollow();
+    this.following = did;
+    this.lastFollowKey = null;
+    this.emitViewportSync();
+  }
+
+  /** Stop following; emits `follow-ended` if someone was followed */
+  unfollow(): void {
+    this.endFollow('unfollowed');
+  }
+
+  /** DID of the followed collaborator, if any */
+  getFollowing(): string | null {
+    return this.following;
+  }
+
+  onFollow(listener: (event: FollowEvent) => void): () => void {
+    this.followListeners.add(listener);
+    return () => this.followListeners.delete(listener);
+  }
+
+  private emitViewportSync(): void {
+    const did = this.following;
+    const followed = did ? this.collaborators.get(did) : undefined;
+    if (!did || !followed) return;
+
+    const focus = followed.selections[0]?.head ?? null;
+    const key = JSON.stringify([followed.viewport, focus]);
+    if (key === this.lastFollowKey) return;
+    this.lastFollowKey = key;
+    this.emitFollow({
+      type: 'viewport-sync',
+      did,
+      viewport: followed.viewport,
+      focus,
+    });
+  }
+
+  private endFollow(reason: 'left' | 'unfollowed'): void {
+    const did = this.following;
+    if (!did) return;
+    this.following = null;
+    this.lastFollowKey = null;
+    this.emitFollow({ type: 'follow-ended', did, reason });
+  }
+
+  private emitFollow(event: FollowEvent): void {
+    for (const listener of this.followListeners) {
+      listener(event);
+    }
+  }
+
+  // ── Presence timeline ─────────────────────────────────────────
+
+  /**
+   * Who was in which block and when, oldest first. A collaborator is
+   * "in" the block holding the caret of their primary selection, and
+   * when connected from several clients, in each block one of them is
+   * in. Only the most recent `timelineLimit` intervals are kept.
+   */
+  getPresenceTimeline(filter: PresenceTimelineFilter = {}): PresenceInterval[] {
+    return this.timeline
+      .filter(
+        (i) =>
+          (filter.did === undefined || i.did === filter.did) &&
+          (filter.blockId === undefined || i.blockId === filter.blockId) &&
+          (filter.since === undefined || (i.leftAt ?? Infinity) >= filter.since)
+      )
+      .map((i) => ({ ...i }));
+  }
+
+  /**
+   * Time spent per collaborator and block over the kept timeline,
+   * longest first. Open intervals count up to now.
+   */
+  getBlockDwellTimes(filter: PresenceTimelineFilter = {}): BlockDwell[] {
+    const now = this.now();
+    const totals: Map<string, BlockDwell> = new Map();
+    for (const interval of this.getPresenceTimeline(filter)) {
+      const key = `${interval.did}\u0000${interval.blockId}`;
+      const previous = totals.get(key);
+      const ms = (interval.leftAt ?? now) - interval.enteredAt;
+      totals.set(key, {
+        did: interval.did,
+        blockId: interval.blockId,
+        totalMs: (previous?.totalMs ?? 0) + ms,
+        visits: (previous?.visits ?? 0) + 1,
+      });
+    }
+    return Array.from(totals.values()).sort((a, b) => b.totalMs - a.totalMs);
+  }
+
+  /** Open and close intervals for the blocks each DID is in, by key */
+  private recordPresence(
+    present: Map<string, { did: string; blockId: string }>
+  ): void {
+    const now = this.now();
+    for (const [key, interval] of this.openIntervals) {
+      if (present.has(key)) continue;
+      interval.leftAt = now;
+      this.openIntervals.delete(key);
+    }
+    for (const [key, { did, blockId }] of present) {
+      if (this.openIntervals.has(key)) continue;
+      const interval = { did, blockId, enteredAt: now, leftAt: null };
+      this.openIntervals.set(key, interval);
+      this.timeline.push(interval);
+    }
+
+    // Drop the oldest closed intervals past the limit
+    const limit = this.config.timelineLimit ?? 1000;
+    while (this.timeline.length > limit) {
+      const oldest = this.timeline.findIndex((i) => i.leftAt !== null);
+      if (oldest < 0) break;
+      this.timeline.splice(oldest, 1);
+    }
   }
 
   // ── Private ───────────────────────────────────────────────────
 
+  private handleAwarenessChange = (): void => {
+    this.syncCollaborators();
+  };
+
+  private updateLocal(patch: Partial<PresenceState>): void {
+    if (!this.awareness) return;
+    const state = readPresenceState(this.awareness.getLocalState()?.user);
+    if (!state) return;
+
+    this.awareness.setLocalStateField('user', {
+      ...state,
+      ...patch,
+      lastActiveAt: this.now(),
+    });
+
+    this.resetIdleTimer();
+  }
+
   private syncCollaborators(): void {
     if (!this.awareness) return;
 
     const states = this.awareness.getStates();
     this.collaborators.clear();
-
-    states.forEach((state: any, clientId: number) => {
-      const user = state.user;
-      if (!user || user.did === this.config.localDid) return;
+    const present: Map<string, { did: string; blockId: string }> = new Map();
+
+    states.forEach((state) => {
+      const user = readPresenceState(state.user);
+      if (!user) return;
+      const blockId = user.selections[0]?.head.blockId;
+      if (blockId) {
+        present.set(`${user.did}\u0000${blockId}`, { did: user.did, blockId });
+      }
+      if (user.did === this.config.localDid) return;
+
+      // A DID connected from several clients shows its most recently
+      // active one
+      const other = this.collaborators.get(user.did);
+      if (other && other.lastActiveAt > user.lastActiveAt) return;
 
       // Check idle/away
-      const elapsed = Date.now() - user.lastActiveAt;
+      const elapsed = this.now() - user.lastActiveAt;
       const idleTimeout = this.config.idleTimeoutMs ?? 60000;
       const awayTimeout = this.config.awayTimeoutMs ?? 300000;
 
@@ -211,10 +485,17 @@ export class CollaborationPresence {
 
       this.collaborators.set(user.did, {
         ...user,
+        // Remote clients may claim any color; use the shared one
+        color: colorForDid(user.did),
         status,
       });
     });
 
+    this.recordPresence(present);
+    if (this.following && !this.collaborators.has(this.following)) {
+      this.endFollow('left');
+    }
+    this.emitViewportSync();
     this.notifyListeners();
   }
 
@@ -224,7 +505,7 @@ export class CollaborationPresence {
 
     this.idleTimer = setTimeout(() => {
       if (!this.awareness) return;
-      const state = this.awareness.getLocalState()?.user;
+      const state = readPresenceState(this.awareness.getLocalState()?.user);
       if (!state) return;
 
       this.awareness.setLocalStateField('user', {
@@ -242,3 +523,93 @@ export class CollaborationPresence {
     }
   }
 }
+
+// ── Selections ──────────────────────────────────────────────────────
+
+/**
+ * Blocks a selection touches, in document order when `blockOrder` is
+ * given; otherwise just the blocks of its two ends.
+ */
+export function blocksInRange(
+  range: SelectionRange,
+  blockOrder?: string[]
+): string[] {
+  const { anchor, head } = range;
+  if (anchor.blockId === head.blockId) return [anchor.blockId];
+  const from = blockOrder?.indexOf(anchor.blockId) ?? -1;
+  const to = blockOrder?.indexOf(head.blockId) ?? -1;
+  if (!blockOrder || from < 0 || to < 0) return [anchor.blockId, head.blockId];
+  return blockOrder.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+// ── Schema ──────────────────────────────────────────────────────────
+
+const STATUSES = new Set(['active', 'idle', 'away']);
+
+/** Check an awareness `user` field against the presence schema */
+function readPresenceState(value: unknown): PresenceState | null {
+  if (!isRecord(value)) return null;
+  const { did, displayName, avatarUrl, color, lastActiveAt, status } = value;
+  if (
+    typeof did !== 'string' ||
+    typeof displayName !== 'string' ||
+    (avatarUrl !== undefined && typeof avatarUrl !== 'string') ||
+    typeof color !== 'string' ||
+    typeof lastActiveAt !== 'number' ||
+    typeof status !== 'string' ||
+    !STATUSES.has(status) ||
+    !Array.isArray(value.selections) ||
+    !value.selections.every(isSelectionRange) ||
+    !(value.viewport === null || isViewport(value.viewport)) ||
+    !isActivity(value.activity)
+  ) {
+    return null;
+  }
+  return value as unknown as PresenceState;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPosition(value: unknown): value is DocumentPosition {
+  return (
+    isRecord(value) &&
+    typeof value.blockId === 'string' &&
+    typeof value.offset === 'number' &&
+    value.offset >= 0
+  );
+}
+
+function isSelectionRange(value: unknown): value is SelectionRange {
+  return isRecord(value) && isPosition(value.anchor) && isPosition(value.head);
+}
+
+function isViewport(value: unknown): value is Viewport {
+  return (
+    isRecord(value) &&
+    typeof value.topBlockId === 'string' &&
+    typeof value.topOffset === 'number' &&
+    typeof value.bottomBlockId === 'string'
+  );
+}
+
+function isActivity(value: unknown): value is CollaboratorActivity {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'idle':
+      return true;
+    case 'using-tool':
+      return typeof value.tool === 'string';
+    case 'selecting':
+      return (
+        typeof value.blockId === 'string' && typeof value.text === 'string'
+      );
+    case 'typing':
+    case 'reading':
+    case 'reviewing':
+      return typeof value.blockId === 'string';
+    default:
+      return false;
+  }
+}
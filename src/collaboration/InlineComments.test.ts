@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import { CommentManager, type CommentChangeEvent } from './InlineComments';
+import { diffComments, readComments } from './comments';
+import type { AeonDocument, DocumentListener } from '../document/document';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+type Observer = (event: {
+  keysChanged: Set<string>;
+  transaction: { local: boolean };
+}) => void;
+
+/**
+ * Shared-map stand-in: changes made inside a transaction are
+ * delivered to observers once, then forwarded to linked peers as
+ * remote changes.
+ */
+class FakeSharedMap extends Map<string, unknown> {
+  observers = new Set<Observer>();
+  peers: FakeSharedMap[] = [];
+  private pending: Map<string, unknown> | null = null;
+
+  observe(fn: Observer) {
+    this.observers.add(fn);
+  }
+
+  unobserve(fn: Observer) {
+    this.observers.delete(fn);
+  }
+
+  override set(key: string, value: unknown) {
+    this.pending?.set(key, value);
+    return super.set(key, value);
+  }
+
+  override delete(key: string) {
+    this.pending?.set(key, undefined);
+    return super.delete(key);
+  }
+
+  transact(fn: () => void) {
+    this.pending = new Map();
+    fn();
+    const changes = this.pending;
+    this.pending = null;
+    this.emit(new Set(changes.keys()), true);
+    for (const peer of this.peers) peer.receive(changes);
+  }
+
+  private receive(changes: Map<string, unknown>) {
+    for (const [key, value] of changes) {
+      if (value === undefined) super.delete(key);
+      else super.set(key, value);
+    }
+    this.emit(new Set(changes.keys()), false);
+  }
+
+  private emit(keysChanged: Set<string>, local: boolean) {
+    for (const fn of this.observers) {
+      fn({ keysChanged, transaction: { local } });
+    }
+  }
+}
+
+function createDocument(
+  map: FakeSharedMap,
+  listeners = new Set<DocumentListener>()
+): AeonDocument {
+  return {
+    comments: map,
+    ydoc: { transact: (fn: () => void) => map.transact(fn) },
+    getBlockById: () => null,
+    getAllBlocks: () => [],
+    onChange: (listener: DocumentListener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    acceptSuggestion: () => false,
+    rejectSuggestion: () => false,
+  } as unknown as AeonDocument;
+}
+
+function createManager(
+  map: FakeSharedMap,
+  did: string,
+  listeners?: Set<DocumentListener>
+): CommentManager {
+  let next = 0;
+  return new CommentManager(createDocument(map, listeners), {
+    localDid: did,
+    localDisplayName: did.split(':').pop()!,
+    generateId: () => `${did.split(':').pop()}-${++next}`,
+  });
+}
+
+/** Two collaborators whose comment maps sync with each other */
+function createPair() {
+  const aliceMap = new FakeSharedMap();
+  const bobMap = new FakeSharedMap();
+  aliceMap.peers.push(bobMap);
+  bobMap.peers.push(aliceMap);
+  return {
+    aliceMap,
+    alice: createManager(aliceMap, 'did:key:alice'),
+    bob: createManager(bobMap, 'did:key:bob'),
+  };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('CommentManager', () => {
+  it('shares comments, replies and resolution with collaborators', () => {
+    const { alice, bob } = createPair();
+    const events: CommentChangeEvent[] = [];
+    bob.onChange((event) => events.push(event));
+
+    const comment = alice.addComment({
+      blockId: 'b1',
+      anchorText: 'launch date',
+      anchorEmbedding: new Float32Array([0.5, 0.25]),
+      body: 'Is this confirmed?',
+    });
+    expect(events).toEqual([
+      { origin: 'remote', commentIds: [comment.id], editIds: [] },
+    ]);
+
+    const [received] = bob.getCommentsForBlock('b1');
+    expect(received).toMatchObject({
+      body: 'Is this confirmed?',
+      authorDid: 'did:key:alice',
+      state: 'active',
+    });
+    expect(received.anchorEmbedding).toEqual(new Float32Array([0.5, 0.25]));
+
+    const reply = bob.reply(comment.id, 'Yes, as of Monday.')!;
+    expect(alice.getThread(comment.id).map((c) => c.id)).toEqual([
+      comment.id,
+      reply.id,
+    ]);
+
+    bob.resolve(comment.id);
+    expect(alice.getComment(reply.id)!.state).toBe('resolved');
+    expect(alice.getUnresolvedCount()).toBe(0);
+
+    alice.reopen(comment.id);
+    expect(bob.getUnresolvedCount()).toBe(1);
+  });
+
+  it('merges reactions from different collaborators', () => {
+    const { alice, bob } = createPair();
+    const comment = alice.addComment({
+      blockId: 'b1',
+      anchorText: 'x',
+      body: 'Ship it',
+    });
+
+    alice.react(comment.id, '👍');
+    bob.react(comment.id, '👍');
+    bob.react(comment.id, '🎉');
+    bob.react(comment.id, '🎉');
+
+    expect(
+      alice
+        .getComment(comment.id)!
+        .reactions.map((r) => `${r.authorDid} ${r.emoji}`)
+    ).toEqual(['did:key:alice 👍', 'did:key:bob 👍']);
+  });
+
+  it('records who decided a suggested edit', () => {
+    const { alice, bob } = createPair();
+    const edit = alice.suggestEdit({
+      blockId: 'b1',
+      originalText: 'teh',
+      suggestedText: 'the',
+    });
+    expect(bob.getSuggestedEdits('b1').map((e) => e.id)).toEqual([edit.id]);
+
+    expect(bob.acceptEdit(edit.id)).toMatchObject({
+      state: 'accepted',
+      decidedBy: 'did:key:bob',
+    });
+    expect(alice.getSuggestedEdits('b1')).toEqual([]);
+  });
+
+  it('reports comment activity between two states', () => {
+    const { aliceMap, alice, bob } = createPair();
+    const first = alice.addComment({
+      blockId: 'b1',
+      anchorText: 'x',
+      body: 'First',
+    });
+    const edit = alice.suggestEdit({
+      blockId: 'b1',
+      originalText: 'a',
+      suggestedText: 'b',
+    });
+    const before = readComments(new Map(aliceMap));
+
+    bob.resolve(first.id);
+    bob.react(first.id, '👀');
+    const second = bob.addComment({
+      blockId: 'b2',
+      anchorText: 'y',
+      body: 'Second',
+    });
+    bob.rejectEdit(edit.id);
+
+    const activity = diffComments(before, readComments(aliceMap));
+    expect(activity.added.map((c) => c.id)).toEqual([second.id]);
+    expect(activity.removed).toEqual([]);
+    expect(
+      activity.stateChanges.map((c) => [c.comment.id, c.from, c.to])
+    ).toEqual([[first.id, 'active', 'resolved']]);
+    expect(activity.reactionsAdded).toMatchObject([
+      { commentId: first.id, emoji: '👀', authorDid: 'did:key:bob' },
+    ]);
+    expect(
+      activity.editStateChanges.map((c) => [c.edit.id, c.from, c.to])
+    ).toEqual([[edit.id, 'pending', 'rejected']]);
+  });
+
+  it('re-anchors threads after edits and orphans lost ones', () => {
+    const { alice, bob } = createPair();
+    const moved = alice.addComment({
+      blockId: 'b1',
+      anchorText: 'launch date',
+      body: 'Is this confirmed?',
+    });
+    const reply = bob.reply(moved.id, 'Not yet')!;
+    const lost = alice.addComment({
+      blockId: 'b1',
+      anchorText: 'pricing tiers',
+      body: 'Check with sales',
+    });
+
+    alice.reanchor(
+      [
+        { id: 'b1', text: 'We will announce soon.' },
+        { id: 'b2', text: 'The launch day is in March.' },
+      ],
+      ['b1']
+    );
+
+    expect(bob.getComment(moved.id)!.anchor).toMatchObject({
+      blockId: 'b2',
+      start: 4,
+      matchedBy: 'fuzzy',
+      orphaned: false,
+    });
+    expect(bob.getComment(reply.id)!.blockId).toBe('b2');
+    expect(bob.getCommentsForBlock('b2').map((c) => c.id)).toEqual([moved.id]);
+    expect(bob.getOrphanedComments().map((c) => c.id)).toEqual([lost.id]);
+    expect(bob.getComment(lost.id)!.blockId).toBe('b1');
+
+    // Nothing changed: nothing is written
+    expect(
+      alice.reanchor([
+        { id: 'b1', text: 'We will announce soon.' },
+        { id: 'b2', text: 'The launch day is in March.' },
+      ])
+    ).toEqual([]);
+  });
+
+  it('leaves re-anchoring remote edits to the client that made them', () => {
+    const aliceMap = new FakeSharedMap();
+    const bobMap = new FakeSharedMap();
+    aliceMap.peers.push(bobMap);
+    bobMap.peers.push(aliceMap);
+    const aliceDocument = new Set<DocumentListener>();
+    const bobDocument = new Set<DocumentListener>();
+    const blocks = [{ id: 'b1', text: 'Revenue grew 13% this year.' }];
+    const alice = new CommentManager(createDocument(aliceMap, aliceDocument), {
+      localDid: 'did:key:alice',
+      localDisplayName: 'alice',
+      generateId: () => 'c1',
+      getAnchorBlocks: () => blocks,
+    });
+    createManager(bobMap, 'did:key:bob', bobDocument);
+    alice.addComment({
+      blockId: 'b1',
+      anchorText: 'Revenue grew 12%',
+      body: 'Source?',
+    });
+    const writes: Array<boolean> = [];
+    bobMap.observe((event) => writes.push(event.transaction.local));
+
+    // Bob receives Alice's edit: he does not write anchors himself
+    for (const listener of bobDocument) {
+      listener({
+        type: 'text-changed',
+        blockId: 'b1',
+        text: blocks[0].text,
+        origin: 'remote',
+      });
+    }
+    expect(writes).toEqual([]);
+
+    for (const listener of aliceDocument) {
+      listener({
+        type: 'text-changed',
+        blockId: 'b1',
+        text: blocks[0].text,
+        origin: 'local',
+      });
+    }
+    expect(writes).toEqual([false]);
+  });
+});
@@ -7,68 +7,49 @@
  * When text moves, reflows, or is edited, the comment stays
  * attached to the MEANING, not the position. Because the
  * anchor is an embedding, not a byte offset.
+ *
+ * Comments live in the document's shared `comments` map, so they
+ * reach every collaborator and are undone and snapshotted together
+ * with the text. When a block's text changes, the client that changed
+ * it re-anchors the comments on it (see ./anchoring): found again
+ * exactly, fuzzily or by embedding, moved if their text moved, or
+ * marked orphaned.
  */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { AeonDocument } from '../document/document';
+import { proposedText } from '../document/suggestions';
+import { locateAnchor, type AnchorBlock, type AnchorConfig } from './anchoring';
+import {
+  readComments,
+  changedIds,
+  anchorKey,
+  commentKey,
+  commentStateKey,
+  reactionKey,
+  editKey,
+  editStateKey,
+  type CommentAnchor,
+  type InlineComment,
+  type SuggestedEdit,
+  type CommentSnapshot,
+  type StoredComment,
+  type StoredCommentState,
+  type StoredEdit,
+  type StoredEditState,
+  type CommentReactionChange,
+} from './comments';
 
 // ── Types ───────────────────────────────────────────────────────────
 
-export interface InlineComment {
-  /** Unique comment ID */
-  readonly id: string;
-  /** Author DID */
-  readonly authorDid: string;
-  /** Author display name */
-  readonly authorName: string;
-  /** Author avatar URL */
-  readonly authorAvatarUrl?: string;
-  /** Comment text */
-  readonly body: string;
-  /** Attached to this block */
-  readonly blockId: string;
-  /** Text range anchor — the selected text the comment was made on */
-  readonly anchorText: string;
-  /** Embedding of the anchor text (for reattachment after edits) */
-  readonly anchorEmbedding?: Float32Array;
-  /** Thread parent ID (null = top-level) */
-  readonly parentId: string | null;
-  /** State */
-  state: CommentState;
-  /** Timestamps */
-  readonly createdAt: string;
-  readonly resolvedAt?: string;
-  /** Reactions */
-  readonly reactions: CommentReaction[];
-}
-
-export type CommentState = 'active' | 'resolved' | 'archived';
-
-export interface CommentReaction {
-  readonly emoji: string;
-  readonly authorDid: string;
-  readonly createdAt: string;
-}
-
-export interface SuggestedEdit {
-  /** Suggested edit ID */
-  readonly id: string;
-  /** Author DID */
-  readonly authorDid: string;
-  /** Author display name */
-  readonly authorName: string;
-  /** Block this edit applies to */
-  readonly blockId: string;
-  /** Original text */
-  readonly originalText: string;
-  /** Suggested replacement text */
-  readonly suggestedText: string;
-  /** Explanation */
-  readonly reason?: string;
-  /** State */
-  state: 'pending' | 'accepted' | 'rejected';
-  /** Timestamp */
-  readonly createdAt: string;
-}
+export type {
+  InlineComment,
+  CommentAnchor,
+  CommentState,
+  CommentReaction,
+  SuggestedEdit,
+  SuggestedEditState,
+} from './comments';
 
 export interface CommentThreadConfig {
   /** Local user's DID */
@@ -81,18 +62,69 @@ export interface CommentThreadConfig {
   readonly generateId: () => string;
   /** Optional: inference function for auto-resolving similar comments */
   readonly inferFn?: (prompt: string) => Promise<string>;
+  /**
+   * Optional: blocks to re-anchor against, with embeddings (e.g. the
+   * nodes of an EmbeddingDocument). Defaults to the document's text
+   * blocks, without embeddings.
+   */
+  readonly getAnchorBlocks?: () => AnchorBlock[];
+  /** Optional: re-anchoring thresholds */
+  readonly anchoring?: Partial<AnchorConfig>;
+}
+
+/** What changed in the shared comment state */
+export interface CommentChangeEvent {
+  /** `remote` when the change arrived from another collaborator */
+  readonly origin: 'local' | 'remote';
+  /** Comments whose content, state or reactions changed */
+  readonly commentIds: string[];
+  /** Suggested edits that were created or decided */
+  readonly editIds: string[];
+}
+
+/** The parts of a change event on the shared `comments` map we read */
+interface CommentsMapEvent {
+  /** Keys set or deleted by the transaction */
+  readonly keysChanged: Set<string>;
+  readonly transaction: { readonly local: boolean };
 }
 
 // ── Comment Manager ─────────────────────────────────────────────────
 
 export class CommentManager {
   private config: CommentThreadConfig;
-  private comments: Map<string, InlineComment> = new Map();
-  private suggestedEdits: Map<string, SuggestedEdit> = new Map();
-  private listeners: Set<() => void> = new Set();
-
-  constructor(config: CommentThreadConfig) {
+  private document: AeonDocument;
+  private listeners: Set<(event: CommentChangeEvent) => void> = new Set();
+  /** Read model, rebuilt lazily after each change to the map */
+  private snapshot: CommentSnapshot | null = null;
+  private readonly observer: (event: CommentsMapEvent) => void;
+  private readonly unsubscribeDocument: () => void;
+
+  constructor(document: AeonDocument, config: CommentThreadConfig) {
+    this.document = document;
     this.config = config;
+
+    this.observer = (event) => {
+      this.snapshot = null;
+      const { commentIds, editIds } = changedIds(event.keysChanged);
+      this.notify({
+        origin: event.transaction.local ? 'local' : 'remote',
+        commentIds,
+        editIds,
+      });
+    };
+    this.document.comments.observe(this.observer);
+
+    // Only the editing client re-anchors; the others receive its
+    // anchors instead of all writing the same keys
+    this.unsubscribeDocument = this.document.onChange((event) => {
+      if (
+        (event.type === 'text-changed' || event.type === 'block-removed') &&
+        event.origin === 'local'
+      ) {
+        this.reanchor(undefined, [event.blockId]);
+      }
+    });
   }
 
   /**
@@ -105,7 +137,7 @@ export class CommentManager {
     body: string;
     parentId?: string;
   }): InlineComment {
-    const comment: InlineComment = {
+    const stored: StoredComment = {
       id: this.config.generateId(),
       authorDid: this.config.localDid,
       authorName: this.config.localDisplayName,
@@ -113,23 +145,24 @@ export class CommentManager {
       body: params.body,
       blockId: params.blockId,
       anchorText: params.anchorText,
-      anchorEmbedding: params.anchorEmbedding,
+      anchorEmbedding: params.anchorEmbedding
+        ? Array.from(params.anchorEmbedding)
+        : undefined,
       parentId: params.parentId ?? null,
-      state: 'active',
       createdAt: new Date().toISOString(),
-      reactions: [],
     };
 
-    this.comments.set(comment.id, comment);
-    this.notify();
-    return comment;
+    this.transact(() => {
+      this.document.comments.set(commentKey(stored.id), stored);
+    });
+    return this.comments().get(stored.id)!;
   }
 
   /**
    * Reply to a comment (threaded discussion).
    */
   reply(parentId: string, body: string): InlineComment | null {
-    const parent = this.comments.get(parentId);
+    const parent = this.comments().get(parentId);
     if (!parent) return null;
 
     return this.addComment({
@@ -145,47 +178,69 @@ export class CommentManager {
    * Resolve a comment thread.
    */
   resolve(commentId: string): void {
-    const comment = this.comments.get(commentId);
-    if (!comment) return;
+    const comments = this.comments();
+    if (!comments.has(commentId)) return;
 
-    comment.state = 'resolved';
-    (comment as { resolvedAt?: string }).resolvedAt = new Date().toISOString();
+    const state: StoredCommentState = {
+      state: 'resolved',
+      resolvedAt: new Date().toISOString(),
+    };
+    this.transact(() => {
+      this.document.comments.set(commentStateKey(commentId), state);
+      // Also resolve all children
+      for (const child of comments.values()) {
+        if (child.parentId === commentId) {
+          this.document.comments.set(commentStateKey(child.id), state);
+        }
+      }
+    });
+  }
 
-    // Also resolve all children
-    for (const [, child] of this.comments) {
-      if (child.parentId === commentId) {
-        child.state = 'resolved';
+  /**
+   * Reopen a resolved comment thread.
+   */
+  reopen(commentId: string): void {
+    const comments = this.comments();
+    if (!comments.has(commentId)) return;
+
+    const state: StoredCommentState = { state: 'active' };
+    this.transact(() => {
+      this.document.comments.set(commentStateKey(commentId), state);
+      for (const child of comments.values()) {
+        if (child.parentId === commentId) {
+          this.document.comments.set(commentStateKey(child.id), state);
+        }
       }
-    }
-    this.notify();
+    });
   }
 
   /**
    * Add a reaction to a comment.
    */
   react(commentId: string, emoji: string): void {
-    const comment = this.comments.get(commentId);
-    if (!comment) return;
-
-    const existing = comment.reactions.findIndex(
-      (r) => r.authorDid === this.config.localDid && r.emoji === emoji
-    );
-
-    if (existing >= 0) {
-      // Toggle off
-      (comment.reactions as CommentReaction[]).splice(existing, 1);
-    } else {
-      (comment.reactions as CommentReaction[]).push({
-        emoji,
-        authorDid: this.config.localDid,
-        createdAt: new Date().toISOString(),
-      });
-    }
-    this.notify();
+    if (!this.comments().has(commentId)) return;
+
+    const key = reactionKey(commentId, this.config.localDid, emoji);
+    this.transact(() => {
+      if (this.document.comments.has(key)) {
+        // Toggle off
+        this.document.comments.delete(key);
+      } else {
+        const reaction: CommentReactionChange = {
+          commentId,
+          emoji,
+          authorDid: this.config.localDid,
+          createdAt: new Date().toISOString(),
+        };
+        this.document.comments.set(key, reaction);
+      }
+    });
   }
 
   /**
    * Suggest an edit (like Google Docs suggestion mode).
+   * If the block still contains `originalText`, the replacement is
+   * recorded in the block as tracked changes under the edit's ID.
    */
   suggestEdit(params: {
     blockId: string;
@@ -193,7 +248,7 @@ export class CommentManager {
     suggestedText: string;
     reason?: string;
   }): SuggestedEdit {
-    const edit: SuggestedEdit = {
+    const stored: StoredEdit = {
       id: this.config.generateId(),
       authorDid: this.config.localDid,
       authorName: this.config.localDisplayName,
@@ -201,42 +256,142 @@ export class CommentManager {
       originalText: params.originalText,
       suggestedText: params.suggestedText,
       reason: params.reason,
-      state: 'pending',
       createdAt: new Date().toISOString(),
     };
 
-    this.suggestedEdits.set(edit.id, edit);
-    this.notify();
-    return edit;
+    this.transact(() => {
+      this.document.comments.set(editKey(stored.id), stored);
+
+      const block = this.document.getBlockById(params.blockId);
+      const text = block && block.length > 0 ? block.get(0) : null;
+      if (!text || typeof text.toDelta !== 'function') return;
+      const current = proposedText(text);
+      const at = current.indexOf(params.originalText);
+      if (at < 0) return;
+      this.document.suggestBlockText(
+        block,
+        current.slice(0, at) +
+          params.suggestedText +
+          current.slice(at + params.originalText.length),
+        this.config.localDid,
+        stored.id
+      );
+    });
+    return this.edits().get(stored.id)!;
   }
 
   /**
-   * Accept a suggested edit.
+   * Accept a suggested edit, applying its tracked changes.
    */
   acceptEdit(editId: string): SuggestedEdit | null {
-    const edit = this.suggestedEdits.get(editId);
-    if (!edit) return null;
-    edit.state = 'accepted';
-    this.notify();
-    return edit;
+    if (!this.edits().has(editId)) return null;
+    this.decideEdit(editId, 'accepted');
+    return this.edits().get(editId)!;
   }
 
   /**
-   * Reject a suggested edit.
+   * Reject a suggested edit, reverting its tracked changes.
    */
   rejectEdit(editId: string): void {
-    const edit = this.suggestedEdits.get(editId);
-    if (edit) {
-      edit.state = 'rejected';
-      this.notify();
+    if (this.edits().has(editId)) this.decideEdit(editId, 'rejected');
+  }
+
+  /**
+   * Find comment anchors again after block text changed. Each thread
+   * is matched exactly, then fuzzily, then by embedding, starting in
+   * its own block; replies follow their thread. A thread whose text
+   * cannot be found stays on its block, marked orphaned.
+   *
+   * @param blocks Blocks to search (default: `getAnchorBlocks`, or
+   *   the document's blocks as they read with suggestions accepted)
+   * @param changedBlockIds Only re-anchor threads on these blocks;
+   *   orphaned threads are always retried
+   * @returns Comments whose anchor changed
+   */
+  reanchor(
+    blocks: AnchorBlock[] = this.config.getAnchorBlocks?.() ??
+      this.readBlocks(),
+    changedBlockIds?: Iterable<string>
+  ): InlineComment[] {
+    const changed = changedBlockIds ? new Set(changedBlockIds) : null;
+    const comments = this.comments();
+    const anchoredAt = new Date().toISOString();
+    const updates = new Map<string, CommentAnchor>();
+
+    for (const comment of comments.values()) {
+      if (comment.parentId !== null) continue;
+      const previous = comment.anchor;
+      if (changed && !changed.has(comment.blockId) && !previous?.orphaned) {
+        continue;
+      }
+
+      const result = locateAnchor(
+        {
+          text: comment.anchorText,
+          blockId: comment.blockId,
+          embedding: comment.anchorEmbedding,
+          start: previous?.start,
+        },
+        blocks,
+        this.config.anchoring
+      );
+      const anchor: CommentAnchor = result.found
+        ? {
+            blockId: result.blockId,
+            start: result.start,
+            end: result.end,
+            matchedBy: result.matchedBy,
+            confidence: result.confidence,
+            orphaned: false,
+            anchoredAt,
+          }
+        : {
+            blockId: comment.blockId,
+            start: previous?.start ?? 0,
+            end: previous?.end ?? 0,
+            matchedBy: null,
+            confidence: result.confidence,
+            orphaned: true,
+            anchoredAt,
+          };
+      if (previous && sameAnchor(previous, anchor)) continue;
+
+      updates.set(comment.id, anchor);
+      for (const reply of comments.values()) {
+        if (reply.parentId === comment.id) updates.set(reply.id, anchor);
+      }
     }
+
+    if (updates.size === 0) return [];
+    this.transact(() => {
+      for (const [id, anchor] of updates) {
+        this.document.comments.set(anchorKey(id), anchor);
+      }
+    });
+    return [...updates.keys()].map((id) => this.comments().get(id)!);
+  }
+
+  /**
+   * Get comments whose anchor text could not be found.
+   */
+  getOrphanedComments(): InlineComment[] {
+    return Array.from(this.comments().values()).filter(
+      (c) => c.parentId === null && c.anchor?.orphaned
+    );
+  }
+
+  /**
+   * Get a comment by ID.
+   */
+  getComment(commentId: string): InlineComment | undefined {
+    return this.comments().get(commentId);
   }
 
   /**
    * Get all comments for a block.
    */
   getCommentsForBlock(blockId: string): InlineComment[] {
-    return Array.from(this.comments.values())
+    return Array.from(this.comments().values())
       .filter((c) => c.blockId === blockId && c.parentId === null)
       .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
@@ -245,10 +400,10 @@ export class CommentManager {
    * Get the thread for a comment (all replies).
    */
   getThread(commentId: string): InlineComment[] {
-    const root = this.comments.get(commentId);
+    const root = this.comments().get(commentId);
     if (!root) return [];
 
-    const replies = Array.from(this.comments.values())
+    const replies = Array.from(this.comments().values())
       .filter((c) => c.parentId === commentId)
       .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 
@@ -259,7 +414,7 @@ export class CommentManager {
    * Get pending suggested edits for a block.
    */
   getSuggestedEdits(blockId: string): SuggestedEdit[] {
-    return Array.from(this.suggestedEdits.values()).filter(
+    return Array.from(this.edits().values()).filter(
       (e) => e.blockId === blockId && e.state === 'pending'
     );
   }
@@ -268,22 +423,85 @@ export class CommentManager {
    * Get unresolved comment count.
    */
   getUnresolvedCount(): number {
-    return Array.from(this.comments.values()).filter(
+    return Array.from(this.comments().values()).filter(
       (c) => c.state === 'active' && c.parentId === null
     ).length;
   }
 
   /**
-   * Listen for changes.
+   * Listen for changes, local or from other collaborators.
    */
-  onChange(listener: () => void): () => void {
+  onChange(listener: (event: CommentChangeEvent) => void): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
 
+  /** Stop observing the document */
+  dispose(): void {
+    this.document.comments.unobserve(this.observer);
+    this.unsubscribeDocument();
+    this.listeners.clear();
+  }
+
   // ── Private ───────────────────────────────────────────────────
 
-  private notify(): void {
-    for (const listener of this.listeners) listener();
+  private comments(): Map<string, InlineComment> {
+    return this.read().comments;
+  }
+
+  private edits(): Map<string, SuggestedEdit> {
+    return this.read().edits;
+  }
+
+  private read(): CommentSnapshot {
+    this.snapshot ??= readComments(this.document.comments);
+    return this.snapshot;
+  }
+
+  /** The document's text blocks, as they read with suggestions accepted */
+  private readBlocks(): AnchorBlock[] {
+    return this.document
+      .getAllBlocks()
+      .filter(
+        (block) =>
+          block.length > 0 && typeof block.get(0).toDelta === 'function'
+      )
+      .map((block) => ({
+        id: block.getAttribute('id') ?? '',
+        text: proposedText(block.get(0)),
+      }));
+  }
+
+  private decideEdit(editId: string, state: 'accepted' | 'rejected'): void {
+    const decision: StoredEditState = {
+      state,
+      decidedBy: this.config.localDid,
+      decidedAt: new Date().toISOString(),
+    };
+    this.transact(() => {
+      this.document.comments.set(editStateKey(editId), decision);
+      if (state === 'accepted') this.document.acceptSuggestion(editId);
+      else this.document.rejectSuggestion(editId);
+    });
+  }
+
+  /** Local changes share the document's undo history */
+  private transact(fn: () => void): void {
+    this.document.ydoc.transact(fn, 'local');
   }
+
+  private notify(event: CommentChangeEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+}
+
+function sameAnchor(a: CommentAnchor, b: CommentAnchor): boolean {
+  return (
+    a.blockId === b.blockId &&
+    a.start === b.start &&
+    a.end === b.end &&
+    a.matchedBy === b.matchedBy &&
+    a.orphaned === b.orphaned &&
+    Math.abs(a.confidence - b.confidence) < 1e-6
+  );
 }
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyFind, locateAnchor, type AnchorBlock } from './anchoring';
+
+describe('locateAnchor', () => {
+  const blocks: AnchorBlock[] = [
+    { id: 'b1', text: 'The cat sat. The cat ran.' },
+    { id: 'b2', text: 'A dog barked at the mail carrier.' },
+  ];
+
+  it('prefers the exact occurrence nearest the old offset', () => {
+    expect(
+      locateAnchor({ text: 'The cat', blockId: 'b1', start: 12 }, blocks)
+    ).toEqual({
+      found: true,
+      blockId: 'b1',
+      start: 13,
+      end: 20,
+      matchedBy: 'exact',
+      confidence: 1,
+    });
+  });
+
+  it('follows text that moved to another block', () => {
+    expect(
+      locateAnchor({ text: 'mail carrier', blockId: 'b1' }, blocks)
+    ).toMatchObject({ found: true, blockId: 'b2', start: 20, end: 32 });
+  });
+
+  it('keeps an edited anchor in its own block over a copy elsewhere', () => {
+    expect(
+      locateAnchor({ text: 'revenue grew 12%', blockId: 'a' }, [
+        { id: 'a', text: 'This year revenue grew 13% overall.' },
+        { id: 'b', text: 'Last year revenue grew 12% overall.' },
+      ])
+    ).toMatchObject({ found: true, blockId: 'a', matchedBy: 'fuzzy' });
+  });
+
+  it('matches edited text by edit distance', () => {
+    const result = locateAnchor(
+      { text: 'dog barks at the mailman', blockId: 'b2' },
+      blocks
+    );
+    expect(result).toMatchObject({
+      found: true,
+      blockId: 'b2',
+      matchedBy: 'fuzzy',
+    });
+    expect(result.confidence).toBeGreaterThanOrEqual(0.75);
+  });
+
+  it('falls back to embeddings, then orphans', () => {
+    const embedded: AnchorBlock[] = [
+      { id: 'b1', text: 'Unrelated.', embedding: new Float32Array([0, 1]) },
+      { id: 'b2', text: 'Rewritten.', embedding: new Float32Array([1, 0.1]) },
+    ];
+    const anchor = {
+      text: 'something else entirely',
+      blockId: 'b1',
+      embedding: new Float32Array([1, 0]),
+    };
+
+    expect(locateAnchor(anchor, embedded)).toMatchObject({
+      found: true,
+      blockId: 'b2',
+      start: 0,
+      end: 10,
+      matchedBy: 'embedding',
+    });
+
+    const result = locateAnchor(anchor, embedded, {
+      minEmbeddingSimilarity: 0.999,
+    });
+    expect(result.found).toBe(false);
+    expect(result.confidence).toBeCloseTo(0.995, 3);
+  });
+});
+
+describe('fuzzyFind', () => {
+  it('finds the closest substring', () => {
+    expect(fuzzyFind('colour', 'the color red')).toEqual({
+      start: 4,
+      end: 9,
+      distance: 1,
+    });
+  });
+});
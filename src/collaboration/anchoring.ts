@@ -0,0 +1,266 @@
+/**
+ * Anchoring — Find where a comment's anchor text went after edits
+ *
+ * A comment remembers the text it was made on and, optionally, the
+ * embedding of that text. After the document changes, the anchor is
+ * looked up again in three passes, each less certain than the last:
+ *
+ *   1. exact     the anchor text, verbatim (nearest to its old offset)
+ *   2. fuzzy     the substring with the smallest edit distance
+ *   3. embedding the block whose embedding is closest to the anchor's
+ *
+ * The exact and fuzzy passes run on the comment's own block before any
+ * other, so a comment only moves to another block when its text is no
+ * longer close in its own. When nothing is close enough, the comment
+ * is orphaned along with the best score seen.
+ */
+
+import { cosineSimilarity } from '../core/EmbeddingDocument';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A block the anchor may be found in */
+export interface AnchorBlock {
+  readonly id: string;
+  readonly text: string;
+  readonly embedding?: Float32Array;
+}
+
+/** What a comment is anchored to */
+export interface AnchorTarget {
+  readonly text: string;
+  readonly blockId: string;
+  readonly embedding?: Float32Array;
+  /** Last known start offset, to choose between repeated matches */
+  readonly start?: number;
+}
+
+export type AnchorMatchKind = 'exact' | 'fuzzy' | 'embedding';
+
+export type AnchorResult =
+  | {
+      readonly found: true;
+      readonly blockId: string;
+      readonly start: number;
+      readonly end: number;
+      readonly matchedBy: AnchorMatchKind;
+      /** 1 for exact matches; similarity otherwise */
+      readonly confidence: number;
+    }
+  | {
+      readonly found: false;
+      /** Best similarity seen, below the thresholds */
+      readonly confidence: number;
+    };
+
+export interface AnchorConfig {
+  /** Minimum 1 - editDistance / anchorLength for a fuzzy match (default: 0.75) */
+  minFuzzySimilarity: number;
+  /** Minimum cosine similarity for an embedding match (default: 0.8) */
+  minEmbeddingSimilarity: number;
+  /** Longer anchors skip fuzzy matching (default: 500 characters) */
+  maxFuzzyLength: number;
+}
+
+const DEFAULT_CONFIG: AnchorConfig = {
+  minFuzzySimilarity: 0.75,
+  minEmbeddingSimilarity: 0.8,
+  maxFuzzyLength: 500,
+};
+
+// ── Locating ────────────────────────────────────────────────────────
+
+/**
+ * Find the anchor's current range among `blocks`.
+ */
+export function locateAnchor(
+  anchor: AnchorTarget,
+  blocks: AnchorBlock[],
+  config: Partial<AnchorConfig> = {}
+): AnchorResult {
+  const { minFuzzySimilarity, minEmbeddingSimilarity, maxFuzzyLength } = {
+    ...DEFAULT_CONFIG,
+    ...config,
+  };
+  if (anchor.text.length === 0) return { found: false, confidence: 0 };
+
+  // Own block first, then the rest in document order
+  const own = blocks.find((b) => b.id === anchor.blockId);
+  const others = blocks.filter((b) => b !== own);
+  const ordered = own ? [own, ...others] : others;
+  const fuzzy = anchor.text.length <= maxFuzzyLength;
+  const maxDistance = Math.floor(anchor.text.length * (1 - minFuzzySimilarity));
+  const grams = trigrams(anchor.text);
+  let best = 0;
+
+  const exactIn = (candidates: AnchorBlock[]): AnchorResult | null => {
+    for (const block of candidates) {
+      const start = nearestOccurrence(
+        block.text,
+        anchor.text,
+        block === own ? anchor.start : undefined
+      );
+      if (start >= 0) {
+        return {
+          found: true,
+          blockId: block.id,
+          start,
+          end: start + anchor.text.length,
+          matchedBy: 'exact',
+          confidence: 1,
+        };
+      }
+    }
+    return null;
+  };
+
+  const fuzzyIn = (candidates: AnchorBlock[]): AnchorResult | null => {
+    let match: {
+      block: AnchorBlock;
+      start: number;
+      end: number;
+      similarity: number;
+    } | null = null;
+    for (const block of candidates) {
+      // A match within k edits shares all but 3k of the anchor's trigrams
+      if (
+        block !== own &&
+        sharedTrigrams(grams, block.text) < grams.size - 3 * maxDistance
+      ) {
+        continue;
+      }
+      const found = fuzzyFind(anchor.text, block.text);
+      if (!found) continue;
+      const similarity = 1 - found.distance / anchor.text.length;
+      best = Math.max(best, similarity);
+      if (
+        similarity >= minFuzzySimilarity &&
+        similarity > (match?.similarity ?? 0)
+      ) {
+        match = { block, start: found.start, end: found.end, similarity };
+      }
+    }
+    return match
+      ? {
+          found: true,
+          blockId: match.block.id,
+          start: match.start,
+          end: match.end,
+          matchedBy: 'fuzzy',
+          confidence: match.similarity,
+        }
+      : null;
+  };
+
+  // 1-2. Exact, then fuzzy in the comment's own block: an edited
+  // anchor stays put even when a copy of the old text exists elsewhere
+  if (own) {
+    const match = exactIn([own]) ?? (fuzzy ? fuzzyIn([own]) : null);
+    if (match) return match;
+  }
+  // ...then the same in the other blocks, where the text may have moved
+  const moved = exactIn(others) ?? (fuzzy ? fuzzyIn(others) : null);
+  if (moved) return moved;
+
+  // 3. Embedding
+  if (anchor.embedding) {
+    let match: { block: AnchorBlock; similarity: number } | null = null;
+    for (const block of ordered) {
+      if (block.embedding?.length !== anchor.embedding.length) continue;
+      const similarity = cosineSimilarity(anchor.embedding, block.embedding);
+      best = Math.max(best, similarity);
+      if (similarity > (match?.similarity ?? -Infinity)) {
+        match = { block, similarity };
+      }
+    }
+    if (match && match.similarity >= minEmbeddingSimilarity) {
+      // The anchor text is gone; attach to the whole block
+      return {
+        found: true,
+        blockId: match.block.id,
+        start: 0,
+        end: match.block.text.length,
+        matchedBy: 'embedding',
+        confidence: match.similarity,
+      };
+    }
+  }
+
+  return { found: false, confidence: Math.max(0, best) };
+}
+
+// ── Matching helpers ────────────────────────────────────────────────
+
+/** Offset of the occurrence of `needle` closest to `near`, or -1 */
+function nearestOccurrence(
+  text: string,
+  needle: string,
+  near: number | undefined
+): number {
+  let best = -1;
+  for (let i = text.indexOf(needle); i >= 0; i = text.indexOf(needle, i + 1)) {
+    if (near === undefined) return i;
+    if (best < 0 || Math.abs(i - near) < Math.abs(best - near)) best = i;
+  }
+  return best;
+}
+
+/**
+ * Substring of `text` with the smallest edit distance to `pattern`
+ * (Sellers' algorithm). Ties go to the earliest match.
+ */
+export function fuzzyFind(
+  pattern: string,
+  text: string
+): { start: number; end: number; distance: number } | null {
+  const m = pattern.length;
+  const n = text.length;
+  if (m === 0 || n === 0) return null;
+
+  // dist[j]: edit distance of pattern[0..i) to a substring ending at j;
+  // from[j]: where that substring starts
+  let dist = new Int32Array(n + 1);
+  let from = Int32Array.from({ length: n + 1 }, (_, j) => j);
+  let nextDist = new Int32Array(n + 1);
+  let nextFrom = new Int32Array(n + 1);
+
+  for (let i = 1; i <= m; i++) {
+    nextDist[0] = i;
+    nextFrom[0] = 0;
+    for (let j = 1; j <= n; j++) {
+      const substitute = dist[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1);
+      const skipPattern = dist[j] + 1;
+      const skipText = nextDist[j - 1] + 1;
+      if (substitute <= skipPattern && substitute <= skipText) {
+        nextDist[j] = substitute;
+        nextFrom[j] = from[j - 1];
+      } else if (skipPattern <= skipText) {
+        nextDist[j] = skipPattern;
+        nextFrom[j] = from[j];
+      } else {
+        nextDist[j] = skipText;
+        nextFrom[j] = nextFrom[j - 1];
+      }
+    }
+    [dist, nextDist] = [nextDist, dist];
+    [from, nextFrom] = [nextFrom, from];
+  }
+
+  let end = 1;
+  for (let j = 2; j <= n; j++) {
+    if (dist[j] < dist[end]) end = j;
+  }
+  return { start: from[end], end, distance: dist[end] };
+}
+
+function trigrams(text: string): Set<string> {
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) grams.add(text.slice(i, i + 3));
+  return grams;
+}
+
+function sharedTrigrams(grams: Set<string>, text: string): number {
+  let shared = 0;
+  for (const gram of trigrams(text)) if (grams.has(gram)) shared++;
+  return shared;
+}
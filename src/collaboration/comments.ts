@@ -0,0 +1,353 @@
+/**
+ * Comment state — the shared map behind CommentManager
+ *
+ * Comments and suggested edits live in the `comments` map of the
+ * document's QDoc, so they sync, undo and snapshot with the text.
+ * Every mutable field has its own key, so concurrent changes by
+ * different collaborators (a reply, a reaction, a resolution) merge
+ * instead of overwriting each other:
+ *
+ *   comment/<id>                        the comment as written
+ *   comment-state/<id>                  { state, resolvedAt? }
+ *   reaction/<id>/<authorDid>/<emoji>   one reaction
+ *   anchor/<id>                         where the anchor was last found
+ *   edit/<id>                           the suggested edit as written
+ *   edit-state/<id>                     { state, decidedBy?, decidedAt? }
+ *
+ * Pure functions only; no React, no QDoc construction.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface InlineComment {
+  /** Unique comment ID */
+  readonly id: string;
+  /** Author DID */
+  readonly authorDid: string;
+  /** Author display name */
+  readonly authorName: string;
+  /** Author avatar URL */
+  readonly authorAvatarUrl?: string;
+  /** Comment text */
+  readonly body: string;
+  /** Attached to this block */
+  readonly blockId: string;
+  /** Text range anchor — the selected text the comment was made on */
+  readonly anchorText: string;
+  /** Embedding of the anchor text (for reattachment after edits) */
+  readonly anchorEmbedding?: Float32Array;
+  /** Thread parent ID (null = top-level) */
+  readonly parentId: string | null;
+  /** Where the anchor is now (absent until it is first located) */
+  readonly anchor?: CommentAnchor;
+  /** State */
+  state: CommentState;
+  /** Timestamps */
+  readonly createdAt: string;
+  readonly resolvedAt?: string;
+  /** Reactions */
+  readonly reactions: CommentReaction[];
+}
+
+export type CommentState = 'active' | 'resolved' | 'archived';
+
+/** Result of re-anchoring a comment after its text was edited */
+export interface CommentAnchor {
+  /** Block the anchor text is in now */
+  readonly blockId: string;
+  /** Character range of the anchor in that block's text */
+  readonly start: number;
+  readonly end: number;
+  /** How the anchor was found; null when it could not be */
+  readonly matchedBy: 'exact' | 'fuzzy' | 'embedding' | null;
+  /** Match confidence, 0–1 (best score seen when orphaned) */
+  readonly confidence: number;
+  /** The anchor text is gone; the comment stays on its last block */
+  readonly orphaned: boolean;
+  /** When the anchor was last located */
+  readonly anchoredAt: string;
+}
+
+export interface CommentReaction {
+  readonly emoji: string;
+  readonly authorDid: string;
+  readonly createdAt: string;
+}
+
+export type SuggestedEditState = 'pending' | 'accepted' | 'rejected';
+
+export interface SuggestedEdit {
+  /** Suggested edit ID */
+  readonly id: string;
+  /** Author DID */
+  readonly authorDid: string;
+  /** Author display name */
+  readonly authorName: string;
+  /** Block this edit applies to */
+  readonly blockId: string;
+  /** Original text */
+  readonly originalText: string;
+  /** Suggested replacement text */
+  readonly suggestedText: string;
+  /** Explanation */
+  readonly reason?: string;
+  /** State */
+  state: SuggestedEditState;
+  /** Timestamp */
+  readonly createdAt: string;
+  /** DID of whoever accepted or rejected the edit */
+  readonly decidedBy?: string;
+  /** When the edit was accepted or rejected */
+  readonly decidedAt?: string;
+}
+
+/** Comments and suggested edits as of one document state */
+export interface CommentSnapshot {
+  readonly comments: Map<string, InlineComment>;
+  readonly edits: Map<string, SuggestedEdit>;
+}
+
+/** A reaction, with the comment it belongs to */
+export interface CommentReactionChange extends CommentReaction {
+  readonly commentId: string;
+}
+
+/** Comment activity between two document states */
+export interface CommentActivity {
+  /** Comments and replies created */
+  readonly added: InlineComment[];
+  /** Comments no longer present (e.g. undone) */
+  readonly removed: InlineComment[];
+  /** Comments whose state changed, e.g. resolved or reopened */
+  readonly stateChanges: Array<{
+    readonly comment: InlineComment;
+    readonly from: CommentState;
+    readonly to: CommentState;
+  }>;
+  readonly reactionsAdded: CommentReactionChange[];
+  readonly reactionsRemoved: CommentReactionChange[];
+  /** Suggested edits created */
+  readonly editsAdded: SuggestedEdit[];
+  /** Suggested edits no longer present */
+  readonly editsRemoved: SuggestedEdit[];
+  /** Suggested edits accepted, rejected or reset to pending */
+  readonly editStateChanges: Array<{
+    readonly edit: SuggestedEdit;
+    readonly from: SuggestedEditState;
+    readonly to: SuggestedEditState;
+  }>;
+}
+
+/** Name of the shared map inside the document's QDoc */
+export const COMMENTS_MAP = 'comments';
+
+/** The read side of a QMap (a plain Map works too) */
+export interface CommentMapReader {
+  forEach(fn: (value: unknown, key: string) => void): void;
+}
+
+/** Comment as written to the map: no mutable fields, plain arrays */
+export type StoredComment = Omit<
+  InlineComment,
+  'state' | 'resolvedAt' | 'reactions' | 'anchor' | 'anchorEmbedding'
+> & { readonly anchorEmbedding?: number[] };
+
+export interface StoredCommentState {
+  readonly state: CommentState;
+  readonly resolvedAt?: string;
+}
+
+export type StoredEdit = Omit<
+  SuggestedEdit,
+  'state' | 'decidedBy' | 'decidedAt'
+>;
+
+export interface StoredEditState {
+  readonly state: SuggestedEditState;
+  readonly decidedBy?: string;
+  readonly decidedAt?: string;
+}
+
+// ── Keys ────────────────────────────────────────────────────────────
+
+const COMMENT = 'comment/';
+const COMMENT_STATE = 'comment-state/';
+const REACTION = 'reaction/';
+const ANCHOR = 'anchor/';
+const EDIT = 'edit/';
+const EDIT_STATE = 'edit-state/';
+
+export const commentKey = (id: string): string => `${COMMENT}${id}`;
+export const commentStateKey = (id: string): string => `${COMMENT_STATE}${id}`;
+export const reactionKey = (
+  commentId: string,
+  authorDid: string,
+  emoji: string
+): string => `${REACTION}${commentId}/${authorDid}/${emoji}`;
+export const anchorKey = (id: string): string => `${ANCHOR}${id}`;
+export const editKey = (id: string): string => `${EDIT}${id}`;
+export const editStateKey = (id: string): string => `${EDIT_STATE}${id}`;
+
+/**
+ * Comment and edit IDs touched by a set of changed keys.
+ */
+export function changedIds(keys: Iterable<string>): {
+  commentIds: string[];
+  editIds: string[];
+} {
+  const commentIds = new Set<string>();
+  const editIds = new Set<string>();
+  for (const key of keys) {
+    if (key.startsWith(COMMENT)) commentIds.add(key.slice(COMMENT.length));
+    else if (key.startsWith(COMMENT_STATE)) {
+      commentIds.add(key.slice(COMMENT_STATE.length));
+    } else if (key.startsWith(REACTION)) {
+      commentIds.add(key.slice(REACTION.length).split('/')[0]);
+    } else if (key.startsWith(ANCHOR)) {
+      commentIds.add(key.slice(ANCHOR.length));
+    } else if (key.startsWith(EDIT)) editIds.add(key.slice(EDIT.length));
+    else if (key.startsWith(EDIT_STATE)) {
+      editIds.add(key.slice(EDIT_STATE.length));
+    }
+  }
+  return { commentIds: [...commentIds], editIds: [...editIds] };
+}
+
+// ── Reading ─────────────────────────────────────────────────────────
+
+/**
+ * Assemble comments and suggested edits from the shared map.
+ * State and reactions written for a comment that is not (or no
+ * longer) present are ignored.
+ */
+export function readComments(map: CommentMapReader): CommentSnapshot {
+  const stored = new Map<string, StoredComment>();
+  const states = new Map<string, StoredCommentState>();
+  const reactions = new Map<string, CommentReaction[]>();
+  const anchors = new Map<string, CommentAnchor>();
+  const storedEdits = new Map<string, StoredEdit>();
+  const editStates = new Map<string, StoredEditState>();
+
+  map.forEach((value, key) => {
+    if (key.startsWith(COMMENT)) {
+      stored.set(key.slice(COMMENT.length), value as StoredComment);
+    } else if (key.startsWith(COMMENT_STATE)) {
+      states.set(key.slice(COMMENT_STATE.length), value as StoredCommentState);
+    } else if (key.startsWith(REACTION)) {
+      const { commentId, emoji, authorDid, createdAt } =
+        value as CommentReactionChange;
+      const list = reactions.get(commentId) ?? [];
+      list.push({ emoji, authorDid, createdAt });
+      reactions.set(commentId, list);
+    } else if (key.startsWith(ANCHOR)) {
+      anchors.set(key.slice(ANCHOR.length), value as CommentAnchor);
+    } else if (key.startsWith(EDIT)) {
+      storedEdits.set(key.slice(EDIT.length), value as StoredEdit);
+    } else if (key.startsWith(EDIT_STATE)) {
+      editStates.set(key.slice(EDIT_STATE.length), value as StoredEditState);
+    }
+  });
+
+  const comments = new Map<string, InlineComment>();
+  for (const [id, comment] of stored) {
+    const state = states.get(id);
+    const anchor = anchors.get(id);
+    comments.set(id, {
+      ...comment,
+      blockId: anchor?.blockId ?? comment.blockId,
+      anchor,
+      anchorEmbedding: comment.anchorEmbedding
+        ? Float32Array.from(comment.anchorEmbedding)
+        : undefined,
+      state: state?.state ?? 'active',
+      resolvedAt: state?.resolvedAt,
+      reactions: (reactions.get(id) ?? []).sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt)
+      ),
+    });
+  }
+
+  const edits = new Map<string, SuggestedEdit>();
+  for (const [id, edit] of storedEdits) {
+    const state = editStates.get(id);
+    edits.set(id, {
+      ...edit,
+      state: state?.state ?? 'pending',
+      decidedBy: state?.decidedBy,
+      decidedAt: state?.decidedAt,
+    });
+  }
+
+  return { comments, edits };
+}
+
+// ── Diff ────────────────────────────────────────────────────────────
+
+/** Comment activity from snapshot `a` to snapshot `b` */
+export function diffComments(
+  a: CommentSnapshot,
+  b: CommentSnapshot
+): CommentActivity {
+  const activity: CommentActivity = {
+    added: [],
+    removed: [],
+    stateChanges: [],
+    reactionsAdded: [],
+    reactionsRemoved: [],
+    editsAdded: [],
+    editsRemoved: [],
+    editStateChanges: [],
+  };
+
+  const reactionId = (r: CommentReaction) => `${r.authorDid}/${r.emoji}`;
+
+  for (const [id, after] of b.comments) {
+    const before = a.comments.get(id);
+    if (!before) {
+      activity.added.push(after);
+      for (const reaction of after.reactions) {
+        activity.reactionsAdded.push({ commentId: id, ...reaction });
+      }
+      continue;
+    }
+    if (before.state !== after.state) {
+      activity.stateChanges.push({
+        comment: after,
+        from: before.state,
+        to: after.state,
+      });
+    }
+    const previous = new Set(before.reactions.map(reactionId));
+    const current = new Set(after.reactions.map(reactionId));
+    for (const reaction of after.reactions) {
+      if (!previous.has(reactionId(reaction))) {
+        activity.reactionsAdded.push({ commentId: id, ...reaction });
+      }
+    }
+    for (const reaction of before.reactions) {
+      if (!current.has(reactionId(reaction))) {
+        activity.reactionsRemoved.push({ commentId: id, ...reaction });
+      }
+    }
+  }
+  for (const [id, before] of a.comments) {
+    if (!b.comments.has(id)) activity.removed.push(before);
+  }
+
+  for (const [id, after] of b.edits) {
+    const before = a.edits.get(id);
+    if (!before) activity.editsAdded.push(after);
+    else if (before.state !== after.state) {
+      activity.editStateChanges.push({
+        edit: after,
+        from: before.state,
+        to: after.state,
+      });
+    }
+  }
+  for (const [id, before] of a.edits) {
+    if (!b.edits.has(id)) activity.editsRemoved.push(before);
+  }
+
+  return activity;
+}
@@ -6,6 +6,8 @@
  * Text is just one projection of this underlying representation.
  */
 
+import { VectorIndex, type SerializedVectorIndex } from './VectorIndex';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 /** Supported entity types from GLiNER-based NER */
@@ -153,6 +155,9 @@ export class EmbeddingDocument {
   /** Entity registry — canonical entities across the document */
   private entityRegistry: Map<string, Entity[]> = new Map();
 
+  /** Nearest-neighbour index over node embeddings */
+  private vectorIndex = new VectorIndex();
+
   constructor(id: string) {
     this.id = id;
   }
@@ -183,6 +188,7 @@ export class EmbeddingDocument {
     this.order.splice(position, 0, node.id);
     this.recomputePositionalEncodings();
     this.indexEntities(node);
+    this.indexVector(node);
   }
 
   /** Remove a node by ID */
@@ -192,6 +198,7 @@ export class EmbeddingDocument {
       this.order = this.order.filter((nid) => nid !== id);
       this.recomputePositionalEncodings();
       this.deindexEntities(id);
+      this.vectorIndex.delete(id);
     }
     return existed;
   }
@@ -246,30 +253,24 @@ export class EmbeddingDocument {
     });
     this.deindexEntities(id);
     this.indexEntities(this.nodes.get(id)!);
+    this.indexVector(this.nodes.get(id)!);
   }
 
   // ── Search ────────────────────────────────────────────────────
 
   /**
    * Find nodes semantically similar to a query embedding.
-   * Uses cosine similarity over the 384-dim vectors.
+   * Uses cosine similarity over the 384-dim vectors, through the
+   * approximate nearest-neighbour index.
    */
   findSimilar(
     queryEmbedding: Float32Array,
     topK: number = 5,
     threshold: number = 0.7
   ): Array<{ node: EmbeddedNode; similarity: number }> {
-    const results: Array<{ node: EmbeddedNode; similarity: number }> = [];
-
-    for (const node of this.nodes.values()) {
-      if (node.embedding.length === 0) continue;
-      const similarity = cosineSimilarity(queryEmbedding, node.embedding);
-      if (similarity >= threshold) {
-        results.push({ node, similarity });
-      }
-    }
-
-    return results.sort((a, b) => b.similarity - a.similarity).slice(0, topK);
+    return this.vectorIndex
+      .search(queryEmbedding, topK, { minSimilarity: threshold })
+      .map(({ id, similarity }) => ({ node: this.nodes.get(id)!, similarity }));
   }
 
   /**
@@ -308,6 +309,7 @@ export class EmbeddingDocument {
       id: this.id,
       nodes: this.getOrderedNodes().map(serializeNode),
       order: [...this.order],
+      vectorIndex: this.vectorIndex.serialize(),
     };
   }
 
@@ -324,6 +326,15 @@ export class EmbeddingDocument {
     for (const node of doc.nodes.values()) {
       doc.indexEntities(node);
     }
+
+    // Restore the vector index, or rebuild it for older snapshots
+    if (data.vectorIndex) {
+      doc.vectorIndex = VectorIndex.deserialize(data.vectorIndex);
+    } else {
+      for (const node of doc.nodes.values()) {
+        doc.indexVector(node);
+      }
+    }
     return doc;
   }
 
@@ -351,6 +362,19 @@ export class EmbeddingDocument {
     }
   }
 
+  /** Keep a node's embedding in the vector index */
+  private indexVector(node: EmbeddedNode): void {
+    const dims = this.vectorIndex.dimensions;
+    if (
+      node.embedding.length === 0 ||
+      (dims !== 0 && node.embedding.length !== dims)
+    ) {
+      this.vectorIndex.delete(node.id);
+      return;
+    }
+    this.vectorIndex.upsert(node.id, node.embedding);
+  }
+
   /** Index a node's entities in the entity registry */
   private indexEntities(node: EmbeddedNode): void {
     for (const entity of node.entities) {
@@ -399,6 +423,8 @@ export interface SerializedEmbeddingDocument {
   id: string;
   nodes: SerializedEmbeddedNode[];
   order: string[];
+  /** Absent in snapshots from before the vector index */
+  vectorIndex?: SerializedVectorIndex;
 }
 
 function serializeNode(node: EmbeddedNode): SerializedEmbeddedNode {
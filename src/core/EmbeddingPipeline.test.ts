@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EmbeddingPipeline, type PipelineEvent } from './EmbeddingPipeline';
+import { MemoryEmbeddingStore } from './EmbeddingStore';
+import { EmbeddingDocument, createEmbeddedNode } from './EmbeddingDocument';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const entities = { extractEntities: async () => [] };
+const classifier = {
+  classify: async () => ({
+    topic: 'general',
+    sentiment: 0,
+    intent: 'informational',
+    confidence: 1,
+  }),
+};
+
+function embeddingOf(text: string): Float32Array {
+  return new Float32Array([text.length, 1]);
+}
+
+function createDoc(texts: string[]): EmbeddingDocument {
+  const doc = new EmbeddingDocument('doc-1');
+  texts.forEach((text, i) =>
+    doc.insertNode(
+      createEmbeddedNode(`n${i}`, text, 'paragraph', 'did:key:alice'),
+      i
+    )
+  );
+  return doc;
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('EmbeddingPipeline', () => {
+  it('embeds in batches and reuses cached embeddings', async () => {
+    const embedBatch = vi.fn(async (texts: string[]) => texts.map(embeddingOf));
+    const embed = vi.fn(async (text: string) => embeddingOf(text));
+    const store = new MemoryEmbeddingStore();
+    const pipeline = new EmbeddingPipeline(
+      { embed, embedBatch },
+      entities,
+      classifier,
+      { store, batchSize: 2 }
+    );
+    const events: PipelineEvent[] = [];
+    pipeline.onComplete((event) => events.push(event));
+
+    const doc = createDoc(['alpha', 'beta', 'alpha']);
+    expect(await pipeline.embedAll(doc)).toBe(3);
+
+    expect(embed).not.toHaveBeenCalled();
+    expect(embedBatch.mock.calls.map(([texts]) => texts)).toEqual([
+      ['alpha', 'beta'],
+    ]);
+    expect(doc.getNode('n2')!.embedding).toEqual(embeddingOf('alpha'));
+    expect(
+      events.map((e) => e.type === 'embedding-complete' && e.cached)
+    ).toEqual([false, false, true]);
+    expect(events.map((e) => e.queueDepth)).toEqual([2, 1, 0]);
+
+    // A new pipeline over the same store skips unchanged text
+    const reloaded = new EmbeddingPipeline(
+      { embed, embedBatch },
+      entities,
+      classifier,
+      { store }
+    );
+    doc.updateText('n1', 'gamma');
+    expect(await reloaded.embedAll(doc)).toBe(1);
+    expect(embedBatch).toHaveBeenLastCalledWith(['gamma']);
+  });
+
+  it('re-embeds nodes reloaded without embeddings', async () => {
+    const embed = vi.fn(async (text: string) => embeddingOf(text));
+    const store = new MemoryEmbeddingStore();
+    const pipeline = new EmbeddingPipeline({ embed }, entities, classifier, {
+      store,
+    });
+    expect(await pipeline.embedAll(createDoc(['alpha', 'beta']))).toBe(2);
+
+    // Same text, same store, but the embeddings were not persisted
+    const reloaded = createDoc(['alpha', 'beta']);
+    expect(await pipeline.embedAll(reloaded)).toBe(2);
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(reloaded.getNode('n1')!.embedding).toEqual(embeddingOf('beta'));
+    expect(await pipeline.embedAll(reloaded)).toBe(0);
+  });
+
+  it('rejects waiters when the store fails', async () => {
+    const store = new MemoryEmbeddingStore();
+    store.putNodeHash = async () => {
+      throw new Error('quota exceeded');
+    };
+    const pipeline = new EmbeddingPipeline(
+      { embed: async (text) => embeddingOf(text) },
+      entities,
+      classifier,
+      { store }
+    );
+
+    const doc = createDoc(['alpha']);
+    await expect(pipeline.embedAll(doc)).rejects.toThrow('quota exceeded');
+    await expect(pipeline.embedNow(doc, 'n0')).rejects.toThrow(
+      'quota exceeded'
+    );
+    expect(pipeline.getQueueDepth()).toBe(0);
+    expect(await store.listJobs()).toHaveLength(1);
+  });
+
+  it('retries with backoff, then dead-letters', async () => {
+    let failures = 2;
+    const embed = vi.fn(async (text: string) => {
+      if (text === 'broken' || failures-- > 0) throw new Error('model busy');
+      return embeddingOf(text);
+    });
+    const pipeline = new EmbeddingPipeline({ embed }, entities, classifier, {
+      maxAttempts: 3,
+      retryBaseMs: 1,
+    });
+    const errors: PipelineEvent[] = [];
+    pipeline.onComplete((event) => {
+      if (event.type === 'embedding-error') errors.push(event);
+    });
+
+    const doc = createDoc(['fine']);
+    await pipeline.embedNow(doc, 'n0');
+    expect(embed).toHaveBeenCalledTimes(3);
+    expect(doc.getNode('n0')!.embedding).toEqual(embeddingOf('fine'));
+    expect(await pipeline.getDeadLetters()).toEqual([]);
+
+    doc.updateText('n0', 'broken');
+    await pipeline.embedNow(doc, 'n0');
+    const [dead] = await pipeline.getDeadLetters();
+    expect(dead).toMatchObject({
+      nodeId: 'n0',
+      attempts: 3,
+      error: 'model busy',
+    });
+    expect(
+      errors.map((e) => e.type === 'embedding-error' && e.willRetry)
+    ).toEqual([true, true, true, true, false]);
+
+    doc.updateText('n0', 'fixed');
+    expect(await pipeline.retryDeadLetters(doc)).toBe(1);
+    await pipeline.embedNow(doc, 'n0');
+    expect(doc.getNode('n0')!.embedding).toEqual(embeddingOf('fixed'));
+    expect(await pipeline.getDeadLetters()).toEqual([]);
+  });
+
+  it('resumes jobs persisted by an earlier session', async () => {
+    const store = new MemoryEmbeddingStore();
+    const doc = createDoc(['one', 'two']);
+    await store.putJob({
+      documentId: 'doc-1',
+      nodeId: 'n1',
+      hash: 'stale',
+      attempts: 0,
+      notBefore: 0,
+      enqueuedAt: new Date().toISOString(),
+    });
+
+    const pipeline = new EmbeddingPipeline(
+      { embed: async (text) => embeddingOf(text) },
+      entities,
+      classifier,
+      { store }
+    );
+    const done = new Promise<PipelineEvent>((resolve) =>
+      pipeline.onComplete(resolve)
+    );
+    expect(await pipeline.resume(doc)).toBe(1);
+
+    expect((await done).nodeId).toBe('n1');
+    expect(doc.getNode('n1')!.embedding).toEqual(embeddingOf('two'));
+    await vi.waitFor(async () => expect(await store.listJobs()).toEqual([]));
+  });
+});
@@ -4,14 +4,25 @@
  * Runs asynchronously (designed for the WASM worker) to keep
  * the UI thread free. On every text change, debounces and
  * re-embeds, re-classifies, and re-extracts entities.
+ *
+ * Work goes through a queue persisted in an `EmbeddingStore`.
+ * Jobs are drained in batches; embeddings are cached by a hash of
+ * the model and text, so unchanged text is never embedded twice.
+ * Failed jobs retry with exponential backoff, then move to the
+ * dead-letter list.
  */
 
 import type {
   EmbeddingDocument,
-  EmbeddedNode,
   Entity,
   Classification,
 } from './EmbeddingDocument';
+import {
+  MemoryEmbeddingStore,
+  type DeadLetter,
+  type EmbeddingJob,
+  type EmbeddingStore,
+} from './EmbeddingStore';
 
 // ── ESI Bridge Types ────────────────────────────────────────────────
 
@@ -19,6 +30,8 @@ import type {
 export interface EmbeddingService {
   /** Compute a 384-dim embedding for text */
   embed(text: string): Promise<Float32Array>;
+  /** Compute embeddings for several texts in one call, in order */
+  embedBatch?(texts: string[]): Promise<Float32Array[]>;
 }
 
 /** Interface for the ESI entity extraction service */
@@ -44,6 +57,20 @@ export interface PipelineConfig {
   enableClassification: boolean;
   /** Embedding dimensions (default: 384 for bge-small-en-v1.5) */
   embeddingDimensions: number;
+  /** Model identifier, part of the cache key */
+  modelId: string;
+  /** Jobs embedded per batch */
+  batchSize: number;
+  /** Attempts before a job goes to the dead-letter list */
+  maxAttempts: number;
+  /** Delay before the first retry (ms); doubles on each further retry */
+  retryBaseMs: number;
+  /** Upper bound on the retry delay (ms) */
+  retryMaxMs: number;
+  /** Persistence for cache, queue and dead letters (default: in memory) */
+  store?: EmbeddingStore;
+  /** Content hash of a string (default: SHA-256, hex) */
+  hash?: (content: string) => Promise<string>;
 }
 
 const DEFAULT_CONFIG: PipelineConfig = {
@@ -51,8 +78,50 @@ const DEFAULT_CONFIG: PipelineConfig = {
   enableEntities: true,
   enableClassification: true,
   embeddingDimensions: 384,
+  modelId: 'bge-small-en-v1.5',
+  batchSize: 16,
+  maxAttempts: 4,
+  retryBaseMs: 1000,
+  retryMaxMs: 60_000,
 };
 
+/** An embedding and whether it came from the cache */
+interface EmbedResult {
+  readonly embedding: Float32Array;
+  readonly cached: boolean;
+}
+
+/** A job taken from the queue, with the document it belongs to */
+interface QueuedJob {
+  readonly doc: EmbeddingDocument;
+  readonly job: EmbeddingJob;
+}
+
+async function sha256(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content)
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+function jobKey(documentId: string, nodeId: string): string {
+  return `${documentId}/${nodeId}`;
+}
+
+/** Blank nodes carry an empty or all-zero vector until embedded */
+function hasEmbedding(embedding: Float32Array): boolean {
+  return embedding.some((value) => value !== 0);
+}
+
+/** A caller waiting for a node's job to settle */
+interface Waiter {
+  readonly resolve: () => void;
+  readonly reject: (error: Error) => void;
+}
+
 // ── Pipeline ────────────────────────────────────────────────────────
 
 /**
@@ -68,13 +137,27 @@ export class EmbeddingPipeline {
   private readonly embeddingService: EmbeddingService;
   private readonly entityService: EntityExtractionService;
   private readonly classificationService: ClassificationService;
+  private readonly store: EmbeddingStore;
+  private readonly hash: (content: string) => Promise<string>;
 
   /** Pending debounced re-embed timers per node ID */
   private pendingTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
+  /** Queued jobs by document and node, in arrival order */
+  private queue: Map<string, QueuedJob> = new Map();
+
   /** Currently in-flight embedding requests */
   private inflight: Set<string> = new Set();
 
+  /** Callers waiting for a node's job to settle */
+  private waiters: Map<string, Waiter[]> = new Map();
+
+  /** Whether a batch is being processed */
+  private draining = false;
+
+  /** Timer for the next job waiting on backoff */
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
   /** Listeners for embedding completion events */
   private listeners: Set<PipelineListener> = new Set();
 
@@ -88,6 +171,8 @@ export class EmbeddingPipeline {
     this.embeddingService = embeddingService;
     this.entityService = entityService;
     this.classificationService = classificationService;
+    this.store = config.store ?? new MemoryEmbeddingStore();
+    this.hash = config.hash ?? sha256;
   }
 
   /**
@@ -101,7 +186,7 @@ export class EmbeddingPipeline {
 
     const timer = setTimeout(() => {
       this.pendingTimers.delete(nodeId);
-      void this.processNode(doc, nodeId);
+      void this.enqueue(doc, nodeId);
     }, this.config.debounceMs);
 
     this.pendingTimers.set(nodeId, timer);
@@ -109,7 +194,8 @@ export class EmbeddingPipeline {
 
   /**
    * Immediately embed a node (skip debounce).
-   * Used for initial document load or batch operations.
+   * Resolves once the node is embedded or dead-lettered, and rejects
+   * if the store fails meanwhile.
    */
   async embedNow(doc: EmbeddingDocument, nodeId: string): Promise<void> {
     // Cancel any pending timer
@@ -118,21 +204,78 @@ export class EmbeddingPipeline {
       clearTimeout(existing);
       this.pendingTimers.delete(nodeId);
     }
-    await this.processNode(doc, nodeId);
+    if (!doc.getNode(nodeId)) return;
+    const settled = this.whenSettled(doc.id, nodeId);
+    await this.enqueue(doc, nodeId);
+    await settled;
+  }
+
+  /**
+   * Embed every node whose text changed since it was last embedded,
+   * or that has no embedding (a document reloaded without them).
+   * Used for initial load or full re-indexing. Rejects if the store
+   * fails while the nodes are processed.
+   *
+   * @returns Number of nodes queued
+   */
+  async embedAll(doc: EmbeddingDocument): Promise<number> {
+    const jobs: EmbeddingJob[] = [];
+    for (const node of doc.getOrderedNodes()) {
+      const hash = await this.contentHash(node.text);
+      const previous = await this.store.getNodeHash(doc.id, node.id);
+      if (previous !== hash || !hasEmbedding(node.embedding)) {
+        jobs.push(this.addJob(doc, node.id, hash));
+      }
+    }
+
+    // Queue everything before draining, so batches fill up
+    const waits = jobs.map((job) => this.whenSettled(doc.id, job.nodeId));
+    await Promise.all(jobs.map((job) => this.store.putJob(job)));
+    this.kick();
+    await Promise.all(waits);
+    return jobs.length;
   }
 
   /**
-   * Embed all nodes in the document.
-   * Used for initial load or full re-indexing.
+   * Re-queue jobs persisted by an earlier session for this document.
+   *
+   * @returns Number of jobs resumed
    */
-  async embedAll(doc: EmbeddingDocument): Promise<void> {
-    const nodes = doc.getOrderedNodes();
-    // Process in parallel batches of 10
-    const batchSize = 10;
-    for (let i = 0; i < nodes.length; i += batchSize) {
-      const batch = nodes.slice(i, i + batchSize);
-      await Promise.all(batch.map((node) => this.processNode(doc, node.id)));
+  async resume(doc: EmbeddingDocument): Promise<number> {
+    let resumed = 0;
+    for (const job of await this.store.listJobs()) {
+      if (job.documentId !== doc.id) continue;
+      if (!doc.getNode(job.nodeId)) {
+        await this.store.deleteJob(job.documentId, job.nodeId);
+        continue;
+      }
+      const key = jobKey(job.documentId, job.nodeId);
+      if (this.queue.has(key)) continue;
+      this.queue.set(key, { doc, job });
+      resumed++;
     }
+    this.kick();
+    return resumed;
+  }
+
+  /** Jobs that exhausted their retries */
+  getDeadLetters(): Promise<DeadLetter[]> {
+    return this.store.listDeadLetters();
+  }
+
+  /**
+   * Re-queue this document's dead letters with a fresh retry budget.
+   *
+   * @returns Number of jobs re-queued
+   */
+  async retryDeadLetters(doc: EmbeddingDocument): Promise<number> {
+    let retried = 0;
+    for (const entry of await this.store.listDeadLetters()) {
+      if (entry.documentId !== doc.id) continue;
+      await this.store.deleteDeadLetter(entry.documentId, entry.nodeId);
+      if (await this.enqueue(doc, entry.nodeId)) retried++;
+    }
+    return retried;
   }
 
   /** Register a listener for embedding completion events */
@@ -146,31 +289,255 @@ export class EmbeddingPipeline {
     return this.inflight;
   }
 
+  /** Jobs queued or in flight */
+  getQueueDepth(): number {
+    return this.queue.size + this.inflight.size;
+  }
+
   /** Cancel all pending re-embed timers */
   dispose(): void {
     for (const timer of this.pendingTimers.values()) {
       clearTimeout(timer);
     }
     this.pendingTimers.clear();
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.queue.clear();
     this.listeners.clear();
+    for (const waiters of this.waiters.values()) {
+      for (const { resolve } of waiters) resolve();
+    }
+    this.waiters.clear();
   }
 
-  // ── Private ───────────────────────────────────────────────────
+  // ── Queue ─────────────────────────────────────────────────────
 
-  private async processNode(
+  /**
+   * Queue a node, replacing any queued job for it.
+   * Returns false if the node does not exist.
+   */
+  private async enqueue(
     doc: EmbeddingDocument,
     nodeId: string
-  ): Promise<void> {
+  ): Promise<boolean> {
     const node = doc.getNode(nodeId);
-    if (!node) return;
-    if (this.inflight.has(nodeId)) return; // Already processing
+    if (!node) return false;
+
+    const job = this.addJob(doc, nodeId, await this.contentHash(node.text));
+    await this.store.putJob(job);
+    this.kick();
+    return true;
+  }
+
+  /** Put a fresh job at the back of the in-memory queue */
+  private addJob(
+    doc: EmbeddingDocument,
+    nodeId: string,
+    hash: string
+  ): EmbeddingJob {
+    const job: EmbeddingJob = {
+      documentId: doc.id,
+      nodeId,
+      hash,
+      attempts: 0,
+      notBefore: 0,
+      enqueuedAt: new Date().toISOString(),
+    };
+    const key = jobKey(doc.id, nodeId);
+    this.queue.delete(key);
+    this.queue.set(key, { doc, job });
+    return job;
+  }
+
+  private kick(): void {
+    if (this.draining) return;
+    this.draining = true;
+    void this.drain().finally(() => {
+      this.draining = false;
+      // Jobs queued while the last batch finished
+      if (this.hasReadyJob(Date.now())) this.kick();
+    });
+  }
+
+  private async drain(): Promise<void> {
+    for (;;) {
+      const batch = this.nextBatch(Date.now());
+      if (batch.length === 0) break;
+      await this.processBatch(batch);
+    }
+    this.armRetryTimer();
+  }
 
-    this.inflight.add(nodeId);
+  /** Take up to `batchSize` ready jobs off the queue */
+  private nextBatch(now: number): QueuedJob[] {
+    const batch: QueuedJob[] = [];
+    for (const [key, entry] of this.queue) {
+      if (batch.length >= this.config.batchSize) break;
+      if (entry.job.notBefore > now || this.inflight.has(key)) continue;
+      batch.push(entry);
+    }
+    for (const { job } of batch) {
+      const key = jobKey(job.documentId, job.nodeId);
+      this.queue.delete(key);
+      this.inflight.add(key);
+    }
+    return batch;
+  }
+
+  private hasReadyJob(now: number): boolean {
+    for (const [key, { job }] of this.queue) {
+      if (job.notBefore <= now && !this.inflight.has(key)) return true;
+    }
+    return false;
+  }
 
+  /** Wake up when the earliest backed-off job is due */
+  private armRetryTimer(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+
+    let earliest = Infinity;
+    for (const { job } of this.queue.values()) {
+      earliest = Math.min(earliest, job.notBefore);
+    }
+    if (earliest === Infinity) return;
+
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.kick();
+      },
+      Math.max(0, earliest - Date.now())
+    );
+  }
+
+  private async processBatch(batch: QueuedJob[]): Promise<void> {
+    try {
+      const jobs: QueuedJob[] = [];
+      for (const entry of batch) {
+        const node = entry.doc.getNode(entry.job.nodeId);
+        if (!node) {
+          await this.finish(entry.job);
+          continue;
+        }
+        // Text changed since the job was queued
+        const hash = await this.contentHash(node.text);
+        jobs.push(
+          hash === entry.job.hash
+            ? entry
+            : { doc: entry.doc, job: { ...entry.job, hash } }
+        );
+      }
+
+      const embeddings = await this.embedTexts(jobs).catch((error) =>
+        jobs.map(() => toError(error))
+      );
+      await Promise.all(
+        jobs.map((entry, i) => this.processNode(entry, embeddings[i]))
+      );
+    } catch (error) {
+      // The store failed: the jobs stay persisted for `resume`, but
+      // whoever waits on them hears about it now
+      for (const { job } of batch) {
+        this.settle(jobKey(job.documentId, job.nodeId), toError(error));
+      }
+    } finally {
+      for (const { job } of batch) {
+        this.inflight.delete(jobKey(job.documentId, job.nodeId));
+      }
+    }
+  }
+
+  /**
+   * Embeddings for a batch: cache hits first, then one call for the
+   * misses. Each result is an embedding, or the error for that text.
+   */
+  private async embedTexts(
+    jobs: QueuedJob[]
+  ): Promise<Array<EmbedResult | Error>> {
+    const results: Array<EmbedResult | Error | undefined> = await Promise.all(
+      jobs.map(async ({ job }) => {
+        const embedding = await this.store.getEmbedding(job.hash);
+        return embedding ? { embedding, cached: true } : undefined;
+      })
+    );
+
+    // One request per distinct uncached text
+    const missing = new Map<string, { text: string; indices: number[] }>();
+    jobs.forEach(({ doc, job }, i) => {
+      if (results[i]) return;
+      const entry = missing.get(job.hash);
+      if (entry) entry.indices.push(i);
+      else {
+        const text = doc.getNode(job.nodeId)!.text;
+        missing.set(job.hash, { text, indices: [i] });
+      }
+    });
+    if (missing.size === 0) return results as Array<EmbedResult>;
+
+    const requests = Array.from(missing.entries());
+    const texts = requests.map(([, { text }]) => text);
+    let computed: Array<Float32Array | Error>;
+    if (this.embeddingService.embedBatch) {
+      try {
+        const embeddings = await this.embeddingService.embedBatch(texts);
+        if (embeddings.length !== texts.length) {
+          throw new Error(
+            `embedBatch returned ${embeddings.length} embeddings for ${texts.length} texts`
+          );
+        }
+        computed = embeddings;
+      } catch (error) {
+        computed = texts.map(() => toError(error));
+      }
+    } else {
+      computed = await Promise.all(
+        texts.map((text) =>
+          this.embeddingService.embed(text).catch((error) => toError(error))
+        )
+      );
+    }
+
+    await Promise.all(
+      requests.map(async ([hash, { indices }], i) => {
+        const result = computed[i];
+        if (!(result instanceof Error)) {
+          await this.store.putEmbedding(hash, result);
+        }
+        for (const index of indices) {
+          results[index] =
+            result instanceof Error
+              ? result
+              : { embedding: result, cached: false };
+        }
+      })
+    );
+    return results as Array<EmbedResult | Error>;
+  }
+
+  private async processNode(
+    entry: QueuedJob,
+    embedded: EmbedResult | Error
+  ): Promise<void> {
+    const { doc, job } = entry;
+    const node = doc.getNode(job.nodeId);
+    if (!node) {
+      await this.finish(job);
+      return;
+    }
+
+    if (embedded instanceof Error) {
+      await this.fail(entry, embedded);
+      return;
+    }
+    const { embedding, cached } = embedded;
+
+    let linkedEntities: Entity[];
+    let classification: Classification;
     try {
-      // Run embedding, entity extraction, and classification in parallel
-      const [embedding, entities, classification] = await Promise.all([
-        this.embeddingService.embed(node.text),
+      // Entity extraction and classification in parallel
+      let entities: Entity[];
+      [entities, classification] = await Promise.all([
         this.config.enableEntities
           ? this.entityService.extractEntities(node.text)
           : Promise.resolve(node.entities),
@@ -180,35 +547,104 @@ export class EmbeddingPipeline {
       ]);
 
       // Link entities to canonical IDs
-      const linkedEntities = this.linkEntities(entities, doc);
-
-      // Update the node in the document
-      doc.updateEmbedding(nodeId, embedding, linkedEntities, classification);
-
-      // Notify listeners
-      for (const listener of this.listeners) {
-        listener({
-          type: 'embedding-complete',
-          nodeId,
-          embedding,
-          entities: linkedEntities,
-          classification,
-        });
-      }
+      linkedEntities = this.linkEntities(entities, doc);
     } catch (error) {
-      // Notify listeners of failure
-      for (const listener of this.listeners) {
-        listener({
-          type: 'embedding-error',
-          nodeId,
-          error: error instanceof Error ? error : new Error(String(error)),
-        });
-      }
-    } finally {
-      this.inflight.delete(nodeId);
+      await this.fail(entry, toError(error));
+      return;
+    }
+
+    // Update the node in the document
+    doc.updateEmbedding(job.nodeId, embedding, linkedEntities, classification);
+    await this.store.putNodeHash(job.documentId, job.nodeId, job.hash);
+    await this.finish(job);
+    this.inflight.delete(jobKey(job.documentId, job.nodeId));
+
+    // Notify listeners
+    this.emit({
+      type: 'embedding-complete',
+      nodeId: job.nodeId,
+      embedding,
+      entities: linkedEntities,
+      classification,
+      cached,
+      queueDepth: this.getQueueDepth(),
+    });
+  }
+
+  /** Back off and re-queue, or dead-letter after the last attempt */
+  private async fail({ doc, job }: QueuedJob, error: Error): Promise<void> {
+    const attempts = job.attempts + 1;
+    const key = jobKey(job.documentId, job.nodeId);
+    const superseded = this.queue.has(key);
+    const willRetry = !superseded && attempts < this.config.maxAttempts;
+
+    if (willRetry) {
+      const delay = Math.min(
+        this.config.retryMaxMs,
+        this.config.retryBaseMs * 2 ** (attempts - 1)
+      );
+      const retry = { ...job, attempts, notBefore: Date.now() + delay };
+      this.queue.set(key, { doc, job: retry });
+      await this.store.putJob(retry);
+    } else if (!superseded) {
+      await this.store.putDeadLetter({
+        documentId: job.documentId,
+        nodeId: job.nodeId,
+        hash: job.hash,
+        attempts,
+        error: error.message,
+        failedAt: new Date().toISOString(),
+      });
+      await this.finish(job);
+    }
+    this.inflight.delete(key);
+
+    // Notify listeners of failure
+    this.emit({
+      type: 'embedding-error',
+      nodeId: job.nodeId,
+      error,
+      attempt: attempts,
+      willRetry,
+      queueDepth: this.getQueueDepth(),
+    });
+  }
+
+  /** Drop a settled job, unless a newer one was queued meanwhile */
+  private async finish(job: EmbeddingJob): Promise<void> {
+    const key = jobKey(job.documentId, job.nodeId);
+    if (this.queue.has(key)) return;
+    await this.store.deleteJob(job.documentId, job.nodeId);
+    this.settle(key);
+  }
+
+  /** Resolve a node's waiters, or reject them with `error` */
+  private settle(key: string, error?: Error): void {
+    const waiters = this.waiters.get(key);
+    this.waiters.delete(key);
+    for (const { resolve, reject } of waiters ?? []) {
+      if (error) reject(error);
+      else resolve();
     }
   }
 
+  private whenSettled(documentId: string, nodeId: string): Promise<void> {
+    const key = jobKey(documentId, nodeId);
+    return new Promise((resolve, reject) => {
+      const waiters = this.waiters.get(key) ?? [];
+      waiters.push({ resolve, reject });
+      this.waiters.set(key, waiters);
+    });
+  }
+
+  private contentHash(text: string): Promise<string> {
+    return this.hash(`${this.config.modelId}\u0000${text}`);
+  }
+
+  private emit(event: PipelineEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
   /**
    * Link entities to canonical IDs.
    * If an entity matches an existing entity in the document
@@ -251,11 +687,25 @@ export type PipelineEvent =
       embedding: Float32Array;
       entities: Entity[];
       classification: Classification;
+      /** Whether the embedding came from the cache */
+      cached: boolean;
+      /** Jobs still queued or in flight */
+      queueDepth: number;
     }
   | {
       type: 'embedding-error';
       nodeId: string;
       error: Error;
+      /** Attempts made so far, including this one */
+      attempt: number;
+      /** false once the job has moved to the dead-letter list */
+      willRetry: boolean;
+      /** Jobs still queued or in flight */
+      queueDepth: number;
     };
 
 export type PipelineListener = (event: PipelineEvent) => void;
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,214 @@
+/**
+ * EmbeddingStore — Persistence for the EmbeddingPipeline
+ *
+ * Holds three things that must outlive a reload:
+ *   - the embedding cache, keyed by a hash of model and text
+ *   - the job queue, so unfinished work resumes where it stopped
+ *   - dead letters, jobs that failed every retry
+ *
+ * It also remembers which text hash each node was last embedded
+ * from, so `embedAll` can skip nodes whose text has not changed.
+ */
+
+import type { KeyValueBackend } from '../revisions/RevisionStore';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A queued embedding job */
+export interface EmbeddingJob {
+  readonly documentId: string;
+  readonly nodeId: string;
+  /** Content hash of the text being embedded */
+  readonly hash: string;
+  /** Failed attempts so far */
+  readonly attempts: number;
+  /** Earliest time (epoch ms) the job may run again */
+  readonly notBefore: number;
+  /** ISO-8601 time the job was queued */
+  readonly enqueuedAt: string;
+}
+
+/** A job that exhausted its retries */
+export interface DeadLetter {
+  readonly documentId: string;
+  readonly nodeId: string;
+  readonly hash: string;
+  readonly attempts: number;
+  /** Message of the last error */
+  readonly error: string;
+  /** ISO-8601 time of the last failure */
+  readonly failedAt: string;
+}
+
+/** Pluggable persistence for embeddings, jobs and dead letters */
+export interface EmbeddingStore {
+  /** Cached embedding for a content hash */
+  getEmbedding(hash: string): Promise<Float32Array | undefined>;
+  putEmbedding(hash: string, embedding: Float32Array): Promise<void>;
+  /** Hash of the text a node was last embedded from */
+  getNodeHash(documentId: string, nodeId: string): Promise<string | undefined>;
+  putNodeHash(documentId: string, nodeId: string, hash: string): Promise<void>;
+  /** All queued jobs */
+  listJobs(): Promise<EmbeddingJob[]>;
+  putJob(job: EmbeddingJob): Promise<void>;
+  deleteJob(documentId: string, nodeId: string): Promise<void>;
+  /** All dead letters */
+  listDeadLetters(): Promise<DeadLetter[]>;
+  putDeadLetter(entry: DeadLetter): Promise<void>;
+  deleteDeadLetter(documentId: string, nodeId: string): Promise<void>;
+}
+
+function nodeKey(documentId: string, nodeId: string): string {
+  return `${documentId}/${nodeId}`;
+}
+
+// ── In-memory Store ─────────────────────────────────────────────────
+
+export class MemoryEmbeddingStore implements EmbeddingStore {
+  private embeddings: Map<string, Float32Array> = new Map();
+  private nodeHashes: Map<string, string> = new Map();
+  private jobs: Map<string, EmbeddingJob> = new Map();
+  private deadLetters: Map<string, DeadLetter> = new Map();
+
+  async getEmbedding(hash: string): Promise<Float32Array | undefined> {
+    return this.embeddings.get(hash);
+  }
+
+  async putEmbedding(hash: string, embedding: Float32Array): Promise<void> {
+    this.embeddings.set(hash, embedding);
+  }
+
+  async getNodeHash(
+    documentId: string,
+    nodeId: string
+  ): Promise<string | undefined> {
+    return this.nodeHashes.get(nodeKey(documentId, nodeId));
+  }
+
+  async putNodeHash(
+    documentId: string,
+    nodeId: string,
+    hash: string
+  ): Promise<void> {
+    this.nodeHashes.set(nodeKey(documentId, nodeId), hash);
+  }
+
+  async listJobs(): Promise<EmbeddingJob[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async putJob(job: EmbeddingJob): Promise<void> {
+    this.jobs.set(nodeKey(job.documentId, job.nodeId), job);
+  }
+
+  async deleteJob(documentId: string, nodeId: string): Promise<void> {
+    this.jobs.delete(nodeKey(documentId, nodeId));
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    return Array.from(this.deadLetters.values());
+  }
+
+  async putDeadLetter(entry: DeadLetter): Promise<void> {
+    this.deadLetters.set(nodeKey(entry.documentId, entry.nodeId), entry);
+  }
+
+  async deleteDeadLetter(documentId: string, nodeId: string): Promise<void> {
+    this.deadLetters.delete(nodeKey(documentId, nodeId));
+  }
+}
+
+// ── Key/Value Store ─────────────────────────────────────────────────
+
+const EMBEDDING_PREFIX = 'embedding/';
+const NODE_PREFIX = 'node/';
+const JOB_PREFIX = 'job/';
+const DEAD_LETTER_PREFIX = 'dead/';
+
+/**
+ * Embedding store on top of a key/value backend, e.g.
+ * `openIndexedDBBackend(dbName, 'embeddings')`.
+ */
+export class KeyValueEmbeddingStore implements EmbeddingStore {
+  private backend: KeyValueBackend;
+  private namespace: string;
+
+  constructor(backend: KeyValueBackend, namespace: string = '') {
+    this.backend = backend;
+    this.namespace = namespace ? `${namespace}/` : '';
+  }
+
+  async getEmbedding(hash: string): Promise<Float32Array | undefined> {
+    const value = await this.backend.get(this.key(EMBEDDING_PREFIX, hash));
+    return value as Float32Array | undefined;
+  }
+
+  async putEmbedding(hash: string, embedding: Float32Array): Promise<void> {
+    await this.backend.put(this.key(EMBEDDING_PREFIX, hash), embedding);
+  }
+
+  async getNodeHash(
+    documentId: string,
+    nodeId: string
+  ): Promise<string | undefined> {
+    const value = await this.backend.get(
+      this.key(NODE_PREFIX, nodeKey(documentId, nodeId))
+    );
+    return value as string | undefined;
+  }
+
+  async putNodeHash(
+    documentId: string,
+    nodeId: string,
+    hash: string
+  ): Promise<void> {
+    await this.backend.put(
+      this.key(NODE_PREFIX, nodeKey(documentId, nodeId)),
+      hash
+    );
+  }
+
+  async listJobs(): Promise<EmbeddingJob[]> {
+    return this.readAll<EmbeddingJob>(JOB_PREFIX);
+  }
+
+  async putJob(job: EmbeddingJob): Promise<void> {
+    await this.backend.put(
+      this.key(JOB_PREFIX, nodeKey(job.documentId, job.nodeId)),
+      job
+    );
+  }
+
+  async deleteJob(documentId: string, nodeId: string): Promise<void> {
+    await this.backend.delete(
+      this.key(JOB_PREFIX, nodeKey(documentId, nodeId))
+    );
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    return this.readAll<DeadLetter>(DEAD_LETTER_PREFIX);
+  }
+
+  async putDeadLetter(entry: DeadLetter): Promise<void> {
+    await this.backend.put(
+      this.key(DEAD_LETTER_PREFIX, nodeKey(entry.documentId, entry.nodeId)),
+      entry
+    );
+  }
+
+  async deleteDeadLetter(documentId: string, nodeId: string): Promise<void> {
+    await this.backend.delete(
+      this.key(DEAD_LETTER_PREFIX, nodeKey(documentId, nodeId))
+    );
+  }
+
+  private key(prefix: string, id: string): string {
+    return `${this.namespace}${prefix}${id}`;
+  }
+
+  private async readAll<T>(prefix: string): Promise<T[]> {
+    const keys = await this.backend.keys(`${this.namespace}${prefix}`);
+    const values = await Promise.all(keys.map((k) => this.backend.get(k)));
+    return values.filter((v) => v !== undefined) as T[];
+  }
+}
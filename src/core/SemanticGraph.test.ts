@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { SemanticGraph } from './SemanticGraph';
+import {
+  EmbeddingDocument,
+  cosineSimilarity,
+  createEmbeddedNode,
+  type Entity,
+} from './EmbeddingDocument';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+/** Vectors near one of a few directions, so similar nodes crowd together */
+function embedding(next: () => number): Float32Array {
+  const axis = Math.floor(next() * 3);
+  return Float32Array.from({ length: 4 }, (_, d) =>
+    d === axis ? 1 : (next() - 0.5) * 0.8
+  );
+}
+
+function entity(canonicalId: string): Entity {
+  return {
+    text: canonicalId,
+    type: 'concept',
+    start: 0,
+    end: 1,
+    confidence: 1,
+    canonicalId,
+  };
+}
+
+function insert(doc: EmbeddingDocument, id: string, next: () => number) {
+  doc.insertNode(
+    {
+      ...createEmbeddedNode(id, id, 'paragraph', 'did:key:alice'),
+      embedding: embedding(next),
+      entities: next() < 0.3 ? [entity(`e${Math.floor(next() * 3)}`)] : [],
+    },
+    Math.floor(next() * (doc.size + 1))
+  );
+}
+
+function edgesOf(graph: SemanticGraph): string[] {
+  return graph
+    .getAllEdges()
+    .map((e) => `${e.type} ${e.source}→${e.target} ${e.label ?? ''}`)
+    .sort();
+}
+
+function rebuilt(doc: EmbeddingDocument): SemanticGraph {
+  const graph = new SemanticGraph(0.75, 2, 3);
+  graph.rebuild(doc);
+  return graph;
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('SemanticGraph', () => {
+  it('links each node to at most its nearest neighbours', () => {
+    const next = random(7);
+    const doc = new EmbeddingDocument('doc-1');
+    for (let i = 0; i < 12; i++) insert(doc, `n${i}`, next);
+
+    const graph = rebuilt(doc);
+    const similarity = graph
+      .getAllEdges()
+      .filter((e) => e.type === 'similarity');
+    const nodes = doc.getOrderedNodes();
+    const aboveThreshold = nodes.flatMap((a, i) =>
+      nodes
+        .slice(i + 1)
+        .filter((b) => cosineSimilarity(a.embedding, b.embedding) >= 0.75)
+    );
+
+    // Weaker matches above the threshold are left out
+    expect(similarity.length).toBeGreaterThan(0);
+    expect(similarity.length).toBeLessThan(aboveThreshold.length);
+    for (const edge of similarity) {
+      expect(edge.weight).toBeGreaterThanOrEqual(0.75);
+    }
+  });
+
+  it('updates single nodes to the same edges as a rebuild', () => {
+    const next = random(11);
+    const doc = new EmbeddingDocument('doc-1');
+    for (let i = 0; i < 16; i++) insert(doc, `n${i}`, next);
+    const graph = rebuilt(doc);
+
+    for (let step = 0; step < 40; step++) {
+      const ids = doc.getOrderedNodes().map((n) => n.id);
+      const id = ids[Math.floor(next() * ids.length)];
+      const action = next();
+      if (action < 0.4) {
+        doc.updateEmbedding(
+          id,
+          embedding(next),
+          next() < 0.5 ? [entity(`e${Math.floor(next() * 3)}`)] : [],
+          doc.getNode(id)!.classification
+        );
+        graph.updateNode(doc, id);
+      } else if (action < 0.6) {
+        insert(doc, `new${step}`, next);
+        graph.updateNode(doc, `new${step}`);
+      } else if (action < 0.8) {
+        doc.moveNode(id, Math.floor(next() * ids.length));
+        graph.updateNode(doc, id);
+      } else {
+        doc.removeNode(id);
+        graph.updateNode(doc, id);
+      }
+
+      const expected = rebuilt(doc);
+      expect(edgesOf(graph)).toEqual(edgesOf(expected));
+      expect(graph.getClusters().map((c) => c.nodeIds)).toEqual(
+        expected.getClusters().map((c) => c.nodeIds)
+      );
+    }
+  });
+});
@@ -7,13 +7,14 @@
  * - Spatial preview clustering (semantically related blocks cluster in 3D)
  * - AI suggestions ("This paragraph contradicts paragraph 7")
  * - Cross-document semantic search
+ *
+ * Similarity edges link each node to at most `maxSimilarNeighbors` of
+ * its most similar nodes above the threshold. A node can have more
+ * similarity edges, from nodes that count it among theirs, but weaker
+ * matches above the threshold are otherwise left out.
  */
 
-import {
-  cosineSimilarity,
-  type EmbeddingDocument,
-  type EmbeddedNode,
-} from './EmbeddingDocument';
+import type { EmbeddingDocument, EmbeddedNode } from './EmbeddingDocument';
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -69,6 +70,9 @@ export class SemanticGraph {
   /** Adjacency list: node ID → connected edges */
   private adjacency: Map<string, SemanticEdge[]> = new Map();
 
+  /** Keys of existing edges, for duplicate checks */
+  private edgeKeys: Set<string> = new Set();
+
   /** Computed clusters */
   private clusters: SemanticCluster[] = [];
 
@@ -78,12 +82,17 @@ export class SemanticGraph {
   /** Co-reference threshold for entity linking edges */
   private readonly coReferenceMinOccurrences: number;
 
+  /** Most similarity edges looked up per node */
+  private readonly maxSimilarNeighbors: number;
+
   constructor(
     similarityThreshold: number = 0.72,
-    coReferenceMinOccurrences: number = 2
+    coReferenceMinOccurrences: number = 2,
+    maxSimilarNeighbors: number = 20
   ) {
     this.similarityThreshold = similarityThreshold;
     this.coReferenceMinOccurrences = coReferenceMinOccurrences;
+    this.maxSimilarNeighbors = maxSimilarNeighbors;
   }
 
   /**
@@ -93,129 +102,78 @@ export class SemanticGraph {
   rebuild(doc: EmbeddingDocument): void {
     this.edges = [];
     this.adjacency.clear();
+    this.edgeKeys.clear();
     this.clusters = [];
 
     const nodes = doc.getOrderedNodes();
     if (nodes.length === 0) return;
 
-    // 1. Similarity edges (pairwise cosine)
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const sim = cosineSimilarity(nodes[i].embedding, nodes[j].embedding);
-        if (sim >= this.similarityThreshold) {
-          this.addEdge({
-            source: nodes[i].id,
-            target: nodes[j].id,
-            type: 'similarity',
-            weight: sim,
-          });
-        }
-      }
+    // 1. Similarity edges (nearest neighbours above threshold)
+    const positions = new Map(nodes.map((n, i) => [n.id, i]));
+    for (const node of nodes) {
+      this.addSimilarityEdges(doc, node, positions);
     }
 
     // 2. Co-reference edges (shared entities)
-    const entityNodes = new Map<string, string[]>();
-    for (const node of nodes) {
-      for (const entity of node.entities) {
-        if (!entity.canonicalId) continue;
-        const existing = entityNodes.get(entity.canonicalId) || [];
-        if (!existing.includes(node.id)) {
-          existing.push(node.id);
-        }
-        entityNodes.set(entity.canonicalId, existing);
-      }
-    }
-    for (const [entityId, nodeIds] of entityNodes) {
-      if (nodeIds.length < this.coReferenceMinOccurrences) continue;
-      for (let i = 0; i < nodeIds.length; i++) {
-        for (let j = i + 1; j < nodeIds.length; j++) {
-          this.addEdge({
-            source: nodeIds[i],
-            target: nodeIds[j],
-            type: 'co-reference',
-            weight: 0.8,
-            label: entityId,
-          });
-        }
-      }
-    }
+    this.addCoReferenceEdges(nodes);
 
     // 3. Narrative flow edges (sequential document order)
-    for (let i = 0; i < nodes.length - 1; i++) {
-      this.addEdge({
-        source: nodes[i].id,
-        target: nodes[i + 1].id,
-        type: 'narrative-flow',
-        weight: 0.5,
-      });
-    }
+    this.addNarrativeFlowEdges(nodes);
 
     // 4. Compute clusters
     this.computeClusters(nodes);
   }
 
   /**
-   * Incrementally update the graph when a single node changes.
-   * More efficient than full rebuild for single-node edits.
+   * Update the graph when a single node changes, is inserted, moved or
+   * removed, leaving the same edges `rebuild` would. Only the nodes
+   * whose nearest neighbours may have changed are looked up again:
+   * the node itself, the nodes it was linked to, and the nodes it is
+   * now similar enough to link to.
    */
   updateNode(doc: EmbeddingDocument, nodeId: string): void {
-    // Remove existing edges for this node
-    this.removeEdgesFor(nodeId);
-
-    const node = doc.getNode(nodeId);
-    if (!node) return;
-
     const nodes = doc.getOrderedNodes();
+    const positions = new Map(nodes.map((n, i) => [n.id, i]));
+    const node = doc.getNode(nodeId);
 
-    // Recompute similarity edges for this node
-    for (const other of nodes) {
-      if (other.id === nodeId) continue;
-      if (other.embedding.length === 0 || node.embedding.length === 0) continue;
-      const sim = cosineSimilarity(node.embedding, other.embedding);
-      if (sim >= this.similarityThreshold) {
-        this.addEdge({
-          source: node.id,
-          target: other.id,
-          type: 'similarity',
-          weight: sim,
-        });
-      }
-    }
-
-    // Recompute co-reference edges
-    for (const entity of node.entities) {
-      if (!entity.canonicalId) continue;
-      const relatedNodes = doc.findByEntity(entity.canonicalId);
-      for (const related of relatedNodes) {
-        if (related.id === nodeId) continue;
-        this.addEdge({
-          source: node.id,
-          target: related.id,
-          type: 'co-reference',
-          weight: 0.8,
-          label: entity.canonicalId,
-        });
-      }
+    // 1. Similarity edges of every node that had or may now have this
+    // one among its nearest neighbours, looked up again together with
+    // the nodes they were linked to
+    const linked = (id: string) =>
+      this.getRelatedNodes(id, ['similarity']).map((r) => r.nodeId);
+    const affected = new Set([nodeId, ...linked(nodeId)]);
+    if (node) {
+      const similar = doc.findSimilar(
+        node.embedding,
+        doc.size,
+        this.similarityThreshold
+      );
+      for (const { node: other } of similar) affected.add(other.id);
     }
-
-    // Recompute narrative flow edges
-    const position = nodes.findIndex((n) => n.id === nodeId);
-    if (position > 0) {
-      this.addEdge({
-        source: nodes[position - 1].id,
-        target: nodeId,
-        type: 'narrative-flow',
-        weight: 0.5,
-      });
+    const lookups = new Set(affected);
+    for (const id of affected) {
+      for (const other of linked(id)) lookups.add(other);
     }
-    if (position < nodes.length - 1) {
-      this.addEdge({
-        source: nodeId,
-        target: nodes[position + 1].id,
-        type: 'narrative-flow',
-        weight: 0.5,
-      });
+    this.removeEdgesWhere(
+      (e) =>
+        e.type === 'similarity' &&
+        (affected.has(e.source) || affected.has(e.target))
+    );
+    for (const id of lookups) {
+      const current = doc.getNode(id);
+      if (current) this.addSimilarityEdges(doc, current, positions);
     }
+
+    // 2. Co-reference and narrative flow edges depend on every node
+    // sharing an entity or position, so recompute them whole
+    this.removeEdgesWhere(
+      (e) => e.type === 'co-reference' || e.type === 'narrative-flow'
+    );
+    this.addCoReferenceEdges(nodes);
+    this.addNarrativeFlowEdges(nodes);
+
+    // 3. Recompute clusters
+    this.computeClusters(nodes);
   }
 
   // ── Queries ───────────────────────────────────────────────────
@@ -279,15 +237,81 @@ export class SemanticGraph {
 
   // ── Private ───────────────────────────────────────────────────
 
+  /**
+   * Link a node to its nearest neighbours above the similarity
+   * threshold. Edges point from the earlier block to the later one.
+   */
+  private addSimilarityEdges(
+    doc: EmbeddingDocument,
+    node: EmbeddedNode,
+    positions: Map<string, number>
+  ): void {
+    const similar = doc.findSimilar(
+      node.embedding,
+      this.maxSimilarNeighbors + 1,
+      this.similarityThreshold
+    );
+    for (const { node: other, similarity } of similar) {
+      if (other.id === node.id) continue;
+      const forward = positions.get(node.id)! < positions.get(other.id)!;
+      this.addEdge({
+        source: forward ? node.id : other.id,
+        target: forward ? other.id : node.id,
+        type: 'similarity',
+        weight: similarity,
+      });
+    }
+  }
+
+  /**
+   * Link every pair of nodes that mention an entity mentioned by at
+   * least `coReferenceMinOccurrences` nodes, earlier block first.
+   */
+  private addCoReferenceEdges(nodes: EmbeddedNode[]): void {
+    const entityNodes = new Map<string, string[]>();
+    for (const node of nodes) {
+      for (const entity of node.entities) {
+        if (!entity.canonicalId) continue;
+        const existing = entityNodes.get(entity.canonicalId) || [];
+        if (!existing.includes(node.id)) {
+          existing.push(node.id);
+        }
+        entityNodes.set(entity.canonicalId, existing);
+      }
+    }
+    for (const [entityId, nodeIds] of entityNodes) {
+      if (nodeIds.length < this.coReferenceMinOccurrences) continue;
+      for (let i = 0; i < nodeIds.length; i++) {
+        for (let j = i + 1; j < nodeIds.length; j++) {
+          this.addEdge({
+            source: nodeIds[i],
+            target: nodeIds[j],
+            type: 'co-reference',
+            weight: 0.8,
+            label: entityId,
+          });
+        }
+      }
+    }
+  }
+
+  /** Link each node to the next one in document order */
+  private addNarrativeFlowEdges(nodes: EmbeddedNode[]): void {
+    for (let i = 0; i < nodes.length - 1; i++) {
+      this.addEdge({
+        source: nodes[i].id,
+        target: nodes[i + 1].id,
+        type: 'narrative-flow',
+        weight: 0.5,
+      });
+    }
+  }
+
   private addEdge(edge: SemanticEdge): void {
     // Prevent duplicate edges
-    const existing = this.edges.find(
-      (e) =>
-        e.source === edge.source &&
-        e.target === edge.target &&
-        e.type === edge.type
-    );
-    if (existing) return;
+    const key = `${edge.type}\u0000${edge.source}\u0000${edge.target}`;
+    if (this.edgeKeys.has(key)) return;
+    this.edgeKeys.add(key);
 
     this.edges.push(edge);
 
@@ -301,23 +325,15 @@ export class SemanticGraph {
     this.adjacency.set(edge.target, targetEdges);
   }
 
-  private removeEdgesFor(nodeId: string): void {
-    this.edges = this.edges.filter(
-      (e) => e.source !== nodeId && e.target !== nodeId
-    );
+  private removeEdgesWhere(remove: (edge: SemanticEdge) => boolean): void {
+    const kept = this.edges.filter((e) => !remove(e));
+    if (kept.length === this.edges.length) return;
 
-    // Rebuild adjacency for affected nodes
-    this.adjacency.delete(nodeId);
-    for (const [id, edges] of this.adjacency) {
-      const filtered = edges.filter(
-        (e) => e.source !== nodeId && e.target !== nodeId
-      );
-      if (filtered.length === 0) {
-        this.adjacency.delete(id);
-      } else {
-        this.adjacency.set(id, filtered);
-      }
-    }
+    // Rebuild keys and adjacency from the edges that remain
+    this.edges = [];
+    this.adjacency.clear();
+    this.edgeKeys.clear();
+    for (const edge of kept) this.addEdge(edge);
   }
 
   /**
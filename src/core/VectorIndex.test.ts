@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { VectorIndex } from './VectorIndex';
+import { cosineSimilarity } from './EmbeddingDocument';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Deterministic pseudo-random vectors */
+function randomVectors(count: number, dims: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Float32Array.from({ length: dims }, next)
+  );
+}
+
+function bruteForce(
+  vectors: Map<string, Float32Array>,
+  query: Float32Array,
+  k: number
+): string[] {
+  return [...vectors]
+    .map(([id, v]) => ({ id, similarity: cosineSimilarity(query, v) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map((m) => m.id);
+}
+
+function recall(
+  index: VectorIndex,
+  vectors: Map<string, Float32Array>,
+  queries: Float32Array[],
+  k: number
+): number {
+  let hits = 0;
+  for (const query of queries) {
+    const expected = new Set(bruteForce(vectors, query, k));
+    for (const match of index.search(query, k)) {
+      if (expected.has(match.id)) hits++;
+    }
+  }
+  return hits / (queries.length * k);
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('VectorIndex', () => {
+  const vectors = new Map(
+    randomVectors(1000, 16).map((v, i) => [`v${i}`, v] as const)
+  );
+  const queries = randomVectors(25, 16, 99);
+
+  function build(): VectorIndex {
+    const index = new VectorIndex({ m: 8, efConstruction: 100 });
+    for (const [id, v] of vectors) index.upsert(id, v);
+    return index;
+  }
+
+  it('finds nearly all true nearest neighbours', () => {
+    const index = build();
+    expect(index.size).toBe(1000);
+    expect(recall(index, vectors, queries, 10)).toBeGreaterThan(0.9);
+
+    const [best] = index.search(vectors.get('v7')!, 1);
+    expect(best.id).toBe('v7');
+    expect(best.similarity).toBeCloseTo(1, 5);
+  });
+
+  it('keeps recall after deletes and updates', () => {
+    const index = build();
+    const remaining = new Map(vectors);
+    for (let i = 0; i < 1000; i += 3) {
+      index.delete(`v${i}`);
+      remaining.delete(`v${i}`);
+    }
+    const replacements = randomVectors(100, 16, 7);
+    for (let i = 1; i < 200; i += 2) {
+      const v = replacements[(i - 1) / 2];
+      index.upsert(`v${i}`, v);
+      remaining.set(`v${i}`, v);
+    }
+
+    expect(index.size).toBe(remaining.size);
+    expect(index.search(vectors.get('v0')!, 5).map((m) => m.id)).not.toContain(
+      'v0'
+    );
+    expect(recall(index, remaining, queries, 10)).toBeGreaterThan(0.9);
+  });
+
+  it('applies filters and similarity thresholds', () => {
+    const index = build();
+    const even = index.search(queries[0], 10, {
+      filter: (id) => Number(id.slice(1)) % 2 === 0,
+    });
+    expect(even).toHaveLength(10);
+    expect(even.every((m) => Number(m.id.slice(1)) % 2 === 0)).toBe(true);
+
+    const close = index.search(vectors.get('v3')!, 10, { minSimilarity: 0.99 });
+    expect(close.map((m) => m.id)).toEqual(['v3']);
+  });
+
+  it('round-trips through serialization', () => {
+    const index = build();
+    const restored = VectorIndex.deserialize(
+      JSON.parse(JSON.stringify(index.serialize()))
+    );
+
+    for (const query of queries.slice(0, 5)) {
+      expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+    }
+    restored.upsert('extra', queries[0]);
+    expect(restored.search(queries[0], 1)[0].id).toBe('extra');
+  });
+
+  it('ignores zero vectors and rejects mismatched dimensions', () => {
+    const index = new VectorIndex();
+    index.upsert('zero', new Float32Array(4));
+    expect(index.size).toBe(0);
+
+    index.upsert('a', new Float32Array([1, 0, 0, 0]));
+    expect(() => index.upsert('b', new Float32Array([1, 0]))).toThrow(
+      'dimensions'
+    );
+    expect(index.search(new Float32Array([1, 0]), 1)).toEqual([]);
+  });
+});
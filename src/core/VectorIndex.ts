@@ -0,0 +1,532 @@
+/**
+ * VectorIndex — Approximate nearest-neighbour search over embeddings
+ *
+ * A pure-TypeScript HNSW (Hierarchical Navigable Small World) graph.
+ * Vectors are normalized on insert, so similarity is cosine. Each
+ * vector lives on layers 0..level of the graph, with level drawn
+ * from an exponential distribution; a query descends greedily
+ * through the sparse upper layers and runs a best-first search on
+ * layer 0. Queries and inserts are roughly O(log n) instead of the
+ * O(n) brute-force scan.
+ *
+ * Entries are keyed by string ID (block ID, or document + block).
+ * Deleting an entry reconnects its neighbours so the graph stays
+ * navigable. Level draws come from a seeded generator, so the same
+ * sequence of operations always builds the same graph.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface VectorIndexConfig {
+  /** Links per node on upper layers; layer 0 keeps twice as many (default: 16) */
+  readonly m?: number;
+  /** Candidate list size while inserting (default: 100) */
+  readonly efConstruction?: number;
+  /** Candidate list size while querying (default: 64) */
+  readonly efSearch?: number;
+  /** Seed for level generation (default: 42) */
+  readonly seed?: number;
+}
+
+export interface VectorMatch {
+  readonly id: string;
+  /** Cosine similarity (-1 to 1) */
+  readonly similarity: number;
+}
+
+export interface VectorSearchOptions {
+  /** Override the query candidate list size */
+  readonly ef?: number;
+  /** Drop matches below this similarity */
+  readonly minSimilarity?: number;
+  /** Only return IDs accepted by this predicate */
+  readonly filter?: (id: string) => boolean;
+}
+
+export interface SerializedVectorIndex {
+  version: 1;
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  rngState: number;
+  entryPoint: string | null;
+  nodes: Array<{
+    id: string;
+    vector: number[];
+    level: number;
+    neighbors: string[][];
+  }>;
+}
+
+interface HnswNode {
+  readonly id: string;
+  readonly vector: Float32Array;
+  readonly level: number;
+  /** Neighbour IDs per layer, 0..level */
+  readonly neighbors: string[][];
+}
+
+interface Candidate {
+  readonly id: string;
+  readonly similarity: number;
+}
+
+// ── Vector Index ────────────────────────────────────────────────────
+
+export class VectorIndex {
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private dims = 0;
+  private rngState: number;
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  constructor(config: VectorIndexConfig = {}) {
+    this.m = Math.max(2, config.m ?? 16);
+    this.efConstruction = config.efConstruction ?? 100;
+    this.efSearch = config.efSearch ?? 64;
+    this.rngState = (config.seed ?? 42) >>> 0;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  /** Number of indexed vectors */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /** Vector length, fixed by the first insert (0 while empty) */
+  get dimensions(): number {
+    return this.dims;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Insert or replace the vector for an ID. Zero vectors have no
+   * direction and are removed instead of indexed.
+   */
+  upsert(id: string, vector: Float32Array): void {
+    if (vector.length === 0) throw new Error('Cannot index an empty vector');
+    if (this.dims !== 0 && vector.length !== this.dims) {
+      throw new Error(
+        `Vector has ${vector.length} dimensions, index has ${this.dims}`
+      );
+    }
+
+    const normalized = normalize(vector);
+    const existing = this.nodes.get(id);
+    if (!normalized) {
+      this.delete(id);
+      return;
+    }
+    if (existing) {
+      if (equalVectors(existing.vector, normalized)) return;
+      this.delete(id);
+    }
+    this.dims = vector.length;
+    this.insert(id, normalized);
+  }
+
+  /**
+   * Remove an ID, reconnecting the neighbours that linked to it.
+   */
+  delete(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = node.neighbors[layer];
+      for (const neighborId of orphans) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < layer) continue;
+
+        const ids = new Set(neighbor.neighbors[layer]);
+        ids.delete(id);
+        for (const candidate of orphans) {
+          if (candidate !== neighborId) ids.add(candidate);
+        }
+        neighbor.neighbors[layer] = this.selectNeighbors(
+          neighbor.vector,
+          this.toCandidates(neighbor.vector, ids),
+          this.maxLinks(layer)
+        );
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      let top = -1;
+      for (const other of this.nodes.values()) {
+        if (other.level > top) {
+          top = other.level;
+          this.entryPoint = other.id;
+        }
+      }
+    }
+    if (this.nodes.size === 0) this.dims = 0;
+    return true;
+  }
+
+  /** Remove every vector */
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.dims = 0;
+  }
+
+  /**
+   * The `k` most similar vectors, most similar first.
+   */
+  search(
+    query: Float32Array,
+    k: number,
+    options: VectorSearchOptions = {}
+  ): VectorMatch[] {
+    if (k <= 0 || this.entryPoint === null) return [];
+    if (query.length !== this.dims) return [];
+    const q = normalize(query);
+    if (!q) return [];
+
+    const minSimilarity = options.minSimilarity ?? -Infinity;
+    const filter = options.filter;
+
+    let entry = this.descend(q, 0);
+    let ef = Math.max(options.ef ?? this.efSearch, k);
+    for (;;) {
+      const found = this.searchLayer(q, [entry], ef, 0);
+      const matches = found.filter(
+        (c) => c.similarity >= minSimilarity && (!filter || filter(c.id))
+      );
+
+      // Widen the search when filtering left too few matches, unless
+      // the candidates already ran out or fell below the threshold
+      const exhausted =
+        found.length < ef ||
+        ef >= this.nodes.size ||
+        found[found.length - 1].similarity < minSimilarity;
+      if (matches.length >= k || exhausted) {
+        return matches.slice(0, k);
+      }
+      ef = Math.min(ef * 2, this.nodes.size);
+      entry = found[0];
+    }
+  }
+
+  /** Snapshot the graph, so it can be restored without rebuilding */
+  serialize(): SerializedVectorIndex {
+    return {
+      version: 1,
+      dimensions: this.dims,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      rngState: this.rngState,
+      entryPoint: this.entryPoint,
+      nodes: Array.from(this.nodes.values(), (node) => ({
+        id: node.id,
+        vector: Array.from(node.vector),
+        level: node.level,
+        neighbors: node.neighbors.map((layer) => [...layer]),
+      })),
+    };
+  }
+
+  /** Restore a serialized graph */
+  static deserialize(data: SerializedVectorIndex): VectorIndex {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported vector index version: ${data.version}`);
+    }
+    const index = new VectorIndex({
+      m: data.m,
+      efConstruction: data.efConstruction,
+      efSearch: data.efSearch,
+    });
+    index.rngState = data.rngState;
+    index.dims = data.dimensions;
+    index.entryPoint = data.entryPoint;
+    for (const node of data.nodes) {
+      index.nodes.set(node.id, {
+        id: node.id,
+        vector: new Float32Array(node.vector),
+        level: node.level,
+        neighbors: node.neighbors.map((layer) => [...layer]),
+      });
+    }
+    return index;
+  }
+
+  // ── Private ───────────────────────────────────────────────────
+
+  private insert(id: string, vector: Float32Array): void {
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+
+    if (this.entryPoint === null) {
+      this.nodes.set(id, node);
+      this.entryPoint = id;
+      return;
+    }
+
+    const topLevel = this.nodes.get(this.entryPoint)!.level;
+    let entry = this.descend(vector, level + 1);
+    // Registered up front so neighbours can re-select it when pruning
+    this.nodes.set(id, node);
+
+    for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(
+        vector,
+        [entry],
+        this.efConstruction,
+        layer
+      );
+      node.neighbors[layer] = this.selectNeighbors(vector, found, this.m);
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        const links = neighbor.neighbors[layer];
+        links.push(id);
+        if (links.length > this.maxLinks(layer)) {
+          const ids = new Set(links.filter((l) => l !== id));
+          const candidates = this.toCandidates(neighbor.vector, ids);
+          candidates.push({ id, similarity: dot(neighbor.vector, vector) });
+          candidates.sort((a, b) => b.similarity - a.similarity);
+          neighbor.neighbors[layer] = this.selectNeighbors(
+            neighbor.vector,
+            candidates,
+            this.maxLinks(layer)
+          );
+        }
+      }
+      entry = found[0];
+    }
+
+    if (level > topLevel) this.entryPoint = id;
+  }
+
+  /** Greedy walk from the entry point down to `toLayer` */
+  private descend(query: Float32Array, toLayer: number): Candidate {
+    const entryNode = this.nodes.get(this.entryPoint!)!;
+    let current: Candidate = {
+      id: entryNode.id,
+      similarity: dot(query, entryNode.vector),
+    };
+
+    for (let layer = entryNode.level; layer >= toLayer; layer--) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        const node = this.nodes.get(current.id)!;
+        for (const neighborId of node.neighbors[layer] ?? []) {
+          const neighbor = this.nodes.get(neighborId);
+          if (!neighbor || neighbor.level < layer) continue;
+          const similarity = dot(query, neighbor.vector);
+          if (similarity > current.similarity) {
+            current = { id: neighborId, similarity };
+            improved = true;
+          }
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search on one layer. Returns up to `ef` candidates,
+   * most similar first.
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: Candidate[],
+    ef: number,
+    layer: number
+  ): Candidate[] {
+    const visited = new Set(entries.map((e) => e.id));
+    // Frontier: most similar first. Results: least similar first.
+    const frontier = new Heap<Candidate>((a, b) => b.similarity - a.similarity);
+    const results = new Heap<Candidate>((a, b) => a.similarity - b.similarity);
+    for (const entry of entries) {
+      frontier.push(entry);
+      results.push(entry);
+    }
+
+    while (frontier.size > 0) {
+      const current = frontier.pop()!;
+      if (
+        results.size >= ef &&
+        current.similarity < results.peek()!.similarity
+      ) {
+        break;
+      }
+
+      const node = this.nodes.get(current.id);
+      for (const neighborId of node?.neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < layer) continue;
+
+        const similarity = dot(query, neighbor.vector);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          const candidate = { id: neighborId, similarity };
+          frontier.push(candidate);
+          results.push(candidate);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  /**
+   * Pick up to `max` neighbours from candidates sorted most similar
+   * first, preferring ones not already covered by a closer pick
+   * (the HNSW heuristic), then filling with the rest.
+   */
+  private selectNeighbors(
+    vector: Float32Array,
+    candidates: Candidate[],
+    max: number
+  ): string[] {
+    const selected: HnswNode[] = [];
+    const skipped: string[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const node = this.nodes.get(candidate.id);
+      if (!node || node.vector === vector) continue;
+      const covered = selected.some(
+        (s) => dot(s.vector, node.vector) > candidate.similarity
+      );
+      if (covered) skipped.push(candidate.id);
+      else selected.push(node);
+    }
+
+    const ids = selected.map((s) => s.id);
+    for (const id of skipped) {
+      if (ids.length >= max) break;
+      ids.push(id);
+    }
+    return ids;
+  }
+
+  private toCandidates(vector: Float32Array, ids: Set<string>): Candidate[] {
+    const candidates: Candidate[] = [];
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (node) candidates.push({ id, similarity: dot(vector, node.vector) });
+    }
+    return candidates.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  /** Exponentially distributed level from a seeded mulberry32 */
+  private randomLevel(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return Math.floor(-Math.log(1 - random) * this.levelMultiplier);
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function normalize(vector: Float32Array): Float32Array | null {
+  const norm = Math.sqrt(dot(vector, vector));
+  if (norm === 0 || !Number.isFinite(norm)) return null;
+  const out = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+function equalVectors(a: Float32Array, b: Float32Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/** Binary heap ordered by `compare` (negative = `a` comes out first) */
+class Heap<T> {
+  private items: T[] = [];
+  private readonly compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.compare(items[left], items[best]) < 0) {
+          best = left;
+        }
+        if (
+          right < items.length &&
+          this.compare(items[right], items[best]) < 0
+        ) {
+          best = right;
+        }
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  /** Pop everything, in order */
+  drain(): T[] {
+    const out: T[] = [];
+    while (this.items.length > 0) out.push(this.pop()!);
+    return out;
+  }
+}
@@ -28,6 +28,14 @@ export {
   type PipelineListener,
 } from './EmbeddingPipeline';
 
+export {
+  MemoryEmbeddingStore,
+  KeyValueEmbeddingStore,
+  type EmbeddingStore,
+  type EmbeddingJob,
+  type DeadLetter,
+} from './EmbeddingStore';
+
 export {
   SemanticGraph,
   type SemanticEdge,
@@ -36,6 +44,14 @@ export {
   type GraphStats,
 } from './SemanticGraph';
 
+export {
+  VectorIndex,
+  type VectorIndexConfig,
+  type VectorMatch,
+  type VectorSearchOptions,
+  type SerializedVectorIndex,
+} from './VectorIndex';
+
 export {
   EntityLayer,
   type CanonicalEntity,
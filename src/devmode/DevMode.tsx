@@ -8,10 +8,27 @@
  *   2. Save → re-renders the page from the new CRDT state
  *   3. Dev mode → writes the tree back to disk
  *
+ * A save sends the page data object — CRDT state, the delta since the
+ * endpoint last accepted a save, embedding snapshot and content hash.
+ * See `persistence.ts` for the format and how concurrent saves are
+ * caught, and `DevModeWriteHandler.ts` for a server that writes pages
+ * to disk.
+ *
  * The page doesn't "have" an editor — the page IS the editor.
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { EmbeddingDocument } from '../core/EmbeddingDocument';
+import { documentToMarkdown } from '../document/MarkdownIO';
+import type { AeonDocument } from '../document/document';
+import {
+  contentHash,
+  decodeBase64,
+  encodeBase64,
+  preconditionHeaders,
+  type DevModeConflict,
+  type DevModeSavePayload,
+} from './persistence';
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -36,6 +53,20 @@ export interface DevModeConfig {
   readonly onEditEnd?: () => void;
   /** Callback when page is saved */
   readonly onSave?: (result: SaveResult) => void;
+  /** The page's document; saves send its CRDT state */
+  readonly document?: AeonDocument;
+  /** Embedding document saved alongside (as its snapshot) */
+  readonly embeddings?: EmbeddingDocument;
+  /** Page identity (default: the document ID and the current path) */
+  readonly page?: {
+    readonly id?: string;
+    readonly route?: string;
+    readonly meta?: Record<string, unknown>;
+  };
+  /** Conflicting saves merged and retried per endpoint (default: 3) */
+  readonly maxConflictRetries?: number;
+  /** Fetch implementation (default: global fetch) */
+  readonly fetch?: typeof fetch;
 }
 
 export interface SaveResult {
@@ -49,6 +80,10 @@ export interface SaveResult {
   readonly error?: string;
   /** Timestamp */
   readonly timestamp: string;
+  /** SHA-256 of the saved CRDT state, when a document is configured */
+  readonly contentHash?: string;
+  /** Concurrent saves merged in before this one was accepted */
+  readonly conflicts?: number;
 }
 
 export interface PageDataObject {
@@ -64,6 +99,25 @@ export interface PageDataObject {
   readonly meta: Record<string, unknown>;
 }
 
+/** An endpoint a save goes to */
+type SaveStep = 'render' | 'write';
+
+/** What an endpoint last accepted from this controller */
+interface EndpointState {
+  /** Version (ETag) the endpoint reported */
+  version: string | null;
+  /** State vector of the accepted state, the base for the next delta */
+  stateVector: Uint8Array | null;
+  contentHash: string | null;
+}
+
+/** Outcome of sending a save to one endpoint */
+interface StepResult {
+  readonly ok: boolean;
+  readonly conflicts: number;
+  readonly contentHash?: string;
+}
+
 // ── DevMode Controller ──────────────────────────────────────────────
 
 export class DevModeController {
@@ -71,9 +125,17 @@ export class DevModeController {
   private editing = false;
   private autoSaveTimer: ReturnType<typeof setTimeout> | null = null;
   private listeners: Set<(editing: boolean) => void> = new Set();
+  private fetch: typeof fetch;
+  private endpoints: Record<SaveStep, EndpointState> = {
+    render: { version: null, stateVector: null, contentHash: null },
+    write: { version: null, stateVector: null, contentHash: null },
+  };
+  /** Saves run one at a time */
+  private saveQueue: Promise<unknown> = Promise.resolve();
 
   constructor(config: DevModeConfig) {
     this.config = config;
+    this.fetch = config.fetch ?? ((...args) => fetch(...args));
     this.setupKeyboardShortcut();
   }
 
@@ -125,46 +187,87 @@ export class DevModeController {
     }
   }
 
-  /** Save the current state */
-  async save(): Promise<SaveResult> {
+  /**
+   * Save the current state: re-render the page, then (in dev mode)
+   * write the tree back. Saves run one at a time. An endpoint that
+   * already accepted the current content is skipped, so after a
+   * failure the next save only retries the step that failed.
+   */
+  save(): Promise<SaveResult> {
+    const run = this.saveQueue.then(() => this.runSave());
+    this.saveQueue = run;
+    return run;
+  }
+
+  /**
+   * The page as a data object, or null without a document.
+   */
+  getPageData(): PageDataObject | null {
+    const doc = this.config.document;
+    if (!doc) return null;
+    return {
+      id: this.config.page?.id ?? doc.id,
+      route: this.config.page?.route ?? window.location.pathname,
+      state: doc.getState(),
+      embeddingSnapshot: this.config.embeddings?.serialize(),
+      meta: this.config.page?.meta ?? {},
+    };
+  }
+
+  /** Listen for editing state changes */
+  onEditingChange(listener: (editing: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Schedule auto-save (debounced) */
+  scheduleAutoSave(): void {
+    if (!this.config.autoSaveMs) return;
+    if (this.autoSaveTimer) clearTimeout(this.autoSaveTimer);
+    this.autoSaveTimer = setTimeout(() => {
+      this.save();
+    }, this.config.autoSaveMs);
+  }
+
+  /** Clean up */
+  destroy(): void {
+    if (this.autoSaveTimer) clearTimeout(this.autoSaveTimer);
+    this.listeners.clear();
+  }
+
+  // ── Private ───────────────────────────────────────────────────
+
+  private async runSave(): Promise<SaveResult> {
     const timestamp = new Date().toISOString();
 
     try {
       // Step 1: Re-render the page from the new CRDT state
-      let reRendered = false;
+      let render: StepResult | null = null;
       if (this.config.renderEndpoint) {
-        const token = await this.config.getToken?.();
-        const res = await fetch(this.config.renderEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ timestamp }),
-        });
-        reRendered = res.ok;
+        render = await this.sendSave(
+          'render',
+          this.config.renderEndpoint,
+          timestamp
+        );
       }
 
       // Step 2: In dev mode, write the tree back to disk
-      let writtenToDisk = false;
+      let write: StepResult | null = null;
       if (this.config.devMode && this.config.writeEndpoint) {
-        const token = await this.config.getToken?.();
-        const res = await fetch(this.config.writeEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(token ? { Authorization: `Bearer ${token}` } : {}),
-          },
-          body: JSON.stringify({ timestamp, writeToDisk: true }),
-        });
-        writtenToDisk = res.ok;
+        write = await this.sendSave(
+          'write',
+          this.config.writeEndpoint,
+          timestamp
+        );
       }
 
       const result: SaveResult = {
         success: true,
-        reRendered,
-        writtenToDisk,
+        reRendered: render?.ok ?? false,
+        writtenToDisk: write?.ok ?? false,
         timestamp,
+        contentHash: (write ?? render)?.contentHash,
+        conflicts: (render?.conflicts ?? 0) + (write?.conflicts ?? 0),
       };
       this.config.onSave?.(result);
       return result;
@@ -181,28 +284,85 @@ export class DevModeController {
     }
   }
 
-  /** Listen for editing state changes */
-  onEditingChange(listener: (editing: boolean) => void): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
-  }
+  /**
+   * Send a save to one endpoint. On a stale version the endpoint's
+   * state is merged into the document and the save is sent again.
+   */
+  private async sendSave(
+    step: SaveStep,
+    url: string,
+    timestamp: string
+  ): Promise<StepResult> {
+    const endpoint = this.endpoints[step];
+    const maxConflicts = this.config.maxConflictRetries ?? 3;
+    let conflicts = 0;
+
+    for (;;) {
+      const payload = await this.buildPayload(step, timestamp);
+      if (payload && payload.contentHash === endpoint.contentHash) {
+        return { ok: true, conflicts, contentHash: payload.contentHash };
+      }
 
-  /** Schedule auto-save (debounced) */
-  scheduleAutoSave(): void {
-    if (!this.config.autoSaveMs) return;
-    if (this.autoSaveTimer) clearTimeout(this.autoSaveTimer);
-    this.autoSaveTimer = setTimeout(() => {
-      this.save();
-    }, this.config.autoSaveMs);
-  }
+      const token = await this.config.getToken?.();
+      const res = await this.fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(payload ? preconditionHeaders(endpoint.version) : {}),
+        },
+        // Without a document only the request to re-render/write is sent
+        body: JSON.stringify(
+          payload ??
+            (step === 'write'
+              ? { timestamp, writeToDisk: true }
+              : { timestamp })
+        ),
+      });
+
+      if (payload && res.status === 412 && conflicts < maxConflicts) {
+        conflicts++;
+        const conflict = (await res.json()) as DevModeConflict;
+        if (conflict.state) {
+          this.config.document?.applyUpdate(decodeBase64(conflict.state));
+        }
+        // The endpoint holds someone else's state: send it everything
+        endpoint.version = res.headers.get('ETag');
+        endpoint.stateVector = null;
+        endpoint.contentHash = null;
+        continue;
+      }
 
-  /** Clean up */
-  destroy(): void {
-    if (this.autoSaveTimer) clearTimeout(this.autoSaveTimer);
-    this.listeners.clear();
+      if (payload && res.ok) {
+        endpoint.version = res.headers.get('ETag') ?? endpoint.version;
+        endpoint.stateVector = decodeBase64(payload.stateVector);
+        endpoint.contentHash = payload.contentHash;
+      }
+      return { ok: res.ok, conflicts, contentHash: payload?.contentHash };
+    }
   }
 
-  // ── Private ───────────────────────────────────────────────────
+  private async buildPayload(
+    step: SaveStep,
+    timestamp: string
+  ): Promise<DevModeSavePayload | null> {
+    const doc = this.config.document;
+    const page = this.getPageData();
+    if (!doc || !page) return null;
+
+    const base = this.endpoints[step].stateVector;
+    const payload = {
+      timestamp,
+      writeToDisk: step === 'write',
+      page: { id: page.id, route: page.route, meta: page.meta },
+      state: encodeBase64(page.state),
+      stateVector: encodeBase64(doc.getStateVector()),
+      delta: base ? encodeBase64(doc.getDelta(base)) : null,
+      markdown: documentToMarkdown(doc),
+      embeddingSnapshot: page.embeddingSnapshot,
+    };
+    return { ...payload, contentHash: await contentHash(page.state) };
+  }
 
   private setupKeyboardShortcut(): void {
     const handler = (e: KeyboardEvent) => {
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDevModeWriteHandler,
+  pagePath,
+  type DevModeFileSystem,
+  type DevModeSidecar,
+} from './DevModeWriteHandler';
+import {
+  contentHash,
+  decodeBase64,
+  encodeBase64,
+  preconditionHeaders,
+  type DevModeSavePayload,
+} from './persistence';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function memoryFs() {
+  const files: Map<string, string> = new Map();
+  const fs: DevModeFileSystem = {
+    async readFile(path) {
+      const data = files.get(path);
+      if (data === undefined) {
+        throw Object.assign(new Error(`ENOENT: ${path}`), { code: 'ENOENT' });
+      }
+      return data;
+    },
+    async writeFile(path, data) {
+      files.set(path, data);
+    },
+    async mkdir() {
+      return undefined;
+    },
+    async rename(from, to) {
+      files.set(to, files.get(from) ?? '');
+      files.delete(from);
+    },
+  };
+  return { files, fs };
+}
+
+async function payload(
+  state: number[],
+  overrides: Partial<DevModeSavePayload> = {}
+): Promise<DevModeSavePayload> {
+  const bytes = new Uint8Array(state);
+  return {
+    timestamp: new Date(0).toISOString(),
+    writeToDisk: true,
+    page: { id: 'page-1', route: '/guide/setup', meta: { title: 'Setup' } },
+    state: encodeBase64(bytes),
+    stateVector: encodeBase64(new Uint8Array([0])),
+    delta: null,
+    contentHash: await contentHash(bytes),
+    markdown: '# Setup\n',
+    ...overrides,
+  };
+}
+
+function post(body: unknown, version: string | null, method = 'POST'): Request {
+  return new Request('http://localhost/__devmode/write', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...preconditionHeaders(version),
+    },
+    body: method === 'POST' ? JSON.stringify(body) : undefined,
+  });
+}
+
+function setup() {
+  const { files, fs } = memoryFs();
+  const handle = createDevModeWriteHandler({
+    root: '/site/content/',
+    fs,
+    now: () => 0,
+  });
+  const sidecar = () =>
+    JSON.parse(
+      files.get('/site/content/guide/setup.aeon.json') ?? 'null'
+    ) as DevModeSidecar | null;
+  return { files, handle, sidecar };
+}
+
+// ── Writing ─────────────────────────────────────────────────────────
+
+describe('createDevModeWriteHandler', () => {
+  it('writes Markdown and the sidecar under the route', async () => {
+    const { files, handle, sidecar } = setup();
+    const res = await handle(post(await payload([1, 2, 3]), null));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBe('"1"');
+    expect(files.get('/site/content/guide/setup.md')).toBe('# Setup\n');
+    expect(sidecar()).toMatchObject({
+      id: 'page-1',
+      version: 1,
+      savedAt: new Date(0).toISOString(),
+      meta: { title: 'Setup' },
+    });
+    expect(Array.from(decodeBase64(sidecar()!.state))).toEqual([1, 2, 3]);
+    // No temporary files left behind
+    expect(Array.from(files.keys()).sort()).toEqual([
+      '/site/content/guide/setup.aeon.json',
+      '/site/content/guide/setup.md',
+    ]);
+  });
+
+  it('bumps the version on each accepted save', async () => {
+    const { handle, sidecar } = setup();
+    await handle(post(await payload([1]), null));
+    const res = await handle(post(await payload([1, 2]), '"1"'));
+    expect(res.headers.get('ETag')).toBe('"2"');
+    expect(sidecar()?.version).toBe(2);
+  });
+
+  it('accepts the same content again without a new version', async () => {
+    const { handle } = setup();
+    await handle(post(await payload([1]), null));
+    const res = await handle(post(await payload([1]), '"1"'));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBe('"1"');
+  });
+});
+
+// ── Conflicts ───────────────────────────────────────────────────────
+
+describe('createDevModeWriteHandler preconditions', () => {
+  it('answers a stale version with the stored state', async () => {
+    const { handle, sidecar } = setup();
+    await handle(post(await payload([1]), null));
+    await handle(post(await payload([1, 2]), '"1"'));
+
+    const res = await handle(post(await payload([1, 3]), '"1"'));
+    expect(res.status).toBe(412);
+    expect(res.headers.get('ETag')).toBe('"2"');
+    const body = await res.json();
+    expect(Array.from(decodeBase64(body.state))).toEqual([1, 2]);
+    expect(sidecar()?.version).toBe(2);
+  });
+
+  it('rejects a first save when the page already exists', async () => {
+    const { handle } = setup();
+    await handle(post(await payload([1]), null));
+    const res = await handle(post(await payload([2]), null));
+    expect(res.status).toBe(412);
+  });
+
+  it('lets only one of two concurrent first saves through', async () => {
+    const { handle } = setup();
+    const [a, b] = await Promise.all([
+      handle(post(await payload([1]), null)),
+      handle(post(await payload([2]), null)),
+    ]);
+    expect([a.status, b.status]).toEqual([200, 412]);
+  });
+});
+
+// ── Validation ──────────────────────────────────────────────────────
+
+describe('createDevModeWriteHandler validation', () => {
+  it('rejects a state that does not match its hash', async () => {
+    const { handle } = setup();
+    const body = await payload([1], { contentHash: 'f00d' });
+    const res = await handle(post(body, null));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Content hash mismatch');
+  });
+
+  it('rejects malformed payloads and routes outside the root', async () => {
+    const { handle } = setup();
+    expect((await handle(post({ state: 1 }, null))).status).toBe(400);
+    const escape = await payload([1], {
+      page: { id: 'p', route: '/../secrets', meta: {} },
+    });
+    expect((await handle(post(escape, null))).status).toBe(400);
+  });
+
+  it('only accepts POST', async () => {
+    const { handle } = setup();
+    expect((await handle(post(null, null, 'GET'))).status).toBe(405);
+  });
+});
+
+describe('pagePath', () => {
+  it('maps routes to files', () => {
+    expect(pagePath('/')).toBe('index');
+    expect(pagePath('/guide/')).toBe('guide/index');
+    expect(pagePath('/guide/setup')).toBe('guide/setup');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * DevModeWriteHandler — Reference server side of "write the tree back"
+ *
+ * Receives `DevModeController` saves and writes each page to a
+ * directory: the Markdown rendering at `<route>.md` and a sidecar
+ * `<route>.aeon.json` with the CRDT state, embedding snapshot, content
+ * hash and version. The sidecar is the source of truth; the Markdown
+ * is for humans and diffs.
+ *
+ * The handler is a fetch-style `(Request) => Promise<Response>`, which
+ * Node 18+ servers, Bun and Deno can mount directly. The filesystem is
+ * passed in so it can run against anything shaped like
+ * `node:fs/promises`:
+ *
+ *   import { promises as fs } from 'node:fs';
+ *   const handle = createDevModeWriteHandler({ root: './content', fs });
+ */
+
+import {
+  contentHash,
+  decodeBase64,
+  type DevModeConflict,
+  type DevModeSavePayload,
+} from './persistence';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** The subset of `node:fs/promises` the handler uses */
+export interface DevModeFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+  rename(from: string, to: string): Promise<void>;
+}
+
+export interface DevModeWriteHandlerOptions {
+  /** Directory pages are written under */
+  root: string;
+  fs: DevModeFileSystem;
+  /** Clock for `savedAt` (default: Date.now) */
+  now?: () => number;
+}
+
+/** What the handler keeps next to each page's Markdown */
+export interface DevModeSidecar {
+  readonly id: string;
+  readonly route: string;
+  /** Incremented on every accepted save; sent as the ETag */
+  readonly version: number;
+  readonly contentHash: string;
+  readonly savedAt: string;
+  readonly meta: Record<string, unknown>;
+  /** Full CRDT state (base64) */
+  readonly state: string;
+  readonly embeddingSnapshot?: unknown;
+}
+
+// ── Handler ─────────────────────────────────────────────────────────
+
+/**
+ * Create the request handler. Saves to the same page are processed
+ * one at a time so the version check and the write can't interleave.
+ */
+export function createDevModeWriteHandler(
+  options: DevModeWriteHandlerOptions
+): (request: Request) => Promise<Response> {
+  const { root, fs } = options;
+  const now = options.now ?? Date.now;
+  const locks: Map<string, Promise<unknown>> = new Map();
+
+  const withLock = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(key) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    locks.set(key, settled);
+    void settled.then(() => {
+      if (locks.get(key) === settled) locks.delete(key);
+    });
+    return run;
+  };
+
+  return async (request) => {
+    if (request.method !== 'POST') {
+      return json(405, { error: 'Method not allowed' });
+    }
+
+    let payload: DevModeSavePayload;
+    let state: Uint8Array;
+    let path: string;
+    try {
+      payload = parsePayload(await request.json());
+      state = decodeBase64(payload.state);
+      path = pagePath(payload.page.route);
+    } catch (err) {
+      return json(400, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    if ((await contentHash(state)) !== payload.contentHash) {
+      return json(400, { error: 'Content hash mismatch' });
+    }
+
+    const base = `${root.replace(/\/+$/, '')}/${path}`;
+    return withLock(base, async () => {
+      const stored = await readSidecar(fs, `${base}.aeon.json`);
+      const current = stored ? etag(stored.version) : null;
+
+      const ifMatch = request.headers.get('If-Match');
+      const ifNoneMatch = request.headers.get('If-None-Match');
+      const stale =
+        (ifMatch !== null && ifMatch !== current) ||
+        (ifNoneMatch === '*' && current !== null);
+      if (stale) {
+        const conflict: DevModeConflict = {
+          error: 'Page was saved by someone else',
+          state: stored?.state,
+        };
+        return json(412, conflict, current);
+      }
+
+      // Same content again (e.g. a retry after a lost response)
+      if (stored && stored.contentHash === payload.contentHash) {
+        return json(200, { version: stored.version }, current);
+      }
+
+      const sidecar: DevModeSidecar = {
+        id: payload.page.id,
+        route: payload.page.route,
+        version: (stored?.version ?? 0) + 1,
+        contentHash: payload.contentHash,
+        savedAt: new Date(now()).toISOString(),
+        meta: payload.page.meta ?? {},
+        state: payload.state,
+        embeddingSnapshot: payload.embeddingSnapshot,
+      };
+
+      const dir = base.slice(0, base.lastIndexOf('/'));
+      if (dir) await fs.mkdir(dir, { recursive: true });
+      // Markdown first: a crash in between leaves the old version in
+      // the sidecar, so the next save rewrites both
+      await writeAtomic(fs, `${base}.md`, payload.markdown);
+      await writeAtomic(
+        fs,
+        `${base}.aeon.json`,
+        JSON.stringify(sidecar, null, 2) + '\n'
+      );
+      return json(200, { version: sidecar.version }, etag(sidecar.version));
+    });
+  };
+}
+
+/**
+ * Relative file path (without extension) for a page route: `/` is
+ * `index`, `/guide/` is `guide/index`, `/guide/setup` is `guide/setup`.
+ * Throws on routes that would leave the root.
+ */
+export function pagePath(route: string): string {
+  const segments = route.split('/');
+  if (segments[segments.length - 1] === '') segments.push('index');
+  const parts = segments.filter((s) => s !== '');
+  for (const part of parts) {
+    if (part === '.' || part === '..' || part.includes('\\')) {
+      throw new Error(`Invalid route: ${route}`);
+    }
+  }
+  return parts.join('/');
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function parsePayload(body: unknown): DevModeSavePayload {
+  const payload = body as DevModeSavePayload | null;
+  if (
+    !payload ||
+    typeof payload.state !== 'string' ||
+    typeof payload.contentHash !== 'string' ||
+    typeof payload.markdown !== 'string' ||
+    typeof payload.page?.id !== 'string' ||
+    typeof payload.page?.route !== 'string'
+  ) {
+    throw new Error('Invalid save payload');
+  }
+  return payload;
+}
+
+async function readSidecar(
+  fs: DevModeFileSystem,
+  path: string
+): Promise<DevModeSidecar | null> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8')) as DevModeSidecar;
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeAtomic(
+  fs: DevModeFileSystem,
+  path: string,
+  data: string
+): Promise<void> {
+  const temp = `${path}.tmp`;
+  await fs.writeFile(temp, data);
+  await fs.rename(temp, path);
+}
+
+function etag(version: number): string {
+  return `"${version}"`;
+}
+
+function json(
+  status: number,
+  body: unknown,
+  version?: string | null
+): Response {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (version) headers.ETag = version;
+  return new Response(JSON.stringify(body), { status, headers });
+}
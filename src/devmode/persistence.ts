@@ -0,0 +1,88 @@
+/**
+ * DevMode persistence — What a save sends and how endpoints answer
+ *
+ * Shared by `DevModeController` (browser) and the reference write
+ * handler (server). A save is a JSON POST of the page data object with
+ * binary fields base64-encoded. Endpoints version what they store and
+ * use HTTP preconditions to catch concurrent saves:
+ *
+ *   - the version travels as the `ETag` of every response
+ *   - a save sends `If-Match: <version>` (or `If-None-Match: *` when
+ *     it has never saved to this endpoint)
+ *   - a stale precondition gets `412` with the stored state, which the
+ *     client merges (it's a CRDT) before trying again
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Body of a save request */
+export interface DevModeSavePayload {
+  /** When the save was started */
+  readonly timestamp: string;
+  /** Whether the endpoint should write the tree back to disk */
+  readonly writeToDisk: boolean;
+  readonly page: {
+    readonly id: string;
+    readonly route: string;
+    readonly meta: Record<string, unknown>;
+  };
+  /** Full CRDT state (base64) */
+  readonly state: string;
+  /** State vector of `state` (base64) */
+  readonly stateVector: string;
+  /**
+   * Changes since the last save this endpoint accepted (base64), or
+   * null on the first save and after a conflict. Endpoints holding a
+   * live copy of the document can apply this instead of `state`.
+   */
+  readonly delta: string | null;
+  /** SHA-256 of the decoded `state`, hex */
+  readonly contentHash: string;
+  /** The document rendered as Markdown */
+  readonly markdown: string;
+  /** Embedding document snapshot */
+  readonly embeddingSnapshot?: unknown;
+}
+
+/** Body of a `412` answer to a save */
+export interface DevModeConflict {
+  readonly error: string;
+  /** The stored CRDT state (base64), to merge before retrying */
+  readonly state?: string;
+}
+
+// ── Encoding ────────────────────────────────────────────────────────
+
+/** Base64 of binary data (works in browsers and Node 16+) */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Decode base64; throws on malformed input */
+export function decodeBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** SHA-256 of binary data, hex */
+export async function contentHash(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(bytes));
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+// ── Versions ────────────────────────────────────────────────────────
+
+/** Precondition headers for a save based on the last known version */
+export function preconditionHeaders(
+  version: string | null
+): Record<string, string> {
+  return version === null ? { 'If-None-Match': '*' } : { 'If-Match': version };
+}
@@ -0,0 +1,694 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToDocument, documentToMarkdown } from './MarkdownIO';
+import type { InlineSpan } from './MarkdownIO';
+import type { AeonDocument } from './document';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Block spec used to build documents without a live CRDT */
+interface BlockSpec {
+  type: string;
+  attributes?: Record<string, unknown>;
+  delta?: InlineSpan[];
+  children?: BlockSpec[];
+}
+
+/** XmlText stand-in exposing the delta read API */
+function makeText(delta: InlineSpan[]) {
+  return {
+    toDelta: () => delta.map((span) => ({ ...span })),
+    toString: () => delta.map((span) => span.insert).join(''),
+  };
+}
+
+/** XmlElement stand-in exposing the read API MarkdownIO relies on */
+function makeElement(spec: BlockSpec, nextId: () => string): any {
+  const attributes: Record<string, unknown> = {
+    id: nextId(),
+    ...spec.attributes,
+  };
+  const children: any[] = [];
+  if (spec.delta && spec.delta.length > 0) children.push(makeText(spec.delta));
+  for (const child of spec.children ?? []) {
+    children.push(makeElement(child, nextId));
+  }
+  return {
+    nodeName: spec.type,
+    get length() {
+      return children.length;
+    },
+    get: (i: number) => children[i],
+    getAttribute: (key: string) => attributes[key],
+    getAttributes: () => ({ ...attributes }),
+    toString: () => children.map((c) => c.toString()).join(''),
+  };
+}
+
+/** Minimal AeonDocument surface: a fragment and a pass-through transact */
+function makeDoc(blocks: BlockSpec[] = []): AeonDocument {
+  let counter = 0;
+  const nextId = () => `id-${++counter}`;
+  const items: any[] = blocks.map((b) => makeElement(b, nextId));
+  const fragment = {
+    get length() {
+      return items.length;
+    },
+    get: (i: number) => items[i],
+    delete: (i: number, n: number) => items.splice(i, n),
+    push: (els: any[]) => items.push(...els),
+  };
+  return {
+    ydoc: { transact: (fn: () => void) => fn() },
+    fragment,
+    getAllBlocks: () => [...items],
+  } as unknown as AeonDocument;
+}
+
+/** Normalise a delta: merge equal neighbours, drop empty spans */
+function normalizeDelta(delta: InlineSpan[]): InlineSpan[] {
+  const out: InlineSpan[] = [];
+  for (const span of delta) {
+    if (!span.insert) continue;
+    const last = out[out.length - 1];
+    const key = JSON.stringify(sortKeys(span.attributes ?? {}));
+    if (last && JSON.stringify(sortKeys(last.attributes ?? {})) === key) {
+      last.insert += span.insert;
+    } else {
+      out.push(
+        span.attributes
+          ? { insert: span.insert, attributes: sortKeys(span.attributes) }
+          : { insert: span.insert }
+      );
+    }
+  }
+  return out;
+}
+
+function sortKeys(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(obj).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/** Structural view of a document, ignoring generated IDs */
+function structure(doc: AeonDocument): unknown[] {
+  const walk = (el: any): unknown => {
+    const { id, 'embedding-id': _e, ...attrs } = el.getAttributes();
+    const delta: InlineSpan[] = [];
+    const children: unknown[] = [];
+    for (let i = 0; i < el.length; i++) {
+      const child = el.get(i);
+      if (typeof child.toDelta === 'function') delta.push(...child.toDelta());
+      else children.push(walk(child));
+    }
+    return {
+      type: el.nodeName,
+      attrs: sortKeys(attrs),
+      delta: normalizeDelta(delta),
+      children,
+    };
+  };
+  return doc.getAllBlocks().map(walk);
+}
+
+function roundTrip(doc: AeonDocument): {
+  markdown: string;
+  copy: AeonDocument;
+} {
+  const markdown = documentToMarkdown(doc);
+  const copy = makeDoc();
+  let n = 0;
+  markdownToDocument(markdown, copy, () => `gen-${++n}`);
+  return { markdown, copy };
+}
+
+function parse(markdown: string): unknown[] {
+  const doc = makeDoc();
+  let n = 0;
+  markdownToDocument(markdown, doc, () => `gen-${++n}`);
+  return structure(doc);
+}
+
+// ── Random document generator (seeded) ─────────────────────────────
+
+function mulberry32(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a |= 0;
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = [
+  'alpha',
+  'beta',
+  'gamma',
+  'x*y',
+  'snake_case',
+  '[ref]',
+  'a|b',
+  '<tag>',
+  '~tilde~',
+  '`tick`',
+  'back\\slash',
+  '#hash',
+  '1.',
+  '-dash',
+  '&amp;',
+  'q>r',
+  '!bang',
+  '(paren)',
+  '**',
+  '__',
+  '+plus',
+  '=eq',
+];
+const CODE_WORDS = ['const', 'x', '=', '1;', 'a*b', '[i]', '`', '``', '#'];
+const MARKS = [
+  'bold',
+  'italic',
+  'strikethrough',
+  'highlight',
+  'underline',
+  'subscript',
+  'superscript',
+];
+
+function generator(seed: number) {
+  const rand = mulberry32(seed);
+  const int = (n: number) => Math.floor(rand() * n);
+  const pick = <T>(xs: readonly T[]) => xs[int(xs.length)];
+
+  const words = (pool: string[], min: number, max: number) =>
+    Array.from({ length: min + int(max - min + 1) }, () => pick(pool)).join(
+      ' '
+    );
+
+  const delta = (
+    options: { newlines?: boolean; trailing?: boolean } = {}
+  ): InlineSpan[] => {
+    const spans: InlineSpan[] = [];
+    const count = 1 + int(4);
+    for (let i = 0; i < count; i++) {
+      const attributes: Record<string, unknown> = {};
+      for (const mark of MARKS) if (rand() < 0.2) attributes[mark] = true;
+      if (rand() < 0.15) {
+        attributes.link = true;
+        attributes['link-href'] = pick([
+          'https://a.io/x',
+          'https://b.io/(y)',
+          '/rel path',
+        ]);
+      }
+      if (rand() < 0.1) {
+        attributes['entity-ref'] = true;
+        attributes['entity-ref-id'] = pick(['ent-1', 'ent "2"']);
+      }
+      const code = rand() < 0.15;
+      if (code) attributes.code = true;
+      let text = code ? words(CODE_WORDS, 1, 3) : words(WORDS, 1, 3);
+      if (i > 0) {
+        text = ` ${text}`;
+      } else if (rand() < 0.2) {
+        // Leading whitespace, sometimes before a list marker
+        text = `${pick([' ', '  ', '\t', ' - ', '1. '])}${text}`;
+      }
+      if (options.trailing && i === count - 1 && rand() < 0.3) text += ' ';
+      if (options.newlines && i > 0 && !code && rand() < 0.2)
+        text = `\n${text.trimStart()}`;
+      spans.push(
+        Object.keys(attributes).length
+          ? { insert: text, attributes }
+          : { insert: text }
+      );
+    }
+    return spans;
+  };
+
+  const block = (prevIndent: number | null): BlockSpec => {
+    switch (int(12)) {
+      case 0:
+        return {
+          type: 'heading',
+          attributes: { level: String(1 + int(6)) },
+          delta: delta({ trailing: true }),
+        };
+      case 1:
+        return {
+          type: 'list-item',
+          attributes: {
+            indent: String(int((prevIndent ?? 0) + 2)),
+            'list-type': pick(['ordered', 'unordered']),
+          },
+          delta: delta({ newlines: true }),
+        };
+      case 2: {
+        const indent = int((prevIndent ?? 0) + 2);
+        return {
+          type: 'task-item',
+          attributes: {
+            checked: pick(['true', 'false']),
+            ...(indent > 0 ? { indent: String(indent) } : {}),
+          },
+          delta: delta({ newlines: true }),
+        };
+      }
+      case 3:
+        return { type: 'blockquote', delta: delta({ newlines: true }) };
+      case 4:
+        return {
+          type: 'code',
+          attributes: { language: pick(['ts', 'python', 'text', '']) },
+          delta: [
+            {
+              insert: ['let a = 1;', '```nested', '  indented\n\nblank'][
+                int(3)
+              ],
+            },
+          ],
+        };
+      case 5: {
+        const columns = 1 + int(3);
+        const rows = 1 + int(3);
+        const align = Array.from({ length: columns }, () =>
+          pick(['left', 'center', 'right', 'none'])
+        );
+        return {
+          type: 'table',
+          attributes: {
+            columns: String(columns),
+            ...(align.some((a) => a !== 'none')
+              ? { align: align.join(',') }
+              : {}),
+          },
+          children: Array.from({ length: rows }, () => ({
+            type: 'table-row',
+            children: Array.from({ length: columns }, () => ({
+              type: 'table-cell',
+              delta: delta(),
+            })),
+          })),
+        };
+      }
+      case 6:
+        return {
+          type: 'callout',
+          attributes: {
+            'callout-type': pick(['note', 'warning', 'tip']),
+            ...(rand() < 0.5 ? { icon: '💡' } : {}),
+          },
+          children: Array.from({ length: 1 + int(2) }, () => ({
+            type: 'paragraph',
+            delta: delta({ newlines: true }),
+          })),
+        };
+      case 7:
+        return {
+          type: 'esi',
+          attributes: {
+            'tag-name': pick(['Summary', 'Chart']),
+            props: JSON.stringify({ depth: int(5), note: 'a --> b\nc' }),
+          },
+        };
+      case 8:
+        return {
+          type: 'embed',
+          attributes: {
+            url: 'https://video.io/v?a=1&b=2',
+            provider: 'video',
+            width: '640',
+          },
+        };
+      case 9:
+        return {
+          type: 'image',
+          attributes: { src: 'https://img.io/a (1).png', alt: 'a [b] c' },
+        };
+      case 10:
+        return { type: 'divider' };
+      default:
+        return { type: 'paragraph', delta: delta({ newlines: true }) };
+    }
+  };
+
+  return (): BlockSpec[] => {
+    const blocks: BlockSpec[] = [];
+    const count = 1 + int(8);
+    let prevIndent: number | null = null;
+    for (let i = 0; i < count; i++) {
+      const b = block(prevIndent);
+      prevIndent =
+        b.type === 'list-item' || b.type === 'task-item'
+          ? parseInt(String(b.attributes!.indent ?? 0), 10)
+          : null;
+      blocks.push(b);
+    }
+    return blocks;
+  };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('MarkdownIO', () => {
+  describe('markdown → document', () => {
+    it('parses inline marks', () => {
+      const [para] = parse(
+        'A **bold** and *italic* `code` ~~gone~~ [link](https://x.io)'
+      ) as any[];
+      expect(para.delta).toEqual([
+        { insert: 'A ' },
+        { insert: 'bold', attributes: { bold: true } },
+        { insert: ' and ' },
+        { insert: 'italic', attributes: { italic: true } },
+        { insert: ' ' },
+        { insert: 'code', attributes: { code: true } },
+        { insert: ' ' },
+        { insert: 'gone', attributes: { strikethrough: true } },
+        { insert: ' ' },
+        {
+          insert: 'link',
+          attributes: { link: true, 'link-href': 'https://x.io' },
+        },
+      ]);
+    });
+
+    it('does not treat intraword underscores as emphasis', () => {
+      const [para] = parse('snake_case_name and _real_') as any[];
+      expect(para.delta).toEqual([
+        { insert: 'snake_case_name and ' },
+        { insert: 'real', attributes: { italic: true } },
+      ]);
+    });
+
+    it('builds GFM tables into rows and cells', () => {
+      const [table] = parse(
+        '| a | b |\n| :-- | --: |\n| **c** | d \\| e |'
+      ) as any[];
+      expect(table.type).toBe('table');
+      expect(table.attrs).toEqual({ align: 'left,right', columns: '2' });
+      expect(table.children).toHaveLength(2);
+      expect(table.children[1].children[0].delta).toEqual([
+        { insert: 'c', attributes: { bold: true } },
+      ]);
+      expect(table.children[1].children[1].delta).toEqual([
+        { insert: 'd | e' },
+      ]);
+    });
+
+    it('parses admonition callouts with paragraph children', () => {
+      const [callout] = parse('> [!WARNING]\n> First\n>\n> Second') as any[];
+      expect(callout.type).toBe('callout');
+      expect(callout.attrs).toEqual({ 'callout-type': 'warning' });
+      expect(callout.children.map((c: any) => c.delta[0].insert)).toEqual([
+        'First',
+        'Second',
+      ]);
+    });
+
+    it('derives list indent from the parent content column', () => {
+      const blocks = parse(
+        '1. one\n   - nested\n     - deeper\n2. two'
+      ) as any[];
+      expect(blocks.map((b) => b.attrs.indent)).toEqual(['0', '1', '2', '0']);
+    });
+
+    it('recognises task items before plain list items', () => {
+      const [task] = parse('- [x] done') as any[];
+      expect(task.type).toBe('task-item');
+      expect(task.attrs.checked).toBe('true');
+    });
+
+    it('nests indented task items', () => {
+      const blocks = parse('- [ ] parent\n  - [x] child\n    - leaf') as any[];
+      expect(blocks.map((b) => [b.type, b.attrs.indent])).toEqual([
+        ['task-item', undefined],
+        ['task-item', '1'],
+        ['list-item', '2'],
+      ]);
+      expect(blocks[1].delta).toEqual([{ insert: 'child' }]);
+      expect(blocks[1].attrs.checked).toBe('true');
+    });
+
+    it('reads two trailing spaces as a hard break', () => {
+      const [para] = parse('one  \ntwo \n   three') as any[];
+      expect(para.delta).toEqual([{ insert: 'one\ntwo three' }]);
+    });
+
+    it('joins lazy continuation lines to their list item or quote', () => {
+      const blocks = parse(
+        '- item\n  indented\nlazy\n\n> quoted\nlazy too\n\nafter'
+      ) as any[];
+      expect(blocks.map((b) => [b.type, b.delta[0].insert])).toEqual([
+        ['list-item', 'item indented lazy'],
+        ['blockquote', 'quoted lazy too'],
+        ['paragraph', 'after'],
+      ]);
+    });
+
+    it('keeps malformed embeds as text', () => {
+      const blocks = parse(
+        '<!-- EMBED {bad} -->\n\n<!-- EMBED [1] -->'
+      ) as any[];
+      expect(blocks.map((b) => [b.type, b.delta[0].insert])).toEqual([
+        ['paragraph', '<!-- EMBED {bad} -->'],
+        ['paragraph', '<!-- EMBED [1] -->'],
+      ]);
+    });
+
+    it('keeps ESI props', () => {
+      const [esi] = parse('<!-- ESI:Chart {"kind":"bar"} -->') as any[];
+      expect(esi.attrs).toEqual({
+        props: '{"kind":"bar"}',
+        'tag-name': 'Chart',
+      });
+    });
+  });
+
+  describe('document → markdown', () => {
+    it('emits nested marks as properly nested delimiters', () => {
+      const doc = makeDoc([
+        {
+          type: 'paragraph',
+          delta: [
+            { insert: 'a', attributes: { bold: true } },
+            { insert: 'b', attributes: { bold: true, italic: true } },
+            { insert: 'c', attributes: { italic: true } },
+          ],
+        },
+      ]);
+      expect(documentToMarkdown(doc)).toBe('**a*b****c*');
+    });
+
+    it('escapes text that would otherwise be read as markup', () => {
+      const doc = makeDoc([
+        { type: 'paragraph', delta: [{ insert: '# not *a* heading' }] },
+      ]);
+      expect(documentToMarkdown(doc)).toBe('\\# not \\*a\\* heading');
+    });
+
+    it('renders tight nested lists', () => {
+      const doc = makeDoc([
+        {
+          type: 'list-item',
+          attributes: { indent: '0', 'list-type': 'ordered' },
+          delta: [{ insert: 'one' }],
+        },
+        {
+          type: 'list-item',
+          attributes: { indent: '1', 'list-type': 'unordered' },
+          delta: [{ insert: 'two' }],
+        },
+      ]);
+      expect(documentToMarkdown(doc)).toBe('1. one\n   - two');
+    });
+
+    it('renders callouts with icons', () => {
+      const doc = makeDoc([
+        {
+          type: 'callout',
+          attributes: { 'callout-type': 'note', icon: '💡' },
+          children: [{ type: 'paragraph', delta: [{ insert: 'Hi' }] }],
+        },
+      ]);
+      expect(documentToMarkdown(doc)).toBe('> [!NOTE] 💡\n> Hi');
+    });
+  });
+
+  describe('round trip', () => {
+    const expectRoundTrip = (blocks: BlockSpec[]) => {
+      const doc = makeDoc(blocks);
+      const { markdown, copy } = roundTrip(doc);
+      expect(structure(copy), markdown).toEqual(structure(doc));
+    };
+
+    it('keeps a heading that is only `#`', () => {
+      expectRoundTrip([
+        {
+          type: 'heading',
+          attributes: { level: '2' },
+          delta: [{ insert: '#' }],
+        },
+        {
+          type: 'heading',
+          attributes: { level: '1' },
+          delta: [{ insert: 'C#' }],
+        },
+      ]);
+    });
+
+    it('keeps nested task items', () => {
+      expectRoundTrip([
+        {
+          type: 'task-item',
+          attributes: { checked: 'false' },
+          delta: [{ insert: 'a' }],
+        },
+        {
+          type: 'task-item',
+          attributes: { checked: 'true', indent: '1' },
+          delta: [{ insert: 'b' }],
+        },
+        {
+          type: 'list-item',
+          attributes: { indent: '2', 'list-type': 'ordered' },
+          delta: [{ insert: 'c' }],
+        },
+      ]);
+    });
+
+    it('keeps hard breaks', () => {
+      const doc = makeDoc();
+      markdownToDocument('one  \ntwo', doc, () => 'id');
+      expect(documentToMarkdown(doc)).toBe('one\\\ntwo');
+      expectRoundTrip([
+        { type: 'paragraph', delta: [{ insert: 'one  \ntwo' }] },
+      ]);
+    });
+
+    it('keeps text that starts with spaces and a list marker', () => {
+      expectRoundTrip([
+        { type: 'paragraph', delta: [{ insert: ' - x' }] },
+        { type: 'paragraph', delta: [{ insert: 'a\n  1. b' }] },
+        {
+          type: 'heading',
+          attributes: { level: '2' },
+          delta: [{ insert: ' spaced ' }],
+        },
+      ]);
+    });
+
+    it('keeps hard breaks in list and task items', () => {
+      const doc = makeDoc([
+        {
+          type: 'list-item',
+          attributes: { indent: '0', 'list-type': 'ordered' },
+          delta: [{ insert: 'a\nb' }],
+        },
+        {
+          type: 'task-item',
+          attributes: { checked: 'true', indent: '1' },
+          delta: [{ insert: 'c\n\n-d' }],
+        },
+      ]);
+      expect(documentToMarkdown(doc)).toBe(
+        '1. a\\\n   b\n   - [x] c\\\n     \\\n     \\-d'
+      );
+      expectRoundTrip([
+        {
+          type: 'list-item',
+          attributes: { indent: '0', 'list-type': 'ordered' },
+          delta: [{ insert: 'a\nb' }],
+        },
+        {
+          type: 'task-item',
+          attributes: { checked: 'true', indent: '1' },
+          delta: [{ insert: 'c\n\n-d' }],
+        },
+      ]);
+    });
+
+    it('keeps the indent of items after a paragraph', () => {
+      expectRoundTrip([
+        {
+          type: 'list-item',
+          attributes: { indent: '0', 'list-type': 'unordered' },
+          delta: [{ insert: 'a' }],
+        },
+        { type: 'paragraph', delta: [{ insert: 'interrupting' }] },
+        {
+          type: 'list-item',
+          attributes: { indent: '1', 'list-type': 'ordered' },
+          delta: [{ insert: 'b' }],
+        },
+        {
+          type: 'list-item',
+          attributes: { indent: '2', 'list-type': 'unordered' },
+          delta: [{ insert: 'c' }],
+        },
+        {
+          type: 'list-item',
+          attributes: { indent: '1', 'list-type': 'unordered' },
+          delta: [{ insert: 'd' }],
+        },
+        { type: 'paragraph', delta: [{ insert: 'again' }] },
+        {
+          type: 'task-item',
+          attributes: { checked: 'false', indent: '1' },
+          delta: [{ insert: 'e' }],
+        },
+      ]);
+    });
+
+    it('does not give code blocks a language', () => {
+      expectRoundTrip([
+        {
+          type: 'code',
+          attributes: { language: '' },
+          delta: [{ insert: 'x = 1' }],
+        },
+      ]);
+    });
+
+    it('keeps lazily continued paragraphs whole', () => {
+      const doc = makeDoc();
+      markdownToDocument('> a\nb\n\n- c\nd', doc, () => 'id');
+      expect(documentToMarkdown(doc)).toBe('> a b\n\n- c d');
+    });
+
+    it('keeps the types of embed attributes', () => {
+      expectRoundTrip([
+        {
+          type: 'embed',
+          attributes: {
+            url: 'https://video.io/v',
+            width: 640,
+            autoplay: false,
+            html: '<iframe>',
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('round trip (property)', () => {
+    it('rebuilds a structurally identical document for 300 random documents', () => {
+      for (let seed = 1; seed <= 300; seed++) {
+        const doc = makeDoc(generator(seed)());
+        const { markdown, copy } = roundTrip(doc);
+        expect(structure(copy), `seed ${seed}:\n${markdown}`).toEqual(
+          structure(doc)
+        );
+      }
+    });
+
+    it('is a fixed point after one round trip', () => {
+      for (let seed = 1000; seed <= 1100; seed++) {
+        const { markdown, copy } = roundTrip(makeDoc(generator(seed)()));
+        expect(documentToMarkdown(copy), `seed ${seed}`).toBe(markdown);
+      }
+    });
+  });
+});
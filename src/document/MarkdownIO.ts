@@ -4,20 +4,101 @@
  * Converts between raw Markdown text and Yjs XmlFragment
  * structure. This is the serialization layer that makes
  * the "markdown view" possible in the editor.
+ *
+ * The dialect is CommonMark + GFM (tables, strikethrough, task
+ * items) with admonition callouts (`> [!NOTE]`) and a handful of
+ * inline HTML tags for marks Markdown has no syntax for. The
+ * contract is a lossless round trip:
+ * `markdownToDocument(documentToMarkdown(doc))` rebuilds a
+ * structurally identical tree (block types, attributes, marks).
  */
 
 import { QDoc, QMap, QArray, QText } from '@affectively/gnosis';
-import type { AeonDocument } from './document';
+import { DOCUMENT_SCHEMA } from './document';
+import type { AeonDocument, InlineMark } from './document';
+import {
+  readElement,
+  stringifyAttributes,
+  mergeSpans,
+  sameMarks,
+  type ElementBlock,
+  type InlineSpan,
+} from './elements';
+
+export type { InlineSpan } from './elements';
 
 // ── Types ───────────────────────────────────────────────────────────
 
-/** A parsed markdown block */
-interface MarkdownBlock {
-  type: string;
-  content: string;
-  attributes: Record<string, string>;
-  children?: MarkdownBlock[];
-}
+/** A parsed markdown block, in the shape `readElement` reads */
+type MarkdownBlock = ElementBlock;
+
+/** Column alignment in a GFM table */
+type TableAlign = 'left' | 'center' | 'right' | 'none';
+
+// ── Inline Syntax ───────────────────────────────────────────────────
+
+/**
+ * Delimited marks, outermost first. Serialization opens marks in
+ * this order so links wrap emphasis and code spans stay innermost.
+ */
+const DELIMITED_MARKS: {
+  mark: InlineMark;
+  open: string;
+  close: string;
+}[] = [
+  { mark: 'bold', open: '**', close: '**' },
+  { mark: 'italic', open: '*', close: '*' },
+  { mark: 'strikethrough', open: '~~', close: '~~' },
+  { mark: 'highlight', open: '<mark>', close: '</mark>' },
+  { mark: 'underline', open: '<u>', close: '</u>' },
+  { mark: 'subscript', open: '<sub>', close: '</sub>' },
+  { mark: 'superscript', open: '<sup>', close: '</sup>' },
+];
+
+/** HTML forms of emphasis, used where `*` runs would be ambiguous */
+const HTML_EMPHASIS: {
+  mark: InlineMark;
+  open: string;
+  close: string;
+}[] = [
+  { mark: 'bold', open: '<strong>', close: '</strong>' },
+  { mark: 'italic', open: '<em>', close: '</em>' },
+];
+
+/** Order in which marks are opened when serializing */
+const MARK_ORDER: InlineMark[] = [
+  'link',
+  'entity-ref',
+  ...DELIMITED_MARKS.map((d) => d.mark),
+  'code',
+];
+
+/** Characters escaped anywhere in serialized text */
+const ESCAPED_CHARS = new Set([
+  '\\',
+  '`',
+  '*',
+  '_',
+  '[',
+  ']',
+  '<',
+  '>',
+  '~',
+  '|',
+  '&',
+]);
+
+/** ASCII punctuation — anything here may be backslash-escaped */
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+/** Callout types recognised in `> [!TYPE]` markers */
+const CALLOUT_PATTERN = /^\[!(\w+)\](?:[ \t]+(.*))?$/;
+
+/** A list item: indentation, bullet or number, spacing, content */
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])( +)(.*)$/;
+
+/** Types whose text is rendered through the inline serializer */
+const LIST_BLOCK_TYPES = new Set(['list-item', 'task-item']);
 
 // ── Markdown → Yjs ──────────────────────────────────────────────────
 
@@ -47,30 +128,103 @@ export function markdownToDocument(
 }
 
 /**
- * Simple markdown block parser.
- * Handles headings, paragraphs, lists, code blocks, blockquotes, dividers.
+ * Markdown block parser.
+ * Handles headings, paragraphs, nested lists, task items, fenced code,
+ * blockquotes, callouts, GFM tables, images, embeds, ESI tags and dividers.
  * (Full implementation would use pulldown-cmark in WASM for performance.)
  */
 function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
-  const lines = markdown.split('\n');
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
   const blocks: MarkdownBlock[] = [];
+  /** Open items as [markerColumn, contentColumn, indent], outermost first */
+  let listStack: [number, number, number][] = [];
   let i = 0;
 
   while (i < lines.length) {
     const line = lines[i];
 
-    // Empty lines — skip
+    // Empty lines — skip (lists may continue across them)
     if (line.trim() === '') {
       i++;
       continue;
     }
 
+    // List and task items (unordered and ordered), nested by content column
+    const listMatch = line.match(LIST_ITEM_PATTERN);
+    if (listMatch) {
+      const markerColumn = listMatch[1].length;
+      const contentColumn =
+        markerColumn + listMatch[2].length + listMatch[3].length;
+      let sibling: [number, number, number] | undefined;
+      while (
+        listStack.length > 0 &&
+        markerColumn < listStack[listStack.length - 1][1]
+      ) {
+        sibling = listStack.pop();
+      }
+      // Nested in the item above, level with the one it closes, or, for
+      // the first item after a paragraph, two columns per level
+      const parent = listStack[listStack.length - 1];
+      const indent = parent
+        ? parent[2] + 1
+        : sibling && sibling[0] <= markerColumn
+          ? sibling[2]
+          : Math.floor(markerColumn / 2);
+      listStack.push([markerColumn, contentColumn, indent]);
+
+      // Continuation lines: indented to the content column, or lazy
+      const contentLines = [listMatch[4]];
+      i++;
+      while (
+        i < lines.length &&
+        !LIST_ITEM_PATTERN.test(lines[i]) &&
+        continuesLazily(lines[i])
+      ) {
+        const continuation = lines[i];
+        contentLines.push(
+          /^ *$/.test(continuation.substring(0, contentColumn))
+            ? continuation.substring(contentColumn)
+            : continuation.trimStart()
+        );
+        i++;
+      }
+      const content = contentLines.join('\n');
+
+      const taskMatch = /^[-*+]$/.test(listMatch[2])
+        ? content.match(/^\[([ xX])\](?:\s+([\s\S]*))?$/)
+        : null;
+      if (taskMatch) {
+        const attributes: Record<string, string> = {
+          checked: taskMatch[1] !== ' ' ? 'true' : 'false',
+        };
+        if (indent > 0) attributes.indent = String(indent);
+        blocks.push({
+          type: 'task-item',
+          delta: parseInline(taskMatch[2] ?? ''),
+          attributes,
+        });
+        continue;
+      }
+
+      blocks.push({
+        type: 'list-item',
+        delta: parseInline(content),
+        attributes: {
+          indent: String(indent),
+          'list-type': /^\d/.test(listMatch[2]) ? 'ordered' : 'unordered',
+        },
+      });
+      continue;
+    }
+
+    listStack = [];
+
     // Headings (# ... ######)
-    const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
+    const headingMatch = line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
     if (headingMatch) {
       blocks.push({
         type: 'heading',
-        content: headingMatch[2],
+        delta: parseInline(headingMatch[2]),
         attributes: { level: String(headingMatch[1].length) },
       });
       i++;
@@ -79,106 +233,135 @@ function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
 
     // Horizontal rules
     if (/^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())) {
-      blocks.push({
-        type: 'divider',
-        content: '',
-        attributes: {},
-      });
+      blocks.push({ type: 'divider', delta: [], attributes: {} });
       i++;
       continue;
     }
 
-    // Fenced code blocks
-    const codeMatch = line.match(/^```(\w*)$/);
+    // Fenced code blocks (``` or ~~~, closed by a fence at least as long)
+    const codeMatch = line.match(/^(`{3,}|~{3,})\s*([^`\s]*)\s*$/);
     if (codeMatch) {
-      const language = codeMatch[1] || 'text';
+      const fence = codeMatch[1];
+      const language = codeMatch[2];
       const codeLines: string[] = [];
       i++;
-      while (i < lines.length && !lines[i].startsWith('```')) {
+      while (
+        i < lines.length &&
+        !(
+          lines[i].startsWith(fence) &&
+          lines[i].trim() === fence[0].repeat(lines[i].trim().length)
+        )
+      ) {
         codeLines.push(lines[i]);
         i++;
       }
-      i++; // skip closing ```
+      i++; // skip closing fence
+      const code = codeLines.join('\n');
       blocks.push({
         type: 'code',
-        content: codeLines.join('\n'),
+        delta: code ? [{ insert: code }] : [],
         attributes: { language },
       });
       continue;
     }
 
-    // Blockquotes
-    if (line.startsWith('> ')) {
-      const quoteLines: string[] = [];
-      while (i < lines.length && lines[i].startsWith('> ')) {
-        quoteLines.push(lines[i].substring(2));
-        i++;
+    // ESI tags — `<!-- ESI:tag-name {props} -->`
+    const esiMatch = line.match(/^<!-- ESI:(\S+?)(?: (.*))? -->$/);
+    if (esiMatch) {
+      const attributes: Record<string, string> = { 'tag-name': esiMatch[1] };
+      if (esiMatch[2] !== undefined) {
+        attributes.props = unescapeComment(esiMatch[2]);
       }
-      blocks.push({
-        type: 'blockquote',
-        content: quoteLines.join('\n'),
-        attributes: {},
-      });
+      blocks.push({ type: 'esi', delta: [], attributes });
+      i++;
       continue;
     }
 
-    // Unordered list items
-    const ulMatch = line.match(/^(\s*)[-*+]\s+(.+)$/);
-    if (ulMatch) {
-      const indent = Math.floor(ulMatch[1].length / 2);
+    // Embeds — `<!-- EMBED {attributes} -->`; malformed ones stay text
+    const embedMatch = line.match(/^<!-- EMBED (\{.*\}) -->$/);
+    const embed = embedMatch ? parseEmbedAttributes(embedMatch[1]) : null;
+    if (embed) {
       blocks.push({
-        type: 'list-item',
-        content: ulMatch[2],
-        attributes: { indent: String(indent), 'list-type': 'unordered' },
+        type: 'embed',
+        delta: [],
+        attributes: stringifyAttributes(embed),
+        values: embed,
       });
       i++;
       continue;
     }
 
-    // Ordered list items
-    const olMatch = line.match(/^(\s*)\d+\.\s+(.+)$/);
-    if (olMatch) {
-      const indent = Math.floor(olMatch[1].length / 2);
+    // Images on their own line
+    const imageMatch = line.match(/^!\[((?:\\.|[^\]\\])*)\]/);
+    const imageSrc = imageMatch
+      ? readLinkDestination(line, imageMatch[0].length)
+      : null;
+    if (imageMatch && imageSrc && imageSrc.end === line.length) {
       blocks.push({
-        type: 'list-item',
-        content: olMatch[2],
-        attributes: { indent: String(indent), 'list-type': 'ordered' },
+        type: 'image',
+        delta: [],
+        attributes: {
+          alt: unescapeText(imageMatch[1]),
+          src: imageSrc.value,
+        },
       });
       i++;
       continue;
     }
 
-    // Task items
-    const taskMatch = line.match(/^[-*+]\s+\[([ xX])\]\s+(.+)$/);
-    if (taskMatch) {
-      blocks.push({
-        type: 'task-item',
-        content: taskMatch[2],
-        attributes: { checked: taskMatch[1] !== ' ' ? 'true' : 'false' },
-      });
-      i++;
+    // Blockquotes and callouts
+    if (/^>( |$)/.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length) {
+        if (/^>( |$)/.test(lines[i])) {
+          quoteLines.push(lines[i].replace(/^> ?/, ''));
+        } else if (
+          quoteLines[quoteLines.length - 1].trim() !== '' &&
+          continuesLazily(lines[i])
+        ) {
+          // Lazy continuation of the quoted paragraph
+          quoteLines.push(lines[i]);
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push(parseQuote(quoteLines));
+      continue;
+    }
+
+    // GFM tables — a header row followed by a delimiter row
+    if (
+      line.includes('|') &&
+      i + 1 < lines.length &&
+      isTableDelimiterRow(lines[i + 1])
+    ) {
+      const rows: string[] = [line];
+      const delimiter = lines[i + 1];
+      i += 2;
+      while (
+        i < lines.length &&
+        lines[i].trim() !== '' &&
+        lines[i].includes('|')
+      ) {
+        rows.push(lines[i]);
+        i++;
+      }
+      blocks.push(parseTable(rows, delimiter));
       continue;
     }
 
     // Default: paragraph (collect consecutive non-empty lines)
     const paraLines: string[] = [line];
     i++;
-    while (
-      i < lines.length &&
-      lines[i].trim() !== '' &&
-      !lines[i].match(/^#{1,6}\s/) &&
-      !lines[i].startsWith('```') &&
-      !lines[i].startsWith('> ') &&
-      !lines[i].match(/^[-*+]\s/) &&
-      !lines[i].match(/^\d+\.\s/)
-    ) {
+    while (i < lines.length && !interruptsParagraph(lines[i])) {
       paraLines.push(lines[i]);
       i++;
     }
 
     blocks.push({
       type: 'paragraph',
-      content: paraLines.join(' '),
+      delta: parseInline(paraLines.join('\n')),
       attributes: {},
     });
   }
@@ -186,120 +369,946 @@ function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
   return blocks;
 }
 
+/** Whether a line ends the paragraph that precedes it */
+function interruptsParagraph(line: string): boolean {
+  return (
+    line.trim() === '' ||
+    /^#{1,6}\s/.test(line) ||
+    /^(`{3,}|~{3,})/.test(line) ||
+    /^>( |$)/.test(line) ||
+    /^[-*+]\s/.test(line) ||
+    /^\d{1,9}[.)]\s/.test(line) ||
+    /^<!-- (ESI:|EMBED )/.test(line)
+  );
+}
+
+/**
+ * Whether a line continues the paragraph of an enclosing list item or
+ * blockquote without repeating its marker (a lazy continuation line)
+ */
+function continuesLazily(line: string): boolean {
+  return (
+    !interruptsParagraph(line) && !/^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())
+  );
+}
+
+/** Parse `<!-- EMBED -->` JSON attributes; null when malformed */
+function parseEmbedAttributes(payload: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(unescapeComment(payload));
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse the de-prefixed lines of a `>` block into a blockquote or callout */
+function parseQuote(quoteLines: string[]): MarkdownBlock {
+  const marker = quoteLines[0].match(CALLOUT_PATTERN);
+  if (!marker) {
+    return {
+      type: 'blockquote',
+      delta: parseInline(quoteLines.join('\n')),
+      attributes: {},
+    };
+  }
+
+  const attributes: Record<string, string> = {
+    'callout-type': marker[1].toLowerCase(),
+  };
+  if (marker[2]) attributes.icon = marker[2].trim();
+
+  // Body paragraphs are separated by blank `>` lines
+  const children: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    children.push({
+      type: 'paragraph',
+      delta: parseInline(paragraph.join('\n')),
+      attributes: {},
+    });
+    paragraph = [];
+  };
+  for (const bodyLine of quoteLines.slice(1)) {
+    if (bodyLine.trim() === '') flush();
+    else paragraph.push(bodyLine);
+  }
+  flush();
+
+  return { type: 'callout', delta: [], attributes, children };
+}
+
+/** Whether a line is a GFM table delimiter row (`| --- | :-: |`) */
+function isTableDelimiterRow(line: string): boolean {
+  const cells = splitTableRow(line);
+  return (
+    cells.length > 0 && cells.every((cell) => /^:?-+:?$/.test(cell.trim()))
+  );
+}
+
+/** Split a table row on unescaped pipes, dropping the outer pipes */
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.substring(1);
+  if (row.endsWith('|') && !isEscaped(row, row.length - 1)) {
+    row = row.substring(0, row.length - 1);
+  }
+
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '|' && !isEscaped(row, i)) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+/** Whether the character at `index` is preceded by an odd run of backslashes */
+function isEscaped(text: string, index: number): boolean {
+  let backslashes = 0;
+  for (let i = index - 1; i >= 0 && text[i] === '\\'; i--) backslashes++;
+  return backslashes % 2 === 1;
+}
+
+/** Build a table block from its raw rows (header first) and delimiter row */
+function parseTable(rows: string[], delimiter: string): MarkdownBlock {
+  const aligns: TableAlign[] = splitTableRow(delimiter).map((cell) => {
+    const spec = cell.trim();
+    if (spec.startsWith(':') && spec.endsWith(':')) return 'center';
+    if (spec.endsWith(':')) return 'right';
+    if (spec.startsWith(':')) return 'left';
+    return 'none';
+  });
+
+  const attributes: Record<string, string> = {
+    columns: String(aligns.length),
+  };
+  if (aligns.some((align) => align !== 'none')) {
+    attributes.align = aligns.join(',');
+  }
+
+  return {
+    type: 'table',
+    delta: [],
+    attributes,
+    children: rows.map((row) => ({
+      type: 'table-row',
+      delta: [],
+      attributes: {},
+      children: splitTableRow(row).map((cell) => ({
+        type: 'table-cell',
+        // GFM unescapes `\|` before inline parsing so pipes survive code spans
+        delta: parseInline(cell.trim().replace(/\\\|/g, '|')),
+        attributes: {},
+      })),
+    })),
+  };
+}
+
+// ── Inline Parsing ──────────────────────────────────────────────────
+
+/** Parse inline markdown into a list of formatted spans */
+function parseInline(source: string): InlineSpan[] {
+  return mergeSpans(parseInlineRange(source, 0, {}, null).spans);
+}
+
+/**
+ * Parse from `start` until `closer` (or end of input) with `marks` active.
+ * Openers that never find their closer are re-read as literal text.
+ */
+function parseInlineRange(
+  source: string,
+  start: number,
+  marks: Record<string, unknown>,
+  closer: string | null
+): { spans: InlineSpan[]; end: number; closed: boolean } {
+  const spans: InlineSpan[] = [];
+  let text = '';
+  const flush = () => {
+    if (text) spans.push(makeSpan(text, marks));
+    text = '';
+  };
+
+  let i = start;
+  outer: while (i < source.length) {
+    // Inside `*…*`, a `**` that opens a closed bold span is not the closer
+    if (closer === '*' && source.startsWith('**', i)) {
+      const bold = parseInlineRange(
+        source,
+        i + 2,
+        { ...marks, bold: true },
+        '**'
+      );
+      if (bold.closed && bold.end > i + 4) {
+        flush();
+        spans.push(...bold.spans);
+        i = bold.end;
+        continue;
+      }
+    }
+
+    if (closer !== null && source.startsWith(closer, i)) {
+      flush();
+      return { spans, end: i + closer.length, closed: true };
+    }
+
+    const char = source[i];
+
+    // Backslash escapes and hard breaks
+    if (char === '\\' && i + 1 < source.length) {
+      const next = source[i + 1];
+      if (next === '\n') {
+        text += '\n';
+        i += 2;
+        continue;
+      }
+      if (ASCII_PUNCTUATION.test(next)) {
+        text += next;
+        i += 2;
+        continue;
+      }
+    }
+
+    // Two or more trailing spaces make a hard break; otherwise the
+    // line break is soft and collapses to a space
+    if (char === '\n') {
+      const hard = / {2,}$/.test(text);
+      text = `${text.replace(/ +$/, '')}${hard ? '\n' : ' '}`;
+      i++;
+      while (source[i] === ' ') i++;
+      continue;
+    }
+
+    // Code spans — content is literal
+    if (char === '`') {
+      const run = source.substring(i).match(/^`+/)![0];
+      const closeAt = findBacktickRun(source, i + run.length, run.length);
+      if (closeAt === -1) {
+        text += run;
+        i += run.length;
+        continue;
+      }
+      let code = source.substring(i + run.length, closeAt).replace(/\n/g, ' ');
+      if (
+        code.length > 2 &&
+        code.startsWith(' ') &&
+        code.endsWith(' ') &&
+        code.trim() !== ''
+      ) {
+        code = code.substring(1, code.length - 1);
+      }
+      flush();
+      spans.push(makeSpan(code, { ...marks, code: true }));
+      i = closeAt + run.length;
+      continue;
+    }
+
+    // `<br>` — used for line breaks inside table cells
+    const br = source.substring(i).match(/^<br\s*\/?>/);
+    if (br) {
+      text += '\n';
+      i += br[0].length;
+      continue;
+    }
+
+    // `_text_` — CommonMark's other italic delimiter (never intraword)
+    if (char === '_' && !/\w/.test(source[i - 1] ?? '')) {
+      const inner = parseInlineRange(
+        source,
+        i + 1,
+        { ...marks, italic: true },
+        '_'
+      );
+      if (
+        inner.closed &&
+        inner.end > i + 2 &&
+        !/\w/.test(source[inner.end] ?? '')
+      ) {
+        flush();
+        spans.push(...inner.spans);
+        i = inner.end;
+        continue;
+      }
+    }
+
+    // Delimited marks
+    for (const { mark, open, close } of [
+      ...DELIMITED_MARKS,
+      ...HTML_EMPHASIS,
+    ]) {
+      if (!source.startsWith(open, i)) continue;
+      const inner = parseInlineRange(
+        source,
+        i + open.length,
+        { ...marks, [mark]: true },
+        close
+      );
+      if (inner.closed && inner.end > i + open.length + close.length) {
+        flush();
+        spans.push(...inner.spans);
+        i = inner.end;
+        continue outer;
+      }
+    }
+
+    // Entity references — `<span data-entity-ref="id">text</span>`
+    const entity = source
+      .substring(i)
+      .match(/^<span data-entity-ref="([^"]*)">/);
+    if (entity) {
+      const inner = parseInlineRange(
+        source,
+        i + entity[0].length,
+        {
+          ...marks,
+          'entity-ref': true,
+          'entity-ref-id': decodeAttribute(entity[1]),
+        },
+        '</span>'
+      );
+      if (inner.closed) {
+        flush();
+        spans.push(...inner.spans);
+        i = inner.end;
+        continue;
+      }
+    }
+
+    // Links — `[text](href)`
+    if (char === '[') {
+      const inner = parseInlineRange(
+        source,
+        i + 1,
+        { ...marks, link: true },
+        ']'
+      );
+      const href = inner.closed ? readLinkDestination(source, inner.end) : null;
+      if (href) {
+        flush();
+        for (const span of inner.spans) {
+          spans.push({
+            insert: span.insert,
+            attributes: { ...span.attributes, 'link-href': href.value },
+          });
+        }
+        i = href.end;
+        continue;
+      }
+    }
+
+    // Numeric character references — `&#32;` keeps edge whitespace
+    const reference =
+      char === '&'
+        ? source.substring(i).match(/^&#(?:(\d{1,7})|[xX]([\da-fA-F]{1,6}));/)
+        : null;
+    if (reference) {
+      const code = reference[1]
+        ? parseInt(reference[1], 10)
+        : parseInt(reference[2], 16);
+      text += String.fromCodePoint(
+        code > 0 && code <= 0x10ffff ? code : 0xfffd
+      );
+      i += reference[0].length;
+      continue;
+    }
+
+    text += char;
+    i++;
+  }
+
+  flush();
+  return { spans, end: i, closed: false };
+}
+
+/** Find the next backtick run of exactly `length`, or -1 */
+function findBacktickRun(source: string, from: number, length: number): number {
+  let i = from;
+  while (i < source.length) {
+    if (source[i] !== '`') {
+      i++;
+      continue;
+    }
+    const run = source.substring(i).match(/^`+/)![0];
+    if (run.length === length) return i;
+    i += run.length;
+  }
+  return -1;
+}
+
+/** Read a `(destination)` immediately following a link label */
+function readLinkDestination(
+  source: string,
+  start: number
+): { value: string; end: number } | null {
+  if (source[start] !== '(') return null;
+  let value = '';
+
+  if (source[start + 1] === '<') {
+    for (let i = start + 2; i < source.length; i++) {
+      const char = source[i];
+      if (
+        char === '\\' &&
+        i + 1 < source.length &&
+        ASCII_PUNCTUATION.test(source[i + 1])
+      ) {
+        value += source[i + 1];
+        i++;
+      } else if (char === '>') {
+        return source[i + 1] === ')' ? { value, end: i + 2 } : null;
+      } else if (char === '\n') {
+        return null;
+      } else {
+        value += char;
+      }
+    }
+    return null;
+  }
+
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (
+      char === '\\' &&
+      i + 1 < source.length &&
+      ASCII_PUNCTUATION.test(source[i + 1])
+    ) {
+      value += source[i + 1];
+      i++;
+    } else if (char === ')') {
+      return { value, end: i + 1 };
+    } else if (char === '\n') {
+      return null;
+    } else {
+      value += char;
+    }
+  }
+  return null;
+}
+
+/** Create a span, omitting the attributes object when there are no marks */
+function makeSpan(insert: string, marks: Record<string, unknown>): InlineSpan {
+  return Object.keys(marks).length > 0
+    ? { insert, attributes: { ...marks } }
+    : { insert };
+}
+
+/** Resolve backslash escapes in plain text (image alt, src) */
+function unescapeText(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
 // TODO: QDoc migration — XmlElement/XmlText constructors not yet available in QDoc
 /** Convert a parsed block to an XmlElement */
 function blockToXmlElement(
   block: MarkdownBlock,
   generateId: () => string
 ): any {
-  // TODO: QDoc migration — replace with QDoc XmlElement equivalent when available
-  const element = { type: block.type, attributes: {} as Record<string, string>, children: [] as any[] } as any;
-  element.setAttribute = (k: string, v: string) => { element.attributes[k] = v; };
-  element.insert = (pos: number, items: any[]) => { element.children.splice(pos, 0, ...items); };
+  const element = createXmlElement(block.type);
   element.setAttribute('id', generateId());
-  element.setAttribute('embedding-id', generateId());
+  if (DOCUMENT_SCHEMA[block.type]?.attributes.includes('embedding-id')) {
+    element.setAttribute('embedding-id', generateId());
+  }
 
-  for (const [key, value] of Object.entries(block.attributes)) {
+  for (const [key, value] of Object.entries(block.values ?? block.attributes)) {
     element.setAttribute(key, value);
   }
 
-  if (block.content) {
-    // TODO: QDoc migration — replace with QDoc XmlText equivalent when available
-    const textNode = { content: block.content, toString: () => block.content };
-    element.insert(0, [textNode]);
+  if (block.delta.length > 0) {
+    element.insert(0, [createXmlText(block.delta)]);
+  }
+
+  for (const child of block.children ?? []) {
+    element.push([blockToXmlElement(child, generateId)]);
   }
 
   return element;
 }
 
+// TODO: QDoc migration — replace with QDoc XmlElement equivalent when available
+/** Minimal XmlElement stand-in exposing the read API used by the editor */
+function createXmlElement(nodeName: string): any {
+  const attributes: Record<string, string> = {};
+  const children: any[] = [];
+  return {
+    nodeName,
+    get length() {
+      return children.length;
+    },
+    get: (index: number) => children[index],
+    getAttribute: (key: string) => attributes[key],
+    getAttributes: () => ({ ...attributes }),
+    setAttribute: (key: string, value: string) => {
+      attributes[key] = value;
+    },
+    insert: (index: number, items: any[]) => {
+      children.splice(index, 0, ...items);
+    },
+    push: (items: any[]) => {
+      children.push(...items);
+    },
+    delete: (index: number, length = 1) => {
+      children.splice(index, length);
+    },
+    toArray: () => [...children],
+    toString: () => children.map((child) => child.toString()).join(''),
+  };
+}
+
+// TODO: QDoc migration — replace with QDoc XmlText equivalent when available
+/** Minimal XmlText stand-in holding a formatted delta */
+function createXmlText(delta: InlineSpan[]): any {
+  const spans = delta.map((span) => ({ ...span }));
+  return {
+    get length() {
+      return spans.reduce((sum, span) => sum + span.insert.length, 0);
+    },
+    toDelta: () => spans.map((span) => ({ ...span })),
+    toString: () => spans.map((span) => span.insert).join(''),
+  };
+}
+
 // ── Yjs → Markdown ──────────────────────────────────────────────────
 
 /**
  * Export an AeonDocument as a markdown string.
  */
 export function documentToMarkdown(doc: AeonDocument): string {
-  const blocks = doc.getAllBlocks();
-  return blocks.map(xmlElementToMarkdown).join('\n\n');
+  const blocks = doc.getAllBlocks().map(readElement);
+  return serializeMarkdownBlocks(blocks);
 }
 
-/** Convert an XmlElement back to markdown text */
-function xmlElementToMarkdown(element: any): string {
-  const type = element.nodeName;
-  const text = extractText(element);
+/** Serialize blocks, keeping consecutive list items in one tight list */
+function serializeMarkdownBlocks(blocks: MarkdownBlock[]): string {
+  const parts: string[] = [];
+  /** Content column of the most recent list item at each indent level */
+  let listColumns: number[] = [];
+  let previousType: string | null = null;
 
-  switch (type) {
-    case 'heading': {
-      const level = parseInt(element.getAttribute('level') || '1', 10);
-      const prefix = '#'.repeat(Math.min(level, 6));
-      return `${prefix} ${text}`;
+  for (const block of blocks) {
+    const isList = LIST_BLOCK_TYPES.has(block.type);
+    if (!isList || !LIST_BLOCK_TYPES.has(previousType ?? '')) {
+      listColumns = [];
     }
 
-    case 'paragraph':
-      return text;
+    let markdown: string;
+    if (isList) {
+      const indent = parseInt(block.attributes.indent || '0', 10);
+      const bullet = block.attributes['list-type'] === 'ordered' ? '1.' : '-';
+      const column = indent === 0 ? 0 : (listColumns[indent - 1] ?? 2 * indent);
+      const contentColumn = column + bullet.length + 1;
+      listColumns = listColumns.slice(0, indent);
+      listColumns[indent] = contentColumn;
+      const checkbox =
+        block.type === 'task-item'
+          ? `[${block.attributes.checked === 'true' ? 'x' : ' '}] `
+          : '';
+      // Hard breaks continue at the content column
+      const text = serializeInline(block.delta).replace(
+        /\n/g,
+        `\n${' '.repeat(contentColumn)}`
+      );
+      markdown = `${' '.repeat(column)}${bullet} ${checkbox}${text}`;
+    } else {
+      markdown = blockToMarkdown(block);
+    }
 
-    case 'list-item': {
-      const indent = parseInt(element.getAttribute('indent') || '0', 10);
-      const listType = element.getAttribute('list-type') || 'unordered';
-      const indentStr = '  '.repeat(indent);
-      const bullet = listType === 'ordered' ? '1.' : '-';
-      return `${indentStr}${bullet} ${text}`;
+    if (isList && previousType && LIST_BLOCK_TYPES.has(previousType)) {
+      parts[parts.length - 1] += `\n${markdown}`;
+    } else {
+      parts.push(markdown);
     }
+    previousType = block.type;
+  }
+
+  return parts.join('\n\n');
+}
+
+/** Convert a single non-list block back to markdown text */
+function blockToMarkdown(block: MarkdownBlock): string {
+  const { attributes } = block;
 
-    case 'task-item': {
-      const checked = element.getAttribute('checked') === 'true';
-      return `- [${checked ? 'x' : ' '}] ${text}`;
+  switch (block.type) {
+    case 'heading': {
+      const level = parseInt(attributes.level || '1', 10);
+      const prefix = '#'.repeat(Math.min(Math.max(level, 1), 6));
+      const text = serializeInline(block.delta, { singleLine: true });
+      // A trailing `#` would be read back as a closing sequence, and
+      // trailing space would be trimmed
+      const closing = text.endsWith('#') && !isEscaped(text, text.length - 1);
+      if (closing) return `${prefix} ${text.slice(0, -1)}\\#`;
+      return `${prefix} ${text.replace(/[ \t]$/, characterReference)}`;
     }
 
+    case 'paragraph':
+      return serializeInline(block.delta);
+
     case 'blockquote':
-      return text
-        .split('\n')
-        .map((line) => `> ${line}`)
-        .join('\n');
+      return prefixLines(serializeInline(block.delta), '> ');
+
+    case 'callout': {
+      const type = (attributes['callout-type'] || 'note').toUpperCase();
+      const icon = attributes.icon ? ` ${attributes.icon}` : '';
+      const body = (block.children ?? [])
+        .map((child) => prefixLines(serializeInline(child.delta), '> '))
+        .join('\n>\n');
+      return body ? `> [!${type}]${icon}\n${body}` : `> [!${type}]${icon}`;
+    }
 
     case 'code': {
-      const language = element.getAttribute('language') || '';
-      return `\`\`\`${language}\n${text}\n\`\`\``;
+      const language = attributes.language || '';
+      const code = plainText(block.delta);
+      const longestRun = Math.max(
+        2,
+        ...(code.match(/`+/g) ?? []).map((run) => run.length)
+      );
+      const fence = '`'.repeat(longestRun + 1);
+      return `${fence}${language}\n${code}\n${fence}`;
     }
 
+    case 'table':
+      return tableToMarkdown(block);
+
     case 'divider':
       return '---';
 
     case 'image': {
-      const src = element.getAttribute('src') || '';
-      const alt = element.getAttribute('alt') || '';
+      const src = escapeDestination(attributes.src || '');
+      const alt = escapeText(attributes.alt || '', false);
       return `![${alt}](${src})`;
     }
 
     case 'embed': {
-      const url = element.getAttribute('url') || '';
-      return `[embed](${url})`;
+      const {
+        id,
+        'embedding-id': _embeddingId,
+        ...rest
+      } = block.values ?? attributes;
+      return `<!-- EMBED ${escapeComment(JSON.stringify(rest))} -->`;
     }
 
     case 'esi': {
-      const tagName = element.getAttribute('tag-name') || 'ESI';
-      return `<!-- ESI:${tagName} -->`;
+      const tagName = attributes['tag-name'] || 'ESI';
+      const props =
+        attributes.props !== undefined
+          ? ` ${escapeComment(attributes.props)}`
+          : '';
+      return `<!-- ESI:${tagName}${props} -->`;
     }
 
     default:
-      return text;
+      return serializeInline(block.delta);
   }
 }
 
-/** Extract plain text from an XmlElement */
-function extractText(element: any): string {
-  const parts: string[] = [];
-  for (let i = 0; i < element.length; i++) {
-    const child = element.get(i);
-    // TODO: QDoc migration — instanceof checks need QDoc equivalents
-    if (child && typeof child === 'object' && 'toString' in child) {
-      if ('get' in child) {
-        // XmlElement-like: recurse
-        parts.push(extractText(child));
-      } else {
-        // XmlText-like: get string
-        parts.push(child.toString());
+/** Render a table block as a GFM table; the first row is the header */
+function tableToMarkdown(block: MarkdownBlock): string {
+  const rows = block.children ?? [];
+  const columns = Math.max(
+    parseInt(block.attributes.columns || '0', 10),
+    ...rows.map((row) => row.children?.length ?? 0)
+  );
+  const aligns = (block.attributes.align || '').split(',');
+
+  const renderRow = (row: MarkdownBlock) =>
+    `| ${(row.children ?? [])
+      .map((cell) =>
+        escapeTablePipes(serializeInline(cell.delta, { table: true }))
+      )
+      .join(' | ')} |`;
+
+  const delimiter = Array.from({ length: columns }, (_, column) => {
+    switch (aligns[column]) {
+      case 'left':
+        return ':---';
+      case 'center':
+        return ':---:';
+      case 'right':
+        return '---:';
+      default:
+        return '---';
+    }
+  });
+
+  const [header, ...body] = rows;
+  return [
+    header ? renderRow(header) : `|${' |'.repeat(columns)}`,
+    `| ${delimiter.join(' | ')} |`,
+    ...body.map(renderRow),
+  ].join('\n');
+}
+
+// ── Inline Serialization ────────────────────────────────────────────
+
+/** An open mark while serializing: its key, attrs and delimiters */
+interface OpenMark {
+  mark: InlineMark;
+  attrs: Record<string, unknown>;
+  open: string;
+  close: string;
+}
+
+/**
+ * Serialize formatted spans to inline markdown.
+ * Marks are opened and closed as a stack so overlapping ranges
+ * always produce properly nested delimiters.
+ */
+function serializeInline(
+  delta: InlineSpan[],
+  options: { singleLine?: boolean; table?: boolean } = {}
+): string {
+  const markdown = writeInline(delta, options, false);
+
+  // Touching `*` runs (`***`) can read back with different boundaries;
+  // re-parse and fall back to `<strong>`/`<em>` when they do
+  const expected = mergeSpans(
+    options.singleLine
+      ? delta.map((span) => ({
+          ...span,
+          insert: span.insert.replace(/\n/g, ' '),
+        }))
+      : delta
+  );
+  const actual = parseInline(markdown);
+  const roundTrips =
+    actual.length === expected.length &&
+    actual.every(
+      (span, i) =>
+        span.insert === expected[i].insert &&
+        sameMarks(span.attributes, expected[i].attributes)
+    );
+  return roundTrips ? markdown : writeInline(delta, options, true);
+}
+
+/** Write spans as inline markdown, optionally using HTML emphasis */
+function writeInline(
+  delta: InlineSpan[],
+  options: { singleLine?: boolean; table?: boolean },
+  htmlEmphasis: boolean
+): string {
+  const stack: OpenMark[] = [];
+  let output = '';
+  /** No text on the current line yet, only mark delimiters */
+  let lineStart = true;
+
+  const closeFrom = (index: number) => {
+    while (stack.length > index) {
+      output += stack.pop()!.close;
+    }
+  };
+
+  for (const span of mergeSpans(delta)) {
+    const wanted = marksOf(span.attributes, htmlEmphasis);
+
+    // Close everything above the first open mark that no longer applies
+    const stale = stack.findIndex(
+      (open) => !wanted.some((want) => sameOpenMark(open, want))
+    );
+    if (stale !== -1) closeFrom(stale);
+
+    for (const want of wanted) {
+      if (want.mark === 'code') continue;
+      if (stack.some((open) => sameOpenMark(open, want))) continue;
+      output += want.open;
+      stack.push(want);
+    }
+
+    const code = wanted.some((want) => want.mark === 'code');
+    let text = span.insert;
+    if (options.singleLine) text = text.replace(/\n/g, ' ');
+
+    if (code) {
+      output += codeSpan(text);
+      lineStart = false;
+    } else {
+      output += escapeText(text, lineStart, options.table);
+      lineStart = output.endsWith('\n');
+    }
+  }
+
+  closeFrom(0);
+  return output;
+}
+
+/** Expand span attributes into ordered mark descriptors */
+function marksOf(
+  attributes: Record<string, unknown> | undefined,
+  htmlEmphasis = false
+): OpenMark[] {
+  if (!attributes) return [];
+  const marks: OpenMark[] = [];
+
+  for (const mark of MARK_ORDER) {
+    if (!attributes[mark]) continue;
+
+    const attrs: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      if (key.startsWith(`${mark}-`)) attrs[key] = value;
+    }
+
+    if (mark === 'link') {
+      const href = escapeDestination(String(attrs['link-href'] ?? ''));
+      marks.push({ mark, attrs, open: '[', close: `](${href})` });
+    } else if (mark === 'entity-ref') {
+      const id = encodeAttribute(String(attrs['entity-ref-id'] ?? ''));
+      marks.push({
+        mark,
+        attrs,
+        open: `<span data-entity-ref="${id}">`,
+        close: '</span>',
+      });
+    } else if (mark === 'code') {
+      marks.push({ mark, attrs, open: '`', close: '`' });
+    } else {
+      const delimiters =
+        (htmlEmphasis && HTML_EMPHASIS.find((d) => d.mark === mark)) ||
+        DELIMITED_MARKS.find((d) => d.mark === mark)!;
+      marks.push({
+        mark,
+        attrs,
+        open: delimiters.open,
+        close: delimiters.close,
+      });
+    }
+  }
+
+  return marks;
+}
+
+/** Whether two open marks are the same mark with the same attributes */
+function sameOpenMark(a: OpenMark, b: OpenMark): boolean {
+  return a.mark === b.mark && sameMarks(a.attrs, b.attrs);
+}
+
+/** Wrap literal text in a backtick run longer than any run it contains */
+function codeSpan(text: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = '`'.repeat(longestRun + 1);
+  const padded =
+    text.startsWith('`') ||
+    text.endsWith('`') ||
+    (text.length > 1 &&
+      text.startsWith(' ') &&
+      text.endsWith(' ') &&
+      text.trim() !== '')
+      ? ` ${text} `
+      : text;
+  return `${fence}${padded}${fence}`;
+}
+
+/**
+ * Escape plain text so it reads back literally.
+ * Newlines become hard breaks (`\` + newline) or `<br>` inside tables,
+ * and block markers at the start of a line are neutralised. Leading
+ * whitespace, which would be trimmed or read as indentation, is
+ * written as a character reference.
+ */
+function escapeText(text: string, atLineStart: boolean, table = false): string {
+  let output = '';
+  let lineStart = atLineStart;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      output += table ? '<br>' : '\\\n';
+      lineStart = !table;
+      continue;
+    }
+
+    if (lineStart) {
+      if (char === ' ' || char === '\t') {
+        output += characterReference(char);
+        lineStart = false;
+        continue;
+      }
+      const rest = text.substring(i);
+      const ordered = rest.match(/^(\d{1,9})([.)])/);
+      if (ordered) {
+        output += `${ordered[1]}\\${ordered[2]}`;
+        i += ordered[0].length - 1;
+        lineStart = false;
+        continue;
+      }
+      if ('#+-=!'.includes(char)) {
+        output += `\\${char}`;
+        lineStart = false;
+        continue;
       }
     }
+
+    output += ESCAPED_CHARS.has(char) ? `\\${char}` : char;
+    lineStart = false;
+  }
+
+  return output;
+}
+
+/** A character as a numeric reference, e.g. `&#32;` for a space */
+function characterReference(char: string): string {
+  return `&#${char.codePointAt(0)};`;
+}
+
+/** Escape a link or image destination */
+function escapeDestination(href: string): string {
+  // Destinations with spaces need the `<…>` form
+  if (/\s/.test(href))
+    return `<${href.replace(/[\\<>]/g, (char) => `\\${char}`)}>`;
+  return href.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/** Escape pipes in a serialized table cell that the inline layer left bare */
+function escapeTablePipes(cell: string): string {
+  let output = '';
+  for (let i = 0; i < cell.length; i++) {
+    output += cell[i] === '|' && !isEscaped(cell, i) ? '\\|' : cell[i];
   }
-  return parts.join('');
+  return output;
+}
+
+/** Encode a value for a double-quoted HTML attribute */
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/** Decode a double-quoted HTML attribute value */
+function decodeAttribute(value: string): string {
+  return value.replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+/** Keep a payload from terminating its HTML comment or spanning lines */
+function escapeComment(payload: string): string {
+  return payload
+    .replace(/\\/g, '\\\\')
+    .replace(/-->/g, '--\\>')
+    .replace(/\n/g, '\\n');
+}
+
+/** Reverse `escapeComment` */
+function unescapeComment(payload: string): string {
+  return payload.replace(/\\(\\|>|n)/g, (_, char: string) =>
+    char === 'n' ? '\n' : char
+  );
+}
+
+/** Prefix every line of a block of text */
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join('\n');
+}
+
+/** Concatenate the text of a delta, ignoring marks */
+function plainText(delta: InlineSpan[]): string {
+  return delta.map((span) => span.insert).join('');
 }
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { diffBlocks, screenChanges } from './authorization';
+import { XPathEngine } from './xpath';
+import { SUGGESTION_INSERT } from './suggestions';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+type Run = { insert: string; attributes?: Record<string, unknown> };
+
+function makeText(...runs: Run[]) {
+  return { toDelta: () => runs };
+}
+
+function makeElement(
+  nodeName: string,
+  attributes: Record<string, string>,
+  children: any[] = []
+) {
+  return {
+    nodeName,
+    length: children.length,
+    get: (i: number) => children[i],
+    getAttribute: (key: string) => attributes[key],
+    getAttributes: () => ({ ...attributes }),
+  };
+}
+
+function makeTree(legalText: Run[], body = 'Hello') {
+  return makeElement('document', {}, [
+    makeElement('blockquote', { id: 'legal' }, [
+      makeElement('paragraph', { id: 'terms' }, [makeText(...legalText)]),
+    ]),
+    makeElement('paragraph', { id: 'body' }, [makeText({ insert: body })]),
+  ]) as any;
+}
+
+const mark = { id: 's1', authorDid: 'did:key:bob', createdAt: '' };
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('diffBlocks', () => {
+  const engine = new XPathEngine();
+
+  it('reports the nested block that changed, not its parent', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeTree([{ insert: 'New terms' }]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      {
+        kind: 'modified',
+        blockId: 'terms',
+        required: 'write',
+        address: { path: '/document/blockquote[0]/paragraph[0]' },
+      },
+    ]);
+  });
+
+  it('tells suggestions apart from edits', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeTree([
+      { insert: 'Terms' },
+      { insert: ' apply', attributes: { [SUGGESTION_INSERT]: mark } },
+    ]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      { kind: 'suggested', blockId: 'terms', required: 'suggest' },
+    ]);
+  });
+
+  it('checks inserts against the parent', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeElement('document', {}, [
+      ...[0, 1].map((i) => before.get(i)),
+      makeElement('paragraph', { id: 'new' }),
+    ]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      { kind: 'inserted', blockId: 'new', address: { path: '/document' } },
+    ]);
+  });
+
+  it('checks top-level blocks without an ID against the root', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeElement('document', {}, [
+      ...[0, 1].map((i) => before.get(i)),
+      makeElement('paragraph', {}, [makeText({ insert: 'Anonymous' })]),
+    ]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      { kind: 'modified', blockId: '', address: { path: '/document' } },
+    ]);
+  });
+
+  it('checks reordered blocks against their parent', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeElement('document', {}, [before.get(1), before.get(0)]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      { kind: 'moved', blockId: 'body', address: { path: '/document' } },
+    ]);
+  });
+
+  it('checks blocks moved out of a section against their new parent', () => {
+    const before = makeTree([{ insert: 'Terms' }]);
+    const after = makeElement('document', {}, [
+      makeElement('blockquote', { id: 'legal' }),
+      before.get(1),
+      before.get(0).get(0),
+    ]);
+    expect(diffBlocks(engine, before, after)).toMatchObject([
+      { kind: 'modified', blockId: 'legal', required: 'write' },
+      { kind: 'moved', blockId: 'terms', address: { path: '/document' } },
+    ]);
+  });
+});
+
+describe('screenChanges', () => {
+  it('holds a section lock against a document-wide grant', () => {
+    const engine = new XPathEngine();
+    engine.addPermission({
+      xpath: '/document',
+      subjectDid: '*',
+      permission: 'write',
+      ucanToken: 'ucan',
+    });
+    engine.addPermission({
+      xpath: "/document/blockquote[@id='legal']",
+      subjectDid: '*',
+      permission: 'suggest',
+      ucanToken: 'ucan',
+    });
+    const before = makeTree([{ insert: 'Terms' }]);
+
+    expect(
+      screenChanges(
+        engine,
+        before,
+        makeTree([{ insert: 'Terms' }], 'Hello world'),
+        'did:key:bob'
+      )
+    ).toEqual([]);
+    expect(
+      screenChanges(
+        engine,
+        before,
+        makeTree([
+          { insert: 'Terms' },
+          { insert: '!', attributes: { [SUGGESTION_INSERT]: mark } },
+        ]),
+        'did:key:bob'
+      )
+    ).toEqual([]);
+
+    const denied = screenChanges(
+      engine,
+      before,
+      makeTree([{ insert: 'No terms' }]),
+      'did:key:bob'
+    );
+    expect(denied).toMatchObject([
+      { blockId: 'terms', result: { allowed: false, permission: 'suggest' } },
+    ]);
+  });
+});
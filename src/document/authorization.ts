@@ -0,0 +1,316 @@
+/**
+ * Authorization — Screen document changes against XPath permissions
+ *
+ * Compares the block tree before and after a change, works out what
+ * the change writes to, and checks each write with an XPathEngine:
+ *   - a changed or removed block needs `write` on that block
+ *   - an inserted block needs `write` on its parent (the document
+ *     root for top-level blocks)
+ *   - a change that only adds, or rejects, suggestions in a block's
+ *     text needs `suggest` on the block
+ *   - a block that moved to another parent, or out of order among its
+ *     siblings, needs `write` on the parent it is now in, like an insert
+ *   - blocks without an ID count as content of the nearest block with
+ *     one, and top-level ones as content of the document root
+ *
+ * Nested blocks are compared by their own attributes and text, so a
+ * paragraph inside a locked blockquote is checked against the lock,
+ * and an edit in an unlocked paragraph is not blamed on its parent.
+ */
+
+import {
+  parentAddress,
+  ROOT_ADDRESS,
+  type PermissionCheckResult,
+  type PermissionLevel,
+  type XPathAddress,
+  type XPathEngine,
+} from './xpath';
+import { baseDelta, type SuggestibleText } from './suggestions';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type BlockChangeKind =
+  'inserted' | 'removed' | 'modified' | 'suggested' | 'moved';
+
+/** A write to one block */
+export interface BlockChange {
+  readonly kind: BlockChangeKind;
+  readonly blockId: string;
+  /** Where the permission is checked: the block, or its new parent */
+  readonly address: XPathAddress;
+  readonly required: PermissionLevel;
+}
+
+/** A write the author may not make */
+export interface DeniedChange extends BlockChange {
+  readonly result: PermissionCheckResult;
+}
+
+/** Content of one block, without the blocks nested in it */
+interface BlockContent {
+  readonly address: XPathAddress;
+  /** ID of the nearest enclosing block with one ('' = the root) */
+  readonly parent: string;
+  /** Attributes, text and nested block IDs */
+  readonly full: string;
+  /** The same, with suggestions rejected */
+  readonly base: string;
+}
+
+// ── Screening ───────────────────────────────────────────────────────
+
+/**
+ * Writes made by going from the `before` block tree to `after`,
+ * in document order: the root's own content first, then removals,
+ * changes and inserts, then moves.
+ */
+export function diffBlocks(
+  engine: XPathEngine,
+  before: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */,
+  after: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */
+): BlockChange[] {
+  const previous = readBlocks(engine, before);
+  const next = readBlocks(engine, after);
+  const changes: BlockChange[] = [];
+
+  // Top-level blocks without an ID are content of the root
+  const oldRoot = readRoot(before);
+  const newRoot = readRoot(after);
+  if (oldRoot.full !== newRoot.full) {
+    const suggested = oldRoot.base === newRoot.base;
+    changes.push({
+      kind: suggested ? 'suggested' : 'modified',
+      blockId: '',
+      address: ROOT_ADDRESS,
+      required: suggested ? 'suggest' : 'write',
+    });
+  }
+
+  for (const [blockId, block] of previous) {
+    if (!next.has(blockId)) {
+      changes.push({
+        kind: 'removed',
+        blockId,
+        address: block.address,
+        required: 'write',
+      });
+    }
+  }
+
+  for (const [blockId, block] of next) {
+    const old = previous.get(blockId);
+    if (!old) {
+      changes.push({
+        kind: 'inserted',
+        blockId,
+        address: parentAddress(block.address),
+        required: 'write',
+      });
+    } else if (old.full !== block.full) {
+      const suggested = old.base === block.base;
+      changes.push({
+        kind: suggested ? 'suggested' : 'modified',
+        blockId,
+        address: old.address,
+        required: suggested ? 'suggest' : 'write',
+      });
+    }
+  }
+
+  for (const blockId of movedBlocks(previous, next)) {
+    changes.push({
+      kind: 'moved',
+      blockId,
+      address: parentAddress(next.get(blockId)!.address),
+      required: 'write',
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * The changes from `before` to `after` that `authorDid` may not make.
+ */
+export function screenChanges(
+  engine: XPathEngine,
+  before: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */,
+  after: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */,
+  authorDid: string
+): DeniedChange[] {
+  return checkChanges(engine, diffBlocks(engine, before, after), authorDid);
+}
+
+/** The changes in `changes` that `authorDid` may not make */
+export function checkChanges(
+  engine: XPathEngine,
+  changes: BlockChange[],
+  authorDid: string
+): DeniedChange[] {
+  const denied: DeniedChange[] = [];
+  for (const change of changes) {
+    const result = engine.checkPermission(
+      change.address,
+      authorDid,
+      change.required
+    );
+    if (!result.allowed) denied.push({ ...change, result });
+  }
+  return denied;
+}
+
+/**
+ * Spend capability uses for changes that were allowed and applied:
+ * each change counts as one use of the grant that allowed it.
+ */
+export function spendChanges(
+  engine: XPathEngine,
+  changes: BlockChange[],
+  authorDid: string
+): void {
+  for (const change of changes) {
+    engine.spendCapability(change.address, authorDid, change.required);
+  }
+}
+
+// ── Reading ─────────────────────────────────────────────────────────
+
+/** Blocks with an ID, by ID, in document order */
+function readBlocks(
+  engine: XPathEngine,
+  fragment: any
+): Map<string, BlockContent> {
+  const addresses = new Map(
+    engine.computeAllAddresses(fragment).map((a) => [a.blockId, a])
+  );
+  const blocks = new Map<string, BlockContent>();
+
+  const visit = (parent: any, parentId: string) => {
+    for (let i = 0; i < parent.length; i++) {
+      const element = parent.get(i);
+      if (!isElement(element)) continue;
+      const address = addresses.get(element.getAttribute('id') ?? '');
+      if (address && !blocks.has(address.blockId)) {
+        blocks.set(address.blockId, {
+          address,
+          parent: parentId,
+          full: contentOf(element, false),
+          base: contentOf(element, true),
+        });
+      }
+      visit(element, address?.blockId ?? parentId);
+    }
+  };
+  visit(fragment, '');
+
+  return blocks;
+}
+
+/** The root's own content: its top-level children without an ID */
+function readRoot(fragment: any): BlockContent {
+  const content = (base: boolean) =>
+    JSON.stringify(
+      Array.from({ length: fragment.length }, (_, i) => fragment.get(i))
+        .filter((child) => !isElement(child) || !child.getAttribute('id'))
+        .map((child) => childContent(child, base))
+    );
+  return {
+    address: ROOT_ADDRESS,
+    parent: '',
+    full: content(false),
+    base: content(true),
+  };
+}
+
+/**
+ * Blocks in both trees that changed parent, or fell out of the longest
+ * run of siblings that kept their relative order.
+ */
+function movedBlocks(
+  previous: Map<string, BlockContent>,
+  next: Map<string, BlockContent>
+): string[] {
+  const moved: string[] = [];
+  const siblings = (blocks: Map<string, BlockContent>) => {
+    const byParent = new Map<string, string[]>();
+    for (const [blockId, block] of blocks) {
+      const other = blocks === next ? previous.get(blockId) : next.get(blockId);
+      if (!other || other.parent !== block.parent) continue;
+      byParent.set(block.parent, [
+        ...(byParent.get(block.parent) ?? []),
+        blockId,
+      ]);
+    }
+    return byParent;
+  };
+
+  const before = siblings(previous);
+  for (const [parent, order] of siblings(next)) {
+    const oldIndex = new Map(before.get(parent)!.map((id, i) => [id, i]));
+    const stable = longestIncreasingRun(order.map((id) => oldIndex.get(id)!));
+    moved.push(...order.filter((_, i) => !stable.has(i)));
+  }
+  for (const [blockId, block] of next) {
+    const old = previous.get(blockId);
+    if (old && old.parent !== block.parent) moved.push(blockId);
+  }
+  return moved;
+}
+
+/** Indices of a longest strictly increasing subsequence (patience sort) */
+function longestIncreasingRun(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const run = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    run.add(i);
+  }
+  return run;
+}
+
+/** Serialized attributes and text; nested blocks appear by ID only */
+function contentOf(element: any, base: boolean): string {
+  const attributes = element.getAttributes() as Record<string, unknown>;
+  const content: unknown[] = [];
+  for (let i = 0; i < element.length; i++) {
+    content.push(childContent(element.get(i), base));
+  }
+  return JSON.stringify([
+    element.nodeName,
+    Object.keys(attributes)
+      .sort()
+      .map((key) => [key, attributes[key]]),
+    content,
+  ]);
+}
+
+/** One child in `contentOf`: nested blocks by ID, the rest in full */
+function childContent(child: any, base: boolean): unknown {
+  if (isElement(child)) {
+    const id = child.getAttribute('id');
+    return id ? { block: id } : contentOf(child, base);
+  }
+  if (child && typeof child.toDelta === 'function') {
+    return base ? baseDelta(child as SuggestibleText) : child.toDelta();
+  }
+  return String(child);
+}
+
+function isElement(node: any): boolean {
+  // TODO: QDoc migration — instanceof checks need QDoc equivalents
+  return !!node && typeof node === 'object' && 'nodeName' in node;
+}
@@ -0,0 +1,400 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+import { AeonDocument, type DocumentEvent } from './document';
+import { MigrationRegistry } from './schema';
+import { XPathEngine } from './xpath';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** A collaborator's copy of `doc`, edited by `edit` */
+function remoteUpdate(
+  doc: AeonDocument,
+  edit: (fragment: Y.XmlFragment, remote: Y.Doc) => void
+): Uint8Array {
+  const remote = new Y.Doc();
+  Y.applyUpdate(remote, doc.getState());
+  remote.transact(() => edit(remote.getXmlFragment('document'), remote));
+  return Y.encodeStateAsUpdate(remote, doc.getStateVector());
+}
+
+function block(
+  type: string,
+  attributes: Record<string, string>,
+  text = ''
+): Y.XmlElement {
+  const element = new Y.XmlElement(type);
+  for (const [key, value] of Object.entries(attributes)) {
+    element.setAttribute(key, value);
+  }
+  if (text) element.insert(0, [new Y.XmlText(text)]);
+  return element;
+}
+
+function violationsOf(events: DocumentEvent[]) {
+  return events.flatMap((e) =>
+    e.type === 'schema-violation' ? e.violations : []
+  );
+}
+
+function record(doc: AeonDocument): DocumentEvent[] {
+  const events: DocumentEvent[] = [];
+  doc.onChange((e) => events.push(e));
+  return events;
+}
+
+const valid = { id: 'p1', 'embedding-id': 'e1' };
+
+// ── insertBlock ─────────────────────────────────────────────────────
+
+describe('AeonDocument insertBlock', () => {
+  it('rejects unknown block types', () => {
+    const doc = new AeonDocument('doc-1');
+    expect(() => doc.insertBlock('marquee', 0, valid)).toThrow(
+      'Unknown block type: marquee'
+    );
+    expect(doc.blockCount).toBe(0);
+  });
+
+  it('rejects blocks that violate the schema before inserting them', () => {
+    const doc = new AeonDocument('doc-1');
+    const events = record(doc);
+    expect(() => doc.insertBlock('heading', 0, valid)).toThrow(
+      'Schema violation: "heading" requires attribute "level"'
+    );
+    expect(events).toMatchObject([
+      {
+        type: 'schema-violation',
+        origin: 'local',
+        violations: [{ code: 'missing-attribute', detail: 'level' }],
+      },
+    ]);
+    expect(doc.blockCount).toBe(0);
+  });
+});
+
+// ── applyUpdate ─────────────────────────────────────────────────────
+
+describe('AeonDocument applyUpdate', () => {
+  it('applies invalid updates with a warning by default', () => {
+    const doc = new AeonDocument('doc-1');
+    const events = record(doc);
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(0, [block('paragraph', { id: 'p1' }, 'Hi')])
+      )
+    );
+
+    expect(doc.blockCount).toBe(1);
+    expect(violationsOf(events)).toMatchObject([
+      { code: 'missing-attribute', blockId: 'p1', detail: 'embedding-id' },
+    ]);
+  });
+
+  it('validates only the blocks an update touches', () => {
+    const doc = new AeonDocument('doc-1');
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(0, [
+          block('paragraph', { id: 'bad' }, 'Broken'),
+          block('paragraph', { id: 'p2', 'embedding-id': 'e2' }, 'Fine'),
+        ])
+      )
+    );
+    const events = record(doc);
+
+    // A text edit leaves every block's shape alone
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) => {
+        const text = (fragment.get(0) as Y.XmlElement).get(0) as Y.XmlText;
+        text.insert(0, 'Still ');
+      })
+    );
+    // The existing violation in "bad" is not reported again
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) => {
+        (fragment.get(1) as Y.XmlElement).setAttribute('color', 'red');
+      })
+    );
+
+    expect(doc.getBlockText(0)).toContain('Still Broken');
+    expect(violationsOf(events)).toMatchObject([
+      { code: 'unknown-attribute', blockId: 'p2', detail: 'color' },
+    ]);
+  });
+
+  it('rejects invalid updates in strict mode without applying them', () => {
+    const doc = new AeonDocument('doc-1', undefined, { schemaMode: 'strict' });
+    const events = record(doc);
+    const update = remoteUpdate(doc, (fragment) =>
+      fragment.insert(0, [block('marquee', { id: 'm1' })])
+    );
+
+    expect(() => doc.applyUpdate(update)).toThrow(
+      'Rejected remote update: Unknown block type: marquee'
+    );
+    expect(doc.blockCount).toBe(0);
+    expect(violationsOf(events)).toMatchObject([{ code: 'unknown-type' }]);
+
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(0, [block('paragraph', valid, 'Hi')])
+      )
+    );
+    expect(doc.blockCount).toBe(1);
+  });
+
+  it('dry-runs validation without applying', () => {
+    const doc = new AeonDocument('doc-1');
+    const update = remoteUpdate(doc, (fragment) =>
+      fragment.insert(0, [block('divider', { id: 'd1', level: '2' })])
+    );
+    expect(doc.validateUpdate(update)).toMatchObject([
+      { code: 'unknown-attribute', detail: 'level' },
+    ]);
+    expect(doc.blockCount).toBe(0);
+  });
+});
+
+// ── Authorization ───────────────────────────────────────────────────
+
+describe('AeonDocument authorization', () => {
+  /** A document where bob may write only the paragraph "p1" */
+  function guarded() {
+    const engine = new XPathEngine();
+    engine.addPermission({
+      xpath: "/document/*[@id='p1']",
+      subjectDid: 'did:key:bob',
+      permission: 'write',
+      ucanToken: 'ucan',
+    });
+    const doc = new AeonDocument('doc-1', undefined, {
+      authorization: { engine },
+    });
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(0, [block('paragraph', valid, 'Hi')])
+      )
+    );
+    return doc;
+  }
+
+  it("screens an update against its author's permissions", () => {
+    const doc = guarded();
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) => {
+        const text = (fragment.get(0) as Y.XmlElement).get(0) as Y.XmlText;
+        text.insert(2, ' there');
+      }),
+      'did:key:bob'
+    );
+    expect(doc.getBlockText(0)).toContain('Hi there');
+    const events = record(doc);
+
+    const update = remoteUpdate(doc, (fragment) =>
+      fragment.insert(1, [block('paragraph', {}, 'No ID')])
+    );
+    expect(() => doc.applyUpdate(update, 'did:key:bob')).toThrow(
+      'Rejected remote update from did:key:bob: cannot write /document'
+    );
+    expect(doc.blockCount).toBe(1);
+    expect(events).toMatchObject([
+      {
+        type: 'authorization-denied',
+        denied: [{ kind: 'modified', blockId: '' }],
+      },
+    ]);
+  });
+
+  it('checks moved blocks against the parent they move into', () => {
+    const doc = guarded();
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(1, [
+          block('paragraph', { id: 'p2', 'embedding-id': 'e2' }, 'Two'),
+        ])
+      )
+    );
+
+    const update = remoteUpdate(doc, (fragment) => {
+      const first = (fragment.get(0) as Y.XmlElement).clone();
+      fragment.delete(0, 1);
+      fragment.insert(1, [first]);
+    });
+    expect(doc.screenUpdate(update, 'did:key:bob')).toMatchObject([
+      { kind: 'moved', address: { path: '/document' } },
+    ]);
+  });
+
+  it('spends a capability use for each accepted change', () => {
+    const engine = new XPathEngine();
+    let uses = 1;
+    engine.useCapabilities(
+      {
+        getEffectiveCapability: () => (uses > 0 ? 'edit' : 'read'),
+        useCapability: () => uses-- > 0,
+      },
+      'doc-1'
+    );
+    const doc = new AeonDocument('doc-1', undefined, {
+      authorization: { engine },
+    });
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(0, [block('paragraph', valid, 'Hi')])
+      )
+    );
+    const edit = () =>
+      remoteUpdate(doc, (fragment) => {
+        const text = (fragment.get(0) as Y.XmlElement).get(0) as Y.XmlText;
+        text.insert(0, '!');
+      });
+
+    expect(doc.screenUpdate(edit(), 'did:key:carol')).toEqual([]);
+    doc.applyUpdate(edit(), 'did:key:carol');
+    expect(uses).toBe(0);
+    expect(() => doc.applyUpdate(edit(), 'did:key:carol')).toThrow(
+      'Rejected remote update from did:key:carol'
+    );
+  });
+
+  it('applies updates without an author unscreened', () => {
+    const doc = guarded();
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) =>
+        fragment.insert(1, [block('paragraph', {}, 'Relayed')])
+      )
+    );
+    expect(doc.blockCount).toBe(2);
+  });
+});
+
+// ── replaceBlockText ────────────────────────────────────────────────
+
+describe('AeonDocument replaceBlockText', () => {
+  /** A document with "Hello bold world" ("bold" in bold), and "Next" */
+  function seeded() {
+    const doc = new AeonDocument('doc-1');
+    doc.applyUpdate(
+      remoteUpdate(doc, (fragment) => {
+        const first = block('paragraph', valid);
+        const text = new Y.XmlText();
+        first.insert(0, [text]);
+        fragment.insert(0, [
+          first,
+          block('paragraph', { id: 'p2', 'embedding-id': 'e2' }, 'Next'),
+        ]);
+        text.insert(0, 'Hello bold world');
+        text.format(6, 4, { bold: true });
+      })
+    );
+    return doc;
+  }
+
+  const deltaOf = (doc: AeonDocument, position: number) =>
+    (doc.getBlock(position).get(0) as Y.XmlText).toDelta();
+
+  it('keeps the marks outside the replaced range', () => {
+    const doc = seeded();
+    doc.replaceBlockText(0, 11, 16, 'there');
+    expect(deltaOf(doc, 0)).toEqual([
+      { insert: 'Hello ' },
+      { insert: 'bold', attributes: { bold: true } },
+      { insert: ' there' },
+    ]);
+  });
+
+  it('merges with concurrent edits to the same block', () => {
+    const doc = seeded();
+    const concurrent = remoteUpdate(doc, (fragment) => {
+      const text = (fragment.get(0) as Y.XmlElement).get(0) as Y.XmlText;
+      text.insert(0, 'Oh, ');
+    });
+    doc.replaceBlockText(0, 11, 16, 'there');
+    doc.applyUpdate(concurrent);
+    expect(
+      deltaOf(doc, 0)
+        .map((run) => run.insert)
+        .join('')
+    ).toBe('Oh, Hello bold there');
+  });
+
+  it('undoes a replace and a join together in one step', () => {
+    const doc = seeded();
+    // Tracks local edits, like the document's own undo manager
+    const undoManager = new Y.UndoManager(doc.fragment as Y.XmlFragment, {
+      trackedOrigins: new Set(['local']),
+    });
+    doc.ydoc.transact(() => {
+      doc.replaceBlockText(0, 6, 16, 'Next');
+      doc.removeBlock(1);
+    }, 'local');
+    expect(doc.blockCount).toBe(1);
+
+    undoManager.undo();
+    expect(undoManager.undoStack).toHaveLength(0);
+    expect(doc.blockCount).toBe(2);
+    expect(deltaOf(doc, 0)).toEqual([
+      { insert: 'Hello ' },
+      { insert: 'bold', attributes: { bold: true } },
+      { insert: ' world' },
+    ]);
+  });
+});
+
+// ── Migrations ──────────────────────────────────────────────────────
+
+describe('AeonDocument migrations', () => {
+  function registry() {
+    return new MigrationRegistry(2).register({
+      from: 1,
+      to: 2,
+      migrate: (doc) => {
+        doc.meta.set('upgraded', true);
+      },
+    });
+  }
+
+  it('migrates documents at an older version on construction', () => {
+    const doc = new AeonDocument('doc-1', undefined, {
+      migrations: registry(),
+    });
+    expect(doc.schemaVersion).toBe(2);
+    expect(doc.meta.get('upgraded')).toBe(true);
+    expect(doc.migrate().applied).toEqual([]);
+  });
+
+  it('reports the migration of a document loaded at an older version', () => {
+    const ydoc = new Y.Doc();
+    ydoc.getMap('meta').set('schema-version', 0);
+    const migrations = new MigrationRegistry(1).register({
+      from: 0,
+      to: 1,
+      migrate: () => undefined,
+    });
+
+    const events: DocumentEvent[] = [];
+    const doc = new AeonDocument('doc-1', ydoc, {
+      migrations,
+      onChange: (event) => events.push(event),
+    });
+    expect(events).toEqual([{ type: 'schema-migrated', from: 0, to: 1 }]);
+    expect(doc.schemaVersion).toBe(1);
+  });
+
+  it('migrates again after remote state from an older client', () => {
+    const doc = new AeonDocument('doc-1', undefined, {
+      migrations: registry(),
+    });
+    doc.applyUpdate(
+      remoteUpdate(doc, (_fragment, remote) => {
+        remote.getMap('meta').set('schema-version', 1);
+      })
+    );
+    expect(doc.migrations.needsMigration(doc)).toBe(true);
+
+    const events = record(doc);
+    expect(doc.migrate()).toMatchObject({ from: 1, to: 2 });
+    expect(events).toEqual([{ type: 'schema-migrated', from: 1, to: 2 }]);
+    expect(doc.schemaVersion).toBe(2);
+  });
+});
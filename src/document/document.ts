@@ -10,6 +10,34 @@
  */
 
 import { QDoc, QMap, QArray, QText } from '@affectively/gnosis';
+import {
+  SchemaValidator,
+  MigrationRegistry,
+  getSchemaVersion,
+  type SchemaViolation,
+  type MigrationResult,
+} from './schema';
+import { COMMENTS_MAP } from '../collaboration/comments';
+import {
+  readSuggestions,
+  recordSuggestion,
+  proposedText,
+  resolveSuggestions,
+  matchesSuggestionFilter,
+  SUGGESTION_INSERT,
+  type Suggestion,
+  type BlockSuggestionFilter,
+  type SuggestibleText,
+} from './suggestions';
+import { ROOT_ADDRESS, type XPathAddress, type XPathEngine } from './xpath';
+import {
+  checkChanges,
+  diffBlocks,
+  screenChanges,
+  spendChanges,
+  type BlockChange,
+  type DeniedChange,
+} from './authorization';
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -43,15 +71,83 @@ export type InlineMark =
 /** Document change event */
 export type DocumentEvent =
   | { type: 'block-inserted'; blockId: string; position: number }
-  | { type: 'block-removed'; blockId: string }
+  | { type: 'block-removed'; blockId: string; origin: 'local' | 'remote' }
   | { type: 'block-updated'; blockId: string }
-  | { type: 'text-changed'; blockId: string; text: string }
+  | {
+      type: 'text-changed';
+      blockId: string;
+      text: string;
+      origin: 'local' | 'remote';
+    }
   | { type: 'attribute-changed'; blockId: string; key: string; value: unknown }
   | { type: 'undo' }
-  | { type: 'redo' };
+  | { type: 'redo' }
+  | {
+      type: 'schema-violation';
+      origin: 'local' | 'remote';
+      violations: SchemaViolation[];
+    }
+  | { type: 'schema-migrated'; from: number; to: number }
+  | {
+      type: 'authorization-denied';
+      origin: 'local' | 'remote';
+      authorDid: string;
+      denied: DeniedChange[];
+      /** Set when the remote update was quarantined */
+      quarantineId?: string;
+    };
 
 export type DocumentListener = (event: DocumentEvent) => void;
 
+/**
+ * How schema violations in remote updates are handled. Only the
+ * blocks an update touches are validated.
+ * - `warn`: the update is applied and a `schema-violation` event is emitted
+ * - `strict`: the update is staged first, and rejected (throws) and
+ *   never applied if it has violations
+ */
+export type SchemaMode = 'strict' | 'warn';
+
+/** Write permissions for a document */
+export interface DocumentAuthorization {
+  /** Permission bindings, and capabilities where none match */
+  readonly engine: XPathEngine;
+  /** DID local edits are made as; local edits are unchecked without one */
+  readonly localDid?: string;
+  /**
+   * Remote updates with changes their author may not make are
+   * rejected (throws) or quarantined for review (default: 'reject')
+   */
+  readonly mode?: 'reject' | 'quarantine';
+}
+
+/** A remote update held back for changes its author may not make */
+export interface QuarantinedUpdate {
+  readonly id: string;
+  readonly update: Uint8Array;
+  readonly authorDid: string;
+  readonly denied: DeniedChange[];
+  /** ISO-8601 timestamp */
+  readonly receivedAt: string;
+}
+
+/** AeonDocument configuration */
+export interface AeonDocumentOptions {
+  /** Handling of schema violations in remote updates (default: 'warn') */
+  schemaMode?: SchemaMode;
+  /** Migrations to run when a document with an older schema is loaded */
+  migrations?: MigrationRegistry;
+  /** ID generator for suggestions (default: random UUID) */
+  generateId?: () => string;
+  /** Write permissions checked on local edits and remote updates */
+  authorization?: DocumentAuthorization;
+  /**
+   * Listener attached before the constructor emits anything, so it
+   * sees the automatic migration of a document loaded at an older version
+   */
+  onChange?: DocumentListener;
+}
+
 // ── Schema ──────────────────────────────────────────────────────────
 
 /**
@@ -82,25 +178,20 @@ export const DOCUMENT_SCHEMA: Record<string, BlockSchema> = {
   code: {
     type: 'code',
     children: [],
-    attributes: ['id', 'embedding-id', 'language', 'line-numbers'],
+    attributes: ['id', 'embedding-id', 'language'],
+    optionalAttributes: ['line-numbers'],
   },
   embed: {
     type: 'embed',
     children: [],
-    attributes: [
-      'id',
-      'embedding-id',
-      'url',
-      'provider',
-      'html',
-      'width',
-      'height',
-    ],
+    attributes: ['id', 'embedding-id', 'url'],
+    optionalAttributes: ['provider', 'html', 'width', 'height'],
   },
   image: {
     type: 'image',
     children: [],
-    attributes: ['id', 'embedding-id', 'src', 'alt', 'width', 'height'],
+    attributes: ['id', 'embedding-id', 'src'],
+    optionalAttributes: ['alt', 'width', 'height'],
   },
   divider: {
     type: 'divider',
@@ -111,6 +202,7 @@ export const DOCUMENT_SCHEMA: Record<string, BlockSchema> = {
     type: 'table',
     children: ['table-row'],
     attributes: ['id', 'embedding-id', 'columns'],
+    optionalAttributes: ['align'],
   },
   'table-row': {
     type: 'table-row',
@@ -125,17 +217,20 @@ export const DOCUMENT_SCHEMA: Record<string, BlockSchema> = {
   callout: {
     type: 'callout',
     children: ['paragraph'],
-    attributes: ['id', 'embedding-id', 'callout-type', 'icon'],
+    attributes: ['id', 'embedding-id', 'callout-type'],
+    optionalAttributes: ['icon'],
   },
   esi: {
     type: 'esi',
     children: [],
-    attributes: ['id', 'embedding-id', 'tag-name', 'props'],
+    attributes: ['id', 'embedding-id', 'tag-name'],
+    optionalAttributes: ['props'],
   },
   'task-item': {
     type: 'task-item',
     children: [],
-    attributes: ['id', 'embedding-id', 'checked', 'fractal-todo-id'],
+    attributes: ['id', 'embedding-id', 'checked'],
+    optionalAttributes: ['indent', 'fractal-todo-id'],
   },
 };
 
@@ -154,20 +249,49 @@ export class AeonDocument {
   /** Document metadata map */
   readonly meta: QMap<unknown>;
 
+  /** Comments and suggested edits, shared by all collaborators */
+  readonly comments: QMap<unknown>;
+
   /** Undo manager for local undo/redo */
   readonly undoManager: any /* TODO: QDoc migration — UndoManager not yet supported */;
 
   /** Document ID */
   readonly id: string;
 
+  /** Validates blocks against DOCUMENT_SCHEMA */
+  readonly validator: SchemaValidator = new SchemaValidator(DOCUMENT_SCHEMA);
+
+  /** Schema migrations for documents loaded at an older version */
+  readonly migrations: MigrationRegistry;
+
+  /** Handling of schema violations in remote updates */
+  private schemaMode: SchemaMode;
+
+  /** Author of recorded suggestions while suggestion mode is on */
+  private suggestingAs: string | null = null;
+
+  private generateId: () => string;
+
+  private authorization: DocumentAuthorization | null;
+
+  /** Remote updates held back by authorization, oldest first */
+  private quarantine: QuarantinedUpdate[] = [];
+
   /** Event listeners */
   private listeners: Set<DocumentListener> = new Set();
 
-  constructor(id: string, ydoc?: QDoc) {
+  constructor(id: string, ydoc?: QDoc, options: AeonDocumentOptions = {}) {
     this.id = id;
+    this.schemaMode = options.schemaMode ?? 'warn';
+    this.generateId = options.generateId ?? (() => crypto.randomUUID());
+    this.authorization = options.authorization ?? null;
+    if (options.onChange) this.listeners.add(options.onChange);
+    this.migrations =
+      options.migrations ?? new MigrationRegistry(SCHEMA_VERSION);
     this.ydoc = ydoc || new QDoc();
     this.fragment = this.ydoc.getXmlFragment('document');
     this.meta = this.ydoc.getMap('meta');
+    this.comments = this.ydoc.getMap(COMMENTS_MAP);
 
     // Initialize metadata
     if (!this.meta.has('schema-version')) {
@@ -176,8 +300,8 @@ export class AeonDocument {
       this.meta.set('document-id', id);
     }
 
-    // Set up undo manager for all XmlFragment operations
-    this.undoManager = new (Object as any)(this.fragment, {
+    // Set up undo manager for all XmlFragment and comment operations
+    this.undoManager = new (Object as any)([this.fragment, this.comments], {
       trackedOrigins: new Set([null, 'local']),
     });
 
@@ -187,6 +311,11 @@ export class AeonDocument {
         this.handleYjsEvent(event);
       }
     });
+
+    // Upgrade documents loaded at an older schema version
+    if (this.migrations.needsMigration(this)) {
+      this.migrate();
+    }
   }
 
   // ── Block Operations ──────────────────────────────────────────
@@ -202,10 +331,19 @@ export class AeonDocument {
     text?: string
   ): any /* TODO: QDoc migration — XmlElement not yet in QDoc */ {
     // Validate against schema
-    const schema = DOCUMENT_SCHEMA[blockType];
-    if (!schema) {
+    if (!DOCUMENT_SCHEMA[blockType]) {
       throw new Error(`Unknown block type: ${blockType}`);
     }
+    const violations = this.validator.validateBlock({
+      type: blockType,
+      attributes,
+    });
+    if (violations.length > 0) {
+      this.emit({ type: 'schema-violation', origin: 'local', violations });
+      throw new Error(
+        `Schema violation: ${violations.map((v) => v.message).join('; ')}`
+      );
+    }
 
     const element = new (Object as any)(blockType);
 
@@ -220,6 +358,8 @@ export class AeonDocument {
       element.insert(0, [textNode]);
     }
 
+    this.authorizeLocal('inserted', attributes.id ?? '', ROOT_ADDRESS, 'write');
+
     // Insert into fragment
     this.ydoc.transact(() => {
       this.fragment.insert(position, [element]);
@@ -230,6 +370,9 @@ export class AeonDocument {
 
   /** Remove a block by its position */
   removeBlock(position: number): void {
+    const block = this.getBlock(position);
+    if (block) this.authorizeBlock('removed', block, 'write');
+
     this.ydoc.transact(() => {
       this.fragment.delete(position, 1);
     }, 'local');
@@ -239,6 +382,12 @@ export class AeonDocument {
   moveBlock(fromPosition: number, toPosition: number): void {
     const element = this.fragment.get(fromPosition);
     if (!(element instanceof Object)) return;
+    this.authorizeLocal(
+      'modified',
+      element.getAttribute('id') ?? '',
+      ROOT_ADDRESS,
+      'write'
+    );
 
     this.ydoc.transact(() => {
       // Clone attributes and content
@@ -299,11 +448,19 @@ export class AeonDocument {
    * Update the text content of a block.
    * This triggers a CRDT update that syncs to all collaborators
    * and kicks off the embedding pipeline.
+   *
+   * In suggestion mode the change is recorded as suggestions against
+   * the proposed text instead, and the suggestion ID is returned.
    */
-  updateBlockText(position: number, newText: string): void {
+  updateBlockText(position: number, newText: string): string | void {
     const block = this.getBlock(position);
     if (!block) return;
 
+    if (this.suggestingAs) {
+      return this.suggestBlockText(block, newText, this.suggestingAs);
+    }
+    this.authorizeBlock('modified', block, 'write');
+
     this.ydoc.transact(() => {
       // Clear existing text nodes
       while (block.length > 0) {
@@ -315,6 +472,44 @@ export class AeonDocument {
     }, 'local');
   }
 
+  /**
+   * Replace the characters from `start` to `end` in a block's text,
+   * leaving the rest of the text, its marks and concurrent edits to it
+   * alone. Inserted text takes the marks of the text before it.
+   *
+   * In suggestion mode the change is recorded as a suggestion against
+   * the proposed text instead, and the suggestion ID is returned.
+   */
+  replaceBlockText(
+    position: number,
+    start: number,
+    end: number,
+    text: string
+  ): string | void {
+    const block = this.getBlock(position);
+    if (!block) return;
+
+    if (this.suggestingAs) {
+      const current = block.length > 0 ? proposedText(block.get(0)) : '';
+      return this.suggestBlockText(
+        block,
+        current.slice(0, start) + text + current.slice(end),
+        this.suggestingAs
+      );
+    }
+    this.authorizeBlock('modified', block, 'write');
+
+    this.ydoc.transact(() => {
+      if (block.length === 0) {
+        block.insert(0, [new (Object as any)(text)]);
+        return;
+      }
+      const textNode = block.get(0);
+      if (end > start) textNode.delete(start, end - start);
+      if (text) textNode.insert(start, text);
+    }, 'local');
+  }
+
   /**
    * Apply an inline mark to a range within a block.
    */
@@ -330,6 +525,7 @@ export class AeonDocument {
 
     const textNode = block.get(0);
     if (!(textNode instanceof Object)) return;
+    this.authorizeBlock('modified', block, 'write');
 
     this.ydoc.transact(() => {
       const markAttrs: Record<string, unknown> = { [mark]: true };
@@ -356,12 +552,84 @@ export class AeonDocument {
 
     const textNode = block.get(0);
     if (!(textNode instanceof Object)) return;
+    this.authorizeBlock('modified', block, 'write');
 
     this.ydoc.transact(() => {
       textNode.format(start, end - start, { [mark]: null });
     }, 'local');
   }
 
+  // ── Suggestions ───────────────────────────────────────────────
+
+  /**
+   * Turn suggestion mode on (recording edits as `authorDid`) or off.
+   * The mode is local; suggestions themselves sync like any text.
+   */
+  setSuggestionMode(authorDid: string | null): void {
+    this.suggestingAs = authorDid;
+  }
+
+  /** Whether text edits are recorded as suggestions */
+  get isSuggesting(): boolean {
+    return this.suggestingAs !== null;
+  }
+
+  /**
+   * Record a change to a block's text as a suggestion by `authorDid`,
+   * whatever the current mode. Returns the suggestion ID.
+   */
+  suggestBlockText(
+    block: any /* TODO: QDoc migration — XmlElement not yet in QDoc */,
+    newText: string,
+    authorDid: string,
+    id: string = this.generateId()
+  ): string {
+    this.authorizeBlock('suggested', block, 'suggest');
+    const mark = { id, authorDid, createdAt: new Date().toISOString() };
+    this.ydoc.transact(() => {
+      if (block.length === 0) {
+        const textNode = new (Object as any)();
+        block.insert(0, [textNode]);
+        textNode.insert(0, newText, { [SUGGESTION_INSERT]: mark });
+        return;
+      }
+      recordSuggestion(block.get(0), newText, mark);
+    }, 'local');
+    return id;
+  }
+
+  /** Pending suggestions, in document order */
+  getSuggestions(filter: BlockSuggestionFilter = {}): Suggestion[] {
+    return this.suggestionTargets(filter.blockId).flatMap(({ id, text }) =>
+      readSuggestions(text, id).filter((s) =>
+        matchesSuggestionFilter(s, filter)
+      )
+    );
+  }
+
+  /** Apply a suggestion to the text. Returns false if it is not pending. */
+  acceptSuggestion(id: string): boolean {
+    return this.acceptSuggestions({ id }) > 0;
+  }
+
+  /** Discard a suggestion, restoring the text it changed */
+  rejectSuggestion(id: string): boolean {
+    return this.rejectSuggestions({ id }) > 0;
+  }
+
+  /**
+   * Accept every suggestion matching the filter, e.g. all by one
+   * author or all in one block. Returns the number accepted.
+   */
+  acceptSuggestions(filter: BlockSuggestionFilter = {}): number {
+    return this.resolveSuggestions(true, filter);
+  }
+
+  /** Reject every suggestion matching the filter */
+  rejectSuggestions(filter: BlockSuggestionFilter = {}): number {
+    return this.resolveSuggestions(false, filter);
+  }
+
   // ── Undo/Redo ─────────────────────────────────────────────────
 
   /** Undo the last local operation */
@@ -376,6 +644,14 @@ export class AeonDocument {
     this.emit({ type: 'redo' });
   }
 
+  /**
+   * End the current undo step: local changes made from here on undo
+   * separately instead of merging with the ones just made.
+   */
+  checkpoint(): void {
+    this.undoManager.stopCapturing();
+  }
+
   /** Whether undo is available */
   get canUndo(): boolean {
     return this.undoManager.undoStack.length > 0;
@@ -393,11 +669,166 @@ export class AeonDocument {
     return this.ydoc.encodeStateAsUpdate();
   }
 
-  /** Apply a state update from another collaborator */
-  applyUpdate(update: Uint8Array): void {
+  /**
+   * Apply a state update from another collaborator.
+   * The blocks the update touches are validated against the schema;
+   * violations are reported with a `schema-violation` event, and in
+   * `strict` mode the update is rejected before it is applied.
+   *
+   * Local edits are checked against `localDid` before they are made,
+   * so each client only sends what its own author may write. With
+   * authorization configured and an `authorDid`, the changes are also
+   * checked against what that author may write ('' = anonymous), and
+   * an update with any change the author may not make is rejected or
+   * quarantined as a whole; once applied, each change spends a use of
+   * the capability that allowed it. Only pass `authorDid` for an update
+   * that comes straight from that author: updates relayed from other
+   * peers carry other authors' changes and were checked where they
+   * were made.
+   */
+  applyUpdate(update: Uint8Array, authorDid?: string): void {
+    const author = authorDid ?? '';
+    const screen = authorDid !== undefined && this.authorization;
+    if (!screen && this.schemaMode !== 'strict') {
+      this.applyValidatedUpdate(update);
+      return;
+    }
+
+    // Stage once for both checks
+    const { changes, violations } = this.stage(update, (staged, touched) => ({
+      changes: screen ? diffBlocks(screen.engine, this.fragment, staged) : [],
+      violations: this.validator.validateElements(touched),
+    }));
+    const denied = screen ? checkChanges(screen.engine, changes, author) : [];
+    if (denied.length > 0) {
+      const quarantined =
+        this.authorization?.mode === 'quarantine'
+          ? this.quarantineUpdate(update, author, denied)
+          : undefined;
+      this.emit({
+        type: 'authorization-denied',
+        origin: 'remote',
+        authorDid: author,
+        denied,
+        quarantineId: quarantined?.id,
+      });
+      if (quarantined) return;
+      throw new Error(
+        `Rejected remote update from ${author || 'anonymous author'}: ` +
+          `cannot write ${denied.map((d) => d.address.path).join(', ')}`
+      );
+    }
+    this.applyStagedUpdate(update, violations);
+    if (screen) spendChanges(screen.engine, changes, author);
+  }
+
+  /**
+   * Check a remote update against what `authorDid` may write, without
+   * applying it. Returns the changes the author may not make.
+   */
+  screenUpdate(update: Uint8Array, authorDid = ''): DeniedChange[] {
+    const authorization = this.authorization;
+    if (!authorization) return [];
+    return this.stage(update, (staged) =>
+      screenChanges(authorization.engine, this.fragment, staged, authorDid)
+    );
+  }
+
+  /** Remote updates held back by authorization, oldest first */
+  getQuarantinedUpdates(): QuarantinedUpdate[] {
+    return [...this.quarantine];
+  }
+
+  /**
+   * Apply a quarantined update after review, despite its author's
+   * permissions. Schema validation still applies.
+   */
+  releaseQuarantinedUpdate(id: string): boolean {
+    const entry = this.quarantine.find((q) => q.id === id);
+    if (!entry) return false;
+    this.applyValidatedUpdate(entry.update);
+    this.quarantine = this.quarantine.filter((q) => q !== entry);
+    return true;
+  }
+
+  /** Drop a quarantined update without applying it */
+  discardQuarantinedUpdate(id: string): boolean {
+    const count = this.quarantine.length;
+    this.quarantine = this.quarantine.filter((q) => q.id !== id);
+    return this.quarantine.length < count;
+  }
+
+  /** Apply a remote update, subject to schema validation only */
+  private applyValidatedUpdate(update: Uint8Array): void {
+    if (this.schemaMode === 'strict') {
+      this.applyStagedUpdate(update, this.validateUpdate(update));
+      return;
+    }
+
+    const touched = collectTouchedBlocks(this.fragment, () =>
+      this.ydoc.applyUpdate(update)
+    );
+    const violations = this.validator.validateElements(touched);
+    if (violations.length > 0) {
+      this.emit({ type: 'schema-violation', origin: 'remote', violations });
+    }
+  }
+
+  /**
+   * Apply a remote update whose schema violations were found by
+   * staging it: in `strict` mode any violation rejects it.
+   */
+  private applyStagedUpdate(
+    update: Uint8Array,
+    violations: SchemaViolation[]
+  ): void {
+    if (violations.length > 0) {
+      this.emit({ type: 'schema-violation', origin: 'remote', violations });
+      if (this.schemaMode === 'strict') {
+        throw new Error(
+          `Rejected remote update: ${violations.map((v) => v.message).join('; ')}`
+        );
+      }
+    }
     this.ydoc.applyUpdate(update);
   }
 
+  /**
+   * Validate a remote update without applying it.
+   * Returns the violations in the blocks the update touches.
+   */
+  validateUpdate(update: Uint8Array): SchemaViolation[] {
+    return this.stage(update, (_fragment, touched) =>
+      this.validator.validateElements(touched)
+    );
+  }
+
+  /** Validate the whole document against the schema */
+  validate(): SchemaViolation[] {
+    return this.validator.validateFragment(this.fragment);
+  }
+
+  // ── Migrations ────────────────────────────────────────────────
+
+  /** The schema version recorded in the document metadata */
+  get schemaVersion(): number {
+    return getSchemaVersion(this);
+  }
+
+  /**
+   * Upgrade the document to SCHEMA_VERSION in a single transaction.
+   * Runs automatically on construction when a migration is pending
+   * (observe it with the `onChange` option); call again after loading
+   * remote state from an older client.
+   */
+  migrate(): MigrationResult {
+    const result = this.migrations.migrate(this);
+    if (result.applied.length > 0) {
+      this.emit({ type: 'schema-migrated', from: result.from, to: result.to });
+    }
+    return result;
+  }
+
   /** Get the state vector (for delta sync) */
   getStateVector(): Uint8Array {
     return this.ydoc.encodeStateVector();
@@ -432,7 +863,138 @@ export class AeonDocument {
 
   // ── Private ───────────────────────────────────────────────────
 
+  /**
+   * Inspect the document as it would be with `update` applied, along
+   * with the staged blocks the update touches
+   */
+  private stage<T>(
+    update: Uint8Array,
+    inspect: (fragment: any, touched: any[]) => T
+  ): T {
+    const staging = new QDoc();
+    try {
+      staging.applyUpdate(this.getState());
+      const fragment = staging.getXmlFragment('document');
+      const touched = collectTouchedBlocks(fragment, () =>
+        staging.applyUpdate(update)
+      );
+      return inspect(fragment, touched);
+    } finally {
+      staging.destroy();
+    }
+  }
+
+  private quarantineUpdate(
+    update: Uint8Array,
+    authorDid: string,
+    denied: DeniedChange[]
+  ): QuarantinedUpdate {
+    const entry: QuarantinedUpdate = {
+      id: this.generateId(),
+      update,
+      authorDid,
+      denied,
+      receivedAt: new Date().toISOString(),
+    };
+    this.quarantine.push(entry);
+    return entry;
+  }
+
+  /** Check a local write to `block` (a block element) */
+  private authorizeBlock(
+    kind: BlockChange['kind'],
+    block: any /* TODO: QDoc migration — XmlElement not yet in QDoc */,
+    required: BlockChange['required']
+  ): void {
+    if (!this.authorization?.localDid) return;
+    const blockId = block.getAttribute('id') ?? '';
+    const address = this.authorization.engine.computeAddress(
+      this.fragment,
+      blockId
+    );
+    this.authorizeLocal(kind, blockId, address ?? ROOT_ADDRESS, required);
+  }
+
+  /**
+   * Check a local write as the local DID; emits an
+   * `authorization-denied` event and throws if it is not allowed, and
+   * spends a use of the capability that allowed it otherwise.
+   */
+  private authorizeLocal(
+    kind: BlockChange['kind'],
+    blockId: string,
+    address: XPathAddress,
+    required: BlockChange['required']
+  ): void {
+    const authorization = this.authorization;
+    if (!authorization?.localDid) return;
+    const changes = [{ kind, blockId, address, required }];
+    const denied = checkChanges(
+      authorization.engine,
+      changes,
+      authorization.localDid
+    );
+    if (denied.length === 0) {
+      spendChanges(authorization.engine, changes, authorization.localDid);
+      return;
+    }
+
+    this.emit({
+      type: 'authorization-denied',
+      origin: 'local',
+      authorDid: authorization.localDid,
+      denied,
+    });
+    throw new Error(`Permission denied: cannot ${required} ${address.path}`);
+  }
+
+  /** Text nodes of the blocks suggestions may live in */
+  private suggestionTargets(
+    blockId?: string
+  ): Array<{ id: string; text: SuggestibleText }> {
+    const blocks =
+      blockId === undefined
+        ? this.getAllBlocks()
+        : [this.getBlockById(blockId)].filter(Boolean);
+    return blocks
+      .filter(
+        (block) =>
+          block.length > 0 && typeof block.get(0).toDelta === 'function'
+      )
+      .map((block) => ({
+        id: block.getAttribute('id') ?? '',
+        text: block.get(0),
+      }));
+  }
+
+  private resolveSuggestions(
+    accept: boolean,
+    filter: BlockSuggestionFilter
+  ): number {
+    const ids = new Set<string>();
+    for (const { id, text } of this.suggestionTargets(filter.blockId)) {
+      const matching = readSuggestions(text, id).some((s) =>
+        matchesSuggestionFilter(s, filter)
+      );
+      if (matching) {
+        // Rejecting leaves the base text as it was
+        this.authorizeBlock(
+          accept ? 'modified' : 'suggested',
+          this.getBlockById(id),
+          accept ? 'write' : 'suggest'
+        );
+      }
+    }
+    this.ydoc.transact(() => {
+      for (const { text } of this.suggestionTargets(filter.blockId)) {
+        for (const id of resolveSuggestions(text, accept, filter)) ids.add(id);
+      }
+    }, 'local');
+    return ids.size;
+  }
+
   private handleYjsEvent(event: any /* TODO: QDoc migration — YEvent/AbstractType not yet in QDoc */): void {
+    const origin = event.transaction?.local === false ? 'remote' : 'local';
     if (event instanceof Object) {
       // Block-level changes
       for (const change of event.changes.added) {
@@ -456,7 +1018,7 @@ export class AeonDocument {
           if (type instanceof Object) {
             const id = type.getAttribute('id');
             if (id) {
-              this.emit({ type: 'block-removed', blockId: id });
+              this.emit({ type: 'block-removed', blockId: id, origin });
             }
           }
         }
@@ -471,6 +1033,7 @@ export class AeonDocument {
             type: 'text-changed',
             blockId: id,
             text: parent.toString(),
+            origin,
           });
         }
       }
@@ -483,3 +1046,38 @@ export class AeonDocument {
     }
   }
 }
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Run `apply` and collect the top-level blocks of `fragment` whose
+ * structure it changed: inserted blocks, and blocks with attribute or
+ * child changes anywhere below them. Text edits don't change a
+ * block's shape and are left out, as are removed blocks.
+ */
+function collectTouchedBlocks(fragment: any, apply: () => void): any[] {
+  const touched = new Set<any>();
+  const observer = (events: any[]) => {
+    for (const event of events) {
+      if (event.target === fragment) {
+        for (const item of event.changes.added) {
+          if (item.content?.type) touched.add(item.content.type);
+        }
+      } else if ('nodeName' in event.target) {
+        let block = event.target;
+        while (block.parent && block.parent !== fragment) block = block.parent;
+        touched.add(block);
+      }
+    }
+  };
+
+  fragment.observeDeep(observer);
+  try {
+    apply();
+  } finally {
+    fragment.unobserveDeep(observer);
+  }
+  return [...touched].filter(
+    (block) => block.parent === fragment && !block._item?.deleted
+  );
+}
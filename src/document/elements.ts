@@ -0,0 +1,105 @@
+/**
+ * Elements — Reading blocks out of the CRDT tree
+ *
+ * Turns XmlElements into plain block descriptions (type, attributes,
+ * inline spans, nested blocks). Shared by Markdown export and the
+ * publishing renderers, and free of any CRDT runtime dependency so
+ * it can read elements from whichever document holds them.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * A run of text with uniform formatting — the same shape as a
+ * Yjs XmlText delta op. Marks are stored as `{ [mark]: true }`
+ * plus `${mark}-${attr}` keys, mirroring `AeonDocument.applyMark`.
+ */
+export interface InlineSpan {
+  insert: string;
+  attributes?: Record<string, unknown>;
+}
+
+/** A block read out of the tree */
+export interface ElementBlock {
+  type: string;
+  delta: InlineSpan[];
+  attributes: Record<string, string>;
+  /** Attribute values as stored, where they may not be strings (embeds) */
+  values?: Record<string, unknown>;
+  children?: ElementBlock[];
+}
+
+// ── Reading ─────────────────────────────────────────────────────────
+
+/**
+ * Read an XmlElement into a block: text children become spans, element
+ * children nested blocks.
+ */
+export function readElement(element: any): ElementBlock {
+  const values: Record<string, unknown> =
+    typeof element.getAttributes === 'function' ? element.getAttributes() : {};
+  const attributes = stringifyAttributes(values);
+
+  const delta: InlineSpan[] = [];
+  const children: ElementBlock[] = [];
+  for (let i = 0; i < element.length; i++) {
+    const child = element.get(i);
+    // TODO: QDoc migration — instanceof checks need QDoc equivalents
+    if (!child || typeof child !== 'object') continue;
+    if (typeof child.toDelta === 'function') {
+      delta.push(...child.toDelta());
+    } else if ('nodeName' in child) {
+      children.push(readElement(child));
+    } else if ('toString' in child) {
+      delta.push({ insert: child.toString() });
+    }
+  }
+
+  const block: ElementBlock = {
+    type: element.nodeName,
+    delta: mergeSpans(delta),
+    attributes,
+    values,
+  };
+  if (children.length > 0) block.children = children;
+  return block;
+}
+
+/** String form of attribute values, as `readElement` reads them */
+export function stringifyAttributes(
+  values: Record<string, unknown>
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null) attributes[key] = String(value);
+  }
+  return attributes;
+}
+
+// ── Spans ───────────────────────────────────────────────────────────
+
+/** Merge adjacent spans that carry identical marks and drop empty ones */
+export function mergeSpans(spans: InlineSpan[]): InlineSpan[] {
+  const merged: InlineSpan[] = [];
+  for (const span of spans) {
+    if (!span.insert) continue;
+    const last = merged[merged.length - 1];
+    if (last && sameMarks(last.attributes, span.attributes)) {
+      last.insert += span.insert;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+  return merged;
+}
+
+/** Whether two mark attribute sets are equal */
+export function sameMarks(
+  a: Record<string, unknown> | undefined,
+  b: Record<string, unknown> | undefined
+): boolean {
+  const aKeys = Object.keys(a ?? {});
+  const bKeys = Object.keys(b ?? {});
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => a![key] === b?.[key]);
+}
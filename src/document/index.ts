@@ -9,14 +9,68 @@ export {
   type InlineMark,
   type DocumentEvent,
   type DocumentListener,
+  type SchemaMode,
+  type AeonDocumentOptions,
+  type DocumentAuthorization,
+  type QuarantinedUpdate,
 } from './document';
 
+export {
+  SchemaValidator,
+  MigrationRegistry,
+  MIGRATION_ORIGIN,
+  getSchemaVersion,
+  violationKey,
+  type SchemaViolation,
+  type SchemaViolationCode,
+  type BlockShape,
+  type SchemaMigration,
+  type MigrationResult,
+} from './schema';
+
 export {
   XPathEngine,
+  ROOT_ADDRESS,
+  parentAddress,
+  permissionForCapability,
+  capabilityForPermission,
   type XPathAddress,
+  type XPathStep,
   type XPathPermission,
   type PermissionLevel,
   type PermissionCheckResult,
+  type CapabilitySource,
 } from './xpath';
 
-export { markdownToDocument, documentToMarkdown } from './MarkdownIO';
+export {
+  diffBlocks,
+  screenChanges,
+  checkChanges,
+  spendChanges,
+  type BlockChange,
+  type BlockChangeKind,
+  type DeniedChange,
+} from './authorization';
+
+export {
+  markdownToDocument,
+  documentToMarkdown,
+  type InlineSpan,
+} from './MarkdownIO';
+
+export {
+  readSuggestions,
+  recordSuggestion,
+  resolveSuggestions,
+  proposedText,
+  baseText,
+  baseDelta,
+  SUGGESTION_INSERT,
+  SUGGESTION_DELETE,
+  type Suggestion,
+  type SuggestionKind,
+  type SuggestionMark,
+  type SuggestionFilter,
+  type BlockSuggestionFilter,
+  type SuggestibleText,
+} from './suggestions';
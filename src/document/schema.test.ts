@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SchemaValidator,
+  MigrationRegistry,
+  MIGRATION_ORIGIN,
+  violationKey,
+} from './schema';
+import type { AeonDocument, BlockSchema } from './document';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const SCHEMA: Record<string, BlockSchema> = {
+  paragraph: { type: 'paragraph', children: ['mention'], attributes: ['id'] },
+  heading: {
+    type: 'heading',
+    children: [],
+    attributes: ['id', 'level'],
+    optionalAttributes: ['anchor'],
+  },
+  table: { type: 'table', children: ['table-row'], attributes: ['id'] },
+  'table-row': { type: 'table-row', children: [], attributes: ['id'] },
+  mention: {
+    type: 'mention',
+    children: ['table'],
+    attributes: ['id'],
+    inline: true,
+  },
+};
+
+function makeElement(
+  nodeName: string,
+  attributes: Record<string, string>,
+  children: any[] = []
+) {
+  return {
+    nodeName,
+    length: children.length,
+    get: (i: number) => children[i],
+    getAttributes: () => ({ ...attributes }),
+  };
+}
+
+function makeDoc(version?: number) {
+  const meta = new Map<string, unknown>();
+  if (version !== undefined) meta.set('schema-version', version);
+  const transact = vi.fn((fn: () => void, _origin?: unknown) => fn());
+  return {
+    doc: { meta, ydoc: { transact } } as unknown as AeonDocument,
+    meta,
+    transact,
+  };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('SchemaValidator', () => {
+  const validator = new SchemaValidator(SCHEMA);
+
+  it('accepts a valid block', () => {
+    expect(
+      validator.validateBlock({
+        type: 'heading',
+        attributes: { id: 'h1', level: '2', anchor: 'intro' },
+      })
+    ).toEqual([]);
+  });
+
+  it('rejects unknown block types', () => {
+    const [violation] = validator.validateBlock({
+      type: 'marquee',
+      attributes: { id: 'x' },
+    });
+    expect(violation.code).toBe('unknown-type');
+  });
+
+  it('reports missing and unknown attributes', () => {
+    const violations = validator.validateBlock({
+      type: 'heading',
+      attributes: { id: 'h1', colour: 'red' },
+    });
+    expect(violations.map((v) => [v.code, v.detail])).toEqual([
+      ['missing-attribute', 'level'],
+      ['unknown-attribute', 'colour'],
+    ]);
+  });
+
+  it('rejects children the parent does not allow', () => {
+    const violations = validator.validateBlock({
+      type: 'table',
+      attributes: { id: 't' },
+      children: [{ type: 'heading', attributes: { id: 'h', level: '1' } }],
+    });
+    expect(violations).toHaveLength(1);
+    expect(violations[0].code).toBe('invalid-child');
+    expect(violations[0].parentType).toBe('table');
+  });
+
+  it('enforces inline-ness', () => {
+    expect(
+      validator.validateBlock({ type: 'mention', attributes: { id: 'm' } })[0]
+        .code
+    ).toBe('inline-at-root');
+
+    const nested = validator.validateBlock({
+      type: 'paragraph',
+      attributes: { id: 'p' },
+      children: [
+        {
+          type: 'mention',
+          attributes: { id: 'm' },
+          children: [{ type: 'table', attributes: { id: 't' } }],
+        },
+      ],
+    });
+    expect(nested.map((v) => v.code)).toEqual(['block-in-inline']);
+  });
+
+  it('validates an XmlFragment-like tree and skips text nodes', () => {
+    const fragment = makeElement('document', {}, [
+      makeElement('table', { id: 't' }, [
+        makeElement('table-row', {}),
+        { toString: () => 'text' },
+      ]),
+    ]);
+    const violations = validator.validateFragment(fragment);
+    expect(violations.map(violationKey)).toEqual([
+      'missing-attribute||table-row|table|id',
+    ]);
+  });
+});
+
+describe('MigrationRegistry', () => {
+  it('plans a chain of migrations to the target version', () => {
+    const registry = new MigrationRegistry(3)
+      .register({ from: 1, to: 2, migrate: () => {} })
+      .register({ from: 2, to: 3, migrate: () => {} });
+    expect(registry.plan(1).map((m) => m.to)).toEqual([2, 3]);
+    expect(registry.plan(3)).toEqual([]);
+  });
+
+  it('rejects backwards and duplicate migrations', () => {
+    const registry = new MigrationRegistry(2);
+    expect(() =>
+      registry.register({ from: 2, to: 1, migrate: () => {} })
+    ).toThrow(/forward/);
+    registry.register({ from: 1, to: 2, migrate: () => {} });
+    expect(() =>
+      registry.register({ from: 1, to: 2, migrate: () => {} })
+    ).toThrow(/already registered/);
+  });
+
+  it('throws on gaps and on documents newer than the target', () => {
+    const registry = new MigrationRegistry(3).register({
+      from: 2,
+      to: 3,
+      migrate: () => {},
+    });
+    expect(() => registry.plan(1)).toThrow(/No migration registered/);
+    expect(() => registry.plan(4)).toThrow(/newer than supported/);
+  });
+
+  it('runs every step and the version bump in one transaction', () => {
+    const order: number[] = [];
+    const registry = new MigrationRegistry(3)
+      .register({ from: 1, to: 2, migrate: () => order.push(2) })
+      .register({ from: 2, to: 3, migrate: () => order.push(3) });
+    const { doc, meta, transact } = makeDoc(1);
+
+    const result = registry.migrate(doc);
+
+    expect(order).toEqual([2, 3]);
+    expect(transact).toHaveBeenCalledTimes(1);
+    expect(transact.mock.calls[0][1]).toBe(MIGRATION_ORIGIN);
+    expect(meta.get('schema-version')).toBe(3);
+    expect(result).toMatchObject({ from: 1, to: 3 });
+    expect(result.applied).toHaveLength(2);
+  });
+
+  it('treats documents without a version as version 1', () => {
+    const registry = new MigrationRegistry(2).register({
+      from: 1,
+      to: 2,
+      migrate: () => {},
+    });
+    const { doc } = makeDoc();
+    expect(registry.needsMigration(doc)).toBe(true);
+    expect(registry.migrate(doc).from).toBe(1);
+  });
+
+  it('does nothing when already current', () => {
+    const { doc, transact } = makeDoc(2);
+    const result = new MigrationRegistry(2).migrate(doc);
+    expect(result.applied).toEqual([]);
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
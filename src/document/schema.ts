@@ -0,0 +1,308 @@
+/**
+ * Schema — Validation and versioned migrations for the CRDT tree
+ *
+ * The validator checks block types, attributes, allowed children
+ * and inline-ness against a `BlockSchema` table. The migration
+ * registry upgrades documents whose `schema-version` (in the
+ * `meta` map) is older than the version this build understands.
+ */
+
+import type { AeonDocument, BlockSchema } from './document';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Kinds of schema violation */
+export type SchemaViolationCode =
+  | 'unknown-type'
+  | 'missing-attribute'
+  | 'unknown-attribute'
+  | 'invalid-child'
+  | 'inline-at-root'
+  | 'block-in-inline';
+
+/** A single schema violation found in the tree */
+export interface SchemaViolation {
+  readonly code: SchemaViolationCode;
+  /** Block type the violation was found on */
+  readonly blockType: string;
+  /** Block ID, if the element carries one */
+  readonly blockId?: string;
+  /** Parent block type (undefined at the document root) */
+  readonly parentType?: string;
+  /** Offending attribute or child type */
+  readonly detail?: string;
+  /** Human-readable message */
+  readonly message: string;
+}
+
+/** A block description to validate before it enters the tree */
+export interface BlockShape {
+  readonly type: string;
+  readonly attributes: Record<string, unknown>;
+  readonly children?: BlockShape[];
+}
+
+/** A single upgrade step between two schema versions */
+export interface SchemaMigration {
+  /** Version the document must be at */
+  readonly from: number;
+  /** Version the document is at afterwards */
+  readonly to: number;
+  /** What the migration changes */
+  readonly description?: string;
+  /** Rewrite the document in place (runs inside the migration transaction) */
+  migrate(doc: AeonDocument): void;
+}
+
+/** Outcome of a migration run */
+export interface MigrationResult {
+  /** Version before migrating */
+  readonly from: number;
+  /** Version after migrating */
+  readonly to: number;
+  /** Migrations that ran, in order */
+  readonly applied: SchemaMigration[];
+}
+
+/** Transaction origin used for migrations (excluded from undo) */
+export const MIGRATION_ORIGIN = 'schema-migration';
+
+// ── Schema Validator ────────────────────────────────────────────────
+
+export class SchemaValidator {
+  private schema: Record<string, BlockSchema>;
+
+  constructor(schema: Record<string, BlockSchema>) {
+    this.schema = schema;
+  }
+
+  /**
+   * Validate a block description.
+   * `parentType` is undefined for blocks at the document root.
+   */
+  validateBlock(block: BlockShape, parentType?: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const blockId =
+      typeof block.attributes.id === 'string' ? block.attributes.id : undefined;
+    const base = { blockType: block.type, blockId, parentType };
+
+    const schema = this.schema[block.type];
+    if (!schema) {
+      violations.push({
+        ...base,
+        code: 'unknown-type',
+        message: `Unknown block type: ${block.type}`,
+      });
+      return violations;
+    }
+
+    // Placement: allowed children and inline-ness
+    if (parentType === undefined) {
+      if (schema.inline) {
+        violations.push({
+          ...base,
+          code: 'inline-at-root',
+          message: `Inline block "${block.type}" cannot appear at the document root`,
+        });
+      }
+    } else {
+      const parent = this.schema[parentType];
+      if (parent && !parent.children.includes(block.type)) {
+        violations.push({
+          ...base,
+          code: 'invalid-child',
+          detail: block.type,
+          message: `"${parentType}" cannot contain "${block.type}"`,
+        });
+      }
+      if (parent?.inline && !schema.inline) {
+        violations.push({
+          ...base,
+          code: 'block-in-inline',
+          detail: block.type,
+          message: `Inline "${parentType}" cannot contain block "${block.type}"`,
+        });
+      }
+    }
+
+    // Attributes
+    for (const name of schema.attributes) {
+      const value = block.attributes[name];
+      if (value === undefined || value === null) {
+        violations.push({
+          ...base,
+          code: 'missing-attribute',
+          detail: name,
+          message: `"${block.type}" requires attribute "${name}"`,
+        });
+      }
+    }
+    const optional = schema.optionalAttributes ?? [];
+    for (const name of Object.keys(block.attributes)) {
+      if (!schema.attributes.includes(name) && !optional.includes(name)) {
+        violations.push({
+          ...base,
+          code: 'unknown-attribute',
+          detail: name,
+          message: `"${block.type}" does not allow attribute "${name}"`,
+        });
+      }
+    }
+
+    for (const child of block.children ?? []) {
+      violations.push(...this.validateBlock(child, block.type));
+    }
+
+    return violations;
+  }
+
+  /**
+   * Validate every block in a fragment (or any XmlElement-like parent).
+   */
+  validateFragment(
+    fragment: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */
+  ): SchemaViolation[] {
+    const elements: any[] = [];
+    for (let i = 0; i < fragment.length; i++) elements.push(fragment.get(i));
+    return this.validateElements(elements);
+  }
+
+  /**
+   * Validate top-level XmlElements (and their children), e.g. only
+   * the blocks a remote update touched.
+   */
+  validateElements(elements: any[]): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    for (const element of elements) {
+      const shape = elementToShape(element);
+      if (shape) violations.push(...this.validateBlock(shape));
+    }
+    return violations;
+  }
+}
+
+/** Read an XmlElement into a `BlockShape`; text nodes yield null */
+function elementToShape(element: any): BlockShape | null {
+  // TODO: QDoc migration — instanceof checks need QDoc equivalents
+  if (!element || typeof element !== 'object' || !('nodeName' in element)) {
+    return null;
+  }
+
+  const children: BlockShape[] = [];
+  for (let i = 0; i < element.length; i++) {
+    const child = elementToShape(element.get(i));
+    if (child) children.push(child);
+  }
+
+  return {
+    type: element.nodeName,
+    attributes: element.getAttributes(),
+    children,
+  };
+}
+
+/** Stable key for comparing violations before and after a change */
+export function violationKey(violation: SchemaViolation): string {
+  return [
+    violation.code,
+    violation.blockId ?? '',
+    violation.blockType,
+    violation.parentType ?? '',
+    violation.detail ?? '',
+  ].join('|');
+}
+
+// ── Migrations ──────────────────────────────────────────────────────
+
+export class MigrationRegistry {
+  /** Migrations keyed by the version they upgrade from */
+  private migrations: Map<number, SchemaMigration> = new Map();
+
+  /** The version documents are upgraded to */
+  readonly targetVersion: number;
+
+  constructor(targetVersion: number) {
+    this.targetVersion = targetVersion;
+  }
+
+  /** Register a migration step */
+  register(migration: SchemaMigration): this {
+    if (migration.to <= migration.from) {
+      throw new Error(
+        `Migration must move forward: ${migration.from} → ${migration.to}`
+      );
+    }
+    if (this.migrations.has(migration.from)) {
+      throw new Error(
+        `Migration from version ${migration.from} already registered`
+      );
+    }
+    this.migrations.set(migration.from, migration);
+    return this;
+  }
+
+  /** The chain of migrations needed to reach the target version */
+  plan(fromVersion: number): SchemaMigration[] {
+    if (fromVersion > this.targetVersion) {
+      throw new Error(
+        `Document schema version ${fromVersion} is newer than supported version ${this.targetVersion}`
+      );
+    }
+
+    const steps: SchemaMigration[] = [];
+    let version = fromVersion;
+    while (version < this.targetVersion) {
+      const step = this.migrations.get(version);
+      if (!step) {
+        throw new Error(
+          `No migration registered from schema version ${version}`
+        );
+      }
+      if (step.to > this.targetVersion) {
+        throw new Error(
+          `Migration ${step.from} → ${step.to} overshoots target version ${this.targetVersion}`
+        );
+      }
+      steps.push(step);
+      version = step.to;
+    }
+    return steps;
+  }
+
+  /** Whether a document needs migrating */
+  needsMigration(doc: AeonDocument): boolean {
+    return getSchemaVersion(doc) < this.targetVersion;
+  }
+
+  /**
+   * Upgrade a document to the target version.
+   * All steps and the version bump run in a single transaction,
+   * so collaborators observe the upgrade atomically.
+   */
+  migrate(doc: AeonDocument): MigrationResult {
+    const from = getSchemaVersion(doc);
+    const steps = this.plan(from);
+    if (steps.length === 0) {
+      return { from, to: from, applied: [] };
+    }
+
+    doc.ydoc.transact(() => {
+      for (const step of steps) {
+        step.migrate(doc);
+      }
+      doc.meta.set('schema-version', this.targetVersion);
+      doc.meta.set('migrated-at', new Date().toISOString());
+    }, MIGRATION_ORIGIN);
+
+    return { from, to: this.targetVersion, applied: steps };
+  }
+}
+
+/**
+ * Read a document's schema version.
+ * Documents written before versioning are treated as version 1.
+ */
+export function getSchemaVersion(doc: AeonDocument): number {
+  const version = doc.meta.get('schema-version');
+  return typeof version === 'number' ? version : 1;
+}
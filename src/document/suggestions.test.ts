@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  baseText,
+  proposedText,
+  readSuggestions,
+  recordSuggestion,
+  resolveSuggestions,
+  SUGGESTION_INSERT,
+  type SuggestibleText,
+  type SuggestionMark,
+  type TextDeltaRun,
+} from './suggestions';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** XmlText stand-in: one entry per character with its attributes */
+class FakeText implements SuggestibleText {
+  chars: Array<{ char: string; attributes: Record<string, unknown> }> = [];
+
+  constructor(text = '', attributes: Record<string, unknown> = {}) {
+    this.insert(0, text, attributes);
+  }
+
+  toDelta(): TextDeltaRun[] {
+    const runs: TextDeltaRun[] = [];
+    for (const { char, attributes } of this.chars) {
+      const last = runs[runs.length - 1];
+      if (last && sameAttributes(last.attributes ?? {}, attributes)) {
+        last.insert += char;
+      } else {
+        runs.push(
+          Object.keys(attributes).length > 0
+            ? { insert: char, attributes }
+            : { insert: char }
+        );
+      }
+    }
+    return runs;
+  }
+
+  insert(index: number, text: string, attributes = {}) {
+    this.chars.splice(
+      index,
+      0,
+      ...text.split('').map((char) => ({ char, attributes: { ...attributes } }))
+    );
+  }
+
+  delete(index: number, length: number) {
+    this.chars.splice(index, length);
+  }
+
+  format(index: number, length: number, attributes: Record<string, unknown>) {
+    for (const c of this.chars.slice(index, index + length)) {
+      const next = { ...c.attributes };
+      for (const [key, value] of Object.entries(attributes)) {
+        if (value === null) delete next[key];
+        else next[key] = value;
+      }
+      c.attributes = next;
+    }
+  }
+
+  toString() {
+    return this.chars.map((c) => c.char).join('');
+  }
+}
+
+function sameAttributes(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function mark(id: string, authorDid = 'did:key:bob'): SuggestionMark {
+  return { id, authorDid, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('suggestions', () => {
+  it('records edits as marks without changing the base text', () => {
+    const text = new FakeText('Teh quick fox');
+    recordSuggestion(text, 'The quick brown fox', mark('s1'));
+
+    expect(baseText(text)).toBe('Teh quick fox');
+    expect(proposedText(text)).toBe('The quick brown fox');
+    expect(
+      readSuggestions(text, 'b1').map((s) => [s.kind, s.text, s.id])
+    ).toEqual([
+      ['delete', 'Teh', 's1'],
+      ['insert', 'The', 's1'],
+      ['insert', ' brown', 's1'],
+    ]);
+  });
+
+  it('accepts and rejects cleanly', () => {
+    const accepted = new FakeText('Teh quick fox');
+    recordSuggestion(accepted, 'The quick brown fox', mark('s1'));
+    expect(resolveSuggestions(accepted, true)).toEqual(['s1']);
+    expect(accepted.toString()).toBe('The quick brown fox');
+    expect(accepted.toDelta()).toEqual([{ insert: 'The quick brown fox' }]);
+
+    const rejected = new FakeText('Teh quick fox');
+    recordSuggestion(rejected, 'The quick brown fox', mark('s1'));
+    expect(resolveSuggestions(rejected, false)).toEqual(['s1']);
+    expect(rejected.toDelta()).toEqual([{ insert: 'Teh quick fox' }]);
+  });
+
+  it('keeps formatting and removes own insertions outright', () => {
+    const text = new FakeText('bold', { bold: true });
+    recordSuggestion(text, 'bold move', mark('s1'));
+    expect(text.toDelta()).toEqual([
+      { insert: 'bold', attributes: { bold: true } },
+      {
+        insert: ' move',
+        attributes: { bold: true, [SUGGESTION_INSERT]: mark('s1') },
+      },
+    ]);
+
+    // Deleting your own suggested text leaves no trace
+    recordSuggestion(text, 'bold', mark('s2'));
+    expect(text.toDelta()).toEqual([
+      { insert: 'bold', attributes: { bold: true } },
+    ]);
+  });
+
+  it('follows the text when it is edited around the suggestion', () => {
+    const text = new FakeText('draft one');
+    recordSuggestion(text, 'draft two', mark('s1'));
+
+    // A collaborator edits before the suggestion
+    text.insert(0, 'Final ');
+    const [deleted, inserted] = readSuggestions(text, 'b1');
+    expect([deleted.text, deleted.start]).toEqual(['one', 12]);
+    expect([inserted.text, inserted.start]).toEqual(['two', 15]);
+
+    resolveSuggestions(text, true);
+    expect(text.toString()).toBe('Final draft two');
+  });
+
+  it('resolves by author', () => {
+    const text = new FakeText('alpha beta');
+    recordSuggestion(text, 'alpha beta gamma', mark('s1', 'did:key:bob'));
+    recordSuggestion(text, 'Alpha beta gamma', mark('s2', 'did:key:carol'));
+
+    expect(
+      resolveSuggestions(text, false, { authorDid: 'did:key:carol' })
+    ).toEqual(['s2']);
+    expect(proposedText(text)).toBe('alpha beta gamma');
+    expect(readSuggestions(text, 'b1').map((s) => s.id)).toEqual(['s1']);
+  });
+});
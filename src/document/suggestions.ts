@@ -0,0 +1,387 @@
+/**
+ * Suggestions — Track changes as formatting on the CRDT text
+ *
+ * In suggestion mode an edit is not applied; it is recorded on the
+ * block's text instead:
+ *   - inserted text is inserted, carrying a `suggestion-insert` mark
+ *   - deleted text stays in place, carrying a `suggestion-delete` mark
+ *
+ * Marks are attributes on CRDT items, so a suggestion keeps its place
+ * however the text around it is edited, locally or concurrently.
+ * Accepting removes the mark (insert) or the text (delete); rejecting
+ * does the opposite, leaving the text as it was before the edit.
+ */
+
+import { matchCharacters } from '../revisions/blame';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export const SUGGESTION_INSERT = 'suggestion-insert';
+export const SUGGESTION_DELETE = 'suggestion-delete';
+
+export type SuggestionKind = 'insert' | 'delete';
+
+/** Value of a suggestion mark */
+export interface SuggestionMark {
+  /** Suggestion ID, shared by all parts of one edit */
+  readonly id: string;
+  readonly authorDid: string;
+  /** ISO-8601 timestamp */
+  readonly createdAt: string;
+}
+
+/** A contiguous run of suggested text */
+export interface Suggestion extends SuggestionMark {
+  readonly kind: SuggestionKind;
+  readonly blockId: string;
+  /** The suggested (insert) or struck (delete) text */
+  readonly text: string;
+  /** Offsets in the block text, suggested deletions included */
+  readonly start: number;
+  readonly end: number;
+}
+
+/** Which suggestions a bulk accept or reject applies to */
+export interface SuggestionFilter {
+  readonly id?: string;
+  readonly authorDid?: string;
+  readonly kind?: SuggestionKind;
+}
+
+/** A filter that can also be limited to one block */
+export interface BlockSuggestionFilter extends SuggestionFilter {
+  readonly blockId?: string;
+}
+
+/** Whether a suggestion (or a mark of the given kind) matches a filter */
+export function matchesSuggestionFilter(
+  suggestion: SuggestionMark & { readonly kind: SuggestionKind },
+  filter: SuggestionFilter
+): boolean {
+  return (
+    (filter.id === undefined || suggestion.id === filter.id) &&
+    (filter.authorDid === undefined ||
+      suggestion.authorDid === filter.authorDid) &&
+    (filter.kind === undefined || suggestion.kind === filter.kind)
+  );
+}
+
+/** One run of a text delta */
+export interface TextDeltaRun {
+  insert: unknown;
+  attributes?: Record<string, unknown>;
+}
+
+/** The XmlText operations suggestions need */
+export interface SuggestibleText {
+  toDelta(): TextDeltaRun[];
+  insert(
+    index: number,
+    text: string,
+    attributes?: Record<string, unknown>
+  ): void;
+  delete(index: number, length: number): void;
+  format(
+    index: number,
+    length: number,
+    attributes: Record<string, unknown>
+  ): void;
+}
+
+/** Words, runs of whitespace, and single other characters */
+const WORD_TOKEN = /[\p{L}\p{N}]+|\s+|[^\p{L}\p{N}\s]/gu;
+const PRIVATE_USE_START = 0xe000;
+const PRIVATE_USE_SIZE = 0x1900;
+
+/** A character of the text with its formatting */
+interface CharInfo {
+  readonly char: string;
+  readonly attributes: Record<string, unknown>;
+}
+
+// ── Reading ─────────────────────────────────────────────────────────
+
+function readChars(text: SuggestibleText): CharInfo[] {
+  const chars: CharInfo[] = [];
+  for (const run of text.toDelta()) {
+    // Embeds count as one character
+    const content = typeof run.insert === 'string' ? run.insert : '￼';
+    const attributes = run.attributes ?? {};
+    for (const char of content.split('')) chars.push({ char, attributes });
+  }
+  return chars;
+}
+
+function markOf(
+  attributes: Record<string, unknown>,
+  kind: SuggestionKind
+): SuggestionMark | undefined {
+  const value =
+    attributes[kind === 'insert' ? SUGGESTION_INSERT : SUGGESTION_DELETE];
+  return value && typeof value === 'object'
+    ? (value as SuggestionMark)
+    : undefined;
+}
+
+/** The text as it reads with every suggestion accepted */
+export function proposedText(text: SuggestibleText): string {
+  return readChars(text)
+    .filter((c) => !markOf(c.attributes, 'delete'))
+    .map((c) => c.char)
+    .join('');
+}
+
+/** The text as it reads with every suggestion rejected */
+export function baseText(text: SuggestibleText): string {
+  return readChars(text)
+    .filter((c) => !markOf(c.attributes, 'insert'))
+    .map((c) => c.char)
+    .join('');
+}
+
+/**
+ * The text as it reads with every suggestion rejected, formatting
+ * included and suggestion marks left out
+ */
+export function baseDelta(text: SuggestibleText): TextDeltaRun[] {
+  const runs: TextDeltaRun[] = [];
+  let key = '';
+  for (const c of readChars(text)) {
+    if (markOf(c.attributes, 'insert')) continue;
+    const attributes = withoutSuggestions(c.attributes);
+    const next = JSON.stringify(attributes);
+    const last = runs[runs.length - 1];
+    if (last && next === key) {
+      last.insert += c.char;
+      continue;
+    }
+    runs.push(
+      Object.keys(attributes).length > 0
+        ? { insert: c.char, attributes }
+        : { insert: c.char }
+    );
+    key = next;
+  }
+  return runs;
+}
+
+/** Suggestions in a block's text, in text order */
+export function readSuggestions(
+  text: SuggestibleText,
+  blockId: string
+): Suggestion[] {
+  const chars = readChars(text);
+  const suggestions: Suggestion[] = [];
+
+  for (const kind of ['insert', 'delete'] as const) {
+    let current: { mark: SuggestionMark; start: number } | null = null;
+    const close = (end: number) => {
+      if (!current) return;
+      suggestions.push({
+        ...current.mark,
+        kind,
+        blockId,
+        text: chars
+          .slice(current.start, end)
+          .map((c) => c.char)
+          .join(''),
+        start: current.start,
+        end,
+      });
+      current = null;
+    };
+
+    chars.forEach((c, i) => {
+      const mark = markOf(c.attributes, kind);
+      if (current && mark?.id === current.mark.id) return;
+      close(i);
+      if (mark) current = { mark, start: i };
+    });
+    close(chars.length);
+  }
+
+  return suggestions.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// ── Recording ───────────────────────────────────────────────────────
+
+/**
+ * Record the change from the proposed text to `newText` as
+ * suggestions instead of applying it. Deleting text the same author
+ * suggested inserting removes it outright. Call inside a transaction.
+ */
+export function recordSuggestion(
+  text: SuggestibleText,
+  newText: string,
+  mark: SuggestionMark
+): void {
+  const chars = readChars(text);
+  // Raw index of each proposed character
+  const visible: number[] = [];
+  chars.forEach((c, i) => {
+    if (!markOf(c.attributes, 'delete')) visible.push(i);
+  });
+  const proposed = visible.map((i) => chars[i].char).join('');
+  const changes = diffWords(proposed, newText);
+
+  // Apply back to front so earlier raw offsets stay valid
+  const rawAt = (p: number) => (p < visible.length ? visible[p] : chars.length);
+  for (const change of changes.reverse()) {
+    if (change.insert) {
+      const at = rawAt(change.to);
+      const before = at > 0 ? chars[at - 1].attributes : {};
+      text.insert(at, change.insert, {
+        ...withoutSuggestions(before),
+        [SUGGESTION_INSERT]: mark,
+      });
+    }
+    // Group contiguous raw characters that get the same treatment
+    let p = change.to - 1;
+    while (p >= change.from) {
+      const remove = isOwnInsertion(chars[visible[p]], mark);
+      let start = p;
+      while (
+        start > change.from &&
+        visible[start - 1] === visible[start] - 1 &&
+        isOwnInsertion(chars[visible[start - 1]], mark) === remove
+      ) {
+        start--;
+      }
+      const from = visible[start];
+      const length = visible[p] - from + 1;
+      if (remove) text.delete(from, length);
+      else text.format(from, length, { [SUGGESTION_DELETE]: mark });
+      p = start - 1;
+    }
+  }
+}
+
+/**
+ * Changes from `a` to `b` as (deleted range of `a`, text inserted
+ * after it). Whole words are compared, so replacing a word reads as
+ * one deletion and one insertion rather than scattered letters.
+ */
+function diffWords(
+  a: string,
+  b: string
+): Array<{ from: number; to: number; insert: string }> {
+  const tokensA = a.match(WORD_TOKEN) ?? [];
+  const tokensB = b.match(WORD_TOKEN) ?? [];
+
+  // One private-use character per distinct token
+  const codes = new Map<string, string>();
+  const encode = (tokens: string[]) =>
+    tokens
+      .map((token) => {
+        let code = codes.get(token);
+        if (code === undefined) {
+          code = String.fromCharCode(PRIVATE_USE_START + codes.size);
+          codes.set(token, code);
+        }
+        return code;
+      })
+      .join('');
+  const encodedA = encode(tokensA);
+  const encodedB = encode(tokensB);
+  // Too many distinct tokens to encode: compare characters instead
+  const byChar = codes.size > PRIVATE_USE_SIZE;
+  const unitsA = byChar ? a.split('') : tokensA;
+  const unitsB = byChar ? b.split('') : tokensB;
+  const matches = byChar
+    ? matchCharacters(a, b)
+    : matchCharacters(encodedA, encodedB);
+
+  const offsets = [0];
+  for (const unit of unitsA)
+    offsets.push(offsets[offsets.length - 1] + unit.length);
+
+  const changes: Array<{ from: number; to: number; insert: string }> = [];
+  let next = 0;
+  let pending = '';
+  const flush = (kept: number) => {
+    if (next < kept || pending) {
+      changes.push({ from: offsets[next], to: offsets[kept], insert: pending });
+    }
+    pending = '';
+  };
+  unitsB.forEach((unit, j) => {
+    if (matches[j] === -1) {
+      pending += unit;
+      return;
+    }
+    flush(matches[j]);
+    next = matches[j] + 1;
+  });
+  flush(unitsA.length);
+  return changes;
+}
+
+function isOwnInsertion(char: CharInfo, mark: SuggestionMark): boolean {
+  return markOf(char.attributes, 'insert')?.authorDid === mark.authorDid;
+}
+
+function withoutSuggestions(
+  attributes: Record<string, unknown>
+): Record<string, unknown> {
+  const {
+    [SUGGESTION_INSERT]: _insert,
+    [SUGGESTION_DELETE]: _delete,
+    ...rest
+  } = attributes;
+  return rest;
+}
+
+// ── Resolving ───────────────────────────────────────────────────────
+
+/**
+ * Accept or reject the suggestions matching a filter.
+ * Call inside a transaction.
+ *
+ * @returns IDs of the suggestions resolved
+ */
+export function resolveSuggestions(
+  text: SuggestibleText,
+  accept: boolean,
+  filter: SuggestionFilter = {}
+): string[] {
+  // Per character: remove it, clear some marks, or leave it alone
+  const resolved = new Set<string>();
+  const actions = readChars(text).map((c): string[] | 'delete' | null => {
+    const clear: string[] = [];
+    let remove = false;
+    for (const kind of ['insert', 'delete'] as const) {
+      const mark = markOf(c.attributes, kind);
+      if (!mark || !matchesSuggestionFilter({ ...mark, kind }, filter)) {
+        continue;
+      }
+      resolved.add(mark.id);
+      if ((kind === 'insert') === accept) {
+        clear.push(kind === 'insert' ? SUGGESTION_INSERT : SUGGESTION_DELETE);
+      } else {
+        remove = true;
+      }
+    }
+    return remove ? 'delete' : clear.length > 0 ? clear : null;
+  });
+
+  // Back to front, one operation per run of equal actions
+  const same = (a: string[] | 'delete' | null, b: typeof a) =>
+    a === b || (Array.isArray(a) && Array.isArray(b) && a.join() === b.join());
+  let end = actions.length;
+  while (end > 0) {
+    const action = actions[end - 1];
+    let start = end - 1;
+    while (start > 0 && same(actions[start - 1], action)) start--;
+    if (action === 'delete') {
+      text.delete(start, end - start);
+    } else if (action) {
+      text.format(
+        start,
+        end - start,
+        Object.fromEntries(action.map((key) => [key, null]))
+      );
+    }
+    end = start;
+  }
+  return [...resolved];
+}
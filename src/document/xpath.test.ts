@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import type * as Y from '@affectively/gnosis';
+import {
+  XPathEngine,
+  permissionForCapability,
+  type PermissionLevel,
+} from './xpath';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+interface FakeElement {
+  nodeName: string;
+  length: number;
+  get(i: number): FakeElement;
+  getAttribute(key: string): string | undefined;
+  getAttributes(): Record<string, string>;
+}
+
+function makeElement(
+  nodeName: string,
+  attributes: Record<string, string>,
+  children: FakeElement[] = []
+): FakeElement {
+  return {
+    nodeName,
+    length: children.length,
+    get: (i: number) => children[i],
+    getAttribute: (key: string) => attributes[key],
+    getAttributes: () => ({ ...attributes }),
+  };
+}
+
+const fragment = makeElement('document', {}, [
+  makeElement('heading', { id: 'title' }),
+  makeElement('blockquote', { id: 'legal' }, [
+    makeElement('paragraph', { id: 'terms' }),
+    makeElement('paragraph', { id: 'privacy' }),
+  ]),
+  makeElement('paragraph', { id: 'body' }),
+]) as unknown as Y.XmlFragment;
+
+function bind(engine: XPathEngine, xpath: string, permission: PermissionLevel) {
+  engine.addPermission({
+    xpath,
+    subjectDid: 'did:key:alice',
+    permission,
+    ucanToken: 'ucan',
+  });
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('XPathEngine', () => {
+  it('addresses nested blocks', () => {
+    const engine = new XPathEngine();
+    expect(
+      engine.computeAllAddresses(fragment).map((a) => [a.blockId, a.path])
+    ).toEqual([
+      ['title', '/document/heading[0]'],
+      ['legal', '/document/blockquote[0]'],
+      ['terms', '/document/blockquote[0]/paragraph[0]'],
+      ['privacy', '/document/blockquote[0]/paragraph[1]'],
+      ['body', '/document/paragraph[0]'],
+    ]);
+  });
+
+  it('matches predicates, wildcards and descendants', () => {
+    const engine = new XPathEngine();
+    bind(engine, "/document/*[@id='legal']", 'read');
+    bind(engine, '/document//paragraph[1]', 'admin');
+    bind(engine, '/document/paragraph', 'write');
+    const check = (blockId: string) =>
+      engine.checkPermission(
+        engine.computeAddress(fragment, blockId)!,
+        'did:key:alice',
+        'write'
+      );
+
+    // A lock covers what is nested under it
+    expect(check('terms')).toMatchObject({
+      allowed: false,
+      permission: 'read',
+    });
+    // A more specific binding wins
+    expect(check('privacy')).toMatchObject({ permission: 'admin' });
+    expect(check('body').allowed).toBe(true);
+    expect(check('title')).toMatchObject({
+      allowed: false,
+      permission: 'none',
+    });
+
+    // String targets still work, with attributes
+    expect(
+      engine.checkPermission(
+        "/document/blockquote[@id='legal']",
+        'did:key:alice',
+        'read'
+      ).allowed
+    ).toBe(true);
+  });
+
+  it('falls back to capabilities where no binding matches', () => {
+    const engine = new XPathEngine();
+    engine.useCapabilities(
+      {
+        getEffectiveCapability: (_did, documentId, blockId) =>
+          documentId === 'doc-1' && blockId !== 'title' ? 'edit' : 'comment',
+      },
+      'doc-1'
+    );
+    engine.addCapability("//*[@id='legal']", '*', 'read', 'ucan');
+
+    const check = (blockId: string) =>
+      engine.checkPermission(
+        engine.computeAddress(fragment, blockId)!,
+        'did:key:bob',
+        'write'
+      );
+    expect(check('body')).toMatchObject({ allowed: true, permission: 'write' });
+    expect(check('title')).toMatchObject({
+      allowed: false,
+      permission: 'comment',
+    });
+    expect(check('privacy')).toMatchObject({
+      allowed: false,
+      permission: 'read',
+    });
+  });
+
+  it('spends capability uses only for writes that were made', () => {
+    const uses: string[] = [];
+    const engine = new XPathEngine();
+    engine.useCapabilities(
+      {
+        getEffectiveCapability: () => 'edit',
+        useCapability: (did, _documentId, required, blockId) => {
+          uses.push(`${did} ${required} ${blockId}`);
+          return true;
+        },
+      },
+      'doc-1'
+    );
+    engine.addCapability("//*[@id='legal']", '*', 'write', 'ucan');
+    const address = (blockId: string) =>
+      engine.computeAddress(fragment, blockId)!;
+
+    engine.checkPermission(address('body'), 'did:key:bob', 'write');
+    expect(uses).toEqual([]);
+
+    engine.spendCapability(address('body'), 'did:key:bob', 'write');
+    // Bindings have no uses to spend
+    engine.spendCapability(address('legal'), 'did:key:bob', 'write');
+    // Nor do writes that were not allowed
+    engine.spendCapability(address('body'), 'did:key:bob', 'admin');
+    expect(uses).toEqual(['did:key:bob edit body']);
+  });
+
+  it('maps capabilities to permissions', () => {
+    expect(
+      (['read', 'suggest', 'edit', 'publish', 'admin', null] as const).map(
+        permissionForCapability
+      )
+    ).toEqual(['read', 'suggest', 'write', 'write', 'admin', 'none']);
+  });
+});
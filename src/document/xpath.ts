@@ -4,19 +4,52 @@
  * XPath addresses map to UCAN delegation chains, enabling
  * per-block access control: share a paragraph, lock a section,
  * grant edit access to a heading without exposing the whole document.
+ *
+ * Patterns are a small XPath subset:
+ *   /document/heading[0]           position among same-type siblings
+ *   /document/*[@id='intro']       any block, by attribute
+ *   /document//paragraph           a paragraph at any depth
+ *   /document/blockquote[@id]      attribute present
+ * A pattern also covers everything nested under what it matches.
+ *
+ * Explicit bindings take precedence (they are how sections are
+ * locked); otherwise the subject's capability from CapabilitySharing
+ * applies, when a capability source is attached.
  */
 
 import type * as Y from '@affectively/gnosis';
+import type { Capability } from '../sharing/CapabilitySharing';
 
 // ── Types ───────────────────────────────────────────────────────────
 
 /** XPath permission level */
-export type PermissionLevel = 'read' | 'write' | 'admin' | 'none';
+export type PermissionLevel =
+  'none' | 'read' | 'comment' | 'suggest' | 'write' | 'admin';
+
+/** Permission levels, lowest first */
+const PERMISSION_HIERARCHY: PermissionLevel[] = [
+  'none',
+  'read',
+  'comment',
+  'suggest',
+  'write',
+  'admin',
+];
+
+/** One step of an address: an element and its position */
+export interface XPathStep {
+  readonly name: string;
+  /** Position among siblings of the same type (-1 if unknown) */
+  readonly index: number;
+  readonly attributes: Readonly<Record<string, string>>;
+}
 
 /** An XPath address for a node in the document tree */
 export interface XPathAddress {
   /** Full XPath expression */
   readonly path: string;
+  /** Steps from the document root down to the node */
+  readonly steps: readonly XPathStep[];
   /** Block type at this path */
   readonly blockType: string;
   /** Block ID attribute */
@@ -47,8 +80,70 @@ export interface PermissionCheckResult {
   readonly permission: PermissionLevel;
   readonly matchedRule?: XPathPermission;
   readonly reason?: string;
+  /** The capability that decided it, when no binding matched */
+  readonly capability?: Capability | null;
+}
+
+/** Where capabilities come from (CapabilitySharing fits) */
+export interface CapabilitySource {
+  /** The capability a DID holds; must not count as a use */
+  getEffectiveCapability(
+    did: string,
+    documentId: string,
+    blockId?: string
+  ): Capability | null;
+  /** Spend one use of the grant that allows `required`, if any */
+  useCapability?(
+    did: string,
+    documentId: string,
+    required: Capability,
+    blockId?: string
+  ): boolean;
 }
 
+/** The XPath permission a capability amounts to */
+export function permissionForCapability(
+  capability: Capability | null
+): PermissionLevel {
+  switch (capability) {
+    case null:
+      return 'none';
+    case 'read':
+    case 'comment':
+    case 'suggest':
+      return capability;
+    case 'edit':
+    case 'publish':
+      return 'write';
+    case 'admin':
+      return 'admin';
+  }
+}
+
+/** The capability an XPath permission amounts to */
+export function capabilityForPermission(
+  level: PermissionLevel
+): Capability | null {
+  switch (level) {
+    case 'none':
+      return null;
+    case 'write':
+      return 'edit';
+    default:
+      return level;
+  }
+}
+
+/** Address of the document root, e.g. for inserting top-level blocks */
+export const ROOT_ADDRESS: XPathAddress = {
+  path: '/document',
+  steps: [{ name: 'document', index: 0, attributes: {} }],
+  blockType: 'document',
+  blockId: '',
+  depth: 0,
+  siblingIndex: 0,
+};
+
 // ── XPath Engine ────────────────────────────────────────────────────
 
 export class XPathEngine {
@@ -58,74 +153,61 @@ export class XPathEngine {
   /** Default permission for unmatched nodes */
   private defaultPermission: PermissionLevel = 'none';
 
+  /** Capabilities consulted when no binding matches */
+  private capabilities: {
+    source: CapabilitySource;
+    documentId: string;
+  } | null = null;
+
   /**
-   * Compute the XPath address for a block in the document.
+   * Compute the XPath address for a block in the document,
+   * at any depth.
    */
   computeAddress(
     fragment: Y.XmlFragment,
     blockId: string
   ): XPathAddress | null {
-    for (let i = 0; i < fragment.length; i++) {
-      const item = fragment.get(i);
-      if (item instanceof Object && 'getAttribute' in item) {
-        const element = item as Y.XmlElement;
-        if (element.getAttribute('id') === blockId) {
-          const blockType = element.nodeName;
-
-          // Count preceding siblings of same type
-          let siblingIndex = 0;
-          for (let j = 0; j < i; j++) {
-            const sibling = fragment.get(j);
-            if (
-              sibling instanceof Object &&
-              'nodeName' in sibling &&
-              (sibling as Y.XmlElement).nodeName === blockType
-            ) {
-              siblingIndex++;
-            }
-          }
-
-          return {
-            path: `/document/${blockType}[${siblingIndex}]`,
-            blockType,
-            blockId,
-            depth: 1,
-            siblingIndex,
-          };
-        }
-      }
-    }
-    return null;
+    return (
+      this.computeAllAddresses(fragment).find((a) => a.blockId === blockId) ??
+      null
+    );
   }
 
   /**
-   * Compute XPath addresses for all blocks in the document.
+   * Compute XPath addresses for all blocks in the document, nested
+   * blocks included, in document order.
    */
   computeAllAddresses(fragment: Y.XmlFragment): XPathAddress[] {
     const addresses: XPathAddress[] = [];
-    const typeCounts = new Map<string, number>();
 
-    for (let i = 0; i < fragment.length; i++) {
-      const item = fragment.get(i);
-      if (item instanceof Object && 'getAttribute' in item) {
+    const visit = (parent: any, steps: XPathStep[]) => {
+      const typeCounts = new Map<string, number>();
+      for (let i = 0; i < parent.length; i++) {
+        const item = parent.get(i);
+        // Text nodes have no nodeName
+        if (!(item instanceof Object) || !('nodeName' in item)) continue;
         const element = item as Y.XmlElement;
         const blockType = element.nodeName;
-        const blockId = element.getAttribute('id');
+        const attributes = element.getAttributes() as Record<string, string>;
 
         const count = typeCounts.get(blockType) || 0;
         typeCounts.set(blockType, count + 1);
 
-        if (blockId) {
+        const path = [...steps, { name: blockType, index: count, attributes }];
+        if (attributes.id) {
           addresses.push({
-            path: `/document/${blockType}[${count}]`,
+            path: formatPath(path),
+            steps: path,
             blockType,
-            blockId,
-            depth: 1,
+            blockId: attributes.id,
+            depth: path.length - 1,
             siblingIndex: count,
           });
         }
+        visit(element, path);
       }
-    }
+    };
+    visit(fragment, [...ROOT_ADDRESS.steps]);
 
     return addresses;
   }
@@ -149,6 +231,56 @@ export class XPathEngine {
     );
   }
 
+  /** Bind a capability to an XPath (see `permissionForCapability`) */
+  addCapability(
+    xpath: string,
+    subjectDid: string,
+    capability: Capability | null,
+    ucanToken: string,
+    expiresAt?: string
+  ): void {
+    this.addPermission({
+      xpath,
+      subjectDid,
+      permission: permissionForCapability(capability),
+      ucanToken,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Fall back to capabilities from `source` (e.g. CapabilitySharing)
+   * on `documentId` where no binding matches, instead of the default.
+   */
+  useCapabilities(source: CapabilitySource, documentId: string): void {
+    this.capabilities = { source, documentId };
+  }
+
+  /**
+   * Record that a write `checkPermission` allowed was made. A write
+   * allowed by a capability spends one use of the grant behind it;
+   * bindings have no uses to spend.
+   */
+  spendCapability(
+    xpath: string | XPathAddress,
+    subjectDid: string,
+    required: PermissionLevel
+  ): void {
+    const capability = capabilityForPermission(required);
+    const source = this.capabilities?.source;
+    if (!this.capabilities || !source?.useCapability || !capability) return;
+    const result = this.checkPermission(xpath, subjectDid, required);
+    if (!result.allowed || result.capability === undefined) return;
+
+    const target = typeof xpath === 'string' ? parseTarget(xpath) : xpath.steps;
+    source.useCapability(
+      subjectDid,
+      this.capabilities.documentId,
+      capability,
+      target[target.length - 1]?.attributes.id
+    );
+  }
+
   /** Remove all permissions for an XPath */
   removePermissionsAt(xpath: string): void {
     this.permissions = this.permissions.filter((p) => p.xpath !== xpath);
@@ -158,17 +290,39 @@ export class XPathEngine {
    * Check if a subject has the required permission at a given XPath.
    */
   checkPermission(
-    xpath: string,
+    xpath: string | XPathAddress,
     subjectDid: string,
     required: PermissionLevel
   ): PermissionCheckResult {
+    const target = typeof xpath === 'string' ? parseTarget(xpath) : xpath.steps;
+
     // Find the most specific matching rule
+    const depths = new Map<XPathPermission, number>();
     const matchingRules = this.permissions.filter((p) => {
       if (p.subjectDid !== subjectDid && p.subjectDid !== '*') return false;
       if (p.expiresAt && new Date(p.expiresAt) < new Date()) return false;
-      return this.xpathMatches(p.xpath, xpath);
+      const depth = this.matchDepth(p.xpath, target);
+      depths.set(p, depth);
+      return depth > 0;
     });
 
+    if (matchingRules.length === 0 && this.capabilities) {
+      const { source, documentId } = this.capabilities;
+      const blockId = target[target.length - 1]?.attributes.id;
+      const capability = source.getEffectiveCapability(
+        subjectDid,
+        documentId,
+        blockId
+      );
+      const permission = permissionForCapability(capability);
+      return {
+        allowed: this.isPermissionSufficient(permission, required),
+        permission,
+        reason: `No explicit permission binding; capability ${capability ?? 'none'}`,
+        capability,
+      };
+    }
+
     if (matchingRules.length === 0) {
       return {
         allowed: this.isPermissionSufficient(this.defaultPermission, required),
@@ -177,9 +331,11 @@ export class XPathEngine {
       };
     }
 
-    // Use the most specific (longest matching) rule
+    // Use the most specific rule: the one matching the deepest
+    // element, then the longest
     const bestRule = matchingRules.sort(
-      (a, b) => b.xpath.length - a.xpath.length
+      (a, b) =>
+        depths.get(b)! - depths.get(a)! || b.xpath.length - a.xpath.length
     )[0];
 
     return {
@@ -206,24 +362,34 @@ export class XPathEngine {
   // ── Private ───────────────────────────────────────────────────
 
   /**
-   * Check if an XPath pattern matches a target XPath.
-   * Supports wildcards: * matches any single level.
+   * How many steps of the target an XPath pattern matches: the whole
+   * target, or an element it is nested in. 0 if it does not match.
    */
-  private xpathMatches(pattern: string, target: string): boolean {
-    if (pattern === target) return true;
-    if (pattern === '/*' || pattern === '/document/*') return true;
-
-    const patternParts = pattern.split('/').filter(Boolean);
-    const targetParts = target.split('/').filter(Boolean);
-
-    if (patternParts.length > targetParts.length) return false;
-
-    for (let i = 0; i < patternParts.length; i++) {
-      if (patternParts[i] === '*') continue;
-      if (patternParts[i] !== targetParts[i]) return false;
+  private matchDepth(pattern: string, target: readonly XPathStep[]): number {
+    let steps: PatternStep[];
+    try {
+      steps = parsePattern(pattern);
+    } catch {
+      return 0; // A malformed binding grants nothing
     }
 
-    return true;
+    const matchFrom = (p: number, t: number): number => {
+      if (p === steps.length) return t;
+      const step = steps[p];
+      if (!step.descendant) {
+        return t < target.length && stepMatches(step, target[t])
+          ? matchFrom(p + 1, t + 1)
+          : 0;
+      }
+      let deepest = 0;
+      for (let k = t; k < target.length; k++) {
+        if (stepMatches(step, target[k])) {
+          deepest = Math.max(deepest, matchFrom(p + 1, k + 1));
+        }
+      }
+      return deepest;
+    };
+    return matchFrom(0, 0);
   }
 
   /** Check if a held permission level is sufficient for a required level */
@@ -231,12 +397,104 @@ export class XPathEngine {
     held: PermissionLevel,
     required: PermissionLevel
   ): boolean {
-    const hierarchy: Record<PermissionLevel, number> = {
-      none: 0,
-      read: 1,
-      write: 2,
-      admin: 3,
+    return (
+      PERMISSION_HIERARCHY.indexOf(held) >=
+      PERMISSION_HIERARCHY.indexOf(required)
+    );
+  }
+}
+
+// ── Paths ───────────────────────────────────────────────────────────
+
+/** A parsed pattern step */
+interface PatternStep {
+  /** Preceded by `//`: may match at any depth below the previous step */
+  readonly descendant: boolean;
+  /** Element name, or `*` */
+  readonly name: string;
+  readonly index?: number;
+  /** Attribute tests; a null value only requires presence */
+  readonly attributes: ReadonlyArray<[string, string | null]>;
+}
+
+const STEP = /^(\/\/?)([\w-]+|\*)((?:\[[^\]]*\])*)/;
+const PREDICATE =
+  /\[\s*(?:(\d+)|@([\w-]+)(?:\s*=\s*(?:'([^']*)'|"([^"]*)"))?)\s*\]/y;
+
+/** Parse an XPath pattern; throws on anything outside the subset */
+function parsePattern(pattern: string): PatternStep[] {
+  const steps: PatternStep[] = [];
+  let rest = pattern.trim();
+  while (rest.length > 0) {
+    const match = STEP.exec(rest);
+    if (!match) throw new Error(`Unsupported XPath: ${pattern}`);
+
+    const step = {
+      descendant: match[1] === '//',
+      name: match[2],
+      index: undefined as number | undefined,
+      attributes: [] as Array<[string, string | null]>,
     };
-    return hierarchy[held] >= hierarchy[required];
+    const predicates = match[3];
+    PREDICATE.lastIndex = 0;
+    while (PREDICATE.lastIndex < predicates.length) {
+      const predicate = PREDICATE.exec(predicates);
+      if (!predicate) throw new Error(`Unsupported XPath: ${pattern}`);
+      if (predicate[1] !== undefined) step.index = Number(predicate[1]);
+      else
+        step.attributes.push([
+          predicate[2],
+          predicate[3] ?? predicate[4] ?? null,
+        ]);
+    }
+    steps.push(step);
+    rest = rest.slice(match[0].length);
+  }
+  return steps;
+}
+
+/** Read a concrete path such as `/document/paragraph[2]` as steps */
+function parseTarget(path: string): XPathStep[] {
+  try {
+    return parsePattern(path).map((step) => ({
+      name: step.name,
+      index: step.index ?? -1,
+      attributes: Object.fromEntries(
+        step.attributes.map(([key, value]) => [key, value ?? ''])
+      ),
+    }));
+  } catch {
+    return [];
   }
 }
+
+function stepMatches(step: PatternStep, target: XPathStep): boolean {
+  if (step.name !== '*' && step.name !== target.name) return false;
+  if (step.index !== undefined && step.index !== target.index) return false;
+  return step.attributes.every(([key, value]) =>
+    value === null ? key in target.attributes : target.attributes[key] === value
+  );
+}
+
+/** Address of the element a node is nested in */
+export function parentAddress(address: XPathAddress): XPathAddress {
+  if (address.steps.length <= 1) return ROOT_ADDRESS;
+  const steps = address.steps.slice(0, -1);
+  const parent = steps[steps.length - 1];
+  return {
+    path: formatPath(steps),
+    steps,
+    blockType: parent.name,
+    blockId: parent.attributes.id ?? '',
+    depth: steps.length - 1,
+    siblingIndex: parent.index,
+  };
+}
+
+function formatPath(steps: readonly XPathStep[]): string {
+  return steps
+    .map((step, i) =>
+      i === 0 ? `/${step.name}` : `/${step.name}[${step.index}]`
+    )
+    .join('');
+}
@@ -54,6 +54,8 @@ export interface CommandPaletteProps {
   extraItems?: PaletteItem[];
   /** Callback when the palette closes */
   onClose?: () => void;
+  /** Callback when an item's action fails; the palette stays open */
+  onError?: (error: unknown, item: PaletteItem) => void;
 }
 
 const CATEGORY_ORDER: PaletteCategory[] = [
@@ -83,6 +85,7 @@ const CATEGORY_LABELS: Record<PaletteCategory, string> = {
 export const CommandPalette: React.FC<CommandPaletteProps> = ({
   extraItems = [],
   onClose,
+  onError,
 }) => {
   const {
     doc,
@@ -95,6 +98,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
 
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
 
@@ -153,8 +157,8 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
         subtitle: new Date(rev.createdAt).toLocaleString(),
         category: 'revision',
         icon: '⟲',
-        action: () => {
-          revisions.rollbackTo(rev.id, doc);
+        action: async () => {
+          await revisions.rollbackTo(rev.id, doc);
         },
       });
     }
@@ -327,6 +331,29 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     );
   }, [flatItems.length]);
 
+  // Run an item: close when it is done, or show why it failed
+  const runItem = useCallback(
+    (item: PaletteItem) => {
+      const fail = (err: unknown) => {
+        setError(
+          `${item.label} failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+        onError?.(err, item);
+      };
+      try {
+        const result = item.action();
+        if (result instanceof Promise) {
+          result.then(() => onClose?.(), fail);
+        } else {
+          onClose?.();
+        }
+      } catch (err) {
+        fail(err);
+      }
+    },
+    [onClose, onError]
+  );
+
   // Keyboard navigation
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -342,8 +369,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
         case 'Enter':
           e.preventDefault();
           if (flatItems[selectedIndex]) {
-            flatItems[selectedIndex].action();
-            onClose?.();
+            runItem(flatItems[selectedIndex]);
           }
           break;
         case 'Escape':
@@ -352,7 +378,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
           break;
       }
     },
-    [flatItems, selectedIndex, onClose]
+    [flatItems, selectedIndex, onClose, runItem]
   );
 
   // Scroll selected item into view
@@ -383,6 +409,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
             onChange={(e) => {
               setQuery(e.target.value);
               setSelectedIndex(0);
+              setError(null);
             }}
             onKeyDown={handleKeyDown}
             autoComplete="off"
@@ -391,6 +418,12 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
           <kbd className="afc-palette-kbd">ESC</kbd>
         </div>
 
+        {error && (
+          <div className="afc-palette-error" role="alert">
+            {error}
+          </div>
+        )}
+
         {/* Results */}
         <div className="afc-palette-results" ref={listRef}>
           {grouped.length === 0 && (
@@ -410,10 +443,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
                       globalIdx === selectedIndex ? 'afc-selected' : ''
                     }`}
                     data-index={globalIdx}
-                    onClick={() => {
-                      item.action();
-                      onClose?.();
-                    }}
+                    onClick={() => runItem(item)}
                     onMouseEnter={() => setSelectedIndex(globalIdx)}
                     role="option"
                     aria-selected={globalIdx === selectedIndex}
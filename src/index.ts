@@ -13,6 +13,9 @@ export * from './document';
 // Revisions
 export * from './revisions';
 
+// Sync
+export * from './sync';
+
 // Editor UI
 export * from './editor';
 
@@ -30,7 +33,23 @@ export {
   type VoiceModel,
   type VoiceFeatures,
   type VoiceTrainingConfig,
+  type SerializedVoiceModel,
 } from './voice/VoiceEngine';
+export {
+  VoiceConformance,
+  type ConformanceFeature,
+  type FeatureDelta,
+  type BlockConformance,
+  type ConformanceReport,
+  type DriftPoint,
+  type DriftReport,
+  type ConformanceConfig,
+} from './voice/VoiceConformance';
+export {
+  measureStyle,
+  splitSentences,
+  type StyleMeasures,
+} from './voice/style';
 
 // Design Tokens
 export * as tokens from './ui/tokens';
@@ -53,6 +72,16 @@ export {
   type SaveResult,
   type PageDataObject,
 } from './devmode/DevMode';
+export {
+  createDevModeWriteHandler,
+  type DevModeFileSystem,
+  type DevModeWriteHandlerOptions,
+  type DevModeSidecar,
+} from './devmode/DevModeWriteHandler';
+export {
+  type DevModeSavePayload,
+  type DevModeConflict,
+} from './devmode/persistence';
 
 // Projections
 export {
@@ -61,6 +90,16 @@ export {
   type BlockVoicing,
   type MusicalScale,
 } from './projections/AudioProjection';
+export {
+  renderVoicings,
+  renderWav,
+  renderMidi,
+  encodeWav,
+  midiNote,
+  type OfflineRenderOptions,
+  type MidiRenderOptions,
+  type PcmAudio,
+} from './projections/offlineAudio';
 export {
   SpatialProjection,
   type SpatialProjectionConfig,
@@ -96,18 +135,46 @@ export {
 // Collaboration
 export {
   CollaborationPresence,
+  colorForDid,
+  blocksInRange,
   type Collaborator,
-  type CursorPosition,
+  type DocumentPosition,
+  type SelectionRange,
+  type Viewport,
   type CollaboratorActivity,
+  type PresenceState,
+  type FollowEvent,
+  type PresenceInterval,
+  type PresenceTimelineFilter,
+  type BlockDwell,
   type PresenceConfig,
 } from './collaboration/CollaborationPresence';
 export {
   CommentManager,
   type InlineComment,
   type SuggestedEdit,
+  type SuggestedEditState,
   type CommentState,
+  type CommentReaction,
   type CommentThreadConfig,
+  type CommentChangeEvent,
 } from './collaboration/InlineComments';
+export {
+  readComments,
+  diffComments,
+  COMMENTS_MAP,
+  type CommentActivity,
+  type CommentAnchor,
+  type CommentSnapshot,
+} from './collaboration/comments';
+export {
+  locateAnchor,
+  type AnchorBlock,
+  type AnchorConfig,
+  type AnchorMatchKind,
+  type AnchorResult,
+  type AnchorTarget,
+} from './collaboration/anchoring';
 
 // Publishing
 export {
@@ -117,7 +184,36 @@ export {
   type PublishProjection,
   type SEOMetadata,
   type SocialCards,
+  type RenderedOutput,
+  type SnapshotResolver,
+  type PublishClock,
+  type PublishingPipelineOptions,
+  type TransitionRecord,
+  type TransitionContext,
+  type TransitionVeto,
+  type BeforeTransitionHook,
+  type AfterTransitionHook,
+  type Approval,
 } from './publishing/PublishingPipeline';
+export {
+  readRenderBlocks,
+  blocksToHtml,
+  blocksToText,
+  type RenderBlock,
+  type HtmlOptions,
+  type InlineStyles,
+} from './publishing/html';
+export {
+  renderHtmlPage,
+  renderEmailHtml,
+  renderEmailText,
+  renderFeed,
+  type SiteConfig,
+  type FeedEntry,
+  type FeedFormat,
+} from './publishing/renderers';
+export { renderEpub, writeZip, type ZipEntry } from './publishing/epub';
+export { renderPdf, type PdfOptions, type PaperSize } from './publishing/pdf';
 
 // Intelligence
 export {
@@ -131,7 +227,19 @@ export {
   type SearchResult,
   type SearchConfig,
   type SearchScope,
+  type SearchableBlock,
 } from './intelligence/DocumentSearch';
+export {
+  parseSearchQuery,
+  type ParsedQuery,
+  type SearchFilterKey,
+} from './intelligence/SearchQuery';
+export {
+  InvertedIndex,
+  tokenize,
+  type Token,
+  type BM25Params,
+} from './intelligence/InvertedIndex';
 
 // Provenance
 export {
@@ -139,15 +247,50 @@ export {
   type ProvenanceRecord,
   type ProvenanceChain,
   type ProvenanceConfig,
+  type AuthorContribution,
+  type ContributionReport,
 } from './provenance/ContentProvenance';
 
 // Analytics
 export {
   ReadingAnalytics,
+  type ReadingAnalyticsConfig,
+} from './analytics/ReadingAnalytics';
+export {
+  replaySessions,
+  summarizeDocument,
+  aggregateAnalytics,
+  engagementHeatmap,
+  withholdSmallGroups,
+  DEFAULT_MIN_SESSIONS,
   type ReadingSession,
   type DocumentAnalytics,
   type BlockEngagement,
-} from './analytics/ReadingAnalytics';
+  type ReplayOptions,
+} from './analytics/aggregate';
+export {
+  funnelReport,
+  cohortsByDevice,
+  cohortsByWindow,
+  compareRevisions,
+  recreatedBlocks,
+  toReaderData,
+  type FunnelStepInput,
+  type FunnelStep,
+  type FunnelReport,
+  type Cohort,
+  type BlockComparison,
+  type RevisionComparison,
+  type ReaderDataOptions,
+} from './analytics/reports';
+export {
+  MemoryAnalyticsSink,
+  FetchAnalyticsSink,
+  type AnalyticsEvent,
+  type AnalyticsEventType,
+  type AnalyticsSink,
+  type DeviceType,
+} from './analytics/events';
 
 // Dual Index (Amygdala / Hippocampus)
 export {
@@ -210,6 +353,13 @@ export {
   type Capability,
   type ShareAudience,
   type CapabilityGrant,
+  type GrantCaveat,
+  type CapabilityCheck,
+  type CapabilityTraceStep,
+  type DelegationHop,
+  type ChainVerification,
+  type RevocationRecord,
+  type AccessAuditEntry,
 } from './sharing/CapabilitySharing';
 
 // Voice Interface (Edgework STT)
@@ -221,6 +371,25 @@ export {
   type VoiceState,
   type VoiceEvent,
 } from './voice/VoiceInterface';
+export {
+  VoiceBindings,
+  type VoiceBindingsConfig,
+  type ScrollIntent,
+} from './voice/VoiceBindings';
+export {
+  HttpSttBackend,
+  WebSocketSttBackend,
+  ReplaySttBackend,
+  replayAudio,
+  type SttBackend,
+  type SttStream,
+  type SttResult,
+  type SttStartOptions,
+  type SttFixture,
+  type SttSocketLike,
+  type HttpSttBackendOptions,
+  type WebSocketSttBackendOptions,
+} from './voice/stt';
 
 // Layout (Information Economics + ESI Personalization)
 export {
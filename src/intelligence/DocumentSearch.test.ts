@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DocumentSearch } from './DocumentSearch';
+import { parseSearchQuery } from './SearchQuery';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Two-dimensional embeddings: [about launches, about cooking] */
+const LAUNCH = new Float32Array([1, 0]);
+const COOKING = new Float32Array([0, 1]);
+
+function block(
+  id: string,
+  text: string,
+  embedding = COOKING,
+  blockType = 'paragraph',
+  authorDid?: string
+) {
+  return { id, text, embedding, blockType, authorDid };
+}
+
+function createSearch() {
+  return new DocumentSearch({
+    embedQuery: async (query) =>
+      /launch|release/i.test(query) ? LAUNCH : COOKING,
+  });
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('parseSearchQuery', () => {
+  it('parses phrases, exclusions and filters', () => {
+    const parsed = parseSearchQuery(
+      'launch "release notes" -draft -"old plan" type:code -author:did:key:bob doc:"doc 1"'
+    );
+
+    expect(parsed.terms).toEqual(['launch']);
+    expect(parsed.phrases).toEqual([['release', 'notes']]);
+    expect(parsed.excludedTerms).toEqual(['draft']);
+    expect(parsed.excludedPhrases).toEqual([['old', 'plan']]);
+    expect(parsed.include).toEqual({ type: ['code'], doc: ['doc 1'] });
+    expect(parsed.exclude).toEqual({ author: ['did:key:bob'] });
+    expect(parsed.text).toBe('launch "release notes"');
+  });
+});
+
+describe('DocumentSearch', () => {
+  let search: DocumentSearch;
+
+  beforeEach(() => {
+    search = createSearch();
+    search.indexDocument('doc-1', 'Launch Plan', [
+      block('b1', 'The launch checklist for the spring release.', LAUNCH),
+      block('b2', 'Release notes are drafted after launch.', LAUNCH),
+      block(
+        'b3',
+        'const launch = () => ship();',
+        LAUNCH,
+        'code',
+        'did:key:bob'
+      ),
+    ]);
+    search.indexDocument('doc-2', 'Recipes', [
+      block('b1', 'Slow roasted tomatoes with garlic.'),
+      block('b2', 'Notes on release of steam while cooking.', COOKING),
+    ]);
+  });
+
+  it('ranks blocks matched both semantically and by text first', async () => {
+    const results = await search.search('launch');
+
+    expect(results[0].documentId).toBe('doc-1');
+    expect(results.map((r) => r.documentId)).not.toContain('doc-2');
+    const scores = results.map((r) => r.combinedScore);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(results[0].highlights.length).toBeGreaterThan(0);
+  });
+
+  it('requires quoted phrases in order', async () => {
+    const results = await search.search('"release notes"');
+
+    expect(results.map((r) => `${r.documentId}/${r.blockId}`)).toEqual([
+      'doc-1/b2',
+    ]);
+    expect(results[0].highlights).toEqual([{ start: 0, end: 13 }]);
+  });
+
+  it('applies exclusions and filters', async () => {
+    const excluded = await search.search('launch -checklist');
+    expect(excluded.map((r) => r.blockId)).not.toContain('b1');
+
+    const code = await search.search('launch type:code');
+    expect(code.map((r) => r.blockId)).toEqual(['b3']);
+
+    const notBob = await search.search('launch -author:did:key:bob');
+    expect(notBob.map((r) => r.blockId)).not.toContain('b3');
+
+    const scoped = search.quickSearch('release doc:doc-2');
+    expect(scoped.map((r) => r.documentId)).toEqual(['doc-2']);
+  });
+
+  it('matches the last word as a prefix in quick search', () => {
+    const results = search.quickSearch('tomat');
+    expect(results.map((r) => r.blockId)).toEqual(['b1']);
+    expect(results[0].highlights).toEqual([{ start: 13, end: 21 }]);
+  });
+
+  it('updates the index incrementally', () => {
+    search.indexDocument('doc-2', 'Recipes', [
+      block('b1', 'Slow roasted peppers with garlic.'),
+    ]);
+
+    expect(search.getIndexSize()).toBe(4);
+    expect(search.quickSearch('tomatoes ')).toEqual([]);
+    expect(search.quickSearch('peppers ')).toHaveLength(1);
+    expect(search.quickSearch('steam ')).toEqual([]);
+
+    search.removeDocument('doc-1');
+    expect(search.getIndexSize()).toBe(1);
+    expect(search.quickSearch('launch ')).toEqual([]);
+  });
+});
@@ -6,10 +6,17 @@
  * matched results ranked by embedding similarity — not just
  * string matching.
  *
- * Also supports: fuzzy text search as fallback, combined ranking,
- * search-as-you-type with streaming results, and scope filtering.
+ * The text side is a tokenized inverted index scored with BM25; the
+ * two rankings are combined with reciprocal rank fusion. Queries
+ * support quoted phrases, `-exclusion` and `type:`, `doc:` and
+ * `author:` filters (see SearchQuery). Also supports
+ * search-as-you-type with prefix matching, and scope filtering.
  */
 
+import { VectorIndex } from '../core/VectorIndex';
+import { InvertedIndex, tokenize, type Token } from './InvertedIndex';
+import { parseSearchQuery, type ParsedQuery } from './SearchQuery';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface SearchResult {
@@ -23,9 +30,9 @@ export interface SearchResult {
   readonly excerpt: string;
   /** Semantic similarity score (0-1) */
   readonly semanticScore: number;
-  /** Text match score (0-1), if applicable */
+  /** BM25 score relative to the best text match (0-1) */
   readonly textScore: number;
-  /** Combined score */
+  /** Rank-fused score (1 = ranked first by both) */
   readonly combinedScore: number;
   /** Match highlights (character ranges) */
   readonly highlights: Array<{ start: number; end: number }>;
@@ -40,29 +47,51 @@ export interface SearchConfig {
   readonly maxResults?: number;
   /** Semantic weight vs text weight (0 = text only, 1 = semantic only, default: 0.7) */
   readonly semanticWeight?: number;
-  /** Minimum score threshold (default: 0.3) */
+  /** Minimum cosine similarity for a block to rank semantically (default: 0.3) */
   readonly minScore?: number;
+  /** Reciprocal rank fusion constant (default: 60) */
+  readonly rrfK?: number;
+  /** Nearest neighbours considered for the semantic ranking (default: 100) */
+  readonly semanticCandidates?: number;
 }
 
 export type SearchScope = 'document' | 'corpus' | 'all';
 
+/** A block as passed to `indexDocument` */
+export interface SearchableBlock {
+  readonly id: string;
+  readonly text: string;
+  readonly embedding: Float32Array;
+  readonly blockType: string;
+  /** Author DID, for `author:` filters */
+  readonly authorDid?: string;
+}
+
 interface IndexedBlock {
+  readonly key: string;
   readonly blockId: string;
   readonly documentId: string;
-  readonly documentTitle: string;
+  documentTitle: string;
   readonly text: string;
-  readonly textLower: string;
-  readonly embedding: Float32Array;
-  readonly blockType: string;
+  readonly tokens: Token[];
+  embedding: Float32Array;
+  blockType: string;
+  authorDid?: string;
 }
 
+/** Filtered candidate sets up to this size are scored exactly */
+const EXACT_SEARCH_LIMIT = 1000;
+
 // ── Document Search Engine ──────────────────────────────────────────
 
 export class DocumentSearch {
   private config: Required<Omit<SearchConfig, 'embedQuery'>> &
     Pick<SearchConfig, 'embedQuery'>;
-  private blocks: IndexedBlock[] = [];
-  private documentIndex: Map<string, IndexedBlock[]> = new Map();
+  /** All indexed blocks, by document and block ID */
+  private blocks: Map<string, IndexedBlock> = new Map();
+  private documentIndex: Map<string, Map<string, IndexedBlock>> = new Map();
+  private textIndex = new InvertedIndex();
+  private vectorIndex = new VectorIndex();
 
   constructor(config: SearchConfig) {
     this.config = {
@@ -70,49 +99,74 @@ export class DocumentSearch {
       maxResults: config.maxResults ?? 20,
       semanticWeight: config.semanticWeight ?? 0.7,
       minScore: config.minScore ?? 0.3,
+      rrfK: config.rrfK ?? 60,
+      semanticCandidates: config.semanticCandidates ?? 100,
     };
   }
 
   /**
-   * Index a document's blocks for searching.
+   * Index a document's blocks for searching. Re-indexing a document
+   * only re-tokenizes blocks whose text changed and drops blocks that
+   * are gone.
    */
   indexDocument(
     documentId: string,
     documentTitle: string,
-    blocks: Array<{
-      id: string;
-      text: string;
-      embedding: Float32Array;
-      blockType: string;
-    }>
+    blocks: SearchableBlock[]
   ): void {
-    const indexed: IndexedBlock[] = blocks.map((b) => ({
-      blockId: b.id,
-      documentId,
-      documentTitle,
-      text: b.text,
-      textLower: b.text.toLowerCase(),
-      embedding: b.embedding,
-      blockType: b.blockType,
-    }));
-
-    // Replace any existing blocks for this document
-    this.blocks = this.blocks.filter((b) => b.documentId !== documentId);
-    this.blocks.push(...indexed);
-    this.documentIndex.set(documentId, indexed);
+    const previous = this.documentIndex.get(documentId) ?? new Map();
+    const current = new Map<string, IndexedBlock>();
+
+    for (const b of blocks) {
+      const existing = previous.get(b.id);
+      if (existing && existing.text === b.text) {
+        existing.documentTitle = documentTitle;
+        existing.embedding = b.embedding;
+        existing.blockType = b.blockType;
+        existing.authorDid = b.authorDid;
+        this.indexVector(existing);
+        current.set(b.id, existing);
+        continue;
+      }
+
+      const tokens = tokenize(b.text);
+      const indexed: IndexedBlock = {
+        key: blockKey(documentId, b.id),
+        blockId: b.id,
+        documentId,
+        documentTitle,
+        text: b.text,
+        tokens,
+        embedding: b.embedding,
+        blockType: b.blockType,
+        authorDid: b.authorDid,
+      };
+      this.blocks.set(indexed.key, indexed);
+      this.textIndex.add(indexed.key, tokens);
+      this.indexVector(indexed);
+      current.set(b.id, indexed);
+    }
+
+    for (const [blockId, block] of previous) {
+      if (!current.has(blockId)) this.removeBlock(block);
+    }
+    this.documentIndex.set(documentId, current);
   }
 
   /**
    * Remove a document from the index.
    */
   removeDocument(documentId: string): void {
-    this.blocks = this.blocks.filter((b) => b.documentId !== documentId);
+    for (const block of this.documentIndex.get(documentId)?.values() ?? []) {
+      this.removeBlock(block);
+    }
     this.documentIndex.delete(documentId);
   }
 
   /**
-   * Search with a natural language query.
-   * Combines semantic embedding search with text matching.
+   * Search with a query (see SearchQuery for the syntax).
+   * Ranks blocks by embedding similarity (nearest neighbours from the
+   * vector index) and by BM25, then fuses the two rankings.
    */
   async search(
     query: string,
@@ -121,99 +175,278 @@ export class DocumentSearch {
   ): Promise<SearchResult[]> {
     if (!query.trim()) return [];
 
-    const queryLower = query.toLowerCase();
-    const queryEmbedding = await this.config.embedQuery(query);
+    const parsed = parseSearchQuery(query);
+    const candidates = this.candidates(parsed, scope, scopeDocumentId);
+    if (candidates?.length === 0) return [];
+
+    const textScores = this.textScores(parsed, parsed.terms, candidates);
+    const semanticScores = parsed.text.trim()
+      ? this.semanticScores(
+          await this.config.embedQuery(parsed.text),
+          candidates
+        )
+      : new Map<string, number>();
+
+    return this.rank(
+      parsed,
+      parsed.terms,
+      candidates,
+      semanticScores,
+      textScores
+    );
+  }
+
+  /**
+   * Quick text-only search (no embedding computation, instant).
+   * The last word is matched as a prefix while it is being typed.
+   */
+  quickSearch(query: string, scopeDocumentId?: string): SearchResult[] {
+    if (!query.trim()) return [];
+
+    const parsed = parseSearchQuery(query);
+    const candidates = this.candidates(
+      parsed,
+      scopeDocumentId ? 'document' : 'all',
+      scopeDocumentId
+    );
+    if (candidates?.length === 0) return [];
+
+    let terms = parsed.terms;
+    const last = terms.at(-1);
+    if (
+      last &&
+      !/\s$/.test(query) &&
+      query.trimEnd().toLowerCase().endsWith(last)
+    ) {
+      terms = [...terms.slice(0, -1), ...this.textIndex.expandPrefix(last)];
+    }
 
-    // Determine search scope
-    let candidates: IndexedBlock[];
+    const textScores = this.textScores(parsed, terms, candidates);
+    return this.rank(parsed, terms, candidates, new Map(), textScores);
+  }
+
+  /**
+   * Get the total number of indexed blocks.
+   */
+  getIndexSize(): number {
+    return this.blocks.size;
+  }
+
+  // ── Private ───────────────────────────────────────────────────
+
+  private removeBlock(block: IndexedBlock): void {
+    this.blocks.delete(block.key);
+    this.textIndex.remove(block.key);
+    this.vectorIndex.delete(block.key);
+  }
+
+  /** Keep a block's embedding in the vector index */
+  private indexVector(block: IndexedBlock): void {
+    const dims = this.vectorIndex.dimensions;
+    if (
+      block.embedding.length === 0 ||
+      (dims !== 0 && block.embedding.length !== dims)
+    ) {
+      this.vectorIndex.delete(block.key);
+      return;
+    }
+    this.vectorIndex.upsert(block.key, block.embedding);
+  }
+
+  /**
+   * Blocks in scope that pass the filters, phrases and exclusions,
+   * or null when the query doesn't constrain the corpus.
+   */
+  private candidates(
+    parsed: ParsedQuery,
+    scope: SearchScope,
+    scopeDocumentId: string | undefined
+  ): IndexedBlock[] | null {
+    const documents = parsed.include.doc;
+    const constrained =
+      (scope === 'document' && scopeDocumentId !== undefined) ||
+      Object.keys(parsed.include).length > 0 ||
+      Object.keys(parsed.exclude).length > 0 ||
+      parsed.excludedTerms.length > 0 ||
+      parsed.excludedPhrases.length > 0 ||
+      parsed.phrases.length > 0;
+    if (!constrained) return null;
+
+    let pool: Iterable<IndexedBlock>;
     if (scope === 'document' && scopeDocumentId) {
-      candidates = this.documentIndex.get(scopeDocumentId) ?? [];
+      pool = this.documentIndex.get(scopeDocumentId)?.values() ?? [];
+    } else if (documents) {
+      pool = documents.flatMap((id) => [
+        ...(this.documentIndex.get(id)?.values() ?? []),
+      ]);
+    } else if (parsed.phrases.length > 0) {
+      // Only blocks holding the first phrase word can match
+      const keys = this.textIndex.entriesWith(parsed.phrases[0][0]);
+      pool = keys.map((key) => this.blocks.get(key)!);
     } else {
-      candidates = this.blocks;
+      pool = this.blocks.values();
     }
 
-    const semanticWeight = this.config.semanticWeight;
-    const textWeight = 1 - semanticWeight;
+    const matches = (
+      key: 'type' | 'doc' | 'author',
+      value: string | undefined
+    ) => {
+      const included = parsed.include[key];
+      const excluded = parsed.exclude[key];
+      if (included && (value === undefined || !included.includes(value))) {
+        return false;
+      }
+      return !(value !== undefined && excluded?.includes(value));
+    };
+
+    const result: IndexedBlock[] = [];
+    for (const block of pool) {
+      if (!matches('type', block.blockType)) continue;
+      if (!matches('doc', block.documentId)) continue;
+      if (!matches('author', block.authorDid)) continue;
+      if (parsed.excludedTerms.some((t) => this.textIndex.has(block.key, t))) {
+        continue;
+      }
+      if (
+        parsed.excludedPhrases.some(
+          (p) => this.textIndex.phrasePositions(block.key, p).length > 0
+        )
+      ) {
+        continue;
+      }
+      if (
+        !parsed.phrases.every(
+          (p) => this.textIndex.phrasePositions(block.key, p).length > 0
+        )
+      ) {
+        continue;
+      }
+      result.push(block);
+    }
+    return result;
+  }
 
-    const results: SearchResult[] = candidates
-      .map((block) => {
-        // Semantic score
-        const semanticScore = this.cosineSimilarity(
+  /** BM25 over the query's terms and phrase words, limited to candidates */
+  private textScores(
+    parsed: ParsedQuery,
+    terms: string[],
+    candidates: IndexedBlock[] | null
+  ): Map<string, number> {
+    const words = [...terms, ...parsed.phrases.flat()];
+    if (words.length === 0) return new Map();
+
+    const scores = this.textIndex.score(words);
+    if (!candidates) return scores;
+    const inScope = new Map<string, number>();
+    for (const block of candidates) {
+      const score = scores.get(block.key);
+      if (score !== undefined) inScope.set(block.key, score);
+    }
+    return inScope;
+  }
+
+  /**
+   * Cosine similarity of the nearest blocks above `minScore`. Small
+   * candidate sets are scored exactly; otherwise the vector index is
+   * queried, filtered to the candidates.
+   */
+  private semanticScores(
+    queryEmbedding: Float32Array,
+    candidates: IndexedBlock[] | null
+  ): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (candidates && candidates.length <= EXACT_SEARCH_LIMIT) {
+      for (const block of candidates) {
+        const similarity = this.cosineSimilarity(
           queryEmbedding,
           block.embedding
         );
+        if (similarity >= this.config.minScore) {
+          scores.set(block.key, similarity);
+        }
+      }
+      return scores;
+    }
 
-        // Text score (fuzzy substring matching)
-        const textScore = this.textMatchScore(queryLower, block.textLower);
-
-        // Combined
-        const combinedScore =
-          semanticScore * semanticWeight + textScore * textWeight;
-
-        // Find highlights
-        const highlights = this.findHighlights(queryLower, block.textLower);
-
-        return {
-          blockId: block.blockId,
-          documentId: block.documentId,
-          documentTitle: block.documentTitle,
-          excerpt: this.buildExcerpt(block.text, highlights),
-          semanticScore,
-          textScore,
-          combinedScore,
-          highlights,
-          blockType: block.blockType,
-        };
-      })
-      .filter((r) => r.combinedScore >= this.config.minScore)
-      .sort((a, b) => b.combinedScore - a.combinedScore)
-      .slice(0, this.config.maxResults);
-
-    return results;
+    const keys = candidates && new Set(candidates.map((b) => b.key));
+    const matches = this.vectorIndex.search(
+      queryEmbedding,
+      this.config.semanticCandidates,
+      {
+        minSimilarity: this.config.minScore,
+        filter: keys ? (key) => keys.has(key) : undefined,
+      }
+    );
+    for (const { id, similarity } of matches) scores.set(id, similarity);
+    return scores;
   }
 
   /**
-   * Quick text-only search (no embedding computation, instant).
+   * Fuse the semantic and text rankings:
+   * w / (k + rank_semantic) + (1 - w) / (k + rank_text), scaled so
+   * a block ranked first by both scores 1. Only ranked blocks are
+   * returned, except that queries made only of filters list the
+   * matching blocks in index order.
    */
-  quickSearch(query: string, scopeDocumentId?: string): SearchResult[] {
-    if (!query.trim()) return [];
+  private rank(
+    parsed: ParsedQuery,
+    terms: string[],
+    candidates: IndexedBlock[] | null,
+    semanticScores: Map<string, number>,
+    textScores: Map<string, number>
+  ): SearchResult[] {
+    const k = this.config.rrfK;
+    const semanticWeight = this.config.semanticWeight;
+    const textWeight = 1 - semanticWeight;
+    const onlyFilters = terms.length === 0 && parsed.phrases.length === 0;
+
+    const semanticRanks = ranks(semanticScores);
+    const textRanks = ranks(textScores);
+    let maxText = 0;
+    for (const score of textScores.values()) {
+      maxText = Math.max(maxText, score);
+    }
 
-    const queryLower = query.toLowerCase();
-    const candidates = scopeDocumentId
-      ? this.documentIndex.get(scopeDocumentId) ?? []
-      : this.blocks;
+    const pool = onlyFilters
+      ? (candidates ?? [])
+      : Array.from(
+          new Set([...semanticScores.keys(), ...textScores.keys()]),
+          (key) => this.blocks.get(key)!
+        );
 
-    return candidates
-      .map((block) => {
-        const textScore = this.textMatchScore(queryLower, block.textLower);
-        const highlights = this.findHighlights(queryLower, block.textLower);
+    const scored: Array<{ block: IndexedBlock; combinedScore: number }> = [];
+    for (const block of pool) {
+      const semanticRank = semanticRanks.get(block.key);
+      const textRank = textRanks.get(block.key);
+
+      let fused = 0;
+      if (semanticRank !== undefined) {
+        fused += semanticWeight / (k + semanticRank);
+      }
+      if (textRank !== undefined) fused += textWeight / (k + textRank);
+      scored.push({ block, combinedScore: fused * (k + 1) });
+    }
 
+    return scored
+      .sort((a, b) => b.combinedScore - a.combinedScore)
+      .slice(0, this.config.maxResults)
+      .map(({ block, combinedScore }) => {
+        const highlights = this.findHighlights(block, terms, parsed.phrases);
         return {
           blockId: block.blockId,
           documentId: block.documentId,
           documentTitle: block.documentTitle,
           excerpt: this.buildExcerpt(block.text, highlights),
-          semanticScore: 0,
-          textScore,
-          combinedScore: textScore,
+          semanticScore: semanticScores.get(block.key) ?? 0,
+          textScore:
+            maxText > 0 ? (textScores.get(block.key) ?? 0) / maxText : 0,
+          combinedScore,
           highlights,
           blockType: block.blockType,
         };
-      })
-      .filter((r) => r.textScore > 0)
-      .sort((a, b) => b.textScore - a.textScore)
-      .slice(0, this.config.maxResults);
-  }
-
-  /**
-   * Get the total number of indexed blocks.
-   */
-  getIndexSize(): number {
-    return this.blocks.length;
+      });
   }
 
-  // ── Private ───────────────────────────────────────────────────
-
   private cosineSimilarity(a: Float32Array, b: Float32Array): number {
     if (a.length !== b.length) return 0;
     let dot = 0,
@@ -228,51 +461,42 @@ export class DocumentSearch {
     return denom === 0 ? 0 : dot / denom;
   }
 
-  private textMatchScore(query: string, text: string): number {
-    if (text.includes(query)) {
-      // Exact substring match — high score
-      const frequency = text.split(query).length - 1;
-      return Math.min(1, 0.7 + frequency * 0.1);
-    }
-
-    // Word-level matching
-    const queryWords = query.split(/\s+/).filter(Boolean);
-    if (queryWords.length === 0) return 0;
-
-    let matchedWords = 0;
-    for (const word of queryWords) {
-      if (text.includes(word)) matchedWords++;
-    }
-
-    return (matchedWords / queryWords.length) * 0.6;
-  }
-
+  /** Character ranges of matched terms and phrases, merged */
   private findHighlights(
-    query: string,
-    textLower: string
+    block: IndexedBlock,
+    terms: string[],
+    phrases: string[][]
   ): Array<{ start: number; end: number }> {
-    const highlights: Array<{ start: number; end: number }> = [];
-
-    // Find all occurrences of the full query
-    let idx = textLower.indexOf(query);
-    while (idx !== -1) {
-      highlights.push({ start: idx, end: idx + query.length });
-      idx = textLower.indexOf(query, idx + 1);
+    const ranges: Array<{ start: number; end: number }> = [];
+    const termSet = new Set(terms);
+    for (const token of block.tokens) {
+      if (termSet.has(token.term)) {
+        ranges.push({ start: token.start, end: token.end });
+      }
     }
-
-    // Also find individual word matches
-    if (highlights.length === 0) {
-      const words = query.split(/\s+/).filter(Boolean);
-      for (const word of words) {
-        let widx = textLower.indexOf(word);
-        while (widx !== -1) {
-          highlights.push({ start: widx, end: widx + word.length });
-          widx = textLower.indexOf(word, widx + 1);
-        }
+    for (const phrase of phrases) {
+      for (const position of this.textIndex.phrasePositions(
+        block.key,
+        phrase
+      )) {
+        ranges.push({
+          start: block.tokens[position].start,
+          end: block.tokens[position + phrase.length - 1].end,
+        });
       }
     }
 
-    return highlights.sort((a, b) => a.start - b.start);
+    ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const range of ranges) {
+      const last = merged.at(-1);
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+    return merged;
   }
 
   private buildExcerpt(
@@ -294,3 +518,13 @@ export class DocumentSearch {
     return excerpt;
   }
 }
+
+function blockKey(documentId: string, blockId: string): string {
+  return `${documentId}\u0000${blockId}`;
+}
+
+/** 1-based rank of each key by descending score */
+function ranks(scores: Map<string, number>): Map<string, number> {
+  const ordered = [...scores].sort((a, b) => b[1] - a[1]);
+  return new Map(ordered.map(([key], i) => [key, i + 1]));
+}
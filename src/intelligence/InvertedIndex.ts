@@ -0,0 +1,173 @@
+/**
+ * InvertedIndex — Tokenized postings with BM25 scoring
+ *
+ * The text side of DocumentSearch. Each entry's text is tokenized
+ * once on insert; postings keep token positions so quoted phrases
+ * can be matched without rescanning the text. Entries are added and
+ * removed individually, so re-indexing one block touches only the
+ * postings of that block.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface Token {
+  /** Normalized term */
+  readonly term: string;
+  /** Token index within the text */
+  readonly position: number;
+  /** Character range in the original text */
+  readonly start: number;
+  readonly end: number;
+}
+
+export interface BM25Params {
+  /** Term frequency saturation (default: 1.2) */
+  readonly k1?: number;
+  /** Length normalization (default: 0.75) */
+  readonly b?: number;
+}
+
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+/** Split text into lowercase word tokens with their offsets */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD)) {
+    tokens.push({
+      term: match[0].toLowerCase().replace(/’/g, "'"),
+      position: tokens.length,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+// ── Inverted Index ──────────────────────────────────────────────────
+
+export class InvertedIndex {
+  /** term → entry key → token positions */
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  /** Token count per entry */
+  private lengths: Map<string, number> = new Map();
+  /** Distinct terms per entry, for removal */
+  private entryTerms: Map<string, string[]> = new Map();
+  private totalLength = 0;
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(params: BM25Params = {}) {
+    this.k1 = params.k1 ?? 1.2;
+    this.b = params.b ?? 0.75;
+  }
+
+  /**
+   * Index an entry's tokens, replacing any previous version.
+   */
+  add(key: string, tokens: Token[]): void {
+    this.remove(key);
+
+    const positions = new Map<string, number[]>();
+    for (const token of tokens) {
+      const list = positions.get(token.term);
+      if (list) list.push(token.position);
+      else positions.set(token.term, [token.position]);
+    }
+
+    for (const [term, list] of positions) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(key, list);
+    }
+    this.entryTerms.set(key, [...positions.keys()]);
+    this.lengths.set(key, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove an entry from the index.
+   */
+  remove(key: string): void {
+    const terms = this.entryTerms.get(key);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      posting.delete(key);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= this.lengths.get(key) ?? 0;
+    this.entryTerms.delete(key);
+    this.lengths.delete(key);
+  }
+
+  /** Number of indexed entries */
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  /** Whether an entry contains a term */
+  has(key: string, term: string): boolean {
+    return this.postings.get(term)?.has(key) ?? false;
+  }
+
+  /** Entries containing a term */
+  entriesWith(term: string): string[] {
+    return [...(this.postings.get(term)?.keys() ?? [])];
+  }
+
+  /** Indexed terms starting with a prefix */
+  expandPrefix(prefix: string): string[] {
+    const terms: string[] = [];
+    for (const term of this.postings.keys()) {
+      if (term.startsWith(prefix)) terms.push(term);
+    }
+    return terms;
+  }
+
+  /**
+   * Start positions of a phrase (consecutive terms) in an entry.
+   */
+  phrasePositions(key: string, phrase: string[]): number[] {
+    if (phrase.length === 0) return [];
+    const lists = phrase.map((term) => this.postings.get(term)?.get(key));
+    if (lists.some((list) => !list)) return [];
+
+    const rest = lists.slice(1).map((list) => new Set(list));
+    return lists[0]!.filter((start) =>
+      rest.every((positions, i) => positions.has(start + i + 1))
+    );
+  }
+
+  /**
+   * BM25 scores of every entry matching at least one term.
+   * Repeated query terms count once.
+   */
+  score(terms: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    const n = this.lengths.size;
+    if (n === 0) return scores;
+    const averageLength = this.totalLength / n || 1;
+
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const df = posting.size;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      for (const [key, positions] of posting) {
+        const tf = positions.length;
+        const length = this.lengths.get(key) ?? 0;
+        const norm = this.k1 * (1 - this.b + (this.b * length) / averageLength);
+        const score = (idf * tf * (this.k1 + 1)) / (tf + norm);
+        scores.set(key, (scores.get(key) ?? 0) + score);
+      }
+    }
+
+    return scores;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * SearchQuery — Query syntax for DocumentSearch
+ *
+ *   launch plan              free terms, ranked
+ *   "release notes"          phrase, required (one word: required term)
+ *   -draft  -"old plan"      excluded term or phrase
+ *   type:code                block type filter
+ *   doc:<id>                 document filter
+ *   author:<did>             block author filter
+ *
+ * Filters of the same key are alternatives (`type:code type:table`
+ * matches either); a leading `-` negates a filter. Filter values may
+ * be quoted. Unknown `key:value` tokens are treated as free text.
+ */
+
+import { tokenize } from './InvertedIndex';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type SearchFilterKey = 'type' | 'doc' | 'author';
+
+export interface ParsedQuery {
+  /** Free terms, normalized */
+  readonly terms: string[];
+  /** Required phrases, as normalized term sequences */
+  readonly phrases: string[][];
+  /** Terms that exclude a block */
+  readonly excludedTerms: string[];
+  /** Phrases that exclude a block */
+  readonly excludedPhrases: string[][];
+  /** Accepted values per filter; a block must match each key present */
+  readonly include: Partial<Record<SearchFilterKey, string[]>>;
+  /** Rejected values per filter */
+  readonly exclude: Partial<Record<SearchFilterKey, string[]>>;
+  /** Free terms and phrases as written, for embedding */
+  readonly text: string;
+}
+
+const FILTER_KEYS = new Set<string>(['type', 'doc', 'author']);
+
+/** `-`? then `key:`? then a quoted string or a bare word */
+const CLAUSE = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+// ── Parser ──────────────────────────────────────────────────────────
+
+export function parseSearchQuery(query: string): ParsedQuery {
+  const terms: string[] = [];
+  const phrases: string[][] = [];
+  const excludedTerms: string[] = [];
+  const excludedPhrases: string[][] = [];
+  const include: Partial<Record<SearchFilterKey, string[]>> = {};
+  const exclude: Partial<Record<SearchFilterKey, string[]>> = {};
+  const text: string[] = [];
+
+  for (const match of query.matchAll(CLAUSE)) {
+    const [clause, negation, rawKey, quoted, bare] = match;
+    const negated = negation === '-';
+    const key = rawKey?.toLowerCase();
+    const value = quoted ?? bare ?? '';
+
+    if (key && FILTER_KEYS.has(key)) {
+      if (value === '') continue;
+      const target = negated ? exclude : include;
+      (target[key as SearchFilterKey] ??= []).push(value);
+      continue;
+    }
+
+    // Unknown keys are part of the text
+    const words = tokenize(key ? `${rawKey}:${value}` : value).map(
+      (t) => t.term
+    );
+    if (words.length === 0) continue;
+
+    if (quoted !== undefined) {
+      (negated ? excludedPhrases : phrases).push(words);
+    } else {
+      (negated ? excludedTerms : terms).push(...words);
+    }
+    if (!negated) text.push(clause);
+  }
+
+  return {
+    terms,
+    phrases,
+    excludedTerms,
+    excludedPhrases,
+    include,
+    exclude,
+    text: text.join(' '),
+  };
+}
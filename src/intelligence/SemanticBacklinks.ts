@@ -10,8 +10,14 @@
  * we surface that connection. No explicit link needed.
  *
  * The link graph emerges from the vector space.
+ *
+ * Indexed blocks share one approximate nearest-neighbour index, which
+ * answers both the per-document neighbours and, when no corpus query
+ * is configured, cross-document discovery.
  */
 
+import { VectorIndex } from '../core/VectorIndex';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface Backlink {
@@ -54,7 +60,10 @@ export interface BacklinkConfig {
   readonly maxBacklinksPerBlock?: number;
   /** Whether to search across documents (default: true) */
   readonly crossDocument?: boolean;
-  /** Function to query other documents' embeddings */
+  /**
+   * Function to query other documents' embeddings. Defaults to the
+   * blocks of other documents indexed here.
+   */
   readonly queryCorpus?: (
     embedding: Float32Array,
     topK: number
@@ -69,6 +78,15 @@ export interface BacklinkConfig {
   >;
 }
 
+interface IndexedBlock {
+  readonly blockId: string;
+  readonly documentId: string;
+  readonly documentTitle: string;
+  readonly text: string;
+  readonly position: number;
+  readonly entities: Array<{ canonical: string; type: string }>;
+}
+
 // ── Semantic Backlinks Engine ────────────────────────────────────────
 
 export class SemanticBacklinks {
@@ -80,6 +98,12 @@ export class SemanticBacklinks {
     outgoing: new Map(),
   };
   private explicitLinks: Map<string, Set<string>> = new Map();
+  /** Embeddings of every indexed block, keyed by document and block */
+  private vectors = new VectorIndex();
+  private indexedBlocks: Map<string, IndexedBlock> = new Map();
+  private documentBlocks: Map<string, string[]> = new Map();
+  /** Block ID → document ID, for excluding a block's own document */
+  private blockDocuments: Map<string, string> = new Map();
   private listeners: Set<(blockId: string, backlinks: Backlink[]) => void> =
     new Set();
 
@@ -116,49 +140,85 @@ export class SemanticBacklinks {
       }
     }
 
-    // Compute pairwise similarity within document
-    for (let i = 0; i < blocks.length; i++) {
-      const backlinks: Backlink[] = [];
+    // Replace this document's blocks in the vector index
+    this.removeDocument(documentId);
+    const keys: string[] = [];
+    blocks.forEach((block, position) => {
+      const key = blockKey(documentId, block.id);
+      keys.push(key);
+      this.indexedBlocks.set(key, {
+        blockId: block.id,
+        documentId,
+        documentTitle,
+        text: block.text,
+        position,
+        entities: block.entities,
+      });
+      this.blockDocuments.set(block.id, documentId);
+      this.indexVector(key, block.embedding);
+    });
+    this.documentBlocks.set(documentId, keys);
 
-      for (let j = 0; j < blocks.length; j++) {
-        if (i === j) continue;
+    // Nearest neighbours within the document
+    blocks.forEach((block, i) => {
+      const neighbors = this.vectors.search(
+        block.embedding,
+        this.config.maxBacklinksPerBlock + 1,
+        {
+          minSimilarity: this.config.similarityThreshold,
+          filter: (key) =>
+            key !== keys[i] &&
+            this.indexedBlocks.get(key)?.documentId === documentId,
+        }
+      );
 
-        const sim = this.cosineSimilarity(
-          blocks[i].embedding,
-          blocks[j].embedding
-        );
-        if (sim < this.config.similarityThreshold) continue;
+      const backlinks: Backlink[] = neighbors.map(({ id, similarity }) => {
+        const source = this.indexedBlocks.get(id)!;
 
         // Check for entity coreference
-        const sharedEntities = blocks[i].entities.filter((e) =>
-          blocks[j].entities.some((f) => f.canonical === e.canonical)
+        const sharedEntities = block.entities.filter((e) =>
+          source.entities.some((f) => f.canonical === e.canonical)
         );
 
         const linkType: BacklinkType =
           sharedEntities.length > 0
             ? 'entity-coref'
-            : Math.abs(i - j) === 1
-            ? 'continuation'
-            : 'semantic';
+            : Math.abs(i - source.position) === 1
+              ? 'continuation'
+              : 'semantic';
 
-        backlinks.push({
-          sourceBlockId: blocks[j].id,
+        return {
+          sourceBlockId: source.blockId,
           sourceDocumentId: documentId,
           sourceDocumentTitle: documentTitle,
-          sourceExcerpt: blocks[j].text.slice(0, 120),
+          sourceExcerpt: source.text.slice(0, 120),
           linkType,
-          similarity: sim,
+          similarity,
           isExplicit: false,
           discoveredAt: new Date().toISOString(),
-        });
-      }
+        };
+      });
 
-      // Sort by similarity, limit
-      backlinks.sort((a, b) => b.similarity - a.similarity);
-      const limited = backlinks.slice(0, this.config.maxBacklinksPerBlock);
+      this.index.incoming.set(
+        block.id,
+        backlinks.slice(0, this.config.maxBacklinksPerBlock)
+      );
+    });
+  }
 
-      this.index.incoming.set(blocks[i].id, limited);
+  /**
+   * Drop a document's blocks from the vector index.
+   */
+  removeDocument(documentId: string): void {
+    for (const key of this.documentBlocks.get(documentId) ?? []) {
+      const block = this.indexedBlocks.get(key);
+      if (block && this.blockDocuments.get(block.blockId) === documentId) {
+        this.blockDocuments.delete(block.blockId);
+      }
+      this.indexedBlocks.delete(key);
+      this.vectors.delete(key);
     }
+    this.documentBlocks.delete(documentId);
   }
 
   /**
@@ -168,12 +228,14 @@ export class SemanticBacklinks {
     blockId: string,
     embedding: Float32Array
   ): Promise<Backlink[]> {
-    if (!this.config.crossDocument || !this.config.queryCorpus) return [];
+    if (!this.config.crossDocument) return [];
 
-    const results = await this.config.queryCorpus(
-      embedding,
-      this.config.maxBacklinksPerBlock
-    );
+    const results = this.config.queryCorpus
+      ? await this.config.queryCorpus(
+          embedding,
+          this.config.maxBacklinksPerBlock
+        )
+      : this.queryIndexedCorpus(blockId, embedding);
 
     const backlinks: Backlink[] = results
       .filter((r) => r.similarity >= this.config.similarityThreshold)
@@ -258,18 +320,42 @@ export class SemanticBacklinks {
     return Array.from(matches, (m) => m[1]);
   }
 
-  private cosineSimilarity(a: Float32Array, b: Float32Array): number {
-    if (a.length !== b.length) return 0;
-    let dot = 0,
-      magA = 0,
-      magB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      magA += a[i] * a[i];
-      magB += b[i] * b[i];
+  /** Nearest blocks of other indexed documents */
+  private queryIndexedCorpus(
+    blockId: string,
+    embedding: Float32Array
+  ): Array<{
+    blockId: string;
+    documentId: string;
+    documentTitle: string;
+    text: string;
+    similarity: number;
+  }> {
+    const ownDocument = this.blockDocuments.get(blockId);
+    return this.vectors
+      .search(embedding, this.config.maxBacklinksPerBlock, {
+        minSimilarity: this.config.similarityThreshold,
+        filter: (key) =>
+          this.indexedBlocks.get(key)?.documentId !== ownDocument,
+      })
+      .map(({ id, similarity }) => {
+        const block = this.indexedBlocks.get(id)!;
+        return {
+          blockId: block.blockId,
+          documentId: block.documentId,
+          documentTitle: block.documentTitle,
+          text: block.text,
+          similarity,
+        };
+      });
+  }
+
+  private indexVector(key: string, embedding: Float32Array): void {
+    const dims = this.vectors.dimensions;
+    if (embedding.length === 0 || (dims !== 0 && embedding.length !== dims)) {
+      return;
     }
-    const denom = Math.sqrt(magA) * Math.sqrt(magB);
-    return denom === 0 ? 0 : dot / denom;
+    this.vectors.upsert(key, embedding);
   }
 
   private notify(blockId: string, backlinks: Backlink[]): void {
@@ -278,3 +364,7 @@ export class SemanticBacklinks {
     }
   }
 }
+
+function blockKey(documentId: string, blockId: string): string {
+  return `${documentId}\u0000${blockId}`;
+}
@@ -14,8 +14,13 @@
  *
  * The document becomes a composition. Each block is a phrase.
  * Navigate by listening. Edit by ear.
+ *
+ * `play` needs a live AudioContext; `renderWav` and `renderMidi` render
+ * the same voicings offline (see `offlineAudio.ts`).
  */
 
+import { renderMidi, renderWav } from './offlineAudio';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface AudioProjectionConfig {
@@ -240,6 +245,21 @@ export class AudioProjection {
     this.scheduleVoicing(voicing, this.ctx.currentTime + 0.05);
   }
 
+  /**
+   * Render voicings to a WAV file at the configured volume, without
+   * an AudioContext.
+   */
+  renderWav(voicings: BlockVoicing[], sampleRate?: number): Uint8Array {
+    return renderWav(voicings, { sampleRate, volume: this.config.volume });
+  }
+
+  /**
+   * Render voicings as a Standard MIDI File at the configured tempo.
+   */
+  renderMidi(voicings: BlockVoicing[]): Uint8Array {
+    return renderMidi(voicings, { tempo: this.config.tempo });
+  }
+
   /**
    * Stop playback.
    */
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeWav,
+  midiNote,
+  renderMidi,
+  renderVoicings,
+  renderWav,
+} from './offlineAudio';
+import { AudioProjection, type BlockVoicing } from './AudioProjection';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const SAMPLE_RATE = 8000;
+
+function voicing(overrides: Partial<BlockVoicing> = {}): BlockVoicing {
+  return {
+    blockId: 'b1',
+    pitch: 440,
+    duration: 0.5,
+    volume: 1,
+    pan: 0,
+    waveform: 'sine',
+    envelope: { attack: 0.1, decay: 0.1, sustain: 0.5, release: 0.1 },
+    filterCutoff: 3000,
+    harmonics: [],
+    ...overrides,
+  };
+}
+
+function peak(samples: Float32Array, from = 0, to = samples.length): number {
+  let max = 0;
+  for (let i = from; i < to; i++) max = Math.max(max, Math.abs(samples[i]));
+  return max;
+}
+
+function ascii(bytes: Uint8Array, from: number, to: number): string {
+  return String.fromCharCode(...bytes.subarray(from, to));
+}
+
+// ── PCM ─────────────────────────────────────────────────────────────
+
+describe('renderVoicings', () => {
+  it('renders voicings back to back', () => {
+    const audio = renderVoicings(
+      [voicing(), voicing({ blockId: 'b2', duration: 0.25 })],
+      { sampleRate: SAMPLE_RATE }
+    );
+    expect(audio.left).toHaveLength(6000);
+    expect(audio.right).toHaveLength(6000);
+    // Both envelopes start and end silent
+    expect(audio.left[0]).toBe(0);
+    expect(peak(audio.left, 3990, 4010)).toBeLessThan(0.05);
+    expect(peak(audio.left, 4000, 6000)).toBeGreaterThan(0.1);
+  });
+
+  it('shapes the note with its envelope', () => {
+    const { left } = renderVoicings([voicing()], {
+      sampleRate: SAMPLE_RATE,
+      volume: 1,
+    });
+    const center = Math.SQRT1_2;
+    // Attack peaks at the volume, the sustain holds at half of it
+    expect(peak(left, 750, 850)).toBeCloseTo(center, 1);
+    expect(peak(left, 2000, 3000)).toBeCloseTo(center * 0.5, 1);
+  });
+
+  it('pans between the channels', () => {
+    const hardLeft = renderVoicings([voicing({ pan: -1 })], {
+      sampleRate: SAMPLE_RATE,
+    });
+    expect(peak(hardLeft.left)).toBeGreaterThan(0.3);
+    expect(peak(hardLeft.right)).toBeLessThan(1e-6);
+
+    const center = renderVoicings([voicing()], { sampleRate: SAMPLE_RATE });
+    expect(Array.from(center.left)).toEqual(Array.from(center.right));
+  });
+
+  it('filters out frequencies above the cutoff', () => {
+    const render = (filterCutoff: number) =>
+      peak(
+        renderVoicings([voicing({ pitch: 1500, filterCutoff })], {
+          sampleRate: SAMPLE_RATE,
+        }).left,
+        1600,
+        2400
+      );
+    expect(render(200)).toBeLessThan(render(3900) / 10);
+  });
+
+  it('adds harmonics and supports every waveform', () => {
+    const plain = renderVoicings([voicing({ pitch: 220 })], {
+      sampleRate: SAMPLE_RATE,
+    });
+    const rich = renderVoicings(
+      [voicing({ pitch: 220, harmonics: [0.5, 0.33] })],
+      { sampleRate: SAMPLE_RATE }
+    );
+    expect(Array.from(rich.left)).not.toEqual(Array.from(plain.left));
+
+    for (const waveform of ['square', 'sawtooth', 'triangle'] as const) {
+      const { left } = renderVoicings([voicing({ waveform })], {
+        sampleRate: SAMPLE_RATE,
+      });
+      expect(peak(left)).toBeGreaterThan(0.3);
+    }
+  });
+});
+
+// ── WAV ─────────────────────────────────────────────────────────────
+
+describe('renderWav', () => {
+  it('writes a 16-bit stereo PCM WAV file', () => {
+    const wav = renderWav([voicing()], { sampleRate: SAMPLE_RATE });
+    const view = new DataView(wav.buffer);
+
+    expect(ascii(wav, 0, 4)).toBe('RIFF');
+    expect(ascii(wav, 8, 16)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(SAMPLE_RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(wav, 36, 40)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(4000 * 4);
+    expect(wav).toHaveLength(44 + 4000 * 4);
+  });
+
+  it('renders the same bytes every time', () => {
+    const voicings = [voicing(), voicing({ pan: 0.5, waveform: 'sawtooth' })];
+    expect(renderWav(voicings, { sampleRate: SAMPLE_RATE })).toEqual(
+      renderWav(voicings, { sampleRate: SAMPLE_RATE })
+    );
+  });
+
+  it('clips samples outside the 16-bit range', () => {
+    const wav = encodeWav({
+      sampleRate: SAMPLE_RATE,
+      left: new Float32Array([2]),
+      right: new Float32Array([-2]),
+    });
+    const view = new DataView(wav.buffer);
+    expect(view.getInt16(44, true)).toBe(32767);
+    expect(view.getInt16(46, true)).toBe(-32768);
+  });
+});
+
+// ── MIDI ────────────────────────────────────────────────────────────
+
+describe('renderMidi', () => {
+  it('writes one note per block with its ID as a marker', () => {
+    const midi = renderMidi(
+      [
+        voicing({ duration: 0.5, volume: 1 }),
+        voicing({ blockId: 'b2', pitch: 220, pan: -1, volume: 0 }),
+      ],
+      { tempo: 60, ticksPerBeat: 100 }
+    );
+    const view = new DataView(midi.buffer);
+
+    expect(ascii(midi, 0, 4)).toBe('MThd');
+    expect(view.getUint16(8)).toBe(0);
+    expect(view.getUint16(12)).toBe(100);
+    expect(ascii(midi, 14, 18)).toBe('MTrk');
+    expect(view.getUint32(18)).toBe(midi.length - 22);
+
+    const track = Array.from(midi.subarray(22));
+    // Tempo: one second per beat
+    expect(track.slice(0, 7)).toEqual([0, 0xff, 0x51, 3, 0x0f, 0x42, 0x40]);
+    // Marker, pan, note on, then note off after 50 ticks
+    expect(track.slice(7, 24)).toEqual([
+      0, 0xff, 0x06, 2, 0x62, 0x31, 0, 0xb0, 0x0a, 64, 0, 0x90, 69, 127, 50,
+      0x80, 69,
+    ]);
+    expect(track.slice(25, 31)).toEqual([0, 0xff, 0x06, 2, 0x62, 0x32]);
+    expect(track.slice(31, 42)).toEqual([
+      0, 0xb0, 0x0a, 0, 0, 0x90, 57, 1, 50, 0x80, 57,
+    ]);
+    expect(track.slice(-4)).toEqual([0, 0xff, 0x2f, 0]);
+  });
+
+  it('never steps back when a note is shorter than a tick', () => {
+    const midi = renderMidi(
+      [voicing({ duration: 0.001 }), voicing({ blockId: 'b2' })],
+      { tempo: 60, ticksPerBeat: 100 }
+    );
+    const track = Array.from(midi.subarray(22));
+    // Note off one tick in, then the next marker right after it
+    expect(track.slice(21, 27)).toEqual([1, 0x80, 69, 0, 0, 0xff]);
+  });
+
+  it('rejects invalid channels', () => {
+    expect(() => renderMidi([], { channel: 16 })).toThrow(
+      'Invalid MIDI channel: 16'
+    );
+  });
+
+  it('maps frequencies to the nearest note', () => {
+    expect(midiNote(440)).toBe(69);
+    expect(midiNote(261.63)).toBe(60);
+    expect(midiNote(450)).toBe(69);
+    expect(midiNote(1e6)).toBe(127);
+  });
+});
+
+// ── AudioProjection ─────────────────────────────────────────────────
+
+describe('AudioProjection offline rendering', () => {
+  it('renders with the configured volume and tempo', () => {
+    const projection = new AudioProjection({ volume: 0.2, tempo: 120 });
+    const voicings = [voicing()];
+
+    expect(projection.renderWav(voicings, SAMPLE_RATE)).toEqual(
+      renderWav(voicings, { sampleRate: SAMPLE_RATE, volume: 0.2 })
+    );
+    expect(projection.renderMidi(voicings)).toEqual(
+      renderMidi(voicings, { tempo: 120 })
+    );
+  });
+});
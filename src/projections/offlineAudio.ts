@@ -0,0 +1,315 @@
+/**
+ * Offline audio — AudioProjection voicings rendered without Web Audio
+ *
+ * `AudioProjection.play` schedules oscillators on a live AudioContext.
+ * These functions render the same voicings to sample buffers instead,
+ * in plain TypeScript, so a document's sonification can be exported,
+ * published and checked in tests. The signal chain mirrors `play`:
+ *
+ *   oscillator + sine harmonics → ADSR envelope → low-pass filter
+ *     → stereo panner → master volume
+ *
+ * Oscillators are not band-limited, and the reverb is left out. Output
+ * depends only on the voicings and options, so renders are repeatable
+ * byte for byte.
+ *
+ * `renderMidi` writes the voicings as a Standard MIDI File instead:
+ * one note per block, with the block ID as a marker.
+ */
+
+import type { BlockVoicing } from './AudioProjection';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface OfflineRenderOptions {
+  /** Samples per second (default: 44100) */
+  readonly sampleRate?: number;
+  /** Master volume (0-1, default: 0.6) */
+  readonly volume?: number;
+}
+
+/** Rendered stereo audio, one buffer per channel */
+export interface PcmAudio {
+  readonly sampleRate: number;
+  readonly left: Float32Array;
+  readonly right: Float32Array;
+}
+
+export interface MidiRenderOptions {
+  /** Tempo in BPM, written to the file (default: 72) */
+  readonly tempo?: number;
+  /** Ticks per quarter note (default: 480) */
+  readonly ticksPerBeat?: number;
+  /** MIDI channel, 0-15 (default: 0) */
+  readonly channel?: number;
+}
+
+/** Resonance of the low-pass filter, in dB as for a BiquadFilterNode */
+const FILTER_Q_DB = 1;
+/** Gain of each harmonic relative to its weight, as in `play` */
+const HARMONIC_GAIN = 0.3;
+
+// ── PCM ─────────────────────────────────────────────────────────────
+
+/**
+ * Render voicings back to back, starting at time zero, like `play`
+ * does from the moment it starts.
+ */
+export function renderVoicings(
+  voicings: readonly BlockVoicing[],
+  options: OfflineRenderOptions = {}
+): PcmAudio {
+  const sampleRate = options.sampleRate ?? 44100;
+  if (!(sampleRate > 0)) throw new Error(`Invalid sample rate: ${sampleRate}`);
+  const volume = options.volume ?? 0.6;
+
+  const totalSeconds = voicings.reduce((sum, v) => sum + v.duration, 0);
+  const frames = Math.round(totalSeconds * sampleRate);
+  const left = new Float32Array(frames);
+  const right = new Float32Array(frames);
+
+  let startTime = 0;
+  for (const voicing of voicings) {
+    const start = Math.round(startTime * sampleRate);
+    const length = Math.min(
+      Math.round(voicing.duration * sampleRate),
+      frames - start
+    );
+    startTime += voicing.duration;
+
+    const filter = lowPass(voicing.filterCutoff, sampleRate);
+    // Equal-power panning, as a StereoPannerNode does for mono input
+    const angle = ((clamp(voicing.pan, -1, 1) + 1) * Math.PI) / 4;
+    const gainLeft = Math.cos(angle) * volume;
+    const gainRight = Math.sin(angle) * volume;
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      let sample = oscillator(voicing.waveform, voicing.pitch * t);
+      for (let h = 0; h < voicing.harmonics.length; h++) {
+        sample +=
+          Math.sin(2 * Math.PI * voicing.pitch * (h + 2) * t) *
+          voicing.harmonics[h] *
+          HARMONIC_GAIN;
+      }
+      const out = filter(sample * envelopeAt(voicing, t));
+      left[start + i] += out * gainLeft;
+      right[start + i] += out * gainRight;
+    }
+  }
+
+  return { sampleRate, left, right };
+}
+
+/** Encode stereo audio as a 16-bit PCM WAV file; samples are clipped */
+export function encodeWav(audio: PcmAudio): Uint8Array {
+  const frames = audio.left.length;
+  const dataSize = frames * 4;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  writeAscii(bytes, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(bytes, 8, 'WAVE');
+  writeAscii(bytes, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 2, true); // channels
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 4, true); // byte rate
+  view.setUint16(32, 4, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(bytes, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < frames; i++) {
+    view.setInt16(44 + i * 4, toInt16(audio.left[i]), true);
+    view.setInt16(46 + i * 4, toInt16(audio.right[i]), true);
+  }
+  return bytes;
+}
+
+/** Render voicings to a WAV file */
+export function renderWav(
+  voicings: readonly BlockVoicing[],
+  options: OfflineRenderOptions = {}
+): Uint8Array {
+  return encodeWav(renderVoicings(voicings, options));
+}
+
+// ── MIDI ────────────────────────────────────────────────────────────
+
+/**
+ * Write voicings as a format 0 Standard MIDI File. Each block is one
+ * note at the nearest pitch, with velocity from its volume, preceded
+ * by a marker holding the block ID and a pan controller change.
+ */
+export function renderMidi(
+  voicings: readonly BlockVoicing[],
+  options: MidiRenderOptions = {}
+): Uint8Array {
+  const tempo = options.tempo ?? 72;
+  const ticksPerBeat = options.ticksPerBeat ?? 480;
+  const channel = options.channel ?? 0;
+  if (!(tempo > 0)) throw new Error(`Invalid tempo: ${tempo}`);
+  if (channel < 0 || channel > 15 || !Number.isInteger(channel)) {
+    throw new Error(`Invalid MIDI channel: ${channel}`);
+  }
+
+  const ticksAt = (seconds: number) =>
+    Math.round((seconds * tempo * ticksPerBeat) / 60);
+  const track: number[] = [];
+  let lastTick = 0;
+  // A note stretched to one tick can end after the next one starts
+  const event = (tick: number, ...data: number[]) => {
+    tick = Math.max(tick, lastTick);
+    track.push(...variableLength(tick - lastTick), ...data);
+    lastTick = tick;
+  };
+
+  const microsPerBeat = Math.round(60_000_000 / tempo);
+  event(
+    0,
+    0xff,
+    0x51,
+    0x03,
+    (microsPerBeat >> 16) & 0xff,
+    (microsPerBeat >> 8) & 0xff,
+    microsPerBeat & 0xff
+  );
+
+  let startTime = 0;
+  for (const voicing of voicings) {
+    const start = ticksAt(startTime);
+    startTime += voicing.duration;
+    const end = Math.max(start + 1, ticksAt(startTime));
+
+    const marker = new TextEncoder().encode(voicing.blockId);
+    event(start, 0xff, 0x06, ...variableLength(marker.length), ...marker);
+    event(
+      start,
+      0xb0 | channel,
+      0x0a,
+      Math.round(((clamp(voicing.pan, -1, 1) + 1) / 2) * 127)
+    );
+    const note = midiNote(voicing.pitch);
+    const velocity = Math.round(clamp(voicing.volume, 0, 1) * 126) + 1;
+    event(start, 0x90 | channel, note, velocity);
+    event(end, 0x80 | channel, note, 0);
+  }
+  event(lastTick, 0xff, 0x2f, 0x00);
+
+  const bytes = new Uint8Array(22 + track.length);
+  const view = new DataView(bytes.buffer);
+  writeAscii(bytes, 0, 'MThd');
+  view.setUint32(4, 6);
+  view.setUint16(8, 0); // format 0
+  view.setUint16(10, 1); // one track
+  view.setUint16(12, ticksPerBeat);
+  writeAscii(bytes, 14, 'MTrk');
+  view.setUint32(18, track.length);
+  bytes.set(track, 22);
+  return bytes;
+}
+
+/** Nearest MIDI note number for a frequency (A4 = 440 Hz = 69) */
+export function midiNote(frequency: number): number {
+  return clamp(Math.round(69 + 12 * Math.log2(frequency / 440)), 0, 127);
+}
+
+// ── Signal ──────────────────────────────────────────────────────────
+
+/** One sample of a waveform after `cycles` periods, starting at zero */
+function oscillator(waveform: OscillatorType, cycles: number): number {
+  const phase = cycles - Math.floor(cycles);
+  switch (waveform) {
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'sawtooth':
+      return 2 * ((phase + 0.5) % 1) - 1;
+    case 'triangle':
+      return 1 - 4 * Math.abs(((phase + 0.25) % 1) - 0.5);
+    default:
+      return Math.sin(2 * Math.PI * phase);
+  }
+}
+
+/**
+ * Envelope gain `t` seconds into a voicing: ramp to the volume over
+ * the attack, to the sustain level over the decay, hold, then ramp to
+ * silence over the release, which ends with the voicing. A release
+ * that starts early fades from wherever the envelope was.
+ */
+function envelopeAt(voicing: BlockVoicing, t: number): number {
+  const { attack, decay, sustain, release } = voicing.envelope;
+  const peak = voicing.volume;
+  const held = peak * sustain;
+  const level = (time: number) => {
+    if (time < attack) return (peak * time) / attack;
+    if (time < attack + decay) {
+      return peak + ((held - peak) * (time - attack)) / decay;
+    }
+    return held;
+  };
+
+  const releaseStart = Math.max(0, voicing.duration - release);
+  if (t < releaseStart) return level(t);
+  const remaining = voicing.duration - t;
+  const length = voicing.duration - releaseStart;
+  return length > 0
+    ? (level(releaseStart) * Math.max(0, remaining)) / length
+    : 0;
+}
+
+/** A biquad low-pass (RBJ cookbook) with its own state */
+function lowPass(cutoff: number, sampleRate: number): (x: number) => number {
+  const frequency = clamp(cutoff, 10, sampleRate * 0.49);
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.pow(10, FILTER_Q_DB / 20));
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0;
+  const b1 = (1 - cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  return (x) => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toInt16(sample: number): number {
+  const clipped = clamp(sample, -1, 1);
+  return Math.round(clipped < 0 ? clipped * 0x8000 : clipped * 0x7fff);
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    bytes[offset + i] = text.charCodeAt(i);
+  }
+}
+
+/** MIDI variable-length quantity: 7 bits per byte, high bit = more */
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  for (let rest = value >> 7; rest > 0; rest >>= 7) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+  }
+  return bytes;
+}
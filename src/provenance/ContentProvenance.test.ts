@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { ContentProvenance } from './ContentProvenance';
+import type { BlameEntry } from '../revisions/RevisionManager';
+
+function createProvenance(): ContentProvenance {
+  let nextId = 0;
+  return new ContentProvenance(
+    {
+      sign: async (content) => `signed:${content}`,
+      verify: async () => true,
+      hash: async (content) => `hash:${content}`,
+      localDid: 'did:key:alice',
+    },
+    () => `prov-${nextId++}`
+  );
+}
+
+function entry(
+  blockId: string,
+  start: number,
+  end: number,
+  authorDid: string,
+  revisionId: string
+): BlameEntry {
+  return {
+    blockId,
+    start,
+    end,
+    authorDid,
+    revisionId,
+    timestamp: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const BLAME: BlameEntry[] = [
+  entry('p1', 0, 60, 'did:key:alice', 'r1'),
+  entry('p1', 60, 70, 'did:key:bob', 'r2'),
+  entry('p2', 0, 30, 'did:key:bob', 'r3'),
+];
+
+describe('ContentProvenance contributions', () => {
+  it('computes per-author percentages from character blame', () => {
+    const report = createProvenance().getContributions(BLAME);
+
+    expect(report.totalCharacters).toBe(100);
+    expect(report.authors).toEqual([
+      {
+        authorDid: 'did:key:alice',
+        characters: 60,
+        percentage: 60,
+        aiAssistedCharacters: 0,
+      },
+      {
+        authorDid: 'did:key:bob',
+        characters: 40,
+        percentage: 40,
+        aiAssistedCharacters: 0,
+      },
+    ]);
+    expect(report.aiContribution).toBe(0);
+  });
+
+  it('limits the report to one block', () => {
+    const report = createProvenance().getContributions(BLAME, 'p1');
+    expect(report.totalCharacters).toBe(70);
+    expect(report.authors.map((a) => Math.round(a.percentage))).toEqual([
+      86, 14,
+    ]);
+  });
+
+  it('counts characters from AI-assisted revisions', async () => {
+    const provenance = createProvenance();
+    await provenance.attest({
+      targetId: 'r3',
+      targetType: 'revision',
+      content: 'revision r3',
+      aiAssisted: true,
+      aiModel: 'local-model',
+    });
+
+    const report = provenance.getContributions(BLAME);
+    expect(report.aiContribution).toBe(30);
+    expect(report.authors[1].aiAssistedCharacters).toBe(30);
+  });
+
+  it('returns an empty report without blame', () => {
+    expect(createProvenance().getContributions([])).toEqual({
+      totalCharacters: 0,
+      authors: [],
+      aiContribution: 0,
+    });
+  });
+});
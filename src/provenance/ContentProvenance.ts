@@ -11,6 +11,8 @@
  * is the single most valuable metadata you can attach.
  */
 
+import type { BlameEntry } from '../revisions/RevisionManager';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface ProvenanceRecord {
@@ -51,6 +53,27 @@ export interface ProvenanceChain {
   readonly integrity: 'valid' | 'broken' | 'unverified';
 }
 
+/** One author's share of the content */
+export interface AuthorContribution {
+  readonly authorDid: string;
+  /** Characters attributed to this author */
+  readonly characters: number;
+  /** Share of all attributed characters (0-100) */
+  readonly percentage: number;
+  /** Characters from revisions attested as AI-assisted */
+  readonly aiAssistedCharacters: number;
+}
+
+/** Per-author breakdown of a document or block */
+export interface ContributionReport {
+  /** Total attributed characters */
+  readonly totalCharacters: number;
+  /** Authors, largest contribution first */
+  readonly authors: AuthorContribution[];
+  /** Share of characters from AI-assisted revisions (0-100) */
+  readonly aiContribution: number;
+}
+
 export interface ProvenanceConfig {
   /** Function to sign content with UCAN */
   readonly sign: (content: string, did: string) => Promise<string>;
@@ -203,10 +226,69 @@ export class ContentProvenance {
     return { authors, aiAssisted, verified, label };
   }
 
+  /**
+   * Compute per-author contribution percentages from character-level
+   * blame (see `RevisionManager.getBlame`). Pass `blockId` to limit
+   * the report to one block. Characters from revisions that have an
+   * AI-assisted `revision` attestation count toward `aiContribution`.
+   */
+  getContributions(
+    blame: readonly BlameEntry[],
+    blockId?: string
+  ): ContributionReport {
+    const characters = new Map<string, number>();
+    const aiCharacters = new Map<string, number>();
+    let totalCharacters = 0;
+    let totalAi = 0;
+
+    for (const entry of blame) {
+      if (blockId !== undefined && entry.blockId !== blockId) continue;
+      const length = entry.end - entry.start;
+      if (length <= 0) continue;
+
+      characters.set(
+        entry.authorDid,
+        (characters.get(entry.authorDid) ?? 0) + length
+      );
+      totalCharacters += length;
+
+      if (this.isAiAssistedRevision(entry.revisionId)) {
+        aiCharacters.set(
+          entry.authorDid,
+          (aiCharacters.get(entry.authorDid) ?? 0) + length
+        );
+        totalAi += length;
+      }
+    }
+
+    const percentOf = (count: number) =>
+      totalCharacters === 0 ? 0 : (count / totalCharacters) * 100;
+
+    const authors = Array.from(characters, ([authorDid, count]) => ({
+      authorDid,
+      characters: count,
+      percentage: percentOf(count),
+      aiAssistedCharacters: aiCharacters.get(authorDid) ?? 0,
+    })).sort(
+      (a, b) =>
+        b.characters - a.characters || a.authorDid.localeCompare(b.authorDid)
+    );
+
+    return { totalCharacters, authors, aiContribution: percentOf(totalAi) };
+  }
+
   /**
    * Get all provenance records.
    */
   getAllRecords(): ProvenanceRecord[] {
     return Array.from(this.records.values());
   }
+
+  /** Whether any attestation of a revision marks it AI-assisted */
+  private isAiAssistedRevision(revisionId: string): boolean {
+    return (this.chainIndex.get(revisionId) ?? []).some((id) => {
+      const record = this.records.get(id);
+      return record?.targetType === 'revision' && record.aiAssisted;
+    });
+  }
 }
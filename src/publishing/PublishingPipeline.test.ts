@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PublishingPipeline,
+  type PublishClock,
+  type PublishingPipelineOptions,
+} from './PublishingPipeline';
+import type { AeonDocument } from '../document/document';
+
+/** Clock whose time only moves when the test advances it */
+class FakeClock implements PublishClock {
+  private time = Date.parse('2026-03-01T09:00:00.000Z');
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 0;
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /** Move time forward, firing due timers and letting their work settle */
+  async advance(ms: number): Promise<void> {
+    this.time += ms;
+    for (const [handle, timer] of [...this.timers]) {
+      if (timer.at <= this.time) {
+        this.timers.delete(handle);
+        timer.callback();
+      }
+    }
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  }
+}
+
+function createPipeline(options: PublishingPipelineOptions = {}) {
+  let nextId = 0;
+  const clock = new FakeClock();
+  const pipeline = new PublishingPipeline(() => `id-${nextId++}`, {
+    clock,
+    ...options,
+  });
+  const record = pipeline.createDraft({
+    title: 'Launch Notes',
+    authorDid: 'did:key:alice',
+    snapshotId: 'snap-1',
+    revisionId: 'rev-1',
+  });
+  return { pipeline, clock, record };
+}
+
+describe('PublishingPipeline', () => {
+  it('publishes scheduled records when they come due', async () => {
+    const { pipeline, clock, record } = createPipeline();
+    pipeline.startScheduler();
+
+    await pipeline.transition(record.id, 'scheduled', {
+      scheduledFor: '2026-03-01T10:00:00.000Z',
+      actorDid: 'did:key:alice',
+    });
+
+    await clock.advance(30 * 60 * 1000);
+    expect(pipeline.getRecord(record.id)?.state).toBe('scheduled');
+
+    await clock.advance(30 * 60 * 1000);
+    const published = pipeline.getRecord(record.id)!;
+    expect(published.state).toBe('published');
+    expect(published.publishedAt).toBe('2026-03-01T10:00:00.000Z');
+    expect(pipeline.getHistory(record.id).at(-1)).toMatchObject({
+      from: 'scheduled',
+      to: 'published',
+      actorDid: 'did:key:alice',
+    });
+  });
+
+  it('does not fire after the scheduler stops', async () => {
+    const { pipeline, clock, record } = createPipeline();
+    pipeline.startScheduler();
+    await pipeline.transition(record.id, 'scheduled', {
+      scheduledFor: '2026-03-01T09:10:00.000Z',
+    });
+
+    pipeline.stopScheduler();
+    await clock.advance(60 * 60 * 1000);
+    expect(pipeline.getRecord(record.id)?.state).toBe('scheduled');
+
+    expect(await pipeline.runDueTransitions()).toHaveLength(1);
+    expect(pipeline.getRecord(record.id)?.state).toBe('published');
+  });
+
+  it('lets before-hooks veto transitions and reports scheduler failures', async () => {
+    const { pipeline, clock, record } = createPipeline();
+    const errors: string[] = [];
+    pipeline.onError((_, recordId) => errors.push(recordId));
+    pipeline.beforeTransition(({ to }) =>
+      to === 'published' ? { reason: 'embargoed' } : undefined
+    );
+    pipeline.startScheduler();
+
+    await expect(pipeline.transition(record.id, 'published')).rejects.toThrow(
+      'vetoed: embargoed'
+    );
+
+    await pipeline.transition(record.id, 'scheduled', {
+      scheduledFor: '2026-03-01T09:05:00.000Z',
+    });
+    await clock.advance(10 * 60 * 1000);
+    expect(pipeline.getRecord(record.id)?.state).toBe('scheduled');
+    expect(errors).toEqual([record.id]);
+  });
+
+  it('does not start another pass while after-hooks are running', async () => {
+    const { pipeline, clock, record } = createPipeline();
+    const other = pipeline.createDraft({
+      title: 'Release Notes',
+      authorDid: 'did:key:alice',
+      snapshotId: 'snap-2',
+      revisionId: 'rev-2',
+    });
+    const errors: unknown[] = [];
+    pipeline.onError((error) => errors.push(error));
+    let release!: () => void;
+    const hookDone = new Promise<void>((resolve) => (release = resolve));
+    pipeline.afterTransition(({ state }) =>
+      state === 'published' ? hookDone : undefined
+    );
+    pipeline.startScheduler();
+
+    for (const { id } of [record, other]) {
+      await pipeline.transition(id, 'scheduled', {
+        scheduledFor: '2026-03-01T09:05:00.000Z',
+      });
+    }
+    await clock.advance(5 * 60 * 1000);
+    await clock.advance(0);
+    release();
+    await clock.advance(0);
+
+    expect(errors).toEqual([]);
+    expect(pipeline.listByState('published')).toHaveLength(2);
+    expect(
+      pipeline.getHistory().filter((t) => t.to === 'published')
+    ).toHaveLength(2);
+  });
+
+  it('logs every transition and runs after-hooks', async () => {
+    const { pipeline, clock, record } = createPipeline();
+    const seen: string[] = [];
+    pipeline.afterTransition((updated, transition) => {
+      seen.push(`${transition.from}->${updated.state}`);
+    });
+
+    await pipeline.transition(record.id, 'review', {
+      actorDid: 'did:key:alice',
+      reason: 'Ready for edits',
+    });
+    await clock.advance(1000);
+    await pipeline.transition(record.id, 'published', {
+      actorDid: 'did:key:bob',
+    });
+
+    expect(seen).toEqual(['draft->review', 'review->published']);
+    expect(pipeline.getHistory(record.id)).toEqual([
+      {
+        id: 'id-1',
+        recordId: record.id,
+        from: 'draft',
+        to: 'review',
+        actorDid: 'did:key:alice',
+        reason: 'Ready for edits',
+        timestamp: '2026-03-01T09:00:00.000Z',
+      },
+      {
+        id: 'id-2',
+        recordId: record.id,
+        from: 'review',
+        to: 'published',
+        actorDid: 'did:key:bob',
+        reason: undefined,
+        timestamp: '2026-03-01T09:00:01.000Z',
+      },
+    ]);
+  });
+
+  it('requires approvals before publishing from review', async () => {
+    const { pipeline, record } = createPipeline({ requiredApprovals: 2 });
+
+    await expect(pipeline.transition(record.id, 'published')).rejects.toThrow(
+      'must pass review'
+    );
+    await pipeline.transition(record.id, 'review');
+    expect(() => pipeline.approve(record.id, 'did:key:alice')).toThrow(
+      'Authors cannot approve'
+    );
+
+    pipeline.approve(record.id, 'did:key:bob');
+    pipeline.approve(record.id, 'did:key:bob');
+    await expect(pipeline.transition(record.id, 'published')).rejects.toThrow(
+      'requires 2 approvals, record has 1'
+    );
+
+    pipeline.approve(record.id, 'did:key:carol', 'Looks good');
+    await pipeline.transition(record.id, 'published');
+    expect(pipeline.getRecord(record.id)?.state).toBe('published');
+    expect(pipeline.getApprovals(record.id)).toEqual([]);
+  });
+
+  it('checks approvals again after async before-hooks', async () => {
+    const { pipeline, record } = createPipeline({ requiredApprovals: 1 });
+    await pipeline.transition(record.id, 'review');
+    pipeline.approve(record.id, 'did:key:bob');
+    pipeline.beforeTransition(async () => {
+      await Promise.resolve();
+      pipeline.revokeApproval(record.id, 'did:key:bob');
+    });
+
+    await expect(pipeline.transition(record.id, 'published')).rejects.toThrow(
+      'requires 1 approvals, record has 0'
+    );
+    expect(pipeline.getRecord(record.id)?.state).toBe('review');
+  });
+
+  it('renders audio in the voice the projection names', () => {
+    const voiceBlocks = vi.fn(() => []);
+    const { pipeline, record } = createPipeline({ voiceBlocks });
+    pipeline.setProjections(record.id, [
+      { type: 'audio', voiceModelId: 'voice-1', format: 'midi' },
+    ]);
+    const source = {
+      fragment: { length: 0, get: () => undefined },
+    } as unknown as AeonDocument;
+
+    const output = pipeline.render(record.id, source, 'audio');
+    expect(output.contentType).toBe('audio/midi');
+    expect(voiceBlocks).toHaveBeenCalledWith(
+      expect.objectContaining({ id: record.id }),
+      [],
+      'voice-1'
+    );
+  });
+});
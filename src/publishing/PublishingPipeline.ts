@@ -9,11 +9,30 @@
  *
  * A document's lifecycle: Draft → Review → Published → Archived.
  * Publishing emits the document as any projection: HTML page,
- * newsletter email, RSS feed, API endpoint, PDF.
+ * newsletter email, RSS feed, API endpoint, PDF, audio.
  *
  * Each publish is a signed CRDT snapshot — provenance baked in.
+ *
+ * Transitions pass through veto-able hooks and are logged with the
+ * acting DID. Scheduled records are published by a scheduler driven
+ * by an injectable clock.
  */
 
+import type { AeonDocument } from '../document/document';
+import type { BlockVoicing } from '../projections/AudioProjection';
+import { renderMidi, renderWav } from '../projections/offlineAudio';
+import { readRenderBlocks, type RenderBlock } from './html';
+import {
+  renderEmailHtml,
+  renderEmailText,
+  renderFeed,
+  renderHtmlPage,
+  type FeedFormat,
+  type SiteConfig,
+} from './renderers';
+import { renderEpub } from './epub';
+import { renderPdf } from './pdf';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export type PublishState =
@@ -98,17 +117,150 @@ export type PublishProjection =
   | { type: 'pdf'; paperSize?: string }
   | { type: 'epub' }
   | { type: 'json-feed' }
-  | { type: 'audio'; voiceModelId?: string };
+  | { type: 'audio'; voiceModelId?: string; format?: 'wav' | 'midi' };
+
+/** A projection rendered to bytes or text */
+export interface RenderedOutput {
+  readonly projection: PublishProjection['type'];
+  readonly contentType: string;
+  /** Suggested file name, derived from the slug */
+  readonly filename: string;
+  readonly body: string | Uint8Array;
+  /** Plain-text alternative (email) */
+  readonly text?: string;
+  /** Subject line (email) */
+  readonly subject?: string;
+}
+
+/** Snapshot source for a record, used when rendering feeds */
+export type SnapshotResolver = (
+  record: PublishRecord
+) => AeonDocument | undefined;
+
+/** Time source and timers, injectable so tests can fake time */
+export interface PublishClock {
+  /** Current time in epoch milliseconds */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/** A transition applied to a record */
+export interface TransitionRecord {
+  readonly id: string;
+  readonly recordId: string;
+  readonly from: PublishState;
+  readonly to: PublishState;
+  /** DID of the actor, or undefined for the scheduler without one */
+  readonly actorDid?: string;
+  readonly reason?: string;
+  readonly timestamp: string;
+}
+
+/** What a transition hook sees */
+export interface TransitionContext {
+  readonly record: PublishRecord;
+  readonly from: PublishState;
+  readonly to: PublishState;
+  readonly actorDid?: string;
+  readonly reason?: string;
+}
+
+/** Returned by a before-hook to block a transition */
+export interface TransitionVeto {
+  readonly reason: string;
+}
+
+export type BeforeTransitionHook = (
+  context: TransitionContext
+) => TransitionVeto | void | Promise<TransitionVeto | void>;
+
+export type AfterTransitionHook = (
+  record: PublishRecord,
+  transition: TransitionRecord
+) => void | Promise<void>;
+
+/** A reviewer's sign-off on a record in review */
+export interface Approval {
+  readonly approverDid: string;
+  readonly comment?: string;
+  readonly timestamp: string;
+}
+
+export interface PublishingPipelineOptions {
+  /** Defaults to the system clock */
+  readonly clock?: PublishClock;
+  /** Approvals needed before a record in review can be published */
+  readonly requiredApprovals?: number;
+  /**
+   * Sonifies a record's blocks for the audio projection, e.g. with
+   * `AudioProjection.projectDocument` over their embeddings, in the
+   * voice the projection names, if any
+   */
+  readonly voiceBlocks?: (
+    record: PublishRecord,
+    blocks: RenderBlock[],
+    voiceModelId?: string
+  ) => BlockVoicing[];
+}
+
+const systemClock: PublishClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const VALID_TRANSITIONS: Record<PublishState, PublishState[]> = {
+  draft: ['review', 'scheduled', 'published'],
+  review: ['draft', 'published', 'scheduled'],
+  scheduled: ['draft', 'published'],
+  published: ['archived', 'draft'],
+  archived: ['draft'],
+};
+
+/** Longest delay a timer accepts (about 24.8 days) */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  'json-feed': 'application/feed+json; charset=utf-8',
+};
 
 // ── Publishing Pipeline ─────────────────────────────────────────────
 
 export class PublishingPipeline {
   private records: Map<string, PublishRecord> = new Map();
   private listeners: Set<(record: PublishRecord) => void> = new Set();
+  private errorListeners: Set<(error: unknown, recordId: string) => void> =
+    new Set();
+  private beforeHooks: Set<BeforeTransitionHook> = new Set();
+  private afterHooks: Set<AfterTransitionHook> = new Set();
+  private history: TransitionRecord[] = [];
+  private approvals: Map<string, Approval[]> = new Map();
   private readonly generateId: () => string;
+  private readonly clock: PublishClock;
+  private readonly requiredApprovals: number;
+  private readonly voiceBlocks: PublishingPipelineOptions['voiceBlocks'];
+
+  /** Whether the scheduler is running */
+  private scheduling = false;
+  /** Timer armed for the next due record */
+  private scheduleTimer: unknown = null;
+  /** The `runDueTransitions` pass in progress, if any */
+  private running: Promise<PublishRecord[]> | null = null;
+  /** Schedules that failed to fire, by record ID, skipped until changed */
+  private failedSchedules: Map<string, string> = new Map();
 
-  constructor(generateId: () => string) {
+  constructor(
+    generateId: () => string,
+    options: PublishingPipelineOptions = {}
+  ) {
     this.generateId = generateId;
+    this.clock = options.clock ?? systemClock;
+    this.requiredApprovals = options.requiredApprovals ?? 0;
+    this.voiceBlocks = options.voiceBlocks;
   }
 
   /**
@@ -145,8 +297,8 @@ export class PublishingPipeline {
       ),
       snapshotId: params.snapshotId,
       revisionId: params.revisionId,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt: this.timestamp(),
+      updatedAt: this.timestamp(),
       contentHash: '', // computed at publish time
       projections: [{ type: 'html' }],
     };
@@ -157,48 +309,217 @@ export class PublishingPipeline {
 
   /**
    * Transition a record through the publish lifecycle.
+   * Before-hooks run first and may veto; after-hooks run once the
+   * transition is applied and logged. Rejects on invalid or vetoed
+   * transitions, and when required approvals are missing.
    */
-  transition(
+  async transition(
     recordId: string,
     to: PublishState,
     options?: {
       scheduledFor?: string;
       contentHash?: string;
       signature?: string;
+      actorDid?: string;
+      reason?: string;
     }
-  ): PublishRecord | null {
+  ): Promise<PublishRecord | null> {
     const record = this.records.get(recordId);
     if (!record) return null;
 
-    // Validate transitions
-    const validTransitions: Record<PublishState, PublishState[]> = {
-      draft: ['review', 'scheduled', 'published'],
-      review: ['draft', 'published', 'scheduled'],
-      scheduled: ['draft', 'published'],
-      published: ['archived', 'draft'],
-      archived: ['draft'],
+    const from = record.state;
+    if (!VALID_TRANSITIONS[from].includes(to)) {
+      throw new Error(`Cannot transition from ${from} to ${to}`);
+    }
+
+    const scheduledFor = options?.scheduledFor || record.scheduledFor;
+    if (to === 'scheduled' && !isValidTimestamp(scheduledFor)) {
+      throw new Error('Scheduling requires a valid scheduledFor timestamp');
+    }
+
+    this.checkApprovals(record, to);
+
+    const context: TransitionContext = {
+      record,
+      from,
+      to,
+      actorDid: options?.actorDid,
+      reason: options?.reason,
     };
+    for (const hook of [...this.beforeHooks]) {
+      const veto = await hook(context);
+      if (veto) {
+        throw new Error(
+          `Transition from ${from} to ${to} vetoed: ${veto.reason}`
+        );
+      }
+    }
 
-    if (!validTransitions[record.state].includes(to)) {
-      throw new Error(`Cannot transition from ${record.state} to ${to}`);
+    // Hooks may be async; refuse if the record moved meanwhile or
+    // approvals were revoked
+    if (this.records.get(recordId) !== record) {
+      throw new Error(`Record ${recordId} changed during transition`);
     }
+    this.checkApprovals(record, to);
 
+    const timestamp = this.timestamp();
     const updated: PublishRecord = {
       ...record,
       state: to,
-      updatedAt: new Date().toISOString(),
-      publishedAt:
-        to === 'published' ? new Date().toISOString() : record.publishedAt,
-      scheduledFor: options?.scheduledFor || record.scheduledFor,
+      updatedAt: timestamp,
+      publishedAt: to === 'published' ? timestamp : record.publishedAt,
+      scheduledFor,
       contentHash: options?.contentHash || record.contentHash,
       signature: options?.signature || record.signature,
     };
+    const entry: TransitionRecord = {
+      id: this.generateId(),
+      recordId,
+      from,
+      to,
+      actorDid: options?.actorDid,
+      reason: options?.reason,
+      timestamp,
+    };
 
     this.records.set(recordId, updated);
+    this.history.push(entry);
+    this.failedSchedules.delete(recordId);
+    // Approvals cover one review round
+    if (from === 'review') this.approvals.delete(recordId);
+    this.armScheduler();
+
     this.notify(updated);
+    for (const hook of [...this.afterHooks]) {
+      try {
+        await hook(updated, entry);
+      } catch (error) {
+        this.notifyError(error, recordId);
+      }
+    }
     return updated;
   }
 
+  /**
+   * Register a hook run before every transition. Return a
+   * `TransitionVeto` to block it.
+   */
+  beforeTransition(hook: BeforeTransitionHook): () => void {
+    this.beforeHooks.add(hook);
+    return () => this.beforeHooks.delete(hook);
+  }
+
+  /**
+   * Register a hook run after every transition. Errors are reported
+   * through `onError` and do not undo the transition.
+   */
+  afterTransition(hook: AfterTransitionHook): () => void {
+    this.afterHooks.add(hook);
+    return () => this.afterHooks.delete(hook);
+  }
+
+  /**
+   * Transition history, oldest first, for one record or all.
+   */
+  getHistory(recordId?: string): TransitionRecord[] {
+    return recordId
+      ? this.history.filter((t) => t.recordId === recordId)
+      : [...this.history];
+  }
+
+  // ── Review ────────────────────────────────────────────────────
+
+  /**
+   * Approve a record in review. Authors cannot approve their own
+   * record, and each reviewer counts once.
+   */
+  approve(recordId: string, approverDid: string, comment?: string): Approval {
+    const record = this.records.get(recordId);
+    if (!record) throw new Error(`Unknown publish record: ${recordId}`);
+    if (record.state !== 'review') {
+      throw new Error(`Cannot approve a record in ${record.state}`);
+    }
+    if (
+      approverDid === record.authorDid ||
+      record.coAuthors.includes(approverDid)
+    ) {
+      throw new Error('Authors cannot approve their own record');
+    }
+
+    const approval: Approval = {
+      approverDid,
+      comment,
+      timestamp: this.timestamp(),
+    };
+    const approvals = (this.approvals.get(recordId) ?? []).filter(
+      (a) => a.approverDid !== approverDid
+    );
+    approvals.push(approval);
+    this.approvals.set(recordId, approvals);
+    return approval;
+  }
+
+  /**
+   * Withdraw a reviewer's approval.
+   */
+  revokeApproval(recordId: string, approverDid: string): void {
+    const approvals = this.approvals.get(recordId);
+    if (!approvals) return;
+    this.approvals.set(
+      recordId,
+      approvals.filter((a) => a.approverDid !== approverDid)
+    );
+  }
+
+  /**
+   * Approvals in the record's current review round.
+   */
+  getApprovals(recordId: string): Approval[] {
+    return [...(this.approvals.get(recordId) ?? [])];
+  }
+
+  // ── Scheduler ─────────────────────────────────────────────────
+
+  /**
+   * Start publishing scheduled records when they come due.
+   */
+  startScheduler(): void {
+    if (this.scheduling) return;
+    this.scheduling = true;
+    this.armScheduler();
+  }
+
+  /**
+   * Stop the scheduler. Scheduled records stay scheduled.
+   */
+  stopScheduler(): void {
+    this.scheduling = false;
+    if (this.scheduleTimer !== null) {
+      this.clock.clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  /**
+   * Publish every scheduled record that is due, earliest first.
+   * Records that fail (e.g. vetoed) stay scheduled and are reported
+   * through `onError`; the scheduler's timer skips them until they
+   * are rescheduled, but calling this again retries them. A call made
+   * while a pass is running waits for it and then runs its own.
+   */
+  async runDueTransitions(): Promise<PublishRecord[]> {
+    while (this.running) {
+      await this.running.catch(() => undefined);
+    }
+    this.running = this.publishDue();
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+      this.armScheduler();
+    }
+  }
+
   /**
    * Set the output projections for a record.
    */
@@ -209,7 +530,7 @@ export class PublishingPipeline {
     const updated = {
       ...record,
       projections,
-      updatedAt: new Date().toISOString(),
+      updatedAt: this.timestamp(),
     };
     this.records.set(recordId, updated);
   }
@@ -224,7 +545,7 @@ export class PublishingPipeline {
     const updated = {
       ...record,
       seo: { ...record.seo, ...seo },
-      updatedAt: new Date().toISOString(),
+      updatedAt: this.timestamp(),
     };
     this.records.set(recordId, updated);
   }
@@ -251,6 +572,130 @@ export class PublishingPipeline {
     return () => this.listeners.delete(listener);
   }
 
+  /**
+   * Render one projection of a record from its snapshot. Uses the
+   * record's own projection settings (template, subject) when the
+   * projection is enabled. Feed projections render a single-entry
+   * feed; use `renderFeed` for the whole publication.
+   */
+  render(
+    recordId: string,
+    source: AeonDocument,
+    type: PublishProjection['type'],
+    site?: SiteConfig
+  ): RenderedOutput {
+    const record = this.records.get(recordId);
+    if (!record) throw new Error(`Unknown publish record: ${recordId}`);
+
+    const blocks = readRenderBlocks(source);
+    const projection = record.projections.find((p) => p.type === type);
+
+    switch (type) {
+      case 'html':
+        return {
+          projection: type,
+          contentType: 'text/html; charset=utf-8',
+          filename: `${record.slug}.html`,
+          body: renderHtmlPage(
+            record,
+            blocks,
+            site,
+            projection?.type === 'html' ? projection.template : undefined
+          ),
+        };
+      case 'email':
+        return {
+          projection: type,
+          contentType: 'text/html; charset=utf-8',
+          filename: `${record.slug}.email.html`,
+          body: renderEmailHtml(record, blocks, site),
+          text: renderEmailText(record, blocks, site),
+          subject:
+            projection?.type === 'email' ? projection.subject : record.title,
+        };
+      case 'rss':
+      case 'json-feed': {
+        if (!site) throw new Error(`The ${type} projection needs a site`);
+        return {
+          projection: type,
+          contentType: FEED_CONTENT_TYPES[type],
+          filename: `${record.slug}.${type === 'rss' ? 'xml' : 'json'}`,
+          body: renderFeed(type, [{ record, blocks }], site),
+        };
+      }
+      case 'epub':
+        return {
+          projection: type,
+          contentType: 'application/epub+zip',
+          filename: `${record.slug}.epub`,
+          body: renderEpub(record, blocks, site),
+        };
+      case 'pdf':
+        return {
+          projection: type,
+          contentType: 'application/pdf',
+          filename: `${record.slug}.pdf`,
+          body: renderPdf(record, blocks, site, {
+            paperSize:
+              projection?.type === 'pdf' ? projection.paperSize : undefined,
+          }),
+        };
+      case 'audio': {
+        if (!this.voiceBlocks) {
+          throw new Error('The audio projection needs voiceBlocks');
+        }
+        const audio = projection?.type === 'audio' ? projection : undefined;
+        const voicings = this.voiceBlocks(record, blocks, audio?.voiceModelId);
+        return audio?.format === 'midi'
+          ? {
+              projection: type,
+              contentType: 'audio/midi',
+              filename: `${record.slug}.mid`,
+              body: renderMidi(voicings),
+            }
+          : {
+              projection: type,
+              contentType: 'audio/wav',
+              filename: `${record.slug}.wav`,
+              body: renderWav(voicings),
+            };
+      }
+      default:
+        throw new Error(`No renderer for the ${type} projection`);
+    }
+  }
+
+  /**
+   * Render a feed across all published records, newest first.
+   * `resolve` supplies each record's snapshot for full content;
+   * records it cannot resolve carry only their excerpt.
+   */
+  renderFeed(
+    format: FeedFormat,
+    site: SiteConfig,
+    options?: { resolve?: SnapshotResolver; feedUrl?: string }
+  ): RenderedOutput {
+    const entries = this.listByState('published').map((record) => {
+      const source = options?.resolve?.(record);
+      return { record, blocks: source ? readRenderBlocks(source) : undefined };
+    });
+
+    return {
+      projection: format === 'json-feed' ? 'json-feed' : 'rss',
+      contentType: FEED_CONTENT_TYPES[format],
+      filename: format === 'json-feed' ? 'feed.json' : `${format}.xml`,
+      body: renderFeed(format, entries, site, options?.feedUrl),
+    };
+  }
+
+  /**
+   * Listen for hook and scheduler errors.
+   */
+  onError(listener: (error: unknown, recordId: string) => void): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
   /** Estimated reading time */
   estimateReadingTime(wordCount: number): {
     minutes: number;
@@ -266,6 +711,107 @@ export class PublishingPipeline {
 
   // ── Private ───────────────────────────────────────────────────
 
+  private timestamp(): string {
+    return new Date(this.clock.now()).toISOString();
+  }
+
+  private checkApprovals(record: PublishRecord, to: PublishState): void {
+    if (this.requiredApprovals === 0) return;
+    if (to !== 'published' && to !== 'scheduled') return;
+
+    if (record.state === 'draft') {
+      throw new Error('Records must pass review before publishing');
+    }
+    if (record.state === 'review') {
+      const count = this.approvals.get(record.id)?.length ?? 0;
+      if (count < this.requiredApprovals) {
+        throw new Error(
+          `Publishing requires ${this.requiredApprovals} approvals, record has ${count}`
+        );
+      }
+    }
+  }
+
+  /** The actor of the transition that scheduled a record */
+  private scheduledBy(recordId: string): string | undefined {
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const entry = this.history[i];
+      if (entry.recordId === recordId && entry.to === 'scheduled') {
+        return entry.actorDid;
+      }
+    }
+    return undefined;
+  }
+
+  /** One pass of `runDueTransitions` */
+  private async publishDue(): Promise<PublishRecord[]> {
+    const now = this.clock.now();
+    const due = this.listByState('scheduled')
+      .filter((r) => Date.parse(r.scheduledFor!) <= now)
+      .sort(
+        (a, b) =>
+          Date.parse(a.scheduledFor!) - Date.parse(b.scheduledFor!) ||
+          a.id.localeCompare(b.id)
+      );
+
+    const published: PublishRecord[] = [];
+    for (const record of due) {
+      // Earlier transitions' hooks may have moved it meanwhile
+      const current = this.records.get(record.id);
+      if (
+        current?.state !== 'scheduled' ||
+        current.scheduledFor !== record.scheduledFor
+      ) {
+        continue;
+      }
+      try {
+        const updated = await this.transition(record.id, 'published', {
+          actorDid: this.scheduledBy(record.id),
+          reason: `Scheduled for ${record.scheduledFor}`,
+        });
+        if (updated) published.push(updated);
+      } catch (error) {
+        // Still scheduled for the same time: don't refire until changed
+        if (this.records.get(record.id)?.state === 'scheduled') {
+          this.failedSchedules.set(record.id, record.scheduledFor!);
+        }
+        this.notifyError(error, record.id);
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Arm the timer for the earliest scheduled record still pending.
+   * Nothing is armed while a pass is running; it re-arms when done.
+   */
+  private armScheduler(): void {
+    if (this.scheduleTimer !== null) {
+      this.clock.clearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+    if (!this.scheduling || this.running) return;
+
+    let next = Infinity;
+    for (const record of this.records.values()) {
+      if (record.state !== 'scheduled') continue;
+      if (this.failedSchedules.get(record.id) === record.scheduledFor) {
+        continue;
+      }
+      next = Math.min(next, Date.parse(record.scheduledFor!));
+    }
+    if (next === Infinity) return;
+
+    const delay = Math.min(
+      Math.max(0, next - this.clock.now()),
+      MAX_TIMER_DELAY
+    );
+    this.scheduleTimer = this.clock.setTimeout(() => {
+      this.scheduleTimer = null;
+      void this.runDueTransitions();
+    }, delay);
+  }
+
   private generateSlug(title: string): string {
     return title
       .toLowerCase()
@@ -309,4 +855,14 @@ export class PublishingPipeline {
       listener(record);
     }
   }
+
+  private notifyError(error: unknown, recordId: string): void {
+    for (const listener of this.errorListeners) {
+      listener(error, recordId);
+    }
+  }
+}
+
+function isValidTimestamp(value: string | undefined): value is string {
+  return value !== undefined && !Number.isNaN(Date.parse(value));
 }
@@ -0,0 +1,288 @@
+/**
+ * EPUB — EPUB 3 packaging for published records
+ *
+ * Writes a single-chapter EPUB 3 container: the `mimetype` entry
+ * first and uncompressed, `META-INF/container.xml`, the OPF package,
+ * a navigation document built from the headings, and the chapter as
+ * XHTML. Entries are stored (no compression) with timestamps taken
+ * from the record, so the archive bytes are deterministic.
+ */
+
+import { blocksToHtml, escapeHtml, type RenderBlock } from './html';
+import { recordUrl, escapeXml, type SiteConfig } from './renderers';
+import type { PublishRecord } from './PublishingPipeline';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A file inside a zip archive */
+export interface ZipEntry {
+  readonly path: string;
+  readonly data: Uint8Array;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.25; }
+pre { white-space: pre-wrap; font-size: 0.9em; }
+blockquote { margin-left: 1em; padding-left: 1em; border-left: 3px solid #999; }
+aside.callout { padding: 0.5em 1em; background: #f2f2f2; }
+figure { margin: 1em 0; }
+img { max-width: 100%; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.25em 0.5em; }
+`;
+
+// ── EPUB ────────────────────────────────────────────────────────────
+
+/** Render a record as an EPUB 3 archive */
+export function renderEpub(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  site?: SiteConfig
+): Uint8Array {
+  const language = site?.language ?? 'en';
+  const modified = `${(record.publishedAt ?? record.updatedAt).slice(0, 19)}Z`;
+  const identifier = recordUrl(record, site) ?? `urn:publish:${record.id}`;
+  const creators = [record.authorDid, ...record.coAuthors].map(
+    (did) => site?.authorName?.(did) ?? did
+  );
+
+  const container = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+    '<rootfiles>',
+    '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+    '</rootfiles>',
+    '</container>',
+    '',
+  ].join('\n');
+
+  const opf = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">`,
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(record.title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    ...creators.map((name) => `<dc:creator>${escapeXml(name)}</dc:creator>`),
+    record.excerpt
+      ? `<dc:description>${escapeXml(record.excerpt)}</dc:description>`
+      : '',
+    ...record.tags.map((tag) => `<dc:subject>${escapeXml(tag)}</dc:subject>`),
+    record.publishedAt
+      ? `<dc:date>${escapeXml(record.publishedAt)}</dc:date>`
+      : '',
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    '</metadata>',
+    '<manifest>',
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="chapter" href="chapter.xhtml" media-type="application/xhtml+xml"/>',
+    '<item id="style" href="style.css" media-type="text/css"/>',
+    '</manifest>',
+    '<spine>',
+    '<itemref idref="chapter"/>',
+    '</spine>',
+    '</package>',
+    '',
+  ]
+    .filter((line, i, lines) => line.length > 0 || i === lines.length - 1)
+    .join('\n');
+
+  const entries: ZipEntry[] = [
+    { path: 'mimetype', data: utf8('application/epub+zip') },
+    { path: 'META-INF/container.xml', data: utf8(container) },
+    { path: 'OEBPS/content.opf', data: utf8(opf) },
+    {
+      path: 'OEBPS/nav.xhtml',
+      data: utf8(navDocument(record, blocks, language)),
+    },
+    {
+      path: 'OEBPS/chapter.xhtml',
+      data: utf8(chapterDocument(record, blocks, language)),
+    },
+    { path: 'OEBPS/style.css', data: utf8(STYLESHEET) },
+  ];
+
+  return writeZip(entries, new Date(modified));
+}
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html>',
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">`,
+    '<head>',
+    '<meta charset="utf-8" />',
+    `<title>${escapeHtml(title)}</title>`,
+    '<link rel="stylesheet" type="text/css" href="style.css" />',
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function chapterDocument(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  language: string
+): string {
+  // Chapter headings must have IDs for the navigation document
+  const content = blocksToHtml(
+    blocks.map((block, i) =>
+      block.type === 'heading' && !block.attributes.id
+        ? { ...block, attributes: { ...block.attributes, id: `section-${i}` } }
+        : block
+    ),
+    { xhtml: true }
+  );
+  return xhtmlDocument(
+    record.title,
+    language,
+    `<section epub:type="chapter">\n<h1>${escapeHtml(record.title)}</h1>\n${content}\n</section>`
+  );
+}
+
+/** Table of contents from the top-level headings */
+function navDocument(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  language: string
+): string {
+  const links = blocks
+    .map((block, i) => ({ block, i }))
+    .filter(({ block }) => block.type === 'heading')
+    .map(({ block, i }) => {
+      const id = block.attributes.id || `section-${i}`;
+      const text = block.spans.map((s) => s.insert).join('');
+      return `<li><a href="chapter.xhtml#${escapeHtml(id)}">${escapeHtml(text)}</a></li>`;
+    });
+
+  return xhtmlDocument(
+    record.title,
+    language,
+    [
+      '<nav epub:type="toc" id="toc">',
+      `<h1>${escapeHtml(record.title)}</h1>`,
+      '<ol>',
+      `<li><a href="chapter.xhtml">${escapeHtml(record.title)}</a>${
+        links.length > 0 ? `<ol>${links.join('')}</ol>` : ''
+      }</li>`,
+      '</ol>',
+      '</nav>',
+    ].join('\n')
+  );
+}
+
+// ── Zip ─────────────────────────────────────────────────────────────
+
+/**
+ * Write a zip archive with stored (uncompressed) entries, in order.
+ * Every entry gets the same modification time.
+ */
+export function writeZip(entries: ZipEntry[], modified: Date): Uint8Array {
+  const { time, date } = dosDateTime(modified);
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = utf8(entry.path);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // flags: UTF-8 names
+    local.setUint16(8, 0, true); // method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // extra length
+    chunks.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true); // central directory signature
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true); // version needed
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    // extra, comment, disk number, internal and external attributes: 0
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat([...chunks, ...central, new Uint8Array(end.buffer)]);
+}
+
+/** MS-DOS date/time fields (UTC, two-second resolution) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      (date.getUTCSeconds() >> 1),
+    date:
+      ((year - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+}
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 (IEEE 802.3), as required by the zip format */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,440 @@
+/**
+ * HTML — Semantic HTML from the document block tree
+ *
+ * Shared by every publishing renderer: the page, email, feed and
+ * EPUB outputs all start from `RenderBlock`s read out of a snapshot
+ * and differ only in the options passed to `blocksToHtml` (XHTML
+ * syntax, inline styles, whether dynamic ESI slots survive).
+ */
+
+import type { AeonDocument, InlineMark } from '../document/document';
+import {
+  readElement,
+  type ElementBlock,
+  type InlineSpan,
+} from '../document/elements';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A block read out of the CRDT tree */
+export interface RenderBlock {
+  readonly type: string;
+  readonly spans: InlineSpan[];
+  readonly attributes: Record<string, string>;
+  readonly children: RenderBlock[];
+}
+
+/** Inline `style` attributes keyed by tag name (email output) */
+export type InlineStyles = Partial<Record<string, string>>;
+
+export interface HtmlOptions {
+  /** Emit XHTML (self-closed void elements, as EPUB requires) */
+  readonly xhtml?: boolean;
+  /** Styles inlined on each element, keyed by tag name */
+  readonly styles?: InlineStyles;
+  /** Keep ESI slots as placeholders (dropped in static outputs) */
+  readonly dynamic?: boolean;
+}
+
+/** Inline marks in nesting order, outermost first */
+const MARK_TAGS: { mark: InlineMark; tag: string }[] = [
+  { mark: 'link', tag: 'a' },
+  { mark: 'entity-ref', tag: 'span' },
+  { mark: 'bold', tag: 'strong' },
+  { mark: 'italic', tag: 'em' },
+  { mark: 'strikethrough', tag: 's' },
+  { mark: 'highlight', tag: 'mark' },
+  { mark: 'underline', tag: 'u' },
+  { mark: 'subscript', tag: 'sub' },
+  { mark: 'superscript', tag: 'sup' },
+  { mark: 'code', tag: 'code' },
+];
+
+/** Link schemes allowed in published output */
+const SAFE_URL = /^(https?:|mailto:|\/|#|\.{0,2}\/)|^[^:]*$/i;
+
+// ── Reading Blocks ──────────────────────────────────────────────────
+
+/**
+ * Read the blocks of a document. Load an encoded snapshot into an
+ * `AeonDocument` (`applyUpdate`) to render it.
+ */
+export function readRenderBlocks(source: AeonDocument): RenderBlock[] {
+  return readFragment(source.fragment);
+}
+
+/** Read every element of a fragment (or element) into render blocks */
+export function readFragment(
+  fragment: any /* TODO: QDoc migration — XmlFragment not yet in QDoc */
+): RenderBlock[] {
+  const blocks: RenderBlock[] = [];
+  for (let i = 0; i < fragment.length; i++) {
+    const item = fragment.get(i);
+    // TODO: QDoc migration — instanceof checks need QDoc equivalents
+    if (item && typeof item === 'object' && 'nodeName' in item) {
+      blocks.push(toRenderBlock(readElement(item)));
+    }
+  }
+  return blocks;
+}
+
+function toRenderBlock(block: ElementBlock): RenderBlock {
+  return {
+    type: block.type,
+    spans: block.delta,
+    attributes: block.attributes,
+    children: (block.children ?? []).map(toRenderBlock),
+  };
+}
+
+// ── Block HTML ──────────────────────────────────────────────────────
+
+/**
+ * Render blocks as semantic HTML. Consecutive list and task items
+ * are grouped into nested `<ul>`/`<ol>` by their `indent`.
+ */
+export function blocksToHtml(
+  blocks: RenderBlock[],
+  options: HtmlOptions = {}
+): string {
+  const parts: string[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    if (isListBlock(blocks[i])) {
+      let end = i;
+      while (end < blocks.length && isListBlock(blocks[end])) end++;
+      parts.push(listToHtml(blocks.slice(i, end), options));
+      i = end - 1;
+    } else {
+      const html = blockToHtml(blocks[i], options);
+      if (html) parts.push(html);
+    }
+  }
+  return parts.join('\n');
+}
+
+function blockToHtml(block: RenderBlock, options: HtmlOptions): string {
+  const { attributes } = block;
+  const inline = () => spansToHtml(block.spans, options);
+
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(
+        Math.max(parseInt(attributes.level || '1', 10) || 1, 1),
+        6
+      );
+      return element(`h${level}`, options, inline(), anchor(attributes));
+    }
+
+    case 'paragraph':
+      return element('p', options, inline());
+
+    case 'blockquote':
+      return element('blockquote', options, element('p', options, inline()));
+
+    case 'callout': {
+      const type = attributes['callout-type'] || 'note';
+      const icon = attributes.icon
+        ? element('span', options, escapeHtml(attributes.icon), {
+            class: 'callout-icon',
+            'aria-hidden': 'true',
+          })
+        : '';
+      const body =
+        block.children.length > 0
+          ? blocksToHtml(block.children, options)
+          : element('p', options, inline());
+      return element('aside', options, icon + body, {
+        class: `callout callout-${type}`,
+        role: 'note',
+      });
+    }
+
+    case 'code': {
+      const language = attributes.language;
+      const code = element(
+        'code',
+        options,
+        escapeHtml(plainText(block.spans)),
+        language ? { class: `language-${language}` } : {}
+      );
+      return element('pre', options, code);
+    }
+
+    case 'table':
+      return tableToHtml(block, options);
+
+    case 'divider':
+      return voidElement('hr', options);
+
+    case 'image': {
+      if (!isSafeUrl(attributes.src || '')) return '';
+      const img = voidElement('img', options, {
+        src: attributes.src,
+        alt: attributes.alt ?? '',
+        width: attributes.width,
+        height: attributes.height,
+      });
+      const caption = attributes.alt
+        ? element('figcaption', options, escapeHtml(attributes.alt))
+        : '';
+      return element('figure', options, img + caption);
+    }
+
+    case 'embed': {
+      const url = attributes.url || '';
+      if (!isSafeUrl(url)) return '';
+      const label = attributes.provider
+        ? `${attributes.provider}: ${url}`
+        : url;
+      const link = element('a', options, escapeHtml(label), { href: url });
+      return element('figure', options, link, { class: 'embed' });
+    }
+
+    case 'esi':
+      return options.dynamic
+        ? element('div', options, '', {
+            'data-esi-tag': attributes['tag-name'] || '',
+            'data-esi-props': attributes.props,
+          })
+        : '';
+
+    default:
+      return block.spans.length > 0 ? element('p', options, inline()) : '';
+  }
+}
+
+function isListBlock(block: RenderBlock): boolean {
+  return block.type === 'list-item' || block.type === 'task-item';
+}
+
+/** Nest a run of list items by indent level */
+function listToHtml(items: RenderBlock[], options: HtmlOptions): string {
+  const listTag = (item: RenderBlock) =>
+    item.attributes['list-type'] === 'ordered' ? 'ol' : 'ul';
+  const indentOf = (item: RenderBlock) =>
+    Math.max(parseInt(item.attributes.indent || '0', 10) || 0, 0);
+
+  let html = '';
+  /** Open lists, innermost last */
+  const open: { tag: string; indent: number }[] = [];
+
+  const closeTo = (depth: number) => {
+    while (open.length > depth) {
+      html += `</li></${open.pop()!.tag}>`;
+    }
+  };
+
+  for (const item of items) {
+    const indent = indentOf(item);
+    const tag = listTag(item);
+
+    // Close deeper lists, and a same-level list of a different kind
+    closeTo(open.filter((o) => o.indent <= indent).length);
+    const top = open[open.length - 1];
+    if (top && top.indent === indent && top.tag !== tag)
+      closeTo(open.length - 1);
+
+    if (open.length > 0 && open[open.length - 1].indent === indent) {
+      html += '</li>';
+    } else {
+      const attrs: Record<string, string | undefined> =
+        item.type === 'task-item' ? { class: 'task-list' } : {};
+      html += openTag(tag, options, attrs);
+      open.push({ tag, indent });
+    }
+
+    html += openTag('li', options);
+    if (item.type === 'task-item') {
+      const checked = item.attributes.checked === 'true';
+      html += voidElement('input', options, {
+        type: 'checkbox',
+        disabled: 'disabled',
+        checked: checked ? 'checked' : undefined,
+      });
+      html += ' ';
+    }
+    html += spansToHtml(item.spans, options);
+  }
+
+  closeTo(0);
+  return html;
+}
+
+function tableToHtml(block: RenderBlock, options: HtmlOptions): string {
+  const aligns = (block.attributes.align || '').split(',');
+  const cellAttrs = (column: number) => {
+    const align = aligns[column];
+    return align && align !== 'none' ? { style: `text-align: ${align}` } : {};
+  };
+
+  const row = (cells: RenderBlock[], cellTag: 'th' | 'td') =>
+    element(
+      'tr',
+      options,
+      cells
+        .map((cell, column) =>
+          element(
+            cellTag,
+            options,
+            spansToHtml(cell.spans, options),
+            cellAttrs(column)
+          )
+        )
+        .join('')
+    );
+
+  const [header, ...body] = block.children;
+  const thead = header
+    ? element('thead', options, row(header.children, 'th'))
+    : '';
+  const tbody =
+    body.length > 0
+      ? element(
+          'tbody',
+          options,
+          body.map((r) => row(r.children, 'td')).join('')
+        )
+      : '';
+  return element('table', options, thead + tbody);
+}
+
+// ── Inline HTML ─────────────────────────────────────────────────────
+
+/**
+ * Render formatted spans. Marks open and close as a stack, in
+ * `MARK_TAGS` order, so overlapping ranges always nest properly.
+ */
+export function spansToHtml(
+  spans: InlineSpan[],
+  options: HtmlOptions = {}
+): string {
+  const stack: { mark: InlineMark; key: string; close: string }[] = [];
+  let html = '';
+
+  for (const span of spans) {
+    const wanted = MARK_TAGS.filter(({ mark }) => span.attributes?.[mark]).map(
+      ({ mark, tag }) => ({ mark, tag, ...markAttributes(mark, span) })
+    );
+
+    const stale = stack.findIndex(
+      (open) => !wanted.some((w) => w.mark === open.mark && w.key === open.key)
+    );
+    if (stale !== -1) {
+      while (stack.length > stale) html += stack.pop()!.close;
+    }
+
+    for (const want of wanted) {
+      if (stack.some((open) => open.mark === want.mark)) continue;
+      html += openTag(want.tag, options, want.attrs);
+      stack.push({ mark: want.mark, key: want.key, close: `</${want.tag}>` });
+    }
+
+    html += escapeHtml(span.insert).replace(
+      /\n/g,
+      options.xhtml ? '<br />' : '<br>'
+    );
+  }
+
+  while (stack.length > 0) html += stack.pop()!.close;
+  return html;
+}
+
+/** Tag attributes for a mark, plus a key identifying its value */
+function markAttributes(
+  mark: InlineMark,
+  span: InlineSpan
+): { attrs: Record<string, string | undefined>; key: string } {
+  const attrs = span.attributes ?? {};
+  if (mark === 'link') {
+    const href = String(attrs['link-href'] ?? '');
+    const title = attrs['link-title'] ? String(attrs['link-title']) : undefined;
+    return {
+      attrs: { href: isSafeUrl(href) ? href : '#', title },
+      key: `${href}\u0000${title ?? ''}`,
+    };
+  }
+  if (mark === 'entity-ref') {
+    const id = String(attrs['entity-ref-id'] ?? '');
+    return { attrs: { 'data-entity-ref': id }, key: id };
+  }
+  return { attrs: {}, key: '' };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Plain text of a span list */
+export function plainText(spans: InlineSpan[]): string {
+  return spans.map((s) => s.insert).join('');
+}
+
+/** Plain text of a block tree, one line per block */
+export function blocksToText(blocks: RenderBlock[]): string {
+  return blocks
+    .map((block) =>
+      block.children.length > 0
+        ? blocksToText(block.children)
+        : plainText(block.spans)
+    )
+    .filter((text) => text.length > 0)
+    .join('\n');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Whether a URL may appear in an `href`/`src` (no `javascript:` etc.) */
+export function isSafeUrl(url: string): boolean {
+  return SAFE_URL.test(url.trim());
+}
+
+/** Attribute string, skipping undefined values; keys keep their order */
+export function renderAttributes(
+  attrs: Record<string, string | undefined>
+): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeHtml(value!)}"`)
+    .join('');
+}
+
+function openTag(
+  tag: string,
+  options: HtmlOptions,
+  attrs: Record<string, string | undefined> = {}
+): string {
+  const style = options.styles?.[tag];
+  const merged = style
+    ? { ...attrs, style: attrs.style ? `${style}; ${attrs.style}` : style }
+    : attrs;
+  return `<${tag}${renderAttributes(merged)}>`;
+}
+
+function element(
+  tag: string,
+  options: HtmlOptions,
+  content: string,
+  attrs: Record<string, string | undefined> = {}
+): string {
+  return `${openTag(tag, options, attrs)}${content}</${tag}>`;
+}
+
+function voidElement(
+  tag: string,
+  options: HtmlOptions,
+  attrs: Record<string, string | undefined> = {}
+): string {
+  const html = openTag(tag, options, attrs);
+  return options.xhtml ? `${html.slice(0, -1)} />` : html;
+}
+
+function anchor(
+  attributes: Record<string, string>
+): Record<string, string | undefined> {
+  return attributes.id ? { id: attributes.id } : {};
+}
@@ -0,0 +1,390 @@
+/**
+ * PDF — Paginated PDF for published records
+ *
+ * Writes a PDF 1.4 file using the standard Helvetica and Courier
+ * fonts (nothing embedded): the title, then every block as wrapped
+ * text with headings in bold, code in Courier, lists and quotes
+ * indented and dividers drawn as rules. Inline marks are not styled.
+ * Text outside the WinAnsi character set is replaced with `?`.
+ *
+ * Streams are stored uncompressed and the creation date is taken from
+ * the record, so the same snapshot always gives the same bytes.
+ */
+
+import { plainText, type RenderBlock } from './html';
+import { recordUrl, type SiteConfig } from './renderers';
+import type { PublishRecord } from './PublishingPipeline';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type PaperSize = 'a4' | 'letter' | 'legal';
+
+export interface PdfOptions {
+  /** Page size (default: 'a4') */
+  readonly paperSize?: string;
+}
+
+/** Page dimensions in points */
+const PAPER_SIZES: Record<PaperSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+
+const MARGIN = 72;
+const BODY_SIZE = 11;
+const CODE_SIZE = 9.5;
+const INDENT = 18;
+const HEADING_SIZES = [20, 16, 14, 12.5, 11.5, 11];
+
+type Font = 'F1' | 'F2' | 'F3';
+
+const FONTS: Record<Font, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Courier',
+};
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32-126 */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+/** WinAnsi codes for characters outside Latin-1 */
+const WIN_ANSI: Record<string, number> = {
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '…': 0x85,
+  '€': 0x80,
+};
+
+/** A laid-out line of text, or a rule */
+interface Line {
+  readonly text: string;
+  readonly font: Font;
+  readonly size: number;
+  readonly indent: number;
+  /** Space above the line, in points */
+  readonly spaceBefore: number;
+  readonly rule?: boolean;
+}
+
+// ── PDF ─────────────────────────────────────────────────────────────
+
+/** Render a record as a PDF document */
+export function renderPdf(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  site?: SiteConfig,
+  options: PdfOptions = {}
+): Uint8Array {
+  const [width, height] = paperSize(options.paperSize);
+  const textWidth = width - 2 * MARGIN;
+
+  const lines: Line[] = [
+    ...wrap(record.title, 'F2', HEADING_SIZES[0] + 4, 0, 0, textWidth),
+    ...layoutBlocks(blocks, 0, textWidth),
+  ];
+
+  // Paginate
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = height - MARGIN;
+  for (const line of lines) {
+    const advance = line.spaceBefore + line.size * 1.35;
+    if (y - advance < MARGIN && ops.length > 0) {
+      pages.push(ops.join('\n'));
+      ops = [];
+      y = height - MARGIN;
+    }
+    y -= ops.length > 0 ? advance : line.size * 1.35;
+    const x = MARGIN + line.indent;
+    ops.push(
+      line.rule
+        ? `${fixed(x)} ${fixed(y + line.size / 2)} m ${fixed(width - MARGIN)} ${fixed(y + line.size / 2)} l S`
+        : `BT /${line.font} ${line.size} Tf ${fixed(x)} ${fixed(y)} Td (${escapePdf(line.text)}) Tj ET`
+    );
+  }
+  if (ops.length > 0 || pages.length === 0) pages.push(ops.join('\n'));
+
+  // Objects: 1 catalog, 2 page tree, 3-5 fonts, 6 info, then a page
+  // and its content stream per page
+  const pageIds = pages.map((_, i) => 7 + 2 * i);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    ...(Object.keys(FONTS) as Font[]).map(
+      (font) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font]} /Encoding /WinAnsiEncoding >>`
+    ),
+    infoDictionary(record, site),
+  ];
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fixed(width)} ${fixed(height)}] ` +
+        '/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> ' +
+        `/Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf +=
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\n` +
+    `startxref\n${xref}\n%%EOF\n`;
+
+  // Every character is a single byte by now
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return bytes;
+}
+
+// ── Layout ──────────────────────────────────────────────────────────
+
+function layoutBlocks(
+  blocks: RenderBlock[],
+  indent: number,
+  width: number
+): Line[] {
+  const lines: Line[] = [];
+  const body = (text: string, extra = 0, space = BODY_SIZE * 0.6) =>
+    wrap(text, 'F1', BODY_SIZE, indent + extra, space, width - extra);
+  /** Item numbers of open ordered lists, by indent level */
+  let counters: number[] = [];
+
+  for (const block of blocks) {
+    const { attributes } = block;
+    const text = plainText(block.spans);
+    const isList = block.type === 'list-item' || block.type === 'task-item';
+    if (!isList) counters = [];
+
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(
+          Math.max(parseInt(attributes.level, 10) || 1, 1),
+          6
+        );
+        lines.push(
+          ...wrap(
+            text,
+            'F2',
+            HEADING_SIZES[level - 1],
+            indent,
+            BODY_SIZE,
+            width
+          )
+        );
+        break;
+      }
+      case 'list-item':
+      case 'task-item': {
+        const level = Math.max(parseInt(attributes.indent || '0', 10) || 0, 0);
+        counters = counters.slice(0, level + 1);
+        counters[level] = (counters[level] ?? 0) + 1;
+        const marker =
+          block.type === 'task-item'
+            ? attributes.checked === 'true'
+              ? '[x]'
+              : '[ ]'
+            : attributes['list-type'] === 'ordered'
+              ? `${counters[level]}.`
+              : '•';
+        lines.push(
+          ...body(`${marker} ${text}`, INDENT * (level + 1), BODY_SIZE * 0.3)
+        );
+        break;
+      }
+      case 'code':
+        lines.push(
+          ...plainText(block.spans)
+            .split('\n')
+            .flatMap((line, i) =>
+              wrap(
+                line || ' ',
+                'F3',
+                CODE_SIZE,
+                indent + INDENT,
+                i === 0 ? BODY_SIZE * 0.6 : 0,
+                width - INDENT
+              )
+            )
+        );
+        break;
+      case 'blockquote':
+      case 'callout':
+        if (text) lines.push(...body(text, INDENT));
+        lines.push(
+          ...layoutBlocks(block.children, indent + INDENT, width - INDENT)
+        );
+        break;
+      case 'table':
+        for (const row of block.children) {
+          const cells = row.children.map((cell) => plainText(cell.spans));
+          lines.push(...body(cells.join('  |  '), 0, BODY_SIZE * 0.3));
+        }
+        break;
+      case 'image':
+        if (attributes.alt || attributes.src) {
+          lines.push(...body(`[Image: ${attributes.alt || attributes.src}]`));
+        }
+        break;
+      case 'embed':
+        if (attributes.url) lines.push(...body(attributes.url));
+        break;
+      case 'divider':
+        lines.push({
+          text: '',
+          font: 'F1',
+          size: BODY_SIZE,
+          indent,
+          spaceBefore: BODY_SIZE * 0.6,
+          rule: true,
+        });
+        break;
+      case 'esi':
+        // Dynamic slots have no static rendering
+        break;
+      default:
+        if (text) lines.push(...body(text));
+        if (block.children.length > 0) {
+          lines.push(...layoutBlocks(block.children, indent, width));
+        }
+    }
+  }
+  return lines;
+}
+
+/** Break text into lines that fit `width`, at spaces where possible */
+function wrap(
+  text: string,
+  font: Font,
+  size: number,
+  indent: number,
+  spaceBefore: number,
+  width: number
+): Line[] {
+  const lines: Line[] = [];
+  const push = (line: string) =>
+    lines.push({
+      text: line,
+      font,
+      size,
+      indent,
+      spaceBefore: lines.length === 0 ? spaceBefore : 0,
+    });
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, font, size) > width) {
+        push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+      // Words longer than a line are split anywhere
+      while (textWidth(line, font, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), font, size) > width) {
+          cut--;
+        }
+        push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    push(line);
+  }
+  return lines;
+}
+
+function textWidth(text: string, font: Font, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    if (font === 'F3') {
+      units += 600;
+    } else {
+      const code = char.charCodeAt(0);
+      const base =
+        code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+      // Bold runs about a tenth wider
+      units += font === 'F2' ? base * 1.1 : base;
+    }
+  }
+  return (units / 1000) * size;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function paperSize(name = 'a4'): [number, number] {
+  const size = PAPER_SIZES[name.toLowerCase() as PaperSize];
+  if (!size) throw new Error(`Unknown paper size: ${name}`);
+  return size;
+}
+
+function infoDictionary(record: PublishRecord, site?: SiteConfig): string {
+  const author = site?.authorName?.(record.authorDid) ?? record.authorDid;
+  const date = (record.publishedAt ?? record.updatedAt)
+    .replace(/[-:T]/g, '')
+    .slice(0, 14);
+  const entries = [
+    `/Title (${escapePdf(record.title)})`,
+    `/Author (${escapePdf(author)})`,
+    `/CreationDate (D:${date}Z)`,
+    '/Producer (Capacitor)',
+  ];
+  const url = recordUrl(record, site);
+  if (url) entries.push(`/Subject (${escapePdf(url)})`);
+  if (record.tags.length > 0) {
+    entries.push(`/Keywords (${escapePdf(record.tags.join(', '))})`);
+  }
+  return `<< ${entries.join(' ')} >>`;
+}
+
+/** A PDF literal string body in WinAnsi, one character per byte */
+function escapePdf(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte =
+      char.length === 1 && (code < 0x80 || (code >= 0xa0 && code <= 0xff))
+        ? code
+        : (WIN_ANSI[char] ?? 0x3f);
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      out += `\\${String.fromCharCode(byte)}`;
+    } else if (byte < 0x20) {
+      out += ' ';
+    } else {
+      out += String.fromCharCode(byte);
+    }
+  }
+  return out;
+}
+
+/** Number with at most two decimals, as PDF operands */
+function fixed(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
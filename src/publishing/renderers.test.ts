@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { readFragment, type RenderBlock } from './html';
+import { renderEmailHtml, renderFeed, renderHtmlPage } from './renderers';
+import { crc32, renderEpub } from './epub';
+import { renderPdf } from './pdf';
+import type { PublishRecord } from './PublishingPipeline';
+
+function record(overrides: Partial<PublishRecord> = {}): PublishRecord {
+  return {
+    id: 'rec-1',
+    state: 'published',
+    slug: 'hello-world',
+    title: 'Hello <World>',
+    excerpt: 'A first post',
+    authorDid: 'did:key:alice',
+    coAuthors: [],
+    tags: ['intro'],
+    seo: {
+      title: 'Hello World',
+      description: 'A first post',
+      keywords: ['hello'],
+    },
+    socialCards: {
+      twitter: {
+        card: 'summary',
+        title: 'Hello World',
+        description: 'A first post',
+      },
+      openGraph: {
+        title: 'Hello World',
+        description: 'A first post',
+        type: 'article',
+      },
+    },
+    snapshotId: 'snap-1',
+    revisionId: 'rev-1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-02T00:00:00.000Z',
+    publishedAt: '2026-01-02T00:00:00.000Z',
+    contentHash: 'hash',
+    projections: [{ type: 'html' }],
+    ...overrides,
+  };
+}
+
+/** Minimal stand-in for a CRDT element */
+function element(
+  nodeName: string,
+  attributes: Record<string, string>,
+  children: unknown[]
+) {
+  return {
+    nodeName,
+    length: children.length,
+    get: (i: number) => children[i],
+    getAttributes: () => attributes,
+  };
+}
+
+function text(delta: Array<{ insert: string; attributes?: object }>) {
+  return { toDelta: () => delta };
+}
+
+const SITE = { title: 'Notes', url: 'https://example.com/', language: 'en' };
+
+const BLOCKS: RenderBlock[] = readFragment(
+  element('root', {}, [
+    element('heading', { level: '2' }, [text([{ insert: 'Intro' }])]),
+    element('paragraph', {}, [
+      text([
+        { insert: 'Some ' },
+        { insert: 'bold', attributes: { bold: true } },
+        { insert: ' text' },
+      ]),
+    ]),
+  ])
+);
+
+describe('renderers', () => {
+  it('renders a page with SEO and social meta tags', () => {
+    const html = renderHtmlPage(record(), BLOCKS, SITE);
+
+    expect(html).toContain('<title>Hello World</title>');
+    expect(html).toContain(
+      '<link rel="canonical" href="https://example.com/hello-world">'
+    );
+    expect(html).toContain('<meta property="og:title" content="Hello World">');
+    expect(html).toContain('<meta name="twitter:card" content="summary">');
+    expect(html).toContain('<h1>Hello &lt;World&gt;</h1>');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).toContain('"@type":"BlogPosting"');
+  });
+
+  it('fills templates without reading values as patterns', () => {
+    const title = 'Save $& win {{content}}';
+    const html = renderHtmlPage(
+      record({
+        title,
+        socialCards: {
+          ...record().socialCards,
+          openGraph: { ...record().socialCards.openGraph, title },
+        },
+      }),
+      BLOCKS,
+      SITE,
+      '<head>{{head}}</head><h1>{{title}}</h1><main>{{content}}</main>'
+    );
+
+    expect(html).toContain(
+      '<meta property="og:title" content="Save $&amp; win {{content}}">'
+    );
+    expect(html).toContain('<h1>Save $&amp; win {{content}}</h1>');
+    expect(html.match(/<strong>bold<\/strong>/g)).toHaveLength(1);
+  });
+
+  it('is deterministic', () => {
+    expect(renderHtmlPage(record(), BLOCKS, SITE)).toBe(
+      renderHtmlPage(record(), BLOCKS, SITE)
+    );
+    expect(renderEpub(record(), BLOCKS, SITE)).toEqual(
+      renderEpub(record(), BLOCKS, SITE)
+    );
+  });
+
+  it('inlines styles in email output', () => {
+    const html = renderEmailHtml(record(), BLOCKS, SITE);
+
+    expect(html).not.toContain('<style');
+    expect(html).not.toContain('<script');
+    expect(html).toMatch(/<p style="[^"]+">Some /);
+  });
+
+  it('lists only published records in feeds, newest first', () => {
+    const entries = [
+      { record: record({ id: 'a', slug: 'a' }) },
+      {
+        record: record({
+          id: 'b',
+          slug: 'b',
+          publishedAt: '2026-02-01T00:00:00.000Z',
+        }),
+        blocks: BLOCKS,
+      },
+      { record: record({ id: 'c', slug: 'c', state: 'draft' }) },
+    ];
+
+    const rss = renderFeed('rss', entries, SITE);
+    expect(rss.indexOf('/b</link>')).toBeLessThan(rss.indexOf('/a</link>'));
+    expect(rss).not.toContain('/c</link>');
+    expect(rss).toContain('<content:encoded><![CDATA[');
+
+    const json = JSON.parse(renderFeed('json-feed', entries, SITE));
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items.map((i: { id: string }) => i.id)).toEqual([
+      'https://example.com/b',
+      'https://example.com/a',
+    ]);
+
+    const atom = renderFeed('atom', entries, SITE);
+    expect(atom).toContain('<updated>2026-01-02T00:00:00.000Z</updated>');
+  });
+
+  it('packages an EPUB with an uncompressed mimetype first', () => {
+    const epub = renderEpub(record(), BLOCKS, SITE);
+    const view = new DataView(epub.buffer, epub.byteOffset);
+    const decode = (start: number, length: number) =>
+      new TextDecoder().decode(epub.subarray(start, start + length));
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // stored
+    expect(decode(30, view.getUint16(26, true))).toBe('mimetype');
+    expect(decode(38, 20)).toBe('application/epub+zip');
+
+    const files = new TextDecoder().decode(epub);
+    expect(files).toContain('META-INF/container.xml');
+    expect(files).toContain('<dc:title>Hello &lt;World&gt;</dc:title>');
+    expect(files).toContain(
+      '<meta property="dcterms:modified">2026-01-02T00:00:00Z</meta>'
+    );
+    expect(files).toContain('<a href="chapter.xhtml#section-0">Intro</a>');
+  });
+
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const pdf = renderPdf(record(), BLOCKS, SITE, { paperSize: 'letter' });
+    const source = String.fromCharCode(...pdf);
+
+    expect(source.startsWith('%PDF-1.4')).toBe(true);
+    expect(source).toContain('/MediaBox [0 0 612 792]');
+    expect(source).toContain('/Title (Hello <World>)');
+    expect(source).toContain('/CreationDate (D:20260102000000Z)');
+    expect(source).toContain('(Intro) Tj');
+
+    const xref = Number(/startxref\n(\d+)/.exec(source)![1]);
+    expect(source.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...source.slice(xref).matchAll(/(\d{10}) 00000 n/g)];
+    offsets.forEach(([, offset], i) => {
+      expect(source.slice(Number(offset)).startsWith(`${i + 1} 0 obj`)).toBe(
+        true
+      );
+    });
+    expect(renderPdf(record(), BLOCKS, SITE)).toEqual(
+      renderPdf(record(), BLOCKS, SITE)
+    );
+    expect(() =>
+      renderPdf(record(), BLOCKS, SITE, { paperSize: 'a0' })
+    ).toThrow('Unknown paper size: a0');
+  });
+
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
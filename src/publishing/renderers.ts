@@ -0,0 +1,495 @@
+/**
+ * Renderers — Publish records to HTML pages, email and feeds
+ *
+ * Every renderer is a pure function of its inputs: timestamps come
+ * from the publish record, never the clock, and collections are
+ * sorted, so the same snapshot and record always produce the same
+ * bytes.
+ */
+
+import {
+  blocksToHtml,
+  blocksToText,
+  escapeHtml,
+  isSafeUrl,
+  renderAttributes,
+  type InlineStyles,
+  type RenderBlock,
+} from './html';
+import type { PublishRecord } from './PublishingPipeline';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Site-level settings shared by pages and feeds */
+export interface SiteConfig {
+  /** Site or publication title */
+  readonly title: string;
+  /** Absolute site URL, used to resolve record slugs */
+  readonly url: string;
+  /** Feed description */
+  readonly description?: string;
+  /** BCP 47 language tag */
+  readonly language?: string;
+  /** Display name for an author DID (defaults to the DID) */
+  readonly authorName?: (did: string) => string;
+}
+
+/** A record paired with its rendered content, for feeds */
+export interface FeedEntry {
+  readonly record: PublishRecord;
+  /** Blocks of the record's snapshot; omitted entries carry only the excerpt */
+  readonly blocks?: RenderBlock[];
+}
+
+/** Feed formats */
+export type FeedFormat = 'rss' | 'atom' | 'json-feed';
+
+// ── HTML Page ───────────────────────────────────────────────────────
+
+/**
+ * Render a standalone HTML page with SEO and social card meta tags.
+ * A `template` may place `{{head}}`, `{{title}}` and `{{content}}`.
+ */
+export function renderHtmlPage(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  site?: SiteConfig,
+  template?: string
+): string {
+  const url = recordUrl(record, site);
+  const { seo, socialCards } = record;
+  const meta = (attrs: Record<string, string | undefined>) =>
+    attrs.content === undefined ? '' : `<meta${renderAttributes(attrs)}>`;
+
+  const head = [
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(seo.title || record.title)}</title>`,
+    meta({ name: 'description', content: seo.description || undefined }),
+    meta({
+      name: 'keywords',
+      content: seo.keywords.length > 0 ? seo.keywords.join(', ') : undefined,
+    }),
+    meta({
+      name: 'robots',
+      content: seo.noIndex ? 'noindex, nofollow' : undefined,
+    }),
+    meta({ name: 'author', content: authorName(record.authorDid, site) }),
+    url ? `<link rel="canonical"${renderAttributes({ href: url })}>` : '',
+    meta({ property: 'og:type', content: socialCards.openGraph.type }),
+    meta({ property: 'og:title', content: socialCards.openGraph.title }),
+    meta({
+      property: 'og:description',
+      content: socialCards.openGraph.description,
+    }),
+    meta({ property: 'og:image', content: socialCards.openGraph.image }),
+    meta({ property: 'og:url', content: url }),
+    meta({ property: 'og:site_name', content: site?.title }),
+    meta({
+      property: 'article:published_time',
+      content: record.publishedAt,
+    }),
+    meta({ property: 'article:modified_time', content: record.updatedAt }),
+    ...record.tags.map((tag) =>
+      meta({ property: 'article:tag', content: tag })
+    ),
+    meta({ name: 'twitter:card', content: socialCards.twitter.card }),
+    meta({ name: 'twitter:title', content: socialCards.twitter.title }),
+    meta({
+      name: 'twitter:description',
+      content: socialCards.twitter.description,
+    }),
+    meta({ name: 'twitter:image', content: socialCards.twitter.image }),
+    `<script type="application/ld+json">${jsonForScript(
+      structuredData(record, url, site)
+    )}</script>`,
+  ].filter((line) => line.length > 0);
+
+  const title = escapeHtml(record.title);
+  const content = blocksToHtml(blocks, { dynamic: true });
+
+  if (template) {
+    // One pass, so values are never read as patterns or placeholders
+    const values: Record<string, string> = {
+      head: head.join('\n'),
+      title,
+      content,
+    };
+    return template.replace(
+      /\{\{(head|title|content)\}\}/g,
+      (_, key: string) => values[key]
+    );
+  }
+
+  const byline = [
+    `<p class="byline">${escapeHtml(authorName(record.authorDid, site))}`,
+    record.publishedAt
+      ? ` · <time datetime="${record.publishedAt}">${record.publishedAt.slice(0, 10)}</time>`
+      : '',
+    '</p>',
+  ].join('');
+
+  return joinLines([
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(site?.language ?? 'en')}">`,
+    '<head>',
+    ...head,
+    '</head>',
+    '<body>',
+    '<article>',
+    '<header>',
+    `<h1>${title}</h1>`,
+    byline,
+    '</header>',
+    content,
+    '</article>',
+    '</body>',
+    '</html>',
+  ]);
+}
+
+/** schema.org data: the record's own, or a default BlogPosting */
+function structuredData(
+  record: PublishRecord,
+  url: string | undefined,
+  site: SiteConfig | undefined
+): Record<string, unknown> {
+  if (record.seo.structuredData) return record.seo.structuredData;
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: record.title,
+    description: record.seo.description || record.excerpt,
+    ...(url ? { url, mainEntityOfPage: url } : {}),
+    ...(record.coverImage ? { image: record.coverImage } : {}),
+    author: [record.authorDid, ...record.coAuthors].map((did) => ({
+      '@type': 'Person',
+      name: authorName(did, site),
+      identifier: did,
+    })),
+    ...(record.publishedAt ? { datePublished: record.publishedAt } : {}),
+    dateModified: record.updatedAt,
+    keywords:
+      record.seo.keywords.length > 0 ? record.seo.keywords : record.tags,
+  };
+}
+
+// ── Email ───────────────────────────────────────────────────────────
+
+/** Inline styles for email clients that strip `<style>` blocks */
+const EMAIL_STYLES: InlineStyles = {
+  h1: 'margin: 0 0 16px; font-size: 28px; line-height: 1.25; color: #111111',
+  h2: 'margin: 24px 0 12px; font-size: 22px; line-height: 1.3; color: #111111',
+  h3: 'margin: 20px 0 10px; font-size: 18px; line-height: 1.35; color: #111111',
+  h4: 'margin: 16px 0 8px; font-size: 16px; color: #111111',
+  h5: 'margin: 16px 0 8px; font-size: 14px; color: #111111',
+  h6: 'margin: 16px 0 8px; font-size: 13px; color: #555555',
+  p: 'margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #222222',
+  a: 'color: #1a56db; text-decoration: underline',
+  ul: 'margin: 0 0 16px; padding-left: 24px',
+  ol: 'margin: 0 0 16px; padding-left: 24px',
+  li: 'margin: 0 0 6px; font-size: 16px; line-height: 1.6; color: #222222',
+  blockquote:
+    'margin: 0 0 16px; padding: 0 0 0 16px; border-left: 4px solid #dddddd; color: #555555',
+  aside:
+    'margin: 0 0 16px; padding: 12px 16px; background-color: #f4f6fa; border-radius: 6px',
+  pre: 'margin: 0 0 16px; padding: 12px; background-color: #f6f8fa; border-radius: 6px; overflow-x: auto',
+  code: 'font-family: Menlo, Consolas, monospace; font-size: 14px',
+  table: 'margin: 0 0 16px; border-collapse: collapse; width: 100%',
+  th: 'padding: 6px 10px; border: 1px solid #dddddd; background-color: #f6f8fa; text-align: left',
+  td: 'padding: 6px 10px; border: 1px solid #dddddd',
+  hr: 'margin: 24px 0; border: 0; border-top: 1px solid #dddddd',
+  figure: 'margin: 0 0 16px',
+  figcaption: 'font-size: 13px; color: #666666',
+  img: 'display: block; max-width: 100%; height: auto; border: 0',
+  mark: 'background-color: #fff3a3',
+};
+
+/**
+ * Render an email-safe HTML body: table layout, every element styled
+ * inline, no scripts or stylesheets, and ESI slots removed.
+ */
+export function renderEmailHtml(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  site?: SiteConfig
+): string {
+  const url = recordUrl(record, site);
+  const content = blocksToHtml(blocks, { styles: EMAIL_STYLES });
+  const preheader = escapeHtml(record.excerpt || record.seo.description);
+
+  return joinLines([
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(site?.language ?? 'en')}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(record.title)}</title>`,
+    '</head>',
+    '<body style="margin: 0; padding: 0; background-color: #f4f4f4">',
+    `<div style="display: none; max-height: 0; overflow: hidden">${preheader}</div>`,
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f4f4f4">',
+    '<tr><td align="center" style="padding: 24px 12px">',
+    '<table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; width: 100%; background-color: #ffffff">',
+    '<tr><td style="padding: 32px; font-family: Georgia, \'Times New Roman\', serif">',
+    `<h1 style="${EMAIL_STYLES.h1}">${escapeHtml(record.title)}</h1>`,
+    content,
+    url
+      ? `<p style="${EMAIL_STYLES.p}"><a href="${escapeHtml(url)}" style="${EMAIL_STYLES.a}">Read on the web</a></p>`
+      : '',
+    '</td></tr>',
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ]);
+}
+
+/** Plain-text alternative for the email body */
+export function renderEmailText(
+  record: PublishRecord,
+  blocks: RenderBlock[],
+  site?: SiteConfig
+): string {
+  const url = recordUrl(record, site);
+  return [
+    record.title,
+    '',
+    blocksToText(blocks),
+    ...(url ? ['', url] : []),
+    '',
+  ].join('\n');
+}
+
+// ── Feeds ───────────────────────────────────────────────────────────
+
+/** Render a feed over the published entries, newest first */
+export function renderFeed(
+  format: FeedFormat,
+  entries: FeedEntry[],
+  site: SiteConfig,
+  feedUrl?: string
+): string {
+  const published = sortEntries(
+    entries.filter((e) => e.record.state === 'published')
+  );
+  switch (format) {
+    case 'rss':
+      return renderRss(published, site, feedUrl);
+    case 'atom':
+      return renderAtom(published, site, feedUrl);
+    case 'json-feed':
+      return renderJsonFeed(published, site, feedUrl);
+  }
+}
+
+function renderRss(
+  entries: FeedEntry[],
+  site: SiteConfig,
+  feedUrl: string | undefined
+): string {
+  const updated = latestUpdate(entries);
+  const items = entries.map(({ record, blocks }) => {
+    const url = recordUrl(record, site);
+    return [
+      '<item>',
+      `<title>${escapeXml(record.title)}</title>`,
+      url ? `<link>${escapeXml(url)}</link>` : '',
+      `<guid isPermaLink="${url ? 'true' : 'false'}">${escapeXml(
+        url ?? record.id
+      )}</guid>`,
+      `<pubDate>${rfc822(record.publishedAt ?? record.updatedAt)}</pubDate>`,
+      `<dc:creator>${escapeXml(authorName(record.authorDid, site))}</dc:creator>`,
+      ...record.tags.map((tag) => `<category>${escapeXml(tag)}</category>`),
+      `<description>${escapeXml(record.excerpt)}</description>`,
+      blocks
+        ? `<content:encoded>${cdata(blocksToHtml(blocks))}</content:encoded>`
+        : '',
+      record.coverImage && isSafeUrl(record.coverImage)
+        ? `<enclosure url="${escapeXml(record.coverImage)}" length="0" type="${imageType(record.coverImage)}"/>`
+        : '',
+      '</item>',
+    ]
+      .filter((line) => line.length > 0)
+      .join('\n');
+  });
+
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    `<title>${escapeXml(site.title)}</title>`,
+    `<link>${escapeXml(site.url)}</link>`,
+    `<description>${escapeXml(site.description ?? site.title)}</description>`,
+    site.language ? `<language>${escapeXml(site.language)}</language>` : '',
+    feedUrl
+      ? `<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`
+      : '',
+    updated ? `<lastBuildDate>${rfc822(updated)}</lastBuildDate>` : '',
+    ...items,
+    '</channel>',
+    '</rss>',
+  ]);
+}
+
+function renderAtom(
+  entries: FeedEntry[],
+  site: SiteConfig,
+  feedUrl: string | undefined
+): string {
+  const updated = latestUpdate(entries) ?? '1970-01-01T00:00:00.000Z';
+  const items = entries.map(({ record, blocks }) => {
+    const url = recordUrl(record, site);
+    return [
+      '<entry>',
+      `<title>${escapeXml(record.title)}</title>`,
+      `<id>${escapeXml(url ?? `urn:publish:${record.id}`)}</id>`,
+      url ? `<link rel="alternate" href="${escapeXml(url)}"/>` : '',
+      record.publishedAt ? `<published>${record.publishedAt}</published>` : '',
+      `<updated>${record.updatedAt}</updated>`,
+      ...[record.authorDid, ...record.coAuthors].map(
+        (did) =>
+          `<author><name>${escapeXml(authorName(did, site))}</name><uri>${escapeXml(did)}</uri></author>`
+      ),
+      ...record.tags.map((tag) => `<category term="${escapeXml(tag)}"/>`),
+      `<summary>${escapeXml(record.excerpt)}</summary>`,
+      blocks
+        ? `<content type="html">${escapeXml(blocksToHtml(blocks))}</content>`
+        : '',
+      '</entry>',
+    ]
+      .filter((line) => line.length > 0)
+      .join('\n');
+  });
+
+  return joinLines([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom"${
+      site.language ? ` xml:lang="${escapeXml(site.language)}"` : ''
+    }>`,
+    `<title>${escapeXml(site.title)}</title>`,
+    site.description
+      ? `<subtitle>${escapeXml(site.description)}</subtitle>`
+      : '',
+    `<id>${escapeXml(feedUrl ?? site.url)}</id>`,
+    `<link rel="alternate" href="${escapeXml(site.url)}"/>`,
+    feedUrl ? `<link rel="self" href="${escapeXml(feedUrl)}"/>` : '',
+    `<updated>${updated}</updated>`,
+    ...items,
+    '</feed>',
+  ]);
+}
+
+function renderJsonFeed(
+  entries: FeedEntry[],
+  site: SiteConfig,
+  feedUrl: string | undefined
+): string {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: site.title,
+    home_page_url: site.url,
+    ...(feedUrl ? { feed_url: feedUrl } : {}),
+    ...(site.description ? { description: site.description } : {}),
+    ...(site.language ? { language: site.language } : {}),
+    items: entries.map(({ record, blocks }) => {
+      const url = recordUrl(record, site);
+      return {
+        id: url ?? record.id,
+        ...(url ? { url } : {}),
+        title: record.title,
+        ...(blocks
+          ? { content_html: blocksToHtml(blocks) }
+          : { content_text: record.excerpt }),
+        summary: record.excerpt,
+        ...(record.coverImage ? { image: record.coverImage } : {}),
+        ...(record.publishedAt ? { date_published: record.publishedAt } : {}),
+        date_modified: record.updatedAt,
+        authors: [record.authorDid, ...record.coAuthors].map((did) => ({
+          name: authorName(did, site),
+        })),
+        tags: record.tags,
+      };
+    }),
+  };
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Absolute URL of a record: its canonical URL, or site URL + slug */
+export function recordUrl(
+  record: PublishRecord,
+  site?: SiteConfig
+): string | undefined {
+  const canonical = record.seo.canonicalUrl ?? record.canonicalUrl;
+  if (canonical) return canonical;
+  if (!site) return undefined;
+  return `${site.url.replace(/\/+$/, '')}/${record.slug}`;
+}
+
+function authorName(did: string, site: SiteConfig | undefined): string {
+  return site?.authorName?.(did) ?? did;
+}
+
+/** Newest first; ties broken by ID so order never depends on input order */
+function sortEntries(entries: FeedEntry[]): FeedEntry[] {
+  const dateOf = (e: FeedEntry) => e.record.publishedAt ?? e.record.updatedAt;
+  return [...entries].sort(
+    (a, b) =>
+      dateOf(b).localeCompare(dateOf(a)) ||
+      a.record.id.localeCompare(b.record.id)
+  );
+}
+
+function latestUpdate(entries: FeedEntry[]): string | undefined {
+  return entries
+    .map((e) => e.record.updatedAt)
+    .sort()
+    .at(-1);
+}
+
+/** One element per line, skipping empty entries, with a final newline */
+function joinLines(lines: string[]): string {
+  return `${lines.filter((line) => line.length > 0).join('\n')}\n`;
+}
+
+function rfc822(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+function imageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'gif':
+      return 'image/gif';
+    case 'webp':
+      return 'image/webp';
+    case 'svg':
+      return 'image/svg+xml';
+    default:
+      return 'image/jpeg';
+  }
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Wrap text in CDATA, splitting any `]]>` it contains */
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/\]\]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/** JSON safe to embed in a `<script>` element */
+function jsonForScript(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
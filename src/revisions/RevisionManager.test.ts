@@ -0,0 +1,281 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+import { AeonDocument } from '../document/document';
+import { RevisionManager } from './RevisionManager';
+import { MemoryRevisionStore, type RevisionPayload } from './RevisionStore';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function sequentialIds(): () => string {
+  let next = 0;
+  return () => `rev-${++next}`;
+}
+
+function element(
+  type: string,
+  attributes: Record<string, string>,
+  children: Array<Y.XmlElement | Y.XmlText>
+): Y.XmlElement {
+  const el = new Y.XmlElement(type);
+  for (const [key, value] of Object.entries(attributes)) {
+    el.setAttribute(key, value);
+  }
+  el.insert(0, children);
+  return el;
+}
+
+function paragraph(id: string, text: Y.XmlText): Y.XmlElement {
+  return element('paragraph', { id, 'embedding-id': `e-${id}` }, [text]);
+}
+
+/** Edit the document's tree directly, as a local change */
+function edit(doc: AeonDocument, change: (fragment: Y.XmlFragment) => void) {
+  doc.ydoc.transact(() => change(doc.fragment), 'local');
+}
+
+/** A store that records which payloads are read */
+class CountingStore extends MemoryRevisionStore {
+  reads: string[] = [];
+
+  async getPayload(id: string): Promise<RevisionPayload | undefined> {
+    this.reads.push(id);
+    return super.getPayload(id);
+  }
+}
+
+/** Commit `count` revisions, each adding a paragraph */
+async function commitSeries(
+  revisions: RevisionManager,
+  doc: AeonDocument,
+  count: number
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    edit(doc, (fragment) =>
+      fragment.insert(fragment.length, [
+        paragraph(`p${i}`, new Y.XmlText(`Paragraph ${i}`)),
+      ])
+    );
+    ids.push((await revisions.createRevision(doc, `Step ${i}`)).id);
+  }
+  return ids;
+}
+
+async function textsAt(
+  revisions: RevisionManager,
+  id: string
+): Promise<string[]> {
+  return (await revisions.getBlocks(id)).map((b) => b.id);
+}
+
+/** A main-branch document with a revision, and a copy on a branch */
+async function branched(revisions: RevisionManager) {
+  const doc = new AeonDocument('doc-1');
+  const intro = new Y.XmlText();
+  intro.insert(0, 'Intro ');
+  intro.insert(6, 'bold', { bold: true });
+  edit(doc, (fragment) =>
+    fragment.insert(0, [
+      paragraph('p1', intro),
+      element('blockquote', { id: 'q1', 'embedding-id': 'e-q1' }, [
+        paragraph('q1-p', new Y.XmlText('Quoted')),
+      ]),
+    ])
+  );
+  await revisions.createRevision(doc, 'Base');
+  await revisions.createBranch('feature');
+
+  const feature = new AeonDocument('doc-1');
+  feature.applyUpdate(doc.getState());
+  return { doc, feature };
+}
+
+// ── Merge ───────────────────────────────────────────────────────────
+
+describe('RevisionManager merge', () => {
+  it('applies merged blocks with their marks and nested blocks', async () => {
+    const revisions = new RevisionManager(sequentialIds());
+    const { doc, feature } = await branched(revisions);
+
+    revisions.switchBranch('feature');
+    edit(feature, (fragment) => {
+      const quote = fragment.get(1) as Y.XmlElement;
+      const text = (quote.get(0) as Y.XmlElement).get(0) as Y.XmlText;
+      text.insert(text.length, ' and stressed', { italic: true });
+    });
+    await revisions.createRevision(feature, 'Stress the quote');
+
+    revisions.switchBranch('main');
+    edit(doc, (fragment) =>
+      (fragment.get(0) as Y.XmlElement).setAttribute('embedding-id', 'e-new')
+    );
+
+    const result = await revisions.merge('feature', doc);
+    expect(result?.status).toBe('merged');
+    expect(doc.getBlock(1).toString()).toBe(feature.getBlock(1).toString());
+    expect(doc.getBlock(1).toString()).toContain(
+      '<italic> and stressed</italic>'
+    );
+    expect(doc.getBlock(0).toString()).toContain('<bold>bold</bold>');
+    expect(doc.getBlock(0).getAttribute('embedding-id')).toBe('e-new');
+    expect(revisions.getRevision(result!.revision!.id)?.mergedFrom).toBe(
+      result!.theirsRevisionId
+    );
+  });
+
+  it('reports attributes changed on both sides as a conflict', async () => {
+    const revisions = new RevisionManager(sequentialIds());
+    const { doc, feature } = await branched(revisions);
+
+    revisions.switchBranch('feature');
+    edit(feature, (fragment) =>
+      (fragment.get(0) as Y.XmlElement).setAttribute('embedding-id', 'e-ours')
+    );
+    await revisions.createRevision(feature, 'Re-embed');
+
+    revisions.switchBranch('main');
+    edit(doc, (fragment) =>
+      (fragment.get(0) as Y.XmlElement).setAttribute('embedding-id', 'e-main')
+    );
+
+    const result = await revisions.merge('feature', doc);
+    expect(result?.status).toBe('conflicted');
+    expect(result?.conflicts).toContainEqual(
+      expect.objectContaining({
+        blockId: 'p1',
+        type: 'attributes',
+        attributes: ['embedding-id'],
+      })
+    );
+
+    revisions.resolveConflict('p1', 'theirs');
+    await revisions.completeMerge(doc);
+    expect(doc.getBlock(0).getAttribute('embedding-id')).toBe('e-ours');
+    expect(doc.getBlock(0).toString()).toContain('<bold>bold</bold>');
+  });
+});
+
+// ── Storage ─────────────────────────────────────────────────────────
+
+describe('RevisionManager storage', () => {
+  it('stores deltas between keyframes', async () => {
+    const store = new MemoryRevisionStore();
+    const revisions = new RevisionManager(sequentialIds(), {
+      store,
+      keyframeInterval: 3,
+    });
+    const ids = await commitSeries(revisions, new AeonDocument('doc-1'), 5);
+
+    const payloads = await Promise.all(ids.map((id) => store.getPayload(id)));
+    expect(payloads.map((p) => `${p?.kind}:${p?.depth}`)).toEqual([
+      'keyframe:0',
+      'delta:1',
+      'delta:2',
+      'keyframe:0',
+      'delta:1',
+    ]);
+  });
+
+  it('rebuilds snapshots after loading from the store', async () => {
+    const store = new CountingStore();
+    const writer = new RevisionManager(sequentialIds(), {
+      store,
+      keyframeInterval: 3,
+    });
+    const doc = new AeonDocument('doc-1');
+    const ids = await commitSeries(writer, doc, 5);
+    await writer.createBranch('draft');
+
+    const reader = new RevisionManager(sequentialIds(), { store });
+    await reader.load();
+    expect(
+      reader
+        .listRevisions()
+        .map((r) => r.id)
+        .sort()
+    ).toEqual(ids);
+    expect(reader.listBranches().map((b) => b.name)).toContain('draft');
+
+    store.reads = [];
+    expect(await textsAt(reader, ids[2])).toEqual(['p0', 'p1', 'p2']);
+    expect(store.reads).toEqual(ids.slice(0, 3).reverse());
+    expect(await reader.getSnapshot(ids[4])).toEqual(
+      await writer.getSnapshot(ids[4])
+    );
+    expect(await reader.getSnapshot('missing')).toBeNull();
+  });
+
+  it('caches rebuilt snapshots, evicting the least recently used', async () => {
+    const store = new CountingStore();
+    const writer = new RevisionManager(sequentialIds(), { store });
+    const ids = await commitSeries(writer, new AeonDocument('doc-1'), 3);
+
+    const reader = new RevisionManager(sequentialIds(), {
+      store,
+      snapshotCacheSize: 1,
+    });
+    await reader.load();
+
+    await reader.getSnapshot(ids[2]);
+    store.reads = [];
+    await reader.getSnapshot(ids[2]);
+    expect(store.reads).toEqual([]);
+
+    // Evicts ids[2]; rebuilding it again stops at the cached ids[0]
+    await reader.getSnapshot(ids[0]);
+    store.reads = [];
+    await reader.getSnapshot(ids[2]);
+    expect(store.reads).toEqual([ids[2], ids[1]]);
+  });
+
+  it('collects revisions no branch can reach', async () => {
+    const store = new MemoryRevisionStore();
+    const revisions = new RevisionManager(sequentialIds(), { store });
+    const doc = new AeonDocument('doc-1');
+    const [base] = await commitSeries(revisions, doc, 1);
+
+    await revisions.createBranch('draft');
+    revisions.switchBranch('draft');
+    const draft = await revisions.createRevision(doc, 'Draft');
+    revisions.switchBranch('main');
+    await revisions.deleteBranch('draft');
+
+    const events: string[] = [];
+    revisions.onEvent((e) => events.push(e.type));
+    expect(await revisions.collectGarbage()).toEqual([draft.id]);
+    expect(revisions.getRevision(draft.id)).toBeUndefined();
+    expect(await store.getPayload(draft.id)).toBeUndefined();
+    expect(await textsAt(revisions, base)).toEqual(['p0']);
+    expect(events).toEqual(['gc']);
+    expect(await revisions.collectGarbage()).toEqual([]);
+  });
+
+  it('flushes writes in commit order', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const store = new MemoryRevisionStore();
+    const putRevision = store.putRevision.bind(store);
+    const written: string[] = [];
+    store.putRevision = async (revision, payload) => {
+      await gate;
+      written.push(revision.id);
+      return putRevision(revision, payload);
+    };
+
+    const revisions = new RevisionManager(sequentialIds(), { store });
+    const doc = new AeonDocument('doc-1');
+    const first = revisions.createRevision(doc, 'First');
+    const second = revisions.createRevision(doc, 'Second');
+    expect(revisions.listRevisions()).toHaveLength(2);
+
+    let flushed = false;
+    const flush = revisions.flush().then(() => (flushed = true));
+    await Promise.resolve();
+    expect(flushed).toBe(false);
+
+    release();
+    await flush;
+    expect(written).toEqual([(await first).id, (await second).id]);
+    expect(await store.listRevisions()).toHaveLength(2);
+  });
+});
@@ -5,14 +5,39 @@
  * not text diffs. Every keystroke is a CRDT operation — lossless
  * undo/redo at any granularity. Supports rollback, rollforward,
  * branching, merge, cherry-pick, and time-travel.
+ *
+ * History is persisted through a pluggable `RevisionStore`. Snapshots
+ * are written as deltas from their parent with a full keyframe every
+ * `keyframeInterval` revisions, and are only rebuilt when needed.
  */
 
 import { QDoc, QMap, QArray, QText } from '@affectively/gnosis';
 import type { AeonDocument } from '../document/document';
+import {
+  COMMENTS_MAP,
+  readComments,
+  diffComments,
+  type CommentActivity,
+} from '../collaboration/comments';
+import {
+  extractBlocks,
+  computeStructuralDiff,
+  type BlockSnapshot,
+} from './diff';
+import { detectConflicts, mergeBlocks } from './merge';
+import { attributeRevision, toRuns, type BlameState } from './blame';
+import {
+  MemoryRevisionStore,
+  type RevisionPayload,
+  type RevisionStore,
+} from './RevisionStore';
 
 // ── Types ───────────────────────────────────────────────────────────
 
-/** A named revision (snapshot) */
+/**
+ * A named revision (snapshot).
+ * The document state itself lives in the store; see `getSnapshot`.
+ */
 export interface Revision {
   /** Unique revision ID */
   readonly id: string;
@@ -24,14 +49,14 @@ export interface Revision {
   readonly createdAt: string;
   /** Yjs state vector at this point */
   readonly stateVector: Uint8Array;
-  /** Full Yjs state snapshot (for restoration) */
-  readonly snapshot: Uint8Array;
   /** Branch this revision belongs to */
   readonly branch: string;
   /** Parent revision ID (null for initial) */
   readonly parentId: string | null;
   /** Summary of changes from parent */
   readonly changeSummary?: string;
+  /** Second parent for merge revisions (the merged branch head) */
+  readonly mergedFrom?: string;
 }
 
 /** A branch in the revision tree */
@@ -58,6 +83,8 @@ export interface RevisionDiff {
   readonly modified: DiffModification[];
   /** Moved blocks (same content, different position) */
   readonly moved: DiffMove[];
+  /** Comment and suggested-edit activity (set by `diffRevisions`) */
+  readonly comments?: CommentActivity;
 }
 
 /** A block in a diff */
@@ -68,13 +95,17 @@ export interface DiffBlock {
   readonly position: number;
 }
 
-/** A modification in a diff */
+/** A modification in a diff: text, type or attributes changed */
 export interface DiffModification {
   readonly blockId: string;
   readonly blockType: string;
   readonly oldText: string;
   readonly newText: string;
   readonly position: number;
+  /** Previous block type, if it changed */
+  readonly oldBlockType?: string;
+  /** Attributes added, removed or changed */
+  readonly changedAttributes?: string[];
 }
 
 /** A block that moved position */
@@ -85,14 +116,68 @@ export interface DiffMove {
   readonly newPosition: number;
 }
 
-/** Blame entry — who wrote each block */
+/** Blame entry — who wrote a range of characters in a block */
 export interface BlameEntry {
   readonly blockId: string;
+  /** Start offset in the block text (inclusive) */
+  readonly start: number;
+  /** End offset in the block text (exclusive) */
+  readonly end: number;
   readonly authorDid: string;
   readonly revisionId: string;
   readonly timestamp: string;
 }
 
+/** Kind of merge conflict on a single block */
+export type MergeConflictType =
+  'text' | 'type' | 'attributes' | 'delete-modify' | 'move-move';
+
+/** A block changed incompatibly on both sides of a merge */
+export interface MergeConflict {
+  readonly blockId: string;
+  readonly blockType: string;
+  readonly type: MergeConflictType;
+  /** Block at the common ancestor (null if added on both sides) */
+  readonly base: DiffBlock | null;
+  /** Block on the target branch (null if deleted there) */
+  readonly ours: DiffBlock | null;
+  /** Block on the source branch (null if deleted there) */
+  readonly theirs: DiffBlock | null;
+  /** Attributes set to different values on each side (`attributes` conflicts) */
+  readonly attributes?: string[];
+}
+
+/**
+ * How to resolve a conflicting block: keep one side, revert to the
+ * ancestor, or supply the merged text directly (as plain text, with
+ * our side's type and attributes).
+ */
+export type MergeResolution = 'ours' | 'theirs' | 'base' | { text: string };
+
+/** Outcome of a merge */
+export interface MergeResult {
+  readonly sourceBranch: string;
+  readonly targetBranch: string;
+  /** Common ancestor revision (null if the branches share no history) */
+  readonly baseRevisionId: string | null;
+  /** Head of the target branch when the merge started */
+  readonly oursRevisionId: string | null;
+  /** Head of the source branch */
+  readonly theirsRevisionId: string;
+  /**
+   * `up-to-date`: nothing to merge
+   * `conflicted`: waiting for `resolveConflict` + `completeMerge`
+   * `merged`: merge revision created
+   */
+  readonly status: 'up-to-date' | 'conflicted' | 'merged';
+  /** All block-level conflicts found */
+  readonly conflicts: MergeConflict[];
+  /** Block IDs whose conflicts are not yet resolved */
+  readonly unresolved: string[];
+  /** The merge revision, once created */
+  readonly revision?: Revision;
+}
+
 /** Revision event */
 export type RevisionEvent =
   | { type: 'revision-created'; revision: Revision }
@@ -100,14 +185,23 @@ export type RevisionEvent =
   | { type: 'rollback'; targetRevisionId: string }
   | { type: 'rollforward'; targetRevisionId: string }
   | { type: 'merge'; sourceBranch: string; targetBranch: string }
-  | { type: 'cherry-pick'; revisionId: string; targetBranch: string };
+  | {
+      type: 'merge-conflict';
+      sourceBranch: string;
+      targetBranch: string;
+      conflicts: MergeConflict[];
+    }
+  | { type: 'cherry-pick'; revisionId: string; targetBranch: string }
+  | { type: 'branch-deleted'; name: string }
+  | { type: 'gc'; removed: string[] }
+  | { type: 'store-error'; error: unknown };
 
 export type RevisionListener = (event: RevisionEvent) => void;
 
 // ── Revision Manager ────────────────────────────────────────────────
 
 export class RevisionManager {
-  /** All revisions, ordered by creation time */
+  /** Metadata of all stored revisions */
   private revisions: Map<string, Revision> = new Map();
 
   /** All branches */
@@ -134,16 +228,49 @@ export class RevisionManager {
   /** Generate unique IDs */
   private readonly generateId: () => string;
 
+  /** Persistent revision storage */
+  private readonly store: RevisionStore;
+
+  /** Write a keyframe after this many consecutive deltas */
+  private readonly keyframeInterval: number;
+
+  /** Recently rebuilt snapshots, least recently used first */
+  private snapshotCache: Map<string, Uint8Array> = new Map();
+
+  /** Maximum number of cached snapshots */
+  private readonly snapshotCacheSize: number;
+
+  /** Delta depth of known revisions (0 = keyframe) */
+  private depths: Map<string, number> = new Map();
+
+  /** Store writes, chained so they land in commit order */
+  private writes: Promise<void> = Promise.resolve();
+
+  /** Merge waiting for conflict resolution */
+  private pendingMerge: {
+    result: MergeResult;
+    base: BlockSnapshot[];
+    ours: BlockSnapshot[];
+    theirs: BlockSnapshot[];
+    resolutions: Map<string, MergeResolution>;
+  } | null = null;
+
   constructor(
     generateId: () => string,
     options: {
       autoSnapshotIntervalMs?: number;
       autoSnapshotThreshold?: number;
+      store?: RevisionStore;
+      keyframeInterval?: number;
+      snapshotCacheSize?: number;
     } = {}
   ) {
     this.generateId = generateId;
     this.autoSnapshotIntervalMs = options.autoSnapshotIntervalMs ?? 30000;
     this.autoSnapshotThreshold = options.autoSnapshotThreshold ?? 50;
+    this.store = options.store ?? new MemoryRevisionStore();
+    this.keyframeInterval = options.keyframeInterval ?? 20;
+    this.snapshotCacheSize = options.snapshotCacheSize ?? 16;
 
     // Initialize main branch
     this.branches.set('main', {
@@ -155,18 +282,101 @@ export class RevisionManager {
     });
   }
 
+  // ── Persistence ───────────────────────────────────────────────
+
+  /**
+   * Load revision metadata and branches from the store.
+   * Snapshots are not read until a revision's state is needed.
+   */
+  async load(): Promise<void> {
+    const [revisions, branches] = await Promise.all([
+      this.store.listRevisions(),
+      this.store.listBranches(),
+    ]);
+
+    this.revisions = new Map(revisions.map((r) => [r.id, r]));
+    this.snapshotCache.clear();
+    this.depths.clear();
+    for (const branch of branches) {
+      this.branches.set(branch.name, branch);
+    }
+    if (!this.branches.has(this.currentBranch)) {
+      this.currentBranch = 'main';
+    }
+  }
+
+  /** Wait until every pending write has reached the store */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Rebuild the full document state of a revision from its nearest
+   * keyframe and the deltas after it.
+   */
+  async getSnapshot(revisionId: string): Promise<Uint8Array | null> {
+    if (!this.revisions.has(revisionId)) return null;
+    return this.readSnapshot(revisionId);
+  }
+
+  /**
+   * Delete revisions that no branch head can reach, along with their
+   * payloads. Deltas only depend on ancestors, so every remaining
+   * revision can still be rebuilt.
+   */
+  async collectGarbage(): Promise<string[]> {
+    const reachable = new Set<string>();
+    for (const branch of this.branches.values()) {
+      if (branch.head) {
+        for (const id of this.ancestry(branch.head)) reachable.add(id);
+      }
+    }
+
+    const removed = Array.from(this.revisions.keys()).filter(
+      (id) => !reachable.has(id)
+    );
+    for (const id of removed) {
+      this.revisions.delete(id);
+      this.snapshotCache.delete(id);
+      this.depths.delete(id);
+    }
+
+    await this.persist(async () => {
+      for (const id of removed) {
+        await this.store.deleteRevision(id);
+      }
+    });
+
+    if (removed.length > 0) {
+      this.emit({ type: 'gc', removed });
+    }
+    return removed;
+  }
+
   // ── Core Operations ───────────────────────────────────────────
 
   /**
    * Create a named revision (snapshot) of the current document state.
+   * Resolves once the revision has been written to the store.
    */
-  createRevision(
+  async createRevision(
     doc: AeonDocument,
     label?: string,
     authorDid: string = 'local'
-  ): Revision {
+  ): Promise<Revision> {
+    return this.commitRevision(doc, label, authorDid);
+  }
+
+  /** Record a revision on the current branch and advance its head */
+  private async commitRevision(
+    doc: AeonDocument,
+    label: string | undefined,
+    authorDid: string,
+    mergedFrom?: string
+  ): Promise<Revision> {
     const branch = this.branches.get(this.currentBranch)!;
     const id = this.generateId();
+    const snapshot = doc.getState();
 
     const revision: Revision = {
       id,
@@ -174,22 +384,28 @@ export class RevisionManager {
       authorDid,
       createdAt: new Date().toISOString(),
       stateVector: doc.getStateVector(),
-      snapshot: doc.getState(),
       branch: this.currentBranch,
       parentId: branch.head || null,
+      ...(mergedFrom ? { mergedFrom } : {}),
     };
 
+    // Index and head move synchronously so concurrent commits chain
+    // correctly; the store write follows in commit order
     this.revisions.set(id, revision);
+    const head: Branch = { ...branch, head: id };
+    this.branches.set(this.currentBranch, head);
+    this.cacheSnapshot(id, snapshot);
+
+    this.changesSinceSnapshot = 0;
 
-    // Update branch head
-    this.branches.set(this.currentBranch, {
-      ...branch,
-      head: id,
+    await this.persist(async () => {
+      const payload = await this.encodePayload(revision, snapshot);
+      this.depths.set(id, payload.depth);
+      await this.store.putRevision(revision, payload);
+      await this.store.putBranch(head);
     });
 
-    this.changesSinceSnapshot = 0;
     this.emit({ type: 'revision-created', revision });
-
     return revision;
   }
 
@@ -198,16 +414,16 @@ export class RevisionManager {
    * Creates a NEW revision that represents the rollback
    * (non-destructive — you can always rollforward).
    */
-  rollbackTo(
+  async rollbackTo(
     revisionId: string,
     doc: AeonDocument,
     authorDid: string = 'local'
-  ): Revision | null {
+  ): Promise<Revision | null> {
     const targetRevision = this.revisions.get(revisionId);
     if (!targetRevision) return null;
 
     // Save current state first (so we can rollforward)
-    this.createRevision(
+    await this.createRevision(
       doc,
       `Pre-rollback to "${targetRevision.label}"`,
       authorDid
@@ -215,7 +431,7 @@ export class RevisionManager {
 
     // Create a new QDoc and apply the target snapshot
     const restoredDoc = new QDoc();
-    restoredDoc.applyUpdate(targetRevision.snapshot);
+    restoredDoc.applyUpdate(await this.readSnapshot(revisionId));
 
     // Apply the restored state as an update to the current doc
     const restoredState = restoredDoc.encodeStateAsUpdate();
@@ -223,7 +439,7 @@ export class RevisionManager {
     restoredDoc.destroy();
 
     // Create a revision marking the rollback
-    const rollbackRevision = this.createRevision(
+    const rollbackRevision = await this.createRevision(
       doc,
       `Rolled back to "${targetRevision.label}"`,
       authorDid
@@ -236,18 +452,18 @@ export class RevisionManager {
   /**
    * Rollforward — re-apply CRDT ops from rollback point to target.
    */
-  rollforwardTo(
+  async rollforwardTo(
     revisionId: string,
     doc: AeonDocument,
     authorDid: string = 'local'
-  ): Revision | null {
+  ): Promise<Revision | null> {
     const targetRevision = this.revisions.get(revisionId);
     if (!targetRevision) return null;
 
     // Apply the target state
-    doc.applyUpdate(targetRevision.snapshot);
+    doc.applyUpdate(await this.readSnapshot(revisionId));
 
-    const rollforwardRevision = this.createRevision(
+    const rollforwardRevision = await this.createRevision(
       doc,
       `Rolled forward to "${targetRevision.label}"`,
       authorDid
@@ -262,7 +478,7 @@ export class RevisionManager {
   /**
    * Fork the current revision into a new branch.
    */
-  createBranch(name: string, fromRevisionId?: string): Branch {
+  async createBranch(name: string, fromRevisionId?: string): Promise<Branch> {
     const forkPoint =
       fromRevisionId || this.branches.get(this.currentBranch)?.head || '';
 
@@ -275,10 +491,31 @@ export class RevisionManager {
     };
 
     this.branches.set(name, branch);
+    await this.persist(() => this.store.putBranch(branch));
     this.emit({ type: 'branch-created', branch });
     return branch;
   }
 
+  /**
+   * Delete a branch. Its revisions stay in the store until
+   * `collectGarbage` finds them unreachable.
+   */
+  async deleteBranch(name: string): Promise<boolean> {
+    const branch = this.branches.get(name);
+    if (!branch) return false;
+    if (branch.isMain) {
+      throw new Error('Cannot delete the main branch');
+    }
+    if (name === this.currentBranch) {
+      throw new Error(`Cannot delete the current branch: ${name}`);
+    }
+
+    this.branches.delete(name);
+    await this.persist(() => this.store.deleteBranch(name));
+    this.emit({ type: 'branch-deleted', name });
+    return true;
+  }
+
   /**
    * Switch to a different branch.
    * Caller is responsible for applying the branch head's snapshot to the doc.
@@ -292,47 +529,189 @@ export class RevisionManager {
 
   /**
    * Merge a source branch into the current branch.
-   * Uses structural merge via CRDT — no merge conflicts
-   * on non-overlapping changes because CRDT operations commute.
+   *
+   * Three-way structural merge: the common ancestor is found through
+   * the parent chain, and each side is diffed against it. Changes to
+   * different blocks merge automatically; blocks changed on both sides
+   * are returned as conflicts. Pass `resolve` to settle them inline,
+   * or call `resolveConflict` for each and then `completeMerge`.
    */
-  merge(
+  async merge(
     sourceBranch: string,
     doc: AeonDocument,
-    authorDid: string = 'local'
-  ): Revision | null {
+    authorDid: string = 'local',
+    resolve?: (conflict: MergeConflict) => MergeResolution
+  ): Promise<MergeResult | null> {
     const source = this.branches.get(sourceBranch);
     if (!source) return null;
 
     const sourceHead = this.revisions.get(source.head);
     if (!sourceHead) return null;
 
-    // CRDT merge: just apply the source snapshot as an update
-    // Yjs handles conflict resolution automatically
-    doc.applyUpdate(sourceHead.snapshot);
+    const targetBranch = this.currentBranch;
+    const oursHead = this.branches.get(targetBranch)!.head || null;
+    const baseId = oursHead
+      ? this.findCommonAncestor(oursHead, sourceHead.id)
+      : null;
+
+    // Source already contained in the target branch
+    if (baseId === sourceHead.id) {
+      return {
+        sourceBranch,
+        targetBranch,
+        baseRevisionId: baseId,
+        oursRevisionId: oursHead,
+        theirsRevisionId: sourceHead.id,
+        status: 'up-to-date',
+        conflicts: [],
+        unresolved: [],
+      };
+    }
+
+    const base = baseId ? await this.blocksAt(baseId) : [];
+    const ours = extractBlocks(doc.fragment);
+    const theirs = await this.blocksAt(sourceHead.id);
+    const conflicts = detectConflicts(base, ours, theirs);
+
+    this.pendingMerge = {
+      result: {
+        sourceBranch,
+        targetBranch,
+        baseRevisionId: baseId,
+        oursRevisionId: oursHead,
+        theirsRevisionId: sourceHead.id,
+        status: conflicts.length > 0 ? 'conflicted' : 'merged',
+        conflicts,
+        unresolved: [...new Set(conflicts.map((c) => c.blockId))],
+      },
+      base,
+      ours,
+      theirs,
+      resolutions: new Map(),
+    };
+
+    if (resolve) {
+      for (const conflict of conflicts) {
+        if (!this.pendingMerge.resolutions.has(conflict.blockId)) {
+          this.resolveConflict(conflict.blockId, resolve(conflict));
+        }
+      }
+    }
+
+    if (this.pendingMerge.result.unresolved.length > 0) {
+      this.emit({
+        type: 'merge-conflict',
+        sourceBranch,
+        targetBranch,
+        conflicts,
+      });
+      return this.pendingMerge.result;
+    }
+
+    return this.completeMerge(doc, authorDid);
+  }
 
-    const mergeRevision = this.createRevision(
+  /**
+   * Resolve every conflict on a block in the pending merge.
+   * Returns the updated merge state.
+   */
+  resolveConflict(blockId: string, resolution: MergeResolution): MergeResult {
+    if (!this.pendingMerge) {
+      throw new Error('No merge in progress');
+    }
+    const pending = this.pendingMerge;
+    if (!pending.result.conflicts.some((c) => c.blockId === blockId)) {
+      throw new Error(`Block ${blockId} has no merge conflict`);
+    }
+
+    pending.resolutions.set(blockId, resolution);
+    pending.result = {
+      ...pending.result,
+      unresolved: pending.result.unresolved.filter((id) => id !== blockId),
+    };
+    return pending.result;
+  }
+
+  /**
+   * Apply the merged tree to the document and create the merge revision.
+   * Throws if any conflict is still unresolved.
+   */
+  async completeMerge(
+    doc: AeonDocument,
+    authorDid: string = 'local'
+  ): Promise<MergeResult> {
+    if (!this.pendingMerge) {
+      throw new Error('No merge in progress');
+    }
+    const { result, base, ours, theirs, resolutions } = this.pendingMerge;
+    if (result.unresolved.length > 0) {
+      throw new Error(
+        `Unresolved merge conflicts: ${result.unresolved.join(', ')}`
+      );
+    }
+
+    const merged = mergeBlocks(base, ours, theirs, resolutions);
+    const sources = await Promise.all(
+      [result.theirsRevisionId, result.baseRevisionId]
+        .filter((id): id is string => id !== null)
+        .map((id) => this.openRevision(id))
+    );
+    try {
+      applyMergedBlocks(doc, merged, [
+        doc.fragment,
+        ...sources.map((source: QDoc) => source.getXmlFragment('document')),
+      ]);
+    } finally {
+      for (const source of sources) source.destroy();
+    }
+    this.pendingMerge = null;
+
+    const mergeRevision = await this.commitRevision(
       doc,
-      `Merged "${sourceBranch}" into "${this.currentBranch}"`,
-      authorDid
+      `Merged "${result.sourceBranch}" into "${result.targetBranch}"`,
+      authorDid,
+      result.theirsRevisionId
     );
 
     this.emit({
       type: 'merge',
-      sourceBranch,
-      targetBranch: this.currentBranch,
+      sourceBranch: result.sourceBranch,
+      targetBranch: result.targetBranch,
     });
 
-    return mergeRevision;
+    return { ...result, status: 'merged', revision: mergeRevision };
+  }
+
+  /** Discard a merge that is waiting for conflict resolution */
+  abortMerge(): void {
+    this.pendingMerge = null;
+  }
+
+  /** The merge waiting for conflict resolution, if any */
+  getPendingMerge(): MergeResult | null {
+    return this.pendingMerge?.result ?? null;
+  }
+
+  /**
+   * Find the nearest common ancestor of two revisions, following both
+   * `parentId` and the `mergedFrom` parent of merge revisions.
+   */
+  findCommonAncestor(revIdA: string, revIdB: string): string | null {
+    const ancestorsOfA = new Set(this.ancestry(revIdA));
+    for (const id of this.ancestry(revIdB)) {
+      if (ancestorsOfA.has(id)) return id;
+    }
+    return null;
   }
 
   /**
    * Cherry-pick a specific revision's changes and apply to current branch.
    */
-  cherryPick(
+  async cherryPick(
     revisionId: string,
     doc: AeonDocument,
     authorDid: string = 'local'
-  ): Revision | null {
+  ): Promise<Revision | null> {
     const revision = this.revisions.get(revisionId);
     if (!revision) return null;
 
@@ -340,16 +719,10 @@ export class RevisionManager {
     if (revision.parentId) {
       const parentRevision = this.revisions.get(revision.parentId);
       if (parentRevision) {
-        // Compute the delta between parent and this revision
-        const tempDoc = new QDoc();
-        tempDoc.applyUpdate(parentRevision.snapshot);
-        const stateVector = tempDoc.encodeStateVector();
-        tempDoc.destroy();
-
         // Get only the changes from this specific revision
         const delta = new QDoc();
-        delta.applyUpdate(revision.snapshot);
-        const changes = delta.encodeStateAsUpdate(stateVector);
+        delta.applyUpdate(await this.readSnapshot(revisionId));
+        const changes = delta.encodeStateAsUpdate(parentRevision.stateVector);
         delta.destroy();
 
         // Apply just those changes to the current document
@@ -357,7 +730,7 @@ export class RevisionManager {
       }
     }
 
-    const cherryPickRevision = this.createRevision(
+    const cherryPickRevision = await this.createRevision(
       doc,
       `Cherry-picked "${revision.label}" from ${revision.branch}`,
       authorDid
@@ -403,19 +776,23 @@ export class RevisionManager {
   /**
    * Compute a structural diff between two revisions.
    * Unlike git's line-based diff, this understands document structure.
+   * Comment activity between the two revisions is reported in `comments`.
    */
-  diffRevisions(revIdA: string, revIdB: string): RevisionDiff | null {
-    const revA = this.revisions.get(revIdA);
-    const revB = this.revisions.get(revIdB);
-    if (!revA || !revB) return null;
+  async diffRevisions(
+    revIdA: string,
+    revIdB: string
+  ): Promise<RevisionDiff | null> {
+    if (!this.revisions.has(revIdA) || !this.revisions.has(revIdB)) {
+      return null;
+    }
 
     // Reconstruct both documents
     const docA = new QDoc();
-    docA.applyUpdate(revA.snapshot);
+    docA.applyUpdate(await this.readSnapshot(revIdA));
     const fragA = docA.getXmlFragment('document');
 
     const docB = new QDoc();
-    docB.applyUpdate(revB.snapshot);
+    docB.applyUpdate(await this.readSnapshot(revIdB));
     const fragB = docB.getXmlFragment('document');
 
     // Extract blocks from both
@@ -423,7 +800,13 @@ export class RevisionManager {
     const blocksB = extractBlocks(fragB);
 
     // Compare
-    const diff = computeStructuralDiff(blocksA, blocksB);
+    const diff: RevisionDiff = {
+      ...computeStructuralDiff(blocksA, blocksB),
+      comments: diffComments(
+        readComments(docA.getMap(COMMENTS_MAP)),
+        readComments(docB.getMap(COMMENTS_MAP))
+      ),
+    };
 
     docA.destroy();
     docB.destroy();
@@ -432,40 +815,65 @@ export class RevisionManager {
   }
 
   /**
-   * Get blame information — who wrote each block.
+   * The top-level blocks of a revision, in document order. Empty for
+   * an unknown revision.
    */
-  getBlame(): BlameEntry[] {
-    // Build blame from revision history
-    const blame = new Map<string, BlameEntry>();
+  async getBlocks(revisionId: string): Promise<BlockSnapshot[]> {
+    return this.blocksAt(revisionId);
+  }
 
-    const revisions = this.listRevisions().reverse(); // oldest first
-    for (const revision of revisions) {
-      const doc = new QDoc();
-      doc.applyUpdate(revision.snapshot);
-      const fragment = doc.getXmlFragment('document');
-
-      for (let i = 0; i < fragment.length; i++) {
-        const item = fragment.get(i);
-        // TODO: QDoc migration — instanceof check may need QXmlElement equivalent
-        if (item && typeof item === 'object' && 'getAttribute' in item) {
-          const blockId = (
-            item as { getAttribute: (name: string) => string | null }
-          ).getAttribute('id');
-          if (blockId) {
-            blame.set(blockId, {
-              blockId,
-              authorDid: revision.authorDid,
-              revisionId: revision.id,
-              timestamp: revision.createdAt,
-            });
-          }
-        }
+  /**
+   * Get blame information — who wrote each range of characters.
+   *
+   * Replays the history of `revisionId` (default: the current branch
+   * head) oldest first. Characters kept from a parent keep their
+   * original author; only inserted characters are credited to the
+   * revision that inserted them. Entries are in document order.
+   */
+  async getBlame(revisionId?: string): Promise<BlameEntry[]> {
+    const targetId = revisionId ?? this.getCurrentBranch().head;
+    if (!targetId || !this.revisions.has(targetId)) return [];
+
+    const order = this.topologicalHistory(targetId);
+
+    // Parents are released once all of their children are attributed
+    const pendingChildren = new Map<string, number>();
+    for (const id of order) {
+      for (const parentId of this.parentsOf(id)) {
+        pendingChildren.set(parentId, (pendingChildren.get(parentId) ?? 0) + 1);
       }
+    }
 
-      doc.destroy();
+    const states = new Map<
+      string,
+      { blocks: BlockSnapshot[]; blame: BlameState }
+    >();
+    for (const id of order) {
+      const parentIds = this.parentsOf(id);
+      const blocks = await this.blocksAt(id);
+      const blame = attributeRevision(
+        id,
+        blocks,
+        parentIds.map((parentId) => states.get(parentId)!)
+      );
+      states.set(id, { blocks, blame });
+
+      for (const parentId of parentIds) {
+        const remaining = pendingChildren.get(parentId)! - 1;
+        pendingChildren.set(parentId, remaining);
+        if (remaining === 0) states.delete(parentId);
+      }
     }
 
-    return Array.from(blame.values());
+    const { blocks, blame } = states.get(targetId)!;
+    return toRuns(blocks, blame).map((run) => {
+      const revision = this.revisions.get(run.revisionId)!;
+      return {
+        ...run,
+        authorDid: revision.authorDid,
+        timestamp: revision.createdAt,
+      };
+    });
   }
 
   // ── Auto-snapshot ─────────────────────────────────────────────
@@ -478,7 +886,7 @@ export class RevisionManager {
     this.changesSinceSnapshot++;
 
     if (this.changesSinceSnapshot >= this.autoSnapshotThreshold) {
-      this.createRevision(doc, undefined, authorDid);
+      this.autoSnapshot(doc, authorDid);
       return;
     }
 
@@ -488,7 +896,7 @@ export class RevisionManager {
     }
     this.autoSnapshotTimer = setTimeout(() => {
       if (this.changesSinceSnapshot > 0) {
-        this.createRevision(doc, undefined, authorDid);
+        this.autoSnapshot(doc, authorDid);
       }
     }, this.autoSnapshotIntervalMs);
   }
@@ -510,101 +918,323 @@ export class RevisionManager {
 
   // ── Private ───────────────────────────────────────────────────
 
-  private emit(event: RevisionEvent): void {
-    for (const listener of this.listeners) {
-      listener(event);
+  /** A revision and its ancestors, nearest first (breadth-first) */
+  private ancestry(revisionId: string): string[] {
+    const order: string[] = [];
+    const seen = new Set<string>();
+    const queue = [revisionId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      const revision = this.revisions.get(id);
+      if (!revision) continue;
+      seen.add(id);
+      order.push(id);
+      if (revision.parentId) queue.push(revision.parentId);
+      if (revision.mergedFrom) queue.push(revision.mergedFrom);
     }
+    return order;
   }
-}
 
-// ── Diff Helpers ────────────────────────────────────────────────────
+  /** Stored parents of a revision: first parent, then the merged head */
+  private parentsOf(revisionId: string): string[] {
+    const revision = this.revisions.get(revisionId);
+    if (!revision) return [];
+    return [revision.parentId, revision.mergedFrom].filter(
+      (id): id is string => !!id && this.revisions.has(id)
+    );
+  }
 
-interface BlockSnapshot {
-  id: string;
-  type: string;
-  text: string;
-  position: number;
-}
+  /** A revision and its ancestors, every parent before its children */
+  private topologicalHistory(revisionId: string): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const stack: Array<{ id: string; expanded: boolean }> = [
+      { id: revisionId, expanded: false },
+    ];
+    while (stack.length > 0) {
+      const entry = stack.pop()!;
+      if (entry.expanded) {
+        order.push(entry.id);
+        continue;
+      }
+      if (visited.has(entry.id)) continue;
+      visited.add(entry.id);
+      stack.push({ id: entry.id, expanded: true });
+      for (const parentId of this.parentsOf(entry.id)) {
+        if (!visited.has(parentId)) {
+          stack.push({ id: parentId, expanded: false });
+        }
+      }
+    }
+    return order;
+  }
 
-function extractBlocks(fragment: any): BlockSnapshot[] {
-  const blocks: BlockSnapshot[] = [];
-  for (let i = 0; i < fragment.length; i++) {
-    const item = fragment.get(i);
-    // TODO: QDoc migration — instanceof check may need QXmlElement equivalent
-    if (item && typeof item === 'object' && 'getAttribute' in item) {
-      blocks.push({
-        id: item.getAttribute('id') || `pos-${i}`,
-        type: item.nodeName,
-        text: item.toString(),
-        position: i,
-      });
+  /** Create an auto-save revision; store failures surface as events */
+  private autoSnapshot(doc: AeonDocument, authorDid: string): void {
+    this.createRevision(doc, undefined, authorDid).catch((error) => {
+      this.emit({ type: 'store-error', error });
+    });
+  }
+
+  /** Queue a store write behind all earlier ones */
+  private persist(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    // Keep the chain alive after a failure; the caller sees the error
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Encode a new revision's payload: a delta against its parent, or a
+   * keyframe for roots, every `keyframeInterval` revisions, and whenever
+   * the delta would not reproduce the snapshot exactly.
+   */
+  private async encodePayload(
+    revision: Revision,
+    snapshot: Uint8Array
+  ): Promise<RevisionPayload> {
+    const keyframe: RevisionPayload = {
+      kind: 'keyframe',
+      data: snapshot,
+      depth: 0,
+    };
+    const parent = revision.parentId
+      ? this.revisions.get(revision.parentId)
+      : undefined;
+    if (!parent) return keyframe;
+
+    const depth = (await this.depthOf(parent.id)) + 1;
+    if (depth >= this.keyframeInterval) return keyframe;
+
+    const current = new QDoc();
+    current.applyUpdate(snapshot);
+    const delta = current.encodeStateAsUpdate(parent.stateVector);
+    current.destroy();
+
+    // The delta only covers what the parent lacks; if the parent holds
+    // ops the snapshot doesn't (e.g. a branch switch without applying
+    // the head), replaying it would not give back this snapshot
+    const replay = new QDoc();
+    replay.applyUpdate(await this.materialize(parent.id));
+    replay.applyUpdate(delta);
+    const exact = bytesEqual(replay.encodeStateAsUpdate(), snapshot);
+    replay.destroy();
+
+    return exact ? { kind: 'delta', data: delta, depth } : keyframe;
+  }
+
+  /** A revision's full state, once earlier commits have been written */
+  private async readSnapshot(revisionId: string): Promise<Uint8Array> {
+    await this.flush();
+    return this.materialize(revisionId);
+  }
+
+  /** Delta depth of a stored revision */
+  private async depthOf(revisionId: string): Promise<number> {
+    const known = this.depths.get(revisionId);
+    if (known !== undefined) return known;
+    const payload = await this.store.getPayload(revisionId);
+    const depth = payload?.depth ?? 0;
+    this.depths.set(revisionId, depth);
+    return depth;
+  }
+
+  /**
+   * Rebuild a revision's full state: walk parents back to a cached
+   * snapshot or a keyframe, then replay the deltas forward.
+   */
+  private async materialize(revisionId: string): Promise<Uint8Array> {
+    const cached = this.snapshotCache.get(revisionId);
+    if (cached) {
+      this.cacheSnapshot(revisionId, cached);
+      return cached;
+    }
+
+    const deltas: Uint8Array[] = [];
+    let base: Uint8Array | undefined;
+    let id: string | null = revisionId;
+    while (id) {
+      const hit = this.snapshotCache.get(id);
+      if (hit) {
+        base = hit;
+        break;
+      }
+      const payload = await this.store.getPayload(id);
+      if (!payload) {
+        throw new Error(`Missing payload for revision ${id}`);
+      }
+      this.depths.set(id, payload.depth);
+      if (payload.kind === 'keyframe') {
+        base = payload.data;
+        break;
+      }
+      deltas.push(payload.data);
+      id = this.revisions.get(id)?.parentId ?? null;
+    }
+    if (!base) {
+      throw new Error(`No keyframe found for revision ${revisionId}`);
     }
+
+    let state = base;
+    if (deltas.length > 0) {
+      const doc = new QDoc();
+      doc.applyUpdate(base);
+      for (let i = deltas.length - 1; i >= 0; i--) {
+        doc.applyUpdate(deltas[i]);
+      }
+      state = doc.encodeStateAsUpdate();
+      doc.destroy();
+    }
+
+    this.cacheSnapshot(revisionId, state);
+    return state;
   }
-  return blocks;
-}
 
-function computeStructuralDiff(
-  blocksA: BlockSnapshot[],
-  blocksB: BlockSnapshot[]
-): RevisionDiff {
-  const idsA = new Set(blocksA.map((b) => b.id));
-  const idsB = new Set(blocksB.map((b) => b.id));
-  const mapA = new Map(blocksA.map((b) => [b.id, b]));
-  const mapB = new Map(blocksB.map((b) => [b.id, b]));
-
-  const added: DiffBlock[] = [];
-  const removed: DiffBlock[] = [];
-  const modified: DiffModification[] = [];
-  const moved: DiffMove[] = [];
-
-  // Find added blocks (in B but not in A)
-  for (const block of blocksB) {
-    if (!idsA.has(block.id)) {
-      added.push({
-        blockId: block.id,
-        blockType: block.type,
-        text: block.text,
-        position: block.position,
-      });
+  /** Remember a rebuilt snapshot, evicting the least recently used */
+  private cacheSnapshot(revisionId: string, snapshot: Uint8Array): void {
+    this.snapshotCache.delete(revisionId);
+    this.snapshotCache.set(revisionId, snapshot);
+    while (this.snapshotCache.size > this.snapshotCacheSize) {
+      const oldest = this.snapshotCache.keys().next().value as string;
+      this.snapshotCache.delete(oldest);
     }
   }
 
-  // Find removed blocks (in A but not in B)
-  for (const block of blocksA) {
-    if (!idsB.has(block.id)) {
-      removed.push({
-        blockId: block.id,
-        blockType: block.type,
-        text: block.text,
-        position: block.position,
-      });
+  /** The top-level blocks of a revision's snapshot */
+  private async blocksAt(revisionId: string): Promise<BlockSnapshot[]> {
+    if (!this.revisions.has(revisionId)) return [];
+    const doc = await this.openRevision(revisionId);
+    const blocks = extractBlocks(doc.getXmlFragment('document'));
+    doc.destroy();
+    return blocks;
+  }
+
+  /** A scratch QDoc holding a revision's state; the caller destroys it */
+  private async openRevision(revisionId: string): Promise<QDoc> {
+    const doc = new QDoc();
+    doc.applyUpdate(await this.readSnapshot(revisionId));
+    return doc;
+  }
+
+  private emit(event: RevisionEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
     }
   }
+}
 
-  // Find modified and moved blocks
-  for (const block of blocksB) {
-    const counterpart = mapA.get(block.id);
-    if (!counterpart) continue;
+// ── Merge Helpers ───────────────────────────────────────────────────
 
-    if (counterpart.text !== block.text) {
-      modified.push({
-        blockId: block.id,
-        blockType: block.type,
-        oldText: counterpart.text,
-        newText: block.text,
-        position: block.position,
-      });
+/**
+ * Rewrite the document's top-level blocks to match a merged block list.
+ * Surviving blocks are edited in place rather than re-inserted, so only
+ * the blocks that actually changed produce CRDT operations.
+ *
+ * A block's content is copied from the element in `sources` (the
+ * fragments of ours, theirs and base) it was merged from, keeping
+ * inline marks and nested blocks. Only text supplied by a resolution
+ * is written as plain text.
+ */
+function applyMergedBlocks(
+  doc: AeonDocument,
+  merged: BlockSnapshot[],
+  sources: any[]
+): void {
+  const keep = new Set(merged.map((b) => b.id));
+  const blockIdAt = (i: number): string =>
+    doc.getBlock(i)?.getAttribute('id') || `pos-${i}`;
+
+  doc.ydoc.transact(() => {
+    for (let i = doc.blockCount - 1; i >= 0; i--) {
+      if (!keep.has(blockIdAt(i))) doc.removeBlock(i);
     }
 
-    if (counterpart.position !== block.position) {
-      moved.push({
-        blockId: block.id,
-        blockType: block.type,
-        oldPosition: counterpart.position,
-        newPosition: block.position,
-      });
+    merged.forEach((block, index) => {
+      let position = -1;
+      for (let i = index; i < doc.blockCount; i++) {
+        if (blockIdAt(i) === block.id) {
+          position = i;
+          break;
+        }
+      }
+
+      // New blocks, and blocks whose type changed (which can't happen
+      // in place), are inserted. Copy the content first: the element
+      // being replaced may be where it comes from.
+      if (position === -1 || doc.getBlock(position).nodeName !== block.type) {
+        const source = findSourceElement(sources, block);
+        const content = source ? cloneChildren(source) : null;
+        if (position !== -1) doc.removeBlock(position);
+        const element = doc.insertBlock(
+          block.type,
+          index,
+          block.attributes,
+          content ? undefined : block.text
+        );
+        if (content) element.insert(0, content);
+        return;
+      }
+
+      if (position !== index) doc.moveBlock(position, index);
+      const source = findSourceElement(sources, block);
+      const element = doc.getBlock(index);
+      if (source) {
+        if (contentOf(element) !== contentOf(source)) {
+          if (element.length > 0) element.delete(0, element.length);
+          element.insert(0, cloneChildren(source));
+        }
+      } else if (doc.getBlockText(index) !== block.text) {
+        doc.updateBlockText(index, block.text);
+      }
+
+      const current: Record<string, string> = element.getAttributes();
+      for (const [key, value] of Object.entries(block.attributes)) {
+        if (current[key] !== value) element.setAttribute(key, value);
+      }
+      for (const key of Object.keys(current)) {
+        if (!(key in block.attributes)) element.removeAttribute(key);
+      }
+    });
+  }, 'local');
+}
+
+/** The element a merged block's text was taken from, if any */
+function findSourceElement(sources: any[], block: BlockSnapshot): any | null {
+  for (const fragment of sources) {
+    for (let i = 0; i < fragment.length; i++) {
+      const element = fragment.get(i);
+      if (
+        element?.getAttribute?.('id') === block.id &&
+        element.toString() === block.text
+      ) {
+        return element;
+      }
     }
   }
+  return null;
+}
+
+/** Serialized children of an element: its content without its attributes */
+function contentOf(element: any): string {
+  let content = '';
+  for (let i = 0; i < element.length; i++) content += element.get(i).toString();
+  return content;
+}
+
+/** Copies of an element's children, ready to insert elsewhere */
+function cloneChildren(element: any): any[] {
+  const children: any[] = [];
+  for (let i = 0; i < element.length; i++) {
+    children.push(element.get(i).clone());
+  }
+  return children;
+}
 
-  return { added, removed, modified, moved };
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
 }
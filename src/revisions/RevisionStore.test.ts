@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MemoryRevisionStore,
+  KeyValueRevisionStore,
+  type KeyValueBackend,
+  type RevisionPayload,
+  type RevisionStore,
+} from './RevisionStore';
+import type { Branch, Revision } from './RevisionManager';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function mapBackend(map: Map<string, unknown> = new Map()): KeyValueBackend {
+  return {
+    get: async (key) => map.get(key),
+    put: async (key, value) => {
+      map.set(key, value);
+    },
+    delete: async (key) => {
+      map.delete(key);
+    },
+    keys: async (prefix) =>
+      Array.from(map.keys()).filter((k) => k.startsWith(prefix)),
+  };
+}
+
+function revision(id: string, parentId: string | null = null): Revision {
+  return {
+    id,
+    label: `Revision ${id}`,
+    authorDid: 'did:key:alice',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    stateVector: new Uint8Array([1]),
+    branch: 'main',
+    parentId,
+  };
+}
+
+const KEYFRAME: RevisionPayload = {
+  kind: 'keyframe',
+  data: new Uint8Array([1, 2, 3]),
+  depth: 0,
+};
+
+const DELTA: RevisionPayload = {
+  kind: 'delta',
+  data: new Uint8Array([4]),
+  depth: 1,
+};
+
+const MAIN: Branch = {
+  name: 'main',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  forkPoint: '',
+  head: 'r2',
+  isMain: true,
+};
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe.each<[string, () => RevisionStore]>([
+  ['MemoryRevisionStore', () => new MemoryRevisionStore()],
+  ['KeyValueRevisionStore', () => new KeyValueRevisionStore(mapBackend())],
+])('%s', (_name, createStore) => {
+  it('stores revisions and payloads separately', async () => {
+    const store = createStore();
+    await store.putRevision(revision('r1'), KEYFRAME);
+    await store.putRevision(revision('r2', 'r1'), DELTA);
+
+    const listed = await store.listRevisions();
+    expect(listed.map((r) => r.id).sort()).toEqual(['r1', 'r2']);
+    expect(listed.every((r) => !('data' in r))).toBe(true);
+    expect(await store.getPayload('r1')).toEqual(KEYFRAME);
+    expect(await store.getPayload('r2')).toEqual(DELTA);
+  });
+
+  it('deletes a revision with its payload', async () => {
+    const store = createStore();
+    await store.putRevision(revision('r1'), KEYFRAME);
+    await store.deleteRevision('r1');
+
+    expect(await store.listRevisions()).toEqual([]);
+    expect(await store.getPayload('r1')).toBeUndefined();
+  });
+
+  it('creates, updates and deletes branches', async () => {
+    const store = createStore();
+    await store.putBranch(MAIN);
+    await store.putBranch({ ...MAIN, head: 'r3' });
+    await store.putBranch({ ...MAIN, name: 'draft', isMain: false });
+
+    const branches = await store.listBranches();
+    expect(branches.find((b) => b.name === 'main')?.head).toBe('r3');
+
+    await store.deleteBranch('draft');
+    expect((await store.listBranches()).map((b) => b.name)).toEqual(['main']);
+  });
+});
+
+describe('KeyValueRevisionStore', () => {
+  it('namespaces keys so documents can share a backend', async () => {
+    const map = new Map<string, unknown>();
+    const docA = new KeyValueRevisionStore(mapBackend(map), 'doc-a');
+    const docB = new KeyValueRevisionStore(mapBackend(map), 'doc-b');
+
+    await docA.putRevision(revision('r1'), KEYFRAME);
+    await docB.putBranch(MAIN);
+
+    expect(await docB.listRevisions()).toEqual([]);
+    expect(await docA.listBranches()).toEqual([]);
+    expect(Array.from(map.keys()).sort()).toEqual([
+      'doc-a/payload/r1',
+      'doc-a/revision/r1',
+      'doc-b/branch/main',
+    ]);
+  });
+
+  it('writes the payload before the revision is listed', async () => {
+    const writes: string[] = [];
+    const backend = mapBackend();
+    const store = new KeyValueRevisionStore({
+      ...backend,
+      put: async (key, value) => {
+        writes.push(key);
+        await backend.put(key, value);
+      },
+    });
+
+    await store.putRevision(revision('r1'), KEYFRAME);
+    expect(writes).toEqual(['payload/r1', 'revision/r1']);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * RevisionStore — Persistence for revision history
+ *
+ * Revision metadata and revision payloads are stored separately so
+ * history can be listed without reading any document state. Payloads
+ * are either keyframes (a full CRDT state) or deltas (the update on
+ * top of the parent revision's state); `RevisionManager` decides which
+ * to write and rebuilds snapshots from the nearest keyframe.
+ */
+
+import type { Branch, Revision } from './RevisionManager';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Stored document state for one revision */
+export interface RevisionPayload {
+  /** `keyframe`: full state; `delta`: update relative to the parent revision */
+  readonly kind: 'keyframe' | 'delta';
+  /** Encoded CRDT update */
+  readonly data: Uint8Array;
+  /** Number of deltas since the nearest keyframe (0 for keyframes) */
+  readonly depth: number;
+}
+
+/** Pluggable persistence for revisions and branches */
+export interface RevisionStore {
+  /** All revision metadata (no payloads) */
+  listRevisions(): Promise<Revision[]>;
+  /** Write a revision and its payload */
+  putRevision(revision: Revision, payload: RevisionPayload): Promise<void>;
+  /** Read a revision's payload */
+  getPayload(id: string): Promise<RevisionPayload | undefined>;
+  /** Remove a revision and its payload */
+  deleteRevision(id: string): Promise<void>;
+  /** All branches */
+  listBranches(): Promise<Branch[]>;
+  /** Create or update a branch */
+  putBranch(branch: Branch): Promise<void>;
+  /** Remove a branch */
+  deleteBranch(name: string): Promise<void>;
+}
+
+/**
+ * Minimal asynchronous key/value API, shaped after IndexedDB object
+ * stores. Values must survive structured cloning (Uint8Array does).
+ */
+export interface KeyValueBackend {
+  get(key: string): Promise<unknown>;
+  put(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Keys starting with `prefix` */
+  keys(prefix: string): Promise<string[]>;
+}
+
+// ── In-memory Store ─────────────────────────────────────────────────
+
+export class MemoryRevisionStore implements RevisionStore {
+  private revisions: Map<string, Revision> = new Map();
+  private payloads: Map<string, RevisionPayload> = new Map();
+  private branches: Map<string, Branch> = new Map();
+
+  async listRevisions(): Promise<Revision[]> {
+    return Array.from(this.revisions.values());
+  }
+
+  async putRevision(
+    revision: Revision,
+    payload: RevisionPayload
+  ): Promise<void> {
+    this.revisions.set(revision.id, revision);
+    this.payloads.set(revision.id, payload);
+  }
+
+  async getPayload(id: string): Promise<RevisionPayload | undefined> {
+    return this.payloads.get(id);
+  }
+
+  async deleteRevision(id: string): Promise<void> {
+    this.revisions.delete(id);
+    this.payloads.delete(id);
+  }
+
+  async listBranches(): Promise<Branch[]> {
+    return Array.from(this.branches.values());
+  }
+
+  async putBranch(branch: Branch): Promise<void> {
+    this.branches.set(branch.name, branch);
+  }
+
+  async deleteBranch(name: string): Promise<void> {
+    this.branches.delete(name);
+  }
+}
+
+// ── Key/Value Store ─────────────────────────────────────────────────
+
+const REVISION_PREFIX = 'revision/';
+const PAYLOAD_PREFIX = 'payload/';
+const BRANCH_PREFIX = 'branch/';
+
+/**
+ * Revision store on top of a key/value backend.
+ * Keys are namespaced so one backend can hold several documents.
+ */
+export class KeyValueRevisionStore implements RevisionStore {
+  private backend: KeyValueBackend;
+  private namespace: string;
+
+  constructor(backend: KeyValueBackend, namespace: string = '') {
+    this.backend = backend;
+    this.namespace = namespace ? `${namespace}/` : '';
+  }
+
+  async listRevisions(): Promise<Revision[]> {
+    return this.readAll<Revision>(REVISION_PREFIX);
+  }
+
+  async putRevision(
+    revision: Revision,
+    payload: RevisionPayload
+  ): Promise<void> {
+    // Payload first: a revision is only listed once its state is readable
+    await this.backend.put(this.key(PAYLOAD_PREFIX, revision.id), payload);
+    await this.backend.put(this.key(REVISION_PREFIX, revision.id), revision);
+  }
+
+  async getPayload(id: string): Promise<RevisionPayload | undefined> {
+    const payload = await this.backend.get(this.key(PAYLOAD_PREFIX, id));
+    return payload as RevisionPayload | undefined;
+  }
+
+  async deleteRevision(id: string): Promise<void> {
+    await this.backend.delete(this.key(REVISION_PREFIX, id));
+    await this.backend.delete(this.key(PAYLOAD_PREFIX, id));
+  }
+
+  async listBranches(): Promise<Branch[]> {
+    return this.readAll<Branch>(BRANCH_PREFIX);
+  }
+
+  async putBranch(branch: Branch): Promise<void> {
+    await this.backend.put(this.key(BRANCH_PREFIX, branch.name), branch);
+  }
+
+  async deleteBranch(name: string): Promise<void> {
+    await this.backend.delete(this.key(BRANCH_PREFIX, name));
+  }
+
+  private key(prefix: string, id: string): string {
+    return `${this.namespace}${prefix}${id}`;
+  }
+
+  private async readAll<T>(prefix: string): Promise<T[]> {
+    const keys = await this.backend.keys(`${this.namespace}${prefix}`);
+    const values = await Promise.all(keys.map((k) => this.backend.get(k)));
+    return values.filter((v) => v !== undefined) as T[];
+  }
+}
+
+// ── IndexedDB Backend ───────────────────────────────────────────────
+
+/**
+ * Open an IndexedDB object store as a `KeyValueBackend`.
+ * Browser-only; use `MemoryRevisionStore` elsewhere.
+ */
+export async function openIndexedDBBackend(
+  dbName: string,
+  storeName: string = 'revisions'
+): Promise<KeyValueBackend> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const run = <T>(
+    mode: IDBTransactionMode,
+    op: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const request = op(
+        db.transaction(storeName, mode).objectStore(storeName)
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+
+  return {
+    get: (key) => run('readonly', (store) => store.get(key)),
+    put: (key, value) => run('readwrite', (store) => store.put(value, key)),
+    delete: (key) => run('readwrite', (store) => store.delete(key)),
+    keys: async (prefix) => {
+      // \uffff sorts after every key character, bounding the prefix range
+      const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+      const keys = await run<IDBValidKey[]>('readonly', (store) =>
+        store.getAllKeys(range)
+      );
+      return keys.map(String);
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { attributeRevision, matchCharacters, toRuns } from './blame';
+import type { BlockSnapshot } from './diff';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function block(id: string, text: string, position = 0): BlockSnapshot {
+  return { id, type: 'paragraph', text, position, attributes: { id } };
+}
+
+function lcsLength(a: string, b: string): number {
+  const row = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] =
+        a[i - 1] === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('matchCharacters', () => {
+  it('maps kept characters and marks insertions', () => {
+    expect(Array.from(matchCharacters('teh cat', 'the cat'))).toEqual([
+      0, 2, -1, 3, 4, 5, 6,
+    ]);
+    expect(Array.from(matchCharacters('', 'new'))).toEqual([-1, -1, -1]);
+    expect(Array.from(matchCharacters('old', ''))).toEqual([]);
+  });
+
+  it('finds a longest common subsequence', () => {
+    const next = random(42);
+    const word = (length: number) =>
+      Array.from({ length }, () => 'abc'[Math.floor(next() * 3)]).join('');
+
+    for (let run = 0; run < 200; run++) {
+      const a = word(Math.floor(next() * 20));
+      const b = word(Math.floor(next() * 20));
+      const matches = Array.from(matchCharacters(a, b));
+
+      let previous = -1;
+      let kept = 0;
+      matches.forEach((i, j) => {
+        if (i === -1) return;
+        expect(a[i]).toBe(b[j]);
+        expect(i).toBeGreaterThan(previous);
+        previous = i;
+        kept++;
+      });
+      expect(kept).toBe(lcsLength(a, b));
+    }
+  });
+});
+
+describe('attributeRevision', () => {
+  it('credits a typo fix with only the changed characters', () => {
+    const v1 = [block('p', 'Hello wrold')];
+    const blame1 = attributeRevision('r1', v1, []);
+
+    const v2 = [block('p', 'Hello world')];
+    const blame2 = attributeRevision('r2', v2, [{ blocks: v1, blame: blame1 }]);
+
+    expect(toRuns(v2, blame2)).toEqual([
+      { blockId: 'p', start: 0, end: 8, revisionId: 'r1' },
+      { blockId: 'p', start: 8, end: 9, revisionId: 'r2' },
+      { blockId: 'p', start: 9, end: 11, revisionId: 'r1' },
+    ]);
+  });
+
+  it('keeps attribution through several revisions', () => {
+    const v1 = [block('p', 'one')];
+    const b1 = attributeRevision('r1', v1, []);
+    const v2 = [block('p', 'one two')];
+    const b2 = attributeRevision('r2', v2, [{ blocks: v1, blame: b1 }]);
+    const v3 = [block('p', 'zero one two'), block('q', 'new', 1)];
+    const b3 = attributeRevision('r3', v3, [{ blocks: v2, blame: b2 }]);
+
+    expect(toRuns(v3, b3)).toEqual([
+      { blockId: 'p', start: 0, end: 5, revisionId: 'r3' },
+      { blockId: 'p', start: 5, end: 8, revisionId: 'r1' },
+      { blockId: 'p', start: 8, end: 12, revisionId: 'r2' },
+      { blockId: 'q', start: 0, end: 3, revisionId: 'r3' },
+    ]);
+  });
+
+  it('takes text merged from a branch from the second parent', () => {
+    const base = [block('p', 'shared')];
+    const baseBlame = attributeRevision('r0', base, []);
+    const ours = [block('p', 'ours shared')];
+    const oursBlame = attributeRevision('r1', ours, [
+      { blocks: base, blame: baseBlame },
+    ]);
+    const theirs = [block('p', 'shared theirs')];
+    const theirsBlame = attributeRevision('r2', theirs, [
+      { blocks: base, blame: baseBlame },
+    ]);
+
+    const merged = [block('p', 'ours shared theirs!')];
+    const blame = attributeRevision('m', merged, [
+      { blocks: ours, blame: oursBlame },
+      { blocks: theirs, blame: theirsBlame },
+    ]);
+
+    expect(toRuns(merged, blame)).toEqual([
+      { blockId: 'p', start: 0, end: 5, revisionId: 'r1' },
+      { blockId: 'p', start: 5, end: 11, revisionId: 'r0' },
+      { blockId: 'p', start: 11, end: 18, revisionId: 'r2' },
+      { blockId: 'p', start: 18, end: 19, revisionId: 'm' },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Blame — Character-level attribution across revision history
+ *
+ * Each block's text is attributed character by character. Walking
+ * history oldest first, characters a revision keeps from its parent
+ * keep their attribution and only inserted characters are credited
+ * to the revision itself, so a one-character fix no longer takes
+ * ownership of the whole block. Merge revisions diff against both
+ * parents, so text brought in from a branch keeps its original author.
+ */
+
+import type { BlockSnapshot } from './diff';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Per-block attribution: one revision ID per character */
+export type BlameState = Map<string, string[]>;
+
+/** A run of characters attributed to the same revision */
+export interface BlameRun {
+  readonly blockId: string;
+  /** Start offset in the block text (inclusive) */
+  readonly start: number;
+  /** End offset in the block text (exclusive) */
+  readonly end: number;
+  readonly revisionId: string;
+}
+
+/** Give up on exact matching past this many edits and treat the rest as rewritten */
+const MAX_EDIT_DISTANCE = 2000;
+
+// ── Attribution ─────────────────────────────────────────────────────
+
+/**
+ * Attribute the blocks of a revision, given the blame of its parents.
+ * `parents` lists the parent's blocks and blame, first parent first.
+ */
+export function attributeRevision(
+  revisionId: string,
+  blocks: BlockSnapshot[],
+  parents: Array<{ blocks: BlockSnapshot[]; blame: BlameState }>
+): BlameState {
+  const parentTexts = parents.map(
+    (p) => new Map(p.blocks.map((b) => [b.id, b.text]))
+  );
+  const blame: BlameState = new Map();
+
+  for (const block of blocks) {
+    const origins: Array<string | undefined> = new Array(block.text.length);
+
+    parents.forEach((parent, i) => {
+      const oldText = parentTexts[i].get(block.id);
+      const oldOrigins = parent.blame.get(block.id);
+      if (oldText === undefined || !oldOrigins) return;
+
+      const matches = matchCharacters(oldText, block.text);
+      for (let j = 0; j < matches.length; j++) {
+        if (origins[j] === undefined && matches[j] !== -1) {
+          origins[j] = oldOrigins[matches[j]];
+        }
+      }
+    });
+
+    blame.set(
+      block.id,
+      Array.from(origins, (origin) => origin ?? revisionId)
+    );
+  }
+
+  return blame;
+}
+
+/** Collapse per-character attribution into runs, in block order */
+export function toRuns(blocks: BlockSnapshot[], blame: BlameState): BlameRun[] {
+  const runs: BlameRun[] = [];
+  for (const block of blocks) {
+    const origins = blame.get(block.id) ?? [];
+    let start = 0;
+    for (let i = 1; i <= origins.length; i++) {
+      if (i === origins.length || origins[i] !== origins[start]) {
+        runs.push({
+          blockId: block.id,
+          start,
+          end: i,
+          revisionId: origins[start],
+        });
+        start = i;
+      }
+    }
+  }
+  return runs;
+}
+
+// ── Character Diff ──────────────────────────────────────────────────
+
+/**
+ * Match characters of `b` to the characters of `a` they were kept from.
+ * Returns, for each index in `b`, the index in `a` or -1 if inserted.
+ * Myers' O(ND) diff on the span left after trimming the common prefix
+ * and suffix.
+ */
+export function matchCharacters(a: string, b: string): Int32Array {
+  const matches = new Int32Array(b.length).fill(-1);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    matches[b.length - 1 - suffix] = a.length - 1 - suffix;
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length === 0 || midB.length === 0) return matches;
+
+  for (const [i, j] of myersMatches(midA, midB)) {
+    matches[prefix + j] = prefix + i;
+  }
+  return matches;
+}
+
+/** Matched index pairs of a shortest edit script between `a` and `b` */
+function myersMatches(a: string, b: string): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  // Too different to diff cheaply: nothing is kept
+  if (!found) return [];
+
+  // Walk the trace back from the end, collecting diagonal moves
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = d === 0 ? 0 : vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+    if (d > 0) {
+      x = prevX;
+      y = prevY;
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,137 @@
+/**
+ * Structural diff helpers — block-level comparison of document trees
+ *
+ * Shared by revision diffs, three-way merge and blame. Blocks are
+ * matched by their `id` attribute, so edits, moves, inserts and
+ * deletes are reported per block rather than per line.
+ */
+
+import type {
+  RevisionDiff,
+  DiffBlock,
+  DiffModification,
+  DiffMove,
+} from './RevisionManager';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** A top-level block as captured from a revision snapshot */
+export interface BlockSnapshot {
+  id: string;
+  type: string;
+  text: string;
+  position: number;
+  attributes: Record<string, string>;
+}
+
+// ── Extraction ──────────────────────────────────────────────────────
+
+/** Read the top-level blocks of an XmlFragment */
+export function extractBlocks(fragment: any): BlockSnapshot[] {
+  const blocks: BlockSnapshot[] = [];
+  for (let i = 0; i < fragment.length; i++) {
+    const item = fragment.get(i);
+    // TODO: QDoc migration — instanceof check may need QXmlElement equivalent
+    if (item && typeof item === 'object' && 'getAttribute' in item) {
+      blocks.push({
+        id: item.getAttribute('id') || `pos-${i}`,
+        type: item.nodeName,
+        text: item.toString(),
+        position: i,
+        attributes:
+          typeof item.getAttributes === 'function' ? item.getAttributes() : {},
+      });
+    }
+  }
+  return blocks;
+}
+
+// ── Diff ────────────────────────────────────────────────────────────
+
+/** Compute the block-level diff from `blocksA` to `blocksB` */
+export function computeStructuralDiff(
+  blocksA: BlockSnapshot[],
+  blocksB: BlockSnapshot[]
+): RevisionDiff {
+  const idsA = new Set(blocksA.map((b) => b.id));
+  const idsB = new Set(blocksB.map((b) => b.id));
+  const mapA = new Map(blocksA.map((b) => [b.id, b]));
+  const mapB = new Map(blocksB.map((b) => [b.id, b]));
+
+  const added: DiffBlock[] = [];
+  const removed: DiffBlock[] = [];
+  const modified: DiffModification[] = [];
+  const moved: DiffMove[] = [];
+
+  // Find added blocks (in B but not in A)
+  for (const block of blocksB) {
+    if (!idsA.has(block.id)) {
+      added.push({
+        blockId: block.id,
+        blockType: block.type,
+        text: block.text,
+        position: block.position,
+      });
+    }
+  }
+
+  // Find removed blocks (in A but not in B)
+  for (const block of blocksA) {
+    if (!idsB.has(block.id)) {
+      removed.push({
+        blockId: block.id,
+        blockType: block.type,
+        text: block.text,
+        position: block.position,
+      });
+    }
+  }
+
+  // Find modified and moved blocks
+  for (const block of blocksB) {
+    const counterpart = mapA.get(block.id);
+    if (!counterpart) continue;
+
+    const changedAttributes = attributeChanges(
+      counterpart.attributes,
+      block.attributes
+    );
+    if (
+      counterpart.text !== block.text ||
+      counterpart.type !== block.type ||
+      changedAttributes.length > 0
+    ) {
+      modified.push({
+        blockId: block.id,
+        blockType: block.type,
+        oldText: counterpart.text,
+        newText: block.text,
+        position: block.position,
+        ...(counterpart.type !== block.type
+          ? { oldBlockType: counterpart.type }
+          : {}),
+        ...(changedAttributes.length > 0 ? { changedAttributes } : {}),
+      });
+    }
+
+    if (counterpart.position !== block.position) {
+      moved.push({
+        blockId: block.id,
+        blockType: block.type,
+        oldPosition: counterpart.position,
+        newPosition: block.position,
+      });
+    }
+  }
+
+  return { added, removed, modified, moved };
+}
+
+/** Attributes added, removed or changed between two blocks */
+function attributeChanges(
+  a: Record<string, string>,
+  b: Record<string, string>
+): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((key) => a[key] !== b[key]);
+}
@@ -10,6 +10,31 @@ export {
   type DiffModification,
   type DiffMove,
   type BlameEntry,
+  type MergeConflict,
+  type MergeConflictType,
+  type MergeResolution,
+  type MergeResult,
   type RevisionEvent,
   type RevisionListener,
 } from './RevisionManager';
+export {
+  extractBlocks,
+  computeStructuralDiff,
+  type BlockSnapshot,
+} from './diff';
+export { detectConflicts, mergeBlocks } from './merge';
+export {
+  attributeRevision,
+  matchCharacters,
+  toRuns,
+  type BlameState,
+  type BlameRun,
+} from './blame';
+export {
+  MemoryRevisionStore,
+  KeyValueRevisionStore,
+  openIndexedDBBackend,
+  type RevisionStore,
+  type RevisionPayload,
+  type KeyValueBackend,
+} from './RevisionStore';
@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import { detectConflicts, mergeBlocks } from './merge';
+import type { BlockSnapshot } from './diff';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+type Spec = [id: string, text: string, attributes?: Record<string, string>];
+
+function blocks(...specs: Spec[]): BlockSnapshot[] {
+  return specs.map(([id, text, attributes], position) => ({
+    id,
+    type: 'paragraph',
+    text,
+    position,
+    attributes: { id, ...attributes },
+  }));
+}
+
+function summary(merged: BlockSnapshot[]): string[] {
+  return merged.map((b) => `${b.id}:${b.text}`);
+}
+
+const BASE = blocks(['a', 'one'], ['b', 'two'], ['c', 'three'], ['d', 'four']);
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe('three-way merge', () => {
+  it('merges edits, inserts and deletes made on different blocks', () => {
+    const ours = blocks(
+      ['a', 'ONE'],
+      ['b', 'two'],
+      ['x', 'ours new'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'one'],
+      ['b', 'two'],
+      ['c', 'THREE'],
+      ['y', 'theirs new']
+    );
+
+    expect(detectConflicts(BASE, ours, theirs)).toEqual([]);
+    expect(summary(mergeBlocks(BASE, ours, theirs))).toEqual([
+      'a:ONE',
+      'b:two',
+      'x:ours new',
+      'c:THREE',
+      'y:theirs new',
+    ]);
+  });
+
+  it('renumbers positions in the merged list', () => {
+    const ours = blocks(['b', 'two'], ['c', 'three'], ['d', 'four']);
+    const merged = mergeBlocks(BASE, ours, BASE);
+    expect(merged.map((b) => b.position)).toEqual([0, 1, 2]);
+  });
+
+  it('reports a text conflict when both sides edit the same block', () => {
+    const ours = blocks(
+      ['a', 'one'],
+      ['b', 'ours'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'one'],
+      ['b', 'theirs'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    const conflicts = detectConflicts(BASE, ours, theirs);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      blockId: 'b',
+      type: 'text',
+      base: { text: 'two' },
+      ours: { text: 'ours' },
+      theirs: { text: 'theirs' },
+    });
+  });
+
+  it('treats identical edits on both sides as agreement', () => {
+    const edited = blocks(
+      ['a', 'one'],
+      ['b', 'same'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    expect(detectConflicts(BASE, edited, edited)).toEqual([]);
+    expect(summary(mergeBlocks(BASE, edited, edited))[1]).toBe('b:same');
+  });
+
+  it('reports delete-modify conflicts', () => {
+    const ours = blocks(['a', 'one'], ['c', 'three'], ['d', 'four']);
+    const theirs = blocks(
+      ['a', 'one'],
+      ['b', 'edited'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    const conflicts = detectConflicts(BASE, ours, theirs);
+    expect(conflicts.map((c) => [c.blockId, c.type])).toEqual([
+      ['b', 'delete-modify'],
+    ]);
+    expect(conflicts[0].ours).toBeNull();
+  });
+
+  it('lets an unmodified block be deleted', () => {
+    const ours = blocks(['a', 'one'], ['c', 'three'], ['d', 'four']);
+    expect(detectConflicts(BASE, ours, BASE)).toEqual([]);
+    expect(summary(mergeBlocks(BASE, ours, BASE))).toEqual([
+      'a:one',
+      'c:three',
+      'd:four',
+    ]);
+  });
+
+  it('reports move-move conflicts only for different destinations', () => {
+    const oursMove = blocks(
+      ['b', 'two'],
+      ['c', 'three'],
+      ['a', 'one'],
+      ['d', 'four']
+    );
+    const theirsMove = blocks(
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four'],
+      ['a', 'one']
+    );
+
+    const conflicts = detectConflicts(BASE, oursMove, theirsMove);
+    expect(conflicts.map((c) => [c.blockId, c.type])).toEqual([
+      ['a', 'move-move'],
+    ]);
+    expect(detectConflicts(BASE, oursMove, oursMove)).toEqual([]);
+  });
+
+  it('does not count blocks shifted by inserts as moved', () => {
+    const ours = blocks(
+      ['new', 'inserted'],
+      ['a', 'one'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(['b', 'two'], ['c', 'three'], ['d', 'four']);
+    expect(detectConflicts(BASE, ours, theirs)).toEqual([]);
+  });
+
+  it('applies a one-sided move', () => {
+    const theirs = blocks(
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four'],
+      ['a', 'one']
+    );
+    const ours = blocks(
+      ['a', 'ONE'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    expect(summary(mergeBlocks(BASE, ours, theirs))).toEqual([
+      'b:two',
+      'c:three',
+      'd:four',
+      'a:ONE',
+    ]);
+  });
+
+  it('throws while conflicts are unresolved', () => {
+    const ours = blocks(
+      ['a', 'ours'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'theirs'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    expect(() => mergeBlocks(BASE, ours, theirs)).toThrow(
+      'Unresolved merge conflicts: a'
+    );
+  });
+
+  it('applies each kind of resolution', () => {
+    const ours = blocks(
+      ['a', 'ours'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'theirs'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const textOf = (resolution: Parameters<typeof mergeBlocks>[3]) =>
+      mergeBlocks(BASE, ours, theirs, resolution)[0].text;
+
+    expect(textOf(new Map([['a', 'ours']]))).toBe('ours');
+    expect(textOf(new Map([['a', 'theirs']]))).toBe('theirs');
+    expect(textOf(new Map([['a', 'base']]))).toBe('one');
+    expect(textOf(new Map([['a', { text: 'both' }]]))).toBe('both');
+  });
+
+  it('resolves delete-modify by keeping or dropping the block', () => {
+    const ours = blocks(['a', 'one'], ['c', 'three'], ['d', 'four']);
+    const theirs = blocks(
+      ['a', 'one'],
+      ['b', 'edited'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    expect(
+      summary(mergeBlocks(BASE, ours, theirs, new Map([['b', 'theirs']])))
+    ).toEqual(['a:one', 'b:edited', 'c:three', 'd:four']);
+    expect(
+      summary(mergeBlocks(BASE, ours, theirs, new Map([['b', 'ours']])))
+    ).toEqual(['a:one', 'c:three', 'd:four']);
+  });
+
+  it('keeps non-conflicting attribute changes alongside a resolution', () => {
+    const ours = blocks(
+      ['a', 'ours', { align: 'center' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'theirs'],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    const [first] = mergeBlocks(BASE, ours, theirs, new Map([['a', 'theirs']]));
+    expect(first.text).toBe('theirs');
+    expect(first.attributes).toEqual({ id: 'a', align: 'center' });
+  });
+
+  it('merges attribute changes key by key', () => {
+    const ours = blocks(
+      ['a', 'one', { align: 'center' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    const theirs = blocks(
+      ['a', 'one', { color: 'red' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+
+    expect(detectConflicts(BASE, ours, theirs)).toEqual([]);
+    expect(mergeBlocks(BASE, ours, theirs)[0].attributes).toEqual({
+      id: 'a',
+      align: 'center',
+      color: 'red',
+    });
+  });
+
+  it('reports type and attribute conflicts', () => {
+    const ours = blocks(
+      ['a', 'one', { align: 'center', color: 'red' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    ).map((b) => (b.id === 'a' ? { ...b, type: 'heading' } : b));
+    const theirs = blocks(
+      ['a', 'one', { align: 'left' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    ).map((b) => (b.id === 'a' ? { ...b, type: 'callout' } : b));
+
+    expect(detectConflicts(BASE, ours, theirs)).toMatchObject([
+      { blockId: 'a', type: 'type' },
+      { blockId: 'a', type: 'attributes', attributes: ['align'] },
+    ]);
+
+    const [first] = mergeBlocks(BASE, ours, theirs, new Map([['a', 'theirs']]));
+    expect(first.type).toBe('callout');
+    expect(first.attributes).toEqual({ id: 'a', align: 'left', color: 'red' });
+  });
+
+  it('counts an attribute change as a modification against a delete', () => {
+    const ours = blocks(['b', 'two'], ['c', 'three'], ['d', 'four']);
+    const theirs = blocks(
+      ['a', 'one', { align: 'center' }],
+      ['b', 'two'],
+      ['c', 'three'],
+      ['d', 'four']
+    );
+    expect(detectConflicts(BASE, ours, theirs)).toMatchObject([
+      { blockId: 'a', type: 'delete-modify' },
+    ]);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Three-way merge — block-level merge of two branches against their base
+ *
+ * Each side is diffed against the common ancestor with
+ * `computeStructuralDiff`. Changes made on only one side are taken
+ * as-is; changes made on both sides to the same block surface as
+ * conflicts (text vs text, type vs type, the same attribute set to
+ * different values, delete vs modify, move vs move) that the caller
+ * resolves per block before the merged tree is produced. Attributes
+ * merge key by key, so edits to different attributes don't conflict.
+ */
+
+import { computeStructuralDiff, type BlockSnapshot } from './diff';
+import type {
+  DiffBlock,
+  MergeConflict,
+  MergeResolution,
+  RevisionDiff,
+} from './RevisionManager';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** What one side changed relative to the base */
+interface SideChanges {
+  readonly diff: RevisionDiff;
+  /** Blocks whose text, type or attributes differ from the base */
+  readonly modified: Set<string>;
+  /** Blocks deleted since the base */
+  readonly removed: Set<string>;
+  /** Blocks whose order relative to the other shared blocks changed */
+  readonly moved: Set<string>;
+  readonly byId: Map<string, BlockSnapshot>;
+  readonly order: string[];
+}
+
+/** Outcome for a single block */
+interface BlockDecision {
+  /** Resulting block, or null if it is deleted */
+  readonly block: BlockSnapshot | null;
+  /** Which side's ordering places the block */
+  readonly placement: 'ours' | 'theirs';
+}
+
+// ── Conflict Detection ──────────────────────────────────────────────
+
+/**
+ * Find block-level conflicts between two sides of a merge.
+ */
+export function detectConflicts(
+  base: BlockSnapshot[],
+  ours: BlockSnapshot[],
+  theirs: BlockSnapshot[]
+): MergeConflict[] {
+  const baseById = new Map(base.map((b) => [b.id, b]));
+  const oursChanges = analyzeSide(base, ours);
+  const theirsChanges = analyzeSide(base, theirs);
+  const conflicts: MergeConflict[] = [];
+
+  for (const id of unionIds(base, ours, theirs)) {
+    const b = baseById.get(id);
+    const o = oursChanges.byId.get(id);
+    const t = theirsChanges.byId.get(id);
+    const blockType = (o ?? t ?? b)!.type;
+    const conflict = (type: MergeConflict['type'], attributes?: string[]) =>
+      conflicts.push({
+        blockId: id,
+        blockType,
+        type,
+        base: toDiffBlock(b),
+        ours: toDiffBlock(o),
+        theirs: toDiffBlock(t),
+        ...(attributes ? { attributes } : {}),
+      });
+
+    // Added on both sides with the same ID
+    if (!b) {
+      if (!o || !t) continue;
+      if (o.text !== t.text) conflict('text');
+      if (o.type !== t.type) conflict('type');
+      const keys = conflictingAttributes({}, o.attributes, t.attributes);
+      if (keys.length > 0) conflict('attributes', keys);
+      continue;
+    }
+
+    // Deleted on one side, edited on the other
+    if (
+      (oursChanges.removed.has(id) && theirsChanges.modified.has(id)) ||
+      (theirsChanges.removed.has(id) && oursChanges.modified.has(id))
+    ) {
+      conflict('delete-modify');
+      continue;
+    }
+    if (!o || !t) continue;
+
+    if (o.text !== b.text && t.text !== b.text && o.text !== t.text) {
+      conflict('text');
+    }
+    if (o.type !== b.type && t.type !== b.type && o.type !== t.type) {
+      conflict('type');
+    }
+    const keys = conflictingAttributes(
+      b.attributes,
+      o.attributes,
+      t.attributes
+    );
+    if (keys.length > 0) conflict('attributes', keys);
+
+    if (
+      oursChanges.moved.has(id) &&
+      theirsChanges.moved.has(id) &&
+      anchorOf(oursChanges.order, id, baseById) !==
+        anchorOf(theirsChanges.order, id, baseById)
+    ) {
+      conflict('move-move');
+    }
+  }
+
+  return conflicts;
+}
+
+// ── Merge ───────────────────────────────────────────────────────────
+
+/**
+ * Produce the merged block list.
+ * Every conflicting block must have an entry in `resolutions`.
+ */
+export function mergeBlocks(
+  base: BlockSnapshot[],
+  ours: BlockSnapshot[],
+  theirs: BlockSnapshot[],
+  resolutions: ReadonlyMap<string, MergeResolution> = new Map()
+): BlockSnapshot[] {
+  const baseById = new Map(base.map((b) => [b.id, b]));
+  const oursChanges = analyzeSide(base, ours);
+  const theirsChanges = analyzeSide(base, theirs);
+  const conflicted = new Set(
+    detectConflicts(base, ours, theirs).map((c) => c.blockId)
+  );
+
+  const unresolved = [...conflicted].filter((id) => !resolutions.has(id));
+  if (unresolved.length > 0) {
+    throw new Error(`Unresolved merge conflicts: ${unresolved.join(', ')}`);
+  }
+
+  const decisions = new Map<string, BlockDecision>();
+  for (const id of unionIds(base, ours, theirs)) {
+    decisions.set(
+      id,
+      decide(
+        baseById.get(id),
+        oursChanges.byId.get(id),
+        theirsChanges.byId.get(id),
+        oursChanges.moved.has(id),
+        theirsChanges.moved.has(id),
+        conflicted.has(id) ? resolutions.get(id) : undefined
+      )
+    );
+  }
+
+  // Start from our order, then place theirs-positioned blocks after
+  // their nearest surviving predecessor in their order
+  const order = oursChanges.order.filter((id) => {
+    const decision = decisions.get(id)!;
+    return decision.block && decision.placement === 'ours';
+  });
+  for (let i = 0; i < theirsChanges.order.length; i++) {
+    const id = theirsChanges.order[i];
+    const decision = decisions.get(id)!;
+    if (!decision.block || order.includes(id)) continue;
+
+    let insertAt = 0;
+    for (let j = i - 1; j >= 0; j--) {
+      const index = order.indexOf(theirsChanges.order[j]);
+      if (index !== -1) {
+        insertAt = index + 1;
+        break;
+      }
+    }
+    order.splice(insertAt, 0, id);
+  }
+
+  return order.map((id, position) => ({
+    ...decisions.get(id)!.block!,
+    position,
+  }));
+}
+
+/** Decide the content and placement of one block */
+function decide(
+  b: BlockSnapshot | undefined,
+  o: BlockSnapshot | undefined,
+  t: BlockSnapshot | undefined,
+  oursMoved: boolean,
+  theirsMoved: boolean,
+  resolution: MergeResolution | undefined
+): BlockDecision {
+  if (resolution !== undefined) {
+    return resolve(b, o, t, resolution);
+  }
+
+  if (!b) {
+    return o
+      ? { block: o, placement: 'ours' }
+      : { block: t!, placement: 'theirs' };
+  }
+
+  // Unmodified on the surviving side: the deletion wins
+  if (!o || !t) return { block: null, placement: 'ours' };
+
+  return {
+    block: autoMerge(b, o, t),
+    placement: theirsMoved && !oursMoved ? 'theirs' : 'ours',
+  };
+}
+
+/**
+ * Take each side's change to type, text and every attribute. Where
+ * both sides changed the type or an attribute, `prefer` decides.
+ */
+function autoMerge(
+  b: BlockSnapshot,
+  o: BlockSnapshot,
+  t: BlockSnapshot,
+  prefer: 'ours' | 'theirs' | 'base' = 'ours'
+): BlockSnapshot {
+  const attributes: Record<string, string> = {};
+  const keys = new Set([
+    ...Object.keys(b.attributes),
+    ...Object.keys(o.attributes),
+    ...Object.keys(t.attributes),
+  ]);
+  for (const key of keys) {
+    const value = pick(
+      b.attributes[key],
+      o.attributes[key],
+      t.attributes[key],
+      prefer
+    );
+    if (value !== undefined) attributes[key] = value;
+  }
+
+  return {
+    ...o,
+    type: pick(b.type, o.type, t.type, prefer),
+    text: o.text !== b.text ? o.text : t.text,
+    attributes,
+  };
+}
+
+/** Three-way pick of one value: a one-sided change wins */
+function pick<T>(
+  base: T,
+  ours: T,
+  theirs: T,
+  prefer: 'ours' | 'theirs' | 'base'
+): T {
+  if (ours === base) return theirs;
+  if (theirs === base || ours === theirs) return ours;
+  return prefer === 'theirs' ? theirs : prefer === 'base' ? base : ours;
+}
+
+/** Apply a caller's resolution to a conflicting block */
+function resolve(
+  b: BlockSnapshot | undefined,
+  o: BlockSnapshot | undefined,
+  t: BlockSnapshot | undefined,
+  resolution: MergeResolution
+): BlockDecision {
+  // Placement follows the chosen side, falling back to wherever the block survives
+  const placeBy = (side: 'ours' | 'theirs'): 'ours' | 'theirs' =>
+    side === 'ours' ? (o ? 'ours' : 'theirs') : t ? 'theirs' : 'ours';
+
+  const chosenText = (): string =>
+    resolution === 'ours'
+      ? o!.text
+      : resolution === 'theirs'
+        ? t!.text
+        : resolution === 'base'
+          ? b!.text
+          : resolution.text;
+
+  // Kept on both sides: non-conflicting changes still merge, and the
+  // text, type and attributes only follow the resolution where both
+  // sides changed them
+  if (b && o && t) {
+    const merged = autoMerge(
+      b,
+      o,
+      t,
+      typeof resolution === 'object' ? 'ours' : resolution
+    );
+    const textConflict =
+      o.text !== b.text && t.text !== b.text && o.text !== t.text;
+    return {
+      block:
+        textConflict || typeof resolution === 'object'
+          ? { ...merged, text: chosenText() }
+          : merged,
+      placement: resolution === 'theirs' ? 'theirs' : 'ours',
+    };
+  }
+
+  if (resolution === 'ours')
+    return { block: o ?? null, placement: placeBy('ours') };
+  if (resolution === 'theirs')
+    return { block: t ?? null, placement: placeBy('theirs') };
+  if (resolution === 'base') {
+    const template = o ?? t;
+    return {
+      block: b && template ? { ...template, text: b.text } : (b ?? null),
+      placement: placeBy('ours'),
+    };
+  }
+  return {
+    block: { ...(o ?? t ?? b)!, text: resolution.text },
+    placement: placeBy('ours'),
+  };
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function analyzeSide(
+  base: BlockSnapshot[],
+  side: BlockSnapshot[]
+): SideChanges {
+  const diff = computeStructuralDiff(base, side);
+  return {
+    diff,
+    modified: new Set(diff.modified.map((m) => m.blockId)),
+    removed: new Set(diff.removed.map((r) => r.blockId)),
+    moved: reorderedBlocks(base, side),
+    byId: new Map(side.map((b) => [b.id, b])),
+    order: side.map((b) => b.id),
+  };
+}
+
+/**
+ * Blocks that changed order relative to the other blocks both sides share.
+ * Absolute positions shift with every insert and delete, so a block counts
+ * as moved only if it falls outside the longest run of shared blocks that
+ * kept their relative order.
+ */
+function reorderedBlocks(
+  base: BlockSnapshot[],
+  side: BlockSnapshot[]
+): Set<string> {
+  const sideIds = new Set(side.map((b) => b.id));
+  const baseIndex = new Map(
+    base.filter((b) => sideIds.has(b.id)).map((b, i) => [b.id, i])
+  );
+  const shared = side.filter((b) => baseIndex.has(b.id)).map((b) => b.id);
+  const stable = longestIncreasingRun(shared.map((id) => baseIndex.get(id)!));
+  return new Set(shared.filter((_, i) => !stable.has(i)));
+}
+
+/** Indices of a longest strictly increasing subsequence (patience sort) */
+function longestIncreasingRun(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  for (let i = 0; i < values.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < values[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const run = new Set<number>();
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) {
+    run.add(i);
+  }
+  return run;
+}
+
+/** The nearest preceding block that also exists in the base */
+function anchorOf(
+  order: string[],
+  id: string,
+  baseById: Map<string, BlockSnapshot>
+): string | null {
+  for (let i = order.indexOf(id) - 1; i >= 0; i--) {
+    if (baseById.has(order[i])) return order[i];
+  }
+  return null;
+}
+
+/** All block IDs across the three trees, ours first */
+function unionIds(...sides: BlockSnapshot[][]): string[] {
+  const ids = new Set<string>();
+  for (const side of [sides[1], sides[2], sides[0]]) {
+    for (const block of side) ids.add(block.id);
+  }
+  return [...ids];
+}
+
+function toDiffBlock(block: BlockSnapshot | undefined): DiffBlock | null {
+  return block
+    ? {
+        blockId: block.id,
+        blockType: block.type,
+        text: block.text,
+        position: block.position,
+      }
+    : null;
+}
+
+/** Attributes both sides changed (or removed) to different values */
+function conflictingAttributes(
+  base: Record<string, string>,
+  ours: Record<string, string>,
+  theirs: Record<string, string>
+): string[] {
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  for (const key of Object.keys(base)) keys.add(key);
+  return [...keys].filter(
+    (key) =>
+      ours[key] !== base[key] &&
+      theirs[key] !== base[key] &&
+      ours[key] !== theirs[key]
+  );
+}
@@ -1,22 +1,20 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { CapabilitySharing } from './CapabilitySharing';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CapabilitySharing,
+  type GroupMember,
+  type SharingConfig,
+} from './CapabilitySharing';
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
-const mockCreateUcan = vi.fn().mockResolvedValue('eyJ.mock.ucan');
-const mockVerifyUcan = vi.fn().mockResolvedValue({
-  valid: true,
-  issuer: 'did:test:issuer',
-  audience: 'did:test:audience',
-  resource: 'doc:test-doc',
-  capability: 'edit',
-});
-
-function makeSharing() {
+/** UCAN stand-in: a readable, unique token that verifies as written */
+function makeSharing(config: Partial<SharingConfig> = {}) {
+  let nonce = 0;
   return new CapabilitySharing({
-    createUcan: mockCreateUcan,
-    verifyUcan: mockVerifyUcan,
+    createUcan: async (params) => JSON.stringify({ ...params, nonce: ++nonce }),
+    verifyUcan: async (token) => ({ valid: true, ...JSON.parse(token) }),
     currentDid: 'did:test:owner',
+    ...config,
   });
 }
 
@@ -26,8 +24,6 @@ describe('CapabilitySharing', () => {
   let sharing: CapabilitySharing;
 
   beforeEach(() => {
-    mockCreateUcan.mockClear();
-    mockVerifyUcan.mockClear();
     sharing = makeSharing();
   });
 
@@ -261,6 +257,169 @@ describe('CapabilitySharing', () => {
     });
   });
 
+  describe('caveats', () => {
+    it('limits a block link to its block', async () => {
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        blockId: 'block-5',
+        capability: 'edit',
+        audience: { type: 'anyone' },
+      });
+      await sharing.claimShareLink(link.uri, 'did:test:user1');
+
+      expect(
+        sharing.hasCapability('did:test:user1', 'doc-1', 'edit', 'block-5')
+      ).toBe(true);
+      expect(
+        sharing.hasCapability('did:test:user1', 'doc-1', 'read', 'block-6')
+      ).toBe(false);
+
+      const whole = sharing.explainCapability(
+        'did:test:user1',
+        'doc-1',
+        'read'
+      );
+      expect(whole.allowed).toBe(false);
+      expect(whole.trace).toMatchObject([
+        {
+          path: 'grant',
+          outcome: 'denied',
+          reason: 'scoped to blocks block-5, not the document',
+        },
+      ]);
+    });
+
+    it('downgrades edit to read inside read-only sections', async () => {
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: 'did:test:user1',
+        capability: 'edit',
+        caveats: [{ type: 'read-only-sections', value: 'legal,footer' }],
+      });
+
+      expect(
+        sharing.hasCapability('did:test:user1', 'doc-1', 'edit', 'intro')
+      ).toBe(true);
+      const legal = sharing.explainCapability(
+        'did:test:user1',
+        'doc-1',
+        'edit',
+        'legal'
+      );
+      expect(legal.allowed).toBe(false);
+      expect(legal.trace[0].reason).toBe(
+        'grants read, block legal is read-only; edit required'
+      );
+      expect(
+        sharing.getEffectiveCapability('did:test:user1', 'doc-1', 'legal')
+      ).toBe('read');
+    });
+
+    it('checks time windows and expiry against the clock', async () => {
+      let now = Date.parse('2026-03-01T08:00:00Z');
+      sharing = makeSharing({ now: () => now });
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: 'did:test:user1',
+        capability: 'read',
+        caveats: [
+          {
+            type: 'time-window',
+            value: '2026-03-01T09:00:00Z/2026-03-01T17:00:00Z',
+          },
+        ],
+        expiresAt: '2026-03-02T00:00:00Z',
+      });
+      const check = () =>
+        sharing.explainCapability('did:test:user1', 'doc-1', 'read');
+
+      expect(check().trace[0].reason).toBe(
+        'outside time window 2026-03-01T09:00:00Z/2026-03-01T17:00:00Z'
+      );
+      now = Date.parse('2026-03-01T12:00:00Z');
+      expect(check().allowed).toBe(true);
+      now = Date.parse('2026-03-02T12:00:00Z');
+      expect(check().trace[0].reason).toBe('expired at 2026-03-02T00:00:00Z');
+    });
+
+    it('counts spent uses, not checks, against max uses', async () => {
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: 'did:test:user1',
+        capability: 'read',
+        caveats: [{ type: 'max-uses', value: '2' }],
+      });
+      const check = () =>
+        sharing.hasCapability('did:test:user1', 'doc-1', 'read');
+      const use = () =>
+        sharing.useCapability('did:test:user1', 'doc-1', 'read');
+      const explain = () =>
+        sharing.explainCapability('did:test:user1', 'doc-1', 'read');
+
+      // Checking and explaining are read-only and use nothing up
+      expect([check(), check(), check()]).toEqual([true, true, true]);
+      expect([explain().allowed, explain().allowed]).toEqual([true, true]);
+      expect(sharing.getEffectiveCapability('did:test:user1', 'doc-1')).toBe(
+        'read'
+      );
+      expect([use(), use(), use()]).toEqual([true, true, false]);
+      expect(check()).toBe(false);
+      expect(explain().trace[0].reason).toBe('used 2 of 2 times');
+    });
+
+    it('rejects malformed caveats and denies them when evaluated', async () => {
+      for (const caveat of [
+        { type: 'time-window', value: 'yesterday/tomorrow' },
+        { type: 'time-window', value: '2026-03-01T09:00:00Z' },
+        { type: 'max-uses', value: 'lots' },
+        { type: 'max-uses', value: '-1' },
+        { type: 'block-scope', value: '' },
+      ] as const) {
+        await expect(
+          sharing.grantCapability({
+            documentId: 'doc-1',
+            audience: 'did:test:user1',
+            capability: 'read',
+            caveats: [caveat],
+          })
+        ).rejects.toThrow(`Invalid ${caveat.type} caveat: ${caveat.value}`);
+      }
+      await expect(
+        sharing.createShareLink({
+          documentId: 'doc-1',
+          capability: 'read',
+          audience: { type: 'anyone' },
+          caveats: [{ type: 'max-uses', value: 'NaN' }],
+        })
+      ).rejects.toThrow('Invalid max-uses caveat: NaN');
+      expect(
+        sharing.explainCapability('did:test:user1', 'doc-1', 'read')
+      ).toEqual({ allowed: false, trace: [] });
+    });
+
+    it('explains group paths', async () => {
+      const group = await sharing.createGroup({ name: 'Reviewers' });
+      await sharing.addGroupMember(group.id, 'did:test:m1', 'Alice', 'comment');
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: group.id,
+        capability: 'edit',
+      });
+
+      expect(
+        sharing.explainCapability('did:test:m1', 'doc-1', 'comment').trace
+      ).toMatchObject([
+        {
+          path: 'group',
+          groupId: group.id,
+          outcome: 'allowed',
+          reason: 'grants comment, comment as member of Reviewers',
+        },
+      ]);
+      expect(sharing.hasCapability('did:test:m1', 'doc-1', 'edit')).toBe(false);
+    });
+  });
+
   describe('effective capability', () => {
     it('returns highest capability for a DID', async () => {
       const link1 = await sharing.createShareLink({
@@ -304,4 +463,212 @@ describe('CapabilitySharing', () => {
       expect(emitted).toBe(true);
     });
   });
+
+  describe('delegation chains', () => {
+    it('verifies the chain from link to grant', async () => {
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        capability: 'edit',
+        audience: { type: 'anyone' },
+      });
+      await sharing.claimShareLink(link.uri, 'did:test:user1');
+
+      const check = await sharing.verifyCapability(
+        'did:test:user1',
+        'doc-1',
+        'edit'
+      );
+      expect(check.allowed).toBe(true);
+      expect(check.trace[0].chain!.map((hop) => hop.kind)).toEqual([
+        'link',
+        'grant',
+      ]);
+    });
+
+    it('rejects a hop that escalates', async () => {
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        capability: 'read',
+        audience: { type: 'anyone' },
+      });
+      const grant = await sharing.claimShareLink(link.uri, 'did:test:user1');
+
+      const verification = await sharing.verifyChain([
+        {
+          kind: 'link',
+          issuer: 'did:test:owner',
+          audience: '*',
+          resource: link.uri,
+          capability: 'read',
+          ucan: link.ucan,
+        },
+        {
+          kind: 'grant',
+          issuer: 'did:test:owner',
+          audience: 'did:test:user1',
+          resource: link.uri,
+          capability: 'admin',
+          ucan: JSON.stringify({
+            issuer: 'did:test:owner',
+            audience: 'did:test:user1',
+            resource: link.uri,
+            capability: 'admin',
+          }),
+        },
+      ]);
+      expect(verification).toMatchObject({
+        valid: false,
+        error: 'grant escalates read to admin',
+      });
+
+      // A forged record fails against its signed token
+      const forged = await sharing.verifyChain([
+        { ...verification.chain[1], capability: 'admin', ucan: grant!.ucan },
+      ]);
+      expect(forged.error).toBe('grant UCAN does not match its record');
+    });
+
+    it('cascades link revocation to claimed grants', async () => {
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        capability: 'edit',
+        audience: { type: 'anyone' },
+      });
+      const grant = await sharing.claimShareLink(link.uri, 'did:test:user1');
+      sharing.revokeShareLink(link.uri);
+
+      expect(sharing.getRevocations().map((r) => [r.ucan, r.cause])).toEqual([
+        [link.ucan, null],
+        [grant!.ucan, link.ucan],
+      ]);
+      expect(
+        sharing.explainCapability('did:test:user1', 'doc-1', 'read').trace[0]
+          .reason
+      ).toBe('revoked: share link revoked');
+    });
+
+    it('cascades membership revocation to grants claimed through it', async () => {
+      const group = await sharing.createGroup({ name: 'Team' });
+      await sharing.addGroupMember(group.id, 'did:test:m1', 'Alice', 'edit');
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        capability: 'edit',
+        audience: { type: 'group', groupId: group.id },
+      });
+      await sharing.claimShareLink(link.uri, 'did:test:m1');
+      expect(sharing.hasCapability('did:test:m1', 'doc-1', 'edit')).toBe(true);
+
+      sharing.removeGroupMember(group.id, 'did:test:m1');
+      expect(
+        sharing.explainCapability('did:test:m1', 'doc-1', 'edit').trace[0]
+          .reason
+      ).toBe('revoked: removed from Team');
+    });
+
+    it('audits who can edit a block and through which chain', async () => {
+      const group = await sharing.createGroup({ name: 'Editors' });
+      await sharing.addGroupMember(group.id, 'did:test:m1', 'Alice', 'edit');
+      await sharing.addGroupMember(group.id, 'did:test:m2', 'Bob', 'comment');
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: group.id,
+        capability: 'edit',
+      });
+      const link = await sharing.createShareLink({
+        documentId: 'doc-1',
+        blockId: 'intro',
+        capability: 'edit',
+        audience: { type: 'anyone' },
+      });
+      await sharing.claimShareLink(link.uri, 'did:test:user1');
+
+      const entries = await sharing.auditAccess('doc-1', 'edit', 'intro');
+      expect(
+        entries.map((e) => [e.did, e.path, e.chain.map((hop) => hop.kind)])
+      ).toEqual([
+        ['did:test:m1', 'group', ['grant', 'membership']],
+        ['did:test:user1', 'grant', ['link', 'grant']],
+      ]);
+
+      // The block link does not reach other blocks
+      expect(
+        (await sharing.auditAccess('doc-1', 'edit', 'outro')).map((e) => e.did)
+      ).toEqual(['did:test:m1']);
+    });
+
+    it('counts only verified chains in synchronous checks', async () => {
+      const group = await sharing.createGroup({ name: 'Reviewers' });
+      await sharing.addGroupMember(group.id, 'did:test:m1', 'Alice', 'comment');
+      await sharing.grantCapability({
+        documentId: 'doc-1',
+        audience: group.id,
+        capability: 'edit',
+      });
+      expect(sharing.hasCapability('did:test:m1', 'doc-1', 'comment')).toBe(
+        true
+      );
+
+      // Members added behind the engine's back hold nothing
+      const [stored] = sharing.getGroups();
+      (stored.members as GroupMember[]).push({
+        did: 'did:test:mallory',
+        name: 'Mallory',
+        capability: 'edit',
+        joinedAt: '2026-03-01T00:00:00Z',
+        delegationUcan: JSON.stringify({ issuer: 'did:test:mallory' }),
+      });
+      expect(sharing.hasCapability('did:test:mallory', 'doc-1', 'edit')).toBe(
+        false
+      );
+      expect(
+        sharing.explainCapability('did:test:mallory', 'doc-1', 'edit').trace[0]
+          .reason
+      ).toBe('delegation chain not verified');
+      expect(
+        (await sharing.verifyCapability('did:test:mallory', 'doc-1', 'edit'))
+          .trace[0].reason
+      ).toBe('membership UCAN does not match its record');
+    });
+
+    it('roots every chain at the document owner', async () => {
+      const forged = JSON.stringify({
+        issuer: 'did:test:mallory',
+        audience: 'did:test:mallory',
+        resource: 'aeon://doc/doc-1?cap=admin',
+        capability: 'admin',
+      });
+      expect(
+        await sharing.verifyChain([
+          {
+            kind: 'grant',
+            issuer: 'did:test:mallory',
+            audience: 'did:test:mallory',
+            resource: 'aeon://doc/doc-1?cap=admin',
+            capability: 'admin',
+            ucan: forged,
+          },
+        ])
+      ).toMatchObject({
+        valid: false,
+        error: 'grant is not issued by the owner did:test:owner',
+      });
+
+      // Grants by someone other than the owner never count
+      sharing = makeSharing({
+        documentOwner: (id) => (id === 'doc-2' ? 'did:test:alice' : undefined),
+      });
+      await sharing.grantCapability({
+        documentId: 'doc-2',
+        audience: 'did:test:user1',
+        capability: 'read',
+      });
+      expect(sharing.hasCapability('did:test:user1', 'doc-2', 'read')).toBe(
+        false
+      );
+      expect(
+        sharing.explainCapability('did:test:user1', 'doc-2', 'read').trace[0]
+          .reason
+      ).toBe('grant is not issued by the owner did:test:alice');
+    });
+  });
 });
@@ -14,6 +14,24 @@
  *   - A group is a DID that delegates to its members
  *   - Group membership is a UCAN from the group DID to the member DID
  *   - Capabilities flow: owner → group DID → member DIDs
+ *
+ * Every chain behind a grant is checked with `verifyUcan`: each hop
+ * must be signed as recorded, issued by the previous hop's audience,
+ * and may only narrow what it was given, and the first hop must be
+ * issued by the document's owner. Chains are verified when grants and
+ * memberships are created and again by `verifyCapability`; the
+ * synchronous checks only count grants whose chain verified as it
+ * stands now. Revoking a link or membership revokes every grant
+ * derived from it.
+ *
+ * Grants may carry caveats that narrow them:
+ *   time-window         "<start>/<end>" ISO-8601; either side may be empty
+ *   block-scope         comma-separated block IDs the grant is limited to
+ *   read-only-sections  comma-separated block IDs where it only grants read
+ *   max-uses            number of uses `useCapability` may spend on it
+ *
+ * Malformed caveats are rejected when a grant or link is created, and
+ * deny if one is met anyway.
  */
 
 // ── Types ───────────────────────────────────────────────────────────
@@ -57,6 +75,8 @@ export interface ShareLink {
   uses: number;
   /** Maximum uses (null = unlimited) */
   readonly maxUses: number | null;
+  /** Caveats carried by the grants claimed through this link */
+  readonly caveats: GrantCaveat[];
   /** Created timestamp */
   readonly createdAt: string;
   /** Creator DID */
@@ -115,6 +135,8 @@ export interface CapabilityGrant {
   readonly expiresAt: string | null;
   /** UCAN token */
   readonly ucan: string;
+  /** UCANs this grant was derived from (the link, group membership) */
+  readonly proofs: string[];
 }
 
 export interface GrantCaveat {
@@ -126,6 +148,68 @@ export interface GrantCaveat {
   readonly value: string;
 }
 
+/** One grant considered by a capability check */
+export interface CapabilityTraceStep {
+  /** `group` when the grant is held through group membership */
+  readonly path: 'grant' | 'group';
+  readonly grant: CapabilityGrant;
+  /** Group the member holds the grant through */
+  readonly groupId?: string;
+  readonly outcome: 'allowed' | 'denied';
+  /** Why the grant did or did not cover the request */
+  readonly reason: string;
+  /** Delegation chain behind the grant, when it was verified */
+  readonly chain?: DelegationHop[];
+}
+
+/** One delegation in the chain from the owner to a holder */
+export interface DelegationHop {
+  readonly kind: 'link' | 'grant' | 'membership';
+  readonly issuer: string;
+  readonly audience: string;
+  readonly resource: string;
+  readonly capability: Capability;
+  readonly ucan: string;
+}
+
+/** Result of verifying a delegation chain */
+export interface ChainVerification {
+  readonly valid: boolean;
+  readonly chain: DelegationHop[];
+  /** Capability left after every hop (null when invalid) */
+  readonly capability: Capability | null;
+  /** Why the chain is invalid */
+  readonly error?: string;
+}
+
+/** Record of a revoked UCAN */
+export interface RevocationRecord {
+  readonly ucan: string;
+  readonly revokedBy: string;
+  readonly revokedAt: string;
+  readonly reason: string;
+  /** UCAN whose revocation this one follows from (null = revoked directly) */
+  readonly cause: string | null;
+}
+
+/** Someone who holds a capability, and how */
+export interface AccessAuditEntry {
+  readonly did: string;
+  /** Capability they hold on the document or block */
+  readonly capability: Capability;
+  readonly path: 'grant' | 'group';
+  readonly groupId?: string;
+  /** Verified delegation chain, owner first */
+  readonly chain: DelegationHop[];
+}
+
+/** Result of a capability check, with the grants that decided it */
+export interface CapabilityCheck {
+  readonly allowed: boolean;
+  /** Grants considered, in order; the last step decided an allowed check */
+  readonly trace: CapabilityTraceStep[];
+}
+
 export interface SharingConfig {
   /** Function to create UCAN tokens */
   readonly createUcan: (params: {
@@ -145,8 +229,27 @@ export interface SharingConfig {
   }>;
   /** Current user's DID */
   readonly currentDid: string;
+  /**
+   * Owner of a document: every delegation chain on it must start with
+   * them (default: `currentDid`)
+   */
+  readonly documentOwner?: (documentId: string) => string | undefined;
+  /** Current time in epoch milliseconds (default: Date.now) */
+  readonly now?: () => number;
+}
+
+/** A grant held by a DID, directly or through a group */
+interface Holding {
+  readonly grant: CapabilityGrant;
+  readonly group?: Group;
+  readonly member?: GroupMember;
 }
 
+/** What a grant confers once its caveats apply */
+type GrantEvaluation =
+  | { readonly capability: Capability; readonly limits: string[] }
+  | { readonly denied: string };
+
 // ── Capability Sharing Engine ───────────────────────────────────────
 
 export class CapabilitySharing {
@@ -154,6 +257,9 @@ export class CapabilitySharing {
   private groups: Map<string, Group> = new Map();
   private links: Map<string, ShareLink> = new Map();
   private grants: Map<string, CapabilityGrant[]> = new Map(); // resource → grants
+  private grantUses: Map<CapabilityGrant, number> = new Map();
+  private revocations: Map<string, RevocationRecord> = new Map(); // by UCAN
+  private verifications: Map<string, ChainVerification> = new Map(); // by chain
   private listeners: Set<(event: SharingEvent) => void> = new Set();
 
   constructor(config: SharingConfig) {
@@ -172,7 +278,10 @@ export class CapabilitySharing {
     audience: ShareAudience;
     expiresAt?: string;
     maxUses?: number;
+    /** Caveats carried by the grants claimed through this link */
+    caveats?: GrantCaveat[];
   }): Promise<ShareLink> {
+    this.validateCaveats(params.caveats ?? []);
     const resource = this.buildResourceUri(
       params.documentId,
       params.blockId,
@@ -180,20 +289,9 @@ export class CapabilitySharing {
       params.audience
     );
 
-    const audienceStr =
-      params.audience.type === 'anyone'
-        ? '*'
-        : params.audience.type === 'did'
-        ? params.audience.did
-        : params.audience.type === 'group'
-        ? `group:${params.audience.groupId}`
-        : params.audience.type === 'email'
-        ? `email:${params.audience.email}`
-        : `domain:${params.audience.domain}`;
-
     const ucan = await this.config.createUcan({
       issuer: this.config.currentDid,
-      audience: audienceStr,
+      audience: this.audienceString(params.audience),
       resource,
       capability: params.capability,
       expiration: params.expiresAt
@@ -212,7 +310,8 @@ export class CapabilitySharing {
       active: true,
       uses: 0,
       maxUses: params.maxUses ?? null,
-      createdAt: new Date().toISOString(),
+      caveats: params.caveats ?? [],
+      createdAt: new Date(this.now()).toISOString(),
       creatorDid: this.config.currentDid,
     };
 
@@ -223,13 +322,14 @@ export class CapabilitySharing {
   }
 
   /**
-   * Revoke a share link.
+   * Revoke a share link, and every grant claimed from it.
    */
   revokeShareLink(uri: string): boolean {
     const link = this.links.get(uri);
     if (!link) return false;
     link.active = false;
     this.emit({ type: 'link-revoked', link });
+    this.revoke(link.ucan, 'share link revoked', null);
     return true;
   }
 
@@ -244,7 +344,7 @@ export class CapabilitySharing {
     if (!link || !link.active) return null;
 
     // Check expiration
-    if (link.expiresAt && new Date(link.expiresAt) < new Date()) {
+    if (link.expiresAt && Date.parse(link.expiresAt) < this.now()) {
       link.active = false;
       return null;
     }
@@ -268,20 +368,24 @@ export class CapabilitySharing {
       capability: link.capability,
     });
 
+    // A block link only ever grants that block
+    const caveats: GrantCaveat[] = link.blockId
+      ? [{ type: 'block-scope', value: link.blockId }, ...link.caveats]
+      : [...link.caveats];
+
     const grant: CapabilityGrant = {
       issuer: this.config.currentDid,
       audience: claimerDid,
       resource: link.uri,
       capability: link.capability,
-      caveats: [],
+      caveats,
       expiresAt: link.expiresAt,
       ucan: grantUcan,
+      proofs: [link.ucan, ...this.membershipProofs(link.audience, claimerDid)],
     };
 
-    // Store grant
-    const existing = this.grants.get(link.documentId) ?? [];
-    existing.push(grant);
-    this.grants.set(link.documentId, existing);
+    this.storeGrant(link.documentId, grant);
+    await this.verifyHoldings(link.documentId, grant);
 
     link.uses++;
     this.emit({ type: 'link-claimed', link, grant });
@@ -289,6 +393,57 @@ export class CapabilitySharing {
     return grant;
   }
 
+  /**
+   * Grant a capability on a document directly to a DID or group ID.
+   */
+  async grantCapability(params: {
+    documentId: string;
+    audience: string;
+    capability: Capability;
+    caveats?: GrantCaveat[];
+    expiresAt?: string;
+  }): Promise<CapabilityGrant> {
+    this.validateCaveats(params.caveats ?? []);
+    const resource = `aeon://doc/${params.documentId}?cap=${params.capability}`;
+    const ucan = await this.config.createUcan({
+      issuer: this.config.currentDid,
+      audience: params.audience,
+      resource,
+      capability: params.capability,
+      expiration: params.expiresAt
+        ? Math.floor(new Date(params.expiresAt).getTime() / 1000)
+        : undefined,
+    });
+
+    const grant: CapabilityGrant = {
+      issuer: this.config.currentDid,
+      audience: params.audience,
+      resource,
+      capability: params.capability,
+      caveats: params.caveats ?? [],
+      expiresAt: params.expiresAt ?? null,
+      ucan,
+      proofs: [],
+    };
+    this.storeGrant(params.documentId, grant);
+    await this.verifyHoldings(params.documentId, grant);
+    return grant;
+  }
+
+  /**
+   * Revoke a grant, and every grant derived from it.
+   */
+  revokeGrant(grant: CapabilityGrant, reason = 'grant revoked'): void {
+    this.revoke(grant.ucan, reason, null);
+  }
+
+  /**
+   * Get revocation records, oldest first.
+   */
+  getRevocations(): RevocationRecord[] {
+    return Array.from(this.revocations.values());
+  }
+
   // ── Groups ────────────────────────────────────────────────────
 
   /**
@@ -346,13 +501,20 @@ export class CapabilitySharing {
     };
 
     (group.members as GroupMember[]).push(member);
+    for (const [documentId, grants] of this.grants) {
+      for (const grant of grants) {
+        if (grant.audience !== groupId) continue;
+        await this.verifyHoldings(documentId, grant);
+      }
+    }
     this.emit({ type: 'member-added', group, member });
 
     return member;
   }
 
   /**
-   * Remove a member from a group.
+   * Remove a member from a group, revoking their membership and every
+   * grant derived from it.
    */
   removeGroupMember(groupId: string, memberDid: string): boolean {
     const group = this.groups.get(groupId);
@@ -364,6 +526,7 @@ export class CapabilitySharing {
     const member = group.members[index];
     (group.members as GroupMember[]).splice(index, 1);
     this.emit({ type: 'member-removed', group, member });
+    this.revoke(member.delegationUcan, `removed from ${group.name}`, null);
 
     return true;
   }
@@ -371,7 +534,11 @@ export class CapabilitySharing {
   // ── Capability Checking ───────────────────────────────────────
 
   /**
-   * Check if a DID has a specific capability on a resource.
+   * Check if a DID has a specific capability on a document, or on one
+   * block of it. Caveats apply: a block-scoped grant covers only its
+   * blocks, read-only sections cap a grant at read, time windows and
+   * expiry are checked against the configured clock. A check does not
+   * count as a use of any grant; see `useCapability`.
    */
   hasCapability(
     did: string,
@@ -382,71 +549,196 @@ export class CapabilitySharing {
     // Owner always has all capabilities
     // (In production, check the document's owner DID)
 
-    // Check direct grants
-    const docGrants = this.grants.get(documentId) ?? [];
-    for (const grant of docGrants) {
-      if (
-        grant.audience === did &&
-        this.capabilityIncludes(grant.capability, requiredCapability)
-      ) {
-        // Check expiration
-        if (grant.expiresAt && new Date(grant.expiresAt) < new Date()) continue;
-        return true;
-      }
+    return this.check(did, documentId, requiredCapability, blockId, false)
+      .allowed;
+  }
+
+  /**
+   * Spend one use of the grant that allows a capability, for an action
+   * that was actually taken. Returns whether a grant allowed it; once
+   * a `max-uses` grant is spent, it no longer allows anything.
+   */
+  useCapability(
+    did: string,
+    documentId: string,
+    requiredCapability: Capability,
+    blockId?: string
+  ): boolean {
+    return this.check(did, documentId, requiredCapability, blockId, true)
+      .allowed;
+  }
+
+  /**
+   * The decision `hasCapability` would make, with the grants that
+   * decided it. Does not count as a use of any grant.
+   */
+  explainCapability(
+    did: string,
+    documentId: string,
+    requiredCapability: Capability,
+    blockId?: string
+  ): CapabilityCheck {
+    return this.check(did, documentId, requiredCapability, blockId, false);
+  }
+
+  /**
+   * Like `hasCapability`, but each grant only counts once the UCAN
+   * chain behind it verifies: every hop signed as recorded, issued by
+   * the previous hop's audience, not revoked, and never granting more
+   * than it was given.
+   */
+  async verifyCapability(
+    did: string,
+    documentId: string,
+    requiredCapability: Capability,
+    blockId?: string
+  ): Promise<CapabilityCheck> {
+    const trace: CapabilityTraceStep[] = [];
+    for (const holding of this.holdings(did, documentId)) {
+      const verification = await this.verifyHolding(holding, documentId);
+      const step = this.decide(
+        holding,
+        this.attenuate(this.evaluateHolding(holding, blockId), verification),
+        requiredCapability
+      );
+      trace.push({ ...step, chain: verification.chain });
+      if (step.outcome === 'allowed') return { allowed: true, trace };
     }
+    return { allowed: false, trace };
+  }
 
-    // Check group memberships
-    for (const group of this.groups.values()) {
-      const member = group.members.find((m) => m.did === did);
-      if (!member) continue;
+  /**
+   * Who holds a capability on a document or block, and through which
+   * verified chain. Does not count as a use of any grant.
+   */
+  async auditAccess(
+    documentId: string,
+    requiredCapability: Capability,
+    blockId?: string
+  ): Promise<AccessAuditEntry[]> {
+    const holders = new Set<string>();
+    for (const grant of this.grants.get(documentId) ?? []) {
+      const group = this.groups.get(grant.audience);
+      if (!group) holders.add(grant.audience);
+      else for (const member of group.members) holders.add(member.did);
+    }
 
-      // Check if the group has a grant on this document
-      for (const grant of docGrants) {
+    const entries: AccessAuditEntry[] = [];
+    for (const did of holders) {
+      for (const holding of this.holdings(did, documentId)) {
+        const verification = await this.verifyHolding(holding, documentId);
+        const evaluation = this.attenuate(
+          this.evaluateHolding(holding, blockId),
+          verification
+        );
         if (
-          grant.audience === group.id &&
-          this.capabilityIncludes(grant.capability, requiredCapability)
+          'denied' in evaluation ||
+          !this.capabilityIncludes(evaluation.capability, requiredCapability)
         ) {
-          // Member capability must also cover the required capability
-          if (this.capabilityIncludes(member.capability, requiredCapability)) {
-            return true;
-          }
+          continue;
         }
+        entries.push({
+          did,
+          capability: evaluation.capability,
+          path: holding.member ? 'group' : 'grant',
+          groupId: holding.group?.id,
+          chain: verification.chain,
+        });
       }
     }
-
-    return false;
+    return entries;
   }
 
   /**
-   * Get the effective capability for a DID on a document.
+   * Verify a delegation chain, owner first, with `verifyUcan`. The
+   * first hop must be on a document (`documentId`, when given) and
+   * issued by its owner.
    */
-  getEffectiveCapability(did: string, documentId: string): Capability | null {
-    let maxLevel = -1;
+  async verifyChain(
+    chain: DelegationHop[],
+    documentId?: string
+  ): Promise<ChainVerification> {
+    const invalid = (error: string): ChainVerification => ({
+      valid: false,
+      chain,
+      capability: null,
+      error,
+    });
 
-    const docGrants = this.grants.get(documentId) ?? [];
-    for (const grant of docGrants) {
-      if (grant.audience === did) {
-        if (grant.expiresAt && new Date(grant.expiresAt) < new Date()) continue;
-        const level = CAPABILITY_HIERARCHY.indexOf(grant.capability);
-        if (level > maxLevel) maxLevel = level;
+    let capability: Capability | null = null;
+    for (const [i, hop] of chain.entries()) {
+      const revocation = this.revocations.get(hop.ucan);
+      if (revocation) {
+        return invalid(`${hop.kind} revoked: ${revocation.reason}`);
       }
-    }
 
-    // Check group memberships
-    for (const group of this.groups.values()) {
-      const member = group.members.find((m) => m.did === did);
-      if (!member) continue;
+      const token = await this.config.verifyUcan(hop.ucan);
+      if (!token.valid) return invalid(`${hop.kind} UCAN is invalid`);
+      if (
+        token.issuer !== hop.issuer ||
+        token.audience !== hop.audience ||
+        token.resource !== hop.resource ||
+        token.capability !== hop.capability
+      ) {
+        return invalid(`${hop.kind} UCAN does not match its record`);
+      }
 
-      for (const grant of docGrants) {
-        if (grant.audience === group.id) {
-          const grantLevel = CAPABILITY_HIERARCHY.indexOf(grant.capability);
-          const memberLevel = CAPABILITY_HIERARCHY.indexOf(member.capability);
-          const effectiveLevel = Math.min(grantLevel, memberLevel);
-          if (effectiveLevel > maxLevel) maxLevel = effectiveLevel;
+      const parent = chain[i - 1];
+      if (!parent) {
+        const rootDocument = documentOf(hop.resource);
+        if (rootDocument === null) {
+          return invalid(`${hop.kind} is not on a document`);
+        }
+        if (documentId !== undefined && rootDocument !== documentId) {
+          return invalid(
+            `${hop.kind} is on ${rootDocument}, not ${documentId}`
+          );
+        }
+        const owner = this.ownerOf(rootDocument);
+        if (hop.issuer !== owner) {
+          return invalid(`${hop.kind} is not issued by the owner ${owner}`);
+        }
+      }
+      if (!parent || capability === null) {
+        capability = hop.capability;
+      } else if (hop.kind === 'membership') {
+        // A membership is delegated by the group, for the group's grants
+        if (hop.issuer !== parent.audience) {
+          return invalid(`membership is not issued by ${parent.audience}`);
+        }
+        capability = this.minCapability(capability, hop.capability);
+      } else {
+        // A grant claimed from a link re-delegates the same resource
+        if (hop.issuer !== parent.issuer || hop.resource !== parent.resource) {
+          return invalid(`${hop.kind} is not derived from ${parent.kind}`);
         }
+        if (!this.capabilityIncludes(capability, hop.capability)) {
+          return invalid(
+            `${hop.kind} escalates ${capability} to ${hop.capability}`
+          );
+        }
+        capability = hop.capability;
       }
     }
+    return { valid: chain.length > 0, chain, capability };
+  }
 
+  /**
+   * Get the effective capability for a DID on a document, or on one
+   * block of it, after caveats. Does not count as a use of any grant.
+   */
+  getEffectiveCapability(
+    did: string,
+    documentId: string,
+    blockId?: string
+  ): Capability | null {
+    let maxLevel = -1;
+    for (const holding of this.holdings(did, documentId)) {
+      const evaluation = this.evaluateVerified(holding, blockId);
+      if ('denied' in evaluation) continue;
+      const level = CAPABILITY_HIERARCHY.indexOf(evaluation.capability);
+      if (level > maxLevel) maxLevel = level;
+    }
     return maxLevel >= 0 ? CAPABILITY_HIERARCHY[maxLevel] : null;
   }
 
@@ -476,6 +768,27 @@ export class CapabilitySharing {
 
   // ── Private ───────────────────────────────────────────────────
 
+  private check(
+    did: string,
+    documentId: string,
+    requiredCapability: Capability,
+    blockId: string | undefined,
+    consume: boolean
+  ): CapabilityCheck {
+    const trace: CapabilityTraceStep[] = [];
+    for (const holding of this.holdings(did, documentId)) {
+      const step = this.decide(
+        holding,
+        this.evaluateVerified(holding, blockId),
+        requiredCapability,
+        consume
+      );
+      trace.push(step);
+      if (step.outcome === 'allowed') return { allowed: true, trace };
+    }
+    return { allowed: false, trace };
+  }
+
   private buildResourceUri(
     documentId: string,
     blockId: string | undefined,
@@ -495,6 +808,21 @@ export class CapabilitySharing {
     return uri;
   }
 
+  private audienceString(audience: ShareAudience): string {
+    switch (audience.type) {
+      case 'anyone':
+        return '*';
+      case 'did':
+        return audience.did;
+      case 'group':
+        return `group:${audience.groupId}`;
+      case 'email':
+        return `email:${audience.email}`;
+      case 'domain':
+        return `domain:${audience.domain}`;
+    }
+  }
+
   private audienceMatches(
     audience: ShareAudience,
     claimerDid: string
@@ -515,6 +843,302 @@ export class CapabilitySharing {
     }
   }
 
+  private storeGrant(documentId: string, grant: CapabilityGrant): void {
+    const existing = this.grants.get(documentId) ?? [];
+    existing.push(grant);
+    this.grants.set(documentId, existing);
+  }
+
+  /**
+   * What a grant confers on a block (or the whole document) once its
+   * expiry and caveats apply. Unknown caveats deny.
+   */
+  private evaluateGrant(
+    grant: CapabilityGrant,
+    blockId: string | undefined
+  ): GrantEvaluation {
+    const revocation = this.revocations.get(grant.ucan);
+    if (revocation) return { denied: `revoked: ${revocation.reason}` };
+
+    const now = this.now();
+    if (grant.expiresAt && Date.parse(grant.expiresAt) < now) {
+      return { denied: `expired at ${grant.expiresAt}` };
+    }
+
+    let capability = grant.capability;
+    const limits: string[] = [];
+    for (const caveat of grant.caveats) {
+      const blocks = caveat.value.split(',');
+      switch (caveat.type) {
+        case 'time-window': {
+          const window = parseTimeWindow(caveat.value);
+          if (!window) {
+            return { denied: `malformed time window ${caveat.value}` };
+          }
+          if (now < window.start || now > window.end) {
+            return { denied: `outside time window ${caveat.value}` };
+          }
+          break;
+        }
+        case 'block-scope':
+          if (blockId === undefined) {
+            return {
+              denied: `scoped to blocks ${caveat.value}, not the document`,
+            };
+          }
+          if (!blocks.includes(blockId)) {
+            return { denied: `scoped to blocks ${caveat.value}` };
+          }
+          break;
+        case 'read-only-sections':
+          if (blockId !== undefined && blocks.includes(blockId)) {
+            capability = this.minCapability(capability, 'read');
+            limits.push(`block ${blockId} is read-only`);
+          }
+          break;
+        case 'max-uses': {
+          const max = parseMaxUses(caveat.value);
+          if (max === null) {
+            return { denied: `malformed max uses ${caveat.value}` };
+          }
+          const uses = this.grantUses.get(grant) ?? 0;
+          if (uses >= max) {
+            return { denied: `used ${uses} of ${caveat.value} times` };
+          }
+          break;
+        }
+        default:
+          return { denied: `unknown caveat ${(caveat as GrantCaveat).type}` };
+      }
+    }
+    return { capability, limits };
+  }
+
+  /** Throw on a caveat `evaluateGrant` could not apply */
+  private validateCaveats(caveats: GrantCaveat[]): void {
+    for (const { type, value } of caveats) {
+      const valid =
+        type === 'time-window'
+          ? parseTimeWindow(value) !== null
+          : type === 'max-uses'
+            ? parseMaxUses(value) !== null
+            : (type === 'block-scope' || type === 'read-only-sections') &&
+              value.split(',').every((id) => id.length > 0);
+      if (!valid) throw new Error(`Invalid ${type} caveat: ${value}`);
+    }
+  }
+
+  /** Grants a DID holds on a document: direct first, then via groups */
+  private holdings(did: string, documentId: string): Holding[] {
+    const docGrants = this.grants.get(documentId) ?? [];
+    const holdings: Holding[] = docGrants
+      .filter((grant) => grant.audience === did)
+      .map((grant) => ({ grant }));
+
+    for (const group of this.groups.values()) {
+      const member = group.members.find((m) => m.did === did);
+      if (!member) continue;
+      for (const grant of docGrants) {
+        if (grant.audience === group.id) {
+          holdings.push({ grant, group, member });
+        }
+      }
+    }
+    return holdings;
+  }
+
+  /** A grant's evaluation, limited by group membership if held that way */
+  private evaluateHolding(
+    { grant, group, member }: Holding,
+    blockId: string | undefined
+  ): GrantEvaluation {
+    const evaluation = this.evaluateGrant(grant, blockId);
+    if ('denied' in evaluation || !group || !member) return evaluation;
+    return {
+      capability: this.minCapability(evaluation.capability, member.capability),
+      limits: [
+        ...evaluation.limits,
+        `${member.capability} as member of ${group.name}`,
+      ],
+    };
+  }
+
+  /**
+   * A holding's evaluation, limited by the last verification of its
+   * chain. Chains never verified, or changed or revoked since, deny.
+   */
+  private evaluateVerified(
+    holding: Holding,
+    blockId: string | undefined
+  ): GrantEvaluation {
+    const evaluation = this.evaluateHolding(holding, blockId);
+    if ('denied' in evaluation) return evaluation;
+
+    const chain = this.chainFor(holding);
+    const verification = this.verifications.get(chainKey(chain));
+    if (!verification) return { denied: 'delegation chain not verified' };
+    for (const hop of chain) {
+      const revocation = this.revocations.get(hop.ucan);
+      if (revocation) {
+        return { denied: `${hop.kind} revoked: ${revocation.reason}` };
+      }
+    }
+    return this.attenuate(evaluation, verification);
+  }
+
+  /** Verify a holding's chain and remember the result */
+  private async verifyHolding(
+    holding: Holding,
+    documentId: string
+  ): Promise<ChainVerification> {
+    const chain = this.chainFor(holding);
+    const verification = await this.verifyChain(chain, documentId);
+    this.verifications.set(chainKey(chain), verification);
+    return verification;
+  }
+
+  /** Verify every way a grant is held: directly, or by each group member */
+  private async verifyHoldings(
+    documentId: string,
+    grant: CapabilityGrant
+  ): Promise<void> {
+    const group = this.groups.get(grant.audience);
+    const holdings: Holding[] = group
+      ? group.members.map((member) => ({ grant, group, member }))
+      : [{ grant }];
+    for (const holding of holdings) {
+      await this.verifyHolding(holding, documentId);
+    }
+  }
+
+  /** An evaluation, limited by what its delegation chain verified */
+  private attenuate(
+    evaluation: GrantEvaluation,
+    verification: ChainVerification
+  ): GrantEvaluation {
+    if ('denied' in evaluation) return evaluation;
+    if (!verification.valid || !verification.capability) {
+      return { denied: verification.error ?? 'empty delegation chain' };
+    }
+    return {
+      ...evaluation,
+      capability: this.minCapability(
+        evaluation.capability,
+        verification.capability
+      ),
+    };
+  }
+
+  /**
+   * Trace step for a holding. With `consume`, an allowed step uses the
+   * grant once.
+   */
+  private decide(
+    { grant, group }: Holding,
+    evaluation: GrantEvaluation,
+    required: Capability,
+    consume = false
+  ): CapabilityTraceStep {
+    const step = group
+      ? { path: 'group' as const, grant, groupId: group.id }
+      : { path: 'grant' as const, grant };
+    if ('denied' in evaluation) {
+      return { ...step, outcome: 'denied', reason: evaluation.denied };
+    }
+
+    const { capability, limits } = evaluation;
+    const reason = [`grants ${capability}`, ...limits].join(', ');
+    if (!this.capabilityIncludes(capability, required)) {
+      return {
+        ...step,
+        outcome: 'denied',
+        reason: `${reason}; ${required} required`,
+      };
+    }
+    if (consume) {
+      this.grantUses.set(grant, (this.grantUses.get(grant) ?? 0) + 1);
+    }
+    return { ...step, outcome: 'allowed', reason };
+  }
+
+  /** Delegation chain behind a holding, owner first */
+  private chainFor({ grant, group, member }: Holding): DelegationHop[] {
+    const chain: DelegationHop[] = [];
+    const link = Array.from(this.links.values()).find((l) =>
+      grant.proofs.includes(l.ucan)
+    );
+    if (link) {
+      chain.push({
+        kind: 'link',
+        issuer: link.creatorDid,
+        audience: this.audienceString(link.audience),
+        resource: link.uri,
+        capability: link.capability,
+        ucan: link.ucan,
+      });
+    }
+    chain.push({
+      kind: 'grant',
+      issuer: grant.issuer,
+      audience: grant.audience,
+      resource: grant.resource,
+      capability: grant.capability,
+      ucan: grant.ucan,
+    });
+    if (group && member) {
+      chain.push({
+        kind: 'membership',
+        issuer: group.id,
+        audience: member.did,
+        resource: `group:${group.id}`,
+        capability: member.capability,
+        ucan: member.delegationUcan,
+      });
+    }
+    return chain;
+  }
+
+  /** Membership UCANs a claim through a group link relies on */
+  private membershipProofs(audience: ShareAudience, did: string): string[] {
+    if (audience.type !== 'group') return [];
+    const member = this.groups
+      .get(audience.groupId)
+      ?.members.find((m) => m.did === did);
+    return member ? [member.delegationUcan] : [];
+  }
+
+  /** Revoke a UCAN and, in turn, every grant that cites it as proof */
+  private revoke(ucan: string, reason: string, cause: string | null): void {
+    if (this.revocations.has(ucan)) return;
+    const record: RevocationRecord = {
+      ucan,
+      revokedBy: this.config.currentDid,
+      revokedAt: new Date(this.now()).toISOString(),
+      reason,
+      cause,
+    };
+    this.revocations.set(ucan, record);
+    this.emit({ type: 'revoked', record });
+
+    for (const grants of this.grants.values()) {
+      for (const grant of grants) {
+        if (grant.proofs.includes(ucan)) this.revoke(grant.ucan, reason, ucan);
+      }
+    }
+  }
+
+  private minCapability(a: Capability, b: Capability): Capability {
+    return this.capabilityIncludes(a, b) ? b : a;
+  }
+
+  private now(): number {
+    return this.config.now?.() ?? Date.now();
+  }
+
+  private ownerOf(documentId: string): string {
+    return this.config.documentOwner?.(documentId) ?? this.config.currentDid;
+  }
+
   private capabilityIncludes(
     granted: Capability,
     required: Capability
@@ -529,6 +1153,35 @@ export class CapabilitySharing {
   }
 }
 
+// ── Chains ──────────────────────────────────────────────────────────
+
+/** Document ID of an `aeon://doc/...` resource, or null */
+function documentOf(resource: string): string | null {
+  return /^aeon:\/\/doc\/([^/?]+)/.exec(resource)?.[1] ?? null;
+}
+
+/** A chain's hops as recorded, to look up its last verification */
+function chainKey(chain: DelegationHop[]): string {
+  return JSON.stringify(chain);
+}
+
+// ── Caveat parsing ──────────────────────────────────────────────────
+
+/** "<start>/<end>" in epoch ms, open sides infinite; null if malformed */
+function parseTimeWindow(value: string): { start: number; end: number } | null {
+  const parts = value.split('/');
+  if (parts.length !== 2) return null;
+  const [start, end] = parts.map((part) => (part ? Date.parse(part) : null));
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+  return { start: start ?? -Infinity, end: end ?? Infinity };
+}
+
+/** A non-negative whole number of uses; null if malformed */
+function parseMaxUses(value: string): number | null {
+  const max = Number(value);
+  return value.trim() !== '' && Number.isInteger(max) && max >= 0 ? max : null;
+}
+
 // ── Events ──────────────────────────────────────────────────────────
 
 export type SharingEvent =
@@ -537,4 +1190,5 @@ export type SharingEvent =
   | { type: 'link-claimed'; link: ShareLink; grant: CapabilityGrant }
   | { type: 'group-created'; group: Group }
   | { type: 'member-added'; group: Group; member: GroupMember }
-  | { type: 'member-removed'; group: Group; member: GroupMember };
+  | { type: 'member-removed'; group: Group; member: GroupMember }
+  | { type: 'revoked'; record: RevocationRecord };
@@ -0,0 +1,203 @@
+/**
+ * Awareness — Ephemeral per-client state (cursors, names, activity)
+ *
+ * Compatible with the y-protocols awareness protocol: every client
+ * owns one JSON state and a clock. A state with a higher clock
+ * replaces the one we have; a null state means the client left.
+ * Nothing here is persisted or merged into the document.
+ */
+
+import { Decoder, Encoder } from './encoding';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type AwarenessState = Record<string, unknown>;
+
+export interface AwarenessChange {
+  readonly added: number[];
+  readonly updated: number[];
+  readonly removed: number[];
+}
+
+/**
+ * `change`: some client's state changed.
+ * `update`: some client's clock advanced (even with the same state);
+ * this is what gets broadcast.
+ */
+export type AwarenessEventName = 'change' | 'update';
+
+export type AwarenessListener = (
+  change: AwarenessChange,
+  origin: unknown
+) => void;
+
+// ── Awareness ───────────────────────────────────────────────────────
+
+export class Awareness {
+  readonly clientID: number;
+  private states: Map<number, AwarenessState> = new Map();
+  private clocks: Map<number, number> = new Map();
+  private listeners: Record<AwarenessEventName, Set<AwarenessListener>> = {
+    change: new Set(),
+    update: new Set(),
+  };
+
+  constructor(clientID: number = randomClientId()) {
+    this.clientID = clientID;
+    this.clocks.set(clientID, 0);
+    this.states.set(clientID, {});
+  }
+
+  // ── Local state ───────────────────────────────────────────────
+
+  getLocalState(): AwarenessState | null {
+    return this.states.get(this.clientID) ?? null;
+  }
+
+  /** Replace the local state; `null` announces that we left */
+  setLocalState(state: AwarenessState | null): void {
+    const previous = this.states.get(this.clientID);
+    this.clocks.set(this.clientID, (this.clocks.get(this.clientID) ?? 0) + 1);
+    if (state === null) this.states.delete(this.clientID);
+    else this.states.set(this.clientID, state);
+
+    const change: AwarenessChange = {
+      added: !previous && state ? [this.clientID] : [],
+      updated: previous && state ? [this.clientID] : [],
+      removed: previous && !state ? [this.clientID] : [],
+    };
+    const changed =
+      change.added.length > 0 ||
+      change.removed.length > 0 ||
+      (state !== null && !sameState(previous, state));
+    if (changed) this.emit('change', change, 'local');
+    this.emit('update', change, 'local');
+  }
+
+  setLocalStateField(field: string, value: unknown): void {
+    const state = this.getLocalState();
+    if (state) this.setLocalState({ ...state, [field]: value });
+  }
+
+  /** Every known client's state, including our own */
+  getStates(): Map<number, AwarenessState> {
+    return this.states;
+  }
+
+  // ── Events ────────────────────────────────────────────────────
+
+  on(event: AwarenessEventName, listener: AwarenessListener): void {
+    this.listeners[event].add(listener);
+  }
+
+  off(event: AwarenessEventName, listener: AwarenessListener): void {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit(
+    event: AwarenessEventName,
+    change: AwarenessChange,
+    origin: unknown
+  ): void {
+    for (const listener of this.listeners[event]) {
+      listener(change, origin);
+    }
+  }
+
+  // ── Remote states ─────────────────────────────────────────────
+
+  /**
+   * Forget remote clients, e.g. after losing the connection they
+   * were reached through. Our own state is never removed here.
+   */
+  removeStates(clients: number[], origin: unknown): void {
+    const removed: number[] = [];
+    for (const client of clients) {
+      if (client === this.clientID || !this.states.has(client)) continue;
+      this.states.delete(client);
+      removed.push(client);
+    }
+    if (removed.length === 0) return;
+    const change = { added: [], updated: [], removed };
+    this.emit('change', change, origin);
+    this.emit('update', change, origin);
+  }
+
+  /** Encode the given clients' states (default: all known clients) */
+  encodeUpdate(clients: number[] = Array.from(this.clocks.keys())): Uint8Array {
+    const encoder = new Encoder().writeVarUint(clients.length);
+    for (const client of clients) {
+      encoder
+        .writeVarUint(client)
+        .writeVarUint(this.clocks.get(client) ?? 0)
+        .writeVarString(JSON.stringify(this.states.get(client) ?? null));
+    }
+    return encoder.toUint8Array();
+  }
+
+  applyUpdate(update: Uint8Array, origin: unknown): void {
+    const decoder = new Decoder(update);
+    const added: number[] = [];
+    const updated: number[] = [];
+    const removed: number[] = [];
+    const touched: number[] = [];
+
+    const count = decoder.readVarUint();
+    for (let i = 0; i < count; i++) {
+      const client = decoder.readVarUint();
+      const clock = decoder.readVarUint();
+      const state = JSON.parse(
+        decoder.readVarString()
+      ) as AwarenessState | null;
+      const current = this.clocks.get(client) ?? 0;
+      const previous = this.states.get(client);
+
+      // Equal clocks only matter for the "left" message
+      const newer =
+        clock > current || (clock === current && state === null && !!previous);
+      if (!newer) continue;
+
+      if (client === this.clientID) {
+        // Someone announced us as gone; we are still here
+        if (state === null && previous) {
+          this.clocks.set(client, clock);
+          this.setLocalState(previous);
+        }
+        continue;
+      }
+
+      this.clocks.set(client, clock);
+      if (state === null) this.states.delete(client);
+      else this.states.set(client, state);
+
+      if (!previous && state) added.push(client);
+      else if (previous && !state) removed.push(client);
+      else if (state && !sameState(previous, state)) updated.push(client);
+      touched.push(client);
+    }
+
+    if (added.length > 0 || updated.length > 0 || removed.length > 0) {
+      this.emit('change', { added, updated, removed }, origin);
+    }
+    if (touched.length > 0) {
+      // Clients whose clock advanced count as updated, even if unchanged
+      const renewed = touched.filter(
+        (c) => !added.includes(c) && !removed.includes(c)
+      );
+      this.emit('update', { added, updated: renewed, removed }, origin);
+    }
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function randomClientId(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+function sameState(
+  a: AwarenessState | undefined,
+  b: AwarenessState | undefined
+): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,105 @@
+/**
+ * PendingUpdateStore — Local edits not yet delivered to a peer
+ *
+ * Every local update is written here before it is sent and removed
+ * once a sync handshake has delivered it. After a reload, the stored
+ * updates are applied to the fresh document again, so offline edits
+ * survive until the next successful connection.
+ */
+
+import type { KeyValueBackend } from '../revisions/RevisionStore';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface PendingUpdate {
+  /** Increasing sequence number, in the order the edits were made */
+  readonly seq: number;
+  readonly update: Uint8Array;
+  readonly createdAt: number;
+}
+
+/** Pluggable persistence for undelivered updates */
+export interface PendingUpdateStore {
+  /** All pending updates, oldest first */
+  list(): Promise<PendingUpdate[]>;
+  /** Record an update; returns its sequence number */
+  append(update: Uint8Array, createdAt: number): Promise<number>;
+  /** Drop updates up to and including `seq` */
+  acknowledge(seq: number): Promise<void>;
+}
+
+// ── In-memory Store ─────────────────────────────────────────────────
+
+export class MemoryPendingUpdateStore implements PendingUpdateStore {
+  private updates: PendingUpdate[] = [];
+  private nextSeq = 1;
+
+  async list(): Promise<PendingUpdate[]> {
+    return this.updates.slice();
+  }
+
+  async append(update: Uint8Array, createdAt: number): Promise<number> {
+    const seq = this.nextSeq++;
+    this.updates.push({ seq, update, createdAt });
+    return seq;
+  }
+
+  async acknowledge(seq: number): Promise<void> {
+    this.updates = this.updates.filter((u) => u.seq > seq);
+  }
+}
+
+// ── Key/Value Store ─────────────────────────────────────────────────
+
+const PENDING_PREFIX = 'pending/';
+
+/**
+ * Pending updates on top of a key/value backend (e.g. IndexedDB).
+ * Sequence numbers are zero-padded in the key so they sort as stored.
+ */
+export class KeyValuePendingUpdateStore implements PendingUpdateStore {
+  private backend: KeyValueBackend;
+  private namespace: string;
+  private lastSeq: number | null = null;
+
+  constructor(backend: KeyValueBackend, namespace: string = '') {
+    this.backend = backend;
+    this.namespace = namespace ? `${namespace}/` : '';
+  }
+
+  async list(): Promise<PendingUpdate[]> {
+    const keys = (await this.backend.keys(this.prefix)).sort();
+    const updates: PendingUpdate[] = [];
+    for (const key of keys) {
+      const value = await this.backend.get(key);
+      if (value) updates.push(value as PendingUpdate);
+    }
+    return updates;
+  }
+
+  async append(update: Uint8Array, createdAt: number): Promise<number> {
+    if (this.lastSeq === null) {
+      const existing = await this.list();
+      this.lastSeq = existing.length ? existing[existing.length - 1].seq : 0;
+    }
+    const seq = ++this.lastSeq;
+    await this.backend.put(this.key(seq), { seq, update, createdAt });
+    return seq;
+  }
+
+  async acknowledge(seq: number): Promise<void> {
+    for (const key of await this.backend.keys(this.prefix)) {
+      if (Number(key.slice(this.prefix.length)) <= seq) {
+        await this.backend.delete(key);
+      }
+    }
+  }
+
+  private get prefix(): string {
+    return `${this.namespace}${PENDING_PREFIX}`;
+  }
+
+  private key(seq: number): string {
+    return `${this.prefix}${String(seq).padStart(12, '0')}`;
+  }
+}
@@ -0,0 +1,434 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SyncProvider, type SyncableDocument } from './SyncProvider';
+import { SyncHub, WebSocketTransport, type WebSocketLike } from './transports';
+import { KeyValuePendingUpdateStore } from './PendingUpdateStore';
+import { encodeSyncStep1 } from './protocol';
+import type { KeyValueBackend } from '../revisions/RevisionStore';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+type UpdateHandler = (update: Uint8Array, origin: unknown) => void;
+
+/**
+ * Stand-in for AeonDocument: a grow-only map of entries. The state
+ * vector lists known keys and an update carries the entries a peer
+ * lacks, which is all the provider relies on.
+ */
+class FakeDocument implements SyncableDocument {
+  entries: Map<string, string> = new Map();
+  authors: string[] = [];
+  private handlers: Set<UpdateHandler> = new Set();
+
+  readonly ydoc = {
+    on: (_event: 'update', handler: UpdateHandler) => {
+      this.handlers.add(handler);
+    },
+    off: (_event: 'update', handler: UpdateHandler) => {
+      this.handlers.delete(handler);
+    },
+  };
+
+  set(key: string, value: string): void {
+    this.merge([[key, value]], 'local');
+  }
+
+  getState(): Uint8Array {
+    return encode(Array.from(this.entries));
+  }
+
+  getStateVector(): Uint8Array {
+    return encode(Array.from(this.entries.keys()));
+  }
+
+  getDelta(stateVector: Uint8Array): Uint8Array {
+    const known = new Set(decode<string[]>(stateVector));
+    return encode(Array.from(this.entries).filter(([key]) => !known.has(key)));
+  }
+
+  applyUpdate(update: Uint8Array, authorDid = ''): void {
+    const entries = decode<[string, string][]>(update);
+    if (entries.some(([key]) => key.startsWith('locked'))) {
+      throw new Error(`Rejected remote update from ${authorDid}`);
+    }
+    this.authors.push(authorDid);
+    this.merge(entries, null);
+  }
+
+  private merge(entries: [string, string][], origin: unknown): void {
+    const added = entries.filter(([key]) => !this.entries.has(key));
+    if (added.length === 0) return;
+    for (const [key, value] of added) this.entries.set(key, value);
+    for (const handler of this.handlers) handler(encode(added), origin);
+  }
+}
+
+function encode(value: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(value));
+}
+
+function decode<T>(data: Uint8Array): T {
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+}
+
+function mapBackend(map: Map<string, unknown> = new Map()): KeyValueBackend {
+  return {
+    get: async (key) => map.get(key),
+    put: async (key, value) => {
+      map.set(key, value);
+    },
+    delete: async (key) => {
+      map.delete(key);
+    },
+    keys: async (prefix) =>
+      Array.from(map.keys()).filter((k) => k.startsWith(prefix)),
+  };
+}
+
+/** Let MessageChannel deliveries and store operations settle */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+const providers: SyncProvider[] = [];
+
+function provider(
+  document: SyncableDocument,
+  hub: SyncHub,
+  options: ConstructorParameters<typeof SyncProvider>[2] = {}
+): SyncProvider {
+  const p = new SyncProvider(document, hub.transport(), {
+    reconnect: false,
+    ...options,
+  });
+  providers.push(p);
+  return p;
+}
+
+afterEach(() => {
+  for (const p of providers.splice(0)) p.destroy();
+});
+
+// ── Sync ────────────────────────────────────────────────────────────
+
+describe('SyncProvider', () => {
+  it('exchanges state on connect and reports synced', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    const b = new FakeDocument();
+    a.set('title', 'Hello');
+    b.set('body', 'World');
+
+    const pa = provider(a, hub);
+    await settle();
+    const pb = provider(b, hub);
+    await pb.whenSynced();
+    await settle();
+
+    expect(pb.status).toBe('synced');
+    expect(pa.status).toBe('synced');
+    expect(Object.fromEntries(a.entries)).toEqual({
+      title: 'Hello',
+      body: 'World',
+    });
+    expect(Object.fromEntries(b.entries)).toEqual(
+      Object.fromEntries(a.entries)
+    );
+  });
+
+  it('sends local edits without echoing remote ones', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    const b = new FakeDocument();
+    provider(a, hub);
+    await settle();
+    provider(b, hub, { remoteAuthorDid: 'did:key:alice' });
+    await settle();
+
+    const applied = vi.spyOn(a, 'applyUpdate');
+    a.set('title', 'Draft');
+    await settle();
+
+    expect(b.entries.get('title')).toBe('Draft');
+    expect(b.authors).toContain('did:key:alice');
+    expect(applied).not.toHaveBeenCalled();
+  });
+
+  it('reports rejected remote updates and keeps going', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    const b = new FakeDocument();
+    provider(a, hub);
+    await settle();
+    const pb = provider(b, hub);
+    await settle();
+
+    const events: string[] = [];
+    pb.on((event) => events.push(event.type));
+    a.set('locked-title', 'Nope');
+    a.set('title', 'Fine');
+    await settle();
+
+    expect(events).toContain('update-rejected');
+    expect(b.entries.has('locked-title')).toBe(false);
+    expect(b.entries.get('title')).toBe('Fine');
+  });
+
+  it('does not report synced when the peer state is rejected', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    a.set('locked-title', 'Nope');
+    provider(a, hub);
+    await settle();
+    const pb = provider(new FakeDocument(), hub);
+    const events: string[] = [];
+    pb.on((event) => events.push(event.type));
+    await settle();
+
+    expect(events).toContain('update-rejected');
+    expect(pb.status).toBe('connected');
+  });
+
+  it('emits connection-state changes', async () => {
+    const hub = new SyncHub();
+    const doc = new FakeDocument();
+    const p = provider(doc, hub, { connect: false });
+    const statuses: string[] = [];
+    p.on((event) => {
+      if (event.type === 'status') statuses.push(event.status);
+    });
+
+    await p.connect();
+    provider(new FakeDocument(), hub);
+    await settle();
+    hub.setOnline(false);
+    await settle();
+
+    expect(statuses).toEqual([
+      'connecting',
+      'connected',
+      'synced',
+      'disconnected',
+    ]);
+  });
+
+  it('backs off between failed connection attempts', async () => {
+    vi.useFakeTimers();
+    try {
+      const hub = new SyncHub();
+      hub.setOnline(false);
+      const retries: (number | null)[] = [];
+      const p = provider(new FakeDocument(), hub, {
+        connect: false,
+        reconnect: { initialDelayMs: 100, maxDelayMs: 300 },
+      });
+      p.on((event) => {
+        if (event.type === 'connection-error') retries.push(event.retryInMs);
+      });
+
+      await p.connect();
+      await vi.advanceTimersByTimeAsync(100);
+      await vi.advanceTimersByTimeAsync(200);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(retries).toEqual([100, 200, 300, 300]);
+
+      p.disconnect();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(retries).toHaveLength(4);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+// ── Offline edits ───────────────────────────────────────────────────
+
+describe('SyncProvider offline edits', () => {
+  it('replays edits made while offline on reconnect', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    const b = new FakeDocument();
+    const pa = provider(a, hub);
+    await settle();
+    const pb = provider(b, hub);
+    await settle();
+
+    hub.setOnline(false);
+    await settle();
+    a.set('offline', 'edit');
+    expect(await pa.getPendingUpdates()).toHaveLength(1);
+
+    hub.setOnline(true);
+    await pb.connect();
+    await settle();
+    await pa.connect();
+    await settle();
+
+    expect(b.entries.get('offline')).toBe('edit');
+    expect(await pa.getPendingUpdates()).toHaveLength(0);
+  });
+
+  it('restores persisted edits into a fresh document', async () => {
+    const backend = mapBackend();
+    const hub = new SyncHub();
+    hub.setOnline(false);
+
+    const before = new FakeDocument();
+    const first = provider(before, hub, {
+      pending: new KeyValuePendingUpdateStore(backend, 'doc-1'),
+    });
+    before.set('offline', 'edit');
+    expect(await first.getPendingUpdates()).toHaveLength(1);
+    first.destroy();
+
+    // A reload: new document, same backend
+    const after = new FakeDocument();
+    const second = provider(after, hub, {
+      connect: false,
+      localDid: 'did:key:me',
+      pending: new KeyValuePendingUpdateStore(backend, 'doc-1'),
+    });
+    await second.connect();
+
+    expect(after.entries.get('offline')).toBe('edit');
+    expect(after.authors).toEqual(['did:key:me']);
+    expect(await second.getPendingUpdates()).toHaveLength(1);
+  });
+
+  it('skips persisted edits the document rejects', async () => {
+    const backend = mapBackend();
+    const hub = new SyncHub();
+    hub.setOnline(false);
+
+    const before = new FakeDocument();
+    const first = provider(before, hub, {
+      pending: new KeyValuePendingUpdateStore(backend, 'doc-1'),
+    });
+    before.set('locked-title', 'Nope');
+    before.set('offline', 'edit');
+    await first.getPendingUpdates();
+    first.destroy();
+
+    const after = new FakeDocument();
+    const second = provider(after, hub, {
+      connect: false,
+      pending: new KeyValuePendingUpdateStore(backend, 'doc-1'),
+    });
+    const events: string[] = [];
+    second.on((event) => events.push(event.type));
+    await second.connect();
+    expect(events).toContain('update-rejected');
+    expect(after.entries.get('offline')).toBe('edit');
+    expect(after.entries.has('locked-title')).toBe(false);
+
+    // Still connects, and never sends the rejected edit
+    hub.setOnline(true);
+    const peer = new FakeDocument();
+    provider(peer, hub);
+    await settle();
+    await second.connect();
+    await second.whenSynced();
+    await settle();
+    expect(peer.entries.get('offline')).toBe('edit');
+    expect(peer.entries.has('locked-title')).toBe(false);
+    expect(await second.getPendingUpdates()).toHaveLength(0);
+  });
+
+  it('does not persist edits made while synced', async () => {
+    const hub = new SyncHub();
+    const a = new FakeDocument();
+    provider(a, hub);
+    await settle();
+    const pb = provider(new FakeDocument(), hub);
+    await pb.whenSynced();
+
+    const c = new FakeDocument();
+    const pending = new KeyValuePendingUpdateStore(mapBackend());
+    const pc = provider(c, hub, { pending });
+    await pc.whenSynced();
+    c.set('online', 'edit');
+    await settle();
+
+    expect(a.entries.get('online')).toBe('edit');
+    expect(await pending.list()).toHaveLength(0);
+  });
+});
+
+// ── Awareness ───────────────────────────────────────────────────────
+
+describe('SyncProvider awareness', () => {
+  it('shares awareness and forgets peers on disconnect', async () => {
+    const hub = new SyncHub();
+    const pa = provider(new FakeDocument(), hub);
+    await settle();
+    const pb = provider(new FakeDocument(), hub);
+    await settle();
+
+    pa.awareness.setLocalStateField('user', { name: 'Alice' });
+    await settle();
+    expect(pb.awareness.getStates().get(pa.awareness.clientID)).toEqual({
+      user: { name: 'Alice' },
+    });
+
+    hub.setOnline(false);
+    await settle();
+    expect(pb.awareness.getStates().has(pa.awareness.clientID)).toBe(false);
+    expect(pb.awareness.getStates().has(pb.awareness.clientID)).toBe(true);
+  });
+});
+
+// ── WebSocket ───────────────────────────────────────────────────────
+
+describe('WebSocketTransport', () => {
+  function fakeSocket(): WebSocketLike & { sent: Uint8Array[] } {
+    return {
+      binaryType: 'blob',
+      onopen: null,
+      onmessage: null,
+      onclose: null,
+      onerror: null,
+      sent: [],
+      send(data) {
+        this.sent.push(data);
+      },
+      close() {
+        this.onclose?.({});
+      },
+    };
+  }
+
+  it('opens a binary socket and relays messages', async () => {
+    const socket = fakeSocket();
+    const transport = new WebSocketTransport(
+      'wss://sync.test/doc',
+      () => socket
+    );
+    const onMessage = vi.fn();
+    const onClose = vi.fn();
+
+    const connecting = transport.connect({ onMessage, onClose });
+    socket.onopen?.({});
+    const connection = await connecting;
+
+    expect(socket.binaryType).toBe('arraybuffer');
+    connection.send(encodeSyncStep1(new Uint8Array([1])));
+    expect(socket.sent).toHaveLength(1);
+
+    socket.onmessage?.({ data: new Uint8Array([0, 0, 0]).buffer });
+    expect(onMessage).toHaveBeenCalledWith(new Uint8Array([0, 0, 0]));
+
+    socket.onclose?.({});
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the socket fails before opening', async () => {
+    const socket = fakeSocket();
+    const transport = new WebSocketTransport(
+      'wss://sync.test/doc',
+      () => socket
+    );
+    const connecting = transport.connect({
+      onMessage: vi.fn(),
+      onClose: vi.fn(),
+    });
+    socket.onerror?.({});
+    await expect(connecting).rejects.toThrow('WebSocket error');
+  });
+});
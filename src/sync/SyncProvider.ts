@@ -0,0 +1,480 @@
+/**
+ * SyncProvider — Keeps an AeonDocument in sync over a transport
+ *
+ * Speaks the y-protocols sync and awareness messages over any
+ * `SyncTransport`:
+ *
+ *   connect     send step1 (our state vector) and our awareness state,
+ *               then replay edits made while offline
+ *   step1       reply with step2: the updates the peer is missing
+ *               (and with our own step1 while not yet synced)
+ *   step2       apply; the first one marks the provider `synced`
+ *   update      apply; local edits are sent as they happen
+ *
+ * Edits made while not synced are written to the pending-update store
+ * and dropped once a handshake has delivered them. A CRDT update only
+ * applies on top of its author's earlier updates, so the first edit
+ * stored after a sync is the whole delta since that sync (or the full
+ * state if we never synced); later edits are stored as they come.
+ * Edits made while synced are sent right away; if the connection turns
+ * out to be dead, the next handshake sends them again from the
+ * document itself.
+ *
+ * Remote updates go through `AeonDocument.applyUpdate`, so schema
+ * validation and authorization apply to them as to any remote update.
+ */
+
+import { Awareness, type AwarenessChange } from './Awareness';
+import {
+  decodeMessage,
+  encodeAwarenessMessage,
+  encodeSyncStep1,
+  encodeSyncStep2,
+  encodeSyncUpdate,
+  type SyncMessage,
+} from './protocol';
+import {
+  MemoryPendingUpdateStore,
+  type PendingUpdateStore,
+} from './PendingUpdateStore';
+import type { SyncConnection, SyncTransport } from './transports';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** The parts of `AeonDocument` the provider uses */
+export interface SyncableDocument {
+  readonly ydoc: {
+    on(
+      event: 'update',
+      handler: (update: Uint8Array, origin: unknown) => void
+    ): void;
+    off(
+      event: 'update',
+      handler: (update: Uint8Array, origin: unknown) => void
+    ): void;
+  };
+  getState(): Uint8Array;
+  getStateVector(): Uint8Array;
+  getDelta(stateVector: Uint8Array): Uint8Array;
+  applyUpdate(update: Uint8Array, authorDid?: string): void;
+}
+
+/**
+ * - `disconnected`: no connection; a reconnect may be scheduled
+ * - `connecting`: waiting for the transport
+ * - `connected`: handshake sent, no reply yet
+ * - `synced`: the peer's state has been received and applied
+ */
+export type SyncStatus = 'disconnected' | 'connecting' | 'connected' | 'synced';
+
+export type SyncEvent =
+  | { type: 'status'; status: SyncStatus; previous: SyncStatus }
+  | {
+      type: 'connection-error';
+      error: Error;
+      /** Delay before the next attempt; null when not reconnecting */
+      retryInMs: number | null;
+    }
+  | { type: 'update-rejected'; error: Error }
+  /** The pending-update store failed to read or write */
+  | { type: 'persistence-error'; error: Error }
+  | { type: 'pending-replayed'; count: number }
+  | { type: 'pending-delivered'; count: number };
+
+export type SyncListener = (event: SyncEvent) => void;
+
+export interface ReconnectConfig {
+  /** Delay before the first retry (default: 1000) */
+  initialDelayMs: number;
+  /** Retries back off exponentially up to this delay (default: 30000) */
+  maxDelayMs: number;
+}
+
+export interface SyncProviderOptions {
+  /** Awareness to exchange with peers (default: a new instance) */
+  awareness?: Awareness;
+  /** Where undelivered local edits are kept (default: in memory) */
+  pending?: PendingUpdateStore;
+  /**
+   * DID that remote updates are authorized as, when the peer is that
+   * author rather than a relay for several (default: not screened)
+   */
+  remoteAuthorDid?: string;
+  /** DID of the local user, used when restoring persisted edits */
+  localDid?: string;
+  /** Connect on construction (default: true) */
+  connect?: boolean;
+  /** Retry policy after a failed or lost connection; false disables */
+  reconnect?: Partial<ReconnectConfig> | false;
+  /** Clock for pending-update timestamps (default: Date.now) */
+  now?: () => number;
+}
+
+const DEFAULT_RECONNECT: ReconnectConfig = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// ── Provider ────────────────────────────────────────────────────────
+
+export class SyncProvider {
+  readonly awareness: Awareness;
+  private document: SyncableDocument;
+  private transport: SyncTransport;
+  private pending: PendingUpdateStore;
+  private remoteAuthorDid: string | undefined;
+  private localDid: string | undefined;
+  private reconnect: ReconnectConfig | null;
+  private now: () => number;
+
+  private connection: SyncConnection | null = null;
+  private currentStatus: SyncStatus = 'disconnected';
+  private listeners: Set<SyncListener> = new Set();
+  /** Whether the user wants to be connected */
+  private shouldConnect = false;
+  private attempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private applyingRemote = false;
+  /** Our state vector when the peer last had all of our state */
+  private baseline: Uint8Array | null = null;
+  /** Whether this session has stored the delta since the baseline */
+  private storedBaseDelta = false;
+  /** Awareness clients reached through the current connection */
+  private remoteClients: Set<number> = new Set();
+  /** Store operations run one at a time, in order */
+  private storeQueue: Promise<void> = Promise.resolve();
+  private restored = false;
+  /** Persisted edits the document rejected on restore, by sequence */
+  private rejectedPending: Set<number> = new Set();
+  private destroyed = false;
+
+  constructor(
+    document: SyncableDocument,
+    transport: SyncTransport,
+    options: SyncProviderOptions = {}
+  ) {
+    this.document = document;
+    this.transport = transport;
+    this.awareness = options.awareness ?? new Awareness();
+    this.pending = options.pending ?? new MemoryPendingUpdateStore();
+    this.remoteAuthorDid = options.remoteAuthorDid;
+    this.localDid = options.localDid;
+    this.reconnect =
+      options.reconnect === false
+        ? null
+        : { ...DEFAULT_RECONNECT, ...options.reconnect };
+    this.now = options.now ?? Date.now;
+
+    this.document.ydoc.on('update', this.handleDocumentUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+
+    if (options.connect !== false) void this.connect();
+  }
+
+  get status(): SyncStatus {
+    return this.currentStatus;
+  }
+
+  get synced(): boolean {
+    return this.currentStatus === 'synced';
+  }
+
+  on(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Resolves once the provider is synced (immediately if it is) */
+  whenSynced(): Promise<void> {
+    if (this.synced) return Promise.resolve();
+    return new Promise((resolve) => {
+      const off = this.on((event) => {
+        if (event.type === 'status' && event.status === 'synced') {
+          off();
+          resolve();
+        }
+      });
+    });
+  }
+
+  /** Local edits not yet delivered to a peer */
+  async getPendingUpdates(): Promise<Uint8Array[]> {
+    await this.storeQueue;
+    return (await this.pending.list()).map((p) => p.update);
+  }
+
+  // ── Connection ────────────────────────────────────────────────
+
+  /**
+   * Connect (or reconnect) to the peer. Persisted edits from an
+   * earlier session are applied to the document first.
+   */
+  async connect(): Promise<void> {
+    if (this.destroyed) throw new Error('SyncProvider is destroyed');
+    this.shouldConnect = true;
+    this.clearRetry();
+    if (this.connection || this.currentStatus === 'connecting') return;
+
+    this.setStatus('connecting');
+    try {
+      if (!this.restored) {
+        await this.restorePending();
+        this.restored = true;
+      }
+      const connection = await this.transport.connect({
+        onMessage: (data) => this.handleMessage(connection, data),
+        onClose: (error) => this.handleClose(connection, error),
+      });
+      if (!this.shouldConnect) {
+        // disconnect() was called while we were connecting
+        connection.close();
+        this.setStatus('disconnected');
+        return;
+      }
+      this.connection = connection;
+      this.attempts = 0;
+      this.setStatus('connected');
+      this.handshake(connection);
+    } catch (err) {
+      this.setStatus('disconnected');
+      this.emit({
+        type: 'connection-error',
+        error: toError(err),
+        retryInMs: this.scheduleRetry(),
+      });
+    }
+  }
+
+  /** Close the connection and stop reconnecting */
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.clearRetry();
+    this.connection?.close();
+  }
+
+  destroy(): void {
+    this.disconnect();
+    this.destroyed = true;
+    this.document.ydoc.off('update', this.handleDocumentUpdate);
+    this.awareness.off('update', this.handleAwarenessUpdate);
+    this.listeners.clear();
+  }
+
+  private handshake(connection: SyncConnection): void {
+    connection.send(encodeSyncStep1(this.document.getStateVector()));
+
+    // Peers keep our old clock after losing us; renew so they accept it
+    const local = this.awareness.getLocalState();
+    if (local) this.awareness.setLocalState(local);
+
+    this.enqueue(async () => {
+      const pending = (await this.pending.list()).filter(
+        ({ seq }) => !this.rejectedPending.has(seq)
+      );
+      if (pending.length === 0 || this.connection !== connection) return;
+      for (const { update } of pending) {
+        connection.send(encodeSyncUpdate(update));
+      }
+      this.emit({ type: 'pending-replayed', count: pending.length });
+    });
+  }
+
+  private handleClose(connection: SyncConnection, error?: Error): void {
+    if (this.connection !== connection) return;
+    this.connection = null;
+
+    const remote = Array.from(this.remoteClients);
+    this.remoteClients.clear();
+    this.awareness.removeStates(remote, this);
+
+    this.setStatus('disconnected');
+    if (error) {
+      this.emit({
+        type: 'connection-error',
+        error,
+        retryInMs: this.scheduleRetry(),
+      });
+    } else {
+      this.scheduleRetry();
+    }
+  }
+
+  /** Schedule a reconnect; returns the delay, or null if none */
+  private scheduleRetry(): number | null {
+    if (!this.shouldConnect || !this.reconnect || this.destroyed) return null;
+    if (this.retryTimer) return null;
+    const { initialDelayMs, maxDelayMs } = this.reconnect;
+    const delay = Math.min(initialDelayMs * 2 ** this.attempts, maxDelayMs);
+    this.attempts++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.connect();
+    }, delay);
+    return delay;
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  // ── Incoming ──────────────────────────────────────────────────
+
+  private handleMessage(connection: SyncConnection, data: Uint8Array): void {
+    if (this.connection !== connection) return;
+
+    let message: SyncMessage | null;
+    try {
+      message = decodeMessage(data);
+    } catch (err) {
+      this.emit({ type: 'update-rejected', error: toError(err) });
+      return;
+    }
+    if (!message) return;
+
+    switch (message.type) {
+      case 'sync-step1':
+        connection.send(
+          encodeSyncStep2(this.document.getDelta(message.stateVector))
+        );
+        // The reply carries everything the peer lacks, offline edits included
+        this.deliverPending();
+        // A peer that joined after our step1 (e.g. through a relay) has
+        // not seen it; ask again until we are synced
+        if (!this.synced) {
+          connection.send(encodeSyncStep1(this.document.getStateVector()));
+        }
+        break;
+      case 'sync-step2':
+        // A rejected reply leaves us without the peer's state
+        if (this.applyRemote(message.update) && !this.synced) {
+          this.setStatus('synced');
+          this.deliverPending();
+        }
+        break;
+      case 'sync-update':
+        this.applyRemote(message.update);
+        break;
+      case 'awareness':
+        this.awareness.applyUpdate(message.update, this);
+        break;
+    }
+  }
+
+  /** Apply a peer's update; false when the document rejected it */
+  private applyRemote(update: Uint8Array): boolean {
+    this.applyingRemote = true;
+    try {
+      this.document.applyUpdate(update, this.remoteAuthorDid);
+      return true;
+    } catch (err) {
+      this.emit({ type: 'update-rejected', error: toError(err) });
+      return false;
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // ── Outgoing ──────────────────────────────────────────────────
+
+  private handleDocumentUpdate = (update: Uint8Array): void => {
+    if (this.applyingRemote) return;
+    this.connection?.send(encodeSyncUpdate(update));
+    if (this.synced) {
+      this.baseline = this.document.getStateVector();
+      return;
+    }
+
+    let stored = update;
+    if (!this.storedBaseDelta) {
+      stored = this.baseline
+        ? this.document.getDelta(this.baseline)
+        : this.document.getState();
+      this.storedBaseDelta = true;
+    }
+    const createdAt = this.now();
+    this.enqueue(async () => {
+      await this.pending.append(stored, createdAt);
+    });
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: AwarenessChange,
+    origin: unknown
+  ): void => {
+    if (origin === this) {
+      // Remember who we hear about, to forget them when we disconnect
+      for (const client of [...added, ...updated]) {
+        this.remoteClients.add(client);
+      }
+      for (const client of removed) this.remoteClients.delete(client);
+      return;
+    }
+    const clients = [...added, ...updated, ...removed];
+    this.connection?.send(
+      encodeAwarenessMessage(this.awareness.encodeUpdate(clients))
+    );
+  };
+
+  // ── Pending updates ───────────────────────────────────────────
+
+  /**
+   * Apply edits persisted by an earlier session. An edit the document
+   * rejects is reported and never replayed; the next delivery drops it
+   * from the store with the rest.
+   */
+  private async restorePending(): Promise<void> {
+    const pending = await this.pending.list();
+    this.applyingRemote = true;
+    try {
+      for (const { seq, update } of pending) {
+        try {
+          this.document.applyUpdate(update, this.localDid);
+        } catch (err) {
+          this.rejectedPending.add(seq);
+          this.emit({ type: 'update-rejected', error: toError(err) });
+        }
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  /** Drop every pending edit recorded so far; a handshake delivered them */
+  private deliverPending(): void {
+    this.baseline = this.document.getStateVector();
+    this.storedBaseDelta = false;
+    this.enqueue(async () => {
+      const pending = await this.pending.list();
+      if (pending.length === 0) return;
+      await this.pending.acknowledge(pending[pending.length - 1].seq);
+      this.rejectedPending.clear();
+      this.emit({ type: 'pending-delivered', count: pending.length });
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): void {
+    this.storeQueue = this.storeQueue.then(operation).catch((err) => {
+      this.emit({ type: 'persistence-error', error: toError(err) });
+    });
+  }
+
+  // ── Events ────────────────────────────────────────────────────
+
+  private setStatus(status: SyncStatus): void {
+    const previous = this.currentStatus;
+    if (previous === status) return;
+    this.currentStatus = status;
+    this.emit({ type: 'status', status, previous });
+  }
+
+  private emit(event: SyncEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
@@ -0,0 +1,85 @@
+/**
+ * Encoding — Binary framing for sync messages
+ *
+ * The subset of lib0's encoding that the y-protocols messages use:
+ * variable-length unsigned integers, length-prefixed byte arrays and
+ * UTF-8 strings. The byte layout matches lib0, so messages interoperate
+ * with y-websocket servers and other Yjs providers.
+ */
+
+// ── Encoder ─────────────────────────────────────────────────────────
+
+export class Encoder {
+  private bytes: number[] = [];
+
+  /** 7 bits per byte, least significant first; the high bit marks "more" */
+  writeVarUint(value: number): this {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(`Cannot encode ${value} as an unsigned integer`);
+    }
+    while (value > 0x7f) {
+      this.bytes.push(0x80 | (value % 0x80));
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+    return this;
+  }
+
+  writeVarUint8Array(data: Uint8Array): this {
+    this.writeVarUint(data.length);
+    for (const byte of data) this.bytes.push(byte);
+    return this;
+  }
+
+  writeVarString(value: string): this {
+    return this.writeVarUint8Array(new TextEncoder().encode(value));
+  }
+
+  toUint8Array(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// ── Decoder ─────────────────────────────────────────────────────────
+
+export class Decoder {
+  private pos = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  /** Whether unread bytes remain */
+  get hasContent(): boolean {
+    return this.pos < this.data.length;
+  }
+
+  readVarUint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      if (this.pos >= this.data.length) {
+        throw new Error('Unexpected end of message');
+      }
+      const byte = this.data[this.pos++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error('Integer out of range');
+      }
+    }
+  }
+
+  readVarUint8Array(): Uint8Array {
+    const length = this.readVarUint();
+    if (this.pos + length > this.data.length) {
+      throw new Error('Unexpected end of message');
+    }
+    const out = this.data.slice(this.pos, this.pos + length);
+    this.pos += length;
+    return out;
+  }
+
+  readVarString(): string {
+    return new TextDecoder().decode(this.readVarUint8Array());
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Sync barrel export
+ */
+export {
+  SyncProvider,
+  type SyncableDocument,
+  type SyncStatus,
+  type SyncEvent,
+  type SyncListener,
+  type SyncProviderOptions,
+  type ReconnectConfig,
+} from './SyncProvider';
+
+export {
+  MessagePortTransport,
+  SyncHub,
+  WebSocketTransport,
+  type SyncTransport,
+  type SyncConnection,
+  type SyncConnectionHandlers,
+  type MessagePortLike,
+  type WebSocketLike,
+  type WebSocketFactory,
+} from './transports';
+
+export {
+  Awareness,
+  type AwarenessState,
+  type AwarenessChange,
+  type AwarenessEventName,
+  type AwarenessListener,
+} from './Awareness';
+
+export {
+  MemoryPendingUpdateStore,
+  KeyValuePendingUpdateStore,
+  type PendingUpdate,
+  type PendingUpdateStore,
+} from './PendingUpdateStore';
+
+export {
+  encodeSyncStep1,
+  encodeSyncStep2,
+  encodeSyncUpdate,
+  encodeAwarenessMessage,
+  decodeMessage,
+  MESSAGE_SYNC,
+  MESSAGE_AWARENESS,
+  SYNC_STEP1,
+  SYNC_STEP2,
+  SYNC_UPDATE,
+  type SyncMessage,
+} from './protocol';
+
+export { Encoder, Decoder } from './encoding';
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Decoder, Encoder } from './encoding';
+import {
+  decodeMessage,
+  encodeAwarenessMessage,
+  encodeSyncStep1,
+  encodeSyncStep2,
+  encodeSyncUpdate,
+} from './protocol';
+import { Awareness } from './Awareness';
+
+describe('encoding', () => {
+  it('writes variable-length integers like lib0', () => {
+    const bytes = new Encoder()
+      .writeVarUint(0)
+      .writeVarUint(127)
+      .writeVarUint(128)
+      .writeVarUint(300)
+      .toUint8Array();
+    expect(Array.from(bytes)).toEqual([0x00, 0x7f, 0x80, 0x01, 0xac, 0x02]);
+  });
+
+  it('round-trips integers, byte arrays and strings', () => {
+    const bytes = new Encoder()
+      .writeVarUint(2 ** 40)
+      .writeVarUint8Array(new Uint8Array([1, 2, 3]))
+      .writeVarString('héllo ✍️')
+      .toUint8Array();
+    const decoder = new Decoder(bytes);
+    expect(decoder.readVarUint()).toBe(2 ** 40);
+    expect(Array.from(decoder.readVarUint8Array())).toEqual([1, 2, 3]);
+    expect(decoder.readVarString()).toBe('héllo ✍️');
+    expect(decoder.hasContent).toBe(false);
+  });
+
+  it('rejects truncated input', () => {
+    expect(() => new Decoder(new Uint8Array([0x80])).readVarUint()).toThrow(
+      'Unexpected end of message'
+    );
+    expect(() =>
+      new Decoder(new Uint8Array([3, 1])).readVarUint8Array()
+    ).toThrow('Unexpected end of message');
+  });
+});
+
+describe('protocol', () => {
+  it('frames sync messages as y-protocols does', () => {
+    const sv = new Uint8Array([1, 2]);
+    expect(Array.from(encodeSyncStep1(sv))).toEqual([0, 0, 2, 1, 2]);
+    expect(Array.from(encodeSyncStep2(sv))).toEqual([0, 1, 2, 1, 2]);
+    expect(Array.from(encodeSyncUpdate(sv))).toEqual([0, 2, 2, 1, 2]);
+    expect(Array.from(encodeAwarenessMessage(sv))).toEqual([1, 2, 1, 2]);
+  });
+
+  it('decodes what it encodes', () => {
+    const payload = new Uint8Array([9, 8, 7]);
+    expect(decodeMessage(encodeSyncStep1(payload))).toEqual({
+      type: 'sync-step1',
+      stateVector: payload,
+    });
+    expect(decodeMessage(encodeSyncStep2(payload))).toEqual({
+      type: 'sync-step2',
+      update: payload,
+    });
+    expect(decodeMessage(encodeSyncUpdate(payload))).toEqual({
+      type: 'sync-update',
+      update: payload,
+    });
+    expect(decodeMessage(encodeAwarenessMessage(payload))).toEqual({
+      type: 'awareness',
+      update: payload,
+    });
+  });
+
+  it('ignores message types it does not handle', () => {
+    // messageAuth = 2
+    expect(decodeMessage(new Uint8Array([2, 0]))).toBeNull();
+  });
+
+  it('rejects unknown sync steps', () => {
+    expect(() => decodeMessage(new Uint8Array([0, 7, 0]))).toThrow(
+      'Unknown sync step: 7'
+    );
+  });
+});
+
+describe('Awareness', () => {
+  it('applies newer remote states and reports changes', () => {
+    const alice = new Awareness(1);
+    const bob = new Awareness(2);
+    const onChange = vi.fn();
+    bob.on('change', onChange);
+
+    alice.setLocalStateField('user', { name: 'Alice' });
+    bob.applyUpdate(alice.encodeUpdate([1]), 'remote');
+
+    expect(bob.getStates().get(1)).toEqual({ user: { name: 'Alice' } });
+    expect(onChange).toHaveBeenCalledWith(
+      { added: [1], updated: [], removed: [] },
+      'remote'
+    );
+  });
+
+  it('ignores stale states', () => {
+    const alice = new Awareness(1);
+    const bob = new Awareness(2);
+    alice.setLocalStateField('cursor', 1);
+    const stale = alice.encodeUpdate([1]);
+    alice.setLocalStateField('cursor', 2);
+    bob.applyUpdate(alice.encodeUpdate([1]), 'remote');
+    bob.applyUpdate(stale, 'remote');
+    expect(bob.getStates().get(1)).toEqual({ cursor: 2 });
+  });
+
+  it('removes clients that leave', () => {
+    const alice = new Awareness(1);
+    const bob = new Awareness(2);
+    alice.setLocalStateField('cursor', 1);
+    bob.applyUpdate(alice.encodeUpdate([1]), 'remote');
+
+    alice.setLocalState(null);
+    bob.applyUpdate(alice.encodeUpdate([1]), 'remote');
+    expect(bob.getStates().has(1)).toBe(false);
+  });
+
+  it('renews its own state when told it has left', () => {
+    const alice = new Awareness(1);
+    const onUpdate = vi.fn();
+    alice.on('update', onUpdate);
+
+    const impostor = new Awareness(1);
+    impostor.setLocalState(null);
+    alice.applyUpdate(impostor.encodeUpdate([1]), 'remote');
+
+    expect(alice.getLocalState()).toEqual({});
+    expect(onUpdate).toHaveBeenCalledWith(
+      { added: [], updated: [1], removed: [] },
+      'local'
+    );
+  });
+
+  it('emits update without change when only the clock advances', () => {
+    const alice = new Awareness(1);
+    const onChange = vi.fn();
+    const onUpdate = vi.fn();
+    alice.on('change', onChange);
+    alice.on('update', onUpdate);
+    alice.setLocalState(alice.getLocalState());
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+});
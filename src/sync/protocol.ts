@@ -0,0 +1,89 @@
+/**
+ * Protocol — y-protocols sync and awareness messages
+ *
+ * Every message starts with its type. Sync messages then carry a step
+ * and a payload:
+ *
+ *   step1   the sender's state vector ("what I have")
+ *   step2   the update the receiver is missing, in reply to a step1
+ *   update  an incremental update made after the handshake
+ *
+ * Awareness messages carry an encoded awareness update (see
+ * `Awareness`). Each peer sends step1 when the connection opens, so
+ * both sides end up with the other's missing updates.
+ */
+
+import { Decoder, Encoder } from './encoding';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+export const SYNC_STEP1 = 0;
+export const SYNC_STEP2 = 1;
+export const SYNC_UPDATE = 2;
+
+export type SyncMessage =
+  | { type: 'sync-step1'; stateVector: Uint8Array }
+  | { type: 'sync-step2'; update: Uint8Array }
+  | { type: 'sync-update'; update: Uint8Array }
+  | { type: 'awareness'; update: Uint8Array };
+
+// ── Encoding ────────────────────────────────────────────────────────
+
+export function encodeSyncStep1(stateVector: Uint8Array): Uint8Array {
+  return encodeSync(SYNC_STEP1, stateVector);
+}
+
+export function encodeSyncStep2(update: Uint8Array): Uint8Array {
+  return encodeSync(SYNC_STEP2, update);
+}
+
+export function encodeSyncUpdate(update: Uint8Array): Uint8Array {
+  return encodeSync(SYNC_UPDATE, update);
+}
+
+export function encodeAwarenessMessage(update: Uint8Array): Uint8Array {
+  return new Encoder()
+    .writeVarUint(MESSAGE_AWARENESS)
+    .writeVarUint8Array(update)
+    .toUint8Array();
+}
+
+function encodeSync(step: number, payload: Uint8Array): Uint8Array {
+  return new Encoder()
+    .writeVarUint(MESSAGE_SYNC)
+    .writeVarUint(step)
+    .writeVarUint8Array(payload)
+    .toUint8Array();
+}
+
+// ── Decoding ────────────────────────────────────────────────────────
+
+/**
+ * Decode one message. Returns null for message types this package
+ * does not handle (auth, query-awareness, custom), which are ignored.
+ */
+export function decodeMessage(data: Uint8Array): SyncMessage | null {
+  const decoder = new Decoder(data);
+  const messageType = decoder.readVarUint();
+
+  if (messageType === MESSAGE_AWARENESS) {
+    return { type: 'awareness', update: decoder.readVarUint8Array() };
+  }
+  if (messageType !== MESSAGE_SYNC) return null;
+
+  const step = decoder.readVarUint();
+  const payload = decoder.readVarUint8Array();
+  switch (step) {
+    case SYNC_STEP1:
+      return { type: 'sync-step1', stateVector: payload };
+    case SYNC_STEP2:
+      return { type: 'sync-step2', update: payload };
+    case SYNC_UPDATE:
+      return { type: 'sync-update', update: payload };
+    default:
+      throw new Error(`Unknown sync step: ${step}`);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Transports — Message channels a SyncProvider can speak over
+ *
+ * A transport opens connections; a connection carries binary messages
+ * in both directions until either side closes it. The provider
+ * reconnects by calling `connect` again, so a transport must be able
+ * to open more than one connection over its lifetime.
+ *
+ *   MessagePortTransport  a MessagePort per connection (workers, iframes)
+ *   SyncHub               in-process relay for tests and same-page peers
+ *   WebSocketTransport    a y-websocket compatible server
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SyncConnectionHandlers {
+  onMessage(data: Uint8Array): void;
+  /** Called once, when the connection is closed from either side */
+  onClose(error?: Error): void;
+}
+
+export interface SyncConnection {
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export interface SyncTransport {
+  /** Open a connection; rejects when the peer cannot be reached */
+  connect(handlers: SyncConnectionHandlers): Promise<SyncConnection>;
+}
+
+/** The parts of a `MessagePort` the transport uses */
+export interface MessagePortLike {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent) => void
+  ): void;
+  addEventListener(type: 'close', listener: () => void): void;
+  start?(): void;
+  close(): void;
+}
+
+// ── MessagePort ─────────────────────────────────────────────────────
+
+/**
+ * Transport over MessagePorts. `open` returns a fresh port for each
+ * connection, e.g. by posting the other end of a new MessageChannel to
+ * a worker. Closing a port ends the connection; environments without
+ * a port `close` event only notice when this side closes.
+ */
+export class MessagePortTransport implements SyncTransport {
+  constructor(
+    private readonly open: () => MessagePortLike | Promise<MessagePortLike>
+  ) {}
+
+  async connect(handlers: SyncConnectionHandlers): Promise<SyncConnection> {
+    return connectPort(await this.open(), handlers);
+  }
+}
+
+function connectPort(
+  port: MessagePortLike,
+  handlers: SyncConnectionHandlers
+): SyncConnection {
+  let open = true;
+  const close = () => {
+    if (!open) return;
+    open = false;
+    port.close();
+    handlers.onClose();
+  };
+  port.addEventListener('message', (event: MessageEvent) => {
+    if (open) handlers.onMessage(new Uint8Array(event.data));
+  });
+  port.addEventListener('close', close);
+  port.start?.();
+  return {
+    send: (data) => {
+      if (open) port.postMessage(data);
+    },
+    close,
+  };
+}
+
+// ── In-process Hub ──────────────────────────────────────────────────
+
+/**
+ * Relays every message to all other connected peers, like a stateless
+ * relay server. Each connection runs over its own MessageChannel, so
+ * delivery is asynchronous as it would be over a network.
+ *
+ * `setOnline(false)` drops every connection and refuses new ones,
+ * which is how tests simulate going offline.
+ */
+export class SyncHub {
+  private ports: Set<MessagePortLike> = new Set();
+  private online = true;
+
+  /** A transport whose connections join this hub */
+  transport(): SyncTransport {
+    return {
+      connect: async (handlers) => {
+        if (!this.online) throw new Error('Sync hub is offline');
+        const channel = new MessageChannel();
+        this.join(channel.port1);
+        return connectPort(channel.port2, handlers);
+      },
+    };
+  }
+
+  get connectionCount(): number {
+    return this.ports.size;
+  }
+
+  setOnline(online: boolean): void {
+    this.online = online;
+    if (online) return;
+    for (const port of this.ports) port.close();
+    this.ports.clear();
+  }
+
+  private join(port: MessagePortLike): void {
+    this.ports.add(port);
+    port.addEventListener('message', (event: MessageEvent) => {
+      for (const other of this.ports) {
+        if (other !== port) other.postMessage(event.data);
+      }
+    });
+    port.addEventListener('close', () => this.ports.delete(port));
+    port.start?.();
+  }
+}
+
+// ── WebSocket ───────────────────────────────────────────────────────
+
+/** The parts of the WebSocket API the transport uses */
+export interface WebSocketLike {
+  binaryType: string;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+/**
+ * Client for y-websocket compatible servers. The room is part of the
+ * URL (e.g. `wss://sync.example.com/doc-123`). Outside browsers, pass
+ * a factory for a WebSocket implementation.
+ */
+export class WebSocketTransport implements SyncTransport {
+  constructor(
+    private readonly url: string,
+    private readonly createSocket: WebSocketFactory = (url) =>
+      new WebSocket(url) as unknown as WebSocketLike
+  ) {}
+
+  connect(handlers: SyncConnectionHandlers): Promise<SyncConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = this.createSocket(this.url);
+      socket.binaryType = 'arraybuffer';
+      let opened = false;
+      let closed = false;
+
+      const finish = (error?: Error) => {
+        if (closed) return;
+        closed = true;
+        socket.onopen = socket.onmessage = socket.onclose = null;
+        socket.onerror = null;
+        if (opened) handlers.onClose(error);
+        else reject(error ?? new Error(`Could not connect to ${this.url}`));
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        resolve({
+          send: (data) => {
+            if (!closed) socket.send(data);
+          },
+          close: () => {
+            socket.close();
+            finish();
+          },
+        });
+      };
+      socket.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          handlers.onMessage(new Uint8Array(event.data));
+        }
+      };
+      socket.onerror = () =>
+        finish(new Error(`WebSocket error on ${this.url}`));
+      socket.onclose = () => finish();
+    });
+  }
+}
@@ -0,0 +1,407 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VoiceBindings, sentenceAt, wordBefore } from './VoiceBindings';
+import { VoiceInterface } from './VoiceInterface';
+import { ReplaySttBackend } from './stt';
+import {
+  CollaborationPresence,
+  type DocumentPosition,
+  type PresenceConfig,
+} from '../collaboration/CollaborationPresence';
+import { Awareness } from '../sync/Awareness';
+import type { AeonDocument } from '../document/document';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+interface FakeBlock {
+  type: string;
+  attributes: Record<string, string>;
+  text: string;
+}
+
+/** The AeonDocument operations the bindings use, over plain blocks */
+class FakeDocument {
+  blocks: FakeBlock[];
+  /** Edits and undo checkpoints, in order */
+  log: string[] = [];
+  ydoc = {
+    transact: (fn: () => void) => {
+      this.log.push('transact');
+      fn();
+    },
+  };
+
+  constructor(blocks: Array<[id: string, text: string, level?: number]>) {
+    this.blocks = blocks.map(([id, text, level]) => ({
+      type: level ? 'heading' : 'paragraph',
+      attributes: level ? { id, level: String(level) } : { id },
+      text,
+    }));
+  }
+
+  getAllBlocks() {
+    return this.blocks.map((block) => ({
+      nodeName: block.type,
+      length: 1,
+      getAttribute: (key: string) => block.attributes[key],
+      get: () => ({ toDelta: () => [{ insert: block.text }] }),
+    }));
+  }
+
+  insertBlock(
+    type: string,
+    position: number,
+    attributes: Record<string, string>,
+    text = ''
+  ) {
+    this.log.push(`insert ${position}`);
+    this.blocks.splice(position, 0, { type, attributes, text });
+  }
+
+  removeBlock(position: number) {
+    this.log.push(`remove ${position}`);
+    this.blocks.splice(position, 1);
+  }
+
+  replaceBlockText(position: number, start: number, end: number, text: string) {
+    this.log.push(`replace ${position}`);
+    const block = this.blocks[position];
+    block.text = block.text.slice(0, start) + text + block.text.slice(end);
+  }
+
+  undo() {
+    this.log.push('undo');
+  }
+
+  redo() {
+    this.log.push('redo');
+  }
+
+  checkpoint() {
+    this.log.push('checkpoint');
+  }
+
+  texts(): string[] {
+    return this.blocks.map((b) => b.text);
+  }
+}
+
+function setup(
+  blocks: Array<[id: string, text: string, level?: number]>,
+  overrides: { inferFn?: (prompt: string) => Promise<string> } = {}
+) {
+  const document = new FakeDocument(blocks);
+  const presence = new CollaborationPresence({
+    ydoc: {} as PresenceConfig['ydoc'],
+    localDid: 'did:key:alice',
+    localDisplayName: 'alice',
+  });
+  presence.connect(new Awareness(1));
+  const speak = vi.fn(async (_text: string) => undefined);
+  const reveal = vi.fn();
+  let nextId = 0;
+  const bindings = new VoiceBindings({
+    document: document as unknown as AeonDocument,
+    presence,
+    inferFn: overrides.inferFn ?? (async () => ''),
+    speak,
+    reveal,
+    generateId: () => `new-${++nextId}`,
+  });
+  const caret = () => presence.getSelections()[0]?.head ?? null;
+  const select = (anchor: DocumentPosition, head: DocumentPosition) =>
+    presence.setSelections([{ anchor, head }]);
+  return { document, presence, bindings, speak, reveal, caret, select };
+}
+
+// ── Dictation ───────────────────────────────────────────────────────
+
+describe('VoiceBindings dictation', () => {
+  it('inserts at the caret with spacing and moves the caret on', async () => {
+    const { document, presence, bindings, caret } = setup([
+      ['p1', 'Hello world.'],
+    ]);
+    presence.setCursor({ blockId: 'p1', offset: 5 });
+
+    await bindings.execute({ type: 'dictate', text: 'there' });
+    expect(document.texts()).toEqual(['Hello there world.']);
+    expect(caret()).toEqual({ blockId: 'p1', offset: 11 });
+  });
+
+  it('replaces the selection and appends without a cursor', async () => {
+    const { document, bindings, select } = setup([['p1', 'Hello world.']]);
+    await bindings.execute({ type: 'dictate', text: 'Bye.' });
+    expect(document.texts()).toEqual(['Hello world. Bye.']);
+
+    select({ blockId: 'p1', offset: 6 }, { blockId: 'p1', offset: 11 });
+    await bindings.execute({ type: 'dictate', text: 'moon' });
+    expect(document.texts()).toEqual(['Hello moon. Bye.']);
+  });
+
+  it('starts a paragraph in an empty document', async () => {
+    const { document, bindings, caret } = setup([]);
+    await bindings.execute({ type: 'dictate', text: 'First words' });
+    expect(document.blocks[0].attributes).toEqual({
+      id: 'new-1',
+      'embedding-id': 'new-2',
+    });
+    expect(caret()).toEqual({ blockId: 'new-1', offset: 11 });
+  });
+
+  it('replaces the nearest earlier occurrence', async () => {
+    const { document, presence, bindings } = setup([
+      ['p1', 'The cat sat.'],
+      ['p2', 'The cat ran. The cat hid.'],
+    ]);
+    presence.setCursor({ blockId: 'p2', offset: 12 });
+    await bindings.execute({
+      type: 'dictate-replace',
+      target: 'cat',
+      replacement: 'dog',
+    });
+    expect(document.texts()).toEqual([
+      'The cat sat.',
+      'The dog ran. The cat hid.',
+    ]);
+
+    await expect(
+      bindings.execute({
+        type: 'dictate-replace',
+        target: 'bird',
+        replacement: 'x',
+      })
+    ).rejects.toThrow('Text not found: "bird"');
+  });
+});
+
+// ── Deleting ────────────────────────────────────────────────────────
+
+describe('VoiceBindings delete', () => {
+  it('deletes the sentence at the caret', async () => {
+    const { document, presence, bindings, caret } = setup([
+      ['p1', 'One. Two here. Three.'],
+    ]);
+    presence.setCursor({ blockId: 'p1', offset: 8 });
+    await bindings.execute({ type: 'delete', target: 'sentence' });
+    expect(document.texts()).toEqual(['One. Three.']);
+    expect(caret()).toEqual({ blockId: 'p1', offset: 5 });
+
+    // At the end, the last sentence and the space before it
+    presence.setCursor({ blockId: 'p1', offset: 11 });
+    await bindings.execute({ type: 'delete', target: 'sentence' });
+    expect(document.texts()).toEqual(['One.']);
+  });
+
+  it('deletes the word before the caret', async () => {
+    const { document, bindings } = setup([['p1', 'Say hello world.']]);
+    await bindings.execute({ type: 'delete', target: 'word' });
+    expect(document.texts()).toEqual(['Say hello.']);
+  });
+
+  it('deletes a selection across blocks by joining them', async () => {
+    const { document, bindings, select, caret } = setup([
+      ['p1', 'Keep this'],
+      ['p2', 'gone'],
+      ['p3', 'and that'],
+    ]);
+    select({ blockId: 'p3', offset: 3 }, { blockId: 'p1', offset: 4 });
+    await bindings.execute({ type: 'delete', target: 'selection' });
+    expect(document.texts()).toEqual(['Keep that']);
+    expect(caret()).toEqual({ blockId: 'p1', offset: 4 });
+  });
+
+  it('deletes the paragraph and keeps the caret nearby', async () => {
+    const { document, presence, bindings, caret } = setup([
+      ['p1', 'First'],
+      ['p2', 'Second'],
+    ]);
+    presence.setCursor({ blockId: 'p2', offset: 0 });
+    await bindings.execute({ type: 'delete', target: 'paragraph' });
+    expect(document.texts()).toEqual(['First']);
+    expect(caret()).toEqual({ blockId: 'p1', offset: 5 });
+  });
+
+  it('refuses to delete an empty selection', async () => {
+    const { presence, bindings } = setup([['p1', 'Text']]);
+    presence.setCursor({ blockId: 'p1', offset: 2 });
+    await expect(
+      bindings.execute({ type: 'delete', target: 'selection' })
+    ).rejects.toThrow('Nothing selected');
+  });
+});
+
+// ── Navigation ──────────────────────────────────────────────────────
+
+describe('VoiceBindings navigation', () => {
+  const outline: Array<[string, string, number?]> = [
+    ['h1', 'Getting Started', 1],
+    ['p1', 'Intro'],
+    ['h2', 'Pricing and Plans', 2],
+    ['h3', 'Plans', 3],
+  ];
+
+  it('goes to the best matching heading', async () => {
+    const { bindings, caret, reveal } = setup(outline);
+    await bindings.execute({
+      type: 'goto-section',
+      query: 'the section about pricing',
+    });
+    expect(caret()).toEqual({ blockId: 'h2', offset: 0 });
+    expect(reveal).toHaveBeenCalledWith({ blockId: 'h2', offset: 0 });
+
+    // An exact match beats a partial one
+    await bindings.execute({ type: 'goto-section', query: 'plans' });
+    expect(caret()?.blockId).toBe('h3');
+
+    await expect(
+      bindings.execute({ type: 'goto-section', query: 'security' })
+    ).rejects.toThrow('No section matching "security"');
+  });
+
+  it('goes to blocks, the ends of the document and selects text', async () => {
+    const { presence, bindings, caret } = setup(outline);
+    await bindings.execute({ type: 'goto-block', blockId: 'p1' });
+    expect(caret()).toEqual({ blockId: 'p1', offset: 0 });
+    await expect(
+      bindings.execute({ type: 'goto-block', blockId: 'nope' })
+    ).rejects.toThrow('Unknown block: nope');
+
+    await bindings.execute({
+      type: 'scroll',
+      direction: 'down',
+      amount: 'bottom',
+    });
+    expect(caret()).toEqual({ blockId: 'h3', offset: 5 });
+
+    await bindings.execute({ type: 'select', target: 'started' });
+    expect(presence.getSelections()).toEqual([
+      {
+        anchor: { blockId: 'h1', offset: 8 },
+        head: { blockId: 'h1', offset: 15 },
+      },
+    ]);
+  });
+});
+
+// ── AI ──────────────────────────────────────────────────────────────
+
+describe('VoiceBindings inference', () => {
+  it('rewrites the paragraph at the caret and selects the result', async () => {
+    const inferFn = vi.fn(async () => 'Greetings, everyone.');
+    const { document, presence, bindings } = setup(
+      [
+        ['p1', 'hey all'],
+        ['p2', 'Other'],
+      ],
+      { inferFn }
+    );
+    presence.setCursor({ blockId: 'p1', offset: 3 });
+
+    await bindings.execute({ type: 'rewrite', instruction: 'more formal' });
+    expect(inferFn.mock.calls[0][0]).toContain('"""hey all"""');
+    expect(document.texts()).toEqual(['Greetings, everyone.', 'Other']);
+    expect(presence.getSelections()[0]).toEqual({
+      anchor: { blockId: 'p1', offset: 0 },
+      head: { blockId: 'p1', offset: 20 },
+    });
+  });
+
+  it('inserts generated paragraphs around the caret', async () => {
+    const { document, presence, bindings } = setup(
+      [
+        ['p1', 'Intro'],
+        ['p2', 'Body'],
+      ],
+      { inferFn: async () => ' A transition. ' }
+    );
+    presence.setCursor({ blockId: 'p1', offset: 0 });
+    await bindings.execute({
+      type: 'insert',
+      instruction: 'a transition',
+      position: 'after',
+    });
+    expect(document.texts()).toEqual(['Intro', 'A transition.', 'Body']);
+  });
+
+  it('answers questions and reads text aloud', async () => {
+    const { presence, bindings, speak } = setup(
+      [
+        ['p1', 'Security matters.'],
+        ['p2', 'Second.'],
+      ],
+      { inferFn: async () => 'It says security matters.' }
+    );
+    await bindings.execute({ type: 'ask', question: 'What about security?' });
+    expect(speak).toHaveBeenLastCalledWith('It says security matters.');
+
+    presence.setCursor({ blockId: 'p1', offset: 0 });
+    await bindings.execute({ type: 'read-aloud', target: 'paragraph' });
+    expect(speak).toHaveBeenLastCalledWith('Security matters.');
+    await bindings.execute({ type: 'read-aloud', target: 'document' });
+    expect(speak).toHaveBeenLastCalledWith('Security matters.\n\nSecond.');
+  });
+});
+
+// ── Undo ────────────────────────────────────────────────────────────
+
+describe('VoiceBindings undo', () => {
+  it('makes each command one undo step', async () => {
+    const { document, bindings, select } = setup([
+      ['p1', 'One'],
+      ['p2', 'Two'],
+    ]);
+    select({ blockId: 'p1', offset: 1 }, { blockId: 'p2', offset: 1 });
+    await bindings.execute({ type: 'delete', target: 'selection' });
+    await bindings.execute({ type: 'undo' });
+
+    expect(document.log).toEqual([
+      'checkpoint',
+      'transact',
+      'replace 0',
+      'remove 1',
+      'checkpoint',
+      'undo',
+    ]);
+  });
+});
+
+// ── VoiceInterface ──────────────────────────────────────────────────
+
+describe('VoiceBindings.bind', () => {
+  it('runs spoken commands against the document', async () => {
+    const { document, presence, bindings } = setup([['p1', 'One. Two.']]);
+    presence.setCursor({ blockId: 'p1', offset: 9 });
+    const voice = new VoiceInterface({
+      sttBackend: new ReplaySttBackend(['delete sentence', 'delete sentence']),
+      inferFn: async () => '{}',
+    });
+    const unbind = bindings.bind(voice);
+
+    await voice.transcribeRecording([new Blob(['audio'])]);
+    expect(document.texts()).toEqual(['One.']);
+    expect(voice.getState().recentCommands[0].executed).toBe(true);
+
+    unbind();
+    await voice.transcribeRecording([new Blob(['audio'])]);
+    expect(voice.getState().recentCommands[0].executed).toBe(false);
+  });
+});
+
+// ── Segmentation ────────────────────────────────────────────────────
+
+describe('sentenceAt / wordBefore', () => {
+  const sentences = new Intl.Segmenter('en', { granularity: 'sentence' });
+  const words = new Intl.Segmenter('en', { granularity: 'word' });
+
+  it('finds the sentence the caret is in or just after', () => {
+    const text = 'First one. Second one.';
+    expect(sentenceAt(sentences, text, 11)).toEqual([0, 11]);
+    expect(sentenceAt(sentences, text, 15)).toEqual([10, 22]);
+    expect(sentenceAt(sentences, '', 0)).toBeNull();
+  });
+
+  it('takes the word before the caret with its space', () => {
+    expect(wordBefore(words, 'alpha beta', 10)).toEqual([5, 10]);
+    expect(wordBefore(words, 'alpha beta', 3)).toEqual([0, 6]);
+    expect(wordBefore(words, '  ', 2)).toBeNull();
+  });
+});
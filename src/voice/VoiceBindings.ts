@@ -0,0 +1,694 @@
+/**
+ * VoiceBindings — Voice commands acting on the document
+ *
+ * `VoiceInterface` turns speech into intents but only runs handlers
+ * registered through `onCommand`. `VoiceBindings` registers one for
+ * every document intent and runs it against an `AeonDocument`, using
+ * the primary selection of the local `CollaborationPresence` as the
+ * cursor:
+ *
+ *   - dictation inserts at the caret, replacing a selection
+ *   - "delete sentence" / "delete word" find the sentence or word at
+ *     the caret with `Intl.Segmenter`
+ *   - "go to <section>" matches headings from the table of contents
+ *   - `rewrite`, `insert` and `ask` go through the inference function
+ *
+ * Each command is one undo step, so "undo" after "make this more
+ * formal" restores the paragraph however many edits the rewrite took.
+ */
+
+import type { AeonDocument } from '../document/document';
+import type {
+  CollaborationPresence,
+  DocumentPosition,
+} from '../collaboration/CollaborationPresence';
+import {
+  ReadingProjection,
+  type TableOfContentsEntry,
+} from '../projections/ReadingProjection';
+import type { VoiceInterface, VoiceIntent } from './VoiceInterface';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type ScrollIntent = Extract<VoiceIntent, { type: 'scroll' }>;
+
+export interface VoiceBindingsConfig {
+  /** Document the commands edit */
+  readonly document: AeonDocument;
+  /** Local presence; its primary selection is the cursor */
+  readonly presence: CollaborationPresence;
+  /** Inference function for rewrite, insert and ask */
+  readonly inferFn: (prompt: string) => Promise<string>;
+  /** Speech output (default: `readAloud` of the bound VoiceInterface) */
+  readonly speak?: (text: string) => Promise<void>;
+  /** Bring a position into view after the cursor jumps there */
+  readonly reveal?: (position: DocumentPosition) => void;
+  /** Scroll the view */
+  readonly scroll?: (intent: ScrollIntent) => void;
+  /** Language for sentence and word boundaries (default: en-US) */
+  readonly language?: string;
+  /** ID generator for new blocks */
+  readonly generateId?: () => string;
+  /** Builds the table of contents (default: a new ReadingProjection) */
+  readonly reading?: ReadingProjection;
+}
+
+/** A block with its plain text, as the commands see it */
+interface TextBlock {
+  readonly index: number;
+  readonly id: string;
+  /** Block type; headings carry their level (`heading2`) */
+  readonly blockType: string;
+  readonly text: string;
+}
+
+interface ResolvedPosition {
+  readonly block: TextBlock;
+  readonly offset: number;
+}
+
+interface ResolvedRange {
+  readonly start: ResolvedPosition;
+  readonly end: ResolvedPosition;
+  /** Where the caret is: `start` or `end` */
+  readonly head: ResolvedPosition;
+}
+
+/** Intents handled by the bindings; the rest belong to VoiceInterface */
+const BOUND_INTENTS: ReadonlyArray<VoiceIntent['type']> = [
+  'dictate',
+  'dictate-replace',
+  'goto-section',
+  'goto-block',
+  'scroll',
+  'select',
+  'delete',
+  'undo',
+  'redo',
+  'rewrite',
+  'ask',
+  'insert',
+  'read-aloud',
+];
+
+/** Words that don't help find a section ("the part about pricing") */
+const SECTION_FILLER = new Set([
+  'a',
+  'about',
+  'an',
+  'chapter',
+  'heading',
+  'of',
+  'on',
+  'part',
+  'section',
+  'the',
+  'to',
+]);
+
+// ── Voice Bindings ──────────────────────────────────────────────────
+
+export class VoiceBindings {
+  private config: VoiceBindingsConfig;
+  private reading: ReadingProjection;
+  private generateId: () => string;
+  private sentences: Intl.Segmenter;
+  private words: Intl.Segmenter;
+  /** `readAloud` of the bound VoiceInterface */
+  private voiceSpeak: ((text: string) => Promise<void>) | null = null;
+
+  constructor(config: VoiceBindingsConfig) {
+    this.config = config;
+    this.reading = config.reading ?? new ReadingProjection();
+    this.generateId = config.generateId ?? (() => crypto.randomUUID());
+    const language = config.language ?? 'en-US';
+    this.sentences = new Intl.Segmenter(language, { granularity: 'sentence' });
+    this.words = new Intl.Segmenter(language, { granularity: 'word' });
+  }
+
+  /**
+   * Handle the document intents of a voice interface. Returns a
+   * function that removes the handlers again.
+   */
+  bind(voice: VoiceInterface): () => void {
+    this.voiceSpeak = (text) => voice.readAloud(text);
+    const removers = BOUND_INTENTS.map((type) =>
+      voice.onCommand(type, (intent) => this.execute(intent))
+    );
+    return () => {
+      for (const remove of removers) remove();
+      this.voiceSpeak = null;
+    };
+  }
+
+  /**
+   * Run one intent. Its edits form one undo step. Mode switches,
+   * `stop` and `unknown` are left to VoiceInterface and ignored here.
+   */
+  async execute(intent: VoiceIntent): Promise<void> {
+    switch (intent.type) {
+      case 'dictate':
+        this.edit(() => this.dictate(intent.text));
+        break;
+      case 'dictate-replace':
+        this.edit(() => this.replaceText(intent.target, intent.replacement));
+        break;
+      case 'goto-section':
+        this.gotoSection(intent.query);
+        break;
+      case 'goto-block':
+        this.gotoBlock(intent.blockId);
+        break;
+      case 'scroll':
+        this.scroll(intent);
+        break;
+      case 'select':
+        this.select(intent.target);
+        break;
+      case 'delete':
+        this.edit(() => this.delete(intent.target));
+        break;
+      case 'undo':
+        this.config.document.undo();
+        break;
+      case 'redo':
+        this.config.document.redo();
+        break;
+      case 'rewrite':
+        await this.rewrite(intent.instruction);
+        break;
+      case 'insert':
+        await this.insert(intent.instruction, intent.position);
+        break;
+      case 'ask':
+        await this.ask(intent.question);
+        break;
+      case 'read-aloud':
+        await this.readAloud(intent.target);
+        break;
+    }
+  }
+
+  // ── Dictation ─────────────────────────────────────────────────
+
+  private dictate(text: string): void {
+    const blocks = this.blocks();
+    const range = this.selection(blocks) ?? this.endOfDocument(blocks);
+    if (!range) {
+      this.appendParagraph(blocks.length, text);
+      return;
+    }
+
+    const before = range.start.block.text.slice(0, range.start.offset);
+    const after = range.end.block.text.slice(range.end.offset);
+    let inserted = text.trim();
+    if (before && !/\s$/.test(before) && !/^[,.;:!?)]/.test(inserted)) {
+      inserted = ' ' + inserted;
+    }
+    if (after && !/^[\s,.;:!?)]/.test(after)) inserted += ' ';
+    this.setCaret(this.replaceRange(range.start, range.end, inserted));
+  }
+
+  /** Replace the nearest earlier occurrence of `target` */
+  private replaceText(target: string, replacement: string): void {
+    const blocks = this.blocks();
+    const found = this.find(blocks, target);
+    this.setCaret(this.replaceRange(found.start, found.end, replacement));
+  }
+
+  // ── Navigation ────────────────────────────────────────────────
+
+  private gotoSection(query: string): void {
+    const headings = flattenToc(
+      this.reading.buildTableOfContents(this.blocks())
+    );
+    const heading = bestHeading(headings, query);
+    if (!heading) throw new Error(`No section matching "${query}"`);
+    this.moveTo({ blockId: heading.blockId, offset: 0 });
+  }
+
+  private gotoBlock(blockId: string): void {
+    if (!this.blocks().some((b) => b.id === blockId)) {
+      throw new Error(`Unknown block: ${blockId}`);
+    }
+    this.moveTo({ blockId, offset: 0 });
+  }
+
+  private scroll(intent: ScrollIntent): void {
+    this.config.scroll?.(intent);
+    if (intent.amount !== 'top' && intent.amount !== 'bottom') return;
+
+    const blocks = this.blocks();
+    const block =
+      intent.amount === 'top' ? blocks[0] : blocks[blocks.length - 1];
+    if (!block) return;
+    this.moveTo({
+      blockId: block.id,
+      offset: intent.amount === 'top' ? 0 : block.text.length,
+    });
+  }
+
+  private select(target: string): void {
+    const found = this.find(this.blocks(), target);
+    this.config.presence.setSelections([
+      { anchor: toPosition(found.start), head: toPosition(found.end) },
+    ]);
+  }
+
+  private moveTo(position: DocumentPosition): void {
+    this.config.presence.setCursor(position);
+    this.config.reveal?.(position);
+  }
+
+  // ── Deleting ──────────────────────────────────────────────────
+
+  private delete(
+    target: Extract<VoiceIntent, { type: 'delete' }>['target']
+  ): void {
+    const blocks = this.blocks();
+    const range = this.selection(blocks);
+
+    if (target === 'selection') {
+      if (!range || isCollapsed(range)) throw new Error('Nothing selected');
+      this.setCaret(this.replaceRange(range.start, range.end, ''));
+      return;
+    }
+
+    const caret = range?.head ?? this.endOfDocument(blocks)?.head;
+    if (!caret) return;
+
+    if (target === 'paragraph') {
+      this.config.document.removeBlock(caret.block.index);
+      const previous = blocks[caret.block.index - 1];
+      const next = blocks[caret.block.index + 1];
+      if (previous) {
+        this.setCaret({ blockId: previous.id, offset: previous.text.length });
+      } else {
+        this.config.presence.setCursor(
+          next ? { blockId: next.id, offset: 0 } : null
+        );
+      }
+      return;
+    }
+
+    const span =
+      target === 'sentence'
+        ? sentenceAt(this.sentences, caret.block.text, caret.offset)
+        : wordBefore(this.words, caret.block.text, caret.offset);
+    if (!span) return;
+    const [from, to] = span;
+    this.setCaret(
+      this.replaceRange(
+        { block: caret.block, offset: from },
+        { block: caret.block, offset: to },
+        ''
+      )
+    );
+  }
+
+  // ── AI ────────────────────────────────────────────────────────
+
+  /** Rewrite the selection, or the paragraph at the caret */
+  private async rewrite(instruction: string): Promise<void> {
+    const blocks = this.blocks();
+    const target = this.rewriteTarget(blocks);
+    if (!target) throw new Error('Nothing to rewrite');
+
+    const rewritten = (
+      await this.config.inferFn(
+        `Rewrite this text from a document. Instruction: ${instruction}
+      Respond with ONLY the rewritten text.
+
+      Text: """${this.textOf(blocks, target)}"""`
+      )
+    ).trim();
+
+    // The document may have changed while waiting
+    const range = this.resolveRange(
+      this.blocks(),
+      toPosition(target.start),
+      toPosition(target.end)
+    );
+    if (!range) throw new Error('The text to rewrite was removed');
+
+    this.edit(() => {
+      const end = this.replaceRange(range.start, range.end, rewritten);
+      this.config.presence.setSelections([
+        { anchor: toPosition(range.start), head: end },
+      ]);
+    });
+  }
+
+  /** Generate text and insert it at the caret or around its paragraph */
+  private async insert(
+    instruction: string,
+    position: 'before' | 'after' | 'here'
+  ): Promise<void> {
+    const blocks = this.blocks();
+    const caret = (this.selection(blocks) ?? this.endOfDocument(blocks))?.head;
+
+    const generated = (
+      await this.config.inferFn(
+        `Write text to insert into a document. Instruction: ${instruction}
+      Respond with ONLY the text to insert.
+
+      ${caret ? `Current paragraph: """${caret.block.text}"""` : 'The document is empty.'}`
+      )
+    ).trim();
+
+    if (position === 'here') {
+      this.edit(() => this.dictate(generated));
+      return;
+    }
+
+    const current = this.blocks();
+    const anchor = caret && current.find((b) => b.id === caret.block.id);
+    const index = anchor
+      ? anchor.index + (position === 'after' ? 1 : 0)
+      : current.length;
+    this.edit(() => this.appendParagraph(index, generated));
+  }
+
+  private async ask(question: string): Promise<void> {
+    const answer = await this.config.inferFn(
+      `Answer a question about this document briefly, in plain sentences
+      that can be read aloud.
+
+      Document: """${this.blocks()
+        .map((b) => b.text)
+        .join('\n\n')}"""
+
+      Question: ${question}`
+    );
+    await this.speak(answer.trim());
+  }
+
+  private async readAloud(
+    target: Extract<VoiceIntent, { type: 'read-aloud' }>['target']
+  ): Promise<void> {
+    const blocks = this.blocks();
+    let text: string | undefined;
+    if (target === 'document') {
+      text = blocks.map((b) => b.text).join('\n\n');
+    } else {
+      const range = this.selection(blocks);
+      if (target === 'selection') {
+        if (!range || isCollapsed(range)) throw new Error('Nothing selected');
+        text = this.textOf(blocks, range);
+      } else {
+        text = (range?.head ?? this.endOfDocument(blocks)?.head)?.block.text;
+      }
+    }
+    if (text?.trim()) await this.speak(text);
+  }
+
+  private speak(text: string): Promise<void> {
+    const speak = this.config.speak ?? this.voiceSpeak;
+    if (!speak) throw new Error('No speech output configured');
+    return speak(text);
+  }
+
+  // ── Editing ───────────────────────────────────────────────────
+
+  /** Apply one command's edits as a single undo step */
+  private edit(apply: () => void): void {
+    const { document } = this.config;
+    document.checkpoint();
+    document.ydoc.transact(apply, 'local');
+    document.checkpoint();
+  }
+
+  /**
+   * Replace the text between two positions, joining their blocks when
+   * they differ. Returns the position after the new text.
+   */
+  private replaceRange(
+    start: ResolvedPosition,
+    end: ResolvedPosition,
+    text: string
+  ): DocumentPosition {
+    const { document } = this.config;
+    if (start.block.index === end.block.index) {
+      document.replaceBlockText(
+        start.block.index,
+        start.offset,
+        end.offset,
+        text
+      );
+    } else {
+      // Take the rest of the last block into the first, then drop it
+      document.replaceBlockText(
+        start.block.index,
+        start.offset,
+        start.block.text.length,
+        text + end.block.text.slice(end.offset)
+      );
+    }
+    for (let i = end.block.index; i > start.block.index; i--) {
+      document.removeBlock(i);
+    }
+    return { blockId: start.block.id, offset: start.offset + text.length };
+  }
+
+  private appendParagraph(index: number, text: string): void {
+    const id = this.generateId();
+    this.config.document.insertBlock(
+      'paragraph',
+      index,
+      { id, 'embedding-id': this.generateId() },
+      text
+    );
+    this.setCaret({ blockId: id, offset: text.length });
+  }
+
+  private setCaret(position: DocumentPosition): void {
+    this.config.presence.setCursor(position);
+  }
+
+  // ── Reading the document ──────────────────────────────────────
+
+  private blocks(): TextBlock[] {
+    return this.config.document.getAllBlocks().map((block, index) => ({
+      index,
+      id: block.getAttribute('id') ?? '',
+      blockType:
+        block.nodeName === 'heading'
+          ? `heading${block.getAttribute('level') ?? 1}`
+          : block.nodeName,
+      text: blockText(block),
+    }));
+  }
+
+  /** The primary selection, if it is still in the document */
+  private selection(blocks: TextBlock[]): ResolvedRange | null {
+    const [range] = this.config.presence.getSelections();
+    return range ? this.resolveRange(blocks, range.anchor, range.head) : null;
+  }
+
+  private resolveRange(
+    blocks: TextBlock[],
+    anchor: DocumentPosition,
+    head: DocumentPosition
+  ): ResolvedRange | null {
+    const from = resolve(blocks, anchor);
+    const to = resolve(blocks, head);
+    if (!from || !to) return null;
+    return comparePositions(from, to) <= 0
+      ? { start: from, end: to, head: to }
+      : { start: to, end: from, head: to };
+  }
+
+  /** A caret after the last block, when nothing is selected */
+  private endOfDocument(blocks: TextBlock[]): ResolvedRange | null {
+    const last = blocks[blocks.length - 1];
+    if (!last) return null;
+    const end = { block: last, offset: last.text.length };
+    return { start: end, end, head: end };
+  }
+
+  /** The selection if there is one, else the paragraph at the caret */
+  private rewriteTarget(blocks: TextBlock[]): ResolvedRange | null {
+    const range = this.selection(blocks) ?? this.endOfDocument(blocks);
+    if (!range) return null;
+    if (!isCollapsed(range)) return range;
+    const { block } = range.head;
+    const start = { block, offset: 0 };
+    const end = { block, offset: block.text.length };
+    return { start, end, head: end };
+  }
+
+  private textOf(blocks: TextBlock[], range: ResolvedRange): string {
+    const { start, end } = range;
+    if (start.block.index === end.block.index) {
+      return start.block.text.slice(start.offset, end.offset);
+    }
+    return [
+      start.block.text.slice(start.offset),
+      ...blocks
+        .slice(start.block.index + 1, end.block.index)
+        .map((b) => b.text),
+      end.block.text.slice(0, end.offset),
+    ].join('\n\n');
+  }
+
+  /**
+   * Find text, looking back from the caret first (what was just said)
+   * and then on through the rest of the document.
+   */
+  private find(blocks: TextBlock[], target: string): ResolvedRange {
+    const needle = target.trim().toLowerCase();
+    if (needle) {
+      const caret = (this.selection(blocks) ?? this.endOfDocument(blocks))
+        ?.head;
+      const from = caret?.block.index ?? 0;
+      const order = [
+        ...blocks.slice(0, from + 1).reverse(),
+        ...blocks.slice(from + 1),
+      ];
+      for (const block of order) {
+        const haystack = block.text.toLowerCase();
+        let index: number;
+        if (block.index > from) {
+          index = haystack.indexOf(needle);
+        } else if (block.index < from || !caret) {
+          index = haystack.lastIndexOf(needle);
+        } else {
+          // Before the caret, else after it
+          const limit = caret.offset - needle.length;
+          index = limit >= 0 ? haystack.lastIndexOf(needle, limit) : -1;
+          if (index < 0) index = haystack.indexOf(needle);
+        }
+        if (index >= 0) {
+          const start = { block, offset: index };
+          const end = { block, offset: index + needle.length };
+          return { start, end, head: end };
+        }
+      }
+    }
+    throw new Error(`Text not found: "${target}"`);
+  }
+}
+
+// ── Segmentation ────────────────────────────────────────────────────
+
+/**
+ * The sentence the caret is in or just after, as `[from, to)`. When it
+ * ends the text, the space before it goes too.
+ */
+export function sentenceAt(
+  segmenter: Intl.Segmenter,
+  text: string,
+  offset: number
+): [number, number] | null {
+  const at = Math.max(0, Math.min(offset, text.length) - 1);
+  for (const { segment, index } of segmenter.segment(text)) {
+    if (at < index + segment.length) {
+      return trimSpan(text, index, index + segment.length);
+    }
+  }
+  return null;
+}
+
+/**
+ * The last word starting before the caret, as `[from, to)`, with the
+ * space that separated it from the previous word.
+ */
+export function wordBefore(
+  segmenter: Intl.Segmenter,
+  text: string,
+  offset: number
+): [number, number] | null {
+  let word: [number, number] | null = null;
+  for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+    if (index >= offset) break;
+    if (isWordLike) word = [index, index + segment.length];
+  }
+  if (!word) return null;
+  const [from, to] = word;
+  const spaceBefore = text.slice(0, from).match(/\s+$/)?.[0].length ?? 0;
+  if (spaceBefore > 0) return [from - spaceBefore, to];
+  const spaceAfter = text.slice(to).match(/^\s+/)?.[0].length ?? 0;
+  return [from, to + spaceAfter];
+}
+
+/** Take the space before a span along when nothing but space follows it */
+function trimSpan(text: string, from: number, to: number): [number, number] {
+  if (text.slice(to).trim()) return [from, to];
+  const kept = text.slice(0, from).trimEnd().length;
+  return [kept, text.length];
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Plain text of a block's text node; embeds count as one character */
+function blockText(
+  block: any /* TODO: QDoc migration — XmlElement not yet in QDoc */
+): string {
+  const text = block.length > 0 ? block.get(0) : null;
+  if (!text || typeof text.toDelta !== 'function') return '';
+  return text
+    .toDelta()
+    .map((run: { insert: unknown }) =>
+      typeof run.insert === 'string' ? run.insert : '￼'
+    )
+    .join('');
+}
+
+function resolve(
+  blocks: TextBlock[],
+  position: DocumentPosition
+): ResolvedPosition | null {
+  const block = blocks.find((b) => b.id === position.blockId);
+  if (!block) return null;
+  return { block, offset: Math.min(position.offset, block.text.length) };
+}
+
+function toPosition(position: ResolvedPosition): DocumentPosition {
+  return { blockId: position.block.id, offset: position.offset };
+}
+
+function comparePositions(a: ResolvedPosition, b: ResolvedPosition): number {
+  return a.block.index - b.block.index || a.offset - b.offset;
+}
+
+function isCollapsed(range: ResolvedRange): boolean {
+  return comparePositions(range.start, range.end) === 0;
+}
+
+function flattenToc(entries: TableOfContentsEntry[]): TableOfContentsEntry[] {
+  return entries.flatMap((entry) => [entry, ...flattenToc(entry.children)]);
+}
+
+function sectionWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => !SECTION_FILLER.has(word)
+  );
+}
+
+/**
+ * The heading that best matches a spoken query: an exact match, else
+ * the one containing the largest share of the query's words. Earlier
+ * headings win ties.
+ */
+function bestHeading(
+  headings: TableOfContentsEntry[],
+  query: string
+): TableOfContentsEntry | null {
+  const wanted = sectionWords(query);
+  if (wanted.length === 0) return null;
+
+  let best: TableOfContentsEntry | null = null;
+  let bestScore = 0;
+  for (const heading of headings) {
+    const words = sectionWords(heading.text);
+    const score =
+      words.join(' ') === wanted.join(' ')
+        ? 2
+        : wanted.filter((w) => words.includes(w)).length / wanted.length;
+    if (score > bestScore) {
+      best = heading;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,353 @@
+import { describe, it, expect } from 'vitest';
+import { VoiceConformance } from './VoiceConformance';
+import { VoiceEngine } from './VoiceEngine';
+import { measureStyle } from './style';
+import {
+  EmbeddingDocument,
+  createEmbeddedNode,
+  type BlockType,
+} from '../core/EmbeddingDocument';
+import type { RevisionManager } from '../revisions/RevisionManager';
+import type { BlockSnapshot } from '../revisions/diff';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/** Short, direct, active sentences */
+const CRISP = [
+  'The parser reads each line once. It keeps no state between lines.',
+  'Writers open a draft and start typing. The editor saves every change.',
+  'The index stores one vector per block. Queries scan the nearest few.',
+  'Reviewers leave comments on a block. Authors resolve them in place.',
+  'The server signs each release. Clients check the signature first.',
+];
+
+/** Long, passive, casual */
+const RAMBLING =
+  "So basically the whole thing was kinda rewritten by us last week and honestly it's " +
+  'pretty awesome because lots of stuff was changed and the old code was thrown away ' +
+  "and I think you're gonna really love it once it gets deployed to everyone!";
+
+function engineWithModel(): { engine: VoiceEngine; modelId: string } {
+  const engine = new VoiceEngine(() => 'voice-1');
+  const model = engine.train(
+    'crisp',
+    'did:key:alice',
+    CRISP.map((text, i) => ({
+      text,
+      embedding: new Float32Array([1 + i * 0.01, 0]),
+      classification: { sentiment: 0, topic: 'engineering', confidence: 1 },
+      entities: [],
+    }))
+  );
+  return { engine, modelId: model.id };
+}
+
+function createDoc(
+  blocks: Array<{ text: string; type?: BlockType; embedding?: number[] }>
+): EmbeddingDocument {
+  const doc = new EmbeddingDocument('doc-1');
+  blocks.forEach(({ text, type = 'paragraph', embedding = [1.02, 0] }, i) => {
+    const node = createEmbeddedNode(`b${i}`, text, type, 'did:key:alice');
+    node.embedding = new Float32Array(embedding);
+    doc.insertNode(node, i);
+  });
+  return doc;
+}
+
+function snapshot(id: string, text: string, type = 'paragraph'): BlockSnapshot {
+  return {
+    id,
+    type,
+    text: `<${type}>${text}</${type}>`,
+    position: 0,
+    attributes: {},
+  };
+}
+
+/** A revision manager holding fixed block snapshots, newest first */
+function fakeRevisions(
+  revisions: Array<{ id: string; blocks: BlockSnapshot[] }>
+): RevisionManager {
+  const meta = revisions.map(({ id }, i) => ({
+    id,
+    label: `Revision ${id}`,
+    createdAt: `2026-01-0${i + 1}T00:00:00.000Z`,
+  }));
+  return {
+    listRevisions: () => [...meta].reverse(),
+    getRevision: (id: string) => meta.find((r) => r.id === id),
+    getBlocks: async (id: string) =>
+      revisions.find((r) => r.id === id)?.blocks ?? [],
+  } as unknown as RevisionManager;
+}
+
+// ── Block conformance ───────────────────────────────────────────────
+
+describe('VoiceConformance', () => {
+  it('flags blocks out of voice with the features responsible', () => {
+    const { engine, modelId } = engineWithModel();
+    const conformance = new VoiceConformance(engine);
+    const report = conformance.analyze(
+      modelId,
+      createDoc([
+        { text: 'The cache holds recent blocks. It evicts the oldest one.' },
+        { text: RAMBLING },
+      ])
+    );
+
+    expect(report.documentId).toBe('doc-1');
+    expect(report.blocks.map((b) => b.blockId)).toEqual(['b0', 'b1']);
+    expect(report.outliers).toEqual(['b1']);
+
+    const [inVoice, outOfVoice] = report.blocks;
+    expect(inVoice.flagged).toEqual([]);
+    expect(inVoice.score).toBeGreaterThan(outOfVoice.score);
+
+    const flagged = outOfVoice.flagged.map((d) => d.feature);
+    expect(flagged).toContain('avgSentenceLength');
+    expect(flagged).toContain('formality');
+    const length = outOfVoice.flagged.find(
+      (d) => d.feature === 'avgSentenceLength'
+    )!;
+    expect(length.delta).toBeGreaterThan(20);
+    expect(length.expected).toBeCloseTo(
+      engine.getModel(modelId)!.features.avgSentenceLength
+    );
+    for (let i = 1; i < outOfVoice.flagged.length; i++) {
+      expect(outOfVoice.flagged[i].deviation).toBeLessThanOrEqual(
+        outOfVoice.flagged[i - 1].deviation
+      );
+    }
+  });
+
+  it('does not flag a block of a large training corpus', () => {
+    const engine = new VoiceEngine(() => 'voice-1');
+    const model = engine.train(
+      'crisp',
+      'did:key:alice',
+      Array.from({ length: 40 }, (_, i) => ({
+        text: CRISP[i % CRISP.length],
+        embedding: new Float32Array([1, 0]),
+        classification: { sentiment: 0, topic: 'engineering', confidence: 1 },
+        entities: [],
+      }))
+    );
+    const report = new VoiceConformance(engine).analyze(
+      model.id,
+      createDoc([{ text: CRISP[0], embedding: [1, 0] }])
+    );
+    expect(report.blocks[0].flagged).toEqual([]);
+  });
+
+  it('weighs in embedding similarity', () => {
+    const { engine, modelId } = engineWithModel();
+    const text = 'The cache holds recent blocks. It evicts the oldest one.';
+    const report = new VoiceConformance(engine, { minScore: 0.6 }).analyze(
+      modelId,
+      createDoc([{ text }, { text, embedding: [0, 5] }])
+    );
+    const [near, far] = report.blocks;
+    expect(near.styleScore).toBe(far.styleScore);
+    expect(far.embeddingScore).toBeLessThan(near.embeddingScore);
+    expect(report.outliers).toEqual(['b1']);
+  });
+
+  it('skips short and non-prose blocks', () => {
+    const { engine, modelId } = engineWithModel();
+    const report = new VoiceConformance(engine).analyze(
+      modelId,
+      createDoc([
+        { text: 'Overview', type: 'heading' },
+        { text: RAMBLING, type: 'code' },
+        { text: 'The cache holds recent blocks. It evicts the oldest one.' },
+      ])
+    );
+    expect(report.skipped).toEqual(['b0', 'b1']);
+    expect(report.blocks.map((b) => b.blockId)).toEqual(['b2']);
+  });
+
+  it('honours custom tolerances', () => {
+    const { engine, modelId } = engineWithModel();
+    const doc = createDoc([{ text: RAMBLING }]);
+    const lenient = new VoiceConformance(engine, {
+      tolerances: {
+        avgSentenceLength: 100,
+        formality: 1,
+        activeVoiceRatio: 1,
+        readabilityGrade: 20,
+      },
+      minScore: 0,
+    });
+    expect(lenient.analyze(modelId, doc).outliers).toEqual([]);
+  });
+
+  it('rejects unknown models', () => {
+    const { engine } = engineWithModel();
+    expect(() =>
+      new VoiceConformance(engine).analyze('nope', createDoc([]))
+    ).toThrow('Unknown voice model: nope');
+  });
+});
+
+// ── Drift ───────────────────────────────────────────────────────────
+
+describe('VoiceConformance drift', () => {
+  it('tracks revisions drifting away from the voice, oldest first', async () => {
+    const { engine, modelId } = engineWithModel();
+    const revisions = fakeRevisions([
+      {
+        id: 'r1',
+        blocks: [
+          snapshot(
+            'b1',
+            'The cache holds recent blocks. It evicts the oldest one.'
+          ),
+          snapshot(
+            'b2',
+            'const x = 1; // a long enough code comment here',
+            'code'
+          ),
+        ],
+      },
+      {
+        id: 'r2',
+        blocks: [
+          snapshot(
+            'b1',
+            'The cache holds recent blocks. It evicts the oldest one.'
+          ),
+          snapshot('b3', RAMBLING),
+        ],
+      },
+    ]);
+
+    const report = await new VoiceConformance(engine).drift(modelId, revisions);
+    expect(report.points.map((p) => p.revisionId)).toEqual(['r1', 'r2']);
+    expect(report.points[0].label).toBe('Revision r1');
+    expect(report.points[0].outliers).toEqual([]);
+    expect(report.points[1].outliers).toEqual(['b3']);
+    expect(report.scoreChange).toBeLessThan(0);
+    expect(report.featureChange.avgSentenceLength).toBeGreaterThan(5);
+    expect(report.featureChange.formality).toBeLessThan(0);
+  });
+
+  it('compares only the requested revisions', async () => {
+    const { engine, modelId } = engineWithModel();
+    const revisions = fakeRevisions([
+      { id: 'r1', blocks: [snapshot('b1', RAMBLING)] },
+      { id: 'r2', blocks: [snapshot('b1', RAMBLING)] },
+      { id: 'r3', blocks: [snapshot('b1', CRISP[0])] },
+    ]);
+    const conformance = new VoiceConformance(engine);
+
+    const report = await conformance.drift(modelId, revisions, ['r1', 'r3']);
+    expect(report.points.map((p) => p.revisionId)).toEqual(['r1', 'r3']);
+    expect(report.scoreChange).toBeGreaterThan(0);
+    await expect(conformance.drift(modelId, revisions, ['r9'])).rejects.toThrow(
+      'Unknown revision: r9'
+    );
+  });
+});
+
+// ── Model sharing ───────────────────────────────────────────────────
+
+describe('VoiceEngine export and import', () => {
+  it('round-trips a model through JSON', () => {
+    const { engine, modelId } = engineWithModel();
+    const exported = engine.exportModel(modelId)!;
+    expect(exported.version).toBe(1);
+
+    const other = new VoiceEngine(() => 'unused');
+    const imported = other.importModel(JSON.parse(JSON.stringify(exported)));
+    const original = engine.getModel(modelId)!;
+    expect(imported.id).toBe(modelId);
+    expect(imported.centroid).toEqual(original.centroid);
+    expect(imported.variance).toEqual(original.variance);
+    expect(imported.features).toEqual(original.features);
+    expect(other.score(modelId, new Float32Array([1.02, 0]))).toBe(
+      engine.score(modelId, new Float32Array([1.02, 0]))
+    );
+    expect(engine.exportModel('nope')).toBeNull();
+  });
+
+  it('rejects unsupported or malformed models', () => {
+    const { engine, modelId } = engineWithModel();
+    const exported = engine.exportModel(modelId)!;
+    expect(() =>
+      engine.importModel({ ...exported, version: 2 } as never)
+    ).toThrow('Unsupported voice model version: 2');
+    expect(() => engine.importModel({ ...exported, centroid: [1] })).toThrow(
+      'Malformed voice model'
+    );
+    const { readabilityGrade: _, ...partial } = exported.features;
+    expect(() =>
+      engine.importModel({ ...exported, features: partial } as never)
+    ).toThrow('Malformed voice model');
+    expect(() =>
+      engine.importModel({ ...exported, features: undefined } as never)
+    ).toThrow('Malformed voice model');
+    for (const field of [
+      { centroid: [NaN, 0] },
+      { variance: [0, Infinity] },
+      { label: 7 },
+      { ownerDid: null },
+      { sampleCount: -1 },
+      { sampleCount: '5' },
+      { updatedAt: undefined },
+    ]) {
+      expect(() =>
+        engine.importModel({ ...exported, ...field } as never)
+      ).toThrow('Malformed voice model');
+    }
+  });
+
+  it('only replaces an existing model when asked to', () => {
+    const { engine, modelId } = engineWithModel();
+    const exported = engine.exportModel(modelId)!;
+    expect(() => engine.importModel(exported)).toThrow(
+      `Voice model ${modelId} already exists`
+    );
+
+    const relabeled = engine.importModel(
+      { ...exported, label: 'Relabeled' },
+      { replace: true }
+    );
+    expect(engine.getModel(modelId)).toBe(relabeled);
+    expect(relabeled.label).toBe('Relabeled');
+  });
+});
+
+// ── Style measures ──────────────────────────────────────────────────
+
+describe('measureStyle', () => {
+  it('separates casual from formal prose', () => {
+    const casual = measureStyle(["Yeah, we're gonna fix it. It's super cool!"]);
+    const formal = measureStyle([
+      'The implementation, however, requires considerable documentation. ' +
+        'Consequently, the specification remains under consideration.',
+    ]);
+    expect(casual.formality).toBeLessThan(0.5);
+    expect(formal.formality).toBeGreaterThan(0.5);
+  });
+
+  it('counts passive sentences', () => {
+    const style = measureStyle([
+      'The report was written by the team. The team reviewed it. ' +
+        'Results were carefully checked. Everyone agreed.',
+    ]);
+    expect(style.sentenceCount).toBe(4);
+    expect(style.activeVoiceRatio).toBe(0.5);
+  });
+
+  it('grades readability the same however much text is measured', () => {
+    const one = measureStyle(CRISP);
+    const many = measureStyle(Array.from({ length: 20 }, () => CRISP).flat());
+    expect(many.readabilityGrade).toBeCloseTo(one.readabilityGrade);
+
+    const dense = measureStyle([
+      'The implementation, however, requires considerable documentation. ' +
+        'Consequently, the specification remains under consideration.',
+    ]);
+    expect(dense.readabilityGrade).toBeGreaterThan(one.readabilityGrade + 5);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * VoiceConformance — Which parts of a draft are out of voice
+ *
+ * Scores every block of a document against a trained `VoiceModel`:
+ *   - embedding similarity to the model's centroid (`VoiceEngine.score`)
+ *   - style: sentence length, formality, active-voice ratio and
+ *     readability, compared with the model's `VoiceFeatures`
+ *
+ * Blocks whose style strays beyond a per-feature tolerance are flagged
+ * with the features responsible ("sentences 9 words longer, much more
+ * passive"), so an author knows what to change, not just where.
+ *
+ * Drift reports run the style comparison across the revisions of a
+ * document to show it moving toward or away from the voice over time.
+ * Old revisions carry no embeddings, so drift is measured on style
+ * alone.
+ */
+
+import type { EmbeddingDocument } from '../core/EmbeddingDocument';
+import type { RevisionManager } from '../revisions/RevisionManager';
+import type { VoiceEngine, VoiceModel } from './VoiceEngine';
+import { measureStyle, type StyleMeasures } from './style';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** The style features blocks are compared on */
+export type ConformanceFeature =
+  'avgSentenceLength' | 'formality' | 'activeVoiceRatio' | 'readabilityGrade';
+
+export interface FeatureDelta {
+  readonly feature: ConformanceFeature;
+  /** The model's value */
+  readonly expected: number;
+  /** The block's value */
+  readonly actual: number;
+  /** `actual - expected` */
+  readonly delta: number;
+  /** `|delta|` in units of the feature's tolerance; above 1 is flagged */
+  readonly deviation: number;
+}
+
+export interface BlockConformance {
+  readonly blockId: string;
+  /** Similarity of the block's embedding to the model (0-1) */
+  readonly embeddingScore: number;
+  /** How close the block's style is to the model's (0-1) */
+  readonly styleScore: number;
+  /** Both combined (0-1) */
+  readonly score: number;
+  /** Every compared feature */
+  readonly deltas: FeatureDelta[];
+  /** Features beyond tolerance, largest deviation first */
+  readonly flagged: FeatureDelta[];
+  /** Whether the block is out of voice */
+  readonly outlier: boolean;
+}
+
+export interface ConformanceReport {
+  readonly modelId: string;
+  readonly documentId: string;
+  /** Mean block score weighted by word count (0-1) */
+  readonly score: number;
+  /** Scored blocks in document order */
+  readonly blocks: BlockConformance[];
+  /** Out-of-voice blocks, lowest score first */
+  readonly outliers: string[];
+  /** Blocks not scored: too short, or not prose (code, images, ...) */
+  readonly skipped: string[];
+}
+
+/** Style conformance of one revision */
+export interface DriftPoint {
+  readonly revisionId: string;
+  readonly label: string;
+  readonly createdAt: string;
+  /** Style score of the revision's prose as a whole (0-1) */
+  readonly score: number;
+  /** Feature deltas of the revision's prose as a whole */
+  readonly deltas: FeatureDelta[];
+  /** Blocks whose style is out of voice in this revision */
+  readonly outliers: string[];
+}
+
+export interface DriftReport {
+  readonly modelId: string;
+  /** Oldest revision first */
+  readonly points: DriftPoint[];
+  /** Score of the last revision minus the first; negative = drifting away */
+  readonly scoreChange: number;
+  /** Change of each feature's value from the first revision to the last */
+  readonly featureChange: Record<ConformanceFeature, number>;
+}
+
+export interface ConformanceConfig {
+  /** How far each feature may stray from the model before it is flagged */
+  readonly tolerances?: Partial<Record<ConformanceFeature, number>>;
+  /** Blocks scoring below this are outliers too (default: 0.4) */
+  readonly minScore?: number;
+  /** Blocks with fewer words are skipped (default: 5) */
+  readonly minWords?: number;
+  /** Weight of the embedding score in the combined score (default: 0.5) */
+  readonly embeddingWeight?: number;
+}
+
+const FEATURES: readonly ConformanceFeature[] = [
+  'avgSentenceLength',
+  'formality',
+  'activeVoiceRatio',
+  'readabilityGrade',
+];
+
+const DEFAULT_TOLERANCES: Record<ConformanceFeature, number> = {
+  avgSentenceLength: 6,
+  formality: 0.2,
+  activeVoiceRatio: 0.25,
+  readabilityGrade: 3,
+};
+
+/** Block types that don't carry the author's prose voice */
+const NON_PROSE = new Set([
+  'code',
+  'embed',
+  'image',
+  'divider',
+  'table',
+  'esi',
+]);
+
+// ── Voice Conformance ───────────────────────────────────────────────
+
+export class VoiceConformance {
+  private engine: VoiceEngine;
+  private tolerances: Record<ConformanceFeature, number>;
+  private minScore: number;
+  private minWords: number;
+  private embeddingWeight: number;
+
+  constructor(engine: VoiceEngine, config: ConformanceConfig = {}) {
+    this.engine = engine;
+    this.tolerances = { ...DEFAULT_TOLERANCES, ...config.tolerances };
+    this.minScore = config.minScore ?? 0.4;
+    this.minWords = config.minWords ?? 5;
+    this.embeddingWeight = config.embeddingWeight ?? 0.5;
+  }
+
+  /**
+   * Score every prose block of a document against a voice model.
+   */
+  analyze(modelId: string, document: EmbeddingDocument): ConformanceReport {
+    const model = this.requireModel(modelId);
+
+    const blocks: BlockConformance[] = [];
+    const skipped: string[] = [];
+    let weightedScore = 0;
+    let totalWords = 0;
+
+    for (const node of document.getOrderedNodes()) {
+      const style = measureStyle([node.text]);
+      if (NON_PROSE.has(node.blockType) || style.wordCount < this.minWords) {
+        skipped.push(node.id);
+        continue;
+      }
+
+      const embeddingScore = this.engine.score(modelId, node.embedding);
+      const { deltas, flagged, styleScore } = this.compare(model, style);
+      const score =
+        this.embeddingWeight * embeddingScore +
+        (1 - this.embeddingWeight) * styleScore;
+      blocks.push({
+        blockId: node.id,
+        embeddingScore,
+        styleScore,
+        score,
+        deltas,
+        flagged,
+        outlier: flagged.length > 0 || score < this.minScore,
+      });
+      weightedScore += score * style.wordCount;
+      totalWords += style.wordCount;
+    }
+
+    return {
+      modelId,
+      documentId: document.id,
+      score: totalWords > 0 ? weightedScore / totalWords : 1,
+      blocks,
+      outliers: blocks
+        .filter((b) => b.outlier)
+        .sort((a, b) => a.score - b.score)
+        .map((b) => b.blockId),
+      skipped,
+    };
+  }
+
+  /**
+   * Track style conformance across revisions, oldest first. Defaults
+   * to every revision of the current branch.
+   */
+  async drift(
+    modelId: string,
+    revisions: RevisionManager,
+    revisionIds?: string[]
+  ): Promise<DriftReport> {
+    const model = this.requireModel(modelId);
+    const ids =
+      revisionIds ??
+      revisions
+        .listRevisions()
+        .reverse()
+        .map((r) => r.id);
+
+    const points: DriftPoint[] = [];
+    const values: Array<Record<ConformanceFeature, number>> = [];
+    for (const id of ids) {
+      const revision = revisions.getRevision(id);
+      if (!revision) throw new Error(`Unknown revision: ${id}`);
+
+      const texts: string[] = [];
+      const outliers: string[] = [];
+      for (const block of await revisions.getBlocks(id)) {
+        if (NON_PROSE.has(block.type)) continue;
+        const text = stripMarkup(block.text);
+        const style = measureStyle([text]);
+        if (style.wordCount < this.minWords) continue;
+        texts.push(text);
+        if (this.compare(model, style).flagged.length > 0) {
+          outliers.push(block.id);
+        }
+      }
+
+      const style = measureStyle(texts);
+      const { deltas, styleScore } = this.compare(model, style);
+      points.push({
+        revisionId: id,
+        label: revision.label,
+        createdAt: revision.createdAt,
+        score: styleScore,
+        deltas,
+        outliers,
+      });
+      values.push(featureValues(style));
+    }
+
+    const first = values[0];
+    const last = values[values.length - 1];
+    const featureChange = {} as Record<ConformanceFeature, number>;
+    for (const feature of FEATURES) {
+      featureChange[feature] =
+        first && last ? last[feature] - first[feature] : 0;
+    }
+
+    return {
+      modelId,
+      points,
+      scoreChange:
+        points.length > 0
+          ? points[points.length - 1].score - points[0].score
+          : 0,
+      featureChange,
+    };
+  }
+
+  // ── Private ───────────────────────────────────────────────────
+
+  private requireModel(modelId: string): VoiceModel {
+    const model = this.engine.getModel(modelId);
+    if (!model) throw new Error(`Unknown voice model: ${modelId}`);
+    return model;
+  }
+
+  /**
+   * Compare measured style with the model. Each feature contributes
+   * `exp(-deviation² / 2)`: 1 on target, about 0.6 at the tolerance.
+   */
+  private compare(
+    model: VoiceModel,
+    style: StyleMeasures
+  ): { deltas: FeatureDelta[]; flagged: FeatureDelta[]; styleScore: number } {
+    const actual = featureValues(style);
+    const deltas = FEATURES.map((feature) => {
+      const expected = model.features[feature];
+      const delta = actual[feature] - expected;
+      return {
+        feature,
+        expected,
+        actual: actual[feature],
+        delta,
+        deviation: Math.abs(delta) / this.tolerances[feature],
+      };
+    });
+    const styleScore =
+      deltas.reduce((sum, d) => sum + Math.exp(-(d.deviation ** 2) / 2), 0) /
+      deltas.length;
+    const flagged = deltas
+      .filter((d) => d.deviation > 1)
+      .sort((a, b) => b.deviation - a.deviation);
+    return { deltas, flagged, styleScore };
+  }
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function featureValues(
+  style: StyleMeasures
+): Record<ConformanceFeature, number> {
+  return {
+    avgSentenceLength: style.avgSentenceLength,
+    formality: style.formality,
+    activeVoiceRatio: style.activeVoiceRatio,
+    readabilityGrade: style.readabilityGrade,
+  };
+}
+
+/** Revision snapshots render blocks as XML; keep the text */
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -7,8 +7,13 @@
  *
  * Pipeline: Aggregate embeddings → compute centroid + variance →
  * extract style features → constrain generation to voice envelope.
+ *
+ * Models can be exported in a versioned JSON format and imported into
+ * another workspace. `VoiceConformance` checks drafts against them.
  */
 
+import { measureStyle } from './style';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 /** A trained voice model */
@@ -55,6 +60,19 @@ export interface VoiceFeatures {
   readonly avgParagraphLength: number;
 }
 
+/** A voice model as exported for sharing between workspaces */
+export interface SerializedVoiceModel {
+  version: 1;
+  id: string;
+  label: string;
+  ownerDid: string;
+  centroid: number[];
+  variance: number[];
+  sampleCount: number;
+  features: VoiceFeatures;
+  updatedAt: string;
+}
+
 /** Voice training configuration */
 export interface VoiceTrainingConfig {
   /** Minimum number of blocks to train from */
@@ -230,33 +248,86 @@ export class VoiceEngine {
     return this.models.delete(id);
   }
 
-  // ── Private ───────────────────────────────────────────────────
+  // ── Sharing ───────────────────────────────────────────────────
+
+  /** Export a model for use in another workspace */
+  exportModel(id: string): SerializedVoiceModel | null {
+    const model = this.models.get(id);
+    if (!model) return null;
+    return {
+      version: 1,
+      id: model.id,
+      label: model.label,
+      ownerDid: model.ownerDid,
+      centroid: Array.from(model.centroid),
+      variance: Array.from(model.variance),
+      sampleCount: model.sampleCount,
+      features: {
+        ...model.features,
+        dominantTopics: [...model.features.dominantTopics],
+        entityProfile: { ...model.features.entityProfile },
+      },
+      updatedAt: model.updatedAt,
+    };
+  }
+
+  /**
+   * Import an exported model, keeping its ID. Throws if a model with
+   * the same ID exists, unless `replace` is set.
+   */
+  importModel(
+    data: SerializedVoiceModel,
+    options: { replace?: boolean } = {}
+  ): VoiceModel {
+    if (data?.version !== 1) {
+      throw new Error(`Unsupported voice model version: ${data?.version}`);
+    }
+    if (
+      typeof data.id !== 'string' ||
+      typeof data.label !== 'string' ||
+      typeof data.ownerDid !== 'string' ||
+      !(Number.isInteger(data.sampleCount) && data.sampleCount >= 0) ||
+      typeof data.updatedAt !== 'string' ||
+      !isFiniteArray(data.centroid) ||
+      !isFiniteArray(data.variance) ||
+      data.centroid.length !== data.variance.length ||
+      !isVoiceFeatures(data.features)
+    ) {
+      throw new Error('Malformed voice model');
+    }
+    if (this.models.has(data.id) && !options.replace) {
+      throw new Error(`Voice model ${data.id} already exists`);
+    }
+
+    const model: VoiceModel = {
+      id: data.id,
+      label: data.label,
+      ownerDid: data.ownerDid,
+      centroid: new Float32Array(data.centroid),
+      variance: new Float32Array(data.variance),
+      sampleCount: data.sampleCount,
+      features: data.features,
+      updatedAt: data.updatedAt,
+    };
+    this.models.set(model.id, model);
+    return model;
+  }
+
+  // ── Features ──────────────────────────────────────────────────
 
-  private extractFeatures(
+  /**
+   * Extract the style features of a set of blocks, as done when
+   * training. Also works on a single block.
+   */
+  extractFeatures(
     nodes: Array<{
       text: string;
       classification: { sentiment: number; topic: string; confidence: number };
       entities: Array<{ type: string }>;
     }>
   ): VoiceFeatures {
-    // Sentence lengths
-    const sentenceLengths = nodes.flatMap((n) =>
-      n.text
-        .split(/[.!?]+/)
-        .filter((s) => s.trim().length > 0)
-        .map((s) => s.trim().split(/\s+/).length)
-    );
-    const avgSentenceLength =
-      sentenceLengths.reduce((a, b) => a + b, 0) /
-      Math.max(sentenceLengths.length, 1);
-
-    // Vocabulary richness (type-token ratio)
-    const allWords = nodes
-      .flatMap((n) => n.text.toLowerCase().split(/\s+/))
-      .filter((w) => w.length > 0);
-    const uniqueWords = new Set(allWords);
-    const vocabularyRichness =
-      allWords.length > 0 ? uniqueWords.size / allWords.length : 0;
+    // Sentence length, vocabulary, formality, passive voice
+    const style = measureStyle(nodes.map((n) => n.text));
 
     // Sentiment
     const sentiments = nodes.map((n) => n.classification.sentiment);
@@ -291,18 +362,15 @@ export class VoiceEngine {
       Math.max(nodes.length, 1);
 
     return {
-      avgSentenceLength,
-      vocabularyRichness,
-      formality: 0.5, // TODO: derive from vocabulary/structure
+      avgSentenceLength: style.avgSentenceLength,
+      vocabularyRichness: style.vocabularyRichness,
+      formality: style.formality,
       sentimentMean,
       sentimentVariance,
       dominantTopics,
       entityProfile,
-      readabilityGrade: estimateReadabilityGrade(
-        avgSentenceLength,
-        vocabularyRichness
-      ),
-      activeVoiceRatio: 0.7, // TODO: derive from syntax analysis
+      readabilityGrade: style.readabilityGrade,
+      activeVoiceRatio: style.activeVoiceRatio,
       avgParagraphLength,
     };
   }
@@ -310,13 +378,32 @@ export class VoiceEngine {
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
-function estimateReadabilityGrade(
-  avgSentenceLength: number,
-  vocabularyRichness: number
-): number {
-  // Simplified Flesch-Kincaid approximation
-  return Math.max(
-    1,
-    Math.min(16, avgSentenceLength * 0.4 + (1 - vocabularyRichness) * 10)
+function isFiniteArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((v) => Number.isFinite(v));
+}
+
+/** Numeric features, which conformance scoring compares */
+const NUMERIC_FEATURES = [
+  'avgSentenceLength',
+  'vocabularyRichness',
+  'formality',
+  'sentimentMean',
+  'sentimentVariance',
+  'readabilityGrade',
+  'activeVoiceRatio',
+  'avgParagraphLength',
+] as const;
+
+function isVoiceFeatures(value: unknown): value is VoiceFeatures {
+  if (!value || typeof value !== 'object') return false;
+  const features = value as Record<string, unknown>;
+  const profile = features.entityProfile;
+  return (
+    NUMERIC_FEATURES.every((key) => Number.isFinite(features[key])) &&
+    Array.isArray(features.dominantTopics) &&
+    features.dominantTopics.every((t) => typeof t === 'string') &&
+    !!profile &&
+    typeof profile === 'object' &&
+    Object.values(profile).every((n) => Number.isFinite(n))
   );
 }
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { VoiceInterface } from './VoiceInterface';
 import type { VoiceEvent, VoiceCommand } from './VoiceInterface';
+import { ReplaySttBackend } from './stt';
 
 // ── DOM Mocks (needed for bun test which doesn't load vitest setupFiles) ──
 
@@ -262,4 +263,135 @@ describe('VoiceInterface', () => {
       voice.stop();
     });
   });
+
+  describe('streaming transcription', () => {
+    it('emits partial transcripts before the final one', async () => {
+      const v = new VoiceInterface(
+        makeConfig({ sttBackend: new ReplaySttBackend(['hello brave world']) })
+      );
+      const events: VoiceEvent[] = [];
+      v.on((e) => events.push(e));
+
+      await v.transcribeRecording([new Blob(['a']), new Blob(['b'])]);
+      expect(
+        events
+          .filter((e) => e.type.endsWith('transcript'))
+          .map((e) => [e.type, (e as { text: string }).text])
+      ).toEqual([
+        ['partial-transcript', 'hello'],
+        ['partial-transcript', 'hello brave'],
+        ['transcript', 'hello brave world'],
+      ]);
+      expect(v.getState().lastTranscript).toBe('hello brave world');
+      expect(v.getState().partialTranscript).toBe('');
+    });
+
+    it('acts on final transcripts', async () => {
+      const v = new VoiceInterface(
+        makeConfig({
+          sttBackend: new ReplaySttBackend([
+            {
+              results: [
+                { text: 'scroll down', isFinal: true, confidence: 0.5 },
+                { text: 'undo', isFinal: true },
+              ],
+            },
+          ]),
+        })
+      );
+      const scroll = vi.fn(async () => undefined);
+      const undo = vi.fn(async () => undefined);
+      v.onCommand('scroll', scroll);
+      v.onCommand('undo', undo);
+
+      await v.transcribeRecording([new Blob(['a'])]);
+      expect(scroll).toHaveBeenCalledWith({
+        type: 'scroll',
+        direction: 'down',
+        amount: 'page',
+      });
+      expect(undo).toHaveBeenCalled();
+      const [last, first] = v.getState().recentCommands;
+      expect(last.intent.type).toBe('undo');
+      expect(first.confidence).toBeCloseTo(0.475);
+    });
+
+    it('streams microphone audio to the backend', async () => {
+      const backend = new ReplaySttBackend(['dictated text']);
+      const v = new VoiceInterface(makeConfig({ sttBackend: backend }));
+      const commands: VoiceCommand[] = [];
+      v.on((e) => {
+        if (e.type === 'command') commands.push(e.command);
+      });
+
+      await v.start();
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(backend.recordings[0]).toHaveLength(1);
+      expect(commands.map((c) => c.intent)).toEqual([
+        { type: 'dictate', text: 'dictated text' },
+      ]);
+      v.stop();
+    });
+
+    it('finishes the utterance that was stopped, not the next one', async () => {
+      const Recorder = (globalThis as any).MediaRecorder;
+      // The last chunk and the stop event arrive after the restart
+      (globalThis as any).MediaRecorder = class extends Recorder {
+        stop() {
+          this.state = 'inactive';
+          setTimeout(() => {
+            this.ondataavailable?.({ data: new Blob(['late']) });
+            this.onstop?.();
+          }, 150);
+        }
+      };
+      try {
+        const backend = new ReplaySttBackend(['first', 'second']);
+        const v = new VoiceInterface(
+          makeConfig({ sttBackend: backend, continuous: true })
+        );
+        const transcripts: string[] = [];
+        v.on((e) => {
+          if (e.type === 'transcript') transcripts.push(e.text);
+        });
+
+        await v.start();
+        await vi.advanceTimersByTimeAsync(2200);
+        expect(backend.recordings.map((r) => r.length)).toEqual([1, 0]);
+        expect(transcripts).toEqual(['first']);
+        v.stop();
+      } finally {
+        (globalThis as any).MediaRecorder = Recorder;
+      }
+    });
+
+    it('reports backend failures', async () => {
+      const v = new VoiceInterface(
+        makeConfig({
+          sttBackend: {
+            start: () => ({
+              write: () => undefined,
+              end: async () => Promise.reject(new Error('offline')),
+              abort: () => undefined,
+            }),
+          },
+        })
+      );
+      const events: VoiceEvent[] = [];
+      v.on((e) => events.push(e));
+
+      await v.transcribeRecording([new Blob(['a'])]);
+      expect(events).toContainEqual({
+        type: 'error',
+        error: 'Transcription failed: Error: offline',
+      });
+      expect(v.getState().processing).toBe(false);
+    });
+
+    it('needs a backend or an endpoint', () => {
+      expect(
+        () => new VoiceInterface(makeConfig({ sttEndpoint: undefined }))
+      ).toThrow('VoiceInterface needs an sttBackend or sttEndpoint');
+    });
+  });
 });
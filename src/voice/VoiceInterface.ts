@@ -12,7 +12,10 @@
  *   - "Insert a transition after the introduction"
  *   - "What did I write about security?"
  *
- * Uses Edgework STT for transcription. All processing at the edge.
+ * Uses Edgework STT for transcription by default; any `SttBackend`
+ * (see `stt.ts`) can be plugged in. Streaming backends deliver partial
+ * transcripts while the user is still speaking. `VoiceBindings` (see
+ * `VoiceBindings.ts`) runs the parsed commands against a document.
  *
  * Three modes:
  *   1. DICTATION — voice → text (speech becomes content)
@@ -20,6 +23,8 @@
  *   3. CONVERSATION — voice → AI interaction (ask questions, request edits)
  */
 
+import { HttpSttBackend, type SttBackend, type SttStream } from './stt';
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export type VoiceMode = 'dictation' | 'navigation' | 'conversation';
@@ -79,15 +84,19 @@ export interface VoiceState {
   readonly processing: boolean;
   /** Last transcript */
   readonly lastTranscript: string;
+  /** Transcript of the utterance in progress, until it is final */
+  readonly partialTranscript: string;
   /** Recent commands */
   readonly recentCommands: VoiceCommand[];
 }
 
 export interface VoiceInterfaceConfig {
-  /** Edgework STT endpoint */
-  readonly sttEndpoint: string;
+  /** Edgework STT endpoint (used when no `sttBackend` is given) */
+  readonly sttEndpoint?: string;
   /** Edgework auth token */
   readonly sttAuthToken?: string;
+  /** Speech-to-text backend (default: Edgework over HTTP) */
+  readonly sttBackend?: SttBackend;
   /** Inference function for intent parsing */
   readonly inferFn: (prompt: string) => Promise<string>;
   /** TTS function for read-aloud */
@@ -108,7 +117,13 @@ export class VoiceInterface {
   private config: VoiceInterfaceConfig;
   private state: VoiceState;
   private mediaRecorder: MediaRecorder | null = null;
-  private audioChunks: Blob[] = [];
+  private stt: SttBackend;
+  /** Utterance being recorded and transcribed */
+  private sttStream: SttStream | null = null;
+  /** Utterance stopped but still waiting for its last chunk */
+  private stoppingStream: SttStream | null = null;
+  /** Final transcripts are handled one at a time, in order */
+  private transcripts: Promise<void> = Promise.resolve();
   private listeners: Set<(event: VoiceEvent) => void> = new Set();
   private commandHandlers: Map<string, (intent: VoiceIntent) => Promise<void>> =
     new Map();
@@ -116,12 +131,22 @@ export class VoiceInterface {
 
   constructor(config: VoiceInterfaceConfig) {
     this.config = config;
+    if (config.sttBackend) {
+      this.stt = config.sttBackend;
+    } else if (config.sttEndpoint) {
+      this.stt = new HttpSttBackend(config.sttEndpoint, {
+        authToken: config.sttAuthToken,
+      });
+    } else {
+      throw new Error('VoiceInterface needs an sttBackend or sttEndpoint');
+    }
     this.state = {
       active: false,
       mode: config.defaultMode ?? 'dictation',
       listening: false,
       processing: false,
       lastTranscript: '',
+      partialTranscript: '',
       recentCommands: [],
     };
   }
@@ -149,14 +174,14 @@ export class VoiceInterface {
 
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          this.audioChunks.push(event.data);
+          (this.stoppingStream ?? this.sttStream)?.write(event.data);
         }
       };
 
       this.mediaRecorder.onstop = async () => {
-        if (this.audioChunks.length > 0) {
-          await this.processAudio();
-        }
+        const stream = this.stoppingStream;
+        this.stoppingStream = null;
+        if (stream) await this.finishUtterance(stream);
       };
 
       this.updateState({ active: true, listening: true });
@@ -223,6 +248,17 @@ export class VoiceInterface {
     }
   }
 
+  /**
+   * Transcribe recorded audio as one utterance and act on it, as if it
+   * had been spoken. Needs no microphone; useful for tests and for
+   * replaying recordings.
+   */
+  async transcribeRecording(chunks: readonly Blob[]): Promise<void> {
+    const stream = this.openUtterance();
+    for (const chunk of chunks) stream.write(chunk);
+    await this.finishUtterance(stream);
+  }
+
   /**
    * Get current state.
    */
@@ -243,7 +279,7 @@ export class VoiceInterface {
   private startListening(): void {
     if (!this.mediaRecorder || this.mediaRecorder.state === 'recording') return;
 
-    this.audioChunks = [];
+    this.sttStream = this.openUtterance();
     this.mediaRecorder.start(250); // collect data every 250ms
 
     // Detect silence to know when a "sentence" is done
@@ -256,9 +292,19 @@ export class VoiceInterface {
       this.silenceTimeout = null;
     }
 
-    if (this.mediaRecorder?.state === 'recording') {
-      this.mediaRecorder.stop();
-    }
+    this.stopRecording();
+  }
+
+  /**
+   * Stop recording the current utterance. Its last chunk and the stop
+   * event arrive after `stop()`, possibly once the next utterance is
+   * recording, so the stream is set aside for them now.
+   */
+  private stopRecording(): void {
+    if (this.mediaRecorder?.state !== 'recording') return;
+    this.stoppingStream = this.sttStream;
+    this.sttStream = null;
+    this.mediaRecorder.stop();
   }
 
   private resetSilenceDetection(): void {
@@ -267,7 +313,7 @@ export class VoiceInterface {
     // After 2 seconds of no new data, process what we have
     this.silenceTimeout = setTimeout(() => {
       if (this.mediaRecorder?.state === 'recording') {
-        this.mediaRecorder.stop();
+        this.stopRecording();
         // Restart for continuous mode
         if (this.config.continuous !== false && this.state.active) {
           setTimeout(() => this.startListening(), 100);
@@ -276,61 +322,65 @@ export class VoiceInterface {
     }, 2000);
   }
 
-  private async processAudio(): Promise<void> {
-    this.updateState({ processing: true });
+  private openUtterance(): SttStream {
+    return this.stt.start(
+      {
+        language: this.config.language ?? 'en-US',
+        mimeType: this.getSupportedMimeType(),
+      },
+      (result) => {
+        if (!result.isFinal) {
+          this.updateState({ partialTranscript: result.text });
+          this.emit({ type: 'partial-transcript', text: result.text });
+          return;
+        }
+        this.updateState({ partialTranscript: '' });
+        const transcript = result.text;
+        if (transcript.trim().length === 0) return;
+        this.transcripts = this.transcripts.then(() =>
+          this.handleTranscript(transcript, result.confidence)
+        );
+      }
+    );
+  }
 
-    const audioBlob = new Blob(this.audioChunks, {
-      type: this.getSupportedMimeType(),
-    });
-    this.audioChunks = [];
+  /** No more audio for this utterance: wait for its final results */
+  private async finishUtterance(stream: SttStream): Promise<void> {
+    this.updateState({ processing: true });
 
     try {
-      // Send to Edgework STT
-      const transcript = await this.transcribeViaEdgework(audioBlob);
-      if (!transcript || transcript.trim().length === 0) {
-        this.updateState({ processing: false });
-        return;
-      }
+      await stream.end();
+    } catch (err) {
+      this.emit({ type: 'error', error: `Transcription failed: ${err}` });
+    }
+    await this.transcripts;
 
-      this.updateState({ lastTranscript: transcript });
-      this.emit({ type: 'transcript', text: transcript });
+    this.updateState({ processing: false, partialTranscript: '' });
+  }
+
+  private async handleTranscript(
+    transcript: string,
+    confidence?: number
+  ): Promise<void> {
+    this.updateState({ lastTranscript: transcript });
+    this.emit({ type: 'transcript', text: transcript });
 
+    try {
       // Parse intent based on mode
-      const command = await this.parseCommand(transcript);
+      const command = await this.parseCommand(transcript, confidence);
       this.addCommand(command);
 
       // Execute command
       await this.executeCommand(command);
     } catch (err) {
-      this.emit({ type: 'error', error: `Transcription failed: ${err}` });
+      this.emit({ type: 'error', error: `Command failed: ${err}` });
     }
-
-    this.updateState({ processing: false });
   }
 
-  private async transcribeViaEdgework(audioBlob: Blob): Promise<string> {
-    const formData = new FormData();
-    formData.append('audio', audioBlob, 'recording.webm');
-    formData.append('language', this.config.language ?? 'en-US');
-
-    const headers: Record<string, string> = {};
-    if (this.config.sttAuthToken) {
-      headers['Authorization'] = `Bearer ${this.config.sttAuthToken}`;
-    }
-
-    const response = await fetch(this.config.sttEndpoint, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-
-    if (!response.ok) throw new Error(`STT error: ${response.status}`);
-
-    const result = await response.json();
-    return result.text ?? result.transcript ?? '';
-  }
-
-  private async parseCommand(transcript: string): Promise<VoiceCommand> {
+  private async parseCommand(
+    transcript: string,
+    sttConfidence = 1
+  ): Promise<VoiceCommand> {
     const mode = this.state.mode;
     let intent: VoiceIntent;
 
@@ -349,7 +399,7 @@ export class VoiceInterface {
     return {
       transcript,
       intent,
-      confidence: quickIntent ? 0.95 : 0.7,
+      confidence: (quickIntent ? 0.95 : 0.7) * sttConfidence,
       timestamp: new Date().toISOString(),
       executed: false,
     };
@@ -376,6 +426,8 @@ export class VoiceInterface {
       return { type: 'delete', target: 'sentence' };
     if (lower === 'delete paragraph')
       return { type: 'delete', target: 'paragraph' };
+    if (lower === 'delete word' || lower === 'delete last word')
+      return { type: 'delete', target: 'word' };
 
     // Navigation
     if (lower === 'scroll down')
@@ -485,6 +537,7 @@ export type VoiceEvent =
   | { type: 'started'; mode: VoiceMode }
   | { type: 'stopped' }
   | { type: 'mode-changed'; mode: VoiceMode }
+  | { type: 'partial-transcript'; text: string }
   | { type: 'transcript'; text: string }
   | { type: 'command'; command: VoiceCommand }
   | { type: 'error'; error: string };
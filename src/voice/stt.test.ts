@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  HttpSttBackend,
+  ReplaySttBackend,
+  WebSocketSttBackend,
+  replayAudio,
+  type SttResult,
+  type SttSocketLike,
+} from './stt';
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const options = { language: 'en-US', mimeType: 'audio/webm' };
+
+class FakeSocket implements SttSocketLike {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  sent: Array<string | Blob> = [];
+  closed = false;
+
+  send(data: string | Blob): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  receive(message: object): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+function socketBackend() {
+  const sockets: FakeSocket[] = [];
+  const backend = new WebSocketSttBackend('wss://stt.test/stream', {
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  return { backend, sockets };
+}
+
+// ── HTTP ────────────────────────────────────────────────────────────
+
+describe('HttpSttBackend', () => {
+  it('posts the utterance once it ends', async () => {
+    const fetchFn = vi.fn(
+      async (_url: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(JSON.stringify({ text: 'hello', confidence: 0.8 }))
+    );
+    const backend = new HttpSttBackend('https://stt.test/v1', {
+      authToken: 'secret',
+      fetchFn,
+    });
+
+    const results = await replayAudio(backend, [
+      new Blob(['a']),
+      new Blob(['b']),
+    ]);
+    expect(results).toEqual([
+      { text: 'hello', isFinal: true, confidence: 0.8 },
+    ]);
+
+    const init = fetchFn.mock.calls[0][1];
+    expect(init?.headers).toEqual({ Authorization: 'Bearer secret' });
+    const audio = (init?.body as FormData).get('audio') as Blob;
+    expect(await audio.text()).toBe('ab');
+  });
+
+  it('skips silent utterances and reports failures', async () => {
+    const fetchFn = vi.fn(async () => new Response('', { status: 503 }));
+    const backend = new HttpSttBackend('https://stt.test/v1', { fetchFn });
+
+    expect(await replayAudio(backend, [])).toEqual([]);
+    expect(fetchFn).not.toHaveBeenCalled();
+    await expect(replayAudio(backend, [new Blob(['a'])])).rejects.toThrow(
+      'STT error: 503'
+    );
+  });
+
+  it('cancels the request when aborted', async () => {
+    let signal: AbortSignal | undefined;
+    const fetchFn = vi.fn(
+      (_url: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          signal = init?.signal ?? undefined;
+          signal?.addEventListener('abort', () =>
+            reject(new DOMException('Aborted', 'AbortError'))
+          );
+        })
+    );
+    const backend = new HttpSttBackend('https://stt.test/v1', { fetchFn });
+    const results: SttResult[] = [];
+    const stream = backend.start(options, (r) => results.push(r));
+    stream.write(new Blob(['a']));
+
+    const ended = stream.end();
+    stream.abort();
+    await ended;
+    expect(signal?.aborted).toBe(true);
+    expect(results).toEqual([]);
+  });
+});
+
+// ── WebSocket ───────────────────────────────────────────────────────
+
+describe('WebSocketSttBackend', () => {
+  it('streams audio and delivers partial and final results', async () => {
+    const { backend, sockets } = socketBackend();
+    const results: SttResult[] = [];
+    const stream = backend.start(options, (r) => results.push(r));
+    const chunk = new Blob(['a']);
+    stream.write(chunk);
+
+    const [socket] = sockets;
+    expect(socket.sent).toEqual([]);
+    socket.onopen?.({});
+    expect(JSON.parse(socket.sent[0] as string)).toEqual({
+      type: 'start',
+      ...options,
+    });
+    expect(socket.sent[1]).toBe(chunk);
+
+    socket.receive({ type: 'partial', text: 'hel' });
+    const ended = stream.end();
+    expect(JSON.parse(socket.sent[2] as string)).toEqual({ type: 'end' });
+    socket.receive({ type: 'final', text: 'hello', confidence: 0.9 });
+    socket.onclose?.({});
+    await ended;
+
+    expect(results).toEqual([
+      { text: 'hel', isFinal: false, confidence: undefined },
+      { text: 'hello', isFinal: true, confidence: 0.9 },
+    ]);
+  });
+
+  it('rejects end() on a server error', async () => {
+    const { backend, sockets } = socketBackend();
+    const stream = backend.start(options, () => undefined);
+    sockets[0].onopen?.({});
+    sockets[0].receive({ type: 'error', message: 'no speech model' });
+
+    await expect(stream.end()).rejects.toThrow('STT error: no speech model');
+    expect(sockets[0].closed).toBe(true);
+  });
+
+  it('fails end() if the server never closes', async () => {
+    vi.useFakeTimers();
+    try {
+      const sockets: FakeSocket[] = [];
+      const backend = new WebSocketSttBackend('wss://stt.test/stream', {
+        createSocket: () => {
+          sockets.push(new FakeSocket());
+          return sockets[0];
+        },
+        endTimeoutMs: 1000,
+      });
+      const stream = backend.start(options, () => undefined);
+      sockets[0].onopen?.({});
+
+      const ended = expect(stream.end()).rejects.toThrow(
+        'STT timed out waiting for results'
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      await ended;
+      expect(sockets[0].closed).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops delivering results once aborted', () => {
+    const { backend, sockets } = socketBackend();
+    const results: SttResult[] = [];
+    const stream = backend.start(options, (r) => results.push(r));
+    sockets[0].onopen?.({});
+    stream.abort();
+    sockets[0].receive({ type: 'final', text: 'late' });
+    expect(results).toEqual([]);
+    expect(sockets[0].closed).toBe(true);
+  });
+});
+
+// ── Replay ──────────────────────────────────────────────────────────
+
+describe('ReplaySttBackend', () => {
+  it('expands transcripts into word-by-word partials', async () => {
+    const backend = new ReplaySttBackend(['go to top']);
+    const results = await replayAudio(backend, [new Blob(['a'])]);
+    expect(results).toEqual([
+      { text: 'go', isFinal: false },
+      { text: 'go to', isFinal: false },
+      { text: 'go to top', isFinal: true, confidence: 1 },
+    ]);
+  });
+
+  it('paces results by the audio written', () => {
+    const backend = new ReplaySttBackend(['one two three']);
+    const results: SttResult[] = [];
+    const stream = backend.start(options, (r) => results.push(r));
+    stream.write(new Blob(['a']));
+    expect(results.map((r) => r.text)).toEqual(['one']);
+    stream.write(new Blob(['b']));
+    stream.write(new Blob(['c']));
+    // The final result waits for end()
+    expect(results.map((r) => r.text)).toEqual(['one', 'one two']);
+    expect(backend.recordings[0]).toHaveLength(3);
+  });
+
+  it('plays fixtures in order, then nothing', async () => {
+    const backend = new ReplaySttBackend([
+      { results: [{ text: 'first', isFinal: true }] },
+      'second',
+    ]);
+    expect((await replayAudio(backend, []))[0].text).toBe('first');
+    expect((await replayAudio(backend, []))[0].text).toBe('second');
+    expect(backend.remaining).toBe(0);
+    expect(await replayAudio(backend, [])).toEqual([]);
+  });
+});
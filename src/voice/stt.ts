@@ -0,0 +1,342 @@
+/**
+ * Speech-to-text backends — Where recorded audio becomes text
+ *
+ * `VoiceInterface` streams each utterance's audio to a backend as it
+ * is recorded and gets results back: partial transcripts while the
+ * user is still speaking (each replacing the previous one) and final
+ * transcripts that are parsed into commands.
+ *
+ * Backends:
+ *   - `HttpSttBackend` — posts the whole utterance once it ends (Edgework)
+ *   - `WebSocketSttBackend` — streams audio and results over a socket
+ *   - `ReplaySttBackend` — scripted results, for tests and demos
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SttResult {
+  /** Transcript so far (partial) or of a finished segment (final) */
+  readonly text: string;
+  /** Final results don't change any more; partials are superseded */
+  readonly isFinal: boolean;
+  /** Confidence (0-1), when the engine reports one */
+  readonly confidence?: number;
+}
+
+export interface SttStartOptions {
+  /** Language (BCP 47, e.g. en-US) */
+  readonly language: string;
+  /** Format of the audio chunks */
+  readonly mimeType: string;
+}
+
+/** One utterance being transcribed */
+export interface SttStream {
+  /** Feed the next chunk of recorded audio */
+  write(chunk: Blob): void;
+  /** No more audio; resolves once every result has been delivered */
+  end(): Promise<void>;
+  /** Give up on the utterance; no further results are delivered */
+  abort(): void;
+}
+
+export interface SttBackend {
+  /**
+   * Start transcribing an utterance. Results are passed to `onResult`
+   * in order; failures reject `end()`.
+   */
+  start(
+    options: SttStartOptions,
+    onResult: (result: SttResult) => void
+  ): SttStream;
+}
+
+// ── HTTP ────────────────────────────────────────────────────────────
+
+export interface HttpSttBackendOptions {
+  /** Bearer token */
+  authToken?: string;
+  /** Fetch implementation (default: global fetch) */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Posts each utterance as one file once it ends; the response
+ * (`{ text }` or `{ transcript }`) is the only, final result.
+ */
+export class HttpSttBackend implements SttBackend {
+  private fetchFn: typeof fetch;
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly options: HttpSttBackendOptions = {}
+  ) {
+    this.fetchFn = options.fetchFn ?? ((...args) => fetch(...args));
+  }
+
+  start(
+    options: SttStartOptions,
+    onResult: (result: SttResult) => void
+  ): SttStream {
+    const chunks: Blob[] = [];
+    const controller = new AbortController();
+
+    return {
+      write: (chunk) => {
+        chunks.push(chunk);
+      },
+      end: async () => {
+        if (controller.signal.aborted || chunks.length === 0) return;
+        const formData = new FormData();
+        formData.append(
+          'audio',
+          new Blob(chunks, { type: options.mimeType }),
+          'recording.webm'
+        );
+        formData.append('language', options.language);
+
+        const headers: Record<string, string> = {};
+        if (this.options.authToken) {
+          headers['Authorization'] = `Bearer ${this.options.authToken}`;
+        }
+
+        let result: { text?: string; transcript?: string; confidence?: number };
+        try {
+          const response = await this.fetchFn(this.endpoint, {
+            method: 'POST',
+            headers,
+            body: formData,
+            signal: controller.signal,
+          });
+          if (!response.ok) throw new Error(`STT error: ${response.status}`);
+          result = await response.json();
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          throw err;
+        }
+        if (controller.signal.aborted) return;
+        onResult({
+          text: result.text ?? result.transcript ?? '',
+          isFinal: true,
+          confidence: result.confidence,
+        });
+      },
+      abort: () => controller.abort(),
+    };
+  }
+}
+
+// ── WebSocket ───────────────────────────────────────────────────────
+
+/** The parts of a browser WebSocket the streaming backend uses */
+export interface SttSocketLike {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string | Blob): void;
+  close(): void;
+}
+
+export interface WebSocketSttBackendOptions {
+  /** Socket factory (default: the browser WebSocket) */
+  createSocket?: (url: string) => SttSocketLike;
+  /** Longest `end()` waits for the server to close the socket (default: 10000) */
+  endTimeoutMs?: number;
+}
+
+/**
+ * Streams audio over a WebSocket. Protocol, one socket per utterance:
+ *
+ *   → `{"type":"start","language":"en-US","mimeType":"audio/webm"}`
+ *   → binary audio chunks, as recorded
+ *   → `{"type":"end"}`
+ *   ← `{"type":"partial"|"final","text":"...","confidence":0.9}`
+ *   ← `{"type":"error","message":"..."}`
+ *
+ * The server closes the socket after the last final result; if it
+ * has not within `endTimeoutMs` of `end()`, the utterance fails.
+ */
+export class WebSocketSttBackend implements SttBackend {
+  private createSocket: (url: string) => SttSocketLike;
+  private endTimeoutMs: number;
+
+  constructor(
+    private readonly url: string,
+    options: WebSocketSttBackendOptions = {}
+  ) {
+    this.createSocket =
+      options.createSocket ??
+      ((url) => new WebSocket(url) as unknown as SttSocketLike);
+    this.endTimeoutMs = options.endTimeoutMs ?? 10000;
+  }
+
+  start(
+    options: SttStartOptions,
+    onResult: (result: SttResult) => void
+  ): SttStream {
+    const socket = this.createSocket(this.url);
+    // Sent once the socket opens
+    let queue: Array<string | Blob> | null = [
+      JSON.stringify({ type: 'start', ...options }),
+    ];
+    let error: Error | null = null;
+    let closed = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let resolveClosed: () => void = () => undefined;
+    const whenClosed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    const send = (data: string | Blob) => {
+      if (closed) return;
+      if (queue) queue.push(data);
+      else socket.send(data);
+    };
+    const finish = (reason?: Error) => {
+      if (closed) return;
+      closed = true;
+      if (timeout) clearTimeout(timeout);
+      error = error ?? reason ?? null;
+      socket.onopen = socket.onmessage = socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+      resolveClosed();
+    };
+
+    socket.onopen = () => {
+      const pending = queue ?? [];
+      queue = null;
+      for (const data of pending) socket.send(data);
+    };
+    socket.onmessage = (event) => {
+      let message: {
+        type?: string;
+        text?: string;
+        confidence?: number;
+        message?: string;
+      };
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        finish(new Error('Malformed STT message'));
+        return;
+      }
+      if (message.type === 'partial' || message.type === 'final') {
+        onResult({
+          text: message.text ?? '',
+          isFinal: message.type === 'final',
+          confidence: message.confidence,
+        });
+      } else if (message.type === 'error') {
+        finish(new Error(`STT error: ${message.message ?? 'unknown'}`));
+      }
+    };
+    socket.onerror = () => finish(new Error('STT connection failed'));
+    socket.onclose = () => finish();
+
+    return {
+      write: (chunk) => send(chunk),
+      end: async () => {
+        send(JSON.stringify({ type: 'end' }));
+        if (!closed && !timeout) {
+          timeout = setTimeout(
+            () => finish(new Error('STT timed out waiting for results')),
+            this.endTimeoutMs
+          );
+        }
+        await whenClosed;
+        if (error) throw error;
+      },
+      abort: () => finish(),
+    };
+  }
+}
+
+// ── Replay ──────────────────────────────────────────────────────────
+
+/** Scripted results for one utterance */
+export interface SttFixture {
+  readonly results: SttResult[];
+}
+
+/**
+ * Plays back scripted results instead of recognizing speech, one
+ * fixture per utterance in order. Each audio chunk written releases
+ * the next result, and `end()` releases the rest, so partials arrive
+ * while "speaking" just as with a streaming engine. A plain string is
+ * shorthand for word-by-word partials followed by the final text.
+ */
+export class ReplaySttBackend implements SttBackend {
+  private fixtures: SttFixture[];
+  /** Audio received per utterance, in order */
+  readonly recordings: Blob[][] = [];
+
+  constructor(fixtures: Array<SttFixture | string>) {
+    this.fixtures = fixtures.map((f) =>
+      typeof f === 'string' ? transcriptFixture(f) : f
+    );
+  }
+
+  /** Fixtures not yet played */
+  get remaining(): number {
+    return this.fixtures.length;
+  }
+
+  start(
+    _options: SttStartOptions,
+    onResult: (result: SttResult) => void
+  ): SttStream {
+    const results = [...(this.fixtures.shift()?.results ?? [])];
+    const audio: Blob[] = [];
+    this.recordings.push(audio);
+    let aborted = false;
+
+    return {
+      write: (chunk) => {
+        audio.push(chunk);
+        // Hold the last result back for end()
+        if (!aborted && results.length > 1) onResult(results.shift()!);
+      },
+      end: async () => {
+        await Promise.resolve();
+        while (!aborted && results.length > 0) onResult(results.shift()!);
+      },
+      abort: () => {
+        aborted = true;
+      },
+    };
+  }
+}
+
+/** Word-by-word partials of a transcript, then the final text */
+function transcriptFixture(transcript: string): SttFixture {
+  const words = transcript.split(/\s+/).filter(Boolean);
+  const results: SttResult[] = words
+    .slice(0, -1)
+    .map((_, i) => ({ text: words.slice(0, i + 1).join(' '), isFinal: false }));
+  results.push({ text: transcript, isFinal: true, confidence: 1 });
+  return { results };
+}
+
+/**
+ * Stream recorded audio through a backend and collect its results,
+ * e.g. to check a backend against recordings without a microphone.
+ */
+export async function replayAudio(
+  backend: SttBackend,
+  chunks: readonly Blob[],
+  options: Partial<SttStartOptions> = {}
+): Promise<SttResult[]> {
+  const results: SttResult[] = [];
+  const stream = backend.start(
+    {
+      language: options.language ?? 'en-US',
+      mimeType: options.mimeType ?? (chunks[0]?.type || 'audio/webm'),
+    },
+    (result) => results.push(result)
+  );
+  for (const chunk of chunks) stream.write(chunk);
+  await stream.end();
+  return results;
+}
@@ -0,0 +1,179 @@
+/**
+ * Style measures — Text-only features of a writing voice
+ *
+ * The parts of `VoiceFeatures` that can be read off the text itself,
+ * without embeddings or classification. `VoiceEngine` uses them when
+ * training a model; the conformance analyzer uses them to compare
+ * single blocks (and old revisions, which have no embeddings) with a
+ * model's profile.
+ *
+ * These are heuristics for English prose, good enough to tell a
+ * casual passive-heavy paragraph from a crisp formal one.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface StyleMeasures {
+  /** Average sentence length in words */
+  readonly avgSentenceLength: number;
+  /** Type-token ratio */
+  readonly vocabularyRichness: number;
+  /** 0 = casual, 1 = formal */
+  readonly formality: number;
+  /** Share of sentences without a passive construction */
+  readonly activeVoiceRatio: number;
+  /** Approximate Flesch-Kincaid grade level (1-16) */
+  readonly readabilityGrade: number;
+  /** Number of sentences measured */
+  readonly sentenceCount: number;
+  /** Number of words measured */
+  readonly wordCount: number;
+}
+
+/** Markers of casual writing */
+const CASUAL_WORDS = new Set([
+  'i',
+  'you',
+  'we',
+  'me',
+  'us',
+  'my',
+  'your',
+  'our',
+  'ok',
+  'okay',
+  'yeah',
+  'gonna',
+  'wanna',
+  'kinda',
+  'sorta',
+  'stuff',
+  'lots',
+  'pretty',
+  'really',
+  'super',
+  'awesome',
+  'cool',
+  'basically',
+]);
+
+/** Markers of formal writing */
+const FORMAL_WORDS = new Set([
+  'therefore',
+  'however',
+  'moreover',
+  'furthermore',
+  'consequently',
+  'thus',
+  'hence',
+  'whereas',
+  'accordingly',
+  'nevertheless',
+  'notwithstanding',
+  'regarding',
+  'shall',
+]);
+
+const NOMINALIZATION = /(?:tion|sion|ment|ness|ity|ance|ence)s?$/;
+const CONTRACTION =
+  /(?:n['’]t|['’](?:re|ll|ve|m|d))$|^(?:it|that|he|she|what|there|here|let|who)['’]s$/;
+
+/** A form of "to be" (or "get") followed by a past participle */
+const PASSIVE =
+  /\b(?:am|is|are|was|were|be|been|being|gets?|got|gotten)\s+(?:\w+ly\s+)?(?:\w+ed|done|made|given|taken|written|seen|known|shown|found|built|sent|held|told|kept|left|brought|thought|bought|caught|taught|paid|said|put|set|begun|broken|chosen|driven|eaten|forgotten|hidden|spoken|stolen|thrown|worn|won|led|read|run)\b/i;
+
+// ── Measures ────────────────────────────────────────────────────────
+
+/** Split text into sentences */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/[.!?]+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+/** Measure the style of one or more texts taken together */
+export function measureStyle(texts: readonly string[]): StyleMeasures {
+  const sentences = texts.flatMap(splitSentences);
+  const sentenceLengths = sentences.map((s) => s.split(/\s+/).length);
+  const avgSentenceLength =
+    sentenceLengths.reduce((a, b) => a + b, 0) /
+    Math.max(sentenceLengths.length, 1);
+
+  const words = texts
+    .flatMap((t) => t.toLowerCase().split(/\s+/))
+    .filter((w) => w.length > 0);
+  const vocabularyRichness =
+    words.length > 0 ? new Set(words).size / words.length : 0;
+
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const syllablesPerWord = words.length > 0 ? syllables / words.length : 0;
+
+  const passive = sentences.filter((s) => PASSIVE.test(s)).length;
+
+  return {
+    avgSentenceLength,
+    vocabularyRichness,
+    formality: estimateFormality(texts, words),
+    activeVoiceRatio: sentences.length > 0 ? 1 - passive / sentences.length : 1,
+    readabilityGrade: estimateReadabilityGrade(
+      avgSentenceLength,
+      syllablesPerWord
+    ),
+    sentenceCount: sentences.length,
+    wordCount: words.length,
+  };
+}
+
+/**
+ * Formality from the balance of formal markers (connectives,
+ * nominalizations, long words) and casual ones (contractions, personal
+ * pronouns, slang, exclamations), per word. Neutral text scores 0.5.
+ */
+function estimateFormality(
+  texts: readonly string[],
+  words: readonly string[]
+): number {
+  if (words.length === 0) return 0.5;
+
+  let formal = 0;
+  let casual = 0;
+  for (const raw of words) {
+    const word = raw.replace(/^[^\p{L}']+|[^\p{L}']+$/gu, '');
+    if (!word) continue;
+    if (CONTRACTION.test(word)) casual++;
+    else if (CASUAL_WORDS.has(word)) casual++;
+    else if (FORMAL_WORDS.has(word)) formal++;
+    else if (word.length >= 8 && NOMINALIZATION.test(word)) formal++;
+    else if (word.length >= 10) formal += 0.5;
+  }
+  for (const text of texts) casual += (text.match(/!/g) ?? []).length;
+
+  return Math.max(0, Math.min(1, 0.5 + (2 * (formal - casual)) / words.length));
+}
+
+/**
+ * Flesch-Kincaid grade level. Both inputs are per-sentence or per-word
+ * averages, so a model trained on many blocks gets the same grade as
+ * each of its blocks would.
+ */
+function estimateReadabilityGrade(
+  avgSentenceLength: number,
+  syllablesPerWord: number
+): number {
+  return Math.max(
+    1,
+    Math.min(16, 0.39 * avgSentenceLength + 11.8 * syllablesPerWord - 15.59)
+  );
+}
+
+/** Syllables in a word, counted as vowel groups less a silent final e */
+function countSyllables(raw: string): number {
+  const word = raw.toLowerCase().replace(/[^a-z]/g, '');
+  if (word.length <= 3) return 1;
+  const groups = word
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}